@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "consultations" ADD COLUMN     "transcriptionError" TEXT,
+ADD COLUMN     "transcriptionProgress" INTEGER;
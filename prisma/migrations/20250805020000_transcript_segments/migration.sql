@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "transcript_segments" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "consultationId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "startMs" INTEGER NOT NULL,
+    "endMs" INTEGER NOT NULL,
+    "audioSegment" INTEGER NOT NULL DEFAULT 0,
+    "audioOffsetMs" INTEGER NOT NULL DEFAULT 0,
+    "speaker" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "transcript_segments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transcript_segments_tenantId_idx" ON "transcript_segments"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "transcript_segments_tenantId_consultationId_idx" ON "transcript_segments"("tenantId", "consultationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transcript_segments_consultationId_sequence_key" ON "transcript_segments"("consultationId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "transcript_segments" ADD CONSTRAINT "transcript_segments_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transcript_segments" ADD CONSTRAINT "transcript_segments_consultationId_fkey" FOREIGN KEY ("consultationId") REFERENCES "consultations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ============================================================================
+-- TRANSCRIPT SEGMENTS TABLE POLICIES
+-- ============================================================================
+
+ALTER TABLE transcript_segments ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see transcript segments from their tenant
+CREATE POLICY transcript_segment_tenant_isolation_select ON transcript_segments
+  FOR SELECT
+  USING ("tenantId" = get_current_tenant_id());
+
+-- Users can only insert transcript segments for their tenant
+CREATE POLICY transcript_segment_tenant_isolation_insert ON transcript_segments
+  FOR INSERT
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only update transcript segments from their tenant
+CREATE POLICY transcript_segment_tenant_isolation_update ON transcript_segments
+  FOR UPDATE
+  USING ("tenantId" = get_current_tenant_id())
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only delete transcript segments from their tenant
+CREATE POLICY transcript_segment_tenant_isolation_delete ON transcript_segments
+  FOR DELETE
+  USING ("tenantId" = get_current_tenant_id());
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "consultations" ADD COLUMN     "noteGenerationError" TEXT,
+ADD COLUMN     "noteGenerationProgress" INTEGER;
@@ -0,0 +1,101 @@
+-- CreateTable
+CREATE TABLE "note_templates" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "noteType" "NoteType" NOT NULL DEFAULT 'PROGRESS',
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "source" TEXT NOT NULL,
+    "sections" JSONB NOT NULL,
+    "isBuiltIn" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "note_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "note_template_versions" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "noteType" "NoteType" NOT NULL,
+    "source" TEXT NOT NULL,
+    "sections" JSONB NOT NULL,
+    "changeSummary" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "note_template_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "note_templates_tenantId_idx" ON "note_templates"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "note_templates_tenantId_key_key" ON "note_templates"("tenantId", "key");
+
+-- CreateIndex
+CREATE INDEX "note_template_versions_tenantId_idx" ON "note_template_versions"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "note_template_versions_templateId_version_key" ON "note_template_versions"("templateId", "version");
+
+-- AddForeignKey
+ALTER TABLE "note_templates" ADD CONSTRAINT "note_templates_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "note_template_versions" ADD CONSTRAINT "note_template_versions_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "note_template_versions" ADD CONSTRAINT "note_template_versions_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "note_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ============================================================================
+-- NOTE TEMPLATES TABLE POLICIES
+-- ============================================================================
+
+ALTER TABLE note_templates ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see note templates from their tenant
+CREATE POLICY note_template_tenant_isolation_select ON note_templates
+  FOR SELECT
+  USING ("tenantId" = get_current_tenant_id());
+
+-- Users can only insert note templates for their tenant
+CREATE POLICY note_template_tenant_isolation_insert ON note_templates
+  FOR INSERT
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only update note templates from their tenant
+CREATE POLICY note_template_tenant_isolation_update ON note_templates
+  FOR UPDATE
+  USING ("tenantId" = get_current_tenant_id())
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only delete note templates from their tenant
+CREATE POLICY note_template_tenant_isolation_delete ON note_templates
+  FOR DELETE
+  USING ("tenantId" = get_current_tenant_id());
+
+-- ============================================================================
+-- NOTE TEMPLATE VERSIONS TABLE POLICIES
+-- ============================================================================
+
+ALTER TABLE note_template_versions ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see template versions from their tenant
+CREATE POLICY note_template_version_tenant_isolation_select ON note_template_versions
+  FOR SELECT
+  USING ("tenantId" = get_current_tenant_id());
+
+-- Users can only insert template versions for their tenant
+CREATE POLICY note_template_version_tenant_isolation_insert ON note_template_versions
+  FOR INSERT
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Versions are an audit trail: no update or delete policies, so rows are immutable
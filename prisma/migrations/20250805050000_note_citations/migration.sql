@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "CitationSupport" AS ENUM ('SUPPORTED', 'UNSUPPORTED', 'PATIENT_RECORD');
+
+-- CreateTable
+CREATE TABLE "note_citations" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "sectionKey" TEXT NOT NULL,
+    "statementIndex" INTEGER NOT NULL,
+    "statement" TEXT NOT NULL,
+    "support" "CitationSupport" NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "evidence" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "note_citations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "note_citations_tenantId_idx" ON "note_citations"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "note_citations_tenantId_noteId_idx" ON "note_citations"("tenantId", "noteId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "note_citations_noteId_statementIndex_key" ON "note_citations"("noteId", "statementIndex");
+
+-- AddForeignKey
+ALTER TABLE "note_citations" ADD CONSTRAINT "note_citations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "note_citations" ADD CONSTRAINT "note_citations_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "clinical_notes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ============================================================================
+-- NOTE CITATIONS TABLE POLICIES
+-- ============================================================================
+
+ALTER TABLE note_citations ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see note citations from their tenant
+CREATE POLICY note_citation_tenant_isolation_select ON note_citations
+  FOR SELECT
+  USING ("tenantId" = get_current_tenant_id());
+
+-- Users can only insert note citations for their tenant
+CREATE POLICY note_citation_tenant_isolation_insert ON note_citations
+  FOR INSERT
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only update note citations from their tenant
+CREATE POLICY note_citation_tenant_isolation_update ON note_citations
+  FOR UPDATE
+  USING ("tenantId" = get_current_tenant_id())
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only delete note citations from their tenant
+CREATE POLICY note_citation_tenant_isolation_delete ON note_citations
+  FOR DELETE
+  USING ("tenantId" = get_current_tenant_id());
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "NoteChange" AS ENUM ('CREATED', 'EDITED', 'STATUS_CHANGED', 'AMENDED');
+
+-- AlterTable
+ALTER TABLE "clinical_notes" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "note_versions" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "status" "NoteStatus" NOT NULL,
+    "change" "NoteChange" NOT NULL,
+    "authorId" TEXT,
+    "reason" TEXT,
+    "amendsVersion" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "note_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "note_versions_tenantId_idx" ON "note_versions"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "note_versions_noteId_version_key" ON "note_versions"("noteId", "version");
+
+-- AddForeignKey
+ALTER TABLE "note_versions" ADD CONSTRAINT "note_versions_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "note_versions" ADD CONSTRAINT "note_versions_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "clinical_notes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing notes start their history at their current content
+INSERT INTO "note_versions" ("id", "tenantId", "noteId", "version", "title", "content", "status", "change", "createdAt")
+SELECT gen_random_uuid()::text, "tenantId", "id", 1, "title", "content", "status", 'CREATED', "createdAt"
+FROM "clinical_notes";
+
+-- ============================================================================
+-- NOTE VERSIONS TABLE POLICIES
+-- ============================================================================
+
+ALTER TABLE note_versions ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see note versions from their tenant
+CREATE POLICY note_version_tenant_isolation_select ON note_versions
+  FOR SELECT
+  USING ("tenantId" = get_current_tenant_id());
+
+-- Users can only insert note versions for their tenant
+CREATE POLICY note_version_tenant_isolation_insert ON note_versions
+  FOR INSERT
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Versions are the note's audit trail: no update or delete policies, so rows are immutable
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "letterhead" JSONB;
+
+-- AlterTable
+ALTER TABLE "exports" ADD COLUMN "requestedBy" TEXT;
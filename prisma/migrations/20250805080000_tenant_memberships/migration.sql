@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "TenantRole" AS ENUM ('OWNER', 'CLINICIAN', 'NURSE', 'RECEPTIONIST', 'PRACTICE_MANAGER');
+
+-- AlterTable
+ALTER TABLE "session" ADD COLUMN "activeTenantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "tenant_memberships" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "TenantRole" NOT NULL DEFAULT 'CLINICIAN',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenant_memberships_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tenant_memberships_userId_idx" ON "tenant_memberships"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_memberships_tenantId_userId_key" ON "tenant_memberships"("tenantId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "session" ADD CONSTRAINT "session_activeTenantId_fkey" FOREIGN KEY ("activeTenantId") REFERENCES "tenants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tenant_memberships" ADD CONSTRAINT "tenant_memberships_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tenant_memberships" ADD CONSTRAINT "tenant_memberships_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ============================================================================
+-- TENANT MEMBERSHIPS TABLE POLICIES
+-- ============================================================================
+
+-- Resolving a user's clinics happens before a tenant is active, so it runs on the
+-- application connection like tenant config lookups; these policies scope everything else
+ALTER TABLE tenant_memberships ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see memberships of their tenant
+CREATE POLICY tenant_membership_isolation_select ON tenant_memberships
+  FOR SELECT
+  USING ("tenantId" = get_current_tenant_id());
+
+-- Users can only add members to their tenant
+CREATE POLICY tenant_membership_isolation_insert ON tenant_memberships
+  FOR INSERT
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only change roles within their tenant
+CREATE POLICY tenant_membership_isolation_update ON tenant_memberships
+  FOR UPDATE
+  USING ("tenantId" = get_current_tenant_id())
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only remove members from their tenant
+CREATE POLICY tenant_membership_isolation_delete ON tenant_memberships
+  FOR DELETE
+  USING ("tenantId" = get_current_tenant_id());
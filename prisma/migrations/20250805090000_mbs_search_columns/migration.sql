@@ -0,0 +1,31 @@
+-- Restore the MBS search columns dropped by 20250804071709_restore_mbs_tsv_column.
+-- The tsv trigger kept running after the drop, so item writes fail until tsv exists again.
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- AlterTable
+ALTER TABLE "mbs"."items" ADD COLUMN IF NOT EXISTS "tsv" TSVECTOR;
+ALTER TABLE "mbs"."items" DROP COLUMN IF EXISTS "embedding";
+ALTER TABLE "mbs"."items" ADD COLUMN "embedding" vector(3072);
+
+-- Keep tsv current on insert and update
+DROP TRIGGER IF EXISTS trigger_mbs_items_update_tsv ON "mbs"."items";
+CREATE TRIGGER trigger_mbs_items_update_tsv
+    BEFORE INSERT OR UPDATE ON "mbs"."items"
+    FOR EACH ROW
+    EXECUTE FUNCTION mbs.update_item_tsv();
+
+-- Populate tsv for existing rows
+UPDATE "mbs"."items" SET tsv = to_tsvector('english',
+    COALESCE(item_number::text, '') || ' ' ||
+    COALESCE(description, '') || ' ' ||
+    COALESCE(short_description, '') || ' ' ||
+    COALESCE(category, '') || ' ' ||
+    COALESCE(group_name, '') || ' ' ||
+    COALESCE(service_type, '')
+) WHERE tsv IS NULL;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "idx_mbs_items_tsv" ON "mbs"."items" USING GIN ("tsv");
+
+-- No ANN index on embedding: pgvector indexes top out at 2000 dimensions, and an
+-- exact scan over the schedule's few thousand items is fast enough for search.
@@ -0,0 +1,8 @@
+-- Suggestions are generated by a background job, so there is no user until a clinician acts on one
+ALTER TABLE "mbs"."suggestions" ALTER COLUMN "user_id" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "mbs"."suggestions" ADD COLUMN "original_item_number" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "suggestions_tenant_id_consultation_id_idx" ON "mbs"."suggestions"("tenant_id", "consultation_id");
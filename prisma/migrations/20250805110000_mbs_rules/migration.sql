@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "mbs"."rules" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "code" VARCHAR(100) NOT NULL,
+    "description" TEXT NOT NULL,
+    "rule_type" VARCHAR(20) NOT NULL,
+    "definition" JSONB NOT NULL,
+    "severity" VARCHAR(10) NOT NULL DEFAULT 'error',
+    "effective_from" DATE,
+    "effective_to" DATE,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rules_code_key" ON "mbs"."rules"("code");
+
+-- CreateIndex
+CREATE INDEX "rules_is_active_idx" ON "mbs"."rules"("is_active");
+
+-- Rules are shared reference data like the items themselves, so only the application role may read them
+REVOKE ALL PRIVILEGES ON "mbs"."rules" FROM PUBLIC;
+GRANT ALL PRIVILEGES ON "mbs"."rules" TO ariascribe;
+
+-- Rules for common general practice items. Later schedule releases add or retire
+-- rules through the MBS admin tools rather than new migrations.
+INSERT INTO "mbs"."rules" ("code", "description", "rule_type", "definition", "severity") VALUES
+    ('gp-attendance-one-per-consultation', 'Only one general practice attendance item can be claimed for a consultation', 'exclusive',
+        '{"type": "exclusive", "selector": {"items": [3, 23, 36, 44, 123]}}', 'error'),
+    ('gp-attendance-level-b-duration', 'Level B attendances last less than 20 minutes', 'time-tier',
+        '{"type": "time-tier", "selector": {"items": [23]}, "underMinutes": 20}', 'error'),
+    ('gp-attendance-level-c-duration', 'Level C attendances last at least 20 minutes', 'time-tier',
+        '{"type": "time-tier", "selector": {"items": [36]}, "minMinutes": 20}', 'error'),
+    ('gp-attendance-level-d-duration', 'Level D attendances last at least 40 minutes', 'time-tier',
+        '{"type": "time-tier", "selector": {"items": [44]}, "minMinutes": 40}', 'error'),
+    ('gp-attendance-level-e-duration', 'Level E attendances last at least 60 minutes', 'time-tier',
+        '{"type": "time-tier", "selector": {"items": [123]}, "minMinutes": 60}', 'error'),
+    ('heart-health-assessment-age', 'Heart health assessments are for patients aged 30 years and over', 'age',
+        '{"type": "age", "selector": {"items": [699]}, "minAge": 30}', 'error'),
+    ('heart-health-assessment-frequency', 'A heart health assessment can be claimed once in 12 months', 'frequency',
+        '{"type": "frequency", "selector": {"items": [699]}, "maxClaims": 1, "periodDays": 365}', 'error'),
+    ('gp-management-plan-frequency', 'A GP management plan can be claimed once in 12 months', 'frequency',
+        '{"type": "frequency", "selector": {"items": [721]}, "maxClaims": 1, "periodDays": 365}', 'error'),
+    ('mental-health-plan-frequency', 'A GP mental health treatment plan can be claimed once in 12 months', 'frequency',
+        '{"type": "frequency", "selector": {"items": [2700, 2701, 2715, 2717]}, "maxClaims": 1, "periodDays": 365}', 'warning'),
+    ('ecg-same-day', 'An ECG tracing can be claimed once per day', 'frequency',
+        '{"type": "frequency", "selector": {"items": [11707]}, "maxClaims": 1, "periodDays": 1}', 'error')
+ON CONFLICT ("code") DO NOTHING;
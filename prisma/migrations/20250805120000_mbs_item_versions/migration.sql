@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE "mbs"."ingestion_log" ADD COLUMN "effective_date" DATE,
+ADD COLUMN "change_summary" JSONB;
+
+-- CreateTable
+CREATE TABLE "mbs"."item_versions" (
+    "id" SERIAL NOT NULL,
+    "item_number" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "short_description" TEXT,
+    "category" VARCHAR(10),
+    "sub_category" VARCHAR(10),
+    "group_name" TEXT,
+    "sub_group" TEXT,
+    "provider_type" VARCHAR(10),
+    "service_type" VARCHAR(50),
+    "schedule_fee" DECIMAL(10,2),
+    "benefit_75" DECIMAL(10,2),
+    "benefit_85" DECIMAL(10,2),
+    "benefit_100" DECIMAL(10,2),
+    "derived_fee_description" TEXT,
+    "item_start_date" DATE,
+    "item_end_date" DATE,
+    "ingestion_log_id" INTEGER,
+    "retired_log_id" INTEGER,
+    "valid_from" DATE NOT NULL,
+    "valid_to" DATE,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "item_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "item_versions_item_number_valid_from_idx" ON "mbs"."item_versions"("item_number", "valid_from");
+
+-- CreateIndex
+CREATE INDEX "item_versions_ingestion_log_id_idx" ON "mbs"."item_versions"("ingestion_log_id");
+
+-- CreateIndex
+CREATE INDEX "item_versions_retired_log_id_idx" ON "mbs"."item_versions"("retired_log_id");
+
+-- AddForeignKey
+ALTER TABLE "mbs"."item_versions" ADD CONSTRAINT "item_versions_item_number_fkey" FOREIGN KEY ("item_number") REFERENCES "mbs"."items"("item_number") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mbs"."item_versions" ADD CONSTRAINT "item_versions_ingestion_log_id_fkey" FOREIGN KEY ("ingestion_log_id") REFERENCES "mbs"."ingestion_log"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mbs"."item_versions" ADD CONSTRAINT "item_versions_retired_log_id_fkey" FOREIGN KEY ("retired_log_id") REFERENCES "mbs"."ingestion_log"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Item history is shared reference data like the items themselves, so only the application role may read it
+REVOKE ALL PRIVILEGES ON "mbs"."item_versions" FROM PUBLIC;
+GRANT ALL PRIVILEGES ON "mbs"."item_versions" TO ariascribe;
+GRANT USAGE, SELECT ON SEQUENCE "mbs"."item_versions_id_seq" TO ariascribe;
+
+-- Record the items already loaded as their first version. They predate item
+-- history, so they aren't tied to an ingestion and apply from the item's start date.
+INSERT INTO "mbs"."item_versions" (
+    "item_number", "description", "short_description", "category", "sub_category", "group_name", "sub_group",
+    "provider_type", "service_type", "schedule_fee", "benefit_75", "benefit_85", "benefit_100",
+    "derived_fee_description", "item_start_date", "item_end_date", "valid_from"
+)
+SELECT
+    "item_number", "description", "short_description", "category", "sub_category", "group_name", "sub_group",
+    "provider_type", "service_type", "schedule_fee", "benefit_75", "benefit_85", "benefit_100",
+    "derived_fee_description", "item_start_date", "item_end_date", COALESCE("item_start_date", "created_at"::date)
+FROM "mbs"."items";
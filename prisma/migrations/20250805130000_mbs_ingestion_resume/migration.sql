@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "mbs"."ingestion_log" ADD COLUMN "records_total" INTEGER,
+ADD COLUMN "resume_offset" INTEGER;
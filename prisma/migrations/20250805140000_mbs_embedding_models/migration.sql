@@ -0,0 +1,43 @@
+-- Vectors from different models can have different dimensions, so the column
+-- no longer fixes one. Existing vectors all came from text-embedding-3-large.
+-- AlterTable
+ALTER TABLE "mbs"."items" ALTER COLUMN "embedding" TYPE vector,
+ADD COLUMN "embedding_model" VARCHAR(100),
+ADD COLUMN "embedding_dimensions" INTEGER,
+ADD COLUMN "next_embedding" vector;
+
+UPDATE "mbs"."items" SET "embedding_model" = 'text-embedding-3-large', "embedding_dimensions" = 3072
+WHERE "embedding" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "mbs"."ingestion_log" RENAME COLUMN "openai_model" TO "embedding_model";
+ALTER TABLE "mbs"."ingestion_log" ALTER COLUMN "embedding_model" DROP NOT NULL,
+ALTER COLUMN "embedding_model" DROP DEFAULT,
+ALTER COLUMN "embedding_model" TYPE VARCHAR(100);
+
+-- CreateTable
+CREATE TABLE "mbs"."embedding_migrations" (
+    "id" SERIAL NOT NULL,
+    "provider" VARCHAR(20) NOT NULL,
+    "model" VARCHAR(100) NOT NULL,
+    "dimensions" INTEGER NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'running',
+    "items_total" INTEGER NOT NULL DEFAULT 0,
+    "items_embedded" INTEGER NOT NULL DEFAULT 0,
+    "items_failed" INTEGER NOT NULL DEFAULT 0,
+    "error_message" TEXT,
+    "started_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "embedding_migrations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "embedding_migrations_status_idx" ON "mbs"."embedding_migrations"("status");
+
+-- At most one migration runs at a time
+CREATE UNIQUE INDEX "embedding_migrations_one_running" ON "mbs"."embedding_migrations"("status") WHERE "status" = 'running';
+
+REVOKE ALL PRIVILEGES ON "mbs"."embedding_migrations" FROM PUBLIC;
+GRANT ALL PRIVILEGES ON "mbs"."embedding_migrations" TO ariascribe;
+GRANT USAGE, SELECT ON SEQUENCE "mbs"."embedding_migrations_id_seq" TO ariascribe;
@@ -0,0 +1,147 @@
+-- CreateEnum
+CREATE TYPE "ClaimBatchStatus" AS ENUM ('OPEN', 'EXPORTED');
+
+-- CreateEnum
+CREATE TYPE "ClaimStatus" AS ENUM ('PENDING', 'EXPORTED', 'SUBMITTED', 'PAID', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "medicareNumber" TEXT,
+ADD COLUMN "medicareIrn" INTEGER;
+
+-- AlterTable
+ALTER TABLE "tenant_memberships" ADD COLUMN "providerNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "claim_batches" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "serviceDate" DATE NOT NULL,
+    "status" "ClaimBatchStatus" NOT NULL DEFAULT 'OPEN',
+    "exportedAt" TIMESTAMP(3),
+    "exportedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "claim_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "claim_lines" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "consultationId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "suggestionId" TEXT NOT NULL,
+    "itemNumber" INTEGER NOT NULL,
+    "itemDescription" TEXT NOT NULL,
+    "scheduleFee" DECIMAL(10,2),
+    "serviceDate" TIMESTAMP(3) NOT NULL,
+    "clinicianId" TEXT,
+    "providerNumber" TEXT,
+    "patientFirstName" TEXT NOT NULL,
+    "patientLastName" TEXT NOT NULL,
+    "patientDateOfBirth" TIMESTAMP(3),
+    "medicareNumber" TEXT,
+    "medicareIrn" INTEGER,
+    "status" "ClaimStatus" NOT NULL DEFAULT 'PENDING',
+    "statusReason" TEXT,
+    "statusUpdatedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "claim_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "claim_batches_tenantId_idx" ON "claim_batches"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "claim_batches_tenantId_serviceDate_idx" ON "claim_batches"("tenantId", "serviceDate");
+
+-- One open batch per clinic and day, which new claims for that day join
+CREATE UNIQUE INDEX "claim_batches_open_day_key" ON "claim_batches"("tenantId", "serviceDate") WHERE "status" = 'OPEN';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "claim_lines_suggestionId_key" ON "claim_lines"("suggestionId");
+
+-- CreateIndex
+CREATE INDEX "claim_lines_tenantId_idx" ON "claim_lines"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "claim_lines_tenantId_status_idx" ON "claim_lines"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "claim_lines_batchId_idx" ON "claim_lines"("batchId");
+
+-- CreateIndex
+CREATE INDEX "claim_lines_tenantId_consultationId_idx" ON "claim_lines"("tenantId", "consultationId");
+
+-- AddForeignKey
+ALTER TABLE "claim_batches" ADD CONSTRAINT "claim_batches_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "claim_lines" ADD CONSTRAINT "claim_lines_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "claim_lines" ADD CONSTRAINT "claim_lines_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "claim_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "claim_lines" ADD CONSTRAINT "claim_lines_consultationId_fkey" FOREIGN KEY ("consultationId") REFERENCES "consultations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "claim_lines" ADD CONSTRAINT "claim_lines_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ============================================================================
+-- CLAIM BATCHES TABLE POLICIES
+-- ============================================================================
+
+ALTER TABLE claim_batches ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see claim batches from their tenant
+CREATE POLICY claim_batch_tenant_isolation_select ON claim_batches
+  FOR SELECT
+  USING ("tenantId" = get_current_tenant_id());
+
+-- Users can only insert claim batches for their tenant
+CREATE POLICY claim_batch_tenant_isolation_insert ON claim_batches
+  FOR INSERT
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only update claim batches from their tenant
+CREATE POLICY claim_batch_tenant_isolation_update ON claim_batches
+  FOR UPDATE
+  USING ("tenantId" = get_current_tenant_id())
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only delete claim batches from their tenant
+CREATE POLICY claim_batch_tenant_isolation_delete ON claim_batches
+  FOR DELETE
+  USING ("tenantId" = get_current_tenant_id());
+
+-- ============================================================================
+-- CLAIM LINES TABLE POLICIES
+-- ============================================================================
+
+ALTER TABLE claim_lines ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see claim lines from their tenant
+CREATE POLICY claim_line_tenant_isolation_select ON claim_lines
+  FOR SELECT
+  USING ("tenantId" = get_current_tenant_id());
+
+-- Users can only insert claim lines for their tenant
+CREATE POLICY claim_line_tenant_isolation_insert ON claim_lines
+  FOR INSERT
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only update claim lines from their tenant
+CREATE POLICY claim_line_tenant_isolation_update ON claim_lines
+  FOR UPDATE
+  USING ("tenantId" = get_current_tenant_id())
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only delete claim lines from their tenant
+CREATE POLICY claim_line_tenant_isolation_delete ON claim_lines
+  FOR DELETE
+  USING ("tenantId" = get_current_tenant_id());
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "consultations" ADD COLUMN "clinicianId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "consultations_tenantId_clinicianId_idx" ON "consultations"("tenantId", "clinicianId");
+
+-- Earlier consultations are attributed to the clinician who first actioned one of their MBS suggestions
+UPDATE "consultations" c
+SET "clinicianId" = (
+    SELECT s.user_id
+    FROM mbs.suggestions s
+    WHERE s.consultation_id = c."id" AND s.user_id IS NOT NULL
+    ORDER BY s.user_action_at ASC NULLS LAST
+    LIMIT 1
+)
+WHERE c."clinicianId" IS NULL;
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "ehr_connections" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "fhirBaseUrl" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "clientSecret" TEXT,
+    "scopes" TEXT NOT NULL,
+    "accessToken" TEXT,
+    "refreshToken" TEXT,
+    "tokenEndpoint" TEXT,
+    "tokenExpiresAt" TIMESTAMP(3),
+    "grantedScopes" TEXT,
+    "authorizedBy" TEXT,
+    "authorizedAt" TIMESTAMP(3),
+    "refreshError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ehr_connections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ehr_connections_tenantId_key" ON "ehr_connections"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "ehr_connections" ADD CONSTRAINT "ehr_connections_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ============================================================================
+-- EHR CONNECTIONS TABLE POLICIES
+-- ============================================================================
+
+ALTER TABLE ehr_connections ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their tenant's EHR connection
+CREATE POLICY ehr_connection_tenant_isolation_select ON ehr_connections
+  FOR SELECT
+  USING ("tenantId" = get_current_tenant_id());
+
+-- Users can only set up an EHR connection for their tenant
+CREATE POLICY ehr_connection_tenant_isolation_insert ON ehr_connections
+  FOR INSERT
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only update their tenant's EHR connection
+CREATE POLICY ehr_connection_tenant_isolation_update ON ehr_connections
+  FOR UPDATE
+  USING ("tenantId" = get_current_tenant_id())
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only remove their tenant's EHR connection
+CREATE POLICY ehr_connection_tenant_isolation_delete ON ehr_connections
+  FOR DELETE
+  USING ("tenantId" = get_current_tenant_id());
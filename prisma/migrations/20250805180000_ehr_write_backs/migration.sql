@@ -0,0 +1,84 @@
+-- CreateEnum
+CREATE TYPE "EhrWriteBackKind" AS ENUM ('CLINICAL_NOTE', 'APPOINTMENT_STATUS');
+
+-- CreateEnum
+CREATE TYPE "EhrWriteBackStatus" AS ENUM ('PENDING', 'DELIVERED', 'FAILED', 'CONFLICT');
+
+-- AlterTable
+ALTER TABLE "consultations" ADD COLUMN     "ehrAppointmentId" TEXT,
+ADD COLUMN     "ehrAppointmentStart" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "clinical_notes" ADD COLUMN     "ehrNoteId" TEXT,
+ADD COLUMN     "ehrUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ehr_write_backs" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "kind" "EhrWriteBackKind" NOT NULL,
+    "requestedBy" TEXT,
+    "noteId" TEXT,
+    "consultationId" TEXT,
+    "ehrAppointmentId" TEXT,
+    "appointmentStart" TIMESTAMP(3),
+    "appointmentStatus" TEXT,
+    "status" "EhrWriteBackStatus" NOT NULL DEFAULT 'PENDING',
+    "overwrite" BOOLEAN NOT NULL DEFAULT false,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ehr_write_backs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ehr_write_backs_tenantId_idx" ON "ehr_write_backs"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "ehr_write_backs_tenantId_status_idx" ON "ehr_write_backs"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "ehr_write_backs_tenantId_noteId_idx" ON "ehr_write_backs"("tenantId", "noteId");
+
+-- CreateIndex
+CREATE INDEX "ehr_write_backs_tenantId_consultationId_idx" ON "ehr_write_backs"("tenantId", "consultationId");
+
+-- AddForeignKey
+ALTER TABLE "ehr_write_backs" ADD CONSTRAINT "ehr_write_backs_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ehr_write_backs" ADD CONSTRAINT "ehr_write_backs_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "clinical_notes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ehr_write_backs" ADD CONSTRAINT "ehr_write_backs_consultationId_fkey" FOREIGN KEY ("consultationId") REFERENCES "consultations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ============================================================================
+-- EHR WRITE-BACKS TABLE POLICIES
+-- ============================================================================
+
+ALTER TABLE ehr_write_backs ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their tenant's write-backs
+CREATE POLICY ehr_write_back_tenant_isolation_select ON ehr_write_backs
+  FOR SELECT
+  USING ("tenantId" = get_current_tenant_id());
+
+-- Users can only queue write-backs for their tenant
+CREATE POLICY ehr_write_back_tenant_isolation_insert ON ehr_write_backs
+  FOR INSERT
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only update their tenant's write-backs
+CREATE POLICY ehr_write_back_tenant_isolation_update ON ehr_write_backs
+  FOR UPDATE
+  USING ("tenantId" = get_current_tenant_id())
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only remove their tenant's write-backs
+CREATE POLICY ehr_write_back_tenant_isolation_delete ON ehr_write_backs
+  FOR DELETE
+  USING ("tenantId" = get_current_tenant_id());
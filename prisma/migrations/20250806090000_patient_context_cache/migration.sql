@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "PatientContextSection" AS ENUM ('SUMMARY', 'MEDICATIONS', 'ALLERGIES', 'ALERTS', 'RECENT_NOTES');
+
+-- CreateTable
+CREATE TABLE "patient_context_cache" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "ehrPatientId" TEXT NOT NULL,
+    "section" "PatientContextSection" NOT NULL,
+    "data" JSONB NOT NULL,
+    "fetchedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "patient_context_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "patient_context_cache_tenantId_idx" ON "patient_context_cache"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "patient_context_cache_tenantId_ehrPatientId_section_key" ON "patient_context_cache"("tenantId", "ehrPatientId", "section");
+
+-- AddForeignKey
+ALTER TABLE "patient_context_cache" ADD CONSTRAINT "patient_context_cache_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- ============================================================================
+-- PATIENT CONTEXT CACHE TABLE POLICIES
+-- ============================================================================
+
+ALTER TABLE patient_context_cache ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see their tenant's cached patient context
+CREATE POLICY patient_context_cache_tenant_isolation_select ON patient_context_cache
+  FOR SELECT
+  USING ("tenantId" = get_current_tenant_id());
+
+-- Users can only cache patient context for their tenant
+CREATE POLICY patient_context_cache_tenant_isolation_insert ON patient_context_cache
+  FOR INSERT
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only update their tenant's cached patient context
+CREATE POLICY patient_context_cache_tenant_isolation_update ON patient_context_cache
+  FOR UPDATE
+  USING ("tenantId" = get_current_tenant_id())
+  WITH CHECK ("tenantId" = get_current_tenant_id());
+
+-- Users can only remove their tenant's cached patient context
+CREATE POLICY patient_context_cache_tenant_isolation_delete ON patient_context_cache
+  FOR DELETE
+  USING ("tenantId" = get_current_tenant_id());
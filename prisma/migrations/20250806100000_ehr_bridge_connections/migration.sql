@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "EhrBridgeVendor" AS ENUM ('BEST_PRACTICE', 'MEDICAL_DIRECTOR');
+
+-- AlterTable
+ALTER TABLE "ehr_connections" ALTER COLUMN "fhirBaseUrl" DROP NOT NULL,
+ALTER COLUMN "clientId" DROP NOT NULL,
+ALTER COLUMN "scopes" DROP NOT NULL,
+ADD COLUMN     "bridgeUrl" TEXT,
+ADD COLUMN     "bridgeToken" TEXT,
+ADD COLUMN     "bridgeVendor" "EhrBridgeVendor";
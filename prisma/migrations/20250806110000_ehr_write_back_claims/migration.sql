@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "EhrWriteBackStatus" ADD VALUE 'DELIVERING';
@@ -72,4 +72,25 @@ const users: {
       return res;
     }),
   );
+
+  if (!admin || !user1 || !user2) {
+    throw new Error("Seed users were not created");
+  }
+
+  // Two clinics so the tenant switcher has something to switch between
+  const harbourStreet = await prisma.tenant.create({
+    data: { name: "Harbour Street Medical" },
+  });
+  const northside = await prisma.tenant.create({
+    data: { name: "Northside Family Practice" },
+  });
+
+  await prisma.tenantMembership.createMany({
+    data: [
+      { tenantId: harbourStreet.id, userId: admin.user.id, role: "OWNER" },
+      { tenantId: northside.id, userId: admin.user.id, role: "PRACTICE_MANAGER" },
+      { tenantId: harbourStreet.id, userId: user1.user.id, role: "CLINICIAN" },
+      { tenantId: northside.id, userId: user2.user.id, role: "NURSE" },
+    ],
+  });
 })();
@@ -0,0 +1,33 @@
+import MbsIngestionTimeline from "@/app/(app)/(full-page)/admin/_components/mbs-ingestion-timeline";
+import MbsItemStats from "@/app/(app)/(full-page)/admin/_components/mbs-item-stats";
+import MbsPipelineJobs from "@/app/(app)/(full-page)/admin/_components/mbs-pipeline-jobs";
+import MbsReleaseDiff from "@/app/(app)/(full-page)/admin/_components/mbs-release-diff";
+import MbsReleaseUpload from "@/app/(app)/(full-page)/admin/_components/mbs-release-upload";
+
+export default function AdminDashboardTabMbs() {
+  return (
+    <div className="space-y-8 overflow-y-auto pb-8">
+      <MbsReleaseUpload />
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-medium">Pipeline jobs</h2>
+        <MbsPipelineJobs />
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-medium">Ingestion runs</h2>
+        <MbsIngestionTimeline />
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-medium">Items</h2>
+        <MbsItemStats />
+      </section>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-medium">Release changes</h2>
+        <MbsReleaseDiff />
+      </section>
+    </div>
+  );
+}
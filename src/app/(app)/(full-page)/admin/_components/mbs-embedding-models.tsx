@@ -0,0 +1,112 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "@/trpc/react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/Spinner";
+
+const STATUS_COLORS: Record<string, string> = {
+  running: "blue-600",
+  completed: "green-600",
+  failed: "red-600",
+};
+
+export default function MbsEmbeddingModels() {
+  const utils = api.useUtils();
+  const statusQuery = api.mbsAdmin.getEmbeddingStatus.useQuery(undefined, {
+    refetchInterval: (query) => (query.state.data?.latestMigration?.status === "running" ? 3000 : false),
+  });
+
+  const startMigration = api.mbsAdmin.startEmbeddingMigration.useMutation({
+    onSuccess: (result) => {
+      toast.success(`Re-embedding ${result.migration.itemsTotal} items with ${result.migration.model}`);
+      void utils.mbsAdmin.getEmbeddingStatus.invalidate();
+      void utils.mbsAdmin.getRecentJobs.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (statusQuery.isLoading) return <Spinner className="my-4" />;
+
+  if (statusQuery.error) {
+    return <div className="text-red-500">{statusQuery.error.message}</div>;
+  }
+
+  const status = statusQuery.data;
+  if (!status) return null;
+
+  const migration = status.latestMigration;
+  const migrationRunning = migration?.status === "running";
+  const migrationProgress = migration?.itemsTotal
+    ? Math.round((migration.itemsEmbedded / migration.itemsTotal) * 100)
+    : 0;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium">Embedding models</h3>
+      <p className="text-muted-foreground text-sm">
+        {status.provider
+          ? `New embeddings use ${status.provider.model} (${status.provider.dimensions} dimensions).`
+          : "Embeddings are turned off, so items are searched on text alone."}
+      </p>
+
+      <ul className="space-y-1 text-sm">
+        {status.models.map((row) => (
+          <li key={`${row.model}:${row.dimensions}`} className="flex items-center gap-2">
+            <span className="font-mono text-xs">{row.model ? `${row.model} (${row.dimensions})` : "No embedding"}</span>
+            <span className="text-muted-foreground tabular-nums">{row.items.toLocaleString()} items</span>
+            {status.provider?.model === row.model && status.provider.dimensions === row.dimensions && (
+              <Badge variant="outline" color="green-600">
+                current
+              </Badge>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {migration && (
+        <div className="max-w-md space-y-1 text-sm">
+          <div className="flex items-center gap-2">
+            <span>Migration to {migration.model}</span>
+            <Badge variant="outline" color={STATUS_COLORS[migration.status] ?? "gray-600"}>
+              {migration.status}
+            </Badge>
+            <span className="text-muted-foreground text-xs">
+              {formatDistanceToNow(migration.completedAt ?? migration.startedAt, { addSuffix: true })}
+            </span>
+          </div>
+          {migration.status !== "completed" && (
+            <div className="flex items-center gap-2">
+              <div className="bg-muted h-2 flex-1 overflow-hidden rounded-full">
+                <div className="bg-primary h-full transition-all" style={{ width: `${migrationProgress}%` }} />
+              </div>
+              <span className="text-muted-foreground text-xs tabular-nums">
+                {migration.itemsEmbedded.toLocaleString()} / {migration.itemsTotal.toLocaleString()}
+              </span>
+            </div>
+          )}
+          {migrationRunning && (
+            <p className="text-muted-foreground text-xs">Search keeps using the previous vectors until every item is done.</p>
+          )}
+          {migration.errorMessage && <p className="text-xs text-red-500">{migration.errorMessage}</p>}
+        </div>
+      )}
+
+      {status.provider && status.itemsToMigrate > 0 && (
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={migrationRunning || startMigration.isPending}
+          onClick={() => startMigration.mutate()}
+        >
+          <RefreshCw className="mr-1 h-4 w-4" />
+          {migration?.status === "failed" && migration.model === status.provider.model ? "Resume" : "Re-embed"}{" "}
+          {status.itemsToMigrate.toLocaleString()} items with {status.provider.model}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { format, formatDistanceStrict } from "date-fns";
+import { RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "@/trpc/react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/Spinner";
+import { cn } from "@/lib/utils";
+import type { MbsReleaseChangeSummary } from "@/server/services/mbs/MbsItemHistoryService";
+import type { MbsXmlRecordError } from "@/server/services/mbs/MbsWorkerService";
+
+const PAGE_SIZE = 10;
+
+const STATUS_COLORS: Record<string, string> = {
+  processing: "blue-600",
+  completed: "green-600",
+  failed: "red-600",
+};
+
+const getRecordErrors = (errorDetails: unknown): MbsXmlRecordError[] => {
+  if (errorDetails && typeof errorDetails === "object" && "recordErrors" in errorDetails) {
+    return (errorDetails as { recordErrors: MbsXmlRecordError[] }).recordErrors;
+  }
+  return [];
+};
+
+function Counter({ label, value, className }: { label: string; value: number; className?: string }) {
+  return (
+    <div>
+      <div className={cn("text-lg font-medium tabular-nums", className)}>{value.toLocaleString()}</div>
+      <div className="text-muted-foreground text-xs">{label}</div>
+    </div>
+  );
+}
+
+export default function MbsIngestionTimeline() {
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [expandedLogId, setExpandedLogId] = useState<number | null>(null);
+
+  const utils = api.useUtils();
+  const logsQuery = api.mbsAdmin.getIngestionLogs.useQuery(
+    { limit, offset: 0 },
+    {
+      refetchInterval: (query) =>
+        query.state.data?.logs.some((log) => log.status === "processing") ? 3000 : false,
+    },
+  );
+
+  const retryIngestion = api.mbsAdmin.retryIngestion.useMutation({
+    onSuccess: () => {
+      toast.success("Ingestion queued to carry on from where it stopped");
+      void utils.mbsAdmin.getRecentJobs.invalidate();
+      void utils.mbsAdmin.getIngestionLogs.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (logsQuery.isLoading) return <Spinner className="my-4" />;
+
+  if (logsQuery.error) {
+    return <div className="text-red-500">{logsQuery.error.message}</div>;
+  }
+
+  const logs = logsQuery.data?.logs ?? [];
+  if (logs.length === 0) {
+    return <p className="text-muted-foreground text-sm">No MBS releases have been ingested yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="border-muted relative space-y-6 border-l pl-6">
+        {logs.map((log) => {
+          const changeSummary = log.changeSummary as MbsReleaseChangeSummary | null;
+          const recordErrors = getRecordErrors(log.errorDetails);
+          const committed = log.status === "completed" ? log.recordsTotal : log.resumeOffset;
+          const progress = log.recordsTotal ? Math.round(((committed ?? 0) / log.recordsTotal) * 100) : null;
+
+          return (
+            <li key={log.id} className="relative">
+              <span
+                className={cn(
+                  "border-background absolute -left-[31px] top-1.5 h-3 w-3 rounded-full border-2",
+                  log.status === "completed" && "bg-green-600",
+                  log.status === "failed" && "bg-red-600",
+                  log.status === "processing" && "animate-pulse bg-blue-600",
+                )}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{log.fileName ?? `Ingestion ${log.id}`}</span>
+                <Badge variant="outline" color={STATUS_COLORS[log.status] ?? "gray-600"}>
+                  {log.status}
+                </Badge>
+                {log.status === "failed" && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={retryIngestion.isPending}
+                    onClick={() => retryIngestion.mutate({ logId: log.id })}
+                  >
+                    <RotateCcw className="mr-1 h-4 w-4" />
+                    Retry
+                  </Button>
+                )}
+              </div>
+              <div className="text-muted-foreground text-xs">
+                Started {format(log.startedAt, "d MMM yyyy, h:mm a")}
+                {log.completedAt && ` · took ${formatDistanceStrict(log.completedAt, log.startedAt)}`}
+                {log.effectiveDate && ` · applies from ${format(log.effectiveDate, "d MMM yyyy")}`}
+              </div>
+
+              {progress !== null && log.status !== "completed" && (
+                <div className="mt-2 flex max-w-md items-center gap-2">
+                  <div className="bg-muted h-2 flex-1 overflow-hidden rounded-full">
+                    <div className="bg-primary h-full transition-all" style={{ width: `${progress}%` }} />
+                  </div>
+                  <span className="text-muted-foreground text-xs tabular-nums">
+                    {(committed ?? 0).toLocaleString()} / {log.recordsTotal?.toLocaleString()} records
+                  </span>
+                </div>
+              )}
+
+              <div className="mt-2 flex flex-wrap gap-6">
+                <Counter label="Processed" value={log.itemsProcessed} />
+                <Counter label="Inserted" value={log.itemsInserted} />
+                <Counter label="Updated" value={log.itemsUpdated} />
+                <Counter label="Failed" value={log.itemsFailed} className={log.itemsFailed > 0 ? "text-red-600" : undefined} />
+                {changeSummary && (
+                  <>
+                    <Counter label="New items" value={changeSummary.new} />
+                    <Counter label="Removed" value={changeSummary.removed} />
+                    <Counter label="Fee changes" value={changeSummary.feeChanged} />
+                  </>
+                )}
+              </div>
+
+              {log.errorMessage && <p className="mt-2 text-sm text-red-500">{log.errorMessage}</p>}
+
+              {recordErrors.length > 0 && (
+                <div className="mt-2 text-sm">
+                  <button
+                    className="text-muted-foreground underline-offset-2 hover:underline"
+                    onClick={() => setExpandedLogId(expandedLogId === log.id ? null : log.id)}
+                  >
+                    {recordErrors.length} records skipped
+                  </button>
+                  {expandedLogId === log.id && (
+                    <ul className="mt-1 max-h-48 space-y-0.5 overflow-y-auto font-mono text-xs">
+                      {recordErrors.map((recordError) => (
+                        <li key={recordError.record}>
+                          Line {recordError.line}
+                          {recordError.itemNumber && ` (item ${recordError.itemNumber})`}: {recordError.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {logsQuery.data?.hasMore && limit < 100 && (
+        <Button size="sm" variant="outline" onClick={() => setLimit(limit + PAGE_SIZE)}>
+          Show older runs
+        </Button>
+      )}
+    </div>
+  );
+}
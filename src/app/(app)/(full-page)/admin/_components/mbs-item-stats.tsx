@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "@/trpc/react";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/Spinner";
+import { Textarea } from "@/components/ui/textarea";
+import MbsEmbeddingModels from "@/app/(app)/(full-page)/admin/_components/mbs-embedding-models";
+
+const parseItemNumbers = (text: string): number[] => [
+  ...new Set(
+    text
+      .split(/[\s,]+/)
+      .map((value) => Number(value))
+      .filter((value) => Number.isInteger(value) && value > 0),
+  ),
+];
+
+function Breakdown({ title, rows, total }: { title: string; rows: { label: string; count: number }[]; total: number }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <ul className="space-y-1 text-sm">
+        {rows.map((row) => (
+          <li key={row.label} className="grid grid-cols-[6rem_1fr_4rem] items-center gap-2">
+            <span className="truncate">{row.label}</span>
+            <div className="bg-muted h-2 overflow-hidden rounded-full">
+              <div className="bg-primary h-full" style={{ width: `${total ? (row.count / total) * 100 : 0}%` }} />
+            </div>
+            <span className="text-muted-foreground text-right tabular-nums">{row.count.toLocaleString()}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function MbsItemStats() {
+  const [itemNumbersText, setItemNumbersText] = useState("");
+  const statsQuery = api.mbsAdmin.getItemStats.useQuery();
+  const utils = api.useUtils();
+
+  const regenerate = api.mbsAdmin.regenerateEmbeddings.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        `Queued embeddings for ${result.itemCount} items` +
+          (result.missingItemNumbers.length > 0
+            ? `. Not found: ${result.missingItemNumbers.join(", ")}`
+            : ""),
+      );
+      setItemNumbersText("");
+      void utils.mbsAdmin.getRecentJobs.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (statsQuery.isLoading) return <Spinner className="my-4" />;
+
+  if (statsQuery.error) {
+    return <div className="text-red-500">{statsQuery.error.message}</div>;
+  }
+
+  const stats = statsQuery.data;
+  if (!stats) return null;
+
+  const coverage = stats.totalItems ? Math.round((stats.itemsWithEmbeddings / stats.totalItems) * 100) : 0;
+  const itemNumbers = parseItemNumbers(itemNumbersText);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-8">
+        <div>
+          <div className="text-2xl font-medium tabular-nums">{stats.totalItems.toLocaleString()}</div>
+          <div className="text-muted-foreground text-xs">Items</div>
+        </div>
+        <div>
+          <div className="text-2xl font-medium tabular-nums">{stats.activeItems.toLocaleString()}</div>
+          <div className="text-muted-foreground text-xs">Active</div>
+        </div>
+        <div className="min-w-56">
+          <div className="text-2xl font-medium tabular-nums">{coverage}%</div>
+          <div className="bg-muted my-1 h-2 overflow-hidden rounded-full">
+            <div className="bg-primary h-full" style={{ width: `${coverage}%` }} />
+          </div>
+          <div className="text-muted-foreground text-xs">
+            Embedding coverage · {stats.itemsWithEmbeddings.toLocaleString()} of {stats.totalItems.toLocaleString()} items
+          </div>
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Breakdown
+          title="Active items by category"
+          rows={stats.categoryCounts.map((row) => ({ label: row.category ?? "None", count: row.count }))}
+          total={stats.activeItems}
+        />
+        <Breakdown
+          title="Active items by provider type"
+          rows={stats.providerTypeCounts.map((row) => ({ label: row.providerType ?? "None", count: row.count }))}
+          total={stats.activeItems}
+        />
+      </div>
+
+      <MbsEmbeddingModels />
+
+      <div className="max-w-xl space-y-2">
+        <h3 className="text-sm font-medium">Regenerate embeddings</h3>
+        <Textarea
+          placeholder="Item numbers, e.g. 23, 36, 44"
+          value={itemNumbersText}
+          onChange={(event) => setItemNumbersText(event.target.value)}
+          rows={2}
+        />
+        <Button
+          size="sm"
+          disabled={itemNumbers.length === 0 || itemNumbers.length > 500 || regenerate.isPending}
+          onClick={() => regenerate.mutate({ itemNumbers })}
+        >
+          <Sparkles className="mr-1 h-4 w-4" />
+          Regenerate {itemNumbers.length > 0 ? `${itemNumbers.length} items` : ""}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "@/trpc/react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/Spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const JOB_LABELS: Record<string, string> = {
+  "mbs-ingest-xml": "XML ingestion",
+  "mbs-generate-embeddings": "Embeddings",
+  "mbs-update-search-vectors": "Search vectors",
+  "mbs-migrate-embeddings": "Embedding migration",
+};
+
+const STATE_COLORS: Record<string, string> = {
+  active: "blue-600",
+  completed: "green-600",
+  failed: "red-600",
+};
+
+const RUNNING_STATES = ["active", "waiting", "waiting-children", "prioritized", "delayed"];
+
+export default function MbsPipelineJobs() {
+  const utils = api.useUtils();
+  const jobsQuery = api.mbsAdmin.getRecentJobs.useQuery(
+    { limit: 20 },
+    {
+      // Poll quickly while anything is running so progress moves
+      refetchInterval: (query) =>
+        query.state.data?.some((job) => RUNNING_STATES.includes(job.state)) ? 2000 : 15000,
+    },
+  );
+
+  const retryJob = api.mbsAdmin.retryJob.useMutation({
+    onSuccess: () => {
+      toast.success("Job queued to run again");
+      void utils.mbsAdmin.getRecentJobs.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (jobsQuery.isLoading) return <Spinner className="my-4" />;
+
+  if (jobsQuery.error) {
+    return <div className="text-red-500">{jobsQuery.error.message}</div>;
+  }
+
+  if (!jobsQuery.data?.length) {
+    return <p className="text-muted-foreground text-sm">No MBS jobs have run recently.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Job</TableHead>
+          <TableHead>Input</TableHead>
+          <TableHead>State</TableHead>
+          <TableHead className="w-48">Progress</TableHead>
+          <TableHead>Queued</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {jobsQuery.data.map((job) => (
+          <TableRow key={job.id}>
+            <TableCell className="font-medium">
+              {JOB_LABELS[job.name] ?? job.name}
+              <div className="text-muted-foreground text-xs">#{job.id}</div>
+            </TableCell>
+            <TableCell className="max-w-xs truncate">
+              {job.fileName ?? (job.itemCount ? `${job.itemCount} items` : "All items")}
+            </TableCell>
+            <TableCell>
+              <Badge variant="outline" color={STATE_COLORS[job.state] ?? "gray-600"}>
+                {job.state === "waiting-children" ? "waiting for previous step" : job.state}
+              </Badge>
+              {job.attemptsMade > 1 && (
+                <div className="text-muted-foreground text-xs">Attempt {job.attemptsMade}</div>
+              )}
+            </TableCell>
+            <TableCell>
+              <div className="bg-muted h-2 w-full overflow-hidden rounded-full">
+                <div
+                  className="bg-primary h-full transition-all"
+                  style={{ width: `${job.state === "completed" ? 100 : job.progress}%` }}
+                />
+              </div>
+              {job.failedReason && (
+                <div className="mt-1 line-clamp-2 text-xs text-red-500">{job.failedReason}</div>
+              )}
+            </TableCell>
+            <TableCell className="text-muted-foreground whitespace-nowrap text-sm">
+              {formatDistanceToNow(job.createdAt, { addSuffix: true })}
+            </TableCell>
+            <TableCell>
+              {job.state === "failed" && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={retryJob.isPending}
+                  onClick={() => retryJob.mutate({ jobId: job.id })}
+                >
+                  <RotateCcw className="mr-1 h-4 w-4" />
+                  Retry
+                </Button>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { ArrowRight, History } from "lucide-react";
+import { api } from "@/trpc/react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/Spinner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type {
+  MbsItemChangeType,
+  MbsReleaseChangeSummary,
+} from "@/server/services/mbs/MbsItemHistoryService";
+
+const PAGE_SIZE = 50;
+const PREVIOUS_RELEASE = "previous";
+const BASELINE_RELEASE = "0";
+
+const CHANGE_TYPES: {
+  value: MbsItemChangeType;
+  label: string;
+  color: string;
+  count: keyof MbsReleaseChangeSummary;
+}[] = [
+  { value: "new", label: "New", color: "green-600", count: "new" },
+  { value: "removed", label: "Removed", color: "red-600", count: "removed" },
+  { value: "fee-changed", label: "Fee changed", color: "blue-600", count: "feeChanged" },
+  { value: "descriptor-changed", label: "Descriptor changed", color: "purple-600", count: "descriptorChanged" },
+  { value: "end-dated", label: "End-dated", color: "amber-600", count: "endDated" },
+  { value: "details-changed", label: "Other details", color: "gray-600", count: "detailsChanged" },
+];
+
+const formatFee = (fee?: number) => (fee === undefined ? "—" : `$${fee.toFixed(2)}`);
+
+export default function MbsReleaseDiff() {
+  const [toLogId, setToLogId] = useState<number | null>(null);
+  const [fromRelease, setFromRelease] = useState(PREVIOUS_RELEASE);
+  const [changeType, setChangeType] = useState<MbsItemChangeType | undefined>();
+  const [offset, setOffset] = useState(0);
+  const [historyItem, setHistoryItem] = useState<number | null>(null);
+
+  const logsQuery = api.mbsAdmin.getIngestionLogs.useQuery({ limit: 100, offset: 0 });
+  const releases = (logsQuery.data?.logs ?? []).filter((log) => log.status === "completed");
+  const selectedLogId = toLogId ?? releases[0]?.id ?? null;
+
+  const diffQuery = api.mbsAdmin.getReleaseDiff.useQuery(
+    {
+      toLogId: selectedLogId ?? 0,
+      fromLogId: fromRelease === PREVIOUS_RELEASE ? undefined : Number(fromRelease),
+      changeType,
+      limit: PAGE_SIZE,
+      offset,
+    },
+    { enabled: selectedLogId !== null },
+  );
+
+  const historyQuery = api.mbsAdmin.getItemHistory.useQuery(
+    { itemNumber: historyItem ?? 0 },
+    { enabled: historyItem !== null },
+  );
+
+  const releaseLabel = (log: (typeof releases)[number]) =>
+    `${log.fileName ?? `Ingestion ${log.id}`} · ${format(log.effectiveDate ?? log.startedAt, "d MMM yyyy")}`;
+
+  const resetPage = () => {
+    setOffset(0);
+    setHistoryItem(null);
+  };
+
+  if (logsQuery.isLoading) return <Spinner size="lg" className="h center my-8" />;
+
+  if (logsQuery.error) {
+    return (
+      <div className="h flex justify-center text-red-500">{logsQuery.error.message}</div>
+    );
+  }
+
+  if (releases.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        No MBS releases have been ingested yet.
+      </p>
+    );
+  }
+
+  const diff = diffQuery.data;
+
+  return (
+    <div className="grid grid-rows-[auto_auto_1fr] gap-4 overflow-hidden">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={fromRelease}
+          onValueChange={(value) => {
+            setFromRelease(value);
+            resetPage();
+          }}
+        >
+          <SelectTrigger className="w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={PREVIOUS_RELEASE}>Previous release</SelectItem>
+            <SelectItem value={BASELINE_RELEASE}>Items loaded before history was kept</SelectItem>
+            {releases.map((log) => (
+              <SelectItem key={log.id} value={String(log.id)}>
+                {releaseLabel(log)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ArrowRight className="text-muted-foreground h-4 w-4" />
+        <Select
+          value={selectedLogId !== null ? String(selectedLogId) : undefined}
+          onValueChange={(value) => {
+            setToLogId(Number(value));
+            resetPage();
+          }}
+        >
+          <SelectTrigger className="w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {releases.map((log) => (
+              <SelectItem key={log.id} value={String(log.id)}>
+                {releaseLabel(log)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant={changeType === undefined ? "default" : "outline"}
+          onClick={() => {
+            setChangeType(undefined);
+            resetPage();
+          }}
+        >
+          All changes
+          {diff && <span className="ml-1">{diff.summary.itemsChanged}</span>}
+        </Button>
+        {CHANGE_TYPES.map((type) => (
+          <Button
+            key={type.value}
+            size="sm"
+            variant={changeType === type.value ? "default" : "outline"}
+            onClick={() => {
+              setChangeType(type.value);
+              resetPage();
+            }}
+          >
+            {type.label}
+            {diff && <span className="ml-1">{diff.summary[type.count]}</span>}
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-4 overflow-y-auto">
+        {diffQuery.isLoading ? (
+          <Spinner size="lg" className="h center my-8" />
+        ) : diffQuery.error ? (
+          <div className="text-red-500">{diffQuery.error.message}</div>
+        ) : diff?.changes.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No items changed between these releases.</p>
+        ) : diff ? (
+          <>
+            <Table>
+              <TableHeader className="bg-background/50 sticky top-0 z-50 backdrop-blur-lg">
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>Fee</TableHead>
+                  <TableHead>Descriptor</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.changes.map((change) => (
+                  <TableRow
+                    key={change.itemNumber}
+                    className={cn(historyItem === change.itemNumber && "bg-muted/50")}
+                  >
+                    <TableCell className="font-medium">{change.itemNumber}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {change.changes.map((changeType) => {
+                          const type = CHANGE_TYPES.find((option) => option.value === changeType)!;
+                          return (
+                            <Badge key={changeType} variant="outline" color={type.color}>
+                              {type.label}
+                            </Badge>
+                          );
+                        })}
+                      </div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {change.changes.includes("fee-changed") ? (
+                        <>
+                          <span className="text-muted-foreground line-through">
+                            {formatFee(change.previousFee)}
+                          </span>{" "}
+                          {formatFee(change.fee)}
+                        </>
+                      ) : (
+                        formatFee(change.fee ?? change.previousFee)
+                      )}
+                      {change.endDate && (
+                        <div className="text-muted-foreground text-xs">
+                          Ends {format(change.endDate, "d MMM yyyy")}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-xl">
+                      <div className="line-clamp-2">{change.description ?? change.previousDescription}</div>
+                      {change.changes.includes("descriptor-changed") && (
+                        <div className="text-muted-foreground line-clamp-2 text-xs line-through">
+                          {change.previousDescription}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() =>
+                          setHistoryItem(historyItem === change.itemNumber ? null : change.itemNumber)
+                        }
+                      >
+                        <History className="mr-1 h-4 w-4" />
+                        History
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {offset + 1}–{offset + diff.changes.length} of {diff.total}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={offset === 0}
+                  onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                >
+                  Previous
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!diff.hasMore}
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </>
+        ) : null}
+
+        {historyItem !== null && (
+          <div className="space-y-2 rounded-md border p-4">
+            <h3 className="font-medium">Item {historyItem} history</h3>
+            {historyQuery.isLoading ? (
+              <Spinner />
+            ) : (
+              <ul className="divide-y text-sm">
+                {historyQuery.data?.map((version) => (
+                  <li key={version.id} className="flex items-start justify-between gap-4 py-2">
+                    <div className="min-w-0">
+                      <div className="line-clamp-2">{version.description}</div>
+                      <div className="text-muted-foreground text-xs">
+                        {version.ingestionFileName ?? "Loaded before history was kept"}
+                      </div>
+                    </div>
+                    <div className="shrink-0 text-right">
+                      <div>{formatFee(version.scheduleFee)}</div>
+                      <div className="text-muted-foreground text-xs">
+                        {format(version.validFrom, "d MMM yyyy")} –{" "}
+                        {version.validTo ? format(version.validTo, "d MMM yyyy") : "current"}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { RefreshCw, Upload } from "lucide-react";
+import { api } from "@/trpc/react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface UploadedRelease {
+  releaseFile: string;
+  recordCount: number;
+}
+
+async function uploadRelease(file: File): Promise<UploadedRelease> {
+  const response = await fetch("/api/admin/mbs/releases", {
+    method: "POST",
+    headers: { "content-type": "application/xml" },
+    body: file,
+  });
+  const body = (await response.json()) as UploadedRelease & { error?: string };
+  if (!response.ok) {
+    throw new Error(body.error ?? "Failed to upload MBS release");
+  }
+  return body;
+}
+
+export default function MbsReleaseUpload() {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [effectiveDate, setEffectiveDate] = useState("");
+  const [forceReprocess, setForceReprocess] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const utils = api.useUtils();
+  const queuePipeline = api.mbsAdmin.queueFullPipeline.useMutation();
+  const checkFeed = api.mbsAdmin.checkReleaseFeed.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        result.status === "queued"
+          ? `Queued ${result.fileName} for ingestion`
+          : `${result.fileName} is already ingested`,
+      );
+      void utils.mbsAdmin.getIngestionLogs.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleIngest = async () => {
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const release = await uploadRelease(file);
+      await queuePipeline.mutateAsync({
+        releaseFile: release.releaseFile,
+        fileName: file.name,
+        forceReprocess,
+        effectiveDate: effectiveDate || undefined,
+      });
+      toast.success(`Queued ${file.name} for ingestion (${release.recordCount} records)`);
+
+      setFile(null);
+      if (fileInput.current) fileInput.current.value = "";
+      void utils.mbsAdmin.getIngestionLogs.invalidate();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to ingest MBS release");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-4 rounded-md border p-4">
+      <div className="space-y-1">
+        <Label htmlFor="mbs-release-file">MBS XML release</Label>
+        <Input
+          id="mbs-release-file"
+          ref={fileInput}
+          type="file"
+          accept=".xml,application/xml,text/xml"
+          className="w-72"
+          onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="mbs-release-effective-date">Applies from</Label>
+        <Input
+          id="mbs-release-effective-date"
+          type="date"
+          className="w-44"
+          value={effectiveDate}
+          onChange={(event) => setEffectiveDate(event.target.value)}
+        />
+      </div>
+      <div className="flex h-10 items-center gap-2">
+        <Checkbox
+          id="mbs-release-force"
+          checked={forceReprocess}
+          onCheckedChange={(checked) => setForceReprocess(checked === true)}
+        />
+        <Label htmlFor="mbs-release-force">Reprocess if already ingested</Label>
+      </div>
+      <Button disabled={!file || uploading} onClick={() => void handleIngest()}>
+        <Upload className="mr-1 h-4 w-4" />
+        {uploading ? "Uploading…" : "Upload and ingest"}
+      </Button>
+      <Button variant="outline" disabled={checkFeed.isPending} onClick={() => checkFeed.mutate()}>
+        <RefreshCw className="mr-1 h-4 w-4" />
+        Check release feed
+      </Button>
+    </div>
+  );
+}
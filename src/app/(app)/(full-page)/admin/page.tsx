@@ -1,14 +1,15 @@
 "use client";
 
 import { TabPanels } from "@/components/TabPanels";
-import { Users } from "lucide-react";
+import { FileDiff, Users } from "lucide-react";
 import AdminDashboardTabUsers from "./_components/AdminDashboardTabUsers";
+import AdminDashboardTabMbs from "./_components/AdminDashboardTabMbs";
 import { useQueryState } from "nuqs";
 
 export default function AdminDashboard() {
   const [activeTab, setActiveTab] = useQueryState("tab", {
     defaultValue: "users",
-    parse: (value) => (["users"].includes(value) ? value : "users"),
+    parse: (value) => (["users", "mbs"].includes(value) ? value : "users"),
   });
 
   const tabs = [
@@ -18,6 +19,12 @@ export default function AdminDashboard() {
       icon: Users,
       content: <AdminDashboardTabUsers />,
     },
+    {
+      value: "mbs",
+      label: "MBS",
+      icon: FileDiff,
+      content: <AdminDashboardTabMbs />,
+    },
   ];
 
   return (
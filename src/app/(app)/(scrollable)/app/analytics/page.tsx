@@ -0,0 +1,162 @@
+"use client";
+
+import React from "react";
+import { format, subDays } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Spinner } from "@/components/Spinner";
+import { BillingSummary } from "@/components/analytics/BillingSummary";
+import { BilledVsSuggestedChart } from "@/components/analytics/BilledVsSuggestedChart";
+import { ClinicianBillingTable, ItemAcceptanceTable } from "@/components/analytics/BillingBreakdownTables";
+import { MissedOpportunitiesTable } from "@/components/analytics/MissedOpportunitiesTable";
+import { useBillingAnalytics } from "@/hooks/useBillingAnalytics";
+import { cn } from "@/lib/utils";
+
+const ALL_CLINICIANS = "all";
+
+const RANGE_PRESETS = [
+  { days: 7, label: "Last 7 days" },
+  { days: 30, label: "Last 30 days" },
+  { days: 90, label: "Last 90 days" },
+  { days: 365, label: "Last 12 months" },
+] as const;
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`);
+
+/**
+ * Analytics Page
+ *
+ * Billing analytics per clinician: MBS items billed against those suggested,
+ * estimated revenue at each benefit level, how often each item's suggestions
+ * are accepted, and the suggestions that were rejected or ignored.
+ */
+export default function AnalyticsPage() {
+  const [from, setFrom] = React.useState(() => toDateInput(subDays(new Date(), 29)));
+  const [to, setTo] = React.useState(() => toDateInput(new Date()));
+  const [clinicianId, setClinicianId] = React.useState(ALL_CLINICIANS);
+
+  const validRange = Boolean(from && to) && from <= to;
+  const { analytics, loading, refreshing, error } = useBillingAnalytics({
+    from: fromDateInput(from || to),
+    to: fromDateInput(to || from),
+    clinicianId: clinicianId === ALL_CLINICIANS ? undefined : clinicianId,
+  });
+
+  const applyPreset = (days: string) => {
+    setFrom(toDateInput(subDays(new Date(), Number(days) - 1)));
+    setTo(toDateInput(new Date()));
+  };
+
+  return (
+    <div className="vertical space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Analytics</h1>
+          <p className="text-muted-foreground">Billing from MBS suggestions, by clinician and item.</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label>Range</Label>
+            <Select onValueChange={applyPreset}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Custom" />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_PRESETS.map(preset => (
+                  <SelectItem key={preset.days} value={String(preset.days)}>{preset.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="analytics-from">From</Label>
+            <Input id="analytics-from" type="date" className="w-40" value={from} max={to} onChange={event => setFrom(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="analytics-to">To</Label>
+            <Input id="analytics-to" type="date" className="w-40" value={to} min={from} onChange={event => setTo(event.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Clinician</Label>
+            <Select value={clinicianId} onValueChange={setClinicianId}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CLINICIANS}>All clinicians</SelectItem>
+                {analytics?.clinicianOptions.map(clinician => (
+                  <SelectItem key={clinician.id} value={clinician.id}>{clinician.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {(error ?? !validRange) && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          {validRange ? error : "Choose a start date on or before the end date"}
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex justify-center py-12">
+          <Spinner />
+        </div>
+      )}
+
+      {analytics && (
+        <div className={cn("space-y-6 transition-opacity", refreshing && "opacity-60")}>
+          <BillingSummary totals={analytics.totals} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Billed vs suggested</CardTitle>
+              <CardDescription>MBS items suggested and billed each day.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BilledVsSuggestedChart days={analytics.days} />
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 xl:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Items</CardTitle>
+                <CardDescription>How often each suggested item is accepted as it was.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ItemAcceptanceTable items={analytics.items} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Clinicians</CardTitle>
+                <CardDescription>Billing by the clinician who saw the patient.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ClinicianBillingTable clinicians={analytics.clinicians} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Missed billing opportunities</CardTitle>
+              <CardDescription>Suggested items that were rejected or never actioned, most valuable first.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MissedOpportunitiesTable opportunities={analytics.missedOpportunities} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
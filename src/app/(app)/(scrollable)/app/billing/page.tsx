@@ -0,0 +1,126 @@
+"use client";
+
+import React from "react";
+import { format } from "date-fns";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Spinner } from "@/components/Spinner";
+import { ClaimBatchDetail, formatFee } from "@/components/billing/ClaimBatchDetail";
+import { ProviderNumbersCard } from "@/components/billing/ProviderNumbersCard";
+import { useClaimBatches } from "@/hooks/useClaimBatches";
+import { cn } from "@/lib/utils";
+import { api } from "@/trpc/react";
+
+/**
+ * Billing Page
+ *
+ * Accepted MBS suggestions as Medicare claims, batched by the day of the
+ * consultation. Each batch is exported as a claim file for the practice's
+ * billing software, then its claims are followed through to payment.
+ */
+export default function BillingPage() {
+  const { batches, loading, error, assemble, assembling } = useClaimBatches();
+  const currentTenant = api.tenants.current.useQuery();
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+
+  const canManageProviders = currentTenant.data?.role === "owner" || currentTenant.data?.role === "practice-manager";
+
+  // Open the latest batch once batches have loaded
+  React.useEffect(() => {
+    if (!batches.some(batch => batch.id === selectedId) && batches.length > 0) {
+      setSelectedId(batches[0]!.id);
+    }
+  }, [batches, selectedId]);
+
+  const refreshClaims = async () => {
+    try {
+      const result = await assemble();
+      toast.success(
+        result.linesSaved + result.linesRemoved > 0
+          ? `${result.linesSaved} claims assembled${result.linesRemoved > 0 ? `, ${result.linesRemoved} removed` : ""}`
+          : "Claims are up to date"
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to assemble claims");
+    }
+  };
+
+  return (
+    <div className="vertical space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Billing</h1>
+          <p className="text-muted-foreground">Medicare claims for accepted MBS items, exported a day at a time.</p>
+        </div>
+        <Button size="sm" onClick={() => void refreshClaims()} disabled={assembling}>
+          <RefreshCw className={cn("h-4 w-4 mr-2", assembling && "animate-spin")} />
+          Refresh claims
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Batches</CardTitle>
+              <CardDescription>{batches.length} days</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {loading && (
+                <div className="flex justify-center py-6">
+                  <Spinner />
+                </div>
+              )}
+              {!loading && batches.length === 0 && (
+                <p className="text-sm text-muted-foreground">Accepted MBS items appear here once claims are refreshed.</p>
+              )}
+              {batches.map(batch => (
+                <button
+                  key={batch.id}
+                  type="button"
+                  onClick={() => setSelectedId(batch.id)}
+                  className={cn(
+                    "flex w-full items-center gap-2 rounded-md px-2 py-2 text-left text-sm hover:bg-muted",
+                    batch.id === selectedId && "bg-muted font-medium"
+                  )}
+                >
+                  <div className="flex-1">
+                    <div>{format(new Date(`${batch.serviceDate}T00:00:00`), "EEE d MMM yyyy")}</div>
+                    <div className="text-xs font-normal text-muted-foreground">
+                      {batch.lineCount} claims · {formatFee(batch.totalFee)}
+                    </div>
+                  </div>
+                  <Badge variant="outline" color={batch.status === "open" ? "amber-600" : "green-600"}>
+                    {batch.status === "open" ? "Open" : "Exported"}
+                  </Badge>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {canManageProviders && <ProviderNumbersCard />}
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            {selectedId ? (
+              <ClaimBatchDetail batchId={selectedId} />
+            ) : (
+              <p className="py-12 text-center text-muted-foreground">Select a batch to see its claims.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
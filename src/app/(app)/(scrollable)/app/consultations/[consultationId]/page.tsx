@@ -0,0 +1,138 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { AlertTriangle, ArrowLeft, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Spinner } from "@/components/Spinner";
+import { ConsultationExportPanel } from "@/components/consultation/ConsultationExportPanel";
+import { GeneratedNotePanel } from "@/components/consultation/GeneratedNotePanel";
+import { MbsSuggestionPanel } from "@/components/consultation/MbsSuggestionPanel";
+import { TranscriptViewer } from "@/components/consultation/TranscriptViewer";
+import { useConsultationNotes } from "@/hooks/useConsultationNotes";
+import { useNoteCitations } from "@/hooks/useNoteCitations";
+import { useNoteTemplates } from "@/hooks/useNoteTemplates";
+import { useTranscript } from "@/hooks/useTranscript";
+
+/**
+ * Consultation Review Page
+ *
+ * Shows the transcript of a recorded consultation with synced audio playback,
+ * alongside the note drafted from it and the MBS items suggested from the note,
+ * and exports the notes on the clinic letterhead.
+ */
+export default function ConsultationPage() {
+  const { consultationId } = useParams<{ consultationId: string }>();
+  const transcript = useTranscript(consultationId);
+  const notes = useConsultationNotes(consultationId);
+  const latestNoteId = notes.latestNote?.id;
+  const { citations } = useNoteCitations(consultationId, latestNoteId);
+  const { templates } = useNoteTemplates();
+
+  return (
+    <div className="vertical space-y-6">
+      <div className="flex items-center justify-between">
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/app">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to dashboard
+          </Link>
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => void Promise.all([transcript.refresh(), notes.refresh()])}
+          disabled={transcript.loading || notes.loading}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${transcript.loading || notes.loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Draft Note</CardTitle>
+          <CardDescription>
+            Drafted from the transcript for your review. Hover a statement to see where it came from; highlighted
+            statements have no supporting evidence.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <GeneratedNotePanel
+            note={notes.latestNote}
+            citations={citations}
+            progress={notes.noteGeneration.progress}
+            error={notes.noteGeneration.error ?? notes.error ?? undefined}
+            templateKey={notes.noteGeneration.templateKey}
+            templates={templates}
+            isGenerating={notes.isGenerating}
+            canGenerate={transcript.segments.length > 0}
+            onGenerate={notes.generate}
+            onUpdate={latestNoteId ? updates => notes.updateNote(latestNoteId, updates) : undefined}
+            onAmend={latestNoteId ? amendment => notes.amendNote(latestNoteId, amendment) : undefined}
+            getVersions={latestNoteId ? () => notes.getNoteVersions(latestNoteId) : undefined}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>MBS Items</CardTitle>
+          <CardDescription>
+            Items suggested from the note once it is sent for review. Accept, reject or change each one before billing.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <MbsSuggestionPanel
+            consultationId={consultationId}
+            noteId={latestNoteId}
+            canSuggest={notes.latestNote?.status === "pending-review"}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export</CardTitle>
+          <CardDescription>
+            Download the consultation&apos;s notes on your clinic letterhead to send or file outside Aria Scribe.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ConsultationExportPanel consultationId={consultationId} canExport={Boolean(latestNoteId)} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transcript</CardTitle>
+          <CardDescription>
+            Click a timestamp to play from that point. Rename a speaker to update every line they said.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {transcript.error && (
+            <div className="mb-4 flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {transcript.error}
+            </div>
+          )}
+
+          {transcript.loading && transcript.segments.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          ) : (
+            <TranscriptViewer
+              segments={transcript.segments}
+              audioFileUrl={transcript.audioFileUrl}
+              onRelabelSpeaker={transcript.relabelSpeaker}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
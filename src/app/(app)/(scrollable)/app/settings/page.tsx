@@ -0,0 +1,74 @@
+"use client";
+
+import React from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Spinner } from "@/components/Spinner";
+import { EhrConnectionCard } from "@/components/settings/EhrConnectionCard";
+import { EhrBridgeCard } from "@/components/settings/EhrBridgeCard";
+import { api } from "@/trpc/react";
+
+/**
+ * Settings Page
+ *
+ * Practice settings for the active clinic. Owners and practice managers set up
+ * the clinic's EHR connection or bridge agent here, and come back here when the
+ * EHR redirects after they authorize it.
+ */
+export default function SettingsPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const currentTenant = api.tenants.current.useQuery();
+  const ehrError = searchParams.get("ehrError");
+
+  const canManageEhr = currentTenant.data?.role === "owner" || currentTenant.data?.role === "practice-manager";
+
+  // Confirm a completed connection once, then drop the flag so a reload doesn't repeat it
+  React.useEffect(() => {
+    if (searchParams.get("ehr") === "connected") {
+      toast.success("EHR connected");
+      router.replace("/app/settings");
+    }
+  }, [router, searchParams]);
+
+  return (
+    <div className="vertical space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Settings</h1>
+        <p className="text-muted-foreground">
+          {currentTenant.data ? `${currentTenant.data.name}'s practice and EHR settings.` : "Practice and EHR settings."}
+        </p>
+      </div>
+
+      {ehrError && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          {ehrError}
+        </div>
+      )}
+
+      {currentTenant.isLoading ? (
+        <div className="flex justify-center py-6">
+          <Spinner />
+        </div>
+      ) : canManageEhr ? (
+        <>
+          <EhrConnectionCard />
+          <EhrBridgeCard />
+        </>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>EHR connection</CardTitle>
+            <CardDescription>Managed by the clinic&apos;s owner and practice managers.</CardDescription>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            Ask one of them to connect the clinic&apos;s EHR, or to reconnect it if patients and appointments stop loading.
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import React from "react";
+import { AlertTriangle, FileText, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Spinner } from "@/components/Spinner";
+import { NoteTemplateEditor } from "@/components/templates/NoteTemplateEditor";
+import { useNoteTemplates } from "@/hooks/useNoteTemplates";
+import { cn } from "@/lib/utils";
+
+/**
+ * Note Templates Page
+ *
+ * The clinic's template library. Built-in templates can be edited like any
+ * other; every save keeps the previous version in the template's history.
+ */
+export default function TemplatesPage() {
+  const { templates, loading, error, createTemplate, saveTemplate, setTemplateActive, getVersions } =
+    useNoteTemplates({ includeInactive: true });
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  const selected = templates.find(template => template.id === selectedId) ?? null;
+
+  // Open the first template once the library has loaded
+  React.useEffect(() => {
+    if (!selectedId && !isCreating && templates.length > 0) {
+      setSelectedId(templates[0]!.id);
+    }
+  }, [templates, selectedId, isCreating]);
+
+  return (
+    <div className="vertical space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Note Templates</h1>
+          <p className="text-muted-foreground">Control the sections and instructions used to draft notes.</p>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => {
+            setIsCreating(true);
+            setSelectedId(null);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New template
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+        <Card>
+          <CardHeader>
+            <CardTitle>Library</CardTitle>
+            <CardDescription>{templates.length} templates</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {loading && templates.length === 0 && (
+              <div className="flex justify-center py-6">
+                <Spinner />
+              </div>
+            )}
+            {templates.map(template => (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => {
+                  setIsCreating(false);
+                  setSelectedId(template.id);
+                }}
+                className={cn(
+                  "flex w-full items-center gap-2 rounded-md px-2 py-2 text-left text-sm hover:bg-muted",
+                  template.id === selectedId && !isCreating && "bg-muted font-medium",
+                  !template.isActive && "text-muted-foreground"
+                )}
+              >
+                <FileText className="h-4 w-4 shrink-0" />
+                <span className="flex-1 truncate">{template.name}</span>
+                {!template.isActive && <Badge color="amber-600">Archived</Badge>}
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            {isCreating ? (
+              <NoteTemplateEditor
+                template={null}
+                onSave={async input => {
+                  const created = await createTemplate(input);
+                  setIsCreating(false);
+                  setSelectedId(created.id);
+                }}
+              />
+            ) : selected ? (
+              <NoteTemplateEditor
+                template={selected}
+                onSave={async input => {
+                  await saveTemplate(selected.id, input);
+                }}
+                onSetActive={async isActive => {
+                  await setTemplateActive(selected.id, isActive);
+                }}
+                getVersions={() => getVersions(selected.id)}
+              />
+            ) : (
+              <p className="py-12 text-center text-muted-foreground">Select a template to edit it.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * MBS Release Upload Endpoint
+ *
+ * Receives an MBS XML release as the raw request body and saves it to the
+ * release store. The file's layout is checked before it is accepted, and the
+ * returned releaseFile is what the admin queues for ingestion.
+ */
+
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { type NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/server/auth';
+import {
+  createMbsReleaseStorageService,
+  MbsReleaseStorageError,
+  MbsXmlFormatError,
+  validateMbsXml,
+} from '@/server/services/mbs';
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (session.user.role !== 'admin') {
+    return NextResponse.json({ error: 'User does not have admin privileges' }, { status: 403 });
+  }
+  if (!request.body) {
+    return NextResponse.json({ error: 'No release file uploaded' }, { status: 400 });
+  }
+
+  const storage = createMbsReleaseStorageService();
+
+  try {
+    const stored = await storage.save(Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>));
+
+    try {
+      const validation = await validateMbsXml(createReadStream(await storage.resolve(stored.releaseFile)));
+      return NextResponse.json({ ...stored, ...validation });
+    } catch (error) {
+      if (error instanceof MbsXmlFormatError) {
+        await storage.remove(stored.releaseFile);
+        return NextResponse.json({ error: error.message, line: error.line }, { status: 400 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof MbsReleaseStorageError && error.code === 'RELEASE_TOO_LARGE') {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 413 });
+    }
+
+    console.error('Failed to upload MBS release:', error);
+    return NextResponse.json({ error: 'Failed to upload MBS release' }, { status: 500 });
+  }
+}
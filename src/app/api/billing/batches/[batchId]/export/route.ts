@@ -0,0 +1,45 @@
+/**
+ * Claim File Export Endpoint
+ *
+ * Renders a claim batch as a CSV or JSON claim file for the practice's billing
+ * software. The first export closes the batch and marks its claims exported;
+ * later ones download the same claims again.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { clinicalErrorResponse, getClinicalRequestContext } from '@/server/api/clinical-context';
+import { ClaimService, type ClaimFileFormat } from '@/server/services/billing';
+
+interface RouteParams {
+  params: Promise<{ batchId: string }>;
+}
+
+const CLAIM_FILE_FORMATS: ClaimFileFormat[] = ['csv', 'json'];
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { batchId } = await params;
+    const format = request.nextUrl.searchParams.get('format') ?? 'csv';
+    if (!CLAIM_FILE_FORMATS.includes(format as ClaimFileFormat)) {
+      return NextResponse.json({ error: `Unsupported claim file format: ${format}` }, { status: 400 });
+    }
+
+    const context = await getClinicalRequestContext();
+    const claimFile = await new ClaimService(context.dataStore, context.tenantConfig).exportBatch(
+      batchId,
+      format as ClaimFileFormat,
+      context.userId
+    );
+
+    return new NextResponse(new Uint8Array(claimFile.content), {
+      headers: {
+        'Content-Type': claimFile.mimeType,
+        'Content-Length': String(claimFile.content.length),
+        'Content-Disposition': `attachment; filename="${claimFile.fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to export claim file');
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Note Citations API Endpoint
+ *
+ * GET - Transcript evidence for each statement of a drafted note
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  clinicalErrorResponse,
+  getClinicalRequestContext,
+  requireConsultationNote,
+} from '@/server/api/clinical-context';
+
+interface RouteParams {
+  params: Promise<{ consultationId: string; noteId: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId, noteId } = await params;
+    const context = await getClinicalRequestContext();
+    await requireConsultationNote(context, consultationId, noteId);
+
+    const citations = await context.dataStore.getNoteCitations(noteId);
+    return NextResponse.json({ citations });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to get note citations');
+  }
+}
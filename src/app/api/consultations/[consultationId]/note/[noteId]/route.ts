@@ -0,0 +1,31 @@
+/**
+ * Clinical Note API Endpoint
+ *
+ * GET - The note and its version history (newest first)
+ *
+ * Edits, sign-off and amendments go through the notes tRPC router.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  clinicalErrorResponse,
+  getClinicalRequestContext,
+  requireConsultationNote,
+} from '@/server/api/clinical-context';
+
+interface RouteParams {
+  params: Promise<{ consultationId: string; noteId: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId, noteId } = await params;
+    const context = await getClinicalRequestContext();
+    const note = await requireConsultationNote(context, consultationId, noteId);
+
+    const versions = await context.dataStore.getClinicalNoteVersions(noteId);
+    return NextResponse.json({ note, versions });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to get clinical note');
+  }
+}
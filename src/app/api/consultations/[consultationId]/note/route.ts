@@ -0,0 +1,99 @@
+/**
+ * Consultation Note Generation API Endpoint
+ *
+ * GET  - Notes drafted for the consultation (newest first) and generation progress
+ * POST - Queue a new draft from the transcript: { templateKey? }
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  clinicalErrorResponse,
+  getClinicalRequestContext,
+  requireTenantConsultation,
+} from '@/server/api/clinical-context';
+import type { ConsultationRecord } from '@/server/datastore';
+import { NoteGenerationQueueService } from '@/server/services/note-generation';
+
+interface RouteParams {
+  params: Promise<{ consultationId: string }>;
+}
+
+const generateNoteSchema = z.object({
+  templateKey: z.string().min(1).max(64).optional(),
+});
+
+function toNoteGenerationResponse(consultation: ConsultationRecord) {
+  return {
+    progress: consultation.noteGenerationProgress,
+    error: consultation.noteGenerationError,
+    templateKey: consultation.selectedTemplate,
+  };
+}
+
+function isNoteGenerationRunning(consultation: ConsultationRecord) {
+  return (
+    consultation.noteGenerationProgress !== undefined &&
+    consultation.noteGenerationProgress < 100 &&
+    !consultation.noteGenerationError
+  );
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId } = await params;
+    const context = await getClinicalRequestContext();
+    const consultation = await requireTenantConsultation(context, consultationId);
+
+    const notes = await context.dataStore.getConsultationNotes(consultationId);
+    return NextResponse.json({ notes, noteGeneration: toNoteGenerationResponse(consultation) });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to get consultation notes');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId } = await params;
+    const context = await getClinicalRequestContext();
+    const consultation = await requireTenantConsultation(context, consultationId);
+
+    const parsed = generateNoteSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid note generation request' }, { status: 400 });
+    }
+
+    if (consultation.status !== 'review' && consultation.status !== 'complete') {
+      return NextResponse.json(
+        { error: 'A note can only be generated once the consultation has been transcribed' },
+        { status: 409 }
+      );
+    }
+    if (isNoteGenerationRunning(consultation)) {
+      return NextResponse.json({ error: 'A note is already being generated' }, { status: 409 });
+    }
+
+    const { templateKey } = parsed.data;
+    if (templateKey) {
+      const template = await context.dataStore.getNoteTemplateByKey(templateKey);
+      if (!template?.isActive) {
+        return NextResponse.json({ error: 'Unknown note template' }, { status: 400 });
+      }
+    }
+
+    const updated = await context.dataStore.updateConsultation(consultationId, {
+      noteGenerationProgress: 0,
+      noteGenerationError: null,
+      selectedTemplate: templateKey,
+    });
+    await new NoteGenerationQueueService().queueNoteGeneration({
+      tenantId: context.tenantConfig.id,
+      consultationId,
+      templateKey,
+    });
+
+    return NextResponse.json({ noteGeneration: toNoteGenerationResponse(updated) });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to queue note generation');
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { clinicalErrorResponse } from '@/server/api/clinical-context';
+import { RecordingStorageError, type RecordingManifest } from '@/server/services/recording';
+
+/**
+ * Client-facing view of a recording session
+ */
+export function toRecordingResponse(manifest: RecordingManifest) {
+  return {
+    status: manifest.status,
+    startedAt: manifest.startedAt,
+    endedAt: manifest.endedAt,
+    pausedMs: manifest.pausedMs,
+    totalBytes: manifest.totalBytes,
+    segments: manifest.segments.map(segment => ({
+      index: segment.index,
+      mimeType: segment.mimeType,
+      chunkCount: segment.chunkSequences.length,
+      lastSequence: segment.chunkSequences.at(-1) ?? -1,
+      bytes: segment.bytes,
+    })),
+  };
+}
+
+export type RecordingResponse = ReturnType<typeof toRecordingResponse>;
+
+export function recordingErrorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof RecordingStorageError) {
+    const status = {
+      INVALID_ID: 400,
+      INVALID_CHUNK: 400,
+      CHUNK_TOO_LARGE: 413,
+      SESSION_NOT_FOUND: 404,
+      SESSION_COMPLETE: 409,
+      MISSING_CHUNKS: 409,
+    }[error.code];
+    return NextResponse.json({ error: error.message, code: error.code }, { status });
+  }
+  return clinicalErrorResponse(error, fallbackMessage);
+}
@@ -0,0 +1,42 @@
+/**
+ * Recording Playback Endpoint
+ *
+ * Streams an assembled recording segment. Query param: segment (defaults to 0).
+ * This is the URL stored in Consultation.audioFileUrl.
+ */
+
+import { Readable } from 'stream';
+import { type NextRequest, NextResponse } from 'next/server';
+import { getClinicalRequestContext, requireTenantConsultation } from '@/server/api/clinical-context';
+import { createRecordingStorageService } from '@/server/services/recording';
+import { recordingErrorResponse } from '../_lib/responses';
+
+interface RouteParams {
+  params: Promise<{ consultationId: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId } = await params;
+    const context = await getClinicalRequestContext();
+    await requireTenantConsultation(context, consultationId);
+
+    const segment = Number(request.nextUrl.searchParams.get('segment') ?? 0);
+    const storage = createRecordingStorageService();
+    const file = await storage.openSegment(context.tenantConfig.id, consultationId, segment);
+
+    if (!file) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    return new NextResponse(Readable.toWeb(file.stream) as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Length': String(file.size),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return recordingErrorResponse(error, 'Failed to load recording');
+  }
+}
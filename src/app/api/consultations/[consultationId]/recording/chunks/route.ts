@@ -0,0 +1,99 @@
+/**
+ * Recording Chunk Upload Endpoint
+ *
+ * Receives one MediaRecorder chunk per request as the raw request body.
+ * Query params: segment (recorder instance index) and sequence (chunk index within the segment).
+ * Chunks must be uploaded in order per segment; re-sending a chunk is a no-op.
+ * Bodies over the chunk size limit are refused (413) without being buffered.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { getClinicalRequestContext, requireTenantConsultation } from '@/server/api/clinical-context';
+import {
+  createRecordingStorageService,
+  MAX_CHUNK_SIZE_BYTES,
+  RecordingStorageError,
+} from '@/server/services/recording';
+import { recordingErrorResponse } from '../_lib/responses';
+
+interface RouteParams {
+  params: Promise<{ consultationId: string }>;
+}
+
+function tooLarge(bytes: number) {
+  return new RecordingStorageError(
+    `Chunk size ${bytes} bytes exceeds maximum of ${MAX_CHUNK_SIZE_BYTES} bytes`,
+    'CHUNK_TOO_LARGE'
+  );
+}
+
+/**
+ * A non-negative integer query param; Number() would turn a missing one into 0
+ */
+function requireIndex(request: NextRequest, name: string): number {
+  const value = request.nextUrl.searchParams.get(name);
+  if (value === null || !/^\d+$/.test(value)) {
+    throw new RecordingStorageError(`Missing or invalid ${name}: ${value ?? '(none)'}`, 'INVALID_CHUNK');
+  }
+  return Number(value);
+}
+
+/**
+ * Read the body, giving up as soon as it passes the chunk size limit. Content-Length
+ * is checked first, but can't be relied on for chunked uploads.
+ */
+async function readChunk(request: NextRequest): Promise<Buffer> {
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > MAX_CHUNK_SIZE_BYTES) {
+    throw tooLarge(contentLength);
+  }
+  if (!request.body) {
+    return Buffer.alloc(0);
+  }
+
+  const parts: Uint8Array[] = [];
+  let bytes = 0;
+  const reader = request.body.getReader();
+  for (let part = await reader.read(); !part.done; part = await reader.read()) {
+    bytes += part.value.byteLength;
+    if (bytes > MAX_CHUNK_SIZE_BYTES) {
+      await reader.cancel();
+      throw tooLarge(bytes);
+    }
+    parts.push(part.value);
+  }
+  return Buffer.concat(parts);
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId } = await params;
+    const context = await getClinicalRequestContext();
+    await requireTenantConsultation(context, consultationId);
+
+    const segment = requireIndex(request, 'segment');
+    const sequence = requireIndex(request, 'sequence');
+    const mimeType = request.headers.get('content-type')?.split(';')[0] ?? 'audio/webm';
+
+    if (!mimeType.startsWith('audio/')) {
+      throw new RecordingStorageError(`Unsupported content type: ${mimeType}`, 'INVALID_CHUNK');
+    }
+
+    const data = await readChunk(request);
+    const storage = createRecordingStorageService();
+    const manifest = await storage.appendChunk(context.tenantConfig.id, consultationId, {
+      segment,
+      sequence,
+      mimeType,
+      data,
+    });
+
+    return NextResponse.json({
+      segment,
+      sequence,
+      totalBytes: manifest.totalBytes,
+    });
+  } catch (error) {
+    return recordingErrorResponse(error, 'Failed to upload recording chunk');
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Consultation Recording API Endpoint
+ *
+ * Controls the lifecycle of a consultation's audio recording. Audio itself is
+ * uploaded separately as chunks (see ./chunks/route.ts).
+ *
+ * GET  - Current recording session, used to recover an interrupted recording
+ * POST - { action: 'start' | 'pause' | 'resume' | 'finalize' | 'discard' }
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getClinicalRequestContext, requireTenantConsultation } from '@/server/api/clinical-context';
+import { createRecordingStorageService } from '@/server/services/recording';
+import { TranscriptionQueueService } from '@/server/services/transcription';
+import { recordingErrorResponse, toRecordingResponse } from './_lib/responses';
+
+interface RouteParams {
+  params: Promise<{ consultationId: string }>;
+}
+
+const recordingActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('start') }),
+  z.object({ action: z.literal('pause') }),
+  z.object({ action: z.literal('resume') }),
+  z.object({
+    action: z.literal('finalize'),
+    // Number of chunks the client produced per segment, so the server can detect gaps
+    expectedChunks: z.record(z.coerce.number().int().min(0), z.number().int().min(0)).optional(),
+  }),
+  z.object({ action: z.literal('discard') }),
+]);
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId } = await params;
+    const context = await getClinicalRequestContext();
+    await requireTenantConsultation(context, consultationId);
+
+    const storage = createRecordingStorageService();
+    const manifest = await storage.getManifest(context.tenantConfig.id, consultationId);
+
+    return NextResponse.json({ recording: manifest ? toRecordingResponse(manifest) : null });
+  } catch (error) {
+    return recordingErrorResponse(error, 'Failed to get recording');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId } = await params;
+    const context = await getClinicalRequestContext();
+    await requireTenantConsultation(context, consultationId);
+
+    const parsed = recordingActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid recording action' }, { status: 400 });
+    }
+
+    const tenantId = context.tenantConfig.id;
+    const storage = createRecordingStorageService();
+    const body = parsed.data;
+
+    switch (body.action) {
+      case 'start': {
+        const existing = await storage.getManifest(tenantId, consultationId);
+        const manifest = await storage.startSession(tenantId, consultationId);
+
+        // Only a brand new session sets the start time; recovering keeps the original
+        if (existing?.startedAt !== manifest.startedAt) {
+          await context.dataStore.updateConsultation(consultationId, {
+            status: 'recording',
+            recordingStartTime: new Date(manifest.startedAt),
+          });
+        }
+        return NextResponse.json({ recording: toRecordingResponse(manifest) });
+      }
+
+      case 'pause': {
+        const manifest = await storage.pause(tenantId, consultationId);
+        return NextResponse.json({ recording: toRecordingResponse(manifest) });
+      }
+
+      case 'resume': {
+        const manifest = await storage.resume(tenantId, consultationId);
+        return NextResponse.json({ recording: toRecordingResponse(manifest) });
+      }
+
+      case 'finalize': {
+        const result = await storage.finalize(tenantId, consultationId, body.expectedChunks);
+        let consultation = await context.dataStore.updateConsultation(consultationId, {
+          status: 'processing',
+          recordingEndTime: result.manifest.endedAt ? new Date(result.manifest.endedAt) : new Date(),
+          audioFileUrl: `/api/consultations/${consultationId}/recording/audio`,
+          transcriptionProgress: 0,
+          transcriptionError: null,
+        });
+
+        try {
+          await new TranscriptionQueueService().queueTranscription({ tenantId, consultationId });
+        } catch (error) {
+          // The audio is safe on disk; surface the error so transcription can be retried
+          console.error(`Failed to queue transcription for consultation ${consultationId}:`, error);
+          consultation = await context.dataStore.updateConsultation(consultationId, {
+            status: 'error',
+            transcriptionError: 'Transcription could not be queued',
+          });
+        }
+
+        return NextResponse.json({
+          recording: toRecordingResponse(result.manifest),
+          durationSeconds: result.durationSeconds,
+          consultation,
+        });
+      }
+
+      case 'discard': {
+        await storage.discard(tenantId, consultationId);
+        await context.dataStore.updateConsultation(consultationId, { status: 'ready' });
+        return NextResponse.json({ recording: null });
+      }
+    }
+  } catch (error) {
+    return recordingErrorResponse(error, 'Failed to update recording');
+  }
+}
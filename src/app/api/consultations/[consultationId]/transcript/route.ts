@@ -0,0 +1,65 @@
+/**
+ * Consultation Transcript API Endpoint
+ *
+ * GET   - Transcript segments in order, with speaker labels and timings
+ * PATCH - Relabel a speaker: { speaker, fromSpeaker } renames every segment from
+ *         that speaker, { speaker, segmentIds } reassigns individual segments
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  clinicalErrorResponse,
+  getClinicalRequestContext,
+  requireTenantConsultation,
+} from '@/server/api/clinical-context';
+import { MAX_SPEAKER_LABEL_LENGTH } from '@/lib/transcript';
+
+interface RouteParams {
+  params: Promise<{ consultationId: string }>;
+}
+
+const relabelSpeakerSchema = z
+  .object({
+    speaker: z.string().trim().min(1).max(MAX_SPEAKER_LABEL_LENGTH),
+    fromSpeaker: z.string().min(1).optional(),
+    segmentIds: z.array(z.string().uuid()).min(1).max(1000).optional(),
+  })
+  .refine(input => input.fromSpeaker !== undefined || input.segmentIds !== undefined, {
+    message: 'Provide fromSpeaker or segmentIds',
+  });
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId } = await params;
+    const context = await getClinicalRequestContext();
+    const consultation = await requireTenantConsultation(context, consultationId);
+
+    const segments = await context.dataStore.getTranscriptSegments(consultationId);
+    return NextResponse.json({
+      segments,
+      transcriptionText: consultation.transcriptionText ?? null,
+      audioFileUrl: consultation.audioFileUrl ?? null,
+    });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to get transcript');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId } = await params;
+    const context = await getClinicalRequestContext();
+    await requireTenantConsultation(context, consultationId);
+
+    const parsed = relabelSpeakerSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid speaker relabel request' }, { status: 400 });
+    }
+
+    const segments = await context.dataStore.relabelTranscriptSpeaker(consultationId, parsed.data);
+    return NextResponse.json({ segments });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to relabel speaker');
+  }
+}
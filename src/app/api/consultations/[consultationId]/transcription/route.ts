@@ -0,0 +1,72 @@
+/**
+ * Consultation Transcription API Endpoint
+ *
+ * GET  - Transcription and note generation status, polled while either job runs
+ * POST - Re-queue transcription after a failure
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  clinicalErrorResponse,
+  getClinicalRequestContext,
+  requireTenantConsultation,
+} from '@/server/api/clinical-context';
+import type { ConsultationRecord } from '@/server/datastore';
+import { TranscriptionQueueService } from '@/server/services/transcription';
+
+interface RouteParams {
+  params: Promise<{ consultationId: string }>;
+}
+
+function toTranscriptionResponse(consultation: ConsultationRecord) {
+  return {
+    status: consultation.status,
+    transcriptionProgress: consultation.transcriptionProgress,
+    transcriptionText: consultation.transcriptionText,
+    error: consultation.transcriptionError,
+    noteGenerationProgress: consultation.noteGenerationProgress,
+    noteGenerationError: consultation.noteGenerationError,
+  };
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId } = await params;
+    const context = await getClinicalRequestContext();
+    const consultation = await requireTenantConsultation(context, consultationId);
+
+    return NextResponse.json({ transcription: toTranscriptionResponse(consultation) });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to get transcription status');
+  }
+}
+
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { consultationId } = await params;
+    const context = await getClinicalRequestContext();
+    const consultation = await requireTenantConsultation(context, consultationId);
+
+    // While still processing, the queue retries a failed attempt itself
+    if (consultation.status !== 'error' || !consultation.audioFileUrl) {
+      return NextResponse.json(
+        { error: 'Transcription can only be retried for a recorded consultation that failed' },
+        { status: 409 }
+      );
+    }
+
+    const updated = await context.dataStore.updateConsultation(consultationId, {
+      status: 'processing',
+      transcriptionProgress: 0,
+      transcriptionError: null,
+    });
+    await new TranscriptionQueueService().queueTranscription({
+      tenantId: context.tenantConfig.id,
+      consultationId,
+    });
+
+    return NextResponse.json({ transcription: toTranscriptionResponse(updated) });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to retry transcription');
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * SMART Callback Endpoint
+ *
+ * Where the EHR's authorization server sends the user back to after a SMART
+ * launch. The authorization code is exchanged for tokens, which are stored
+ * against the clinic that started the launch, and the user returns to Settings.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { serverEnv } from '@/env';
+import { getServerSession } from '@/server/auth';
+import { getDataStore, getTenantConfig } from '@/server/datastore';
+import { EHR_LAUNCH_COOKIE, getEhrConnectionService } from '@/server/services/ehr';
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  let settingsUrl = new URL('/app/settings?ehr=connected', serverEnv.NEXT_PUBLIC_APP_URL);
+
+  try {
+    const session = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.redirect(new URL('/signin', serverEnv.NEXT_PUBLIC_APP_URL));
+    }
+
+    const service = getEhrConnectionService();
+    const launch = service.readLaunchState(request.cookies.get(EHR_LAUNCH_COOKIE)?.value);
+    const tenantConfig = launch.userId === session.user.id ? await getTenantConfig(launch.tenantId) : null;
+    if (!tenantConfig) {
+      throw new Error('This EHR connection request was started by someone else; connect again');
+    }
+
+    await service.completeLaunch(await getDataStore(tenantConfig), launch, {
+      code: params.get('code'),
+      state: params.get('state'),
+      error: params.get('error'),
+      errorDescription: params.get('error_description'),
+    });
+  } catch (error) {
+    console.error('Failed to complete SMART launch:', error);
+    const message = error instanceof Error ? error.message : 'Failed to connect the EHR';
+    settingsUrl = new URL(`/app/settings?ehrError=${encodeURIComponent(message)}`, serverEnv.NEXT_PUBLIC_APP_URL);
+  }
+
+  const response = NextResponse.redirect(settingsUrl);
+  response.cookies.delete({ name: EHR_LAUNCH_COOKIE, path: '/api/ehr' });
+  return response;
+}
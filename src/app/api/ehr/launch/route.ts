@@ -0,0 +1,50 @@
+/**
+ * SMART Launch Endpoint
+ *
+ * Starts authorizing the clinic's EHR connection. Opened from Settings it runs a
+ * standalone launch; registered as the app's launch URL in the EHR, it receives
+ * the EHR's iss and launch parameters and runs an EHR launch. Either way the
+ * user is sent to the EHR to sign in, and comes back to the callback endpoint.
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { serverEnv } from '@/env';
+import { ClinicalRequestError, getClinicalRequestContext } from '@/server/api/clinical-context';
+import { TENANT_ADMIN_ROLES, getTenantMembership } from '@/server/datastore';
+import { EHR_LAUNCH_COOKIE, EHR_LAUNCH_TTL_MS, getEhrConnectionService } from '@/server/services/ehr';
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getClinicalRequestContext();
+    const membership = await getTenantMembership(context.userId, context.tenantConfig.id);
+    if (!membership || !TENANT_ADMIN_ROLES.includes(membership.role)) {
+      throw new ClinicalRequestError('Only clinic owners and practice managers can connect the EHR', 403);
+    }
+
+    const { authorizeUrl, launchState } = await getEhrConnectionService().startLaunch(context.dataStore, {
+      tenantId: context.tenantConfig.id,
+      userId: context.userId,
+      redirectUri: `${serverEnv.NEXT_PUBLIC_APP_URL}/api/ehr/callback`,
+      iss: request.nextUrl.searchParams.get('iss') ?? undefined,
+      launch: request.nextUrl.searchParams.get('launch') ?? undefined,
+    });
+
+    const response = NextResponse.redirect(authorizeUrl);
+    response.cookies.set(EHR_LAUNCH_COOKIE, launchState, {
+      httpOnly: true,
+      secure: serverEnv.NODE_ENV === 'production',
+      sameSite: 'lax', // Sent when the EHR redirects back
+      path: '/api/ehr',
+      maxAge: EHR_LAUNCH_TTL_MS / 1000,
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof ClinicalRequestError && error.status === 401) {
+      return NextResponse.redirect(new URL('/signin', serverEnv.NEXT_PUBLIC_APP_URL));
+    }
+
+    console.error('Failed to start SMART launch:', error);
+    const message = error instanceof Error ? error.message : 'Failed to connect the EHR';
+    return NextResponse.redirect(new URL(`/app/settings?ehrError=${encodeURIComponent(message)}`, serverEnv.NEXT_PUBLIC_APP_URL));
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Export Download Endpoint
+ *
+ * Streams a completed export to a user of the clinic that requested it.
+ */
+
+import { Readable } from 'stream';
+import { type NextRequest, NextResponse } from 'next/server';
+import { clinicalErrorResponse, getClinicalRequestContext } from '@/server/api/clinical-context';
+import { ExportNotFoundError } from '@/server/datastore';
+import { EXPORT_RENDERERS, createExportStorageService } from '@/server/services/export';
+
+interface RouteParams {
+  params: Promise<{ exportId: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { exportId } = await params;
+    const context = await getClinicalRequestContext();
+
+    const record = await context.dataStore.getExport(exportId);
+    if (record.tenantId !== context.tenantConfig.id) {
+      // Don't reveal that the export exists for another tenant
+      throw new ExportNotFoundError(exportId, context.tenantConfig.id);
+    }
+
+    if (record.status !== 'completed' || !record.filePath) {
+      return NextResponse.json({ error: 'Export is not ready', status: record.status }, { status: 409 });
+    }
+
+    const file = await createExportStorageService().open(record.filePath);
+    if (!file) {
+      return NextResponse.json({ error: 'Export file not found' }, { status: 404 });
+    }
+
+    return new NextResponse(Readable.toWeb(file.stream) as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': EXPORT_RENDERERS[record.format].mimeType,
+        'Content-Length': String(file.size),
+        'Content-Disposition': `attachment; filename="${record.fileName.replace(/[^\w.-]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(record.fileName)}`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to download export');
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Note Template API Endpoint
+ *
+ * GET   - The template and its version history, newest first
+ * PUT   - Save a new version: { source, changeSummary? }
+ * PATCH - Archive or restore the template: { isActive }
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { clinicalErrorResponse, getClinicalRequestContext } from '@/server/api/clinical-context';
+import { MAX_TEMPLATE_SOURCE_LENGTH } from '@/lib/note-template-dsl';
+
+interface RouteParams {
+  params: Promise<{ templateId: string }>;
+}
+
+const updateTemplateSchema = z.object({
+  source: z.string().min(1).max(MAX_TEMPLATE_SOURCE_LENGTH),
+  changeSummary: z.string().trim().max(200).optional(),
+});
+
+const setActiveSchema = z.object({
+  isActive: z.boolean(),
+});
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+    const context = await getClinicalRequestContext();
+
+    const [template, versions] = await Promise.all([
+      context.dataStore.getNoteTemplate(templateId),
+      context.dataStore.getNoteTemplateVersions(templateId),
+    ]);
+    return NextResponse.json({ template, versions });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to get note template');
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+    const context = await getClinicalRequestContext();
+
+    const parsed = updateTemplateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid note template' }, { status: 400 });
+    }
+
+    const template = await context.dataStore.updateNoteTemplate(templateId, {
+      ...parsed.data,
+      createdBy: context.userId,
+    });
+    return NextResponse.json({ template });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to update note template');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { templateId } = await params;
+    const context = await getClinicalRequestContext();
+
+    const parsed = setActiveSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid note template update' }, { status: 400 });
+    }
+
+    const template = await context.dataStore.setNoteTemplateActive(templateId, parsed.data.isActive);
+    return NextResponse.json({ template });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to update note template');
+  }
+}
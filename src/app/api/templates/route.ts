@@ -0,0 +1,48 @@
+/**
+ * Note Templates API Endpoint
+ *
+ * GET  - The clinic's template library (?includeInactive=true for archived templates)
+ * POST - Create a template from DSL source: { source, key?, changeSummary? }
+ */
+
+import { type NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { clinicalErrorResponse, getClinicalRequestContext } from '@/server/api/clinical-context';
+import { MAX_TEMPLATE_SOURCE_LENGTH } from '@/lib/note-template-dsl';
+
+const createTemplateSchema = z.object({
+  source: z.string().min(1).max(MAX_TEMPLATE_SOURCE_LENGTH),
+  key: z.string().trim().min(1).max(64).optional(),
+  changeSummary: z.string().trim().max(200).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const context = await getClinicalRequestContext();
+    const includeInactive = request.nextUrl.searchParams.get('includeInactive') === 'true';
+
+    const templates = await context.dataStore.listNoteTemplates({ includeInactive });
+    return NextResponse.json({ templates });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to list note templates');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const context = await getClinicalRequestContext();
+
+    const parsed = createTemplateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid note template' }, { status: 400 });
+    }
+
+    const template = await context.dataStore.createNoteTemplate({
+      ...parsed.data,
+      createdBy: context.userId,
+    });
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    return clinicalErrorResponse(error, 'Failed to create note template');
+  }
+}
@@ -27,6 +27,7 @@ import {
 } from "@/components/ui/sidebar";
 import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { ModeBadge } from "@/components/ModeBadge";
+import { TenantSwitcher } from "@/components/TenantSwitcher";
 import Link from "next/link";
 
 // Clinical navigation items (Phase 1)
@@ -112,7 +113,8 @@ export function AppSidebar() {
             <span className="text-xs text-muted-foreground">Clinical Dashboard</span>
           </div>
         </div>
-        <div className="px-4 pb-3 pt-1">
+        <div className="flex flex-col gap-2 px-4 pb-3 pt-1">
+          <TenantSwitcher />
           <ModeBadge className="w-fit" />
         </div>
       </SidebarHeader>
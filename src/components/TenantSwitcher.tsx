@@ -0,0 +1,103 @@
+/**
+ * Tenant Switcher
+ *
+ * Shows the clinic the session is working in, and lets users who belong to
+ * more than one clinic switch between them. Switching reloads the app so no
+ * page keeps showing the previous clinic's records.
+ */
+
+"use client";
+
+import React from 'react';
+import { Building2, Check, ChevronsUpDown } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { api } from '@/trpc/react';
+import { cn } from '@/lib/utils';
+
+const ROLE_LABELS = {
+  owner: 'Owner',
+  clinician: 'Clinician',
+  nurse: 'Nurse',
+  receptionist: 'Receptionist',
+  'practice-manager': 'Practice manager',
+} as const;
+
+interface TenantSwitcherProps {
+  className?: string;
+}
+
+export function TenantSwitcher({ className }: TenantSwitcherProps) {
+  const membershipsQuery = api.tenants.memberships.useQuery();
+  const setActiveMutation = api.tenants.setActive.useMutation({
+    onSuccess: () => {
+      window.location.assign('/app');
+    },
+    onError: error => {
+      toast.error(error.message);
+    },
+  });
+
+  const memberships = membershipsQuery.data ?? [];
+  const active = memberships.find(membership => membership.isActive);
+
+  if (!active) {
+    return null;
+  }
+
+  if (memberships.length === 1) {
+    return (
+      <div className={cn('flex items-center gap-2 text-sm text-muted-foreground', className)}>
+        <Building2 className="h-4 w-4 shrink-0" />
+        <span className="truncate">{active.tenantName}</span>
+      </div>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn('w-full justify-between', className)}
+          disabled={setActiveMutation.isPending}
+        >
+          <span className="flex items-center gap-2 truncate">
+            <Building2 className="h-4 w-4 shrink-0" />
+            <span className="truncate">{active.tenantName}</span>
+          </span>
+          <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        <DropdownMenuLabel>Switch clinic</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {memberships.map(membership => (
+          <DropdownMenuItem
+            key={membership.tenantId}
+            onSelect={() => {
+              if (!membership.isActive) {
+                setActiveMutation.mutate({ tenantId: membership.tenantId });
+              }
+            }}
+          >
+            <div className="flex flex-1 flex-col">
+              <span className="truncate">{membership.tenantName}</span>
+              <span className="text-xs text-muted-foreground">{ROLE_LABELS[membership.role]}</span>
+            </div>
+            {membership.isActive && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * Billed vs Suggested Chart Component
+ *
+ * Items suggested and billed on each day of the range, as paired bars scaled
+ * to the busiest day. Hovering a day shows its figures and billed revenue.
+ */
+
+"use client";
+
+import { format } from 'date-fns';
+import { formatFee } from '@/components/billing/ClaimBatchDetail';
+import type { BillingAnalyticsData } from '@/hooks/useBillingAnalytics';
+
+interface BilledVsSuggestedChartProps {
+  days: BillingAnalyticsData['days'];
+}
+
+export function BilledVsSuggestedChart({ days }: BilledVsSuggestedChartProps) {
+  const busiest = Math.max(1, ...days.map(day => day.suggested), ...days.map(day => day.billed));
+
+  if (days.every(day => day.suggested === 0 && day.billed === 0)) {
+    return <p className="py-12 text-center text-sm text-muted-foreground">No MBS items were suggested in this range.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex h-40 items-end gap-px">
+        {days.map(day => (
+          <div
+            key={day.date}
+            className="flex h-full flex-1 items-end justify-center gap-px hover:bg-muted"
+            title={`${format(new Date(`${day.date}T00:00:00`), 'EEE d MMM')}: ${day.billed} of ${day.suggested} billed, ${formatFee(day.billedFee)}`}
+          >
+            <div className="w-1/2 max-w-3 rounded-t-sm bg-muted-foreground/30" style={{ height: `${(day.suggested / busiest) * 100}%` }} />
+            <div className="w-1/2 max-w-3 rounded-t-sm bg-primary" style={{ height: `${(day.billed / busiest) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{format(new Date(`${days[0]!.date}T00:00:00`), 'd MMM')}</span>
+        <div className="flex gap-4">
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-sm bg-muted-foreground/30" /> Suggested
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-sm bg-primary" /> Billed
+          </span>
+        </div>
+        <span>{format(new Date(`${days[days.length - 1]!.date}T00:00:00`), 'd MMM')}</span>
+      </div>
+    </div>
+  );
+}
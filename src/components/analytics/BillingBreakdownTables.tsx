@@ -0,0 +1,104 @@
+/**
+ * Billing Breakdown Tables
+ *
+ * How each MBS item and each clinician fared over the range: suggestions made,
+ * how many were accepted as they were, and the revenue billed and missed.
+ */
+
+"use client";
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatFee } from '@/components/billing/ClaimBatchDetail';
+import { formatRate } from '@/components/analytics/BillingSummary';
+import type { BillingAnalyticsData } from '@/hooks/useBillingAnalytics';
+
+function AcceptanceBar({ rate }: { rate: number | null }) {
+  return (
+    <div className="flex items-center justify-end gap-2">
+      <div className="h-2 w-16 overflow-hidden rounded-full bg-muted">
+        <div className="h-full bg-primary" style={{ width: `${(rate ?? 0) * 100}%` }} />
+      </div>
+      <span className="w-10 text-right tabular-nums">{formatRate(rate)}</span>
+    </div>
+  );
+}
+
+export function ItemAcceptanceTable({ items }: { items: BillingAnalyticsData['items'] }) {
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground">No MBS items were suggested in this range.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Item</TableHead>
+          <TableHead className="text-right">Suggested</TableHead>
+          <TableHead className="text-right">Billed</TableHead>
+          <TableHead className="text-right">Acceptance</TableHead>
+          <TableHead className="text-right">Revenue</TableHead>
+          <TableHead className="text-right">Missed</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map(item => (
+          <TableRow key={item.itemNumber}>
+            <TableCell>
+              <div className="font-medium">{item.itemNumber}</div>
+              <div className="line-clamp-1 max-w-xs text-xs text-muted-foreground">{item.description}</div>
+            </TableCell>
+            <TableCell className="text-right tabular-nums">
+              {item.suggested}
+              {item.modified + item.rejected + item.ignored > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  {[
+                    item.modified > 0 && `${item.modified} changed`,
+                    item.rejected > 0 && `${item.rejected} rejected`,
+                    item.ignored > 0 && `${item.ignored} ignored`,
+                  ].filter(Boolean).join(' · ')}
+                </div>
+              )}
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{item.billed}</TableCell>
+            <TableCell><AcceptanceBar rate={item.acceptanceRate} /></TableCell>
+            <TableCell className="text-right tabular-nums">{formatFee(item.billedFee)}</TableCell>
+            <TableCell className="text-right tabular-nums text-muted-foreground">{formatFee(item.missedFee)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function ClinicianBillingTable({ clinicians }: { clinicians: BillingAnalyticsData['clinicians'] }) {
+  if (clinicians.length === 0) {
+    return <p className="text-sm text-muted-foreground">No consultations in this range.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Clinician</TableHead>
+          <TableHead className="text-right">Consultations</TableHead>
+          <TableHead className="text-right">Billed</TableHead>
+          <TableHead className="text-right">Acceptance</TableHead>
+          <TableHead className="text-right">Revenue</TableHead>
+          <TableHead className="text-right">Missed</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {clinicians.map(clinician => (
+          <TableRow key={clinician.clinicianId ?? 'unassigned'}>
+            <TableCell className="font-medium">{clinician.name}</TableCell>
+            <TableCell className="text-right tabular-nums">{clinician.consultations}</TableCell>
+            <TableCell className="text-right tabular-nums">{clinician.billed} of {clinician.suggested}</TableCell>
+            <TableCell><AcceptanceBar rate={clinician.acceptanceRate} /></TableCell>
+            <TableCell className="text-right tabular-nums">{formatFee(clinician.billedFee)}</TableCell>
+            <TableCell className="text-right tabular-nums text-muted-foreground">{formatFee(clinician.missedFee)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Billing Summary Component
+ *
+ * Headline billing figures for the analytics page: how many suggested items
+ * were billed, how often suggestions were taken as they were, and the revenue
+ * billed and missed at the schedule fee and each Medicare benefit level.
+ */
+
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatFee } from '@/components/billing/ClaimBatchDetail';
+import type { BillingAnalyticsData } from '@/hooks/useBillingAnalytics';
+
+export const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+const REVENUE_LEVELS = [
+  { key: 'scheduleFee', label: 'Schedule fee' },
+  { key: 'benefit100', label: '100% benefit' },
+  { key: 'benefit85', label: '85% benefit' },
+  { key: 'benefit75', label: '75% benefit' },
+] as const;
+
+interface BillingSummaryProps {
+  totals: BillingAnalyticsData['totals'];
+}
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="text-2xl font-semibold tabular-nums">{value}</div>
+        <div className="text-sm text-muted-foreground">{label}</div>
+        {detail && <div className="mt-1 text-xs text-muted-foreground">{detail}</div>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function BillingSummary({ totals }: BillingSummaryProps) {
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <Stat
+          label="Items billed"
+          value={`${totals.billed} of ${totals.suggested}`}
+          detail={`Suggested across ${totals.consultations} consultations`}
+        />
+        <Stat
+          label="Acceptance rate"
+          value={formatRate(totals.acceptanceRate)}
+          detail={`${totals.accepted} accepted · ${totals.modified} changed · ${totals.rejected} rejected · ${totals.ignored} ignored`}
+        />
+        <Stat label="Estimated revenue" value={formatFee(totals.billedRevenue.scheduleFee)} detail="At the schedule fee" />
+        <Stat
+          label="Missed billing"
+          value={formatFee(totals.missedRevenue.scheduleFee)}
+          detail={`${totals.rejected + totals.ignored} rejected or ignored suggestions`}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Revenue by benefit level</CardTitle>
+          <CardDescription>Estimated from the item fees in effect on each consultation&apos;s day.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                {REVENUE_LEVELS.map(level => (
+                  <TableHead key={level.key} className="text-right">{level.label}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell className="font-medium">Billed</TableCell>
+                {REVENUE_LEVELS.map(level => (
+                  <TableCell key={level.key} className="text-right tabular-nums">{formatFee(totals.billedRevenue[level.key])}</TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-medium">Missed</TableCell>
+                {REVENUE_LEVELS.map(level => (
+                  <TableCell key={level.key} className="text-right tabular-nums text-muted-foreground">
+                    {formatFee(totals.missedRevenue[level.key])}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
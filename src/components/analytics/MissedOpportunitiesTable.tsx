@@ -0,0 +1,58 @@
+/**
+ * Missed Opportunities Table
+ *
+ * Suggested items that were rejected or never actioned, most valuable first,
+ * each linking back to its consultation so it can be reviewed and billed if
+ * it was missed by mistake.
+ */
+
+"use client";
+
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatFee } from '@/components/billing/ClaimBatchDetail';
+import type { BillingAnalyticsData } from '@/hooks/useBillingAnalytics';
+
+export function MissedOpportunitiesTable({ opportunities }: { opportunities: BillingAnalyticsData['missedOpportunities'] }) {
+  if (opportunities.length === 0) {
+    return <p className="text-sm text-muted-foreground">Every suggestion in this range was billed.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Clinician</TableHead>
+          <TableHead>Item</TableHead>
+          <TableHead>Outcome</TableHead>
+          <TableHead className="text-right">Fee</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {opportunities.map(opportunity => (
+          <TableRow key={opportunity.suggestionId}>
+            <TableCell className="whitespace-nowrap">
+              <Link href={`/app/consultations/${opportunity.consultationId}`} className="hover:underline">
+                {format(opportunity.serviceDate, 'd MMM yyyy')}
+              </Link>
+            </TableCell>
+            <TableCell>{opportunity.clinicianName}</TableCell>
+            <TableCell>
+              <div className="font-medium">{opportunity.itemNumber}</div>
+              <div className="line-clamp-1 max-w-xs text-xs text-muted-foreground">{opportunity.description}</div>
+            </TableCell>
+            <TableCell>
+              <Badge variant="outline" color={opportunity.status === 'rejected' ? 'red-600' : 'amber-600'}>
+                {opportunity.status === 'rejected' ? 'Rejected' : 'Ignored'}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-right tabular-nums">{formatFee(opportunity.scheduleFee)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
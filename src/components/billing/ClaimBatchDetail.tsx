@@ -0,0 +1,187 @@
+/**
+ * Claim Batch Detail Component
+ *
+ * A day's claims with what stops any pending one being lodged, buttons to
+ * export the claim file as CSV or JSON, and the status of each exported claim
+ * as recorded from what Medicare says.
+ */
+
+"use client";
+
+import React from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, FileDown } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Spinner } from '@/components/Spinner';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useClaimBatch, type ClaimFileFormat, type RecordedClaimStatus } from '@/hooks/useClaimBatches';
+import { CLAIM_STATUS_LABELS, CLAIM_STATUS_TRANSITIONS } from '@/lib/claim-status';
+import { cn } from '@/lib/utils';
+
+export const CLAIM_STATUS_COLORS = {
+  pending: 'gray-600',
+  exported: 'blue-600',
+  submitted: 'amber-600',
+  paid: 'green-600',
+  rejected: 'red-600',
+} as const;
+
+const currency = new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' });
+
+export const formatFee = (fee: number | undefined) => (fee === undefined ? '—' : currency.format(fee));
+
+interface ClaimBatchDetailProps {
+  batchId: string;
+  className?: string;
+}
+
+export function ClaimBatchDetail({ batchId, className }: ClaimBatchDetailProps) {
+  const { batch, loading, error, updateClaimStatus, updatingStatus, downloadClaimFile } = useClaimBatch(batchId);
+  const [downloading, setDownloading] = React.useState<ClaimFileFormat | null>(null);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (error || !batch) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+        <AlertTriangle className="h-4 w-4" />
+        {error ?? 'Claim batch not found'}
+      </div>
+    );
+  }
+
+  const incompleteCount = batch.lines.filter(line => line.issues.length > 0).length;
+
+  const download = async (fileFormat: ClaimFileFormat) => {
+    setDownloading(fileFormat);
+    try {
+      await downloadClaimFile(batch.exportUrl, fileFormat);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export claim file');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const recordStatus = async (lineId: string, status: RecordedClaimStatus) => {
+    const reason = status === 'rejected' ? window.prompt('Why did Medicare reject the claim?') ?? undefined : undefined;
+    try {
+      await updateClaimStatus(lineId, status, reason);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update claim status');
+    }
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">{format(new Date(`${batch.serviceDate}T00:00:00`), 'EEEE d MMMM yyyy')}</h2>
+          <p className="text-sm text-muted-foreground">
+            {batch.lineCount} claims · {formatFee(batch.totalFee)}
+            {batch.exportedAt && ` · exported ${format(batch.exportedAt, 'd MMM yyyy, h:mm a')}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(['csv', 'json'] as const).map(fileFormat => (
+            <Button
+              key={fileFormat}
+              size="sm"
+              variant={fileFormat === 'csv' ? 'default' : 'outline'}
+              disabled={downloading !== null || batch.lineCount === 0 || incompleteCount > 0}
+              onClick={() => void download(fileFormat)}
+            >
+              <FileDown className="h-4 w-4 mr-2" />
+              {downloading === fileFormat ? 'Exporting...' : `Export ${fileFormat.toUpperCase()}`}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {batch.status === 'open' && (
+        <p className="text-sm text-muted-foreground">
+          {incompleteCount > 0
+            ? `${incompleteCount} claims are missing details. Fix them on the patient or in provider numbers, then refresh claims.`
+            : 'Exporting closes this batch; claims accepted later for this day start a new one.'}
+        </p>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Patient</TableHead>
+            <TableHead>Item</TableHead>
+            <TableHead>Provider</TableHead>
+            <TableHead className="text-right">Fee</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {batch.lines.map(line => {
+            const nextStatuses = CLAIM_STATUS_TRANSITIONS[line.status] as RecordedClaimStatus[];
+            return (
+              <TableRow key={line.id}>
+                <TableCell>
+                  <div className="font-medium">
+                    {line.patientFirstName} {line.patientLastName}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {line.medicareNumber ? `${line.medicareNumber} / ${line.medicareIrn ?? '?'}` : 'No Medicare number'}
+                    {' · '}
+                    {format(line.serviceDate, 'h:mm a')}
+                  </div>
+                  {line.issues.map(issue => (
+                    <div key={issue} className="text-xs text-destructive">
+                      {issue}
+                    </div>
+                  ))}
+                </TableCell>
+                <TableCell className="max-w-xs">
+                  <div className="font-medium">{line.itemNumber}</div>
+                  <div className="truncate text-xs text-muted-foreground">{line.itemDescription}</div>
+                </TableCell>
+                <TableCell className="font-mono text-sm">{line.providerNumber ?? '—'}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatFee(line.scheduleFee)}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" color={CLAIM_STATUS_COLORS[line.status]}>
+                      {CLAIM_STATUS_LABELS[line.status]}
+                    </Badge>
+                    {nextStatuses.length > 0 && (
+                      <Select
+                        value=""
+                        disabled={updatingStatus}
+                        onValueChange={value => void recordStatus(line.id, value as RecordedClaimStatus)}
+                      >
+                        <SelectTrigger className="h-8 w-32">
+                          <SelectValue placeholder="Record..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {nextStatuses.map(status => (
+                            <SelectItem key={status} value={status}>
+                              {CLAIM_STATUS_LABELS[status]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                  {line.statusReason && <div className="mt-1 text-xs text-muted-foreground">{line.statusReason}</div>}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
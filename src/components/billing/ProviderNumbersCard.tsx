@@ -0,0 +1,72 @@
+/**
+ * Provider Numbers Card
+ *
+ * Lets clinic owners and practice managers set the Medicare provider number
+ * each member's claims are made under at this clinic.
+ */
+
+"use client";
+
+import React from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Spinner } from '@/components/Spinner';
+import { api } from '@/trpc/react';
+
+export function ProviderNumbersCard() {
+  const utils = api.useUtils();
+  const membersQuery = api.tenants.members.useQuery();
+  const [drafts, setDrafts] = React.useState<Record<string, string>>({});
+
+  const updateProviderNumber = api.tenants.updateMemberProviderNumber.useMutation({
+    onSuccess: member => {
+      toast.success(`Provider number saved for ${member.userName}`);
+      setDrafts(current => Object.fromEntries(Object.entries(current).filter(([userId]) => userId !== member.userId)));
+      void utils.tenants.members.invalidate();
+    },
+    onError: error => toast.error(error.message),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Provider numbers</CardTitle>
+        <CardDescription>Claims are made under the provider number of the clinician who accepted the item.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {membersQuery.isLoading && <Spinner />}
+        {membersQuery.data?.map(member => {
+          const value = drafts[member.userId] ?? member.providerNumber ?? '';
+          return (
+            <form
+              key={member.userId}
+              className="flex items-center gap-2"
+              onSubmit={event => {
+                event.preventDefault();
+                updateProviderNumber.mutate({ userId: member.userId, providerNumber: value.trim() || null });
+              }}
+            >
+              <span className="flex-1 truncate text-sm">{member.userName}</span>
+              <Input
+                className="w-32 font-mono"
+                placeholder="2426621B"
+                value={value}
+                onChange={event => setDrafts(current => ({ ...current, [member.userId]: event.target.value }))}
+              />
+              <Button
+                type="submit"
+                size="sm"
+                variant="outline"
+                disabled={updateProviderNumber.isPending || value === (member.providerNumber ?? '')}
+              >
+                Save
+              </Button>
+            </form>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
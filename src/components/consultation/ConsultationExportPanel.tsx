@@ -0,0 +1,149 @@
+/**
+ * Consultation Export Panel
+ *
+ * Requests PDF, Word or text exports of a consultation's notes on the clinic
+ * letterhead, and lists previous exports with their download links. Exports
+ * are rendered in the background, so the list polls until they finish.
+ */
+
+"use client";
+
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, Download, FileDown } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Spinner } from '@/components/Spinner';
+import { api } from '@/trpc/react';
+import { cn } from '@/lib/utils';
+
+type ExportFormat = 'pdf' | 'docx' | 'txt';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  pdf: 'PDF',
+  docx: 'Word (DOCX)',
+  txt: 'Plain text',
+};
+
+const STATUS_BADGES = {
+  pending: { label: 'Queued', color: 'gray-600' },
+  processing: { label: 'Rendering', color: 'blue-600' },
+  completed: { label: 'Ready', color: 'green-600' },
+  failed: { label: 'Failed', color: 'red-600' },
+} as const;
+
+const POLL_INTERVAL_MS = 2000;
+
+interface ConsultationExportPanelProps {
+  consultationId: string;
+  canExport: boolean; // False until the consultation has a note
+  className?: string;
+}
+
+export function ConsultationExportPanel({ consultationId, canExport, className }: ConsultationExportPanelProps) {
+  const [format, setFormat] = React.useState<ExportFormat>('pdf');
+  const utils = api.useUtils();
+
+  const exportsQuery = api.exports.list.useQuery(
+    { consultationId },
+    {
+      refetchInterval: query =>
+        query.state.data?.some(item => item.status === 'pending' || item.status === 'processing')
+          ? POLL_INTERVAL_MS
+          : false,
+    }
+  );
+
+  const createExport = api.exports.create.useMutation({
+    onSuccess: () => {
+      void utils.exports.list.invalidate({ consultationId });
+    },
+    onError: error => {
+      toast.error(error.message || 'Failed to request export');
+    },
+  });
+
+  const exports = exportsQuery.data ?? [];
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={format} onValueChange={value => setFormat(value as ExportFormat)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(option => (
+              <SelectItem key={option} value={option}>
+                {FORMAT_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={() => createExport.mutate({ consultationId, format })}
+          disabled={!canExport || createExport.isPending}
+        >
+          <FileDown className="h-4 w-4 mr-2" />
+          {createExport.isPending ? 'Requesting...' : 'Export notes'}
+        </Button>
+        {!canExport && <span className="text-sm text-muted-foreground">Draft a note to export it.</span>}
+      </div>
+
+      {exportsQuery.isLoading ? (
+        <div className="flex justify-center py-4">
+          <Spinner />
+        </div>
+      ) : exportsQuery.error ? (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          {exportsQuery.error.message}
+        </div>
+      ) : exports.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No exports yet.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {exports.map(item => {
+            const badge = STATUS_BADGES[item.status];
+            return (
+              <li key={item.id} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <div className="truncate font-medium">{item.fileName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Requested {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+                    {item.fileSize !== undefined && ` · ${formatFileSize(item.fileSize)}`}
+                  </div>
+                  {item.status === 'failed' && item.error && (
+                    <div className="text-xs text-destructive">{item.error}</div>
+                  )}
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <Badge variant="outline" color={badge.color}>
+                    {badge.label}
+                  </Badge>
+                  {item.downloadUrl && (
+                    <Button asChild variant="ghost" size="sm">
+                      <a href={item.downloadUrl} download={item.fileName}>
+                        <Download className="h-4 w-4 mr-1" />
+                        Download
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
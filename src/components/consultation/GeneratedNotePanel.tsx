@@ -0,0 +1,375 @@
+/**
+ * Generated Note Panel Component
+ *
+ * Shows the latest AI-drafted note for a consultation with its generation
+ * progress, and lets the clinician redraft it with a different template.
+ * Hovering a statement shows the transcript excerpts it was drawn from;
+ * statements without supporting evidence are highlighted for checking.
+ * Once signed the note is locked, and further changes are recorded as amendments.
+ */
+
+"use client";
+
+import React from 'react';
+import { AlertTriangle, CheckCircle2, History, Lock, Pencil, Sparkles } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { normalizeStatement, splitNoteLine } from '@/lib/note-statements';
+import { NOTE_STATUS_LABELS, NOTE_STATUS_TRANSITIONS, isNoteLocked, type NoteStatus } from '@/lib/note-status';
+import { DEFAULT_NOTE_TEMPLATE_KEY } from '@/lib/note-templates';
+import { formatTranscriptTimestamp } from '@/lib/transcript';
+import { cn } from '@/lib/utils';
+import type { NoteAmendment, NoteUpdate } from '@/hooks/useConsultationNotes';
+import type { ClinicalNote, ClinicalNoteVersion, NoteCitation, NoteTemplate } from '@/types/clinical';
+import { NoteVersionHistory } from './NoteVersionHistory';
+
+const TRANSITION_LABELS: Partial<Record<NoteStatus, string>> = {
+  draft: 'Return to draft',
+  'pending-review': 'Submit for review',
+  final: 'Mark final',
+  signed: 'Sign',
+};
+
+interface GeneratedNotePanelProps {
+  note: ClinicalNote | null;
+  citations?: NoteCitation[];
+  progress?: number;
+  error?: string;
+  templateKey?: string;
+  templates: Array<Pick<NoteTemplate, 'key' | 'name'>>;
+  isGenerating: boolean;
+  canGenerate: boolean;
+  onGenerate: (templateKey: string) => Promise<void>;
+  onUpdate?: (updates: NoteUpdate) => Promise<unknown>;
+  onAmend?: (amendment: NoteAmendment) => Promise<unknown>;
+  getVersions?: () => Promise<ClinicalNoteVersion[]>;
+  className?: string;
+}
+
+export function GeneratedNotePanel({
+  note,
+  citations = [],
+  progress,
+  error,
+  templateKey,
+  templates,
+  isGenerating,
+  canGenerate,
+  onGenerate,
+  onUpdate,
+  onAmend,
+  getVersions,
+  className,
+}: GeneratedNotePanelProps) {
+  const [selectedTemplateKey, setSelectedTemplateKey] = React.useState(templateKey ?? DEFAULT_NOTE_TEMPLATE_KEY);
+
+  React.useEffect(() => {
+    if (templateKey) setSelectedTemplateKey(templateKey);
+  }, [templateKey]);
+
+  const unsupportedCount = citations.filter(citation => citation.support === 'unsupported').length;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={selectedTemplateKey} onValueChange={setSelectedTemplateKey} disabled={isGenerating}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Template" />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map(template => (
+              <SelectItem key={template.key} value={template.key}>
+                {template.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={() => void onGenerate(selectedTemplateKey)}
+          disabled={!canGenerate || isGenerating}
+        >
+          <Sparkles className={cn('h-4 w-4 mr-2', isGenerating && 'animate-pulse')} />
+          {note ? 'Regenerate Note' : 'Generate Note'}
+        </Button>
+      </div>
+
+      {isGenerating && (
+        <div className="space-y-1">
+          <div className="text-xs text-blue-600">Drafting note ({progress ?? 0}%)</div>
+          <div className="h-1.5 w-full rounded-full bg-blue-100 overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-[width] duration-500"
+              style={{ width: `${progress ?? 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {note ? (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className="font-medium">{note.title}</h3>
+            <Badge color={isNoteLocked(note.status) ? 'green-600' : 'amber-600'}>
+              {isNoteLocked(note.status) && <Lock className="h-3 w-3 mr-1" />}
+              {NOTE_STATUS_LABELS[note.status]}
+            </Badge>
+            {note.aiConfidence !== undefined && (
+              <Badge variant="outline" color="blue-600">AI confidence {Math.round(note.aiConfidence * 100)}%</Badge>
+            )}
+            {citations.length > 0 &&
+              (unsupportedCount > 0 ? (
+                <Badge variant="outline" color="amber-600">
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  {unsupportedCount} {unsupportedCount === 1 ? 'statement' : 'statements'} without evidence
+                </Badge>
+              ) : (
+                <Badge variant="outline" color="green-600">
+                  <CheckCircle2 className="h-3 w-3 mr-1" />
+                  All statements cited
+                </Badge>
+              ))}
+          </div>
+          <NoteWorkflow key={note.id} note={note} onUpdate={onUpdate} onAmend={onAmend} getVersions={getVersions}>
+            <NoteContent content={note.content} citations={citations} />
+          </NoteWorkflow>
+        </div>
+      ) : (
+        !isGenerating && (
+          <div className="text-sm text-muted-foreground text-center py-8">
+            No note has been drafted for this consultation yet.
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+interface NoteWorkflowProps {
+  note: ClinicalNote;
+  onUpdate?: (updates: NoteUpdate) => Promise<unknown>;
+  onAmend?: (amendment: NoteAmendment) => Promise<unknown>;
+  getVersions?: () => Promise<ClinicalNoteVersion[]>;
+  children: React.ReactNode;
+}
+
+/**
+ * Status actions, the editor (or amendment form once signed) and version history
+ */
+function NoteWorkflow({ note, onUpdate, onAmend, getVersions, children }: NoteWorkflowProps) {
+  const locked = isNoteLocked(note.status);
+  const [editing, setEditing] = React.useState(false);
+  const [content, setContent] = React.useState(note.content);
+  const [reason, setReason] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [actionError, setActionError] = React.useState<string | null>(null);
+  const [versions, setVersions] = React.useState<ClinicalNoteVersion[] | null>(null);
+
+  const loadVersions = React.useCallback(async () => {
+    if (!getVersions) return;
+    try {
+      setVersions(await getVersions());
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to load note history');
+    }
+  }, [getVersions]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true);
+      setActionError(null);
+      await action();
+      setEditing(false);
+      setReason('');
+      if (versions) await loadVersions();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to update note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = () => {
+    setContent(note.content);
+    setEditing(true);
+  };
+
+  const canSave = content.trim().length > 0 && content !== note.content && (!locked || reason.trim().length > 0);
+
+  return (
+    <div className="space-y-3">
+      {(onUpdate ?? onAmend ?? getVersions) && !editing && (
+        <div className="flex flex-wrap items-center gap-2">
+          {onUpdate &&
+            NOTE_STATUS_TRANSITIONS[note.status].map(status => (
+              <Button
+                key={status}
+                size="sm"
+                variant={status === 'signed' ? 'default' : 'outline'}
+                disabled={saving}
+                onClick={() => void run(() => onUpdate({ status: status as NoteUpdate['status'] }))}
+              >
+                {TRANSITION_LABELS[status]}
+              </Button>
+            ))}
+          {(locked ? onAmend : onUpdate) && (
+            <Button size="sm" variant="outline" disabled={saving} onClick={startEditing}>
+              <Pencil className="h-4 w-4 mr-2" />
+              {locked ? 'Amend' : 'Edit'}
+            </Button>
+          )}
+          {getVersions && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => (versions ? setVersions(null) : void loadVersions())}
+            >
+              <History className="h-4 w-4 mr-2" />
+              {versions ? 'Hide history' : 'History'}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {actionError && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          {actionError}
+        </div>
+      )}
+
+      {editing ? (
+        <div className="space-y-2">
+          {locked && (
+            <p className="text-sm text-muted-foreground">
+              This note is signed. Your changes will be saved as an amendment; the signed version stays in the history.
+            </p>
+          )}
+          <Textarea
+            value={content}
+            onChange={event => setContent(event.target.value)}
+            className="min-h-[320px] font-mono text-xs leading-relaxed"
+          />
+          {locked && (
+            <Input
+              value={reason}
+              onChange={event => setReason(event.target.value)}
+              placeholder="Reason for amendment (required)"
+              maxLength={500}
+            />
+          )}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={!canSave || saving}
+              onClick={() =>
+                void run(() => (locked ? onAmend!({ content, reason }) : onUpdate!({ content })))
+              }
+            >
+              {locked ? 'Save amendment' : 'Save'}
+            </Button>
+            <Button size="sm" variant="ghost" disabled={saving} onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        children
+      )}
+
+      {versions && <NoteVersionHistory versions={versions} className="rounded-lg border p-3" />}
+    </div>
+  );
+}
+
+/**
+ * Render the note's Markdown sections (## headings followed by paragraphs),
+ * attaching each statement's citation
+ */
+function NoteContent({ content, citations }: { content: string; citations: NoteCitation[] }) {
+  const blocks = content.split(/\n{2,}/);
+
+  // Citations are matched by text, so statements the clinician has since edited show uncited
+  const citationsByStatement = new Map<string, NoteCitation[]>();
+  for (const citation of citations) {
+    const key = normalizeStatement(citation.statement);
+    citationsByStatement.set(key, [...(citationsByStatement.get(key) ?? []), citation]);
+  }
+  const takeCitation = (statement: string) => citationsByStatement.get(normalizeStatement(statement))?.shift();
+
+  return (
+    <div className="space-y-2 rounded-lg border bg-muted/30 p-4">
+      {blocks.map((block, index) =>
+        block.startsWith('## ') ? (
+          <h4 key={index} className="pt-2 text-sm font-semibold first:pt-0">
+            {block.slice(3)}
+          </h4>
+        ) : (
+          <div key={index} className="space-y-1 text-sm leading-relaxed">
+            {block.split('\n').map((line, lineIndex) => {
+              const { bullet, statements } = splitNoteLine(line);
+              return (
+                <p key={lineIndex} className={cn(bullet && 'pl-4 -indent-3')}>
+                  {bullet && '• '}
+                  {statements.map((statement, statementIndex) => (
+                    <React.Fragment key={statementIndex}>
+                      {statementIndex > 0 && ' '}
+                      <CitedStatement statement={statement} citation={takeCitation(statement)} />
+                    </React.Fragment>
+                  ))}
+                </p>
+              );
+            })}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+function CitedStatement({ statement, citation }: { statement: string; citation?: NoteCitation }) {
+  if (!citation) return <span>{statement}</span>;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            'cursor-help rounded-sm decoration-dotted underline-offset-4',
+            citation.support === 'unsupported' ? 'bg-amber-100 underline decoration-amber-600 dark:bg-amber-900/40' : 'hover:underline'
+          )}
+        >
+          {statement}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-sm space-y-2 text-left">
+        {citation.support === 'patient-record' && <div>From the patient record</div>}
+        {citation.support === 'unsupported' && (
+          <div className="font-medium">
+            No supporting evidence in the transcript
+            {citation.evidence.length > 0 && ' - closest matches:'}
+          </div>
+        )}
+        {citation.evidence.map(evidence => (
+          <div key={evidence.segmentId}>
+            <span className="font-medium">
+              {evidence.speaker} · {formatTranscriptTimestamp(evidence.startMs)}
+            </span>
+            <div className="opacity-90">&ldquo;{evidence.excerpt}&rdquo;</div>
+          </div>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
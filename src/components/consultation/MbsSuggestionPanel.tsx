@@ -0,0 +1,276 @@
+/**
+ * MBS Suggestion Panel
+ *
+ * Lists the MBS items suggested from the consultation's note, with the note
+ * text that supports each one. Clinicians accept or reject a suggestion, or
+ * swap it for the item they would rather bill. Suggestions are drafted in the
+ * background once a note reaches review, so the list polls for a while until
+ * they arrive. Items not yet rejected are checked against the MBS billing
+ * rules, and any rule they break is explained above the list.
+ */
+
+"use client";
+
+import React from 'react';
+import { AlertTriangle, Check, CircleAlert, Pencil, RefreshCw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Spinner } from '@/components/Spinner';
+import { api } from '@/trpc/react';
+import { cn } from '@/lib/utils';
+
+const STATUS_BADGES = {
+  suggested: { label: 'Suggested', color: 'blue-600' },
+  accepted: { label: 'Accepted', color: 'green-600' },
+  rejected: { label: 'Rejected', color: 'gray-600' },
+  modified: { label: 'Changed', color: 'amber-600' },
+} as const;
+
+const POLL_INTERVAL_MS = 3000;
+// Stop waiting after about a minute - the note may simply have nothing to bill
+const MAX_POLLS = 20;
+
+interface MbsSuggestionPanelProps {
+  consultationId: string;
+  noteId?: string;
+  canSuggest: boolean; // True while the note is under review
+  className?: string;
+}
+
+export function MbsSuggestionPanel({ consultationId, noteId, canSuggest, className }: MbsSuggestionPanelProps) {
+  const [requestedAt, setRequestedAt] = React.useState<number | null>(null);
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [itemNumber, setItemNumber] = React.useState('');
+  const utils = api.useUtils();
+
+  const suggestionsQuery = api.mbs.suggestions.useQuery(
+    { consultationId },
+    {
+      refetchInterval: query => {
+        const suggestions = query.state.data ?? [];
+        const waiting =
+          canSuggest &&
+          (requestedAt !== null
+            ? !suggestions.some(suggestion => new Date(suggestion.createdAt).getTime() >= requestedAt)
+            : suggestions.length === 0);
+        return waiting && query.state.dataUpdateCount < MAX_POLLS ? POLL_INTERVAL_MS : false;
+      },
+    }
+  );
+
+  const actionSuggestion = api.mbs.actionSuggestion.useMutation({
+    onSuccess: () => {
+      setEditingId(null);
+      void utils.mbs.suggestions.invalidate({ consultationId });
+    },
+    onError: error => {
+      toast.error(error.message || 'Failed to update suggestion');
+    },
+  });
+
+  const regenerate = api.mbs.regenerateSuggestions.useMutation({
+    onSuccess: () => {
+      setRequestedAt(Date.now());
+      toast.success('Suggesting items again from the note');
+      void utils.mbs.suggestions.invalidate({ consultationId });
+    },
+    onError: error => {
+      toast.error(error.message || 'Failed to suggest items');
+    },
+  });
+
+  const suggestions = suggestionsQuery.data ?? [];
+  const billedItems = suggestions
+    .filter(suggestion => suggestion.status !== 'rejected')
+    .map(suggestion => suggestion.itemNumber);
+
+  const validationQuery = api.mbs.validateItems.useQuery(
+    { consultationId, itemNumbers: billedItems.slice(0, 20) },
+    { enabled: billedItems.length > 0 }
+  );
+  const violations = billedItems.length > 0 ? (validationQuery.data?.violations ?? []) : [];
+  const violatedItems = new Set(violations.flatMap(violation => violation.itemNumbers));
+
+  const startEditing = (suggestionId: string, current: number) => {
+    setEditingId(suggestionId);
+    setItemNumber(String(current));
+  };
+
+  const saveItemNumber = (suggestionId: string) => {
+    const parsed = Number.parseInt(itemNumber, 10);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      toast.error('Enter an MBS item number');
+      return;
+    }
+    actionSuggestion.mutate({ suggestionId, status: 'modified', itemNumber: parsed });
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => noteId && regenerate.mutate({ noteId })}
+          disabled={!noteId || !canSuggest || regenerate.isPending}
+        >
+          <RefreshCw className={cn('h-4 w-4 mr-2', regenerate.isPending && 'animate-spin')} />
+          Suggest again
+        </Button>
+        {!canSuggest && (
+          <span className="text-sm text-muted-foreground">Items are suggested once a note is sent for review.</span>
+        )}
+      </div>
+
+      {violations.length > 0 && (
+        <ul className="space-y-1">
+          {violations.map(violation => (
+            <li
+              key={`${violation.ruleCode}-${violation.itemNumbers.join('-')}`}
+              className={cn(
+                'flex items-start gap-2 rounded-lg border p-3 text-sm',
+                violation.severity === 'error'
+                  ? 'border-destructive/20 bg-destructive/10 text-destructive'
+                  : 'border-amber-200 bg-amber-50 text-amber-800'
+              )}
+            >
+              {violation.severity === 'error' ? (
+                <CircleAlert className="mt-0.5 h-4 w-4 shrink-0" />
+              ) : (
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              )}
+              <div>
+                <div>{violation.message}</div>
+                <div className="text-xs opacity-80">{violation.ruleDescription}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {suggestionsQuery.isLoading ? (
+        <div className="flex justify-center py-4">
+          <Spinner />
+        </div>
+      ) : suggestionsQuery.error ? (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          {suggestionsQuery.error.message}
+        </div>
+      ) : suggestions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No items suggested yet.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {suggestions.map(suggestion => {
+            const badge = STATUS_BADGES[suggestion.status];
+            const isEditing = editingId === suggestion.id;
+
+            return (
+              <li key={suggestion.id} className="space-y-2 px-3 py-3 text-sm">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium">
+                      Item {suggestion.itemNumber}
+                      {suggestion.status !== 'rejected' && violatedItems.has(suggestion.itemNumber) && (
+                        <CircleAlert className="ml-1 inline h-4 w-4 text-amber-600" aria-label="Breaks a billing rule" />
+                      )}
+                      {suggestion.scheduleFee !== undefined && (
+                        <span className="ml-2 font-normal text-muted-foreground">
+                          ${suggestion.scheduleFee.toFixed(2)}
+                        </span>
+                      )}
+                      {suggestion.originalItemNumber !== undefined && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">
+                          (suggested {suggestion.originalItemNumber})
+                        </span>
+                      )}
+                    </div>
+                    <div className="line-clamp-2 text-muted-foreground">{suggestion.itemDescription}</div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {suggestion.confidence !== undefined && (
+                      <span className="text-xs text-muted-foreground">{Math.round(suggestion.confidence * 100)}%</span>
+                    )}
+                    <Badge variant="outline" color={badge.color}>
+                      {badge.label}
+                    </Badge>
+                  </div>
+                </div>
+
+                {suggestion.matchedConcepts.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {suggestion.matchedConcepts.map(concept => (
+                      <Badge key={concept} color="gray-600">
+                        {concept}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {suggestion.soapExcerpt && (
+                  <blockquote className="border-l-2 pl-3 text-xs italic text-muted-foreground">
+                    {suggestion.soapExcerpt}
+                  </blockquote>
+                )}
+
+                {isEditing ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={itemNumber}
+                      onChange={event => setItemNumber(event.target.value)}
+                      onKeyDown={event => {
+                        if (event.key === 'Enter') saveItemNumber(suggestion.id);
+                      }}
+                      inputMode="numeric"
+                      placeholder="Item number"
+                      className="h-8 w-32"
+                      autoFocus
+                    />
+                    <Button size="sm" onClick={() => saveItemNumber(suggestion.id)} disabled={actionSuggestion.isPending}>
+                      Save
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => actionSuggestion.mutate({ suggestionId: suggestion.id, status: 'accepted' })}
+                      disabled={actionSuggestion.isPending || suggestion.status === 'accepted'}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Accept
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => actionSuggestion.mutate({ suggestionId: suggestion.id, status: 'rejected' })}
+                      disabled={actionSuggestion.isPending || suggestion.status === 'rejected'}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => startEditing(suggestion.id, suggestion.itemNumber)}
+                      disabled={actionSuggestion.isPending}
+                    >
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Change item
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
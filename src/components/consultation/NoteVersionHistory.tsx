@@ -0,0 +1,114 @@
+/**
+ * Note Version History Component
+ *
+ * Lists every version of a clinical note - edits, status changes and
+ * amendments with their reasons - and diffs a selected version against the
+ * one before it.
+ */
+
+"use client";
+
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { NOTE_STATUS_LABELS } from '@/lib/note-status';
+import { diffLines } from '@/lib/text-diff';
+import { cn } from '@/lib/utils';
+import type { ClinicalNoteVersion, NoteChange } from '@/types/clinical';
+
+const CHANGE_LABELS: Record<NoteChange, string> = {
+  created: 'Drafted',
+  edited: 'Edited',
+  'status-changed': 'Status changed',
+  amended: 'Amended',
+};
+
+interface NoteVersionHistoryProps {
+  versions: ClinicalNoteVersion[]; // Newest first
+  className?: string;
+}
+
+export function NoteVersionHistory({ versions, className }: NoteVersionHistoryProps) {
+  const latestVersion = versions[0]?.version;
+  const [selectedVersion, setSelectedVersion] = React.useState(latestVersion);
+
+  React.useEffect(() => {
+    setSelectedVersion(latestVersion);
+  }, [latestVersion]);
+
+  const selectedIndex = versions.findIndex(version => version.version === selectedVersion);
+  const selected = versions[selectedIndex];
+  const previous = versions[selectedIndex + 1];
+
+  const diff = React.useMemo(
+    () => (selected && previous ? diffLines(previous.content, selected.content) : []),
+    [selected, previous]
+  );
+
+  if (versions.length === 0) {
+    return <p className={cn('text-sm text-muted-foreground', className)}>No history recorded for this note.</p>;
+  }
+
+  return (
+    <div className={cn('grid gap-4 md:grid-cols-[220px_1fr]', className)}>
+      <div className="space-y-1">
+        {versions.map(version => (
+          <button
+            key={version.id}
+            type="button"
+            onClick={() => setSelectedVersion(version.version)}
+            className={cn(
+              'w-full rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted',
+              version.version === selectedVersion && 'bg-muted'
+            )}
+          >
+            <div className="font-medium">
+              v{version.version} · {CHANGE_LABELS[version.change]}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="outline" color="gray-600">{NOTE_STATUS_LABELS[selected.status]}</Badge>
+            {selected.amendsVersion !== undefined && <span>Amends signed v{selected.amendsVersion}</span>}
+          </div>
+          {selected.reason && (
+            <p className="rounded-md border border-amber-200 bg-amber-50 p-2 text-sm dark:border-amber-900 dark:bg-amber-950/40">
+              <span className="font-medium">Reason:</span> {selected.reason}
+            </p>
+          )}
+
+          {!previous ? (
+            <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md border bg-muted/30 p-3 text-xs">
+              {selected.content}
+            </pre>
+          ) : diff.every(line => line.kind === 'unchanged') ? (
+            <p className="text-sm text-muted-foreground">Content unchanged from v{previous.version}.</p>
+          ) : (
+            <div className="max-h-96 overflow-auto rounded-md border font-mono text-xs">
+              {diff.map((line, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    'whitespace-pre-wrap px-3 py-0.5',
+                    line.kind === 'added' && 'bg-green-50 text-green-800 dark:bg-green-950/40 dark:text-green-300',
+                    line.kind === 'removed' && 'bg-red-50 text-red-800 line-through dark:bg-red-950/40 dark:text-red-300'
+                  )}
+                >
+                  {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}
+                  {line.text}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+/**
+ * Transcript Viewer Component
+ *
+ * Plays back consultation audio alongside the diarized transcript, highlighting
+ * the segment being spoken and letting the clinician seek by clicking a line.
+ * Speakers can be renamed globally or reassigned per segment.
+ */
+
+"use client";
+
+import React from 'react';
+import { Check, ChevronDown, Pencil, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { formatTranscriptTimestamp, getTranscriptSpeakers, MAX_SPEAKER_LABEL_LENGTH } from '@/lib/transcript';
+import type { TranscriptSegment } from '@/types/clinical';
+
+const SPEAKER_COLORS = [
+  'text-blue-700 bg-blue-50 border-blue-200',
+  'text-emerald-700 bg-emerald-50 border-emerald-200',
+  'text-purple-700 bg-purple-50 border-purple-200',
+  'text-amber-700 bg-amber-50 border-amber-200',
+];
+
+interface TranscriptViewerProps {
+  segments: TranscriptSegment[];
+  audioFileUrl?: string | null;
+  onRelabelSpeaker?: (input: { speaker: string; fromSpeaker?: string; segmentIds?: string[] }) => Promise<void>;
+  className?: string;
+}
+
+export function TranscriptViewer({ segments, audioFileUrl, onRelabelSpeaker, className }: TranscriptViewerProps) {
+  const audioRef = React.useRef<HTMLAudioElement>(null);
+  const segmentRefs = React.useRef(new Map<string, HTMLDivElement>());
+  const pendingSeekRef = React.useRef<number | null>(null);
+
+  // Recordings interrupted by a reload are stored as several audio files
+  const audioSegments = React.useMemo(
+    () => [...new Set(segments.map(segment => segment.audioSegment))].sort((a, b) => a - b),
+    [segments]
+  );
+  const [currentAudioSegment, setCurrentAudioSegment] = React.useState(0);
+  const [currentMs, setCurrentMs] = React.useState<number | null>(null);
+
+  const speakers = React.useMemo(() => getTranscriptSpeakers(segments), [segments]);
+  const speakerColor = (speaker: string) => SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length];
+
+  const audioOffsetMs = segments.find(segment => segment.audioSegment === currentAudioSegment)?.audioOffsetMs ?? 0;
+
+  const activeSegmentId = React.useMemo(() => {
+    if (currentMs === null) return null;
+    return segments.find(
+      segment =>
+        segment.audioSegment === currentAudioSegment && segment.startMs <= currentMs && currentMs < segment.endMs
+    )?.id ?? null;
+  }, [segments, currentAudioSegment, currentMs]);
+
+  React.useEffect(() => {
+    if (audioSegments.length > 0 && !audioSegments.includes(currentAudioSegment)) {
+      setCurrentAudioSegment(audioSegments[0]!);
+    }
+  }, [audioSegments, currentAudioSegment]);
+
+  // Keep the spoken line in view while playing
+  React.useEffect(() => {
+    if (!activeSegmentId || audioRef.current?.paused) return;
+    segmentRefs.current.get(activeSegmentId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeSegmentId]);
+
+  const handleTimeUpdate = () => {
+    if (!audioRef.current) return;
+    setCurrentMs(audioOffsetMs + audioRef.current.currentTime * 1000);
+  };
+
+  const handleEnded = () => {
+    // Continue into the next recording file, if there is one
+    const next = audioSegments.find(index => index > currentAudioSegment);
+    if (next !== undefined) {
+      pendingSeekRef.current = 0;
+      setCurrentAudioSegment(next);
+    }
+  };
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current;
+    if (!audio || pendingSeekRef.current === null) return;
+    audio.currentTime = pendingSeekRef.current;
+    pendingSeekRef.current = null;
+    void audio.play().catch(() => undefined);
+  };
+
+  const seekTo = (segment: TranscriptSegment) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const positionSeconds = Math.max(0, (segment.startMs - segment.audioOffsetMs) / 1000);
+    if (segment.audioSegment !== currentAudioSegment) {
+      pendingSeekRef.current = positionSeconds;
+      setCurrentAudioSegment(segment.audioSegment);
+      return;
+    }
+
+    audio.currentTime = positionSeconds;
+    void audio.play().catch(() => undefined);
+  };
+
+  if (segments.length === 0) {
+    return (
+      <div className={cn('text-sm text-muted-foreground text-center py-8', className)}>
+        No transcript is available for this consultation yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {audioFileUrl && (
+        <audio
+          ref={audioRef}
+          src={`${audioFileUrl}?segment=${currentAudioSegment}`}
+          controls
+          preload="metadata"
+          className="w-full"
+          onTimeUpdate={handleTimeUpdate}
+          onSeeked={handleTimeUpdate}
+          onEnded={handleEnded}
+          onLoadedMetadata={handleLoadedMetadata}
+        />
+      )}
+
+      {onRelabelSpeaker && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-medium text-muted-foreground">Speakers</span>
+          {speakers.map(speaker => (
+            <SpeakerLabelEditor
+              key={speaker}
+              speaker={speaker}
+              colorClassName={speakerColor(speaker)}
+              onRename={name => onRelabelSpeaker({ speaker: name, fromSpeaker: speaker })}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {segments.map(segment => (
+          <div
+            key={segment.id}
+            ref={element => {
+              if (element) segmentRefs.current.set(segment.id, element);
+              else segmentRefs.current.delete(segment.id);
+            }}
+            className={cn(
+              'group flex gap-3 rounded-md px-2 py-1.5 transition-colors',
+              segment.id === activeSegmentId ? 'bg-yellow-100 dark:bg-yellow-900/30' : 'hover:bg-muted/60'
+            )}
+          >
+            <button
+              type="button"
+              className="w-14 shrink-0 text-left font-mono text-xs text-muted-foreground hover:text-foreground"
+              onClick={() => seekTo(segment)}
+              disabled={!audioFileUrl}
+              title="Play from here"
+            >
+              {formatTranscriptTimestamp(segment.startMs)}
+            </button>
+
+            <div className="w-28 shrink-0">
+              {onRelabelSpeaker ? (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button
+                      type="button"
+                      className={cn(
+                        'inline-flex max-w-full items-center gap-1 rounded border px-1.5 py-0.5 text-xs font-medium',
+                        speakerColor(segment.speaker)
+                      )}
+                    >
+                      <span className="truncate">{segment.speaker}</span>
+                      <ChevronDown className="h-3 w-3 shrink-0 opacity-60" />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    <DropdownMenuLabel>Assign this line to</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    {speakers
+                      .filter(speaker => speaker !== segment.speaker)
+                      .map(speaker => (
+                        <DropdownMenuItem
+                          key={speaker}
+                          onSelect={() => void onRelabelSpeaker({ speaker, segmentIds: [segment.id] })}
+                        >
+                          {speaker}
+                        </DropdownMenuItem>
+                      ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : (
+                <span className={cn('rounded border px-1.5 py-0.5 text-xs font-medium', speakerColor(segment.speaker))}>
+                  {segment.speaker}
+                </span>
+              )}
+            </div>
+
+            <p
+              className={cn(
+                'flex-1 text-sm leading-relaxed',
+                segment.confidence !== undefined && segment.confidence < 0.6 && 'text-amber-700'
+              )}
+              title={segment.confidence !== undefined ? `Confidence ${Math.round(segment.confidence * 100)}%` : undefined}
+            >
+              {segment.text}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Inline editor for renaming a speaker across the whole transcript
+ */
+function SpeakerLabelEditor({
+  speaker,
+  colorClassName,
+  onRename,
+}: {
+  speaker: string;
+  colorClassName?: string;
+  onRename: (name: string) => Promise<void>;
+}) {
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [name, setName] = React.useState(speaker);
+  const [saving, setSaving] = React.useState(false);
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === speaker) {
+      setIsEditing(false);
+      setName(speaker);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await onRename(trimmed);
+      setIsEditing(false);
+    } catch {
+      // The hook reports the error; keep the editor open so the name isn't lost
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <button
+        type="button"
+        className={cn('inline-flex items-center gap-1 rounded border px-2 py-0.5 text-xs font-medium', colorClassName)}
+        onClick={() => {
+          setName(speaker);
+          setIsEditing(true);
+        }}
+      >
+        {speaker}
+        <Pencil className="h-3 w-3 opacity-60" />
+      </button>
+    );
+  }
+
+  return (
+    <form
+      className="flex items-center gap-1"
+      onSubmit={event => {
+        event.preventDefault();
+        void handleSave();
+      }}
+    >
+      <Input
+        autoFocus
+        value={name}
+        maxLength={MAX_SPEAKER_LABEL_LENGTH}
+        onChange={event => setName(event.target.value)}
+        className="h-7 w-36 text-xs"
+        disabled={saving}
+      />
+      <Button type="submit" size="sm" variant="ghost" className="h-7 w-7 p-0" disabled={saving}>
+        <Check className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        className="h-7 w-7 p-0"
+        onClick={() => {
+          setIsEditing(false);
+          setName(speaker);
+        }}
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </form>
+  );
+}
@@ -8,6 +8,7 @@
 "use client";
 
 import React from 'react';
+import Link from 'next/link';
 import { format } from 'date-fns';
 import { 
   User, 
@@ -17,6 +18,11 @@ import {
   Mail,
   RefreshCw,
   X,
+  Pause,
+  Play,
+  Loader2,
+  AlertTriangle,
+  FileText,
 } from 'lucide-react';
 import {
   Sheet,
@@ -28,6 +34,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
+import { useAudioRecorder } from '@/hooks/useAudioRecorder';
+import { useTranscriptionStatus } from '@/hooks/useTranscriptionStatus';
 import type { Appointment } from '@/types/clinical';
 
 interface PatientConsultationPanelProps {
@@ -41,6 +49,8 @@ export function PatientConsultationPanel({
   isOpen,
   onClose,
 }: PatientConsultationPanelProps) {
+  const transcription = useTranscriptionStatus(appointment?.consultationId);
+
   if (!appointment) {
     return null;
   }
@@ -84,12 +94,15 @@ export function PatientConsultationPanel({
           <Separator />
           
           {/* Consultation Controls */}
-          <ConsultationControls appointment={appointment} />
+          <ConsultationControls
+            appointment={appointment}
+            onRecordingComplete={() => void transcription.refresh()}
+          />
           
           <Separator />
           
           {/* Consultation Status */}
-          <ConsultationStatus appointment={appointment} />
+          <ConsultationStatus appointment={appointment} transcription={transcription} />
         </div>
       </SheetContent>
     </Sheet>
@@ -297,49 +310,113 @@ function PreConsultationChecklist({ appointment }: { appointment: Appointment })
 /**
  * Consultation controls for recording and workflow
  */
-function ConsultationControls({ appointment }: { appointment: Appointment }) {
-  const [isRecording, setIsRecording] = React.useState(appointment.status === 'recording');
-  
-  const handleStartRecording = () => {
-    setIsRecording(true);
-    // In real implementation, this would start actual recording
-    console.log('Start recording for appointment:', appointment.id);
-  };
+function ConsultationControls({
+  appointment,
+  onRecordingComplete,
+}: {
+  appointment: Appointment;
+  onRecordingComplete?: () => void;
+}) {
+  const recorder = useAudioRecorder({
+    consultationId: appointment.consultationId,
+    onComplete: onRecordingComplete,
+  });
+  const { status, recoverableSession } = recorder;
 
-  const handleStopRecording = () => {
-    setIsRecording(false);
-    // In real implementation, this would stop recording and start processing
-    console.log('Stop recording for appointment:', appointment.id);
-  };
+  const isActive = status === 'recording' || status === 'paused';
+  const isBusy = status === 'requesting-permission' || status === 'finalizing';
 
   return (
     <div className="space-y-4">
       <h3 className="font-medium">Consultation Controls</h3>
 
       <div className="space-y-3">
-        {!isRecording ? (
+        {!appointment.consultationId && (
+          <div className="bg-muted rounded-lg p-3 text-sm text-muted-foreground text-center">
+            Check the patient in to start a consultation before recording.
+          </div>
+        )}
+
+        {recoverableSession && !isActive && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2 text-amber-800">
+              <AlertTriangle className="h-4 w-4" />
+              <span className="text-sm font-medium">Interrupted recording found</span>
+            </div>
+            <p className="text-xs text-amber-700">
+              A recording started at {format(new Date(recoverableSession.startedAt), 'h:mm a')} was not finished.
+              Resume to continue it, or discard the captured audio.
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" onClick={() => void recorder.start()} disabled={isBusy}>
+                Resume Recording
+              </Button>
+              <Button size="sm" variant="outline" className="flex-1" onClick={() => void recorder.discard()}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!isActive && !recoverableSession && status !== 'complete' && (
           <Button
             size="lg"
             className="w-full h-12 bg-red-600 hover:bg-red-700 text-white"
-            onClick={handleStartRecording}
+            onClick={() => void recorder.start()}
+            disabled={!appointment.consultationId || !recorder.isSupported || isBusy}
           >
             <div className="flex items-center gap-2">
-              <div className="h-3 w-3 rounded-full bg-white animate-pulse" />
+              {status === 'requesting-permission' ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <div className="h-3 w-3 rounded-full bg-white animate-pulse" />
+              )}
               Start Recording
             </div>
           </Button>
-        ) : (
-          <Button
-            size="lg"
-            variant="outline"
-            className="w-full h-12 border-red-600 text-red-600 hover:bg-red-50"
-            onClick={handleStopRecording}
-          >
-            <div className="flex items-center gap-2">
-              <div className="h-3 w-3 rounded-sm bg-red-600" />
-              Stop Recording
+        )}
+
+        {isActive && (
+          <div className="flex gap-2">
+            {status === 'recording' ? (
+              <Button size="lg" variant="outline" className="h-12" onClick={() => void recorder.pause()}>
+                <Pause className="h-4 w-4" />
+                Pause
+              </Button>
+            ) : (
+              <Button size="lg" variant="outline" className="h-12" onClick={() => void recorder.resume()}>
+                <Play className="h-4 w-4" />
+                Resume
+              </Button>
+            )}
+            <Button
+              size="lg"
+              variant="outline"
+              className="flex-1 h-12 border-red-600 text-red-600 hover:bg-red-50"
+              onClick={() => void recorder.stop()}
+            >
+              <div className="flex items-center gap-2">
+                <div className="h-3 w-3 rounded-sm bg-red-600" />
+                Stop Recording
+              </div>
+            </Button>
+          </div>
+        )}
+
+        {status === 'finalizing' && (
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Saving recording...
+          </div>
+        )}
+
+        {status === 'complete' && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-center">
+            <div className="text-sm font-medium text-green-700">Recording saved</div>
+            <div className="text-xs text-green-600 mt-1">
+              Duration: {formatRecordingDuration(recorder.recordingDuration)}
             </div>
-          </Button>
+          </div>
         )}
 
         <div className="text-center">
@@ -347,26 +424,62 @@ function ConsultationControls({ appointment }: { appointment: Appointment }) {
           <div className="text-sm text-muted-foreground">General Consultation</div>
         </div>
 
-        {isRecording && (
-          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+        {isActive && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 space-y-2">
             <div className="flex items-center justify-center gap-2 text-red-700">
-              <div className="h-2 w-2 rounded-full bg-red-600 animate-pulse" />
-              <span className="text-sm font-medium">Recording in progress</span>
+              <div
+                className={`h-2 w-2 rounded-full bg-red-600 ${status === 'recording' ? 'animate-pulse' : ''}`}
+              />
+              <span className="text-sm font-medium">
+                {status === 'recording' ? 'Recording in progress' : 'Recording paused'}
+              </span>
+            </div>
+            <div className="h-1.5 w-full rounded-full bg-red-100 overflow-hidden">
+              <div
+                className="h-full bg-red-500 transition-[width] duration-100"
+                style={{ width: `${recorder.audioLevel}%` }}
+              />
             </div>
-            <div className="text-center text-xs text-red-600 mt-1">
-              Duration: 00:00
+            <div className="text-center text-xs text-red-600">
+              Duration: {formatRecordingDuration(recorder.recordingDuration)}
             </div>
           </div>
         )}
+
+        {recorder.pendingUploads > 0 && (
+          <div className="text-xs text-center text-muted-foreground">
+            {recorder.uploadError
+              ? `Upload delayed, retrying (${recorder.pendingUploads} chunk${recorder.pendingUploads === 1 ? '' : 's'} queued)`
+              : `Uploading audio (${recorder.pendingUploads} pending)`}
+          </div>
+        )}
+
+        {recorder.error && (
+          <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3 text-sm text-destructive">
+            {recorder.error}
+          </div>
+        )}
       </div>
     </div>
   );
 }
 
+function formatRecordingDuration(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
 /**
  * Consultation status and progress tracking
  */
-function ConsultationStatus({ appointment }: { appointment: Appointment }) {
+function ConsultationStatus({
+  appointment,
+  transcription,
+}: {
+  appointment: Appointment;
+  transcription: ReturnType<typeof useTranscriptionStatus>;
+}) {
   return (
     <div className="space-y-4">
       <h3 className="font-medium">Consultation Status</h3>
@@ -380,26 +493,106 @@ function ConsultationStatus({ appointment }: { appointment: Appointment }) {
         
         <StatusItem
           label="Transcription"
-          status="waiting"
-          description="Waiting for audio input"
+          {...getTranscriptionStatusItem(transcription)}
         />
+
+        {transcription.status === 'processing' && !transcription.error && (
+          <div className="h-1.5 w-full rounded-full bg-blue-100 overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-[width] duration-500"
+              style={{ width: `${transcription.transcriptionProgress ?? 0}%` }}
+            />
+          </div>
+        )}
+
+        {transcription.status === 'error' && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => void transcription.retry()}
+            disabled={transcription.retrying}
+          >
+            <RefreshCw className={`h-4 w-4 ${transcription.retrying ? 'animate-spin' : ''}`} />
+            Retry Transcription
+          </Button>
+        )}
+
+        {appointment.consultationId && (transcription.status === 'review' || transcription.status === 'complete') && (
+          <Button asChild size="sm" variant="outline">
+            <Link href={`/app/consultations/${appointment.consultationId}`}>
+              <FileText className="h-4 w-4" />
+              Review Consultation
+            </Link>
+          </Button>
+        )}
         
         <StatusItem
           label="Note Generation"
-          status="waiting"
-          description="Pending transcription completion"
+          {...getNoteGenerationStatusItem(transcription)}
         />
+
+        {transcription.noteGenerationProgress !== undefined &&
+          transcription.noteGenerationProgress < 100 &&
+          !transcription.noteGenerationError && (
+            <div className="h-1.5 w-full rounded-full bg-blue-100 overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-[width] duration-500"
+                style={{ width: `${transcription.noteGenerationProgress}%` }}
+              />
+            </div>
+          )}
         
         <StatusItem
           label="Review & Approval"
-          status="waiting"
-          description="Waiting for generated note"
+          status={transcription.noteGenerationProgress === 100 ? 'active' : 'waiting'}
+          description={transcription.noteGenerationProgress === 100 ? 'Draft note ready for review' : 'Waiting for generated note'}
         />
       </div>
     </div>
   );
 }
 
+/**
+ * Map transcription state onto a status item
+ */
+function getTranscriptionStatusItem(
+  transcription: ReturnType<typeof useTranscriptionStatus>
+): { status: 'waiting' | 'active' | 'complete' | 'error'; description: string } {
+  if (transcription.status === 'error') {
+    return { status: 'error', description: transcription.error ?? 'Transcription failed' };
+  }
+
+  switch (transcription.status) {
+    case 'processing':
+      return transcription.error
+        ? { status: 'active', description: `${transcription.error}; trying again` }
+        : { status: 'active', description: `Transcribing audio (${transcription.transcriptionProgress ?? 0}%)` };
+    case 'review':
+    case 'complete':
+      return { status: 'complete', description: 'Transcript ready' };
+    default:
+      return { status: 'waiting', description: 'Waiting for audio input' };
+  }
+}
+
+/**
+ * Map note generation state onto a status item
+ */
+function getNoteGenerationStatusItem(
+  transcription: ReturnType<typeof useTranscriptionStatus>
+): { status: 'waiting' | 'active' | 'complete' | 'error'; description: string } {
+  if (transcription.noteGenerationError) {
+    return { status: 'error', description: transcription.noteGenerationError };
+  }
+  if (transcription.noteGenerationProgress === 100) {
+    return { status: 'complete', description: 'Draft note generated' };
+  }
+  if (transcription.noteGenerationProgress !== undefined) {
+    return { status: 'active', description: `Drafting note (${transcription.noteGenerationProgress}%)` };
+  }
+  return { status: 'waiting', description: 'Pending transcription completion' };
+}
+
 /**
  * Individual checklist item
  */
@@ -2,7 +2,8 @@
  * Pending Actions Component
  * 
  * Displays items requiring doctor attention including notes to review,
- * audio processing status, and system notifications.
+ * audio processing status, and system notifications. Changes the EHR didn't
+ * take come from the server, with a button to send them again.
  */
 
 "use client";
@@ -23,6 +24,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useMockAppointments } from '@/hooks/useMockAppointments';
+import { usePendingActions } from '@/hooks/useConsultations';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import type { PendingAction } from '@/types/clinical';
 
@@ -37,6 +40,8 @@ interface ActionItemProps {
   action: PendingAction;
   onActionClick?: (action: PendingAction) => void;
   onDismiss?: (actionId: string) => void;
+  onRetry?: (action: PendingAction) => void;
+  retrying?: boolean;
 }
 
 export function PendingActions({
@@ -50,6 +55,7 @@ export function PendingActions({
     clinicianId,
     date,
   });
+  const { actions: serverActions, retrySync, retrying } = usePendingActions();
 
   // Generate pending actions based on current data
   const now = new Date(); // Create once per render, outside useMemo
@@ -59,7 +65,8 @@ export function PendingActions({
 
 
 
-    const actions: PendingAction[] = [];
+    // Notes and appointment changes the EHR didn't take
+    const actions: PendingAction[] = serverActions.filter(action => action.type === 'sync-failed');
 
     // Notes awaiting review
     if (stats.notesAwaitingReview > 0) {
@@ -123,7 +130,7 @@ export function PendingActions({
       const priorityOrder = { urgent: 4, high: 3, medium: 2, low: 1 };
       return priorityOrder[b.priority] - priorityOrder[a.priority];
     });
-  }, [stats, appointments]);
+  }, [stats, appointments, serverActions]);
 
   const handleActionClick = (action: PendingAction) => {
     if (onActionClick) {
@@ -134,6 +141,15 @@ export function PendingActions({
     }
   };
 
+  const handleRetry = async (action: PendingAction) => {
+    try {
+      await retrySync(action.id);
+      toast.success('Sending to the EHR again');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retry');
+    }
+  };
+
   const handleDismiss = (actionId: string) => {
     // In a real implementation, this would update the backend
     console.log(`Dismiss action: ${actionId}`);
@@ -176,6 +192,8 @@ export function PendingActions({
                 action={action}
                 onActionClick={handleActionClick}
                 onDismiss={action.dismissible ? handleDismiss : undefined}
+                onRetry={action.type === 'sync-failed' ? handleRetry : undefined}
+                retrying={retrying === action.id}
               />
             ))}
             
@@ -200,7 +218,7 @@ export function PendingActions({
 /**
  * Individual action item component
  */
-function ActionItem({ action, onActionClick, onDismiss }: ActionItemProps) {
+function ActionItem({ action, onActionClick, onDismiss, onRetry, retrying }: ActionItemProps) {
   const { icon: Icon, colorClass, priorityLabel } = getActionConfig(action);
 
   return (
@@ -252,6 +270,22 @@ function ActionItem({ action, onActionClick, onDismiss }: ActionItemProps) {
         )}
       </div>
       
+      {onRetry && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 flex-shrink-0"
+          disabled={retrying}
+          onClick={(e) => {
+            e.stopPropagation();
+            onRetry(action);
+          }}
+        >
+          <RefreshCw className={cn("h-3 w-3 mr-1", retrying && "animate-spin")} />
+          Retry
+        </Button>
+      )}
+
       {onDismiss && (
         <Button
           variant="ghost"
@@ -0,0 +1,151 @@
+/**
+ * EHR Bridge Card
+ *
+ * Lets clinic owners and practice managers on Best Practice or MedicalDirector
+ * point Aria Scribe at the bridge agent installed on the clinic's own network.
+ * The agent's token is write-only, like the SMART client secret.
+ */
+
+"use client";
+
+import React from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEhrConnection, type EhrBridgeSettings, type EhrConnectionSummary } from '@/hooks/useEhrConnection';
+
+type BridgeVendor = EhrBridgeSettings['vendor'];
+
+const VENDOR_LABELS: Record<BridgeVendor, string> = {
+  bestpractice: 'Best Practice',
+  medicaldirector: 'MedicalDirector',
+};
+
+interface BridgeDraft {
+  url: string;
+  vendor: BridgeVendor;
+  token: string;
+}
+
+const toDraft = (connection: EhrConnectionSummary | null): BridgeDraft => ({
+  url: connection?.bridge?.url ?? '',
+  vendor: connection?.bridge?.vendor ?? 'bestpractice',
+  token: '',
+});
+
+export function EhrBridgeCard() {
+  const { connection, saveBridge, removeBridge, savingBridge, test, testing } = useEhrConnection();
+  const [draft, setDraft] = React.useState<BridgeDraft>(() => toDraft(null));
+  const bridge = connection?.bridge ?? null;
+
+  // Start from the saved settings once they've loaded
+  React.useEffect(() => {
+    setDraft(toDraft(connection));
+  }, [connection]);
+
+  const saveSettings = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await saveBridge({ url: draft.url, vendor: draft.vendor, token: draft.token ? draft.token : undefined });
+      toast.success('Bridge agent saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save bridge agent');
+    }
+  };
+
+  const remove = async () => {
+    try {
+      await removeBridge();
+      toast.success('Bridge agent removed');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove bridge agent');
+    }
+  };
+
+  const testBridge = async () => {
+    try {
+      const result = await test();
+      if (result.connected) {
+        toast.success(`Connected to ${result.version ?? 'the bridge agent'}`);
+      } else {
+        toast.error(result.error ?? 'The bridge agent could not be reached');
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to test bridge agent');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bridge agent</CardTitle>
+        <CardDescription>
+          For Best Practice and MedicalDirector: the bridge agent installed alongside the clinic&apos;s practice software.
+          A SMART on FHIR connection above takes precedence.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form className="space-y-3" onSubmit={event => void saveSettings(event)}>
+          <div className="grid gap-3 sm:grid-cols-[1fr_auto]">
+            <div className="space-y-1">
+              <Label htmlFor="ehr-bridge-url">Agent URL</Label>
+              <Input
+                id="ehr-bridge-url"
+                placeholder="https://bridge.clinic.example:8443"
+                value={draft.url}
+                onChange={event => setDraft(current => ({ ...current, url: event.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ehr-bridge-vendor">Practice software</Label>
+              <Select
+                value={draft.vendor}
+                onValueChange={value => setDraft(current => ({ ...current, vendor: value as BridgeVendor }))}
+              >
+                <SelectTrigger id="ehr-bridge-vendor" className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(VENDOR_LABELS) as BridgeVendor[]).map(option => (
+                    <SelectItem key={option} value={option}>
+                      {VENDOR_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ehr-bridge-token">Token</Label>
+            <Input
+              id="ehr-bridge-token"
+              type="password"
+              autoComplete="off"
+              placeholder={bridge ? 'Saved; leave blank to keep it' : 'Shown by the agent when it was installed'}
+              value={draft.token}
+              onChange={event => setDraft(current => ({ ...current, token: event.target.value }))}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" size="sm" disabled={savingBridge || !draft.url || (!bridge && !draft.token)}>
+              Save
+            </Button>
+            {bridge && !connection?.fhirBaseUrl && (
+              <Button type="button" size="sm" variant="outline" disabled={testing} onClick={() => void testBridge()}>
+                Test connection
+              </Button>
+            )}
+            {bridge && (
+              <Button type="button" size="sm" variant="outline" disabled={savingBridge} onClick={() => void remove()}>
+                Remove
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,233 @@
+/**
+ * EHR Connection Card
+ *
+ * Lets clinic owners and practice managers set up the clinic's SMART on FHIR
+ * connection to its EHR, authorize it, and check that it works. Secrets are
+ * write-only: the card only ever learns whether a client secret is saved.
+ */
+
+"use client";
+
+import React from 'react';
+import { format, isPast } from 'date-fns';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Spinner } from '@/components/Spinner';
+import { useEhrConnection, type EhrConnectionSummary } from '@/hooks/useEhrConnection';
+
+interface SettingsDraft {
+  fhirBaseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+}
+
+const toDraft = (connection: EhrConnectionSummary | null): SettingsDraft => ({
+  fhirBaseUrl: connection?.fhirBaseUrl ?? '',
+  clientId: connection?.clientId ?? '',
+  clientSecret: '',
+  scopes: connection?.scopes.join(' ') ?? '',
+});
+
+const formatDateTime = (date: Date) => format(date, 'd MMM yyyy, h:mm a');
+
+function AuthorizationStatus({ connection }: { connection: EhrConnectionSummary }) {
+  const { authorization } = connection;
+  if (!authorization) {
+    return <Badge variant="outline" color="gray-500">Not connected</Badge>;
+  }
+
+  const expired = authorization.expiresAt !== undefined && isPast(authorization.expiresAt);
+  const missingScopes = connection.scopes.filter(scope => !authorization.grantedScopes.includes(scope));
+
+  return (
+    <div className="space-y-1 text-sm">
+      <div className="flex items-center gap-2">
+        {authorization.refreshError || (expired && !authorization.canRefresh) ? (
+          <Badge variant="outline" color="red-600">Needs reconnecting</Badge>
+        ) : (
+          <Badge variant="outline" color="green-600">Connected</Badge>
+        )}
+        <span className="text-muted-foreground">since {formatDateTime(authorization.authorizedAt)}</span>
+      </div>
+      {authorization.expiresAt && (
+        <p className="text-muted-foreground">
+          Access token {expired ? 'expired' : 'expires'} {formatDateTime(authorization.expiresAt)}
+          {authorization.canRefresh ? ', refreshed automatically' : ', with no refresh token'}
+        </p>
+      )}
+      {authorization.refreshError && <p className="text-red-600">Last refresh failed: {authorization.refreshError}</p>}
+      {missingScopes.length > 0 && (
+        <p className="text-amber-600">Not granted: {missingScopes.join(', ')}</p>
+      )}
+    </div>
+  );
+}
+
+export function EhrConnectionCard() {
+  const {
+    connection,
+    loading,
+    error,
+    save,
+    saving,
+    disconnect,
+    disconnecting,
+    test,
+    testing,
+    lastTest,
+    connect,
+  } = useEhrConnection();
+  const [draft, setDraft] = React.useState<SettingsDraft>(() => toDraft(null));
+
+  // Start from the saved settings once they've loaded
+  React.useEffect(() => {
+    setDraft(toDraft(connection));
+  }, [connection]);
+
+  const update = (field: keyof SettingsDraft) => (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setDraft(current => ({ ...current, [field]: event.target.value }));
+
+  const saveSettings = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await save({
+        fhirBaseUrl: draft.fhirBaseUrl,
+        clientId: draft.clientId,
+        scopes: draft.scopes.split(/\s+/).filter(Boolean),
+        clientSecret: draft.clientSecret ? draft.clientSecret : undefined,
+      });
+      toast.success('EHR connection saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save EHR connection');
+    }
+  };
+
+  const removeClientSecret = async ({ fhirBaseUrl, clientId, scopes }: EhrConnectionSummary) => {
+    if (!fhirBaseUrl || !clientId) return;
+    try {
+      await save({ fhirBaseUrl, clientId, scopes, clientSecret: null });
+      toast.success('Client secret removed');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove client secret');
+    }
+  };
+
+  const testConnection = async () => {
+    try {
+      const result = await test();
+      if (result.connected) {
+        toast.success(`Connected to ${result.version ?? 'the EHR'}`);
+      } else {
+        toast.error(result.error ?? 'The EHR could not be reached');
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to test EHR connection');
+    }
+  };
+
+  const disconnectEhr = async () => {
+    try {
+      await disconnect();
+      toast.success('EHR disconnected');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to disconnect EHR');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>EHR connection</CardTitle>
+        <CardDescription>
+          The clinic&apos;s FHIR server and the SMART on FHIR client your EHR registered for Aria Scribe.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && <Spinner />}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <form className="space-y-3" onSubmit={event => void saveSettings(event)}>
+          <div className="space-y-1">
+            <Label htmlFor="ehr-base-url">FHIR base URL</Label>
+            <Input
+              id="ehr-base-url"
+              placeholder="https://fhir.example.com/r4"
+              value={draft.fhirBaseUrl}
+              onChange={update('fhirBaseUrl')}
+            />
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="ehr-client-id">Client ID</Label>
+              <Input id="ehr-client-id" value={draft.clientId} onChange={update('clientId')} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ehr-client-secret">Client secret</Label>
+              <Input
+                id="ehr-client-secret"
+                type="password"
+                autoComplete="off"
+                placeholder={connection?.hasClientSecret ? 'Saved; leave blank to keep it' : 'None for public clients'}
+                value={draft.clientSecret}
+                onChange={update('clientSecret')}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ehr-scopes">Scopes</Label>
+            <Textarea
+              id="ehr-scopes"
+              rows={3}
+              className="font-mono text-xs"
+              placeholder="Leave blank for the scopes Aria Scribe needs"
+              value={draft.scopes}
+              onChange={update('scopes')}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={saving || !draft.fhirBaseUrl || !draft.clientId}>
+              Save
+            </Button>
+            {connection?.hasClientSecret && (
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={saving}
+                onClick={() => void removeClientSecret(connection)}
+              >
+                Remove client secret
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {connection?.fhirBaseUrl && (
+          <div className="space-y-3 border-t pt-4">
+            <AuthorizationStatus connection={connection} />
+            {lastTest && !lastTest.connected && <p className="text-sm text-red-600">{lastTest.error}</p>}
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={connect}>
+                {connection.authorization ? 'Reconnect' : 'Connect'}
+              </Button>
+              <Button size="sm" variant="outline" disabled={testing} onClick={() => void testConnection()}>
+                Test connection
+              </Button>
+              {connection.authorization && (
+                <Button size="sm" variant="outline" disabled={disconnecting} onClick={() => void disconnectEhr()}>
+                  Disconnect
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * Note Template Editor Component
+ *
+ * Edits a template as DSL source with live validation and a preview of the
+ * sections the generated note will contain. Each save creates a new version;
+ * earlier versions can be loaded back into the editor and saved again to restore them.
+ */
+
+"use client";
+
+import React from 'react';
+import { AlertTriangle, Archive, ArchiveRestore, History, Save } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { parseNoteTemplateDsl } from '@/lib/note-template-dsl';
+import { cn } from '@/lib/utils';
+import type { NoteTemplate, NoteTemplateVersion } from '@/types/clinical';
+
+export const NEW_TEMPLATE_SOURCE = `name: New Template
+type: progress
+description: What this template is for
+
+## History (required)
+Reason for the visit and relevant history discussed.
+- Reason for visit (required)
+@include medications, allergies
+
+## Plan (required)
+Treatment, advice and follow-up arranged.
+`;
+
+interface NoteTemplateEditorProps {
+  template: NoteTemplate | null; // null while creating a new template
+  onSave: (input: { source: string; changeSummary?: string }) => Promise<void>;
+  onSetActive?: (isActive: boolean) => Promise<void>;
+  getVersions?: () => Promise<NoteTemplateVersion[]>;
+  className?: string;
+}
+
+export function NoteTemplateEditor({ template, onSave, onSetActive, getVersions, className }: NoteTemplateEditorProps) {
+  const [source, setSource] = React.useState(template?.source ?? NEW_TEMPLATE_SOURCE);
+  const [changeSummary, setChangeSummary] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+  const [saveError, setSaveError] = React.useState<string | null>(null);
+  const [versions, setVersions] = React.useState<NoteTemplateVersion[] | null>(null);
+
+  const parsed = React.useMemo(() => parseNoteTemplateDsl(source), [source]);
+  const isDirty = source !== (template?.source ?? NEW_TEMPLATE_SOURCE);
+
+  React.useEffect(() => {
+    setSource(template?.source ?? NEW_TEMPLATE_SOURCE);
+    setChangeSummary('');
+    setSaveError(null);
+    setVersions(null);
+  }, [template?.id, template?.source]);
+
+  const loadVersions = async () => {
+    if (!getVersions) return;
+    try {
+      setVersions(await getVersions());
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to load version history');
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setSaveError(null);
+      await onSave({ source, changeSummary: changeSummary.trim() || undefined });
+      setChangeSummary('');
+      if (versions) await loadVersions();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={cn('grid gap-6 lg:grid-cols-2', className)}>
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <h3 className="font-medium">{template ? template.name : 'New template'}</h3>
+          {template && <Badge color="gray-600">v{template.version}</Badge>}
+          {template?.isBuiltIn && <Badge color="blue-600">Built-in</Badge>}
+          {template && !template.isActive && <Badge color="amber-600">Archived</Badge>}
+        </div>
+
+        <Textarea
+          value={source}
+          onChange={event => setSource(event.target.value)}
+          spellCheck={false}
+          className="min-h-[420px] font-mono text-xs leading-relaxed"
+          aria-invalid={!parsed.success}
+        />
+
+        {!parsed.success && (
+          <div className="space-y-1 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-xs text-destructive">
+            {parsed.errors.map((error, index) => (
+              <div key={index}>
+                Line {error.line}: {error.message}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {saveError && (
+          <div className="flex items-center gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            {saveError}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={changeSummary}
+            onChange={event => setChangeSummary(event.target.value)}
+            placeholder={template ? 'What changed?' : 'Why this template was created'}
+            maxLength={200}
+            className="h-9 flex-1 min-w-48"
+          />
+          <Button size="sm" onClick={() => void handleSave()} disabled={!parsed.success || !isDirty || saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {template ? 'Save new version' : 'Create template'}
+          </Button>
+          {template && onSetActive && (
+            <Button size="sm" variant="outline" onClick={() => void onSetActive(!template.isActive)}>
+              {template.isActive ? <Archive className="h-4 w-4 mr-2" /> : <ArchiveRestore className="h-4 w-4 mr-2" />}
+              {template.isActive ? 'Archive' : 'Restore'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <div className="space-y-3">
+          <h3 className="font-medium">Preview</h3>
+          {parsed.success ? (
+            <div className="space-y-3 rounded-lg border bg-muted/30 p-4">
+              {parsed.template.sections.map(section => (
+                <div key={section.key} className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm font-semibold">
+                    {section.heading}
+                    {section.required && <span className="text-xs font-medium text-red-600">Required</span>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{section.instructions}</p>
+                  {section.fields.length > 0 && (
+                    <ul className="list-disc pl-5 text-xs">
+                      {section.fields.map(field => (
+                        <li key={field.label}>
+                          {field.label}
+                          {field.required && <span className="text-red-600"> *</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {section.includeContext && (
+                    <p className="text-xs text-blue-600">Includes {section.includeContext.join(' and ')}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Fix the errors to see a preview.</p>
+          )}
+        </div>
+
+        {template && getVersions && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium">Version history</h3>
+              {!versions && (
+                <Button size="sm" variant="ghost" onClick={() => void loadVersions()}>
+                  <History className="h-4 w-4 mr-2" />
+                  Show
+                </Button>
+              )}
+            </div>
+            {versions?.map(version => (
+              <div key={version.id} className="flex items-center justify-between gap-3 rounded-md border px-3 py-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium">
+                    v{version.version} · {version.name}
+                  </div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {version.changeSummary ?? 'No summary'} ·{' '}
+                    {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                  </div>
+                </div>
+                {version.version !== template.version && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setSource(version.source);
+                      setChangeSummary(`Restored version ${version.version}`);
+                    }}
+                  >
+                    Load
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
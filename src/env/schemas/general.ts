@@ -22,4 +22,25 @@ export const serverSchema = z.object({
   DATABASE_URL: z.string().url(),
   ENABLE_ARTIFICIAL_TRPC_DELAY: zStringToBool.default("true"),
   MBS_QUEUE_NAME: z.string().default("aria-scribe-worker"),
+  RECORDING_STORAGE_DIR: z.string().default("./storage/recordings"),
+  TRANSCRIPTION_PROVIDER: z.enum(["openai", "fake"]).default("fake"),
+  NOTE_GENERATION_PROVIDER: z.enum(["openai", "fake"]).default("fake"),
+  MBS_EMBEDDING_PROVIDER: z.enum(["openai", "fake", "none"]).default("none"),
+  MBS_EMBEDDING_MODEL: z.string().optional(), // Defaults to the provider's own model
+  MBS_EMBEDDING_DIMENSIONS: z.coerce.number().int().positive().optional(),
+  MBS_SUGGESTION_PROVIDER: z.enum(["openai", "fake"]).default("fake"),
+  EXPORT_STORAGE_DIR: z.string().default("./storage/exports"),
+  MBS_RELEASE_STORAGE_DIR: z.string().default("./storage/mbs-releases"),
+  MBS_RELEASE_FEED_URL: z.string().url().optional(), // Page linking to MBS XML releases, or a release itself
+  MBS_RELEASE_FETCH_SCHEDULE: z.string().default("0 6 * * *"),
+  FHIR_BASE_URL: z.string().url().optional(), // Development only: FHIR R4 server for EHR-integrated tenants without a connection
+  FHIR_ACCESS_TOKEN: z.string().optional(),
+  EHR_SECRETS_KEY: z.string().optional(), // 32 bytes, base64; encrypts clinics' EHR client secrets and tokens
+  // Minutes before each part of a patient's context read from the EHR is refreshed
+  PATIENT_CONTEXT_SUMMARY_TTL_MINUTES: z.coerce.number().positive().default(24 * 60),
+  PATIENT_CONTEXT_MEDICATIONS_TTL_MINUTES: z.coerce.number().positive().default(60),
+  PATIENT_CONTEXT_ALLERGIES_TTL_MINUTES: z.coerce.number().positive().default(4 * 60),
+  PATIENT_CONTEXT_ALERTS_TTL_MINUTES: z.coerce.number().positive().default(30),
+  PATIENT_CONTEXT_NOTES_TTL_MINUTES: z.coerce.number().positive().default(15),
+  PATIENT_CONTEXT_PREWARM_SCHEDULE: z.string().default("30 6 * * *"), // Before clinics open, server time
 });
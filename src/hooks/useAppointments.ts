@@ -1,17 +1,17 @@
 /**
  * Custom hook for managing appointment data with Phase 2A support
- * 
- * This hook provides a React Query-like interface for fetching
- * and managing appointment data. It automatically chooses between
- * standalone and EHR-integrated modes based on tenant configuration.
+ *
+ * This hook loads the signed-in clinician's appointments and dashboard stats
+ * through the dashboard tRPC router. The server resolves the tenant and picks
+ * the standalone or EHR-integrated DataStore from its configuration.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
+import { startOfDay } from 'date-fns';
 import type { Appointment, DashboardStats } from '@/types/clinical';
-import { getCurrentUserEHRService } from '@/services';
+import { api } from '@/trpc/react';
 
 interface UseAppointmentsOptions {
-  clinicianId?: string;
   date?: Date;
   refreshInterval?: number; // milliseconds
   enabled?: boolean;
@@ -32,131 +32,69 @@ interface UseAppointmentsResult {
  */
 export function useAppointments(options: UseAppointmentsOptions = {}): UseAppointmentsResult {
   const {
-    clinicianId = 'current-clinician',
-    date = new Date(),
+    date,
     refreshInterval = 5 * 60 * 1000, // 5 minutes
     enabled = true,
   } = options;
+  const utils = api.useUtils();
 
-  // Stabilize the date string to prevent infinite re-renders
-  const dateString = date.toISOString().split('T')[0]; // Just the date part (YYYY-MM-DD)
-
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
-  const [stats, setStats] = useState<DashboardStats | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-
-  // Fetch appointments and stats
-  const fetchData = useCallback(async () => {
-    if (!enabled) return;
-
-    try {
-      setLoading(true);
-      setError(null);
-
-      // Get the appropriate EHR service (standalone or integrated)
-      const ehrService = await getCurrentUserEHRService();
-
-      // Fetch appointments and stats in parallel
-      const [appointmentsData, statsData] = await Promise.all([
-        ehrService.getTodaysAppointments(clinicianId, date),
-        // For standalone mode, get stats from the service
-        (ehrService as any).getDashboardStats ? 
-          (ehrService as any).getDashboardStats(date) : 
-          generateStatsFromAppointments(await ehrService.getTodaysAppointments(clinicianId, date)),
-      ]);
-
-      setAppointments(appointmentsData);
-      
-      // Only update stats if they actually changed to prevent infinite re-renders
-      setStats(prevStats => {
-        if (!prevStats) return statsData;
-        
-        const hasChanged = JSON.stringify(prevStats) !== JSON.stringify(statsData);
-        return hasChanged ? statsData : prevStats;
-      });
-      
-      setLastUpdated(new Date());
-
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`📅 Fetched ${appointmentsData.length} appointments for ${clinicianId}`);
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch appointments';
-      setError(errorMessage);
-      console.error('Error fetching appointments:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [clinicianId, dateString, enabled]);
+  // Key queries on the start of the day so a fresh Date each render doesn't refetch
+  const day = date ? startOfDay(date).getTime() : undefined;
+  const input = useMemo(() => ({ date: day !== undefined ? new Date(day) : undefined }), [day]);
+  const queryOptions = {
+    enabled,
+    refetchInterval: refreshInterval > 0 ? refreshInterval : false,
+  } as const;
 
-  // Update appointment status
-  const updateAppointmentStatus = useCallback(async (
-    appointmentId: string, 
-    status: Appointment['status']
-  ) => {
-    try {
+  const appointmentsQuery = api.dashboard.appointments.useQuery(input, queryOptions);
+  const statsQuery = api.dashboard.stats.useQuery(input, queryOptions);
+
+  const { mutateAsync: updateStatusAsync } = api.dashboard.updateAppointmentStatus.useMutation({
+    onMutate: async ({ appointmentId, status }) => {
       // Optimistic update
-      setAppointments(prev => prev.map(appt => 
-        appt.id === appointmentId 
+      await utils.dashboard.appointments.cancel(input);
+      const previous = utils.dashboard.appointments.getData(input);
+      utils.dashboard.appointments.setData(input, appts => appts?.map(appt =>
+        appt.id === appointmentId
           ? { ...appt, status, updatedAt: new Date() }
           : appt
       ));
-
-      // Get the appropriate EHR service
-      const ehrService = await getCurrentUserEHRService();
-
-      // Update via service
-      await ehrService.updateAppointmentStatus(appointmentId, status);
-
-      // Refresh stats after status change
-      const newStats = (ehrService as any).getDashboardStats ? 
-        await (ehrService as any).getDashboardStats(date) : 
-        generateStatsFromAppointments(await ehrService.getTodaysAppointments(clinicianId, date));
-        
-      setStats(prevStats => {
-        if (!prevStats) return newStats;
-        
-        const hasChanged = JSON.stringify(prevStats) !== JSON.stringify(newStats);
-        return hasChanged ? newStats : prevStats;
-      });
-
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`📝 Updated appointment ${appointmentId} status to: ${status}`);
-      }
-    } catch (err) {
+      return { previous };
+    },
+    onError: (_err, _variables, context) => {
       // Revert optimistic update on error
-      await fetchData();
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update appointment';
-      setError(errorMessage);
-      throw err;
-    }
-  }, [clinicianId, dateString, date]);
+      utils.dashboard.appointments.setData(input, context?.previous);
+    },
+    onSettled: () => Promise.all([
+      utils.dashboard.appointments.invalidate(),
+      utils.dashboard.stats.invalidate(),
+    ]),
+  });
 
-  // Initial fetch
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
-
-  // Auto-refresh interval
-  useEffect(() => {
-    if (!enabled || refreshInterval <= 0) return;
+  const updateAppointmentStatus = useCallback(async (
+    appointmentId: string,
+    status: Appointment['status']
+  ) => {
+    await updateStatusAsync({ appointmentId, status });
 
-    const interval = setInterval(() => {
-      fetchData();
-    }, refreshInterval);
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`📝 Updated appointment ${appointmentId} status to: ${status}`);
+    }
+  }, [updateStatusAsync]);
 
-    return () => clearInterval(interval);
-  }, [fetchData, refreshInterval, enabled]);
+  const { refetch: refetchAppointments } = appointmentsQuery;
+  const { refetch: refetchStats } = statsQuery;
+  const refetch = useCallback(async () => {
+    await Promise.all([refetchAppointments(), refetchStats()]);
+  }, [refetchAppointments, refetchStats]);
 
   return {
-    appointments,
-    stats,
-    loading,
-    error,
-    lastUpdated,
-    refetch: fetchData,
+    appointments: appointmentsQuery.data ?? [],
+    stats: statsQuery.data ?? null,
+    loading: appointmentsQuery.isLoading || statsQuery.isLoading,
+    error: (appointmentsQuery.error ?? statsQuery.error)?.message ?? null,
+    lastUpdated: appointmentsQuery.dataUpdatedAt ? new Date(appointmentsQuery.dataUpdatedAt) : null,
+    refetch,
     updateAppointmentStatus,
   };
 }
@@ -169,9 +107,9 @@ export function useAppointmentsByStatus(
   options: UseAppointmentsOptions = {}
 ) {
   const { appointments, ...rest } = useAppointments(options);
-  
+
   const filteredAppointments = appointments.filter(appt => appt.status === status);
-  
+
   return {
     appointments: filteredAppointments,
     count: filteredAppointments.length,
@@ -184,12 +122,12 @@ export function useAppointmentsByStatus(
  */
 export function useCurrentAppointment(options: UseAppointmentsOptions = {}) {
   const { appointments, ...rest } = useAppointments(options);
-  
+
   // Find appointment that's currently in progress or recording
-  const currentAppointment = appointments.find(appt => 
+  const currentAppointment = appointments.find(appt =>
     appt.status === 'in-progress' || appt.status === 'recording'
   );
-  
+
   return {
     appointment: currentAppointment || null,
     hasCurrentAppointment: !!currentAppointment,
@@ -202,15 +140,15 @@ export function useCurrentAppointment(options: UseAppointmentsOptions = {}) {
  */
 export function useNextAppointment(options: UseAppointmentsOptions = {}) {
   const { appointments, ...rest } = useAppointments(options);
-  
+
   const now = new Date();
   const upcomingAppointments = appointments
-    .filter(appt => 
-      appt.scheduledTime > now && 
+    .filter(appt =>
+      appt.scheduledTime > now &&
       ['scheduled', 'waiting'].includes(appt.status)
     )
     .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
-  
+
   return {
     appointment: upcomingAppointments[0] || null,
     hasNextAppointment: upcomingAppointments.length > 0,
@@ -218,33 +156,3 @@ export function useNextAppointment(options: UseAppointmentsOptions = {}) {
     ...rest,
   };
 }
-
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
-/**
- * Generate dashboard stats from appointments array
- * Used as fallback when EHR service doesn't provide stats directly
- */
-function generateStatsFromAppointments(appointments: Appointment[]): DashboardStats {
-  const completed = appointments.filter(a => a.status === 'completed').length;
-  const recording = appointments.filter(a => a.status === 'recording').length;
-  const processing = appointments.filter(a => a.status === 'processing').length;
-  const remaining = appointments.filter(a => 
-    ['scheduled', 'waiting', 'in-progress', 'recording'].includes(a.status)
-  ).length;
-
-  return {
-    consultationsCompleted: completed,
-    consultationsScheduled: appointments.length,
-    currentlyRecording: recording,
-    appointmentsRemaining: remaining,
-    notesAwaitingReview: 0, // Would need to fetch from notes service
-    audioFilesProcessing: processing,
-    averageConsultationTime: 30, // Default estimate
-    timesSaved: completed * 15, // Assume 15 minutes saved per consultation
-    notesGenerated: completed,
-    transcriptionAccuracy: 95, // Default estimate
-  };
-}
\ No newline at end of file
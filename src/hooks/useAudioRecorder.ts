@@ -0,0 +1,387 @@
+/**
+ * Custom hook for capturing consultation audio in the browser
+ *
+ * Records the microphone with MediaRecorder, streams chunks to the recording
+ * API as they are produced, reports a live input level, and supports pause,
+ * resume and recovery of a recording interrupted by a tab reload.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ConsultationState } from '@/types/clinical';
+import {
+  RecordingChunkUploader,
+  fetchRecordingSession,
+  getSupportedRecordingMimeType,
+  sendRecordingAction,
+  type FinalizeRecordingResult,
+  type RecordingSessionInfo,
+} from '@/lib/recording-client';
+
+export type AudioRecorderStatus =
+  | 'idle'
+  | 'requesting-permission'
+  | 'recording'
+  | 'paused'
+  | 'finalizing'
+  | 'complete'
+  | 'error';
+
+interface UseAudioRecorderOptions {
+  consultationId?: string;
+  timesliceMs?: number;
+  onComplete?: (result: FinalizeRecordingResult) => void;
+}
+
+interface UseAudioRecorderResult
+  extends Required<Pick<ConsultationState, 'audioLevel' | 'recordingDuration'>>,
+    Pick<ConsultationState, 'recordingStartTime' | 'audioFileUrl'> {
+  status: AudioRecorderStatus;
+  error: string | null;
+  pendingUploads: number;
+  uploadError: string | null;
+  recoverableSession: RecordingSessionInfo | null;
+  isSupported: boolean;
+  start: () => Promise<void>;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  stop: () => Promise<void>;
+  discard: () => Promise<void>;
+}
+
+const DEFAULT_TIMESLICE_MS = 5000;
+const LEVEL_UPDATE_INTERVAL_MS = 100;
+
+export function useAudioRecorder(options: UseAudioRecorderOptions = {}): UseAudioRecorderResult {
+  const { consultationId, timesliceMs = DEFAULT_TIMESLICE_MS, onComplete } = options;
+
+  const [status, setStatus] = useState<AudioRecorderStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [audioLevel, setAudioLevel] = useState(0);
+  const [recordingStartTime, setRecordingStartTime] = useState<Date | undefined>();
+  const [recordingDuration, setRecordingDuration] = useState(0);
+  const [audioFileUrl, setAudioFileUrl] = useState<string | undefined>();
+  const [pendingUploads, setPendingUploads] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [recoverableSession, setRecoverableSession] = useState<RecordingSessionInfo | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const levelFrameRef = useRef<number | null>(null);
+  const uploaderRef = useRef<RecordingChunkUploader | null>(null);
+  const segmentRef = useRef(0);
+  const sequenceRef = useRef(0);
+  const chunkCountsRef = useRef<Record<number, number>>({});
+  // Time already recorded (excluding pauses) before the current running stretch
+  const elapsedBeforeRef = useRef(0);
+  const runningSinceRef = useRef<number | null>(null);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const isSupported =
+    typeof window !== 'undefined' &&
+    typeof MediaRecorder !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia;
+
+  // ============================================================================
+  // RECOVERY
+  // ============================================================================
+
+  useEffect(() => {
+    if (!consultationId) return;
+    let cancelled = false;
+
+    fetchRecordingSession(consultationId)
+      .then(session => {
+        if (cancelled || !session) return;
+        if (session.status === 'complete') {
+          setStatus('complete');
+          setAudioFileUrl(`/api/consultations/${consultationId}/recording/audio`);
+          setRecordingStartTime(new Date(session.startedAt));
+          if (session.endedAt) {
+            const totalMs = new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime();
+            setRecordingDuration(Math.round((totalMs - session.pausedMs) / 1000));
+          }
+        } else if (!recorderRef.current) {
+          // A recording was left open - most likely the tab was reloaded mid-consult
+          setRecoverableSession(session);
+        }
+      })
+      .catch(err => {
+        console.error('Error checking for an interrupted recording:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [consultationId]);
+
+  // ============================================================================
+  // AUDIO LEVEL METERING
+  // ============================================================================
+
+  const startLevelMeter = useCallback((stream: MediaStream) => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+
+    const samples = new Uint8Array(analyser.fftSize);
+    let lastUpdate = 0;
+
+    const tick = (now: number) => {
+      if (now - lastUpdate >= LEVEL_UPDATE_INTERVAL_MS) {
+        lastUpdate = now;
+        analyser.getByteTimeDomainData(samples);
+
+        // RMS of the waveform around the 128 midpoint, scaled so speech sits mid-range
+        let sumSquares = 0;
+        for (const sample of samples) {
+          const normalized = (sample - 128) / 128;
+          sumSquares += normalized * normalized;
+        }
+        const rms = Math.sqrt(sumSquares / samples.length);
+        setAudioLevel(Math.min(100, Math.round(rms * 300)));
+      }
+      levelFrameRef.current = requestAnimationFrame(tick);
+    };
+    levelFrameRef.current = requestAnimationFrame(tick);
+  }, []);
+
+  const releaseMedia = useCallback(() => {
+    if (levelFrameRef.current !== null) {
+      cancelAnimationFrame(levelFrameRef.current);
+      levelFrameRef.current = null;
+    }
+    void audioContextRef.current?.close().catch(() => undefined);
+    audioContextRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    recorderRef.current = null;
+    setAudioLevel(0);
+  }, []);
+
+  // ============================================================================
+  // DURATION TIMER
+  // ============================================================================
+
+  useEffect(() => {
+    if (status !== 'recording') return;
+
+    const interval = setInterval(() => {
+      const running = runningSinceRef.current ? Date.now() - runningSinceRef.current : 0;
+      setRecordingDuration(Math.floor((elapsedBeforeRef.current + running) / 1000));
+    }, 500);
+
+    return () => clearInterval(interval);
+  }, [status]);
+
+  // Release the microphone if the component unmounts mid-recording
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+        recorderRef.current.stop();
+      }
+      releaseMedia();
+      uploaderRef.current?.dispose();
+    };
+  }, [releaseMedia]);
+
+  // ============================================================================
+  // CONTROLS
+  // ============================================================================
+
+  const start = useCallback(async () => {
+    if (!consultationId) {
+      setError('No consultation selected');
+      return;
+    }
+    if (!isSupported) {
+      setError('Audio recording is not supported in this browser');
+      setStatus('error');
+      return;
+    }
+
+    try {
+      setError(null);
+      setStatus('requesting-permission');
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
+      streamRef.current = stream;
+
+      const { recording } = await sendRecordingAction(consultationId, { action: 'start' });
+      if (!recording) {
+        throw new Error('Recording session could not be started');
+      }
+
+      // Recovering: continue in a fresh segment after whatever the server already has
+      const lastSegment = recording.segments.at(-1);
+      segmentRef.current = lastSegment ? lastSegment.index + 1 : 0;
+      sequenceRef.current = 0;
+      chunkCountsRef.current = {};
+
+      if (recording.status === 'paused') {
+        await sendRecordingAction(consultationId, { action: 'resume' });
+      }
+
+      const startedAt = new Date(recording.startedAt);
+      setRecordingStartTime(startedAt);
+      elapsedBeforeRef.current = recoverableSession
+        ? Math.max(0, Date.now() - startedAt.getTime() - recording.pausedMs)
+        : 0;
+      runningSinceRef.current = Date.now();
+      setRecoverableSession(null);
+
+      const uploader = new RecordingChunkUploader(consultationId, state => {
+        setPendingUploads(state.pending);
+        setUploadError(state.lastError);
+      });
+      uploaderRef.current?.dispose();
+      uploaderRef.current = uploader;
+
+      const mimeType = getSupportedRecordingMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const segment = segmentRef.current;
+
+      recorder.ondataavailable = event => {
+        if (event.data.size === 0) return;
+        const sequence = sequenceRef.current++;
+        chunkCountsRef.current[segment] = sequence + 1;
+        uploader.enqueue({ segment, sequence, blob: event.data });
+      };
+      recorder.onerror = () => {
+        setError('The recorder stopped unexpectedly');
+        setStatus('error');
+      };
+
+      recorder.start(timesliceMs);
+      recorderRef.current = recorder;
+      startLevelMeter(stream);
+      setStatus('recording');
+    } catch (err) {
+      releaseMedia();
+      const message =
+        err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'Microphone access was denied'
+          : err instanceof Error
+            ? err.message
+            : 'Failed to start recording';
+      setError(message);
+      setStatus('error');
+      console.error('Error starting recording:', err);
+    }
+  }, [consultationId, isSupported, recoverableSession, releaseMedia, startLevelMeter, timesliceMs]);
+
+  const pause = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!consultationId || recorder?.state !== 'recording') return;
+
+    recorder.pause();
+    if (runningSinceRef.current) {
+      elapsedBeforeRef.current += Date.now() - runningSinceRef.current;
+      runningSinceRef.current = null;
+    }
+    setAudioLevel(0);
+    setStatus('paused');
+
+    try {
+      await sendRecordingAction(consultationId, { action: 'pause' });
+    } catch (err) {
+      console.error('Error pausing recording:', err);
+    }
+  }, [consultationId]);
+
+  const resume = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!consultationId || recorder?.state !== 'paused') return;
+
+    recorder.resume();
+    runningSinceRef.current = Date.now();
+    setStatus('recording');
+
+    try {
+      await sendRecordingAction(consultationId, { action: 'resume' });
+    } catch (err) {
+      console.error('Error resuming recording:', err);
+    }
+  }, [consultationId]);
+
+  const stop = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!consultationId || !recorder) return;
+
+    setStatus('finalizing');
+
+    try {
+      // Wait for the final dataavailable event before releasing the microphone
+      await new Promise<void>(resolve => {
+        recorder.addEventListener('stop', () => resolve(), { once: true });
+        recorder.stop();
+      });
+      releaseMedia();
+
+      await uploaderRef.current?.drain();
+
+      const result = await sendRecordingAction<FinalizeRecordingResult>(consultationId, {
+        action: 'finalize',
+        expectedChunks: chunkCountsRef.current,
+      });
+
+      setRecordingDuration(result.durationSeconds);
+      setAudioFileUrl(result.consultation.audioFileUrl);
+      setStatus('complete');
+      onCompleteRef.current?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save recording');
+      setStatus('error');
+      console.error('Error finalizing recording:', err);
+    }
+  }, [consultationId, releaseMedia]);
+
+  const discard = useCallback(async () => {
+    if (!consultationId) return;
+
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+      recorderRef.current.stop();
+    }
+    releaseMedia();
+    uploaderRef.current?.dispose();
+    uploaderRef.current = null;
+
+    try {
+      await sendRecordingAction(consultationId, { action: 'discard' });
+      setRecoverableSession(null);
+      setRecordingStartTime(undefined);
+      setRecordingDuration(0);
+      setAudioFileUrl(undefined);
+      elapsedBeforeRef.current = 0;
+      runningSinceRef.current = null;
+      setError(null);
+      setStatus('idle');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard recording');
+      setStatus('error');
+    }
+  }, [consultationId, releaseMedia]);
+
+  return {
+    status,
+    error,
+    audioLevel,
+    recordingStartTime,
+    recordingDuration,
+    audioFileUrl,
+    pendingUploads,
+    uploadError,
+    recoverableSession,
+    isSupported,
+    start,
+    pause,
+    resume,
+    stop,
+    discard,
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Custom hook for the analytics page's billing figures
+ *
+ * Figures are worked out on the server from the consultations in the date
+ * range. The previous figures stay on screen while the filters change so the
+ * page doesn't flash empty between ranges.
+ */
+
+import { keepPreviousData } from '@tanstack/react-query';
+import { api, type RouterOutputs } from '@/trpc/react';
+
+export type BillingAnalyticsData = RouterOutputs['analytics']['billing'];
+
+export interface BillingAnalyticsFilters {
+  from: Date;
+  to: Date;
+  clinicianId?: string; // Every clinician when unset
+}
+
+/**
+ * Billed versus suggested items, estimated revenue and missed billing for the filters
+ */
+export function useBillingAnalytics(filters: BillingAnalyticsFilters) {
+  const analyticsQuery = api.analytics.billing.useQuery(filters, {
+    enabled: filters.from <= filters.to,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    analytics: analyticsQuery.data ?? null,
+    loading: analyticsQuery.isLoading,
+    refreshing: analyticsQuery.isFetching && !analyticsQuery.isLoading,
+    error: analyticsQuery.error?.message ?? null,
+  };
+}
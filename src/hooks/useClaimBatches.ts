@@ -0,0 +1,82 @@
+/**
+ * Custom hooks for the billing page's claim batches
+ *
+ * Batches and their claims are loaded through the billing tRPC router. Claim
+ * files come from the export endpoint, which closes the batch the first time
+ * it is exported, so the batch queries are refreshed after every download.
+ */
+
+import { useCallback } from 'react';
+import { api, type RouterOutputs } from '@/trpc/react';
+
+export type ClaimBatchSummary = RouterOutputs['billing']['batches'][number];
+
+export type ClaimBatchWithLines = RouterOutputs['billing']['batch'];
+
+export type ClaimFileFormat = 'csv' | 'json';
+
+export type RecordedClaimStatus = 'submitted' | 'paid' | 'rejected';
+
+/**
+ * Claim batches, latest service day first, and assembly of newly accepted suggestions into them
+ */
+export function useClaimBatches() {
+  const utils = api.useUtils();
+  const batchesQuery = api.billing.batches.useQuery({});
+
+  const assembleMutation = api.billing.assemble.useMutation({
+    onSuccess: () => utils.billing.invalidate(),
+  });
+
+  return {
+    batches: batchesQuery.data ?? [],
+    loading: batchesQuery.isLoading,
+    error: batchesQuery.error?.message ?? null,
+    assemble: assembleMutation.mutateAsync,
+    assembling: assembleMutation.isPending,
+  };
+}
+
+/**
+ * One batch's claims, with downloading its claim file and recording what Medicare did with each claim
+ */
+export function useClaimBatch(batchId: string | null) {
+  const utils = api.useUtils();
+  const batchQuery = api.billing.batch.useQuery({ batchId: batchId ?? '' }, { enabled: !!batchId });
+
+  const statusMutation = api.billing.updateClaimStatus.useMutation({
+    onSuccess: () => utils.billing.invalidate(),
+  });
+
+  const updateClaimStatus = useCallback(
+    (lineId: string, status: RecordedClaimStatus, reason?: string) => statusMutation.mutateAsync({ lineId, status, reason }),
+    [statusMutation]
+  );
+
+  const downloadClaimFile = useCallback(async (exportUrl: string, format: ClaimFileFormat) => {
+    const response = await fetch(`${exportUrl}?format=${format}`, { cache: 'no-store' });
+    if (!response.ok) {
+      const body = (await response.json().catch(() => ({}))) as { error?: string };
+      throw new Error(body.error ?? `Claim file export failed with status ${response.status}`);
+    }
+
+    const fileName = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1] ?? `claims.${format}`;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    await utils.billing.invalidate();
+  }, [utils]);
+
+  return {
+    batch: batchQuery.data ?? null,
+    loading: batchQuery.isLoading && !!batchId,
+    error: batchQuery.error?.message ?? null,
+    updateClaimStatus,
+    updatingStatus: statusMutation.isPending,
+    downloadClaimFile,
+  };
+}
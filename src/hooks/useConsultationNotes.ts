@@ -0,0 +1,166 @@
+/**
+ * Custom hook for a consultation's AI-drafted notes
+ *
+ * Loads the notes generated from the transcript and polls while a new draft
+ * is being generated. Edits, sign-off and amendments go through the notes
+ * router and follow the workflow the server enforces (see lib/note-status).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ClinicalNote, ClinicalNoteVersion } from '@/types/clinical';
+import { api } from '@/trpc/react';
+
+const POLL_INTERVAL_MS = 2000;
+
+interface NoteGenerationStatus {
+  progress?: number;
+  error?: string;
+  templateKey?: string;
+}
+
+interface ConsultationNotesResponse {
+  notes: ClinicalNote[];
+  noteGeneration: NoteGenerationStatus;
+}
+
+interface UseConsultationNotesResult {
+  notes: ClinicalNote[];
+  latestNote: ClinicalNote | null;
+  noteGeneration: NoteGenerationStatus;
+  isGenerating: boolean;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  generate: (templateKey?: string) => Promise<void>;
+  updateNote: (noteId: string, updates: NoteUpdate) => Promise<ClinicalNote>;
+  amendNote: (noteId: string, amendment: NoteAmendment) => Promise<ClinicalNote>;
+  getNoteVersions: (noteId: string) => Promise<ClinicalNoteVersion[]>;
+}
+
+export interface NoteUpdate {
+  title?: string;
+  content?: string;
+  status?: Exclude<ClinicalNote['status'], 'amended'>;
+}
+
+export interface NoteAmendment {
+  title?: string;
+  content: string;
+  reason: string;
+}
+
+const notesUrl = (consultationId: string) => `/api/consultations/${encodeURIComponent(consultationId)}/note`;
+const noteUrl = (consultationId: string, noteId: string) =>
+  `${notesUrl(consultationId)}/${encodeURIComponent(noteId)}`;
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(body.error ?? `Note request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+export function useConsultationNotes(consultationId?: string): UseConsultationNotesResult {
+  const [notes, setNotes] = useState<ClinicalNote[]>([]);
+  const [noteGeneration, setNoteGeneration] = useState<NoteGenerationStatus>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { mutateAsync: updateAsync } = api.notes.update.useMutation();
+  const { mutateAsync: amendAsync } = api.notes.amend.useMutation();
+
+  const refresh = useCallback(async () => {
+    if (!consultationId) return;
+
+    try {
+      setLoading(true);
+      const body = await parseResponse<ConsultationNotesResponse>(
+        await fetch(notesUrl(consultationId), { cache: 'no-store' })
+      );
+      setNotes(body.notes);
+      setNoteGeneration(body.noteGeneration);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notes');
+      console.error('Error loading consultation notes:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [consultationId]);
+
+  const generate = useCallback(async (templateKey?: string) => {
+    if (!consultationId) return;
+
+    try {
+      setError(null);
+      const body = await parseResponse<Pick<ConsultationNotesResponse, 'noteGeneration'>>(
+        await fetch(notesUrl(consultationId), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ templateKey }),
+        })
+      );
+      setNoteGeneration(body.noteGeneration);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate note');
+    }
+  }, [consultationId]);
+
+  const replaceNote = useCallback((note: ClinicalNote) => {
+    setNotes(current => current.map(existing => (existing.id === note.id ? note : existing)));
+  }, []);
+
+  // Errors are rethrown so the editor can keep the clinician's unsaved changes
+  const updateNote = useCallback(async (noteId: string, updates: NoteUpdate) => {
+    if (!consultationId) throw new Error('No consultation selected');
+
+    const note = await updateAsync({ noteId, updates });
+    replaceNote(note);
+    return note;
+  }, [consultationId, updateAsync, replaceNote]);
+
+  const amendNote = useCallback(async (noteId: string, amendment: NoteAmendment) => {
+    if (!consultationId) throw new Error('No consultation selected');
+
+    const note = await amendAsync({ noteId, amendment });
+    replaceNote(note);
+    return note;
+  }, [consultationId, amendAsync, replaceNote]);
+
+  const getNoteVersions = useCallback(async (noteId: string) => {
+    if (!consultationId) return [];
+
+    const body = await parseResponse<{ versions: ClinicalNoteVersion[] }>(
+      await fetch(noteUrl(consultationId, noteId), { cache: 'no-store' })
+    );
+    return body.versions;
+  }, [consultationId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // Keep polling while the worker is drafting
+  const isGenerating =
+    noteGeneration.progress !== undefined && noteGeneration.progress < 100 && !noteGeneration.error;
+  useEffect(() => {
+    if (!isGenerating) return;
+
+    const interval = setInterval(() => void refresh(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isGenerating, refresh]);
+
+  return {
+    notes,
+    latestNote: notes[0] ?? null,
+    noteGeneration,
+    isGenerating,
+    loading,
+    error,
+    refresh,
+    generate,
+    updateNote,
+    amendNote,
+    getNoteVersions,
+  };
+}
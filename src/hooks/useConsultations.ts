@@ -1,51 +1,23 @@
 /**
- * Custom hook for managing consultation workflows in Phase 2A
- * 
- * This hook provides consultation management functionality for standalone mode,
+ * Custom hooks for managing consultation workflows in Phase 2A
+ *
+ * These hooks provide consultation management functionality for standalone mode,
  * including creating consultations, managing recording state, and handling
- * the consultation lifecycle.
+ * the consultation lifecycle. Data is loaded through the clinical tRPC routers,
+ * which resolve the tenant and its DataStore on the server.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import type { ClinicalNote, EHRProvider } from '@/types/clinical';
-import { getCurrentUserEHRService } from '@/services';
-import type { StandaloneClinicService } from '@/services/StandaloneClinicService';
+import { useCallback } from 'react';
+import type { ClinicalNote, PendingAction } from '@/types/clinical';
+import { api, type RouterInputs, type RouterOutputs } from '@/trpc/react';
 
 // ============================================================================
-// TYPE GUARDS AND INTERFACES
+// INTERFACES
 // ============================================================================
 
-/**
- * Interface for EHR services that support consultation management
- */
-interface EHRServiceWithConsultations extends EHRProvider {
-  getConsultation(consultationId: string): Promise<ConsultationData>;
-  updateConsultation(consultationId: string, updates: Partial<ConsultationData>): Promise<ConsultationData>;
-}
+export type ConsultationData = RouterOutputs['consultations']['get'];
 
-/**
- * Type guard to check if an EHR service has consultation capabilities
- */
-function hasConsultationSupport(service: EHRProvider): service is EHRServiceWithConsultations {
-  const serviceWithUnknownMethods = service as unknown as Record<string, unknown>;
-  return 'getConsultation' in service && 
-         typeof serviceWithUnknownMethods.getConsultation === 'function' &&
-         'updateConsultation' in service && 
-         typeof serviceWithUnknownMethods.updateConsultation === 'function';
-}
-
-interface ConsultationData {
-  id: string;
-  patientId: string;
-  status: 'ready' | 'recording' | 'processing' | 'review' | 'complete' | 'error';
-  recordingStartTime?: Date;
-  recordingEndTime?: Date;
-  audioFileUrl?: string;
-  transcriptionText?: string;
-  selectedTemplate?: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
+type ConsultationUpdates = RouterInputs['consultations']['update']['updates'];
 
 interface CreateConsultationData {
   patientId: string;
@@ -79,18 +51,23 @@ interface UseClinicalNotesOptions {
   enabled?: boolean;
 }
 
+interface NoteData {
+  title: string;
+  content: string;
+  noteType?: ClinicalNote['noteType'];
+  template?: string;
+}
+
 interface UseClinicalNotesResult {
   notes: ClinicalNote[];
   loading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
-  createNote: (note: {
-    title: string;
-    content: string;
-    noteType?: string;
-    template?: string;
-  }) => Promise<ClinicalNote | null>;
-  updateNote: (noteId: string, updates: Partial<ClinicalNote>) => Promise<ClinicalNote | null>;
+  createNote: (note: NoteData) => Promise<ClinicalNote | null>;
+  updateNote: (
+    noteId: string,
+    updates: Pick<Partial<ClinicalNote>, 'title' | 'content' | 'status'>
+  ) => Promise<ClinicalNote | null>;
 }
 
 // ============================================================================
@@ -102,60 +79,29 @@ interface UseClinicalNotesResult {
  */
 export function useConsultation(options: UseConsultationOptions = {}): UseConsultationResult {
   const { consultationId, enabled = true } = options;
+  const utils = api.useUtils();
 
-  const [consultation, setConsultation] = useState<ConsultationData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchConsultation = useCallback(async () => {
-    if (!enabled || !consultationId) {
-      setLoading(false);
-      return;
-    }
+  const query = api.consultations.get.useQuery(
+    { consultationId: consultationId ?? '' },
+    { enabled: enabled && !!consultationId }
+  );
 
-    try {
-      setLoading(true);
-      setError(null);
-
-      const ehrService = await getCurrentUserEHRService();
-      
-      // Check if this is a service with consultation capability using type guard
-      if (hasConsultationSupport(ehrService)) {
-        const consultationData = await ehrService.getConsultation(consultationId);
-        setConsultation(consultationData);
-
-        if (process.env.NODE_ENV === 'development') {
-          console.log(`📋 Fetched consultation: ${consultationId} (${consultationData.status})`);
-        }
-      } else {
-        throw new Error('Consultation management not supported by current EHR service');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch consultation';
-      setError(errorMessage);
-      console.error('Error fetching consultation:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [consultationId, enabled]);
+  const { mutateAsync: updateConsultationAsync } = api.consultations.update.useMutation({
+    onSuccess: updated => {
+      utils.consultations.get.setData({ consultationId: updated.id }, updated);
+    },
+  });
 
-  const updateConsultation = useCallback(async (updates: Partial<ConsultationData>) => {
+  const updateConsultation = useCallback(async (updates: ConsultationUpdates) => {
     if (!consultationId) return;
 
     try {
-      const ehrService = await getCurrentUserEHRService();
-      
-      if (hasConsultationSupport(ehrService)) {
-        const updatedConsultation = await ehrService.updateConsultation(consultationId, updates);
-        setConsultation(updatedConsultation);
-      } else {
-        throw new Error('Consultation management not supported by current EHR service');
-      }
+      await updateConsultationAsync({ consultationId, updates });
     } catch (err) {
       console.error('Error updating consultation:', err);
       throw err;
     }
-  }, [consultationId]);
+  }, [consultationId, updateConsultationAsync]);
 
   const startRecording = useCallback(async () => {
     await updateConsultation({
@@ -175,15 +121,16 @@ export function useConsultation(options: UseConsultationOptions = {}): UseConsul
     await updateConsultation({ status });
   }, [updateConsultation]);
 
-  useEffect(() => {
-    fetchConsultation();
-  }, [fetchConsultation]);
+  const { refetch: refetchQuery } = query;
+  const refetch = useCallback(async () => {
+    await refetchQuery();
+  }, [refetchQuery]);
 
   return {
-    consultation,
-    loading,
-    error,
-    refetch: fetchConsultation,
+    consultation: query.data ?? null,
+    loading: query.isLoading,
+    error: query.error?.message ?? null,
+    refetch,
     startRecording,
     stopRecording,
     updateStatus,
@@ -198,42 +145,33 @@ export function useConsultation(options: UseConsultationOptions = {}): UseConsul
  * Hook for creating new consultations
  */
 export function useCreateConsultation(): UseCreateConsultationResult {
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const utils = api.useUtils();
+  const createMutation = api.consultations.create.useMutation({
+    onSuccess: consultation => {
+      utils.consultations.get.setData({ consultationId: consultation.id }, consultation);
+    },
+  });
+  const { mutateAsync: createConsultationAsync } = createMutation;
 
   const createConsultation = useCallback(async (data: CreateConsultationData): Promise<ConsultationData | null> => {
     try {
-      setLoading(true);
-      setError(null);
-
-      const ehrService = await getCurrentUserEHRService();
-      
-      // Check if this is a standalone service with create capability
-      if ('createConsultation' in ehrService) {
-        const newConsultation = await (ehrService as StandaloneClinicService).createConsultation(data);
-
-        if (process.env.NODE_ENV === 'development') {
-          console.log(`✅ Created consultation: ${newConsultation.id} for patient ${newConsultation.patientId}`);
-        }
-
-        return newConsultation as ConsultationData;
-      } else {
-        throw new Error('Consultation creation not supported in EHR-integrated mode');
+      const newConsultation = await createConsultationAsync(data);
+
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`✅ Created consultation: ${newConsultation.id} for patient ${newConsultation.patientId}`);
       }
+
+      return newConsultation;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create consultation';
-      setError(errorMessage);
       console.error('Error creating consultation:', err);
       return null;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [createConsultationAsync]);
 
   return {
     createConsultation,
-    loading,
-    error,
+    loading: createMutation.isPending,
+    error: createMutation.error?.message ?? null,
   };
 }
 
@@ -242,100 +180,60 @@ export function useCreateConsultation(): UseCreateConsultationResult {
 // ============================================================================
 
 /**
- * Hook for managing clinical notes
+ * Hook for managing clinical notes of a consultation, or a patient's recent notes
  */
 export function useClinicalNotes(options: UseClinicalNotesOptions = {}): UseClinicalNotesResult {
   const { patientId, consultationId, enabled = true } = options;
-
-  const [notes, setNotes] = useState<ClinicalNote[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchNotes = useCallback(async () => {
-    if (!enabled || (!patientId && !consultationId)) {
-      setLoading(false);
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setError(null);
-
-      // For now, we'll implement this as part of patient context
-      // In a full implementation, this would be a separate API call
-      const ehrService = await getCurrentUserEHRService();
-      
-      if (patientId) {
-        const context = await ehrService.getPatientContext(patientId);
-        setNotes(context.recentNotes || []);
-      } else {
-        // TODO: Implement consultation-specific notes fetch
-        setNotes([]);
-      }
-
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`📝 Fetched ${notes.length} clinical notes`);
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch clinical notes';
-      setError(errorMessage);
-      console.error('Error fetching clinical notes:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [patientId, consultationId, enabled]);
-
-  const createNote = useCallback(async (noteData: {
-    title: string;
-    content: string;
-    noteType?: string;
-    template?: string;
-  }): Promise<ClinicalNote | null> => {
+  const utils = api.useUtils();
+
+  const consultationQuery = api.notes.byConsultation.useQuery(
+    { consultationId: consultationId ?? '' },
+    { enabled: enabled && !!consultationId }
+  );
+  const patientQuery = api.notes.byPatient.useQuery(
+    { patientId: patientId ?? '' },
+    { enabled: enabled && !consultationId && !!patientId }
+  );
+  const query = consultationId ? consultationQuery : patientQuery;
+
+  const invalidate = useCallback(async () => {
+    await Promise.all([utils.notes.byConsultation.invalidate(), utils.notes.byPatient.invalidate()]);
+  }, [utils]);
+
+  const createMutation = api.notes.create.useMutation({ onSuccess: invalidate });
+  const updateMutation = api.notes.update.useMutation({ onSuccess: invalidate });
+  const { mutateAsync: createNoteAsync } = createMutation;
+  const { mutateAsync: updateNoteAsync } = updateMutation;
+
+  const createNote = useCallback(async (noteData: NoteData): Promise<ClinicalNote | null> => {
     if (!patientId) {
-      setError('Patient ID required to create note');
+      console.error('Patient ID required to create note');
       return null;
     }
 
     try {
-      const ehrService = await getCurrentUserEHRService();
-      
-      const newNote = await ehrService.createClinicalNote(patientId, {
-        title: noteData.title,
-        content: noteData.content,
-        noteType: noteData.noteType as any,
-        template: noteData.template,
-        consultationId,
+      const newNote = await createNoteAsync({
+        patientId,
+        note: { ...noteData, consultationId },
       });
 
-      // Add to local state
-      setNotes(prev => [newNote, ...prev]);
-
       if (process.env.NODE_ENV === 'development') {
         console.log(`✅ Created clinical note: ${newNote.title}`);
       }
 
       return newNote;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create clinical note';
-      setError(errorMessage);
       console.error('Error creating clinical note:', err);
       return null;
     }
-  }, [patientId, consultationId]);
+  }, [patientId, consultationId, createNoteAsync]);
 
   const updateNote = useCallback(async (
-    noteId: string, 
-    updates: Partial<ClinicalNote>
+    noteId: string,
+    updates: Pick<Partial<ClinicalNote>, 'title' | 'content' | 'status'>
   ): Promise<ClinicalNote | null> => {
     try {
-      const ehrService = await getCurrentUserEHRService();
-      
-      const updatedNote = await ehrService.updateClinicalNote(noteId, updates);
-
-      // Update local state
-      setNotes(prev => prev.map(note => 
-        note.id === noteId ? updatedNote : note
-      ));
+      const updatedNote = await updateNoteAsync({ noteId, updates });
 
       if (process.env.NODE_ENV === 'development') {
         console.log(`📝 Updated clinical note: ${noteId}`);
@@ -343,22 +241,21 @@ export function useClinicalNotes(options: UseClinicalNotesOptions = {}): UseClin
 
       return updatedNote;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update clinical note';
-      setError(errorMessage);
       console.error('Error updating clinical note:', err);
       return null;
     }
-  }, []);
+  }, [updateNoteAsync]);
 
-  useEffect(() => {
-    fetchNotes();
-  }, [fetchNotes]);
+  const { refetch: refetchQuery } = query;
+  const refetch = useCallback(async () => {
+    await refetchQuery();
+  }, [refetchQuery]);
 
   return {
-    notes,
-    loading,
-    error,
-    refetch: fetchNotes,
+    notes: query.data ?? [],
+    loading: query.isLoading,
+    error: (query.error ?? createMutation.error ?? updateMutation.error)?.message ?? null,
+    refetch,
     createNote,
     updateNote,
   };
@@ -369,59 +266,32 @@ export function useClinicalNotes(options: UseClinicalNotesOptions = {}): UseClin
 // ============================================================================
 
 /**
- * Hook for getting pending actions that require attention
+ * Hook for getting pending actions that require attention. A sync-failed
+ * action's id is the EHR write-back to retry.
  */
 export function usePendingActions() {
-  const [actions, setActions] = useState<Array<{
-    id: string;
-    type: string;
-    priority: string;
-    title: string;
-    description: string;
-    patientName?: string;
-    appointmentTime?: Date;
-    actionUrl?: string;
-    createdAt: Date;
-    dismissible: boolean;
-  }>>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchActions = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const ehrService = await getCurrentUserEHRService();
-      
-      // Check if this is a standalone service with pending actions capability
-      if ('getPendingActions' in ehrService) {
-        const actionsData = await (ehrService as StandaloneClinicService).getPendingActions();
-        setActions(actionsData);
-
-        if (process.env.NODE_ENV === 'development') {
-          console.log(`⚠️ Found ${actionsData.length} pending actions`);
-        }
-      } else {
-        setActions([]);
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch pending actions';
-      setError(errorMessage);
-      console.error('Error fetching pending actions:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    fetchActions();
-  }, [fetchActions]);
+  const utils = api.useUtils();
+  const query = api.dashboard.pendingActions.useQuery();
+  const retryMutation = api.ehr.retryWriteBack.useMutation({
+    onSettled: () => utils.dashboard.pendingActions.invalidate(),
+  });
+
+  const { refetch: refetchQuery } = query;
+  const refetch = useCallback(async () => {
+    await refetchQuery();
+  }, [refetchQuery]);
+
+  const { mutateAsync: retryAsync } = retryMutation;
+  const retrySync = useCallback(async (writeBackId: string) => {
+    await retryAsync({ writeBackId });
+  }, [retryAsync]);
 
   return {
-    actions,
-    loading,
-    error,
-    refetch: fetchActions,
+    actions: query.data ?? ([] as PendingAction[]),
+    loading: query.isLoading,
+    error: query.error?.message ?? null,
+    refetch,
+    retrySync,
+    retrying: retryMutation.isPending ? retryMutation.variables?.writeBackId ?? null : null,
   };
-}
\ No newline at end of file
+}
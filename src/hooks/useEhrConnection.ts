@@ -0,0 +1,64 @@
+/**
+ * Custom hook for the clinic's EHR connection
+ *
+ * Settings are saved through the ehr tRPC router. Authorizing the connection
+ * leaves the app: the browser goes to the launch endpoint, then the EHR, and
+ * comes back to Settings with the outcome in the query string.
+ */
+
+import { useCallback } from 'react';
+import { api, type RouterInputs, type RouterOutputs } from '@/trpc/react';
+
+export type EhrConnectionSummary = NonNullable<RouterOutputs['ehr']['connection']>;
+
+export type EhrConnectionSettings = RouterInputs['ehr']['saveConnection'];
+
+export type EhrBridgeSettings = RouterInputs['ehr']['saveBridge'];
+
+export type EhrConnectionTestResult = RouterOutputs['ehr']['testConnection'];
+
+export const EHR_LAUNCH_URL = '/api/ehr/launch';
+
+export function useEhrConnection() {
+  const utils = api.useUtils();
+  const connectionQuery = api.ehr.connection.useQuery();
+
+  const saveMutation = api.ehr.saveConnection.useMutation({
+    onSuccess: () => utils.ehr.connection.invalidate(),
+  });
+  const saveBridgeMutation = api.ehr.saveBridge.useMutation({
+    onSuccess: () => utils.ehr.connection.invalidate(),
+  });
+  const removeBridgeMutation = api.ehr.removeBridge.useMutation({
+    onSuccess: () => utils.ehr.connection.invalidate(),
+  });
+  const disconnectMutation = api.ehr.disconnect.useMutation({
+    onSuccess: () => utils.ehr.connection.invalidate(),
+  });
+  // Testing may refresh the access token, or record why it couldn't be
+  const testMutation = api.ehr.testConnection.useMutation({
+    onSettled: () => utils.ehr.connection.invalidate(),
+  });
+
+  // Standalone launch: the EHR asks the user to sign in, then sends them back to Settings
+  const connect = useCallback(() => {
+    window.location.assign(EHR_LAUNCH_URL);
+  }, []);
+
+  return {
+    connection: connectionQuery.data ?? null,
+    loading: connectionQuery.isLoading,
+    error: connectionQuery.error?.message ?? null,
+    save: saveMutation.mutateAsync,
+    saving: saveMutation.isPending,
+    saveBridge: saveBridgeMutation.mutateAsync,
+    removeBridge: removeBridgeMutation.mutateAsync,
+    savingBridge: saveBridgeMutation.isPending || removeBridgeMutation.isPending,
+    disconnect: disconnectMutation.mutateAsync,
+    disconnecting: disconnectMutation.isPending,
+    test: testMutation.mutateAsync,
+    testing: testMutation.isPending,
+    lastTest: testMutation.data ?? null,
+    connect,
+  };
+}
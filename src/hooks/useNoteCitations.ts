@@ -0,0 +1,64 @@
+/**
+ * Custom hook for the transcript citations of a drafted note
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { NoteCitation } from '@/types/clinical';
+
+interface UseNoteCitationsResult {
+  citations: NoteCitation[];
+  unsupportedCount: number;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(body.error ?? `Citation request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+export function useNoteCitations(consultationId?: string, noteId?: string): UseNoteCitationsResult {
+  const [citations, setCitations] = useState<NoteCitation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!consultationId || !noteId) {
+      setCitations([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const body = await parseResponse<{ citations: NoteCitation[] }>(
+        await fetch(
+          `/api/consultations/${encodeURIComponent(consultationId)}/note/${encodeURIComponent(noteId)}/citations`,
+          { cache: 'no-store' }
+        )
+      );
+      setCitations(body.citations);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load citations');
+      console.error('Error loading note citations:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [consultationId, noteId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return {
+    citations,
+    unsupportedCount: citations.filter(citation => citation.support === 'unsupported').length,
+    loading,
+    error,
+    refresh,
+  };
+}
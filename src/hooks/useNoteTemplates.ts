@@ -0,0 +1,121 @@
+/**
+ * Custom hook for the clinic's note template library
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { NoteTemplate, NoteTemplateVersion } from '@/types/clinical';
+
+interface UseNoteTemplatesOptions {
+  includeInactive?: boolean;
+}
+
+interface UseNoteTemplatesResult {
+  templates: NoteTemplate[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createTemplate: (input: { source: string; changeSummary?: string }) => Promise<NoteTemplate>;
+  saveTemplate: (templateId: string, input: { source: string; changeSummary?: string }) => Promise<NoteTemplate>;
+  setTemplateActive: (templateId: string, isActive: boolean) => Promise<NoteTemplate>;
+  getVersions: (templateId: string) => Promise<NoteTemplateVersion[]>;
+}
+
+const templateUrl = (templateId: string) => `/api/templates/${encodeURIComponent(templateId)}`;
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(body.error ?? `Template request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+export function useNoteTemplates(options: UseNoteTemplatesOptions = {}): UseNoteTemplatesResult {
+  const { includeInactive = false } = options;
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const body = await parseResponse<{ templates: NoteTemplate[] }>(
+        await fetch(`/api/templates${includeInactive ? '?includeInactive=true' : ''}`, { cache: 'no-store' })
+      );
+      setTemplates(body.templates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+      console.error('Error loading note templates:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive]);
+
+  const replaceTemplate = useCallback((template: NoteTemplate) => {
+    setTemplates(current =>
+      current.some(existing => existing.id === template.id)
+        ? current.map(existing => (existing.id === template.id ? template : existing))
+        : [...current, template]
+    );
+  }, []);
+
+  // Errors are rethrown so the editor can keep the clinician's unsaved source
+  const createTemplate = useCallback(async (input: { source: string; changeSummary?: string }) => {
+    const body = await parseResponse<{ template: NoteTemplate }>(
+      await fetch('/api/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      })
+    );
+    replaceTemplate(body.template);
+    return body.template;
+  }, [replaceTemplate]);
+
+  const saveTemplate = useCallback(async (templateId: string, input: { source: string; changeSummary?: string }) => {
+    const body = await parseResponse<{ template: NoteTemplate }>(
+      await fetch(templateUrl(templateId), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      })
+    );
+    replaceTemplate(body.template);
+    return body.template;
+  }, [replaceTemplate]);
+
+  const setTemplateActive = useCallback(async (templateId: string, isActive: boolean) => {
+    const body = await parseResponse<{ template: NoteTemplate }>(
+      await fetch(templateUrl(templateId), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive }),
+      })
+    );
+    replaceTemplate(body.template);
+    return body.template;
+  }, [replaceTemplate]);
+
+  const getVersions = useCallback(async (templateId: string) => {
+    const body = await parseResponse<{ versions: NoteTemplateVersion[] }>(
+      await fetch(templateUrl(templateId), { cache: 'no-store' })
+    );
+    return body.versions;
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return {
+    templates,
+    loading,
+    error,
+    refresh,
+    createTemplate,
+    saveTemplate,
+    setTemplateActive,
+    getVersions,
+  };
+}
@@ -1,14 +1,15 @@
 /**
  * Custom hook for managing patient data in Phase 2A
- * 
+ *
  * This hook provides patient management functionality for standalone mode,
- * including CRUD operations, search, and patient context management.
+ * including CRUD operations, search, and patient context management. Data is
+ * loaded through the patients tRPC router, which resolves the tenant and its
+ * DataStore on the server.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import type { PatientSummary, PatientContext, EHRProvider } from '@/types/clinical';
-import { getCurrentUserEHRService } from '@/services';
-import type { StandaloneClinicService } from '@/services/StandaloneClinicService';
+import { useState, useCallback } from 'react';
+import type { PatientSummary, PatientContext } from '@/types/clinical';
+import { api, type RouterInputs } from '@/trpc/react';
 
 interface UsePatientOptions {
   patientId?: string;
@@ -37,37 +38,12 @@ interface UsePatientSearchResult {
   clear: () => void;
 }
 
-interface CreatePatientData {
-  firstName: string;
-  lastName: string;
-  dateOfBirth?: Date;
-  gender?: 'M' | 'F' | 'Other' | 'Unknown';
-  phone?: string;
-  email?: string;
-  address?: {
-    street?: string;
-    city?: string;
-    state?: string;
-    postalCode?: string;
-    country?: string;
-  };
-}
+type CreatePatientData = RouterInputs['patients']['create'];
 
-interface UpdatePatientData {
-  firstName?: string;
-  lastName?: string;
-  dateOfBirth?: Date;
-  gender?: 'M' | 'F' | 'Other' | 'Unknown';
-  phone?: string;
-  email?: string;
-  address?: {
-    street?: string;
-    city?: string;
-    state?: string;
-    postalCode?: string;
-    country?: string;
-  };
-}
+type UpdatePatientData = RouterInputs['patients']['update']['updates'];
+
+// How often stale patient context is fetched again while the server reads it from the EHR
+const STALE_CONTEXT_REFETCH_MS = 5000;
 
 // ============================================================================
 // PATIENT DETAILS HOOK
@@ -78,55 +54,27 @@ interface UpdatePatientData {
  */
 export function usePatient(options: UsePatientOptions = {}): UsePatientResult {
   const { patientId, enabled = true } = options;
+  const queryOptions = { enabled: enabled && !!patientId };
 
-  const [patient, setPatient] = useState<PatientSummary | null>(null);
-  const [context, setContext] = useState<PatientContext | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchPatient = useCallback(async () => {
-    if (!enabled || !patientId) {
-      setLoading(false);
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setError(null);
-
-      const ehrService = await getCurrentUserEHRService();
+  // Fetch patient summary and context in parallel
+  const patientQuery = api.patients.get.useQuery({ patientId: patientId ?? '' }, queryOptions);
+  const contextQuery = api.patients.context.useQuery({ patientId: patientId ?? '' }, {
+    ...queryOptions,
+    refetchInterval: (query) => (query.state.data?.summary.isStale ? STALE_CONTEXT_REFETCH_MS : false),
+  });
 
-      // Fetch patient summary and context in parallel
-      const [patientData, contextData] = await Promise.all([
-        ehrService.getPatientSummary(patientId),
-        ehrService.getPatientContext(patientId),
-      ]);
-
-      setPatient(patientData);
-      setContext(contextData);
-
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`👤 Fetched patient: ${patientData.firstName} ${patientData.lastName}`);
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch patient';
-      setError(errorMessage);
-      console.error('Error fetching patient:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [patientId, enabled]);
-
-  useEffect(() => {
-    void fetchPatient();
-  }, [fetchPatient]);
+  const { refetch: refetchPatient } = patientQuery;
+  const { refetch: refetchContext } = contextQuery;
+  const refetch = useCallback(async () => {
+    await Promise.all([refetchPatient(), refetchContext()]);
+  }, [refetchPatient, refetchContext]);
 
   return {
-    patient,
-    context,
-    loading,
-    error,
-    refetch: fetchPatient,
+    patient: patientQuery.data ?? null,
+    context: contextQuery.data ?? null,
+    loading: patientQuery.isLoading || contextQuery.isLoading,
+    error: (patientQuery.error ?? contextQuery.error)?.message ?? null,
+    refetch,
   };
 }
 
@@ -139,61 +87,31 @@ export function usePatient(options: UsePatientOptions = {}): UsePatientResult {
  */
 export function usePatientSearch(options: UsePatientSearchOptions = {}): UsePatientSearchResult {
   const { query: initialQuery = '', limit = 20, enabled = true } = options;
-
-  const [patients, setPatients] = useState<PatientSummary[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const search = useCallback(async (query: string) => {
-    if (!enabled || !query.trim()) {
-      setPatients([]);
-      return;
+  const [query, setQuery] = useState(initialQuery.trim());
+  const utils = api.useUtils();
+
+  const searchQuery = api.patients.search.useQuery(
+    { query, limit },
+    { enabled: enabled && query !== '' }
+  );
+
+  const search = useCallback(async (nextQuery: string) => {
+    const trimmed = nextQuery.trim();
+    setQuery(trimmed);
+    if (enabled && trimmed) {
+      // Resolve once the results are in, as callers awaiting the search expect
+      await utils.patients.search.fetch({ query: trimmed, limit });
     }
-
-    try {
-      setLoading(true);
-      setError(null);
-
-      const ehrService = await getCurrentUserEHRService();
-      
-      // Check if this is a standalone service with search capability
-      if ('searchPatients' in ehrService) {
-        const results = await (ehrService as StandaloneClinicService).searchPatients(query, limit);
-        setPatients(results);
-
-        if (process.env.NODE_ENV === 'development') {
-          console.log(`🔍 Found ${results.length} patients for query: "${query}"`);
-        }
-      } else {
-        // Fallback for EHR services that don't support search
-        console.warn('Patient search not supported by current EHR service');
-        setPatients([]);
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to search patients';
-      setError(errorMessage);
-      console.error('Error searching patients:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [enabled, limit]);
+  }, [enabled, limit, utils]);
 
   const clear = useCallback(() => {
-    setPatients([]);
-    setError(null);
+    setQuery('');
   }, []);
 
-  // Initial search if query provided
-  useEffect(() => {
-    if (initialQuery) {
-      void search(initialQuery);
-    }
-  }, [initialQuery, search]);
-
   return {
-    patients,
-    loading,
-    error,
+    patients: query ? (searchQuery.data ?? []) : [],
+    loading: searchQuery.isFetching,
+    error: searchQuery.error?.message ?? null,
     search,
     clear,
   };
@@ -207,42 +125,31 @@ export function usePatientSearch(options: UsePatientSearchOptions = {}): UsePati
  * Hook for creating patients (standalone mode only)
  */
 export function useCreatePatient() {
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const utils = api.useUtils();
+  const createMutation = api.patients.create.useMutation({
+    onSuccess: () => utils.patients.recent.invalidate(),
+  });
+  const { mutateAsync } = createMutation;
 
   const createPatient = useCallback(async (patientData: CreatePatientData): Promise<PatientSummary | null> => {
     try {
-      setLoading(true);
-      setError(null);
-
-      const ehrService = await getCurrentUserEHRService();
-      
-      // Check if this is a standalone service with create capability
-      if ('createPatient' in ehrService) {
-        const newPatient = await (ehrService as StandaloneClinicService).createPatient(patientData);
-
-        if (process.env.NODE_ENV === 'development') {
-          console.log(`✅ Created patient: ${newPatient.firstName} ${newPatient.lastName}`);
-        }
-
-        return newPatient;
-      } else {
-        throw new Error('Patient creation not supported in EHR-integrated mode');
+      const newPatient = await mutateAsync(patientData);
+
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`✅ Created patient: ${newPatient.firstName} ${newPatient.lastName}`);
       }
+
+      return newPatient;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to create patient';
-      setError(errorMessage);
       console.error('Error creating patient:', err);
       return null;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [mutateAsync]);
 
   return {
     createPatient,
-    loading,
-    error,
+    loading: createMutation.isPending,
+    error: createMutation.error?.message ?? null,
   };
 }
 
@@ -250,45 +157,38 @@ export function useCreatePatient() {
  * Hook for updating patients (standalone mode only)
  */
 export function useUpdatePatient() {
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const utils = api.useUtils();
+  const updateMutation = api.patients.update.useMutation({
+    onSuccess: updatedPatient => {
+      utils.patients.get.setData({ patientId: updatedPatient.id }, updatedPatient);
+      void utils.patients.context.invalidate({ patientId: updatedPatient.id });
+      void utils.patients.recent.invalidate();
+    },
+  });
+  const { mutateAsync } = updateMutation;
 
   const updatePatient = useCallback(async (
-    patientId: string, 
+    patientId: string,
     updates: UpdatePatientData
   ): Promise<PatientSummary | null> => {
     try {
-      setLoading(true);
-      setError(null);
-
-      const ehrService = await getCurrentUserEHRService();
-      
-      // Check if this is a standalone service with update capability
-      if ('updatePatient' in ehrService) {
-        const updatedPatient = await (ehrService as StandaloneClinicService).updatePatient(patientId, updates);
-
-        if (process.env.NODE_ENV === 'development') {
-          console.log(`📝 Updated patient: ${updatedPatient.firstName} ${updatedPatient.lastName}`);
-        }
-
-        return updatedPatient;
-      } else {
-        throw new Error('Patient updates not supported in EHR-integrated mode');
+      const updatedPatient = await mutateAsync({ patientId, updates });
+
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`📝 Updated patient: ${updatedPatient.firstName} ${updatedPatient.lastName}`);
       }
+
+      return updatedPatient;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update patient';
-      setError(errorMessage);
       console.error('Error updating patient:', err);
       return null;
-    } finally {
-      setLoading(false);
     }
-  }, []);
+  }, [mutateAsync]);
 
   return {
     updatePatient,
-    loading,
-    error,
+    loading: updateMutation.isPending,
+    error: updateMutation.error?.message ?? null,
   };
 }
 
@@ -300,39 +200,17 @@ export function useUpdatePatient() {
  * Hook for getting a list of recent patients
  */
 export function useRecentPatients(limit = 10) {
-  const [patients, setPatients] = useState<PatientSummary[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const query = api.patients.recent.useQuery({ limit });
 
-  const fetchRecentPatients = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const ehrService: EHRProvider = await getCurrentUserEHRService();
-      
-      // Use dedicated getRecentPatients method for accurate retrieval
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-argument
-      const results = await ehrService.getRecentPatients(limit);
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-      setPatients(results);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch recent patients';
-      setError(errorMessage);
-      console.error('Error fetching recent patients:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, [limit]);
-
-  useEffect(() => {
-    void fetchRecentPatients();
-  }, [fetchRecentPatients]);
+  const { refetch: refetchQuery } = query;
+  const refetch = useCallback(async () => {
+    await refetchQuery();
+  }, [refetchQuery]);
 
   return {
-    patients,
-    loading,
-    error,
-    refetch: fetchRecentPatients,
+    patients: query.data ?? [],
+    loading: query.isLoading,
+    error: query.error?.message ?? null,
+    refetch,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,104 @@
+/**
+ * Custom hook for loading a consultation transcript and relabelling speakers
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { TranscriptSegment } from '@/types/clinical';
+
+interface TranscriptResponse {
+  segments: TranscriptSegment[];
+  transcriptionText: string | null;
+  audioFileUrl: string | null;
+}
+
+interface UseTranscriptResult {
+  segments: TranscriptSegment[];
+  transcriptionText: string | null;
+  audioFileUrl: string | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  relabelSpeaker: (input: { speaker: string; fromSpeaker?: string; segmentIds?: string[] }) => Promise<void>;
+}
+
+const transcriptUrl = (consultationId: string) =>
+  `/api/consultations/${encodeURIComponent(consultationId)}/transcript`;
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(body.error ?? `Transcript request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+export function useTranscript(consultationId?: string): UseTranscriptResult {
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [transcriptionText, setTranscriptionText] = useState<string | null>(null);
+  const [audioFileUrl, setAudioFileUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!consultationId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const body = await parseResponse<TranscriptResponse>(
+        await fetch(transcriptUrl(consultationId), { cache: 'no-store' })
+      );
+      setSegments(body.segments);
+      setTranscriptionText(body.transcriptionText);
+      setAudioFileUrl(body.audioFileUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transcript');
+      console.error('Error loading transcript:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [consultationId]);
+
+  const relabelSpeaker = useCallback(async (input: { speaker: string; fromSpeaker?: string; segmentIds?: string[] }) => {
+    if (!consultationId) return;
+
+    const previous = segments;
+    // Apply optimistically so the label changes as soon as the clinician confirms it
+    setSegments(current =>
+      current.map(segment =>
+        (input.fromSpeaker && segment.speaker === input.fromSpeaker) || input.segmentIds?.includes(segment.id)
+          ? { ...segment, speaker: input.speaker }
+          : segment
+      )
+    );
+
+    try {
+      const body = await parseResponse<{ segments: TranscriptSegment[] }>(
+        await fetch(transcriptUrl(consultationId), {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        })
+      );
+      setSegments(body.segments);
+    } catch (err) {
+      setSegments(previous);
+      setError(err instanceof Error ? err.message : 'Failed to relabel speaker');
+      throw err;
+    }
+  }, [consultationId, segments]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return {
+    segments,
+    transcriptionText,
+    audioFileUrl,
+    loading,
+    error,
+    refresh,
+    relabelSpeaker,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Custom hook for following a consultation's background transcription
+ *
+ * Polls the transcription endpoint while transcription or the note generation
+ * that follows it is running, and exposes progress in the shape of ConsultationState.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ConsultationState } from '@/types/clinical';
+
+const POLL_INTERVAL_MS = 2000;
+
+interface TranscriptionStatusResponse {
+  transcription: {
+    status: ConsultationState['status'];
+    transcriptionProgress?: number;
+    transcriptionText?: string;
+    error?: string;
+    noteGenerationProgress?: number;
+    noteGenerationError?: string;
+  };
+}
+
+interface UseTranscriptionStatusResult
+  extends Partial<
+    Pick<ConsultationState, 'status' | 'transcriptionProgress' | 'transcriptionText' | 'noteGenerationProgress' | 'error'>
+  > {
+  noteGenerationError?: string;
+  loading: boolean;
+  retrying: boolean;
+  refresh: () => Promise<void>;
+  retry: () => Promise<void>;
+}
+
+async function requestTranscription(consultationId: string, method: 'GET' | 'POST') {
+  const response = await fetch(`/api/consultations/${encodeURIComponent(consultationId)}/transcription`, {
+    method,
+    cache: 'no-store',
+  });
+  const body = (await response.json().catch(() => ({}))) as Partial<TranscriptionStatusResponse> & { error?: string };
+  if (!response.ok || !body.transcription) {
+    throw new Error(body.error ?? `Transcription request failed with status ${response.status}`);
+  }
+  return body.transcription;
+}
+
+export function useTranscriptionStatus(consultationId?: string): UseTranscriptionStatusResult {
+  const [transcription, setTranscription] = useState<TranscriptionStatusResponse['transcription'] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+  const [requestError, setRequestError] = useState<string | undefined>();
+
+  const refresh = useCallback(async () => {
+    if (!consultationId) return;
+
+    try {
+      setLoading(true);
+      setTranscription(await requestTranscription(consultationId, 'GET'));
+      setRequestError(undefined);
+    } catch (err) {
+      setRequestError(err instanceof Error ? err.message : 'Failed to load transcription status');
+    } finally {
+      setLoading(false);
+    }
+  }, [consultationId]);
+
+  const retry = useCallback(async () => {
+    if (!consultationId) return;
+
+    try {
+      setRetrying(true);
+      setTranscription(await requestTranscription(consultationId, 'POST'));
+      setRequestError(undefined);
+    } catch (err) {
+      setRequestError(err instanceof Error ? err.message : 'Failed to retry transcription');
+    } finally {
+      setRetrying(false);
+    }
+  }, [consultationId]);
+
+  useEffect(() => {
+    setTranscription(null);
+    void refresh();
+  }, [refresh]);
+
+  // Keep polling while the worker is transcribing or drafting the note, including
+  // while the queue waits to try a failed attempt again
+  const isTranscribing = transcription?.status === 'processing';
+  const isGeneratingNote =
+    transcription?.noteGenerationProgress !== undefined &&
+    transcription.noteGenerationProgress < 100 &&
+    !transcription.noteGenerationError;
+  const isRunning = isTranscribing || isGeneratingNote;
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = setInterval(() => void refresh(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isRunning, refresh]);
+
+  return {
+    status: transcription?.status,
+    transcriptionProgress: transcription?.transcriptionProgress,
+    transcriptionText: transcription?.transcriptionText,
+    noteGenerationProgress: transcription?.noteGenerationProgress,
+    noteGenerationError: transcription?.noteGenerationError,
+    error: transcription?.error ?? requestError,
+    loading,
+    retrying,
+    refresh,
+    retry,
+  };
+}
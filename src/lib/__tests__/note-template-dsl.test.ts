@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { BUILT_IN_NOTE_TEMPLATES } from '../note-templates';
+import { formatNoteTemplateDsl, parseNoteTemplateDsl } from '../note-template-dsl';
+
+describe('note template DSL', () => {
+  it('should parse sections, fields and patient context', () => {
+    const result = parseNoteTemplateDsl(
+      [
+        'name: Skin Check',
+        'type: assessment',
+        '// Used for the annual skin clinic',
+        '',
+        '## Lesions Examined (required)',
+        'Each lesion examined, with its site,',
+        'size and appearance.',
+        '- Dermoscopy findings (required)',
+        '- Photographs taken',
+        '@include medications, allergies',
+        '',
+        '## Plan',
+        'Excisions, biopsies and review interval.',
+      ].join('\n')
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.template).toEqual({
+      name: 'Skin Check',
+      description: undefined,
+      noteType: 'assessment',
+      sections: [
+        {
+          key: 'lesions-examined',
+          heading: 'Lesions Examined',
+          instructions: 'Each lesion examined, with its site, size and appearance.',
+          required: true,
+          fields: [
+            { label: 'Dermoscopy findings', required: true },
+            { label: 'Photographs taken', required: false },
+          ],
+          includeContext: ['medications', 'allergies'],
+        },
+        {
+          key: 'plan',
+          heading: 'Plan',
+          instructions: 'Excisions, biopsies and review interval.',
+          required: false,
+          fields: [],
+        },
+      ],
+    });
+  });
+
+  it('should report every error with its line number', () => {
+    const result = parseNoteTemplateDsl(
+      ['name: Broken', 'type: letter', '', '## Plan', '@include pathology', '', '## plan', 'Duplicate.'].join('\n')
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors.map(error => error.line)).toEqual([1, 4, 5, 7]);
+    expect(result.errors[0]?.message).toContain('Unknown note type "letter"');
+    expect(result.errors[1]?.message).toBe('Section "Plan" needs instructions');
+    expect(result.errors[2]?.message).toContain('not "pathology"');
+    expect(result.errors[3]?.message).toBe('Duplicate section "plan"');
+  });
+
+  it('should round-trip every built-in template', () => {
+    for (const template of BUILT_IN_NOTE_TEMPLATES) {
+      const result = parseNoteTemplateDsl(formatNoteTemplateDsl(template));
+      // The key isn't part of the DSL
+      expect({ ...result.template, key: template.key }).toEqual(template);
+    }
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines } from '../text-diff';
+
+describe('diffLines', () => {
+  it('should mark only the lines that changed', () => {
+    const before = ['## Plan', '', 'Rest and fluids.', 'Review in one week.'].join('\n');
+    const after = ['## Plan', '', 'Rest and fluids.', 'Amoxicillin 500mg three times daily.', 'Review in two days.'].join('\n');
+
+    expect(diffLines(before, after)).toEqual([
+      { kind: 'unchanged', text: '## Plan' },
+      { kind: 'unchanged', text: '' },
+      { kind: 'unchanged', text: 'Rest and fluids.' },
+      { kind: 'removed', text: 'Review in one week.' },
+      { kind: 'added', text: 'Amoxicillin 500mg three times daily.' },
+      { kind: 'added', text: 'Review in two days.' },
+    ]);
+  });
+
+  it('should treat identical texts as unchanged', () => {
+    expect(diffLines('a\nb', 'a\nb').every(line => line.kind === 'unchanged')).toBe(true);
+  });
+});
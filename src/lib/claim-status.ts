@@ -0,0 +1,32 @@
+/**
+ * Medicare claim workflow, shared by the DataStore that enforces it and the
+ * billing page that offers only the actions it allows.
+ *
+ *   pending → exported → submitted → paid
+ *   exported, submitted → rejected → submitted ...
+ *
+ * Pending claims become exported when their batch's claim file is first
+ * exported; everything after that is recorded by hand from what Medicare says.
+ */
+
+export type ClaimStatus = 'pending' | 'exported' | 'submitted' | 'paid' | 'rejected';
+
+export const CLAIM_STATUS_TRANSITIONS: Readonly<Record<ClaimStatus, ReadonlyArray<ClaimStatus>>> = {
+  pending: [], // Exported with the batch
+  exported: ['submitted', 'paid', 'rejected'],
+  submitted: ['paid', 'rejected'],
+  paid: [],
+  rejected: ['submitted'], // Resubmitted after fixing what was wrong
+};
+
+export const CLAIM_STATUS_LABELS: Readonly<Record<ClaimStatus, string>> = {
+  pending: 'Pending',
+  exported: 'Exported',
+  submitted: 'Submitted',
+  paid: 'Paid',
+  rejected: 'Rejected',
+};
+
+export function canTransitionClaim(from: ClaimStatus, to: ClaimStatus): boolean {
+  return CLAIM_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,42 @@
+/**
+ * Medicare card and provider number checks, shared by the forms that collect
+ * them and the claim assembly that needs them to be right before a claim file
+ * goes to the practice's billing software.
+ */
+
+const MEDICARE_CHECK_WEIGHTS = [1, 3, 7, 9, 1, 3, 7, 9];
+
+/**
+ * Strip the spaces a number is usually written with, as in 2123 45670 1
+ */
+export function normaliseMedicareNumber(value: string): string {
+  return value.replace(/\s+/g, '');
+}
+
+/**
+ * A Medicare card number is 10 digits: a first digit of 2-6, a check digit
+ * over the first eight in ninth place, then the card issue number
+ */
+export function isValidMedicareNumber(value: string): boolean {
+  const digits = normaliseMedicareNumber(value);
+  if (!/^[2-6]\d{9}$/.test(digits)) {
+    return false;
+  }
+
+  const checksum = MEDICARE_CHECK_WEIGHTS.reduce((sum, weight, index) => sum + weight * Number(digits[index]), 0);
+  return checksum % 10 === Number(digits[8]);
+}
+
+/**
+ * The individual reference number is the patient's position on the card
+ */
+export function isValidMedicareIrn(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= 9;
+}
+
+/**
+ * A provider number is a 5-6 digit stem, a practice location character and a check character, as in 2426621B
+ */
+export function isValidProviderNumber(value: string): boolean {
+  return /^\d{5,6}[0-9A-Z][A-Z]$/.test(value.trim().toUpperCase());
+}
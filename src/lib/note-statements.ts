@@ -0,0 +1,56 @@
+/**
+ * Splits generated note content into statements - the sentences and bullets
+ * that transcript citations are attached to.
+ *
+ * Shared by the server, which cites each statement when a note is drafted,
+ * and the review UI, which looks the citations up again as it renders the note.
+ */
+
+const BULLET_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+// Full stops after these don't end a sentence
+const ABBREVIATIONS = /\b(?:dr|mr|mrs|ms|prof|approx|e\.g|i\.e|etc|vs|no)\.$/i;
+
+export interface NoteLine {
+  bullet: boolean;
+  statements: string[];
+}
+
+/**
+ * Split one line of note content into its statements. A bullet is a single
+ * statement unless it runs to several sentences.
+ */
+export function splitNoteLine(line: string): NoteLine {
+  const bullet = BULLET_PATTERN.test(line);
+  const text = line.replace(BULLET_PATTERN, '').trim();
+  if (!text) return { bullet, statements: [] };
+
+  const statements: string[] = [];
+  for (const piece of text.split(/(?<=[.!?])\s+(?=["'(]?[A-Z0-9])/)) {
+    const previous = statements[statements.length - 1];
+    if (previous !== undefined && ABBREVIATIONS.test(previous)) {
+      statements[statements.length - 1] = `${previous} ${piece}`;
+    } else {
+      statements.push(piece);
+    }
+  }
+  return { bullet, statements };
+}
+
+/**
+ * Statements of a section's content, in order
+ */
+export function getNoteStatements(content: string): string[] {
+  return content
+    .split('\n')
+    .filter(line => !line.startsWith('## '))
+    .flatMap(line => splitNoteLine(line).statements);
+}
+
+/**
+ * Compare statements ignoring whitespace and case, so a citation still
+ * matches after trivial edits to the note
+ */
+export function normalizeStatement(statement: string): string {
+  return statement.replace(/\s+/g, ' ').trim().toLowerCase();
+}
@@ -0,0 +1,40 @@
+/**
+ * Clinical note workflow, shared by the DataStore that enforces it and the
+ * review UI that offers only the actions it allows.
+ *
+ *   draft ⇄ pending-review → final → signed → amended → signed ...
+ *
+ * Signed and amended notes are locked: their content changes only through an
+ * amendment, which records a reason and author against the signed version.
+ */
+
+import type { ClinicalNote } from '@/types/clinical';
+
+export type NoteStatus = ClinicalNote['status'];
+
+export const NOTE_STATUS_TRANSITIONS: Readonly<Record<NoteStatus, ReadonlyArray<NoteStatus>>> = {
+  draft: ['pending-review', 'final', 'signed'],
+  'pending-review': ['draft', 'final', 'signed'],
+  final: ['draft', 'signed'],
+  signed: [], // Amend instead
+  amended: ['signed'],
+};
+
+export const NOTE_STATUS_LABELS: Readonly<Record<NoteStatus, string>> = {
+  draft: 'Draft',
+  'pending-review': 'Pending review',
+  final: 'Final',
+  signed: 'Signed',
+  amended: 'Amended',
+};
+
+export function canTransitionNote(from: NoteStatus, to: NoteStatus): boolean {
+  return NOTE_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Locked notes can't be edited in place
+ */
+export function isNoteLocked(status: NoteStatus): boolean {
+  return status === 'signed' || status === 'amended';
+}
@@ -0,0 +1,187 @@
+/**
+ * Note template DSL
+ *
+ * Templates are edited as plain text so clinicians can customise them without
+ * a form for every option:
+ *
+ *   name: SOAP Note
+ *   type: soap
+ *   description: Subjective, objective, assessment and plan
+ *
+ *   ## Subjective (required)
+ *   Presenting complaint and history as reported by the patient.
+ *   - Presenting complaint (required)
+ *   - Duration of symptoms
+ *   @include medications, allergies
+ *
+ * Header lines come before the first section. Each `##` heading starts a
+ * section; plain lines are its instructions, `-` lines are fields and
+ * `@include` adds patient context. Lines starting with `//` are comments.
+ */
+
+import type { NoteTemplateContext, NoteTemplateDefinition, NoteTemplateSection } from '@/types/clinical';
+import { NOTE_TEMPLATE_CONTEXTS, NOTE_TYPES } from './note-templates';
+
+export type ParsedNoteTemplate = Omit<NoteTemplateDefinition, 'key'>;
+
+export interface NoteTemplateDslError {
+  line: number; // 1-based
+  message: string;
+}
+
+export type NoteTemplateDslResult =
+  | { success: true; template: ParsedNoteTemplate; errors: [] }
+  | { success: false; template?: undefined; errors: NoteTemplateDslError[] };
+
+export const MAX_TEMPLATE_SECTIONS = 20;
+export const MAX_TEMPLATE_SOURCE_LENGTH = 20000;
+
+const REQUIRED_SUFFIX = /\s*\(required\)\s*$/i;
+const HEADER_KEYS = ['name', 'type', 'description'] as const;
+
+/**
+ * Turn a heading or template name into a stable key, e.g. "Patient Goals" -> "patient-goals"
+ */
+export function toTemplateKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Parse template source, collecting every error with its line number
+ */
+export function parseNoteTemplateDsl(source: string): NoteTemplateDslResult {
+  const errors: NoteTemplateDslError[] = [];
+  const header: Partial<Record<(typeof HEADER_KEYS)[number], string>> = {};
+  const sections: Array<NoteTemplateSection & { line: number; instructionLines: string[] }> = [];
+
+  if (source.length > MAX_TEMPLATE_SOURCE_LENGTH) {
+    return { success: false, errors: [{ line: 1, message: `Template is longer than ${MAX_TEMPLATE_SOURCE_LENGTH} characters` }] };
+  }
+
+  for (const [index, rawLine] of source.split(/\r?\n/).entries()) {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+    if (!line || line.startsWith('//')) continue;
+
+    const section = sections.at(-1);
+
+    if (line.startsWith('## ')) {
+      const required = REQUIRED_SUFFIX.test(line);
+      const heading = line.slice(3).replace(REQUIRED_SUFFIX, '').trim();
+      const key = toTemplateKey(heading);
+
+      if (!key) {
+        errors.push({ line: lineNumber, message: 'Section heading is empty' });
+      } else if (sections.some(existing => existing.key === key)) {
+        errors.push({ line: lineNumber, message: `Duplicate section "${heading}"` });
+      }
+      sections.push({ key, heading, instructions: '', required, fields: [], line: lineNumber, instructionLines: [] });
+      continue;
+    }
+
+    if (!section) {
+      const match = /^([a-z]+)\s*:\s*(.*)$/i.exec(line);
+      const headerKey = match?.[1]?.toLowerCase() as (typeof HEADER_KEYS)[number] | undefined;
+      if (!match || !headerKey || !HEADER_KEYS.includes(headerKey)) {
+        errors.push({ line: lineNumber, message: `Expected "name:", "type:" or "description:" before the first section` });
+      } else if (header[headerKey] !== undefined) {
+        errors.push({ line: lineNumber, message: `"${headerKey}" is set more than once` });
+      } else {
+        header[headerKey] = match[2]!.trim();
+      }
+      continue;
+    }
+
+    if (line.startsWith('- ')) {
+      const label = line.slice(2).replace(REQUIRED_SUFFIX, '').trim();
+      if (!label) {
+        errors.push({ line: lineNumber, message: 'Field label is empty' });
+      } else {
+        section.fields.push({ label, required: REQUIRED_SUFFIX.test(line) });
+      }
+      continue;
+    }
+
+    if (line.startsWith('@')) {
+      const [directive, ...rest] = line.split(/\s+/);
+      if (directive !== '@include') {
+        errors.push({ line: lineNumber, message: `Unknown directive "${directive}"` });
+        continue;
+      }
+
+      const contexts = rest.join(' ').split(',').map(value => value.trim().toLowerCase()).filter(Boolean);
+      const unknown = contexts.filter(context => !NOTE_TEMPLATE_CONTEXTS.includes(context as NoteTemplateContext));
+      if (contexts.length === 0 || unknown.length > 0) {
+        errors.push({
+          line: lineNumber,
+          message: `@include expects ${NOTE_TEMPLATE_CONTEXTS.join(' or ')}${unknown.length > 0 ? `, not "${unknown.join(', ')}"` : ''}`,
+        });
+        continue;
+      }
+      section.includeContext = [...new Set([...(section.includeContext ?? []), ...(contexts as NoteTemplateContext[])])];
+      continue;
+    }
+
+    section.instructionLines.push(line);
+  }
+
+  if (!header.name) {
+    errors.push({ line: 1, message: 'Template needs a "name:" line' });
+  }
+  if (!header.type) {
+    errors.push({ line: 1, message: 'Template needs a "type:" line' });
+  } else if (!NOTE_TYPES.includes(header.type.toLowerCase() as ParsedNoteTemplate['noteType'])) {
+    errors.push({ line: 1, message: `Unknown note type "${header.type}", expected one of ${NOTE_TYPES.join(', ')}` });
+  }
+  if (sections.length === 0) {
+    errors.push({ line: 1, message: 'Template needs at least one "## Section"' });
+  } else if (sections.length > MAX_TEMPLATE_SECTIONS) {
+    errors.push({ line: sections[MAX_TEMPLATE_SECTIONS]!.line, message: `Templates can have at most ${MAX_TEMPLATE_SECTIONS} sections` });
+  }
+  for (const section of sections) {
+    if (section.instructionLines.length === 0) {
+      errors.push({ line: section.line, message: `Section "${section.heading}" needs instructions` });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors: errors.sort((a, b) => a.line - b.line) };
+  }
+
+  return {
+    success: true,
+    errors: [],
+    template: {
+      name: header.name!,
+      description: header.description === '' ? undefined : header.description,
+      noteType: header.type!.toLowerCase() as ParsedNoteTemplate['noteType'],
+      sections: sections.map(({ line: _line, instructionLines, ...section }) => ({
+        ...section,
+        instructions: instructionLines.join(' '),
+      })),
+    },
+  };
+}
+
+/**
+ * Render a template back to DSL source; parsing the result gives the same template
+ */
+export function formatNoteTemplateDsl(template: ParsedNoteTemplate): string {
+  const lines = [`name: ${template.name}`, `type: ${template.noteType}`];
+  if (template.description) lines.push(`description: ${template.description}`);
+
+  for (const section of template.sections) {
+    lines.push('', `## ${section.heading}${section.required ? ' (required)' : ''}`, section.instructions);
+    for (const field of section.fields) {
+      lines.push(`- ${field.label}${field.required ? ' (required)' : ''}`);
+    }
+    if (section.includeContext?.length) {
+      lines.push(`@include ${section.includeContext.join(', ')}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
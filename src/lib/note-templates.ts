@@ -0,0 +1,183 @@
+/**
+ * Note template definitions used for AI note generation
+ *
+ * A template lists the sections the generated note must contain, in order,
+ * with instructions on what belongs in each one. Tenants customise templates
+ * through the template DSL (see note-template-dsl.ts); the built-ins below are
+ * seeded into every tenant's library.
+ */
+
+import type { NoteTemplateContext, NoteTemplateDefinition } from '@/types/clinical';
+
+export const NOTE_TEMPLATE_CONTEXTS: ReadonlyArray<NoteTemplateContext> = ['medications', 'allergies'];
+
+export const NOTE_TYPES = ['progress', 'soap', 'assessment', 'plan', 'referral', 'other'] as const;
+
+export const BUILT_IN_NOTE_TEMPLATES: ReadonlyArray<NoteTemplateDefinition> = [
+  {
+    key: 'soap',
+    name: 'SOAP Note',
+    description: 'Subjective, objective, assessment and plan',
+    noteType: 'soap',
+    sections: [
+      {
+        key: 'subjective',
+        heading: 'Subjective',
+        instructions: 'Presenting complaint, history and symptoms as reported by the patient.',
+        required: true,
+        fields: [
+          { label: 'Presenting complaint', required: true },
+          { label: 'Duration of symptoms', required: false },
+        ],
+        includeContext: ['medications', 'allergies'],
+      },
+      {
+        key: 'objective',
+        heading: 'Objective',
+        instructions: 'Examination findings and observations made by the clinician.',
+        required: false,
+        fields: [],
+      },
+      {
+        key: 'assessment',
+        heading: 'Assessment',
+        instructions: 'Working diagnosis or clinical impression.',
+        required: true,
+        fields: [],
+      },
+      {
+        key: 'plan',
+        heading: 'Plan',
+        instructions: 'Treatment, prescriptions, referrals, advice and follow-up.',
+        required: true,
+        fields: [{ label: 'Follow-up', required: false }],
+      },
+    ],
+  },
+  {
+    key: 'progress',
+    name: 'Progress Note',
+    description: 'Brief narrative for a general consultation',
+    noteType: 'progress',
+    sections: [
+      {
+        key: 'history',
+        heading: 'History',
+        instructions: 'Reason for the visit and relevant history discussed.',
+        required: true,
+        fields: [{ label: 'Reason for visit', required: true }],
+        includeContext: ['medications', 'allergies'],
+      },
+      {
+        key: 'examination',
+        heading: 'Examination',
+        instructions: 'Examination findings, if an examination was performed.',
+        required: false,
+        fields: [],
+      },
+      {
+        key: 'management',
+        heading: 'Management',
+        instructions: 'Diagnosis, treatment given and follow-up arranged.',
+        required: true,
+        fields: [],
+      },
+    ],
+  },
+  {
+    key: 'referral',
+    name: 'Referral Letter',
+    description: 'Letter to a specialist or allied health provider',
+    noteType: 'referral',
+    sections: [
+      {
+        key: 'reason-for-referral',
+        heading: 'Reason for Referral',
+        instructions: 'The question for the specialist and what the patient is being referred for.',
+        required: true,
+        fields: [
+          { label: 'Referred to', required: false },
+          { label: 'Urgency', required: false },
+        ],
+      },
+      {
+        key: 'history',
+        heading: 'History',
+        instructions: 'Relevant history of the presenting problem and past medical history.',
+        required: true,
+        fields: [],
+        includeContext: ['medications', 'allergies'],
+      },
+      {
+        key: 'examination-and-investigations',
+        heading: 'Examination and Investigations',
+        instructions: 'Examination findings and investigation results discussed in the consultation.',
+        required: false,
+        fields: [],
+      },
+      {
+        key: 'management-to-date',
+        heading: 'Management to Date',
+        instructions: 'Treatment tried so far and the response to it.',
+        required: false,
+        fields: [],
+      },
+    ],
+  },
+  {
+    key: 'care-plan',
+    name: 'Care Plan',
+    description: 'GP management plan for a chronic condition',
+    noteType: 'plan',
+    sections: [
+      {
+        key: 'conditions',
+        heading: 'Conditions',
+        instructions: 'Chronic conditions covered by this plan.',
+        required: true,
+        fields: [],
+        includeContext: ['medications', 'allergies'],
+      },
+      {
+        key: 'patient-goals',
+        heading: 'Patient Goals',
+        instructions: 'Goals agreed with the patient, in their words where possible.',
+        required: true,
+        fields: [],
+      },
+      {
+        key: 'treatment-and-actions',
+        heading: 'Treatment and Actions',
+        instructions: 'Treatments, services and self-management actions, with who is responsible for each.',
+        required: true,
+        fields: [],
+      },
+      {
+        key: 'review',
+        heading: 'Review',
+        instructions: 'When and how the plan will be reviewed.',
+        required: true,
+        fields: [{ label: 'Review date', required: true }],
+      },
+    ],
+  },
+];
+
+export const DEFAULT_NOTE_TEMPLATE_KEY = 'soap';
+
+/**
+ * Look up a built-in template, falling back to the default for unknown keys
+ */
+export function getBuiltInNoteTemplate(templateKey?: string | null): NoteTemplateDefinition {
+  return (
+    BUILT_IN_NOTE_TEMPLATES.find(template => template.key === templateKey) ??
+    BUILT_IN_NOTE_TEMPLATES.find(template => template.key === DEFAULT_NOTE_TEMPLATE_KEY)!
+  );
+}
+
+/**
+ * Render generated sections as the Markdown stored in `ClinicalNote.content`
+ */
+export function formatNoteContent(sections: ReadonlyArray<{ heading: string; content: string }>): string {
+  return sections.map(section => `## ${section.heading}\n\n${section.content.trim()}`).join('\n\n');
+}
@@ -0,0 +1,188 @@
+/**
+ * Client-side helpers for the consultation recording API
+ *
+ * Wraps the /api/consultations/[id]/recording endpoints and provides an
+ * upload queue that delivers MediaRecorder chunks in order with retries.
+ */
+
+export interface RecordingSegmentInfo {
+  index: number;
+  mimeType: string;
+  chunkCount: number;
+  lastSequence: number;
+  bytes: number;
+}
+
+export interface RecordingSessionInfo {
+  status: 'recording' | 'paused' | 'complete';
+  startedAt: string;
+  endedAt?: string;
+  pausedMs: number;
+  totalBytes: number;
+  segments: RecordingSegmentInfo[];
+}
+
+export interface FinalizeRecordingResult {
+  recording: RecordingSessionInfo;
+  durationSeconds: number;
+  consultation: {
+    id: string;
+    audioFileUrl?: string;
+    recordingStartTime?: string;
+    recordingEndTime?: string;
+  };
+}
+
+type RecordingAction =
+  | { action: 'start' | 'pause' | 'resume' | 'discard' }
+  | { action: 'finalize'; expectedChunks: Record<number, number> };
+
+const recordingUrl = (consultationId: string) =>
+  `/api/consultations/${encodeURIComponent(consultationId)}/recording`;
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(body.error ?? `Recording request failed with status ${response.status}`);
+  }
+  return body;
+}
+
+export async function fetchRecordingSession(consultationId: string): Promise<RecordingSessionInfo | null> {
+  const response = await fetch(recordingUrl(consultationId), { cache: 'no-store' });
+  const body = await parseResponse<{ recording: RecordingSessionInfo | null }>(response);
+  return body.recording;
+}
+
+export async function sendRecordingAction<T = { recording: RecordingSessionInfo | null }>(
+  consultationId: string,
+  action: RecordingAction
+): Promise<T> {
+  const response = await fetch(recordingUrl(consultationId), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(action),
+  });
+  return parseResponse<T>(response);
+}
+
+// ============================================================================
+// CHUNK UPLOAD QUEUE
+// ============================================================================
+
+interface QueuedChunk {
+  segment: number;
+  sequence: number;
+  blob: Blob;
+}
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 15000;
+
+/**
+ * Uploads chunks one at a time, in the order they were recorded.
+ *
+ * A failed upload is retried with exponential backoff and blocks the chunks
+ * behind it, so the server always receives each segment in sequence. Chunks
+ * stay in memory until delivered, which lets a recording survive a brief
+ * network drop.
+ */
+export class RecordingChunkUploader {
+  private queue: QueuedChunk[] = [];
+  private uploading = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempt = 0;
+  private drainWaiters: Array<() => void> = [];
+
+  constructor(
+    private consultationId: string,
+    private onStateChange?: (state: { pending: number; lastError: string | null }) => void
+  ) {}
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  enqueue(chunk: QueuedChunk): void {
+    this.queue.push(chunk);
+    this.notify(null);
+    void this.process();
+  }
+
+  /**
+   * Resolve once every queued chunk has been delivered
+   */
+  async drain(): Promise<void> {
+    if (this.queue.length === 0 && !this.uploading) return;
+    // Skip any pending backoff so stopping doesn't wait for the timer
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+      void this.process();
+    }
+    await new Promise<void>(resolve => this.drainWaiters.push(resolve));
+  }
+
+  dispose(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.queue = [];
+    this.drainWaiters.forEach(resolve => resolve());
+    this.drainWaiters = [];
+  }
+
+  private async process(): Promise<void> {
+    if (this.uploading || this.retryTimer) return;
+    this.uploading = true;
+
+    while (this.queue.length > 0) {
+      const chunk = this.queue[0]!;
+      try {
+        await this.upload(chunk);
+        this.queue.shift();
+        this.attempt = 0;
+        this.notify(null);
+      } catch (error) {
+        this.attempt++;
+        const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, this.attempt - 1), RETRY_MAX_DELAY_MS);
+        this.notify(error instanceof Error ? error.message : 'Chunk upload failed');
+        this.uploading = false;
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = null;
+          void this.process();
+        }, delay);
+        return;
+      }
+    }
+
+    this.uploading = false;
+    this.drainWaiters.forEach(resolve => resolve());
+    this.drainWaiters = [];
+  }
+
+  private async upload(chunk: QueuedChunk): Promise<void> {
+    const params = new URLSearchParams({
+      segment: String(chunk.segment),
+      sequence: String(chunk.sequence),
+    });
+    const response = await fetch(`${recordingUrl(this.consultationId)}/chunks?${params.toString()}`, {
+      method: 'POST',
+      headers: { 'Content-Type': chunk.blob.type || 'audio/webm' },
+      body: chunk.blob,
+    });
+    await parseResponse(response);
+  }
+
+  private notify(lastError: string | null): void {
+    this.onStateChange?.({ pending: this.queue.length, lastError });
+  }
+}
+
+/**
+ * Pick the best audio container the browser's MediaRecorder supports
+ */
+export function getSupportedRecordingMimeType(): string | undefined {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+
+  const candidates = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type));
+}
@@ -0,0 +1,56 @@
+/**
+ * Line-based text diff for comparing note versions
+ */
+
+export interface DiffLine {
+  kind: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+// Beyond this the O(n·m) table gets too large to build in the browser
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Diff two texts line by line using the longest common subsequence, so
+ * unchanged lines line up and only real edits are marked
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map(text => ({ kind: 'removed' as const, text })),
+      ...b.map(text => ({ kind: 'added' as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'unchanged', text: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      lines.push({ kind: 'removed', text: a[i]! });
+      i++;
+    } else {
+      lines.push({ kind: 'added', text: b[j]! });
+      j++;
+    }
+  }
+  lines.push(...a.slice(i).map(text => ({ kind: 'removed' as const, text })));
+  lines.push(...b.slice(j).map(text => ({ kind: 'added' as const, text })));
+
+  return lines;
+}
@@ -0,0 +1,50 @@
+/**
+ * Transcript helpers shared by the server and the transcript viewer
+ */
+
+import type { TranscriptSegment } from '@/types/clinical';
+
+export const MAX_SPEAKER_LABEL_LENGTH = 50;
+
+/**
+ * Render segments as the flat `transcriptionText` stored on the consultation.
+ *
+ * Consecutive segments from the same speaker are merged into one turn so the
+ * text reads as a conversation.
+ */
+export function formatTranscriptText(segments: ReadonlyArray<Pick<TranscriptSegment, 'speaker' | 'text'>>): string {
+  const turns: Array<{ speaker: string; text: string[] }> = [];
+
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+
+    const lastTurn = turns.at(-1);
+    if (lastTurn?.speaker === segment.speaker) {
+      lastTurn.text.push(text);
+    } else {
+      turns.push({ speaker: segment.speaker, text: [text] });
+    }
+  }
+
+  return turns.map(turn => `${turn.speaker}: ${turn.text.join(' ')}`).join('\n');
+}
+
+/**
+ * Format a transcript offset as m:ss (or h:mm:ss for long consultations)
+ */
+export function formatTranscriptTimestamp(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * Distinct speaker labels in order of first appearance
+ */
+export function getTranscriptSpeakers(segments: ReadonlyArray<Pick<TranscriptSegment, 'speaker'>>): string[] {
+  return [...new Set(segments.map(segment => segment.speaker))];
+}
@@ -0,0 +1,123 @@
+/**
+ * Clinical Request Context
+ *
+ * Resolves the authenticated user, their tenant and the tenant's DataStore for
+ * API route handlers that operate on clinical data.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from '@/server/auth';
+import { getCurrentTenantId } from '@/services';
+import {
+  getDataStore,
+  getTenantConfig,
+  DataStoreError,
+  ConsultationNotFoundError,
+  InvalidClaimTransitionError,
+  InvalidNoteTransitionError,
+  NoteLockedError,
+  NoteNotFoundError,
+} from '@/server/datastore';
+import type { DataStore, TenantConfig, ConsultationRecord } from '@/server/datastore';
+import type { ClinicalNote } from '@/types/clinical';
+
+export interface ClinicalRequestContext {
+  userId: string;
+  tenantConfig: TenantConfig;
+  dataStore: DataStore;
+}
+
+export class ClinicalRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'ClinicalRequestError';
+  }
+}
+
+/**
+ * Get the clinical context for the current request
+ * @throws {ClinicalRequestError} 401 if unauthenticated, 403 if the user has no tenant
+ */
+export async function getClinicalRequestContext(): Promise<ClinicalRequestContext> {
+  const session = await getServerSession();
+  if (!session?.user?.id) {
+    throw new ClinicalRequestError('Unauthorized', 401);
+  }
+
+  const tenantId = await getCurrentTenantId();
+  if (!tenantId) {
+    throw new ClinicalRequestError('No clinic associated with this account', 403);
+  }
+
+  const tenantConfig = await getTenantConfig(tenantId);
+  if (!tenantConfig) {
+    throw new ClinicalRequestError('No clinic associated with this account', 403);
+  }
+
+  return {
+    userId: session.user.id,
+    tenantConfig,
+    dataStore: await getDataStore(tenantConfig),
+  };
+}
+
+/**
+ * Load a consultation and ensure it belongs to the caller's tenant
+ * @throws {ConsultationNotFoundError} if it does not exist or belongs to another tenant
+ */
+export async function requireTenantConsultation(
+  context: ClinicalRequestContext,
+  consultationId: string
+): Promise<ConsultationRecord> {
+  const consultation = await context.dataStore.getConsultation(consultationId);
+  if (consultation.tenantId !== context.tenantConfig.id) {
+    // Don't reveal that the consultation exists for another tenant
+    throw new ConsultationNotFoundError(consultationId, context.tenantConfig.id);
+  }
+  return consultation;
+}
+
+/**
+ * Load a note and ensure it was written for the given consultation
+ * @throws {NoteNotFoundError} if it does not exist or belongs to another consultation or tenant
+ */
+export async function requireConsultationNote(
+  context: ClinicalRequestContext,
+  consultationId: string,
+  noteId: string
+): Promise<ClinicalNote> {
+  await requireTenantConsultation(context, consultationId);
+
+  const note = await context.dataStore.getClinicalNote(noteId);
+  if (note.consultationId !== consultationId) {
+    throw new NoteNotFoundError(noteId, context.tenantConfig.id);
+  }
+  return note;
+}
+
+/**
+ * Convert errors thrown while handling a clinical request into a JSON response
+ */
+export function clinicalErrorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof ClinicalRequestError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  if (error instanceof DataStoreError && error.code.endsWith('_NOT_FOUND')) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  if (error instanceof DataStoreError && error.code.endsWith('_VALIDATION_ERROR')) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  if (error instanceof InvalidNoteTransitionError || error instanceof NoteLockedError || error instanceof InvalidClaimTransitionError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: 409 });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json({ error: fallbackMessage }, { status: 500 });
+}
@@ -0,0 +1,114 @@
+/**
+ * Clinical Input Schemas
+ *
+ * Zod schemas for the clinical tRPC routers. Each is checked against the
+ * DataStore input type it validates, so the two can't drift apart.
+ */
+
+import { z } from "zod";
+import type {
+  AmendClinicalNoteInput,
+  ClinicalNoteInput,
+  CreatePatientInput,
+  UpdateConsultationInput,
+  UpdatePatientInput,
+} from "@/server/datastore";
+import type { AppointmentStatus, ClinicalNote } from "@/types/clinical";
+import { isValidMedicareNumber, isValidProviderNumber, normaliseMedicareNumber } from "@/lib/medicare";
+
+const optionalText = (max: number) => z.string().trim().max(max).optional();
+
+export const patientAddressSchema = z.object({
+  street: optionalText(200),
+  city: optionalText(100),
+  state: optionalText(50),
+  postalCode: optionalText(20),
+  country: optionalText(100),
+});
+
+export const createPatientSchema = z.object({
+  firstName: z.string().trim().min(1, "First name is required").max(100),
+  lastName: z.string().trim().min(1, "Last name is required").max(100),
+  dateOfBirth: z
+    .date()
+    .refine(date => date <= new Date(), "Date of birth can't be in the future")
+    .optional(),
+  gender: z.enum(["M", "F", "Other", "Unknown"]).optional(),
+  phone: optionalText(30),
+  email: z.string().trim().email().optional(),
+  address: patientAddressSchema.optional(),
+  medicareNumber: z
+    .string()
+    .transform(normaliseMedicareNumber)
+    .refine(isValidMedicareNumber, "Medicare number is not valid")
+    .optional(),
+  medicareIrn: z.number().int().min(1).max(9).optional(),
+}) satisfies z.ZodType<CreatePatientInput>;
+
+export const updatePatientSchema = createPatientSchema.partial() satisfies z.ZodType<UpdatePatientInput>;
+
+export const providerNumberSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine(isValidProviderNumber, "Provider number is not valid");
+
+export const consultationStatusSchema = z.enum(["ready", "recording", "processing", "review", "complete", "error"]);
+
+/**
+ * The parts of a consultation a clinician changes directly - progress and
+ * errors belong to the transcription and note generation jobs
+ */
+export const updateConsultationSchema = z.object({
+  status: consultationStatusSchema.optional(),
+  recordingStartTime: z.date().optional(),
+  recordingEndTime: z.date().optional(),
+  selectedTemplate: z.string().min(1).max(100).optional(),
+}) satisfies z.ZodType<UpdateConsultationInput>;
+
+export const noteTypeSchema = z.enum(["progress", "soap", "assessment", "plan", "referral", "other"]);
+
+export const noteStatusSchema = z.enum(["draft", "pending-review", "final", "amended", "signed"]);
+
+const noteContentSchema = z
+  .string()
+  .trim()
+  .min(10, "Clinical note content must be at least 10 characters long");
+
+/**
+ * A note written by hand; drafted notes and their citations come from the note generation job
+ */
+export const createClinicalNoteSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  content: noteContentSchema,
+  noteType: noteTypeSchema.optional(),
+  template: z.string().max(100).optional(),
+  status: z.enum(["draft", "pending-review"]).optional(),
+  consultationId: z.string().min(1).optional(),
+}) satisfies z.ZodType<ClinicalNoteInput>;
+
+export const updateClinicalNoteSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  content: noteContentSchema.optional(),
+  status: noteStatusSchema.optional(),
+}) satisfies z.ZodType<Partial<ClinicalNote>>;
+
+/**
+ * A change to a signed note; the signed version stays in the note's history
+ */
+export const amendClinicalNoteSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  content: noteContentSchema,
+  reason: z.string().trim().min(1).max(500),
+}) satisfies z.ZodType<Omit<AmendClinicalNoteInput, "authorId">>;
+
+export const appointmentStatusSchema = z.enum([
+  "scheduled",
+  "waiting",
+  "in-progress",
+  "recording",
+  "processing",
+  "completed",
+  "cancelled",
+  "no-show",
+]) satisfies z.ZodType<AppointmentStatus>;
@@ -0,0 +1,68 @@
+/**
+ * Clinical tRPC Helpers
+ *
+ * Tenant checks shared by the clinical routers, which run as tenantProcedures,
+ * and conversion of DataStore errors into tRPC errors.
+ */
+
+import { TRPCError } from "@trpc/server";
+import { DataStoreError, InvalidClaimTransitionError, InvalidNoteTransitionError, NoteLockedError } from "@/server/datastore";
+import type { ConsultationRecord, DataStore, TenantConfig } from "@/server/datastore";
+
+/**
+ * The parts of a tenantProcedure context the clinical helpers use
+ */
+export interface ClinicalTRPCContext {
+  tenant: TenantConfig;
+  dataStore: DataStore;
+}
+
+/**
+ * Load a consultation and ensure it belongs to the caller's tenant
+ * @throws {TRPCError} NOT_FOUND if it does not exist or belongs to another tenant
+ */
+export async function requireTenantConsultation(
+  context: ClinicalTRPCContext,
+  consultationId: string
+): Promise<ConsultationRecord> {
+  const consultation = await context.dataStore.getConsultation(consultationId);
+  if (consultation.tenantId !== context.tenant.id) {
+    // Don't reveal that the consultation exists for another tenant
+    throw new TRPCError({ code: "NOT_FOUND", message: "Consultation not found" });
+  }
+  return consultation;
+}
+
+/**
+ * Standalone-only operations, like managing patients, are unavailable to EHR-integrated clinics
+ * @throws {TRPCError} FORBIDDEN in EHR-integrated mode
+ */
+export function requireStandaloneMode(context: ClinicalTRPCContext, action: string): void {
+  if (context.tenant.operatingMode !== "standalone" || !context.tenant.features.patientManagement) {
+    throw new TRPCError({ code: "FORBIDDEN", message: `${action} is managed in your clinic's EHR` });
+  }
+}
+
+/**
+ * Convert errors thrown while handling a clinical procedure into a TRPCError
+ */
+export function toClinicalTRPCError(error: unknown, fallbackMessage: string): TRPCError {
+  if (error instanceof TRPCError) {
+    return error;
+  }
+
+  if (error instanceof DataStoreError && error.code.endsWith("_NOT_FOUND")) {
+    return new TRPCError({ code: "NOT_FOUND", message: "Not found" });
+  }
+
+  if (error instanceof DataStoreError && error.code.endsWith("_VALIDATION_ERROR")) {
+    return new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+
+  if (error instanceof InvalidNoteTransitionError || error instanceof NoteLockedError || error instanceof InvalidClaimTransitionError) {
+    return new TRPCError({ code: "CONFLICT", message: error.message });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: fallbackMessage, cause: error });
+}
@@ -5,6 +5,16 @@ import { polarRouter } from "./routers/polar";
 import { authRouter } from "./routers/auth";
 import { adminRouter } from "./routers/admin";
 import { mbsAdminRouter } from "./routers/mbs-admin";
+import { mbsRouter } from "./routers/mbs";
+import { exportsRouter } from "./routers/exports";
+import { billingRouter } from "./routers/billing";
+import { analyticsRouter } from "./routers/analytics";
+import { ehrRouter } from "./routers/ehr";
+import { patientsRouter } from "./routers/patients";
+import { consultationsRouter } from "./routers/consultations";
+import { notesRouter } from "./routers/notes";
+import { dashboardRouter } from "./routers/dashboard";
+import { tenantsRouter } from "./routers/tenants";
 
 export const appRouter = createTRPCRouter({
   user: userRouter,
@@ -13,6 +23,16 @@ export const appRouter = createTRPCRouter({
   auth: authRouter,
   admin: adminRouter,
   mbsAdmin: mbsAdminRouter,
+  mbs: mbsRouter,
+  exports: exportsRouter,
+  billing: billingRouter,
+  analytics: analyticsRouter,
+  ehr: ehrRouter,
+  patients: patientsRouter,
+  consultations: consultationsRouter,
+  notes: notesRouter,
+  dashboard: dashboardRouter,
+  tenants: tenantsRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { TenantRole } from '@/server/datastore/types';
+import type { ClinicalNote } from '@/types/clinical';
+
+const membership = vi.hoisted((): { role: TenantRole } => ({ role: 'clinician' }));
+const dataStore = vi.hoisted(() => ({
+  updateClinicalNote: vi.fn(),
+  amendClinicalNote: vi.fn(),
+}));
+const queueNoteWriteBack = vi.hoisted(() => vi.fn());
+
+vi.mock('@/env', () => ({ serverEnv: {} }));
+vi.mock('@/server/auth', () => ({ auth: {} }));
+vi.mock('@/server/db', () => ({ db: {} }));
+vi.mock('@/server/datastore', async () => {
+  const { TENANT_ADMIN_ROLES, TENANT_CLINICIAN_ROLES } = await import('@/server/datastore/memberships');
+  return {
+    TENANT_ADMIN_ROLES,
+    TENANT_CLINICIAN_ROLES,
+    resolveActiveMembership: vi.fn(async () => ({ tenantId: 'tenant-001', role: membership.role })),
+    getTenantConfig: vi.fn(async () => ({ id: 'tenant-001' })),
+    setTenantContext: vi.fn(),
+    getDataStore: vi.fn(async () => dataStore),
+  };
+});
+vi.mock('@/server/services/mbs', () => ({ queueMbsSuggestionsForNote: vi.fn() }));
+vi.mock('@/server/services/ehr', () => ({ queueNoteWriteBack }));
+
+import { notesRouter } from '../notes';
+
+const signedNote = { id: 'note-1', status: 'signed' } as ClinicalNote;
+
+const caller = () =>
+  notesRouter.createCaller({
+    headers: new Headers(),
+    db: {} as never,
+    session: { user: { id: 'user-001' }, session: { activeTenantId: 'tenant-001' } } as never,
+  });
+
+describe('notes router', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dataStore.updateClinicalNote.mockResolvedValue(signedNote);
+    dataStore.amendClinicalNote.mockResolvedValue(signedNote);
+  });
+
+  it('lets a clinician sign a note and queues it for the EHR', async () => {
+    membership.role = 'clinician';
+
+    await expect(caller().update({ noteId: 'note-1', updates: { status: 'signed' } })).resolves.toEqual(signedNote);
+    expect(queueNoteWriteBack).toHaveBeenCalledOnce();
+  });
+
+  it('refuses to let a receptionist sign or amend a note', async () => {
+    membership.role = 'receptionist';
+
+    await expect(caller().update({ noteId: 'note-1', updates: { status: 'signed' } })).rejects.toMatchObject({
+      code: 'FORBIDDEN',
+    });
+    await expect(
+      caller().amend({ noteId: 'note-1', amendment: { content: 'Amended: review in 2 weeks.', reason: 'Follow-up' } })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(dataStore.updateClinicalNote).not.toHaveBeenCalled();
+    expect(dataStore.amendClinicalNote).not.toHaveBeenCalled();
+    expect(queueNoteWriteBack).not.toHaveBeenCalled();
+  });
+});
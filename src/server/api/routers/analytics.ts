@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { differenceInCalendarDays } from "date-fns";
+import { createTRPCRouter, tenantProcedure } from "@/server/api/trpc";
+import { toClinicalTRPCError } from "@/server/api/clinical-trpc";
+import { getTenantMembers } from "@/server/datastore";
+import { buildBillingAnalytics } from "@/server/services/billing";
+
+// Longest date range one request may cover
+const MAX_RANGE_DAYS = 366;
+
+export const analyticsRouter = createTRPCRouter({
+  /**
+   * Billed versus suggested MBS items, estimated revenue and missed billing for the
+   * consultations in a date range, optionally for one clinician
+   */
+  billing: tenantProcedure
+    .input(z.object({
+      from: z.date(),
+      to: z.date(),
+      clinicianId: z.string().min(1).optional(),
+    }).refine(
+      input => input.from <= input.to,
+      { message: "from must be on or before to", path: ["from"] }
+    ).refine(
+      input => differenceInCalendarDays(input.to, input.from) < MAX_RANGE_DAYS,
+      { message: `Date range can't be longer than ${MAX_RANGE_DAYS} days`, path: ["to"] }
+    ))
+    .query(async ({ ctx, input }) => {
+      try {
+        const [activity, members] = await Promise.all([
+          ctx.dataStore.getBillingActivity(input),
+          getTenantMembers(ctx.tenant.id),
+        ]);
+
+        return {
+          ...buildBillingAnalytics(activity, {
+            from: input.from,
+            to: input.to,
+            clinicianNames: new Map(members.map(member => [member.userId, member.userName])),
+          }),
+          clinicianOptions: members.map(member => ({ id: member.userId, name: member.userName })),
+        };
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to get billing analytics");
+      }
+    }),
+});
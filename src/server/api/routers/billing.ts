@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { createTRPCRouter, tenantProcedure } from "@/server/api/trpc";
+import { toClinicalTRPCError } from "@/server/api/clinical-trpc";
+import type { ClaimBatchRecord } from "@/server/datastore";
+import { ClaimService, getClaimLineIssues } from "@/server/services/billing";
+
+/**
+ * Batch as shown to the client, with where its claim file is downloaded from
+ */
+const toBatchSummary = (batch: ClaimBatchRecord) => ({
+  ...batch,
+  exportUrl: `/api/billing/batches/${batch.id}/export`,
+});
+
+export const billingRouter = createTRPCRouter({
+  /**
+   * Claim batches, latest service day first
+   */
+  batches: tenantProcedure
+    .input(z.object({
+      status: z.enum(["open", "exported"]).optional(),
+      limit: z.number().int().min(1).max(100).default(30),
+    }).default({}))
+    .query(async ({ ctx, input }) => {
+      try {
+        const batches = await ctx.dataStore.listClaimBatches(input);
+        return batches.map(toBatchSummary);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to list claim batches");
+      }
+    }),
+
+  /**
+   * A batch's claims, with what stops each pending one being lodged
+   */
+  batch: tenantProcedure
+    .input(z.object({ batchId: z.string().min(1) }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const batch = await ctx.dataStore.getClaimBatch(input.batchId);
+        return {
+          ...toBatchSummary(batch),
+          lines: batch.lines.map(line => ({
+            ...line,
+            issues: line.status === "pending" ? getClaimLineIssues(line) : [],
+          })),
+        };
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to get claim batch");
+      }
+    }),
+
+  /**
+   * Pick up newly accepted suggestions and refresh pending claims with current patient and provider details
+   */
+  assemble: tenantProcedure.mutation(async ({ ctx }) => {
+    try {
+      return await new ClaimService(ctx.dataStore, ctx.tenant).assembleClaims();
+    } catch (error) {
+      throw toClinicalTRPCError(error, "Failed to assemble claims");
+    }
+  }),
+
+  /**
+   * Record what Medicare did with an exported claim
+   */
+  updateClaimStatus: tenantProcedure
+    .input(z.object({
+      lineId: z.string().min(1),
+      status: z.enum(["submitted", "paid", "rejected"]),
+      reason: z.string().trim().max(500).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await ctx.dataStore.updateClaimLineStatus(input.lineId, { status: input.status, reason: input.reason });
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to update claim status");
+      }
+    }),
+});
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { createTRPCRouter, tenantProcedure } from "@/server/api/trpc";
+import {
+  requireStandaloneMode,
+  requireTenantConsultation,
+  toClinicalTRPCError,
+} from "@/server/api/clinical-trpc";
+import { updateConsultationSchema } from "@/server/api/clinical-schemas";
+
+export const consultationsRouter = createTRPCRouter({
+  get: tenantProcedure
+    .input(z.object({ consultationId: z.string().min(1) }))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await requireTenantConsultation(ctx, input.consultationId);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to get consultation");
+      }
+    }),
+
+  /**
+   * Start a consultation for a patient; EHR-integrated clinics start them from appointments
+   */
+  create: tenantProcedure
+    .input(z.object({
+      patientId: z.string().min(1),
+      selectedTemplate: z.string().min(1).max(100).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      requireStandaloneMode(ctx, "Starting a consultation");
+
+      try {
+        // Fails with PATIENT_NOT_FOUND before a consultation is created for another tenant's patient
+        await ctx.dataStore.getPatientSummary(input.patientId);
+
+        return await ctx.dataStore.createConsultation({
+          patientId: input.patientId,
+          clinicianId: ctx.session.user.id,
+          mode: ctx.tenant.operatingMode,
+          selectedTemplate: input.selectedTemplate,
+        });
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to create consultation");
+      }
+    }),
+
+  update: tenantProcedure
+    .input(z.object({
+      consultationId: z.string().min(1),
+      updates: updateConsultationSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await requireTenantConsultation(ctx, input.consultationId);
+        return await ctx.dataStore.updateConsultation(input.consultationId, input.updates);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to update consultation");
+      }
+    }),
+});
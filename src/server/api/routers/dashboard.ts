@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { createTRPCRouter, tenantProcedure } from "@/server/api/trpc";
+import { toClinicalTRPCError } from "@/server/api/clinical-trpc";
+import { appointmentStatusSchema } from "@/server/api/clinical-schemas";
+import { queueAppointmentStatusWriteBack } from "@/server/services/ehr";
+
+// Defaults to today
+const dateInput = z.object({ date: z.date().optional() }).default({});
+
+export const dashboardRouter = createTRPCRouter({
+  /**
+   * The signed-in clinician's appointments for the day
+   */
+  appointments: tenantProcedure
+    .input(dateInput)
+    .query(async ({ ctx, input }) => {
+      try {
+        return await ctx.dataStore.getTodaysAppointments(ctx.session.user.id, input.date);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to get appointments");
+      }
+    }),
+
+  stats: tenantProcedure
+    .input(dateInput)
+    .query(async ({ ctx, input }) => {
+      try {
+        return await ctx.dataStore.getDashboardStats(ctx.session.user.id, input.date);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to get dashboard stats");
+      }
+    }),
+
+  pendingActions: tenantProcedure.query(async ({ ctx }) => {
+    try {
+      return await ctx.dataStore.getPendingActions(ctx.session.user.id);
+    } catch (error) {
+      throw toClinicalTRPCError(error, "Failed to get pending actions");
+    }
+  }),
+
+  /**
+   * Change an appointment's status, also written to the EHR for appointments booked there
+   */
+  updateAppointmentStatus: tenantProcedure
+    .input(z.object({
+      appointmentId: z.string().min(1),
+      status: appointmentStatusSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await ctx.dataStore.updateAppointmentStatus(input.appointmentId, input.status);
+        await queueAppointmentStatusWriteBack(ctx.dataStore, ctx.tenant, input.appointmentId, input.status, ctx.session.user.id);
+        return { success: true };
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to update appointment status");
+      }
+    }),
+});
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, tenantAdminProcedure, tenantProcedure } from "@/server/api/trpc";
+import { toClinicalTRPCError } from "@/server/api/clinical-trpc";
+import { getEhrConnectionService, hasSmartSettings, queueEhrWriteBackDelivery } from "@/server/services/ehr";
+import type { EHRProvider } from "@/types/clinical";
+
+export const ehrRouter = createTRPCRouter({
+  /**
+   * The clinic's EHR connection and the state of its authorization, without secrets
+   */
+  connection: tenantAdminProcedure.query(async ({ ctx }) => {
+    try {
+      const connection = await ctx.dataStore.getEhrConnection();
+      return connection ? getEhrConnectionService().summarise(connection) : null;
+    } catch (error) {
+      throw toClinicalTRPCError(error, "Failed to get EHR connection");
+    }
+  }),
+
+  /**
+   * Set up or change the connection. A new server or client has to be connected again.
+   */
+  saveConnection: tenantAdminProcedure
+    .input(z.object({
+      fhirBaseUrl: z.string().trim().url(),
+      clientId: z.string().trim().min(1),
+      scopes: z.array(z.string()).default([]),
+      clientSecret: z.string().min(1).nullable().optional(), // Left out to keep the current secret
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const service = getEhrConnectionService();
+        return service.summarise(await service.saveSettings(ctx.dataStore, input));
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to save EHR connection");
+      }
+    }),
+
+  /**
+   * Set up or change the clinic's bridge agent, for Best Practice and MedicalDirector
+   */
+  saveBridge: tenantAdminProcedure
+    .input(z.object({
+      url: z.string().trim().url(),
+      vendor: z.enum(["bestpractice", "medicaldirector"]),
+      token: z.string().min(1).optional(), // Left out to keep the current token
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const service = getEhrConnectionService();
+        return service.summarise(await service.saveBridgeSettings(ctx.dataStore, input));
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to save bridge agent");
+      }
+    }),
+
+  removeBridge: tenantAdminProcedure.mutation(async ({ ctx }) => {
+    try {
+      const service = getEhrConnectionService();
+      return service.summarise(await service.removeBridge(ctx.dataStore));
+    } catch (error) {
+      throw toClinicalTRPCError(error, "Failed to remove bridge agent");
+    }
+  }),
+
+  /**
+   * Forget the stored tokens; the clinic has to connect again before the EHR can be used
+   */
+  disconnect: tenantAdminProcedure.mutation(async ({ ctx }) => {
+    try {
+      const service = getEhrConnectionService();
+      return service.summarise(await service.disconnect(ctx.dataStore));
+    } catch (error) {
+      throw toClinicalTRPCError(error, "Failed to disconnect EHR");
+    }
+  }),
+
+  /**
+   * Check the EHR can be reached with the stored tokens, and that they cover what
+   * it supports. Clinics with only a bridge agent check the agent instead.
+   */
+  testConnection: tenantAdminProcedure.mutation(async ({ ctx }) => {
+    try {
+      const connection = await ctx.dataStore.getEhrConnection();
+      const service = getEhrConnectionService();
+      if (connection && hasSmartSettings(connection)) {
+        return await service.createProvider(ctx.dataStore, connection, ctx.session.user.id).testConnection();
+      }
+      if (!connection?.bridge) {
+        throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Set up the EHR connection first" });
+      }
+
+      let provider: EHRProvider;
+      try {
+        provider = await service.createBridgeProvider(connection.bridge, ctx.session.user.id);
+      } catch (error) {
+        // Connecting asks the agent about itself, so one that can't be reached fails here
+        const message = error instanceof Error ? error.message : String(error);
+        return { connected: false, lastChecked: new Date(), error: message };
+      }
+      return await provider.testConnection();
+    } catch (error) {
+      throw toClinicalTRPCError(error, "Failed to test EHR connection");
+    }
+  }),
+
+  /**
+   * Send a failed write-back to the EHR again, from its sync-failed pending action.
+   * Retrying one that conflicted writes over the change made in the EHR.
+   */
+  retryWriteBack: tenantProcedure
+    .input(z.object({ writeBackId: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const writeBack = await ctx.dataStore.retryEhrWriteBack(input.writeBackId);
+        if (!(await queueEhrWriteBackDelivery(ctx.dataStore, ctx.tenant.id, writeBack))) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "The write-back could not be queued" });
+        }
+        return { success: true };
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to retry EHR write-back");
+      }
+    }),
+});
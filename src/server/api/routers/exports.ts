@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, tenantProcedure } from "@/server/api/trpc";
+import { requireTenantConsultation, toClinicalTRPCError } from "@/server/api/clinical-trpc";
+import type { ExportRecord } from "@/server/datastore";
+import { ExportQueueService, getExportFileName } from "@/server/services/export";
+
+/**
+ * Export as shown to the client - the storage path stays on the server
+ */
+const toExportSummary = (record: ExportRecord) => ({
+  id: record.id,
+  consultationId: record.consultationId,
+  format: record.format,
+  fileName: record.fileName,
+  fileSize: record.fileSize,
+  status: record.status,
+  error: record.error,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+  downloadUrl: record.status === "completed" ? `/api/exports/${record.id}/download` : undefined,
+});
+
+export const exportsRouter = createTRPCRouter({
+  /**
+   * Request an export of a consultation's notes; the file is rendered by the export queue
+   */
+  create: tenantProcedure
+    .input(z.object({
+      consultationId: z.string().min(1),
+      format: z.enum(["pdf", "docx", "txt"]),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.tenant.features.manualExport) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Exports are not enabled for this clinic" });
+      }
+
+      try {
+        const consultation = await requireTenantConsultation(ctx, input.consultationId);
+        const notes = await ctx.dataStore.getConsultationNotes(consultation.id);
+        if (notes.length === 0) {
+          throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Consultation has no notes to export" });
+        }
+
+        const patient = await ctx.dataStore.getPatientSummary(consultation.patientId);
+        const record = await ctx.dataStore.createExport({
+          consultationId: consultation.id,
+          format: input.format,
+          fileName: getExportFileName(patient, consultation, input.format),
+          requestedBy: ctx.session.user.id,
+        });
+
+        try {
+          await new ExportQueueService().queueExport({ tenantId: ctx.tenant.id, exportId: record.id });
+        } catch (error) {
+          console.error(`❌ Failed to queue export ${record.id}:`, error);
+          await ctx.dataStore.updateExport(record.id, { status: "failed", error: "Export could not be queued" });
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Export could not be queued" });
+        }
+
+        return toExportSummary(record);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to create export");
+      }
+    }),
+
+  /**
+   * Exports of a consultation, newest first
+   */
+  list: tenantProcedure
+    .input(z.object({ consultationId: z.string().min(1) }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const consultation = await requireTenantConsultation(ctx, input.consultationId);
+        const exports = await ctx.dataStore.getConsultationExports(consultation.id);
+        return exports.map(toExportSummary);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to list exports");
+      }
+    }),
+});
@@ -1,6 +1,16 @@
 import { z } from "zod";
 import { createTRPCRouter, adminProcedure } from "@/server/api/trpc";
 import { MbsQueueService } from "@/server/services/mbs/MbsQueueService";
+import { MbsRulesService } from "@/server/services/mbs/MbsRulesService";
+import { mbsRuleDefinitionSchema } from "@/server/services/mbs/MbsRulesEngine";
+import { MBS_ITEM_CHANGE_TYPES, MbsItemHistoryService } from "@/server/services/mbs/MbsItemHistoryService";
+import {
+  MbsEmbeddingMigrationError,
+  MbsReleaseStorageError,
+  createMbsEmbeddingMigrationService,
+  createMbsReleaseFetcher,
+  createMbsReleaseStorageService,
+} from "@/server/services/mbs";
 import { TRPCError } from "@trpc/server";
 
 /**
@@ -9,20 +19,43 @@ import { TRPCError } from "@trpc/server";
  */
 const createMbsQueueService = () => new MbsQueueService();
 
+/**
+ * Path of a release uploaded to or downloaded into the release store. Ingestion
+ * never reads a path supplied by the client.
+ */
+const resolveReleaseFile = async (releaseFile: string): Promise<string> => {
+  try {
+    return await createMbsReleaseStorageService().resolve(releaseFile);
+  } catch (error) {
+    if (error instanceof MbsReleaseStorageError) {
+      throw new TRPCError({
+        code: error.code === 'RELEASE_NOT_FOUND' ? 'NOT_FOUND' : 'BAD_REQUEST',
+        message: error.message,
+      });
+    }
+    throw error;
+  }
+};
+
+const releaseInput = z.object({
+  releaseFile: z.string(), // Name returned by the release upload route
+  fileName: z.string().min(1).max(255),
+  forceReprocess: z.boolean().default(false),
+  effectiveDate: z.string().date().optional(), // Date the release applies from
+});
+
 export const mbsAdminRouter = createTRPCRouter({
   /**
    * Queue XML ingestion job
    */
   queueXmlIngestion: adminProcedure
-    .input(z.object({
-      filePath: z.string(),
-      fileName: z.string(),
-      forceReprocess: z.boolean().default(false),
-    }))
+    .input(releaseInput)
     .mutation(async ({ input }) => {
+      const { releaseFile, ...job } = input;
+      const filePath = await resolveReleaseFile(releaseFile);
       try {
         const mbsQueueService = createMbsQueueService();
-        const jobId = await mbsQueueService.queueXmlIngestion(input);
+        const jobId = await mbsQueueService.queueXmlIngestion({ ...job, filePath });
         return { success: true, jobId };
       } catch (error) {
         throw new TRPCError({
@@ -57,18 +90,16 @@ export const mbsAdminRouter = createTRPCRouter({
    * Queue full ingestion pipeline
    */
   queueFullPipeline: adminProcedure
-    .input(z.object({
-      filePath: z.string(),
-      fileName: z.string(),
-      forceReprocess: z.boolean().default(false),
-    }))
+    .input(releaseInput)
     .mutation(async ({ input }) => {
+      const filePath = await resolveReleaseFile(input.releaseFile);
       try {
         const mbsQueueService = createMbsQueueService();
         const result = await mbsQueueService.queueFullIngestionPipeline(
-          input.filePath,
+          filePath,
           input.fileName,
-          input.forceReprocess
+          input.forceReprocess,
+          input.effectiveDate
         );
         return { success: true, ...result };
       } catch (error) {
@@ -79,6 +110,26 @@ export const mbsAdminRouter = createTRPCRouter({
       }
     }),
 
+  /**
+   * Check the release feed now rather than waiting for the scheduled check
+   */
+  checkReleaseFeed: adminProcedure
+    .mutation(async () => {
+      const fetcher = createMbsReleaseFetcher();
+      if (!fetcher) {
+        throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'No MBS release feed is configured' });
+      }
+
+      try {
+        return await fetcher.checkForRelease();
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to check the release feed',
+        });
+      }
+    }),
+
   /**
    * Get job status
    */
@@ -99,6 +150,173 @@ export const mbsAdminRouter = createTRPCRouter({
       }
     }),
 
+  /**
+   * Recent ingestion, embedding and search vector jobs with their progress
+   */
+  getRecentJobs: adminProcedure
+    .input(z.object({
+      limit: z.number().min(1).max(100).default(20),
+    }))
+    .query(async ({ input }) => {
+      try {
+        return await createMbsQueueService().getRecentPipelineJobs(input.limit);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get recent jobs',
+        });
+      }
+    }),
+
+  /**
+   * Run a failed queue job again
+   */
+  retryJob: adminProcedure
+    .input(z.object({
+      jobId: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      let retried;
+      try {
+        retried = await createMbsQueueService().retryFailedJob(input.jobId);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to retry job',
+        });
+      }
+
+      if (!retried) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `No failed job ${input.jobId}` });
+      }
+      return { success: true };
+    }),
+
+  /**
+   * Queue a failed ingestion run again. Ingestion carries on from the last
+   * batch the run committed, then embeddings and search vectors are rebuilt.
+   */
+  retryIngestion: adminProcedure
+    .input(z.object({
+      logId: z.number().int().positive(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const log = await ctx.db.mbsIngestionLog.findUnique({ where: { id: input.logId } });
+      if (!log) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Ingestion run ${input.logId} not found` });
+      }
+      if (log.status !== 'failed') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `Ingestion run ${input.logId} has not failed` });
+      }
+
+      // Releases are stored under their hash, which the run recorded
+      const filePath = await resolveReleaseFile(`${log.fileHash}.xml`);
+      try {
+        const result = await createMbsQueueService().queueFullIngestionPipeline(
+          filePath,
+          log.fileName ?? `${log.fileHash}.xml`,
+          false,
+          log.effectiveDate?.toISOString().slice(0, 10)
+        );
+        return { success: true, ...result };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to retry ingestion',
+        });
+      }
+    }),
+
+  /**
+   * Queue new embeddings for the given items, e.g. after fixing a descriptor
+   */
+  regenerateEmbeddings: adminProcedure
+    .input(z.object({
+      itemNumbers: z.array(z.number().int().positive()).min(1).max(500),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const items = await ctx.db.mbsItem.findMany({
+        where: { itemNumber: { in: input.itemNumbers } },
+        select: { id: true, itemNumber: true },
+      });
+      if (items.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'None of those MBS items exist' });
+      }
+
+      try {
+        const jobId = await createMbsQueueService().queueEmbeddingGeneration({
+          itemIds: items.map(item => item.id),
+          batchSize: 50,
+        }, 5);
+
+        const found = new Set(items.map(item => item.itemNumber));
+        return {
+          success: true,
+          jobId,
+          itemCount: items.length,
+          missingItemNumbers: input.itemNumbers.filter(itemNumber => !found.has(itemNumber)),
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to queue embedding generation',
+        });
+      }
+    }),
+
+  /**
+   * Which embedding models the items' vectors come from, against the configured one
+   */
+  getEmbeddingStatus: adminProcedure
+    .query(async () => {
+      try {
+        return await createMbsEmbeddingMigrationService().getStatus();
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get embedding status',
+        });
+      }
+    }),
+
+  /**
+   * Re-embed every item with the configured model. Search keeps using the old
+   * vectors until the migration completes, and a failed one picks up where it stopped.
+   */
+  startEmbeddingMigration: adminProcedure
+    .mutation(async ({ ctx }) => {
+      let migration;
+      try {
+        migration = await createMbsEmbeddingMigrationService().startMigration();
+      } catch (error) {
+        if (error instanceof MbsEmbeddingMigrationError) {
+          throw new TRPCError({
+            code: error.code === 'NO_PROVIDER' ? 'PRECONDITION_FAILED'
+              : error.code === 'MIGRATION_RUNNING' ? 'CONFLICT'
+              : 'BAD_REQUEST',
+            message: error.message,
+          });
+        }
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to start embedding migration',
+        });
+      }
+
+      try {
+        const jobId = await createMbsQueueService().queueEmbeddingMigration({ migrationId: migration.id });
+        return { success: true, jobId, migration };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to queue embedding migration';
+        // Nothing will run it, so don't leave it blocking the next attempt
+        await ctx.db.mbsEmbeddingMigration.update({
+          where: { id: migration.id },
+          data: { status: 'failed', errorMessage: message },
+        });
+        throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message });
+      }
+    }),
+
   /**
    * Get queue statistics
    */
@@ -206,6 +424,120 @@ export const mbsAdminRouter = createTRPCRouter({
       }
     }),
 
+  /**
+   * Compare two ingested releases, by default the given one and the release before it
+   */
+  getReleaseDiff: adminProcedure
+    .input(z.object({
+      toLogId: z.number().int().positive(),
+      fromLogId: z.number().int().nonnegative().optional(), // 0 compares with items loaded before history was kept
+      changeType: z.enum(MBS_ITEM_CHANGE_TYPES).optional(),
+      limit: z.number().min(1).max(200).default(50),
+      offset: z.number().min(0).default(0),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        const historyService = new MbsItemHistoryService(ctx.db);
+        const fromLogId = input.fromLogId ?? await historyService.getPreviousReleaseLogId(input.toLogId);
+        const diff = await historyService.diffReleases(fromLogId, input.toLogId, input);
+
+        return {
+          ...diff,
+          hasMore: input.offset + input.limit < diff.total,
+        };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to compare releases',
+        });
+      }
+    }),
+
+  /**
+   * Every version of an item across the releases ingested
+   */
+  getItemHistory: adminProcedure
+    .input(z.object({
+      itemNumber: z.number().int().positive(),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await new MbsItemHistoryService(ctx.db).getItemHistory(input.itemNumber);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get item history',
+        });
+      }
+    }),
+
+  /**
+   * List billing rules, including inactive ones
+   */
+  getRules: adminProcedure
+    .query(async ({ ctx }) => {
+      try {
+        return await new MbsRulesService(ctx.db).listRules();
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to get rules',
+        });
+      }
+    }),
+
+  /**
+   * Add a billing rule or replace the rule with the same code, e.g. for a new schedule release
+   */
+  upsertRule: adminProcedure
+    .input(z.object({
+      code: z.string().regex(/^[a-z0-9-]+$/).max(100),
+      description: z.string().min(1),
+      severity: z.enum(['error', 'warning']).default('error'),
+      definition: mbsRuleDefinitionSchema,
+      effectiveFrom: z.date().nullish(),
+      effectiveTo: z.date().nullish(),
+      isActive: z.boolean().default(true),
+    }).refine(
+      input => !input.effectiveFrom || !input.effectiveTo || input.effectiveFrom <= input.effectiveTo,
+      { message: 'effectiveFrom must be on or before effectiveTo', path: ['effectiveFrom'] }
+    ))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await new MbsRulesService(ctx.db).upsertRule(input);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to save rule',
+        });
+      }
+    }),
+
+  /**
+   * Switch a billing rule on or off
+   */
+  setRuleActive: adminProcedure
+    .input(z.object({
+      code: z.string(),
+      isActive: z.boolean(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      let rule;
+      try {
+        rule = await new MbsRulesService(ctx.db).setRuleActive(input.code, input.isActive);
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update rule',
+        });
+      }
+
+      if (!rule) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `MBS rule ${input.code} not found` });
+      }
+      return rule;
+    }),
+
   /**
    * Clean up old jobs
    */
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure, tenantProcedure } from "@/server/api/trpc";
+import { requireTenantConsultation, toClinicalTRPCError } from "@/server/api/clinical-trpc";
+import { MbsQueueService, createMbsRulesService, createMbsSearchService } from "@/server/services/mbs";
+import { ClaimService } from "@/server/services/billing";
+
+export const mbsRouter = createTRPCRouter({
+  /**
+   * Search MBS items by meaning and keywords, with highlighted snippets
+   */
+  search: protectedProcedure
+    .input(z.object({
+      query: z.string().trim().min(1).max(500),
+      categories: z.array(z.string().max(10)).optional(),
+      providerTypes: z.array(z.string().max(10)).optional(),
+      activeFrom: z.date().optional(),
+      activeTo: z.date().optional(),
+      minFee: z.number().nonnegative().optional(),
+      maxFee: z.number().nonnegative().optional(),
+      limit: z.number().int().min(1).max(50).default(20),
+    }).refine(
+      input => !input.activeFrom || !input.activeTo || input.activeFrom <= input.activeTo,
+      { message: "activeFrom must be on or before activeTo", path: ["activeFrom"] }
+    ).refine(
+      input => input.minFee === undefined || input.maxFee === undefined || input.minFee <= input.maxFee,
+      { message: "minFee must not exceed maxFee", path: ["minFee"] }
+    ))
+    .query(async ({ input }) => {
+      const { query, limit, ...filters } = input;
+
+      try {
+        return await createMbsSearchService().search(query, { filters, limit });
+      } catch (error) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to search MBS items',
+        });
+      }
+    }),
+
+  /**
+   * Items suggested for a consultation, most confident first
+   */
+  suggestions: tenantProcedure
+    .input(z.object({ consultationId: z.string().min(1) }))
+    .query(async ({ ctx, input }) => {
+      try {
+        await requireTenantConsultation(ctx, input.consultationId);
+        return await ctx.dataStore.getConsultationMbsSuggestions(input.consultationId);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to get MBS suggestions");
+      }
+    }),
+
+  /**
+   * Accept or reject a suggested item, or replace it with another item
+   */
+  actionSuggestion: tenantProcedure
+    .input(z.discriminatedUnion("status", [
+      z.object({ suggestionId: z.string().uuid(), status: z.enum(["accepted", "rejected"]) }),
+      z.object({ suggestionId: z.string().uuid(), status: z.literal("modified"), itemNumber: z.number().int().positive() }),
+    ]))
+    .mutation(async ({ ctx, input }) => {
+      const { suggestionId, ...action } = input;
+
+      let suggestion;
+      try {
+        suggestion = await ctx.dataStore.updateMbsSuggestion(suggestionId, { ...action, userId: ctx.session.user.id });
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to update MBS suggestion");
+      }
+
+      // Keep the consultation's pending claims in step; the billing page assembles anything missed
+      if (suggestion.consultationId) {
+        try {
+          await new ClaimService(ctx.dataStore, ctx.tenant).assembleClaims({ consultationId: suggestion.consultationId });
+        } catch (error) {
+          console.warn(`⚠️ Failed to assemble claims for consultation ${suggestion.consultationId}:`, error);
+        }
+      }
+
+      return suggestion;
+    }),
+
+  /**
+   * Check items proposed for a consultation against the MBS billing rules,
+   * explaining each rule they break
+   */
+  validateItems: tenantProcedure
+    .input(z.object({
+      consultationId: z.string().min(1),
+      itemNumbers: z.array(z.number().int().positive()).max(20),
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        await requireTenantConsultation(ctx, input.consultationId);
+        return await createMbsRulesService().validateConsultationItems(ctx.dataStore, input.consultationId, input.itemNumbers);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to validate MBS items");
+      }
+    }),
+
+  /**
+   * Suggest items again from a note under review, keeping suggestions already actioned
+   */
+  regenerateSuggestions: tenantProcedure
+    .input(z.object({ noteId: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const note = await ctx.dataStore.getClinicalNote(input.noteId);
+        if (note.status !== "pending-review" || !note.consultationId) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Items can only be suggested for a consultation note under review" });
+        }
+        await requireTenantConsultation(ctx, note.consultationId);
+
+        const jobId = await new MbsQueueService().queueSuggestionGeneration({ tenantId: ctx.tenant.id, noteId: note.id });
+        return { success: true, jobId };
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to regenerate MBS suggestions");
+      }
+    }),
+});
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, tenantClinicianProcedure, tenantProcedure } from "@/server/api/trpc";
+import { requireTenantConsultation, toClinicalTRPCError } from "@/server/api/clinical-trpc";
+import { amendClinicalNoteSchema, createClinicalNoteSchema, updateClinicalNoteSchema } from "@/server/api/clinical-schemas";
+import { queueMbsSuggestionsForNote } from "@/server/services/mbs";
+import { queueNoteWriteBack } from "@/server/services/ehr";
+
+export const notesRouter = createTRPCRouter({
+  /**
+   * Notes written for a consultation, newest first
+   */
+  byConsultation: tenantProcedure
+    .input(z.object({ consultationId: z.string().min(1) }))
+    .query(async ({ ctx, input }) => {
+      try {
+        await requireTenantConsultation(ctx, input.consultationId);
+        return await ctx.dataStore.getConsultationNotes(input.consultationId);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to get consultation notes");
+      }
+    }),
+
+  /**
+   * A patient's most recent notes across consultations
+   */
+  byPatient: tenantProcedure
+    .input(z.object({ patientId: z.string().min(1) }))
+    .query(async ({ ctx, input }) => {
+      try {
+        const context = await ctx.dataStore.getPatientContext(input.patientId);
+        return context.recentNotes ?? [];
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to get patient notes");
+      }
+    }),
+
+  create: tenantProcedure
+    .input(z.object({
+      patientId: z.string().min(1),
+      note: createClinicalNoteSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        if (input.note.consultationId) {
+          const consultation = await requireTenantConsultation(ctx, input.note.consultationId);
+          if (consultation.patientId !== input.patientId) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Consultation belongs to a different patient" });
+          }
+        }
+
+        const note = await ctx.dataStore.createClinicalNote(input.patientId, input.note);
+        await queueMbsSuggestionsForNote(ctx.tenant.id, note);
+        return note;
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to create clinical note");
+      }
+    }),
+
+  /**
+   * Edit a note or move it through the review workflow; signed notes must be amended instead.
+   * EHR-integrated clinics have notes written to their EHR once they're signed.
+   */
+  update: tenantClinicianProcedure
+    .input(z.object({
+      noteId: z.string().min(1),
+      updates: updateClinicalNoteSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const note = await ctx.dataStore.updateClinicalNote(input.noteId, input.updates, ctx.session.user.id);
+        if (input.updates.status === "pending-review") {
+          await queueMbsSuggestionsForNote(ctx.tenant.id, note);
+        }
+        if (input.updates.status === "signed") {
+          await queueNoteWriteBack(ctx.dataStore, ctx.tenant, note, ctx.session.user.id);
+        }
+        return note;
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to update clinical note");
+      }
+    }),
+
+  /**
+   * Amend a signed note, keeping the signed version in its history
+   */
+  amend: tenantClinicianProcedure
+    .input(z.object({
+      noteId: z.string().min(1),
+      amendment: amendClinicalNoteSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await ctx.dataStore.amendClinicalNote(input.noteId, { ...input.amendment, authorId: ctx.session.user.id });
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to amend clinical note");
+      }
+    }),
+});
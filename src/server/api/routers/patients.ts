@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { createTRPCRouter, tenantProcedure } from "@/server/api/trpc";
+import { requireStandaloneMode, toClinicalTRPCError } from "@/server/api/clinical-trpc";
+import { createPatientSchema, updatePatientSchema } from "@/server/api/clinical-schemas";
+import { getEHRPatientContext } from "@/services";
+
+export const patientsRouter = createTRPCRouter({
+  /**
+   * A patient's demographics
+   */
+  get: tenantProcedure
+    .input(z.object({ patientId: z.string().min(1) }))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await ctx.dataStore.getPatientSummary(input.patientId);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to get patient");
+      }
+    }),
+
+  /**
+   * Medications, allergies, alerts and recent notes shown alongside a consultation.
+   * EHR-integrated clinics get what was last read from their EHR, marked stale
+   * while it's read again.
+   */
+  context: tenantProcedure
+    .input(z.object({ patientId: z.string().min(1) }))
+    .query(async ({ ctx, input }) => {
+      try {
+        if (ctx.tenant.operatingMode === "ehr-integrated") {
+          return await getEHRPatientContext(ctx.tenant.id, ctx.dataStore, input.patientId, ctx.session.user.id);
+        }
+        return await ctx.dataStore.getPatientContext(input.patientId);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to get patient context");
+      }
+    }),
+
+  search: tenantProcedure
+    .input(z.object({
+      query: z.string().trim().min(1).max(100),
+      limit: z.number().int().min(1).max(50).default(20),
+    }))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await ctx.dataStore.searchPatients(input.query, input.limit);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to search patients");
+      }
+    }),
+
+  /**
+   * Patients ordered by their most recent consultation
+   */
+  recent: tenantProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(50).default(10) }).default({}))
+    .query(async ({ ctx, input }) => {
+      try {
+        return await ctx.dataStore.getRecentPatients(input.limit);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to get recent patients");
+      }
+    }),
+
+  create: tenantProcedure
+    .input(createPatientSchema)
+    .mutation(async ({ ctx, input }) => {
+      requireStandaloneMode(ctx, "Patient registration");
+
+      try {
+        return await ctx.dataStore.createPatient({ ...input, source: "aria-scribe" });
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to create patient");
+      }
+    }),
+
+  update: tenantProcedure
+    .input(z.object({
+      patientId: z.string().min(1),
+      updates: updatePatientSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      requireStandaloneMode(ctx, "Patient details");
+
+      try {
+        return await ctx.dataStore.updatePatient(input.patientId, input.updates);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to update patient");
+      }
+    }),
+});
@@ -0,0 +1,162 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  tenantAdminProcedure,
+  tenantProcedure,
+} from "@/server/api/trpc";
+import { toClinicalTRPCError } from "@/server/api/clinical-trpc";
+import {
+  addTenantMember,
+  getTenantMembers,
+  getTenantMembership,
+  getUserMemberships,
+  removeTenantMember,
+  resolveActiveMembership,
+  setSessionActiveTenant,
+  updateTenantMemberProviderNumber,
+  updateTenantMemberRole,
+  type TenantRole,
+} from "@/server/datastore";
+import { providerNumberSchema } from "@/server/api/clinical-schemas";
+
+const tenantRoleSchema = z.enum([
+  "owner",
+  "clinician",
+  "nurse",
+  "receptionist",
+  "practice-manager",
+]) satisfies z.ZodType<TenantRole>;
+
+/**
+ * Only owners can make or unmake other owners
+ */
+function requireOwnerForOwnerRole(callerRole: TenantRole, ...roles: TenantRole[]): void {
+  if (roles.includes("owner") && callerRole !== "owner") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only clinic owners can change who owns the clinic" });
+  }
+}
+
+export const tenantsRouter = createTRPCRouter({
+  /**
+   * Clinics the user belongs to, with the one this session is working in marked active
+   */
+  memberships: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const [memberships, active] = await Promise.all([
+        getUserMemberships(ctx.session.user.id),
+        resolveActiveMembership(ctx.session.user.id, ctx.session.session.activeTenantId),
+      ]);
+
+      return memberships.map(membership => ({
+        tenantId: membership.tenantId,
+        tenantName: membership.tenantName,
+        role: membership.role,
+        isActive: membership.tenantId === active?.tenantId,
+      }));
+    } catch (error) {
+      throw toClinicalTRPCError(error, "Failed to get clinics");
+    }
+  }),
+
+  /**
+   * Switch the clinic this session is working in
+   */
+  setActive: protectedProcedure
+    .input(z.object({ tenantId: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const membership = await setSessionActiveTenant(ctx.session.session.id, ctx.session.user.id, input.tenantId);
+        return { tenantId: membership.tenantId, tenantName: membership.tenantName, role: membership.role };
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to switch clinic");
+      }
+    }),
+
+  /**
+   * The active clinic and the user's role there
+   */
+  current: tenantProcedure.query(({ ctx }) => ({
+    id: ctx.tenant.id,
+    name: ctx.tenant.name,
+    operatingMode: ctx.tenant.operatingMode,
+    role: ctx.tenantRole,
+  })),
+
+  members: tenantAdminProcedure.query(async ({ ctx }) => {
+    try {
+      return await getTenantMembers(ctx.tenant.id);
+    } catch (error) {
+      throw toClinicalTRPCError(error, "Failed to get clinic members");
+    }
+  }),
+
+  /**
+   * Add an existing account to the clinic
+   */
+  addMember: tenantAdminProcedure
+    .input(z.object({
+      email: z.string().trim().email(),
+      role: tenantRoleSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      requireOwnerForOwnerRole(ctx.tenantRole, input.role);
+
+      try {
+        return await addTenantMember(ctx.tenant.id, input.email, input.role);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to add clinic member");
+      }
+    }),
+
+  updateMemberRole: tenantAdminProcedure
+    .input(z.object({
+      userId: z.string().min(1),
+      role: tenantRoleSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const existing = await getTenantMembership(input.userId, ctx.tenant.id);
+        if (existing) {
+          requireOwnerForOwnerRole(ctx.tenantRole, existing.role, input.role);
+        }
+
+        return await updateTenantMemberRole(ctx.tenant.id, input.userId, input.role);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to update clinic member");
+      }
+    }),
+
+  /**
+   * The Medicare provider number a member's claims are made under, null to clear it
+   */
+  updateMemberProviderNumber: tenantAdminProcedure
+    .input(z.object({
+      userId: z.string().min(1),
+      providerNumber: providerNumberSchema.nullable(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await updateTenantMemberProviderNumber(ctx.tenant.id, input.userId, input.providerNumber);
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to update provider number");
+      }
+    }),
+
+  removeMember: tenantAdminProcedure
+    .input(z.object({ userId: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const existing = await getTenantMembership(input.userId, ctx.tenant.id);
+        if (existing) {
+          requireOwnerForOwnerRole(ctx.tenantRole, existing.role);
+        }
+
+        await removeTenantMember(ctx.tenant.id, input.userId);
+        return { success: true };
+      } catch (error) {
+        throw toClinicalTRPCError(error, "Failed to remove clinic member");
+      }
+    }),
+});
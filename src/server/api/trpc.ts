@@ -13,6 +13,14 @@ import { auth } from "@/server/auth";
 import { serverEnv } from "@/env";
 
 import { db } from "@/server/db";
+import {
+  getDataStore,
+  getTenantConfig,
+  resolveActiveMembership,
+  setTenantContext,
+  TENANT_ADMIN_ROLES,
+  TENANT_CLINICIAN_ROLES,
+} from "@/server/datastore";
 
 /**
  * 1. CONTEXT
@@ -160,3 +168,67 @@ export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
     },
   });
 });
+
+/**
+ * Tenant procedure
+ *
+ * For procedures that work with a clinic's data. Resolves the session's active clinic from the
+ * user's memberships, sets it as the tenant for row-level security (`set_tenant`), and exposes
+ * the clinic as `ctx.tenant`, the user's role there as `ctx.tenantRole` and its DataStore as
+ * `ctx.dataStore`.
+ */
+export const tenantProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  const membership = await resolveActiveMembership(
+    ctx.session.user.id,
+    ctx.session.session.activeTenantId,
+  );
+  const tenant = membership ? await getTenantConfig(membership.tenantId) : null;
+  if (!membership || !tenant) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "No clinic associated with this account",
+    });
+  }
+
+  await setTenantContext(tenant.id);
+
+  return next({
+    ctx: {
+      tenant,
+      tenantRole: membership.role,
+      dataStore: await getDataStore(tenant),
+    },
+  });
+});
+
+/**
+ * Tenant admin procedure
+ *
+ * A tenant procedure that also checks the user manages the clinic (owner or practice manager).
+ */
+export const tenantAdminProcedure = tenantProcedure.use(({ ctx, next }) => {
+  if (!TENANT_ADMIN_ROLES.includes(ctx.tenantRole)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only clinic owners and practice managers can do this",
+    });
+  }
+
+  return next();
+});
+
+/**
+ * Tenant clinician procedure
+ *
+ * A tenant procedure that also checks the user provides care at the clinic (owner, clinician or nurse).
+ */
+export const tenantClinicianProcedure = tenantProcedure.use(({ ctx, next }) => {
+  if (!TENANT_CLINICIAN_ROLES.includes(ctx.tenantRole)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only clinicians and nurses can do this",
+    });
+  }
+
+  return next();
+});
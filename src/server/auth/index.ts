@@ -169,6 +169,14 @@ export const auth = betterAuth({
   session: {
     expiresIn: 60 * 60 * 24 * 7, // 7 days
     updateAge: 60 * 60 * 24, // 1 day (every 1 day the session expiration is updated)
+    additionalFields: {
+      // switched through the tenants router, which checks membership first
+      activeTenantId: {
+        type: "string",
+        required: false,
+        input: false,
+      },
+    },
   },
   user: {
     additionalFields: {
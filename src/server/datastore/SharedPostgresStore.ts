@@ -6,12 +6,26 @@
  * we've defined in the database.
  */
 
+import { Prisma } from '@/generated/prisma';
 import type { 
   PrismaClient, 
   Consultation, 
   Patient, 
-  ClinicalNote as PrismaClinicalNote 
+  ClinicalNote as PrismaClinicalNote,
+  TranscriptSegment as PrismaTranscriptSegment,
+  NoteTemplate as PrismaNoteTemplate,
+  NoteTemplateVersion as PrismaNoteTemplateVersion,
+  NoteCitation as PrismaNoteCitation,
+  NoteVersion as PrismaNoteVersion,
+  NoteStatus as PrismaNoteStatus,
+  Export as PrismaExport,
+  ClaimBatch as PrismaClaimBatch,
+  ClaimLine as PrismaClaimLine,
+  EhrConnection as PrismaEhrConnection,
+  EhrWriteBack as PrismaEhrWriteBack,
+  PatientContextSection as PrismaPatientContextSection
 } from '@/generated/prisma';
+import superjson, { type SuperJSONResult } from 'superjson';
 import type {
   DataStore,
   ClinicalNoteInput,
@@ -20,13 +34,63 @@ import type {
   CreateConsultationInput,
   UpdateConsultationInput,
   ConsultationRecord,
+  TranscriptSegmentInput,
+  RelabelSpeakerInput,
+  NoteTemplateInput,
+  CreateNoteTemplateInput,
+  AmendClinicalNoteInput,
+  CreateExportInput,
+  UpdateExportInput,
+  ExportRecord,
+  MbsSuggestionInput,
+  MbsSuggestionActionInput,
+  MbsSuggestionRecord,
+  MbsClaimQuery,
+  MbsClaimRecord,
+  ClaimableSuggestionQuery,
+  ClaimLineInput,
+  ClaimLineRecord,
+  ClaimLineStatusInput,
+  ClaimBatchQuery,
+  ClaimBatchRecord,
+  ClaimBatchDetail,
+  ClaimStatus,
+  BillingActivityQuery,
+  BillingActivity,
+  EhrConnectionInput,
+  EhrConnectionRecord,
+  EhrBridgeInput,
+  EhrAuthorizationInput,
+  EhrWriteBackInput,
+  EhrWriteBackAttempt,
+  EhrWriteBackRecord,
+  CachedPatientContext,
+  PatientContextSection,
+  MbsItemFees,
+  MbsSuggestionStatus,
   TenantConfig
 } from './types';
 
 import {
   DataStoreError,
   PatientNotFoundError,
-  ConsultationNotFoundError
+  ConsultationNotFoundError,
+  TranscriptValidationError,
+  NoteTemplateNotFoundError,
+  NoteTemplateValidationError,
+  NoteNotFoundError,
+  NoteValidationError,
+  InvalidNoteTransitionError,
+  NoteLockedError,
+  ExportNotFoundError,
+  MbsSuggestionNotFoundError,
+  MbsSuggestionValidationError,
+  ClaimBatchNotFoundError,
+  ClaimLineNotFoundError,
+  InvalidClaimTransitionError,
+  EhrConnectionNotFoundError,
+  EhrWriteBackNotFoundError,
+  EhrWriteBackValidationError
 } from './types';
 
 import type {
@@ -36,19 +100,70 @@ import type {
   PatientContext,
   ClinicalNote,
   DashboardStats,
-  PendingAction
+  PendingAction,
+  TranscriptSegment,
+  NoteTemplate,
+  NoteTemplateSection,
+  NoteTemplateVersion,
+  NoteCitation,
+  NoteCitationEvidence,
+  ClinicalNoteVersion
 } from '@/types/clinical';
 
 import { db } from '@/server/db';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import { formatTranscriptText, MAX_SPEAKER_LABEL_LENGTH } from '@/lib/transcript';
+import { BUILT_IN_NOTE_TEMPLATES } from '@/lib/note-templates';
+import { canTransitionNote, isNoteLocked } from '@/lib/note-status';
+import { canTransitionClaim } from '@/lib/claim-status';
+import { formatNoteTemplateDsl, parseNoteTemplateDsl, toTemplateKey, type ParsedNoteTemplate } from '@/lib/note-template-dsl';
+
+const mbsSuggestionInclude = {
+  mbsItem: { select: { description: true, scheduleFee: true } },
+} satisfies Prisma.MbsSuggestionInclude;
+
+type PrismaMbsSuggestion = Prisma.MbsSuggestionGetPayload<{ include: typeof mbsSuggestionInclude }>;
+
+const mbsItemFeeSelect = {
+  itemNumber: true,
+  description: true,
+  scheduleFee: true,
+  benefit75: true,
+  benefit85: true,
+  benefit100: true,
+} satisfies Prisma.MbsItemVersionSelect & Prisma.MbsItemSelect;
+
+type MbsItemVersionFees = Prisma.MbsItemVersionGetPayload<{ select: typeof mbsItemFeeSelect }>;
+
+// Clears the tokens from an EHR connection's last launch
+const EMPTY_EHR_AUTHORIZATION = {
+  accessToken: null,
+  refreshToken: null,
+  tokenEndpoint: null,
+  tokenExpiresAt: null,
+  grantedScopes: null,
+  authorizedBy: null,
+  authorizedAt: null,
+  refreshError: null,
+} satisfies Prisma.EhrConnectionUpdateInput;
 
 /**
  * PostgreSQL-based DataStore implementation using Prisma with RLS
  */
 export class SharedPostgresStore implements DataStore {
+  private builtInTemplatesSeeded = false;
+
+  // The shared client's extension only adds computed user fields, which the store never reads.
+  // Their union type stops calls type-checking once a model can reach users through relations,
+  // so both client flavours are used through the base client type.
+  private prisma: PrismaClient;
+
   constructor(
     private tenantConfig: TenantConfig,
-    private prisma: PrismaClient | typeof db = db
-  ) {}
+    prisma: PrismaClient | typeof db = db
+  ) {
+    this.prisma = prisma as PrismaClient;
+  }
 
   /**
    * Sanitizes error messages to prevent sensitive data exposure
@@ -78,6 +193,18 @@ export class SharedPostgresStore implements DataStore {
     }
   }
 
+  /**
+   * Runs queries in a transaction with the tenant context set on its connection.
+   * Interactive transactions hold their own connection, so setTenantContext() alone
+   * does not cover them.
+   */
+  private async withTenantTransaction<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT set_tenant(${this.tenantConfig.id}::uuid)`;
+      return fn(tx);
+    });
+  }
+
   // ============================================================================
   // APPOINTMENT MANAGEMENT
   // ============================================================================
@@ -203,6 +330,8 @@ export class SharedPostgresStore implements DataStore {
         gender: (patient.gender === 'OTHER' ? 'Other' : patient.gender as 'M' | 'F' | 'Other' | 'Unknown') ?? 'Unknown',
         phone: patient.phone ?? undefined,
         email: patient.email ?? undefined,
+        medicareNumber: patient.medicareNumber ?? undefined,
+        medicareIrn: patient.medicareIrn ?? undefined,
         lastVisit: patient.consultations[0]?.createdAt,
         totalVisits: patient._count.consultations,
         lastSyncedAt: patient.updatedAt,
@@ -253,9 +382,31 @@ export class SharedPostgresStore implements DataStore {
           content: note.content,
           noteType: (note.noteType?.toUpperCase() as 'PROGRESS' | 'SOAP' | 'ASSESSMENT' | 'PLAN' | 'REFERRAL' | 'OTHER') ?? 'PROGRESS',
           template: note.template,
+          status: note.status === 'pending-review' ? 'PENDING_REVIEW' : 'DRAFT',
           generatedFromAudio: note.generatedFromAudio ?? false,
           transcriptionId: note.transcriptionId,
           aiConfidence: note.aiConfidence,
+          versions: {
+            create: {
+              tenantId: this.tenantConfig.id,
+              version: 1,
+              title: note.title,
+              content: note.content,
+              status: note.status === 'pending-review' ? 'PENDING_REVIEW' : 'DRAFT',
+              change: 'CREATED',
+            },
+          },
+          citations: note.citations && {
+            create: note.citations.map(citation => ({
+              tenantId: this.tenantConfig.id,
+              sectionKey: citation.sectionKey,
+              statementIndex: citation.statementIndex,
+              statement: citation.statement,
+              support: citation.support.toUpperCase().replace('-', '_') as 'SUPPORTED' | 'UNSUPPORTED' | 'PATIENT_RECORD',
+              score: citation.score,
+              evidence: citation.evidence as unknown as Prisma.InputJsonValue,
+            })),
+          },
         },
       });
 
@@ -270,23 +421,94 @@ export class SharedPostgresStore implements DataStore {
     }
   }
 
-  async updateClinicalNote(noteId: string, updates: Partial<ClinicalNote>): Promise<ClinicalNote> {
+  async getClinicalNote(noteId: string): Promise<ClinicalNote> {
     await this.setTenantContext();
-    
+
     try {
-      const clinicalNote = await this.prisma.clinicalNote.update({
-        where: { id: noteId },
-        data: {
-          title: updates.title,
-          content: updates.content,
-          status: updates.status?.toUpperCase().replace('-', '_') as 'DRAFT' | 'PENDING_REVIEW' | 'FINAL' | 'AMENDED' | 'SIGNED',
-          manuallyEdited: true,
-          signedAt: updates.status === 'signed' ? new Date() : (updates.status?.toUpperCase().replace('-', '_') === 'SIGNED' ? new Date() : undefined),
-        },
+      const note = await this.prisma.clinicalNote.findFirst({
+        where: { id: noteId, tenantId: this.tenantConfig.id },
+      });
+      if (!note) {
+        throw new NoteNotFoundError(noteId, this.tenantConfig.id);
+      }
+
+      return this.mapPrismaNoteToClientNote(note);
+    } catch (error) {
+      if (error instanceof NoteNotFoundError) throw error;
+      throw new DataStoreError(
+        `Failed to get clinical note: ${this.sanitizeError(error)}`,
+        'NOTE_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async updateClinicalNote(noteId: string, updates: Partial<ClinicalNote>, authorId?: string): Promise<ClinicalNote> {
+    try {
+      const clinicalNote = await this.withTenantTransaction(async (tx) => {
+        const current = await tx.clinicalNote.findFirst({
+          where: { id: noteId, tenantId: this.tenantConfig.id },
+        });
+        if (!current) {
+          throw new NoteNotFoundError(noteId, this.tenantConfig.id);
+        }
+
+        const currentStatus = this.toClientNoteStatus(current.status);
+        const status = updates.status ?? currentStatus;
+        const title = updates.title ?? current.title;
+        const content = updates.content ?? current.content;
+        const isEdit = title !== current.title || content !== current.content;
+
+        if (isEdit && isNoteLocked(currentStatus)) {
+          throw new NoteLockedError(noteId, this.tenantConfig.id);
+        }
+        if (status !== currentStatus && !canTransitionNote(currentStatus, status)) {
+          throw new InvalidNoteTransitionError(currentStatus, status, this.tenantConfig.id);
+        }
+
+        // Saving without changes shouldn't add noise to the version history
+        if (!isEdit && status === currentStatus) {
+          return current;
+        }
+
+        const version = current.version + 1;
+        const prismaStatus = this.toPrismaNoteStatus(status);
+        await tx.noteVersion.create({
+          data: {
+            tenantId: this.tenantConfig.id,
+            noteId,
+            version,
+            title,
+            content,
+            status: prismaStatus,
+            change: isEdit ? 'EDITED' : 'STATUS_CHANGED',
+            authorId,
+          },
+        });
+
+        return tx.clinicalNote.update({
+          where: { id: noteId },
+          data: {
+            title,
+            content,
+            status: prismaStatus,
+            version,
+            ...(isEdit && { manuallyEdited: true }),
+            ...(status === 'signed' && { signedAt: new Date() }),
+          },
+        });
       });
 
       return this.mapPrismaNoteToClientNote(clinicalNote);
     } catch (error) {
+      if (
+        error instanceof NoteNotFoundError ||
+        error instanceof NoteLockedError ||
+        error instanceof InvalidNoteTransitionError
+      ) {
+        throw error;
+      }
       throw new DataStoreError(
         `Failed to update clinical note: ${this.sanitizeError(error)}`,
         'NOTE_UPDATE_ERROR',
@@ -296,6 +518,138 @@ export class SharedPostgresStore implements DataStore {
     }
   }
 
+  async amendClinicalNote(noteId: string, amendment: AmendClinicalNoteInput): Promise<ClinicalNote> {
+    const reason = amendment.reason.trim();
+    if (!reason) {
+      throw new NoteValidationError('An amendment needs a reason', this.tenantConfig.id);
+    }
+    if (!amendment.content.trim()) {
+      throw new NoteValidationError('An amended note cannot be empty', this.tenantConfig.id);
+    }
+
+    try {
+      const clinicalNote = await this.withTenantTransaction(async (tx) => {
+        const current = await tx.clinicalNote.findFirst({
+          where: { id: noteId, tenantId: this.tenantConfig.id },
+        });
+        if (!current) {
+          throw new NoteNotFoundError(noteId, this.tenantConfig.id);
+        }
+
+        // Unsigned notes are edited in place; amendments exist to keep the signed record intact
+        const currentStatus = this.toClientNoteStatus(current.status);
+        if (!isNoteLocked(currentStatus)) {
+          throw new InvalidNoteTransitionError(currentStatus, 'amended', this.tenantConfig.id);
+        }
+
+        const version = current.version + 1;
+        const title = amendment.title ?? current.title;
+        await tx.noteVersion.create({
+          data: {
+            tenantId: this.tenantConfig.id,
+            noteId,
+            version,
+            title,
+            content: amendment.content,
+            status: 'AMENDED',
+            change: 'AMENDED',
+            authorId: amendment.authorId,
+            reason,
+            amendsVersion: current.version,
+          },
+        });
+
+        return tx.clinicalNote.update({
+          where: { id: noteId },
+          data: {
+            title,
+            content: amendment.content,
+            status: 'AMENDED',
+            version,
+            manuallyEdited: true,
+          },
+        });
+      });
+
+      return this.mapPrismaNoteToClientNote(clinicalNote);
+    } catch (error) {
+      if (error instanceof NoteNotFoundError || error instanceof InvalidNoteTransitionError) throw error;
+      throw new DataStoreError(
+        `Failed to amend clinical note: ${this.sanitizeError(error)}`,
+        'NOTE_AMEND_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async getClinicalNoteVersions(noteId: string): Promise<ClinicalNoteVersion[]> {
+    // Verifies the note belongs to this tenant
+    await this.getClinicalNote(noteId);
+
+    try {
+      const versions = await this.prisma.noteVersion.findMany({
+        where: { tenantId: this.tenantConfig.id, noteId },
+        orderBy: { version: 'desc' },
+      });
+
+      return versions.map(version => this.mapPrismaNoteVersion(version));
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get clinical note versions: ${this.sanitizeError(error)}`,
+        'NOTE_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async getConsultationNotes(consultationId: string): Promise<ClinicalNote[]> {
+    await this.setTenantContext();
+
+    try {
+      const notes = await this.prisma.clinicalNote.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          consultationId,
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return notes.map(note => this.mapPrismaNoteToClientNote(note));
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get consultation notes: ${this.sanitizeError(error)}`,
+        'NOTE_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async getNoteCitations(noteId: string): Promise<NoteCitation[]> {
+    await this.setTenantContext();
+
+    try {
+      const citations = await this.prisma.noteCitation.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          noteId,
+        },
+        orderBy: { statementIndex: 'asc' },
+      });
+
+      return citations.map(citation => this.mapPrismaNoteCitation(citation));
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get note citations: ${this.sanitizeError(error)}`,
+        'NOTE_CITATION_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
   // ============================================================================
   // DASHBOARD DATA
   // ============================================================================
@@ -324,6 +678,14 @@ export class SharedPostgresStore implements DataStore {
           },
         }),
       ]);
+      const todaysCitations = {
+        tenantId: this.tenantConfig.id,
+        note: { createdAt: { gte: startOfDay, lte: endOfDay } },
+      };
+      const [supportedStatements, unsupportedStatements] = await Promise.all([
+        this.prisma.noteCitation.count({ where: { ...todaysCitations, support: 'SUPPORTED' } }),
+        this.prisma.noteCitation.count({ where: { ...todaysCitations, support: 'UNSUPPORTED' } }),
+      ]);
 
       const completed = consultations.filter(c => c.status === 'COMPLETE').length;
       const scheduled = consultations.length;
@@ -342,7 +704,7 @@ export class SharedPostgresStore implements DataStore {
         averageConsultationTime: this.calculateAverageConsultationTime(consultations),
         timesSaved: completed * 15, // Assume 15 minutes saved per consultation
         notesGenerated: notes.length,
-        transcriptionAccuracy: 95, // Mock value for now
+        transcriptionAccuracy: this.calculateTranscriptSupportRate(supportedStatements, unsupportedStatements),
       };
     } catch (error) {
       throw new DataStoreError(
@@ -354,10 +716,26 @@ export class SharedPostgresStore implements DataStore {
     }
   }
 
+  /**
+   * Write-backs the EHR didn't take, then notes awaiting review
+   */
   async getPendingActions(_clinicianId: string): Promise<PendingAction[]> {
     await this.setTenantContext();
     
     try {
+      const failedWriteBacks = await this.prisma.ehrWriteBack.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          status: { in: ['FAILED', 'CONFLICT'] },
+        },
+        include: {
+          note: { include: { patient: true } },
+          consultation: { include: { patient: true } },
+        },
+        orderBy: { updatedAt: 'desc' },
+        take: 10,
+      });
+
       const notes = await this.prisma.clinicalNote.findMany({
         where: {
           tenantId: this.tenantConfig.id,
@@ -371,7 +749,29 @@ export class SharedPostgresStore implements DataStore {
         take: 10,
       });
 
-      return notes.map(note => ({
+      const syncFailed = failedWriteBacks.map((writeBack): PendingAction => {
+        const patient = writeBack.note?.patient ?? writeBack.consultation?.patient;
+        const consultationId = writeBack.note?.consultationId ?? writeBack.consultationId;
+        const reason = writeBack.lastError ?? 'The EHR did not accept it';
+        return {
+          id: writeBack.id,
+          type: 'sync-failed',
+          priority: 'high',
+          title: writeBack.note
+            ? `Note not saved to EHR: ${writeBack.note.title}`
+            : 'Appointment status not saved to EHR',
+          description: writeBack.status === 'CONFLICT'
+            ? `${reason}. Retrying will write over the change made in the EHR.`
+            : reason,
+          patientName: patient ? `${patient.firstName} ${patient.lastName}` : undefined,
+          appointmentTime: writeBack.appointmentStart ?? undefined,
+          actionUrl: consultationId ? `/consultations/${consultationId}` : undefined,
+          createdAt: writeBack.updatedAt,
+          dismissible: false,
+        };
+      });
+
+      return [...syncFailed, ...notes.map(note => ({
         id: note.id,
         type: 'note-review' as const,
         priority: 'medium' as const,
@@ -382,7 +782,7 @@ export class SharedPostgresStore implements DataStore {
         actionUrl: `/consultations/${note.consultationId}`,
         createdAt: note.createdAt,
         dismissible: true,
-      }));
+      }))];
     } catch (error) {
       throw new DataStoreError(
         `Failed to get pending actions: ${this.sanitizeError(error)}`,
@@ -411,6 +811,8 @@ export class SharedPostgresStore implements DataStore {
           phone: patient.phone,
           email: patient.email,
           address: patient.address,
+          medicareNumber: patient.medicareNumber,
+          medicareIrn: patient.medicareIrn,
           source: (patient.source?.toUpperCase().replace('-', '_') as 'ARIA_SCRIBE' | 'EHR' | 'IMPORTED') ?? 'ARIA_SCRIBE',
         },
       });
@@ -440,6 +842,8 @@ export class SharedPostgresStore implements DataStore {
           phone: updates.phone,
           email: updates.email,
           address: updates.address,
+          medicareNumber: updates.medicareNumber,
+          medicareIrn: updates.medicareIrn,
         },
       });
 
@@ -524,8 +928,11 @@ export class SharedPostgresStore implements DataStore {
         data: {
           tenantId: this.tenantConfig.id,
           patientId: consultation.patientId,
+          clinicianId: consultation.clinicianId,
           mode: consultation.mode.toUpperCase().replace('-', '_') as 'STANDALONE' | 'EHR_INTEGRATED',
           selectedTemplate: consultation.selectedTemplate,
+          ehrAppointmentId: consultation.ehrAppointment?.id,
+          ehrAppointmentStart: consultation.ehrAppointment?.scheduledTime,
           status: 'READY',
         },
       });
@@ -534,12 +941,17 @@ export class SharedPostgresStore implements DataStore {
         id: newConsultation.id,
         tenantId: newConsultation.tenantId,
         patientId: newConsultation.patientId,
+        clinicianId: newConsultation.clinicianId ?? undefined,
         mode: newConsultation.mode.toLowerCase().replace('_', '-') as 'standalone' | 'ehr-integrated',
         status: newConsultation.status.toLowerCase() as any,
         recordingStartTime: newConsultation.recordingStartTime ?? undefined,
         recordingEndTime: newConsultation.recordingEndTime ?? undefined,
         audioFileUrl: newConsultation.audioFileUrl ?? undefined,
         transcriptionText: newConsultation.transcriptionText ?? undefined,
+        transcriptionProgress: newConsultation.transcriptionProgress ?? undefined,
+        transcriptionError: newConsultation.transcriptionError ?? undefined,
+        noteGenerationProgress: newConsultation.noteGenerationProgress ?? undefined,
+        noteGenerationError: newConsultation.noteGenerationError ?? undefined,
         selectedTemplate: newConsultation.selectedTemplate ?? undefined,
         createdAt: newConsultation.createdAt,
         updatedAt: newConsultation.updatedAt,
@@ -565,7 +977,10 @@ export class SharedPostgresStore implements DataStore {
           recordingStartTime: updates.recordingStartTime,
           recordingEndTime: updates.recordingEndTime,
           audioFileUrl: updates.audioFileUrl,
-          transcriptionText: updates.transcriptionText,
+          transcriptionProgress: updates.transcriptionProgress,
+          transcriptionError: updates.transcriptionError,
+          noteGenerationProgress: updates.noteGenerationProgress,
+          noteGenerationError: updates.noteGenerationError,
           selectedTemplate: updates.selectedTemplate,
         },
       });
@@ -597,12 +1012,17 @@ export class SharedPostgresStore implements DataStore {
         id: consultation.id,
         tenantId: consultation.tenantId,
         patientId: consultation.patientId,
+        clinicianId: consultation.clinicianId ?? undefined,
         mode: consultation.mode.toLowerCase().replace('_', '-') as 'standalone' | 'ehr-integrated',
         status: consultation.status.toLowerCase() as any,
         recordingStartTime: consultation.recordingStartTime ?? undefined,
         recordingEndTime: consultation.recordingEndTime ?? undefined,
         audioFileUrl: consultation.audioFileUrl ?? undefined,
         transcriptionText: consultation.transcriptionText ?? undefined,
+        transcriptionProgress: consultation.transcriptionProgress ?? undefined,
+        transcriptionError: consultation.transcriptionError ?? undefined,
+        noteGenerationProgress: consultation.noteGenerationProgress ?? undefined,
+        noteGenerationError: consultation.noteGenerationError ?? undefined,
         selectedTemplate: consultation.selectedTemplate ?? undefined,
         createdAt: consultation.createdAt,
         updatedAt: consultation.updatedAt,
@@ -619,119 +1039,2036 @@ export class SharedPostgresStore implements DataStore {
   }
 
   // ============================================================================
-  // PRIVATE HELPER METHODS
+  // TRANSCRIPTS
   // ============================================================================
 
-  private mapConsultationToAppointment(consultation: Consultation & { patient: Patient }, clinicianId: string): Appointment {
-    return {
-      id: consultation.id,
-      ehrAppointmentId: consultation.id,
-      patientId: consultation.patientId,
-      clinicianId,
-      scheduledTime: consultation.createdAt,
-      duration: 30, // Default 30 minutes
-      appointmentType: 'Consultation',
-      status: this.mapConsultationStatusToAppointmentStatus(consultation.status),
-      patientName: `${consultation.patient.firstName} ${consultation.patient.lastName}`,
-      patientAge: consultation.patient.dateOfBirth ? this.calculateAge(consultation.patient.dateOfBirth) : 0,
-      patientGender: (consultation.patient.gender === 'OTHER' ? 'Other' : consultation.patient.gender as 'M' | 'F' | 'Other' | 'Unknown') ?? 'Unknown',
-      patientEmail: consultation.patient.email ?? '',
-      consultationId: consultation.id,
-              recordingStartTime: consultation.recordingStartTime ?? undefined,
-        recordingEndTime: consultation.recordingEndTime ?? undefined,
-      createdAt: consultation.createdAt,
-      updatedAt: consultation.updatedAt,
-    };
-  }
+  async getTranscriptSegments(consultationId: string): Promise<TranscriptSegment[]> {
+    await this.setTenantContext();
 
-  private mapConsultationStatusToAppointmentStatus(status: string): AppointmentStatus {
-    const statusMap: Record<string, AppointmentStatus> = {
-      'READY': 'scheduled',
-      'RECORDING': 'recording',
-      'PROCESSING': 'processing',
-      'REVIEW': 'processing',
-      'COMPLETE': 'completed',
-      'ERROR': 'cancelled',
-    };
-    return statusMap[status] || 'scheduled';
-  }
+    try {
+      const segments = await this.prisma.transcriptSegment.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          consultationId,
+        },
+        orderBy: { sequence: 'asc' },
+      });
 
-  private mapAppointmentStatusToConsultationStatus(status: AppointmentStatus): string {
-    const statusMap: Record<AppointmentStatus, string> = {
-      'scheduled': 'READY',
-      'waiting': 'READY',
-      'in-progress': 'RECORDING',
-      'recording': 'RECORDING',
-      'processing': 'PROCESSING',
-      'completed': 'COMPLETE',
-      'cancelled': 'ERROR',
-      'no-show': 'ERROR',
-    };
-    return statusMap[status] ?? 'READY';
+      return segments.map(segment => this.mapPrismaTranscriptSegment(segment));
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get transcript segments: ${this.sanitizeError(error)}`,
+        'TRANSCRIPT_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
   }
 
-  private mapPrismaNoteToClientNote(note: PrismaClinicalNote): ClinicalNote {
-    return {
-      id: note.id,
-      ehrNoteId: note.id,
-      patientId: note.patientId,
-      clinicianId: 'current-clinician', // TODO: Get from session
-      consultationId: note.consultationId ?? undefined,
-      title: note.title,
-      content: note.content,
-      noteType: note.noteType.toLowerCase() as 'progress' | 'soap' | 'assessment' | 'plan' | 'referral' | 'other',
-      template: note.template ?? undefined,
-      status: note.status.toLowerCase().replace('_', '-') as 'draft' | 'pending-review' | 'final' | 'amended' | 'signed',
-      createdAt: note.createdAt,
-      updatedAt: note.updatedAt,
-      signedAt: note.signedAt ?? undefined,
-      generatedFromAudio: note.generatedFromAudio,
-      transcriptionId: note.transcriptionId ?? undefined,
-      aiConfidence: note.aiConfidence ?? undefined,
-      manuallyEdited: note.manuallyEdited,
-    };
-  }
+  async replaceTranscriptSegments(consultationId: string, segments: TranscriptSegmentInput[]): Promise<TranscriptSegment[]> {
+    for (const segment of segments) {
+      this.validateSpeakerLabel(segment.speaker);
+      if (segment.endMs < segment.startMs) {
+        throw new TranscriptValidationError('Transcript segment ends before it starts', this.tenantConfig.id);
+      }
+    }
 
-  private async getRecentNotes(patientId: string): Promise<ClinicalNote[]> {
-    await this.setTenantContext();
-    
-    const notes = await this.prisma.clinicalNote.findMany({
-      where: {
-        tenantId: this.tenantConfig.id,
-        patientId,
-      },
-      orderBy: { createdAt: 'desc' },
-      take: 5,
-    });
+    // Verifies the consultation exists for this tenant before we touch its transcript
+    await this.getConsultation(consultationId);
 
-    return notes.map(note => this.mapPrismaNoteToClientNote(note));
+    try {
+      await this.withTenantTransaction(async (tx) => {
+        await tx.transcriptSegment.deleteMany({
+          where: { tenantId: this.tenantConfig.id, consultationId },
+        });
+        await tx.transcriptSegment.createMany({
+          data: segments.map((segment, index) => ({
+            tenantId: this.tenantConfig.id,
+            consultationId,
+            sequence: index,
+            speaker: segment.speaker.trim(),
+            startMs: Math.round(segment.startMs),
+            endMs: Math.round(segment.endMs),
+            text: segment.text,
+            confidence: segment.confidence,
+            audioSegment: segment.audioSegment ?? 0,
+            audioOffsetMs: Math.round(segment.audioOffsetMs ?? 0),
+          })),
+        });
+        await tx.consultation.update({
+          where: { id: consultationId },
+          data: { transcriptionText: formatTranscriptText(segments) },
+        });
+      });
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to save transcript: ${this.sanitizeError(error)}`,
+        'TRANSCRIPT_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+
+    return this.getTranscriptSegments(consultationId);
   }
 
-  private calculateAge(dateOfBirth: Date): number {
-    const today = new Date();
-    const birthDate = new Date(dateOfBirth);
-    let age = today.getFullYear() - birthDate.getFullYear();
-    const monthDiff = today.getMonth() - birthDate.getMonth();
-    
-    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-      age--;
+  async relabelTranscriptSpeaker(consultationId: string, input: RelabelSpeakerInput): Promise<TranscriptSegment[]> {
+    this.validateSpeakerLabel(input.speaker);
+    if (!input.fromSpeaker && !input.segmentIds?.length) {
+      throw new TranscriptValidationError('Specify the speaker or segments to relabel', this.tenantConfig.id);
     }
-    
-    return age;
+
+    await this.getConsultation(consultationId);
+
+    try {
+      await this.withTenantTransaction(async (tx) => {
+        await tx.transcriptSegment.updateMany({
+          where: {
+            tenantId: this.tenantConfig.id,
+            consultationId,
+            ...(input.fromSpeaker && { speaker: input.fromSpeaker }),
+            ...(input.segmentIds?.length && { id: { in: input.segmentIds } }),
+          },
+          data: { speaker: input.speaker.trim() },
+        });
+
+        const segments = await tx.transcriptSegment.findMany({
+          where: { tenantId: this.tenantConfig.id, consultationId },
+          orderBy: { sequence: 'asc' },
+          select: { speaker: true, text: true },
+        });
+        await tx.consultation.update({
+          where: { id: consultationId },
+          data: { transcriptionText: formatTranscriptText(segments) },
+        });
+      });
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to relabel transcript speaker: ${this.sanitizeError(error)}`,
+        'TRANSCRIPT_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+
+    return this.getTranscriptSegments(consultationId);
   }
 
-  private calculateAverageConsultationTime(consultations: Consultation[]): number {
-    const completedWithTimes = consultations.filter((c): c is Consultation & { recordingStartTime: Date; recordingEndTime: Date } => 
-      c.recordingStartTime != null && c.recordingEndTime != null
-    );
-    
-    if (completedWithTimes.length === 0) return 0;
-    
-    const totalMinutes = completedWithTimes.reduce((sum, c) => {
-      const duration = (c.recordingEndTime.getTime() - c.recordingStartTime.getTime()) / (1000 * 60);
-      return sum + duration;
+  // ============================================================================
+  // NOTE TEMPLATES
+  // ============================================================================
+
+  async listNoteTemplates(options: { includeInactive?: boolean } = {}): Promise<NoteTemplate[]> {
+    await this.seedBuiltInNoteTemplates();
+    await this.setTenantContext();
+
+    try {
+      const templates = await this.prisma.noteTemplate.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          ...(!options.includeInactive && { isActive: true }),
+        },
+        orderBy: [{ isBuiltIn: 'desc' }, { name: 'asc' }],
+      });
+
+      return templates.map(template => this.mapPrismaNoteTemplate(template));
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to list note templates: ${this.sanitizeError(error)}`,
+        'NOTE_TEMPLATE_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async getNoteTemplate(templateId: string): Promise<NoteTemplate> {
+    await this.setTenantContext();
+
+    try {
+      const template = await this.prisma.noteTemplate.findFirst({
+        where: { id: templateId, tenantId: this.tenantConfig.id },
+      });
+
+      if (!template) {
+        throw new NoteTemplateNotFoundError(templateId, this.tenantConfig.id);
+      }
+
+      return this.mapPrismaNoteTemplate(template);
+    } catch (error) {
+      if (error instanceof NoteTemplateNotFoundError) throw error;
+      throw new DataStoreError(
+        `Failed to get note template: ${this.sanitizeError(error)}`,
+        'NOTE_TEMPLATE_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async getNoteTemplateByKey(key: string): Promise<NoteTemplate | null> {
+    await this.seedBuiltInNoteTemplates();
+    await this.setTenantContext();
+
+    try {
+      const template = await this.prisma.noteTemplate.findUnique({
+        where: { tenantId_key: { tenantId: this.tenantConfig.id, key } },
+      });
+
+      return template ? this.mapPrismaNoteTemplate(template) : null;
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get note template: ${this.sanitizeError(error)}`,
+        'NOTE_TEMPLATE_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async createNoteTemplate(input: CreateNoteTemplateInput): Promise<NoteTemplate> {
+    const parsed = this.parseNoteTemplateSource(input.source);
+    const key = toTemplateKey(input.key ?? parsed.name);
+    if (!key) {
+      throw new NoteTemplateValidationError('Template key must contain letters or numbers', this.tenantConfig.id);
+    }
+
+    await this.seedBuiltInNoteTemplates();
+
+    try {
+      const template = await this.withTenantTransaction(async (tx) => {
+        const existing = await tx.noteTemplate.findUnique({
+          where: { tenantId_key: { tenantId: this.tenantConfig.id, key } },
+          select: { id: true },
+        });
+        if (existing) {
+          throw new NoteTemplateValidationError(`A template with the key "${key}" already exists`, this.tenantConfig.id);
+        }
+
+        return tx.noteTemplate.create({
+          data: {
+            tenantId: this.tenantConfig.id,
+            key,
+            ...this.toNoteTemplateData(parsed, input.source),
+            versions: {
+              create: {
+                tenantId: this.tenantConfig.id,
+                version: 1,
+                name: parsed.name,
+                noteType: this.toPrismaNoteType(parsed.noteType),
+                source: input.source,
+                sections: parsed.sections as unknown as Prisma.InputJsonValue,
+                changeSummary: input.changeSummary ?? 'Created',
+                createdBy: input.createdBy,
+              },
+            },
+          },
+        });
+      });
+
+      return this.mapPrismaNoteTemplate(template);
+    } catch (error) {
+      if (error instanceof NoteTemplateValidationError) throw error;
+      throw new DataStoreError(
+        `Failed to create note template: ${this.sanitizeError(error)}`,
+        'NOTE_TEMPLATE_CREATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async updateNoteTemplate(templateId: string, input: NoteTemplateInput): Promise<NoteTemplate> {
+    const parsed = this.parseNoteTemplateSource(input.source);
+
+    try {
+      const template = await this.withTenantTransaction(async (tx) => {
+        const current = await tx.noteTemplate.findFirst({
+          where: { id: templateId, tenantId: this.tenantConfig.id },
+        });
+        if (!current) {
+          throw new NoteTemplateNotFoundError(templateId, this.tenantConfig.id);
+        }
+
+        // Saving without changes shouldn't add noise to the version history
+        if (current.source === input.source) {
+          return current;
+        }
+
+        const version = current.version + 1;
+        await tx.noteTemplateVersion.create({
+          data: {
+            tenantId: this.tenantConfig.id,
+            templateId,
+            version,
+            name: parsed.name,
+            noteType: this.toPrismaNoteType(parsed.noteType),
+            source: input.source,
+            sections: parsed.sections as unknown as Prisma.InputJsonValue,
+            changeSummary: input.changeSummary,
+            createdBy: input.createdBy,
+          },
+        });
+
+        return tx.noteTemplate.update({
+          where: { id: templateId },
+          data: { version, ...this.toNoteTemplateData(parsed, input.source) },
+        });
+      });
+
+      return this.mapPrismaNoteTemplate(template);
+    } catch (error) {
+      if (error instanceof NoteTemplateNotFoundError) throw error;
+      throw new DataStoreError(
+        `Failed to update note template: ${this.sanitizeError(error)}`,
+        'NOTE_TEMPLATE_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async setNoteTemplateActive(templateId: string, isActive: boolean): Promise<NoteTemplate> {
+    // Verifies the template belongs to this tenant
+    await this.getNoteTemplate(templateId);
+
+    try {
+      const template = await this.prisma.noteTemplate.update({
+        where: { id: templateId },
+        data: { isActive },
+      });
+
+      return this.mapPrismaNoteTemplate(template);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to update note template: ${this.sanitizeError(error)}`,
+        'NOTE_TEMPLATE_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async getNoteTemplateVersions(templateId: string): Promise<NoteTemplateVersion[]> {
+    await this.getNoteTemplate(templateId);
+
+    try {
+      const versions = await this.prisma.noteTemplateVersion.findMany({
+        where: { tenantId: this.tenantConfig.id, templateId },
+        orderBy: { version: 'desc' },
+      });
+
+      return versions.map(version => this.mapPrismaNoteTemplateVersion(version));
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get note template versions: ${this.sanitizeError(error)}`,
+        'NOTE_TEMPLATE_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  // ============================================================================
+  // EXPORTS
+  // ============================================================================
+
+  async createExport(input: CreateExportInput): Promise<ExportRecord> {
+    await this.setTenantContext();
+
+    try {
+      const created = await this.prisma.export.create({
+        data: {
+          tenantId: this.tenantConfig.id,
+          consultationId: input.consultationId,
+          format: input.format.toUpperCase() as PrismaExport['format'],
+          fileName: input.fileName,
+          requestedBy: input.requestedBy,
+          status: 'PENDING',
+        },
+      });
+
+      return this.mapPrismaExport(created);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to create export: ${this.sanitizeError(error)}`,
+        'EXPORT_CREATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async getExport(exportId: string): Promise<ExportRecord> {
+    await this.setTenantContext();
+
+    try {
+      const record = await this.prisma.export.findFirst({
+        where: { id: exportId, tenantId: this.tenantConfig.id },
+      });
+
+      if (!record) {
+        throw new ExportNotFoundError(exportId, this.tenantConfig.id);
+      }
+
+      return this.mapPrismaExport(record);
+    } catch (error) {
+      if (error instanceof ExportNotFoundError) {
+        throw error;
+      }
+      throw new DataStoreError(
+        `Failed to get export: ${this.sanitizeError(error)}`,
+        'EXPORT_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async updateExport(exportId: string, updates: UpdateExportInput): Promise<ExportRecord> {
+    await this.getExport(exportId);
+
+    try {
+      const updated = await this.prisma.export.update({
+        where: { id: exportId },
+        data: {
+          status: updates.status?.toUpperCase() as PrismaExport['status'] | undefined,
+          filePath: updates.filePath,
+          fileSize: updates.fileSize,
+          error: updates.error,
+        },
+      });
+
+      return this.mapPrismaExport(updated);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to update export: ${this.sanitizeError(error)}`,
+        'EXPORT_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async getConsultationExports(consultationId: string): Promise<ExportRecord[]> {
+    await this.setTenantContext();
+
+    try {
+      const exports = await this.prisma.export.findMany({
+        where: { tenantId: this.tenantConfig.id, consultationId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return exports.map(record => this.mapPrismaExport(record));
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get consultation exports: ${this.sanitizeError(error)}`,
+        'EXPORT_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  // ============================================================================
+  // MBS SUGGESTIONS
+  // ============================================================================
+
+  async getConsultationMbsSuggestions(consultationId: string): Promise<MbsSuggestionRecord[]> {
+    await this.setTenantContext();
+
+    try {
+      const suggestions = await this.prisma.mbsSuggestion.findMany({
+        where: { tenantId: this.tenantConfig.id, consultationId },
+        include: mbsSuggestionInclude,
+        orderBy: [{ confidence: 'desc' }, { createdAt: 'asc' }],
+      });
+
+      return await this.mapMbsSuggestionsAtServiceDate(consultationId, suggestions);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get MBS suggestions: ${this.sanitizeError(error)}`,
+        'MBS_SUGGESTION_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Replaces the suggestions the clinician hasn't actioned yet. Accepted, rejected
+   * and modified suggestions are kept, and their items aren't suggested again.
+   */
+  async replaceMbsSuggestions(consultationId: string, suggestions: MbsSuggestionInput[]): Promise<MbsSuggestionRecord[]> {
+    await this.getConsultation(consultationId);
+
+    try {
+      const saved = await this.withTenantTransaction(async (tx) => {
+        const actioned = await tx.mbsSuggestion.findMany({
+          where: { tenantId: this.tenantConfig.id, consultationId, status: { not: 'suggested' } },
+          select: { itemNumber: true, originalItemNumber: true },
+        });
+        const actionedItems = new Set(
+          actioned.flatMap(suggestion => [suggestion.itemNumber, suggestion.originalItemNumber ?? suggestion.itemNumber])
+        );
+
+        await tx.mbsSuggestion.deleteMany({
+          where: { tenantId: this.tenantConfig.id, consultationId, status: 'suggested' },
+        });
+
+        await tx.mbsSuggestion.createMany({
+          data: suggestions
+            .filter(suggestion => !actionedItems.has(suggestion.itemNumber))
+            .map(suggestion => ({
+              tenantId: this.tenantConfig.id,
+              consultationId,
+              itemNumber: suggestion.itemNumber,
+              confidence: suggestion.confidence,
+              reasoning: suggestion.reasoning,
+              matchedConcepts: suggestion.matchedConcepts,
+              soapExcerpt: suggestion.soapExcerpt,
+              consultationType: suggestion.consultationType,
+              modelUsed: suggestion.modelUsed,
+              processingTimeMs: suggestion.processingTimeMs,
+              status: 'suggested',
+            })),
+        });
+
+        return tx.mbsSuggestion.findMany({
+          where: { tenantId: this.tenantConfig.id, consultationId },
+          include: mbsSuggestionInclude,
+          orderBy: [{ confidence: 'desc' }, { createdAt: 'asc' }],
+        });
+      });
+
+      return await this.mapMbsSuggestionsAtServiceDate(consultationId, saved);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to save MBS suggestions: ${this.sanitizeError(error)}`,
+        'MBS_SUGGESTION_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Record the clinician accepting, rejecting or swapping a suggested item
+   * @throws {MbsSuggestionValidationError} if a modified suggestion names an unknown or unchanged item
+   */
+  async updateMbsSuggestion(suggestionId: string, action: MbsSuggestionActionInput): Promise<MbsSuggestionRecord> {
+    await this.setTenantContext();
+
+    const existing = await this.prisma.mbsSuggestion.findFirst({
+      where: { id: suggestionId, tenantId: this.tenantConfig.id },
+    });
+    if (!existing) {
+      throw new MbsSuggestionNotFoundError(suggestionId, this.tenantConfig.id);
+    }
+
+    if (action.status === 'modified') {
+      if (action.itemNumber === existing.itemNumber) {
+        throw new MbsSuggestionValidationError(`Item ${action.itemNumber} is already the suggested item`, this.tenantConfig.id);
+      }
+
+      const item = await this.prisma.mbsItem.findUnique({
+        where: { itemNumber: action.itemNumber },
+        select: { itemNumber: true },
+      });
+      if (!item) {
+        throw new MbsSuggestionValidationError(`MBS item ${action.itemNumber} does not exist`, this.tenantConfig.id);
+      }
+    }
+
+    try {
+      const updated = await this.prisma.mbsSuggestion.update({
+        where: { id: suggestionId },
+        data: {
+          status: action.status,
+          userId: action.userId,
+          userActionAt: new Date(),
+          ...(action.status === 'modified' && {
+            itemNumber: action.itemNumber,
+            originalItemNumber: existing.originalItemNumber ?? existing.itemNumber,
+          }),
+        },
+        include: mbsSuggestionInclude,
+      });
+
+      const [mapped] = updated.consultationId
+        ? await this.mapMbsSuggestionsAtServiceDate(updated.consultationId, [updated])
+        : [this.mapPrismaMbsSuggestion(updated)];
+      return mapped!;
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to update MBS suggestion: ${this.sanitizeError(error)}`,
+        'MBS_SUGGESTION_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Items billed for the patient's other consultations since a date, for checking
+   * MBS frequency limits. A consultation's service date is when it was recorded.
+   */
+  async getPatientMbsClaims(patientId: string, options: MbsClaimQuery): Promise<MbsClaimRecord[]> {
+    await this.setTenantContext();
+
+    try {
+      const consultations = await this.prisma.consultation.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          patientId,
+          ...(options.excludeConsultationId && { id: { not: options.excludeConsultationId } }),
+          OR: [
+            { recordingStartTime: { gte: options.since } },
+            { recordingStartTime: null, createdAt: { gte: options.since } },
+          ],
+        },
+        select: { id: true, recordingStartTime: true, createdAt: true },
+      });
+      if (consultations.length === 0) {
+        return [];
+      }
+
+      const serviceDates = new Map(
+        consultations.map(consultation => [consultation.id, consultation.recordingStartTime ?? consultation.createdAt])
+      );
+
+      // Suggestions live in the mbs schema, with no relation back to consultations
+      const claims = await this.prisma.mbsSuggestion.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          consultationId: { in: [...serviceDates.keys()] },
+          status: { in: ['accepted', 'modified'] },
+        },
+        select: { consultationId: true, itemNumber: true, mbsItem: { select: { groupName: true } } },
+      });
+
+      return claims.map(claim => ({
+        consultationId: claim.consultationId!,
+        itemNumber: claim.itemNumber,
+        groupName: claim.mbsItem.groupName ?? undefined,
+        serviceDate: serviceDates.get(claim.consultationId!)!,
+      }));
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get MBS claims: ${this.sanitizeError(error)}`,
+        'MBS_CLAIM_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  // ============================================================================
+  // BILLING
+  // ============================================================================
+
+  /**
+   * Accepted and changed suggestions as claim lines, with what Medicare needs from
+   * the consultation, patient and accepting clinician. Suggestions on exported claims
+   * are left out; those on pending claims are always included so their lines are
+   * refreshed rather than dropped.
+   */
+  async getClaimableMbsSuggestions(query: ClaimableSuggestionQuery): Promise<ClaimLineInput[]> {
+    await this.setTenantContext();
+
+    try {
+      const pendingLines = await this.prisma.claimLine.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          status: 'PENDING',
+          ...(query.consultationId && { consultationId: query.consultationId }),
+        },
+        select: { suggestionId: true },
+      });
+
+      const suggestions = await this.prisma.mbsSuggestion.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          consultationId: query.consultationId ?? { not: null },
+          status: { in: ['accepted', 'modified'] },
+          ...(query.since && {
+            OR: [
+              { userActionAt: { gte: query.since } },
+              { id: { in: pendingLines.map(line => line.suggestionId) } },
+            ],
+          }),
+        },
+        include: mbsSuggestionInclude,
+      });
+      if (suggestions.length === 0) {
+        return [];
+      }
+
+      const exported = await this.prisma.claimLine.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          suggestionId: { in: suggestions.map(suggestion => suggestion.id) },
+          status: { not: 'PENDING' },
+        },
+        select: { suggestionId: true },
+      });
+      const exportedIds = new Set(exported.map(line => line.suggestionId));
+      const claimable = suggestions.filter(suggestion => !exportedIds.has(suggestion.id));
+
+      const [consultations, memberships] = await Promise.all([
+        this.prisma.consultation.findMany({
+          where: { tenantId: this.tenantConfig.id, id: { in: [...new Set(claimable.map(suggestion => suggestion.consultationId!))] } },
+          include: { patient: true },
+        }),
+        this.prisma.tenantMembership.findMany({
+          where: { tenantId: this.tenantConfig.id, userId: { in: claimable.flatMap(suggestion => suggestion.userId ?? []) } },
+          select: { userId: true, providerNumber: true },
+        }),
+      ]);
+      const consultationsById = new Map(consultations.map(consultation => [consultation.id, consultation]));
+      const providerNumbers = new Map(memberships.map(membership => [membership.userId, membership.providerNumber]));
+
+      // Bill each item at its fee on the day of the consultation
+      const lines: ClaimLineInput[] = [];
+      const serviceDays = new Map<string, { consultation: (typeof consultations)[number]; suggestion: PrismaMbsSuggestion }[]>();
+      for (const suggestion of claimable) {
+        const consultation = consultationsById.get(suggestion.consultationId!);
+        if (!consultation) continue;
+
+        const serviceDay = format(consultation.recordingStartTime ?? consultation.createdAt, 'yyyy-MM-dd');
+        serviceDays.set(serviceDay, [...(serviceDays.get(serviceDay) ?? []), { consultation, suggestion }]);
+      }
+
+      for (const [serviceDay, claims] of serviceDays) {
+        const versions = await this.getMbsItemVersionsAt(claims.map(({ suggestion }) => suggestion.itemNumber), serviceDay);
+
+        for (const { consultation, suggestion } of claims) {
+          const item = versions.get(suggestion.itemNumber) ?? suggestion.mbsItem;
+          const { patient } = consultation;
+
+          lines.push({
+            suggestionId: suggestion.id,
+            consultationId: consultation.id,
+            patientId: patient.id,
+            itemNumber: suggestion.itemNumber,
+            itemDescription: item.description,
+            scheduleFee: item.scheduleFee?.toNumber(),
+            serviceDate: consultation.recordingStartTime ?? consultation.createdAt,
+            clinicianId: suggestion.userId ?? undefined,
+            providerNumber: (suggestion.userId && providerNumbers.get(suggestion.userId)) ?? undefined,
+            patientFirstName: patient.firstName,
+            patientLastName: patient.lastName,
+            patientDateOfBirth: patient.dateOfBirth ?? undefined,
+            medicareNumber: patient.medicareNumber ?? undefined,
+            medicareIrn: patient.medicareIrn ?? undefined,
+          });
+        }
+      }
+
+      return lines;
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get claimable MBS suggestions: ${this.sanitizeError(error)}`,
+        'CLAIM_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async getPendingClaimLines(query: { consultationId?: string } = {}): Promise<ClaimLineRecord[]> {
+    await this.setTenantContext();
+
+    try {
+      const lines = await this.prisma.claimLine.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          status: 'PENDING',
+          ...(query.consultationId && { consultationId: query.consultationId }),
+        },
+        orderBy: [{ serviceDate: 'asc' }, { itemNumber: 'asc' }],
+      });
+
+      return lines.map(line => this.mapPrismaClaimLine(line));
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get pending claim lines: ${this.sanitizeError(error)}`,
+        'CLAIM_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Add or refresh claim lines in the open batch for a service day, opening one if
+   * the day has none. Lines that have been exported are left as they were.
+   */
+  async saveClaimLines(serviceDay: string, lines: ClaimLineInput[]): Promise<ClaimLineRecord[]> {
+    await this.setTenantContext();
+
+    try {
+      const saved = await this.withTenantTransaction(async (tx) => {
+        // Only one batch per day can be open; another request may be opening it too
+        await tx.$executeRaw`
+          INSERT INTO claim_batches (id, "tenantId", "serviceDate", status, "updatedAt")
+          VALUES (gen_random_uuid()::text, ${this.tenantConfig.id}, ${serviceDay}::date, 'OPEN', now())
+          ON CONFLICT ("tenantId", "serviceDate") WHERE status = 'OPEN' DO NOTHING
+        `;
+        const batch = await tx.claimBatch.findFirstOrThrow({
+          where: { tenantId: this.tenantConfig.id, serviceDate: new Date(`${serviceDay}T00:00:00.000Z`), status: 'OPEN' },
+        });
+
+        const exported = await tx.claimLine.findMany({
+          where: { suggestionId: { in: lines.map(line => line.suggestionId) }, status: { not: 'PENDING' } },
+          select: { suggestionId: true },
+        });
+        const exportedIds = new Set(exported.map(line => line.suggestionId));
+
+        const savedLines: PrismaClaimLine[] = [];
+        for (const line of lines.filter(line => !exportedIds.has(line.suggestionId))) {
+          const { suggestionId, ...details } = line;
+          savedLines.push(await tx.claimLine.upsert({
+            where: { suggestionId },
+            create: { tenantId: this.tenantConfig.id, batchId: batch.id, suggestionId, ...details },
+            update: { batchId: batch.id, ...details },
+          }));
+        }
+
+        // A consultation moved to another day leaves its old batch behind
+        await tx.claimBatch.deleteMany({
+          where: { tenantId: this.tenantConfig.id, status: 'OPEN', lines: { none: {} } },
+        });
+
+        return savedLines;
+      });
+
+      return saved.map(line => this.mapPrismaClaimLine(line));
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to save claim lines: ${this.sanitizeError(error)}`,
+        'CLAIM_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Drop pending lines whose suggestion is no longer accepted, and any batch left empty
+   */
+  async deletePendingClaimLines(lineIds: string[]): Promise<number> {
+    await this.setTenantContext();
+
+    try {
+      return await this.withTenantTransaction(async (tx) => {
+        const { count } = await tx.claimLine.deleteMany({
+          where: { tenantId: this.tenantConfig.id, id: { in: lineIds }, status: 'PENDING' },
+        });
+        await tx.claimBatch.deleteMany({
+          where: { tenantId: this.tenantConfig.id, status: 'OPEN', lines: { none: {} } },
+        });
+        return count;
+      });
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to delete claim lines: ${this.sanitizeError(error)}`,
+        'CLAIM_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Claim batches, latest service day first
+   */
+  async listClaimBatches(query: ClaimBatchQuery = {}): Promise<ClaimBatchRecord[]> {
+    await this.setTenantContext();
+
+    try {
+      const batches = await this.prisma.claimBatch.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          ...(query.status && { status: query.status.toUpperCase() as PrismaClaimBatch['status'] }),
+        },
+        include: { lines: { select: { status: true, scheduleFee: true } } },
+        orderBy: [{ serviceDate: 'desc' }, { createdAt: 'desc' }],
+        take: query.limit ?? 50,
+      });
+
+      return batches.map(batch => this.mapPrismaClaimBatch(batch, batch.lines));
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to list claim batches: ${this.sanitizeError(error)}`,
+        'CLAIM_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async getClaimBatch(batchId: string): Promise<ClaimBatchDetail> {
+    await this.setTenantContext();
+
+    try {
+      const batch = await this.prisma.claimBatch.findFirst({
+        where: { id: batchId, tenantId: this.tenantConfig.id },
+        include: {
+          lines: { orderBy: [{ serviceDate: 'asc' }, { patientLastName: 'asc' }, { itemNumber: 'asc' }] },
+        },
+      });
+
+      if (!batch) {
+        throw new ClaimBatchNotFoundError(batchId, this.tenantConfig.id);
+      }
+
+      return {
+        ...this.mapPrismaClaimBatch(batch, batch.lines),
+        lines: batch.lines.map(line => this.mapPrismaClaimLine(line)),
+      };
+    } catch (error) {
+      if (error instanceof ClaimBatchNotFoundError) {
+        throw error;
+      }
+      throw new DataStoreError(
+        `Failed to get claim batch: ${this.sanitizeError(error)}`,
+        'CLAIM_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Close a batch once its claim file has been exported, moving its pending lines
+   * to exported. Exporting a closed batch again changes nothing.
+   */
+  async markClaimBatchExported(batchId: string, exportedBy: string): Promise<ClaimBatchDetail> {
+    const batch = await this.getClaimBatch(batchId);
+    if (batch.status === 'exported') {
+      return batch;
+    }
+
+    try {
+      await this.withTenantTransaction(async (tx) => {
+        const exportedAt = new Date();
+        await tx.claimBatch.update({
+          where: { id: batchId },
+          data: { status: 'EXPORTED', exportedAt, exportedBy },
+        });
+        await tx.claimLine.updateMany({
+          where: { batchId, status: 'PENDING' },
+          data: { status: 'EXPORTED', statusUpdatedAt: exportedAt },
+        });
+      });
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to mark claim batch exported: ${this.sanitizeError(error)}`,
+        'CLAIM_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+
+    return this.getClaimBatch(batchId);
+  }
+
+  /**
+   * Record what happened to a claim after export
+   * @throws {InvalidClaimTransitionError} if the workflow in lib/claim-status doesn't allow the change
+   */
+  async updateClaimLineStatus(lineId: string, update: ClaimLineStatusInput): Promise<ClaimLineRecord> {
+    await this.setTenantContext();
+
+    const existing = await this.prisma.claimLine.findFirst({
+      where: { id: lineId, tenantId: this.tenantConfig.id },
+    });
+    if (!existing) {
+      throw new ClaimLineNotFoundError(lineId, this.tenantConfig.id);
+    }
+
+    const from = existing.status.toLowerCase() as ClaimStatus;
+    if (!canTransitionClaim(from, update.status)) {
+      throw new InvalidClaimTransitionError(from, update.status, this.tenantConfig.id);
+    }
+
+    try {
+      const updated = await this.prisma.claimLine.update({
+        where: { id: lineId },
+        data: {
+          status: update.status.toUpperCase() as PrismaClaimLine['status'],
+          statusReason: update.reason ?? null,
+          statusUpdatedAt: new Date(),
+        },
+      });
+
+      return this.mapPrismaClaimLine(updated);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to update claim status: ${this.sanitizeError(error)}`,
+        'CLAIM_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Consultations whose service date falls in the range, with every suggestion made
+   * for them priced at the item versions in effect that day. Consultations without
+   * a clinician are attributed to whoever first actioned one of their suggestions.
+   */
+  async getBillingActivity(query: BillingActivityQuery): Promise<BillingActivity> {
+    await this.setTenantContext();
+
+    try {
+      const from = startOfDay(query.from);
+      const to = endOfDay(query.to);
+
+      const consultations = await this.prisma.consultation.findMany({
+        where: {
+          tenantId: this.tenantConfig.id,
+          OR: [
+            { recordingStartTime: { gte: from, lte: to } },
+            { recordingStartTime: null, createdAt: { gte: from, lte: to } },
+          ],
+        },
+        select: { id: true, clinicianId: true, recordingStartTime: true, createdAt: true },
+      });
+      if (consultations.length === 0) {
+        return { consultations: [], suggestions: [] };
+      }
+
+      const suggestions = await this.prisma.mbsSuggestion.findMany({
+        where: { tenantId: this.tenantConfig.id, consultationId: { in: consultations.map(consultation => consultation.id) } },
+        select: { id: true, consultationId: true, userId: true, itemNumber: true, originalItemNumber: true, status: true },
+        orderBy: [{ userActionAt: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      });
+
+      const actionedBy = new Map<string, string>();
+      for (const suggestion of suggestions) {
+        if (suggestion.userId && !actionedBy.has(suggestion.consultationId!)) {
+          actionedBy.set(suggestion.consultationId!, suggestion.userId);
+        }
+      }
+
+      const activity: BillingActivity = { consultations: [], suggestions: [] };
+      const consultationsById = new Map<string, BillingActivity['consultations'][number]>();
+      for (const consultation of consultations) {
+        const clinicianId = consultation.clinicianId ?? actionedBy.get(consultation.id);
+        if (query.clinicianId && clinicianId !== query.clinicianId) continue;
+
+        const record = { id: consultation.id, clinicianId, serviceDate: consultation.recordingStartTime ?? consultation.createdAt };
+        activity.consultations.push(record);
+        consultationsById.set(record.id, record);
+      }
+
+      const itemNumbers = suggestions.flatMap(suggestion =>
+        suggestion.originalItemNumber ? [suggestion.itemNumber, suggestion.originalItemNumber] : [suggestion.itemNumber]
+      );
+      const [versionAt, items] = await Promise.all([
+        this.getMbsItemVersionLookup(itemNumbers),
+        this.prisma.mbsItem.findMany({
+          where: { itemNumber: { in: [...new Set(itemNumbers)] } },
+          select: mbsItemFeeSelect,
+        }),
+      ]);
+      const itemsByNumber = new Map(items.map(item => [item.itemNumber, item]));
+
+      const feesAt = (itemNumber: number, serviceDay: string): MbsItemFees => {
+        const item = versionAt(itemNumber, serviceDay) ?? itemsByNumber.get(itemNumber);
+        return {
+          itemNumber,
+          description: item?.description ?? `Item ${itemNumber}`,
+          scheduleFee: item?.scheduleFee?.toNumber(),
+          benefit75: item?.benefit75?.toNumber(),
+          benefit85: item?.benefit85?.toNumber(),
+          benefit100: item?.benefit100?.toNumber(),
+        };
+      };
+
+      for (const suggestion of suggestions) {
+        const consultation = consultationsById.get(suggestion.consultationId!);
+        if (!consultation) continue;
+
+        const serviceDay = format(consultation.serviceDate, 'yyyy-MM-dd');
+        const status = suggestion.status as MbsSuggestionStatus;
+        activity.suggestions.push({
+          suggestionId: suggestion.id,
+          consultationId: consultation.id,
+          clinicianId: consultation.clinicianId,
+          serviceDate: consultation.serviceDate,
+          status,
+          suggestedItem: feesAt(suggestion.originalItemNumber ?? suggestion.itemNumber, serviceDay),
+          billedItem: status === 'accepted' || status === 'modified' ? feesAt(suggestion.itemNumber, serviceDay) : undefined,
+        });
+      }
+
+      return activity;
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get billing activity: ${this.sanitizeError(error)}`,
+        'BILLING_ACTIVITY_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  // ============================================================================
+  // EHR CONNECTION
+  // ============================================================================
+
+  async getEhrConnection(): Promise<EhrConnectionRecord | null> {
+    await this.setTenantContext();
+
+    try {
+      const connection = await this.prisma.ehrConnection.findUnique({
+        where: { tenantId: this.tenantConfig.id },
+      });
+      return connection ? this.mapPrismaEhrConnection(connection) : null;
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get EHR connection: ${this.sanitizeError(error)}`,
+        'EHR_CONNECTION_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Set up or change the clinic's EHR connection. Pointing it at another server
+   * or client clears the stored tokens, which only worked with the old one.
+   */
+  async saveEhrConnection(input: EhrConnectionInput): Promise<EhrConnectionRecord> {
+    const existing = await this.getEhrConnection();
+    const settings = {
+      fhirBaseUrl: input.fhirBaseUrl,
+      clientId: input.clientId,
+      scopes: input.scopes.join(' '),
+      clientSecret: input.clientSecret,
+    };
+    const serverChanged = existing
+      && (existing.fhirBaseUrl !== input.fhirBaseUrl || existing.clientId !== input.clientId);
+
+    try {
+      const connection = await this.prisma.ehrConnection.upsert({
+        where: { tenantId: this.tenantConfig.id },
+        create: { tenantId: this.tenantConfig.id, ...settings },
+        update: { ...settings, ...(serverChanged ? EMPTY_EHR_AUTHORIZATION : {}) },
+      });
+      return this.mapPrismaEhrConnection(connection);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to save EHR connection: ${this.sanitizeError(error)}`,
+        'EHR_CONNECTION_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Store the tokens from a launch or refresh, or null to disconnect
+   * @throws {EhrConnectionNotFoundError} if the clinic has no EHR connection
+   */
+  async saveEhrAuthorization(authorization: EhrAuthorizationInput | null): Promise<EhrConnectionRecord> {
+    if (!(await this.getEhrConnection())) {
+      throw new EhrConnectionNotFoundError(this.tenantConfig.id);
+    }
+
+    try {
+      const connection = await this.prisma.ehrConnection.update({
+        where: { tenantId: this.tenantConfig.id },
+        data: authorization
+          ? {
+              accessToken: authorization.accessToken,
+              refreshToken: authorization.refreshToken ?? null,
+              tokenEndpoint: authorization.tokenEndpoint,
+              tokenExpiresAt: authorization.expiresAt ?? null,
+              grantedScopes: authorization.grantedScopes.join(' '),
+              authorizedBy: authorization.authorizedBy ?? null,
+              authorizedAt: authorization.authorizedAt,
+              refreshError: null,
+            }
+          : EMPTY_EHR_AUTHORIZATION,
+      });
+      return this.mapPrismaEhrConnection(connection);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to save EHR authorization: ${this.sanitizeError(error)}`,
+        'EHR_CONNECTION_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Set up or change the clinic's bridge agent, or null to remove it
+   * @throws {EhrConnectionNotFoundError} if removing the bridge of a clinic with no EHR connection
+   */
+  async saveEhrBridge(bridge: EhrBridgeInput | null): Promise<EhrConnectionRecord> {
+    if (!bridge && !(await this.getEhrConnection())) {
+      throw new EhrConnectionNotFoundError(this.tenantConfig.id);
+    }
+    await this.setTenantContext();
+
+    const settings = bridge
+      ? {
+          bridgeUrl: bridge.url,
+          bridgeVendor: bridge.vendor === 'bestpractice' ? 'BEST_PRACTICE' as const : 'MEDICAL_DIRECTOR' as const,
+          bridgeToken: bridge.token,
+        }
+      : { bridgeUrl: null, bridgeVendor: null, bridgeToken: null };
+
+    try {
+      const connection = await this.prisma.ehrConnection.upsert({
+        where: { tenantId: this.tenantConfig.id },
+        create: { tenantId: this.tenantConfig.id, ...settings },
+        update: settings,
+      });
+      return this.mapPrismaEhrConnection(connection);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to save EHR bridge: ${this.sanitizeError(error)}`,
+        'EHR_CONNECTION_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async recordEhrRefreshError(refreshError: string): Promise<void> {
+    await this.setTenantContext();
+
+    try {
+      await this.prisma.ehrConnection.updateMany({
+        where: { tenantId: this.tenantConfig.id },
+        data: { refreshError },
+      });
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to record EHR refresh error: ${this.sanitizeError(error)}`,
+        'EHR_CONNECTION_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  // ============================================================================
+  // EHR WRITE-BACK
+  // ============================================================================
+
+  /**
+   * Queue a change for the clinic's EHR. A note or appointment with an
+   * undelivered write-back has that one brought up to date and tried afresh,
+   * since delivery always writes the note or status as it is by then.
+   */
+  async queueEhrWriteBack(input: EhrWriteBackInput): Promise<EhrWriteBackRecord> {
+    const target = input.kind === 'clinical-note'
+      ? { noteId: input.noteId }
+      : {
+          consultationId: input.consultationId,
+          ehrAppointmentId: input.ehrAppointmentId,
+          appointmentStart: input.appointmentStart,
+          appointmentStatus: input.appointmentStatus,
+        };
+    const fresh = {
+      ...target,
+      requestedBy: input.requestedBy ?? null,
+      status: 'PENDING' as const,
+      overwrite: false,
+      attempts: 0,
+      nextAttemptAt: null,
+      lastError: null,
+    };
+
+    try {
+      const writeBack = await this.withTenantTransaction(async (tx) => {
+        const undelivered = await tx.ehrWriteBack.findFirst({
+          where: {
+            tenantId: this.tenantConfig.id,
+            ...(input.kind === 'clinical-note' ? { noteId: input.noteId } : { consultationId: input.consultationId }),
+            // One being written to the EHR right now is left to finish
+            status: { notIn: ['DELIVERED', 'DELIVERING'] },
+          },
+          orderBy: { createdAt: 'desc' },
+        });
+
+        return undelivered
+          ? tx.ehrWriteBack.update({ where: { id: undelivered.id }, data: fresh })
+          : tx.ehrWriteBack.create({
+              data: {
+                tenantId: this.tenantConfig.id,
+                kind: input.kind === 'clinical-note' ? 'CLINICAL_NOTE' : 'APPOINTMENT_STATUS',
+                ...fresh,
+              },
+            });
+      });
+
+      return this.mapPrismaEhrWriteBack(writeBack);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to queue EHR write-back: ${this.sanitizeError(error)}`,
+        'EHR_WRITE_BACK_CREATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  async getEhrWriteBack(writeBackId: string): Promise<EhrWriteBackRecord> {
+    await this.setTenantContext();
+
+    try {
+      const writeBack = await this.prisma.ehrWriteBack.findFirst({
+        where: { id: writeBackId, tenantId: this.tenantConfig.id },
+      });
+      if (!writeBack) {
+        throw new EhrWriteBackNotFoundError(writeBackId, this.tenantConfig.id);
+      }
+      return this.mapPrismaEhrWriteBack(writeBack);
+    } catch (error) {
+      if (error instanceof EhrWriteBackNotFoundError) throw error;
+      throw new DataStoreError(
+        `Failed to get EHR write-back: ${this.sanitizeError(error)}`,
+        'EHR_WRITE_BACK_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Take a pending write-back for delivery, so no other worker writes it to the
+   * EHR at the same time. A claim made before staleBefore is taken over, as its
+   * worker must have stopped before recording the outcome.
+   * @returns null if it isn't pending, or another worker has it
+   * @throws {EhrWriteBackNotFoundError} if the write-back doesn't exist for this tenant
+   */
+  async claimEhrWriteBack(writeBackId: string, staleBefore: Date): Promise<EhrWriteBackRecord | null> {
+    await this.getEhrWriteBack(writeBackId);
+
+    try {
+      const { count } = await this.prisma.ehrWriteBack.updateMany({
+        where: {
+          id: writeBackId,
+          tenantId: this.tenantConfig.id,
+          OR: [{ status: 'PENDING' }, { status: 'DELIVERING', updatedAt: { lt: staleBefore } }],
+        },
+        data: { status: 'DELIVERING' },
+      });
+      return count === 0 ? null : await this.getEhrWriteBack(writeBackId);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to claim EHR write-back: ${this.sanitizeError(error)}`,
+        'EHR_WRITE_BACK_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Record the outcome of one delivery attempt
+   * @throws {EhrWriteBackNotFoundError} if the write-back doesn't exist for this tenant
+   */
+  async recordEhrWriteBackAttempt(writeBackId: string, attempt: EhrWriteBackAttempt): Promise<EhrWriteBackRecord> {
+    await this.getEhrWriteBack(writeBackId);
+
+    try {
+      const writeBack = await this.prisma.ehrWriteBack.update({
+        where: { id: writeBackId },
+        data: {
+          status: attempt.status.toUpperCase() as 'PENDING' | 'DELIVERED' | 'FAILED' | 'CONFLICT',
+          attempts: { increment: 1 },
+          lastError: attempt.error ?? null,
+          nextAttemptAt: attempt.nextAttemptAt ?? null,
+          deliveredAt: attempt.status === 'delivered' ? new Date() : null,
+        },
+      });
+      return this.mapPrismaEhrWriteBack(writeBack);
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to record EHR write-back attempt: ${this.sanitizeError(error)}`,
+        'EHR_WRITE_BACK_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Send a failed write-back again. Retrying a conflict writes over the change
+   * made in the EHR, so it's only done when a clinician asks.
+   * @throws {EhrWriteBackValidationError} if the write-back hasn't failed
+   */
+  async retryEhrWriteBack(writeBackId: string): Promise<EhrWriteBackRecord> {
+    const current = await this.getEhrWriteBack(writeBackId);
+    if (current.status !== 'failed' && current.status !== 'conflict') {
+      throw new EhrWriteBackValidationError(`Only failed write-backs can be retried; this one is ${current.status}`, this.tenantConfig.id);
+    }
+
+    try {
+      // Only while it's still in the state checked above, so a second retry can't queue it again
+      const { count } = await this.prisma.ehrWriteBack.updateMany({
+        where: { id: writeBackId, tenantId: this.tenantConfig.id, status: current.status === 'conflict' ? 'CONFLICT' : 'FAILED' },
+        data: {
+          status: 'PENDING',
+          overwrite: current.status === 'conflict',
+          attempts: 0,
+          nextAttemptAt: null,
+          lastError: null,
+        },
+      });
+      if (count === 0) {
+        throw new EhrWriteBackValidationError('This write-back is already being retried', this.tenantConfig.id);
+      }
+      return await this.getEhrWriteBack(writeBackId);
+    } catch (error) {
+      if (error instanceof EhrWriteBackValidationError) throw error;
+      throw new DataStoreError(
+        `Failed to retry EHR write-back: ${this.sanitizeError(error)}`,
+        'EHR_WRITE_BACK_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Link a note to its copy in the EHR, so later write-backs update that copy
+   */
+  async recordEhrNote(noteId: string, ehrNote: { ehrNoteId: string; ehrUpdatedAt: Date }): Promise<void> {
+    await this.setTenantContext();
+
+    try {
+      const { count } = await this.prisma.clinicalNote.updateMany({
+        where: { id: noteId, tenantId: this.tenantConfig.id },
+        data: { ehrNoteId: ehrNote.ehrNoteId, ehrUpdatedAt: ehrNote.ehrUpdatedAt },
+      });
+      if (count === 0) {
+        throw new NoteNotFoundError(noteId, this.tenantConfig.id);
+      }
+    } catch (error) {
+      if (error instanceof NoteNotFoundError) throw error;
+      throw new DataStoreError(
+        `Failed to record EHR note: ${this.sanitizeError(error)}`,
+        'NOTE_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  // ============================================================================
+  // PATIENT CONTEXT CACHE
+  // ============================================================================
+
+  async getCachedPatientContext(ehrPatientId: string): Promise<CachedPatientContext> {
+    await this.setTenantContext();
+
+    try {
+      const rows = await this.prisma.patientContextCache.findMany({
+        where: { tenantId: this.tenantConfig.id, ehrPatientId },
+      });
+
+      const context: CachedPatientContext = {};
+      for (const row of rows) {
+        Object.assign(context, {
+          [this.patientContextSectionFromDb(row.section)]: {
+            data: superjson.deserialize(row.data as unknown as SuperJSONResult),
+            fetchedAt: row.fetchedAt,
+          },
+        });
+      }
+      return context;
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to get cached patient context: ${this.sanitizeError(error)}`,
+        'PATIENT_CONTEXT_CACHE_FETCH_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Replace the cached parts given; parts left out keep what was cached before
+   */
+  async cachePatientContext(ehrPatientId: string, context: CachedPatientContext): Promise<void> {
+    const sections = Object.entries(context) as [PatientContextSection, { data: unknown; fetchedAt: Date }][];
+
+    try {
+      await this.withTenantTransaction(async (tx) => {
+        for (const [section, { data, fetchedAt }] of sections) {
+          const serialized = superjson.serialize(data) as unknown as Prisma.InputJsonValue;
+          const dbSection = this.patientContextSectionToDb(section);
+          await tx.patientContextCache.upsert({
+            where: {
+              tenantId_ehrPatientId_section: { tenantId: this.tenantConfig.id, ehrPatientId, section: dbSection },
+            },
+            create: { tenantId: this.tenantConfig.id, ehrPatientId, section: dbSection, data: serialized, fetchedAt },
+            update: { data: serialized, fetchedAt },
+          });
+        }
+      });
+    } catch (error) {
+      throw new DataStoreError(
+        `Failed to cache patient context: ${this.sanitizeError(error)}`,
+        'PATIENT_CONTEXT_CACHE_UPDATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Adds any built-in template the tenant doesn't have yet. Existing templates are
+   * left alone, so a tenant's customisations survive new built-ins being released.
+   */
+  private async seedBuiltInNoteTemplates(): Promise<void> {
+    if (this.builtInTemplatesSeeded) return;
+
+    try {
+      await this.withTenantTransaction(async (tx) => {
+        const existing = await tx.noteTemplate.findMany({
+          where: { tenantId: this.tenantConfig.id },
+          select: { key: true },
+        });
+        const existingKeys = new Set(existing.map(template => template.key));
+
+        for (const builtIn of BUILT_IN_NOTE_TEMPLATES.filter(template => !existingKeys.has(template.key))) {
+          const source = formatNoteTemplateDsl(builtIn);
+          await tx.noteTemplate.create({
+            data: {
+              tenantId: this.tenantConfig.id,
+              key: builtIn.key,
+              isBuiltIn: true,
+              ...this.toNoteTemplateData(builtIn, source),
+              versions: {
+                create: {
+                  tenantId: this.tenantConfig.id,
+                  version: 1,
+                  name: builtIn.name,
+                  noteType: this.toPrismaNoteType(builtIn.noteType),
+                  source,
+                  sections: builtIn.sections as unknown as Prisma.InputJsonValue,
+                  changeSummary: 'Built-in template',
+                },
+              },
+            },
+          });
+        }
+      });
+
+      this.builtInTemplatesSeeded = true;
+    } catch (error) {
+      // Another request seeding the same tenant committed first - its transaction
+      // inserted every missing built-in, so there is nothing left for us to add
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        this.builtInTemplatesSeeded = true;
+        return;
+      }
+      throw new DataStoreError(
+        `Failed to seed built-in note templates: ${this.sanitizeError(error)}`,
+        'NOTE_TEMPLATE_CREATE_ERROR',
+        this.tenantConfig.id,
+        error as Error
+      );
+    }
+  }
+
+  private parseNoteTemplateSource(source: string): ParsedNoteTemplate {
+    const result = parseNoteTemplateDsl(source);
+    if (!result.success) {
+      throw new NoteTemplateValidationError(
+        result.errors.map(error => `Line ${error.line}: ${error.message}`).join('; '),
+        this.tenantConfig.id
+      );
+    }
+    return result.template;
+  }
+
+  private toNoteTemplateData(template: ParsedNoteTemplate, source: string) {
+    return {
+      name: template.name,
+      description: template.description ?? null,
+      noteType: this.toPrismaNoteType(template.noteType),
+      source,
+      sections: template.sections as unknown as Prisma.InputJsonValue,
+    };
+  }
+
+  private toPrismaNoteType(noteType: ClinicalNote['noteType']) {
+    return noteType.toUpperCase() as 'PROGRESS' | 'SOAP' | 'ASSESSMENT' | 'PLAN' | 'REFERRAL' | 'OTHER';
+  }
+
+  // ============================================================================
+  // PRIVATE HELPER METHODS
+  // ============================================================================
+
+  private mapConsultationToAppointment(consultation: Consultation & { patient: Patient }, clinicianId: string): Appointment {
+    return {
+      id: consultation.id,
+      ehrAppointmentId: consultation.ehrAppointmentId ?? undefined,
+      patientId: consultation.patientId,
+      clinicianId,
+      scheduledTime: consultation.ehrAppointmentStart ?? consultation.createdAt,
+      duration: 30, // Default 30 minutes
+      appointmentType: 'Consultation',
+      status: this.mapConsultationStatusToAppointmentStatus(consultation.status),
+      patientName: `${consultation.patient.firstName} ${consultation.patient.lastName}`,
+      patientAge: consultation.patient.dateOfBirth ? this.calculateAge(consultation.patient.dateOfBirth) : 0,
+      patientGender: (consultation.patient.gender === 'OTHER' ? 'Other' : consultation.patient.gender as 'M' | 'F' | 'Other' | 'Unknown') ?? 'Unknown',
+      patientEmail: consultation.patient.email ?? '',
+      consultationId: consultation.id,
+              recordingStartTime: consultation.recordingStartTime ?? undefined,
+        recordingEndTime: consultation.recordingEndTime ?? undefined,
+      createdAt: consultation.createdAt,
+      updatedAt: consultation.updatedAt,
+    };
+  }
+
+  private mapConsultationStatusToAppointmentStatus(status: string): AppointmentStatus {
+    const statusMap: Record<string, AppointmentStatus> = {
+      'READY': 'scheduled',
+      'RECORDING': 'recording',
+      'PROCESSING': 'processing',
+      'REVIEW': 'processing',
+      'COMPLETE': 'completed',
+      'ERROR': 'cancelled',
+    };
+    return statusMap[status] || 'scheduled';
+  }
+
+  private mapAppointmentStatusToConsultationStatus(status: AppointmentStatus): string {
+    const statusMap: Record<AppointmentStatus, string> = {
+      'scheduled': 'READY',
+      'waiting': 'READY',
+      'in-progress': 'RECORDING',
+      'recording': 'RECORDING',
+      'processing': 'PROCESSING',
+      'completed': 'COMPLETE',
+      'cancelled': 'ERROR',
+      'no-show': 'ERROR',
+    };
+    return statusMap[status] ?? 'READY';
+  }
+
+  private mapPrismaNoteToClientNote(note: PrismaClinicalNote): ClinicalNote {
+    return {
+      id: note.id,
+      ehrNoteId: note.ehrNoteId ?? undefined,
+      ehrUpdatedAt: note.ehrUpdatedAt ?? undefined,
+      patientId: note.patientId,
+      clinicianId: 'current-clinician', // TODO: Get from session
+      consultationId: note.consultationId ?? undefined,
+      title: note.title,
+      content: note.content,
+      noteType: note.noteType.toLowerCase() as 'progress' | 'soap' | 'assessment' | 'plan' | 'referral' | 'other',
+      template: note.template ?? undefined,
+      status: this.toClientNoteStatus(note.status),
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+      signedAt: note.signedAt ?? undefined,
+      generatedFromAudio: note.generatedFromAudio,
+      transcriptionId: note.transcriptionId ?? undefined,
+      aiConfidence: note.aiConfidence ?? undefined,
+      manuallyEdited: note.manuallyEdited,
+      version: note.version,
+    };
+  }
+
+  private mapPrismaNoteVersion(version: PrismaNoteVersion): ClinicalNoteVersion {
+    return {
+      id: version.id,
+      noteId: version.noteId,
+      version: version.version,
+      title: version.title,
+      content: version.content,
+      status: this.toClientNoteStatus(version.status),
+      change: version.change.toLowerCase().replace('_', '-') as ClinicalNoteVersion['change'],
+      authorId: version.authorId ?? undefined,
+      reason: version.reason ?? undefined,
+      amendsVersion: version.amendsVersion ?? undefined,
+      createdAt: version.createdAt,
+    };
+  }
+
+  private toClientNoteStatus(status: PrismaNoteStatus): ClinicalNote['status'] {
+    return status.toLowerCase().replace('_', '-') as ClinicalNote['status'];
+  }
+
+  private toPrismaNoteStatus(status: ClinicalNote['status']): PrismaNoteStatus {
+    return status.toUpperCase().replace('-', '_') as PrismaNoteStatus;
+  }
+
+  private patientContextSectionToDb(section: PatientContextSection): PrismaPatientContextSection {
+    return section.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase() as PrismaPatientContextSection;
+  }
+
+  private patientContextSectionFromDb(section: PrismaPatientContextSection): PatientContextSection {
+    return section.toLowerCase().replace(/_(\w)/g, (_, letter: string) => letter.toUpperCase()) as PatientContextSection;
+  }
+
+  private mapPrismaExport(record: PrismaExport): ExportRecord {
+    return {
+      id: record.id,
+      tenantId: record.tenantId,
+      consultationId: record.consultationId,
+      format: record.format.toLowerCase() as ExportRecord['format'],
+      requestedBy: record.requestedBy ?? undefined,
+      fileName: record.fileName,
+      filePath: record.filePath ?? undefined,
+      fileSize: record.fileSize ?? undefined,
+      status: record.status.toLowerCase() as ExportRecord['status'],
+      error: record.error ?? undefined,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+
+  private mapPrismaEhrWriteBack(writeBack: PrismaEhrWriteBack): EhrWriteBackRecord {
+    return {
+      id: writeBack.id,
+      kind: writeBack.kind === 'CLINICAL_NOTE' ? 'clinical-note' : 'appointment-status',
+      requestedBy: writeBack.requestedBy ?? undefined,
+      noteId: writeBack.noteId ?? undefined,
+      consultationId: writeBack.consultationId ?? undefined,
+      ehrAppointmentId: writeBack.ehrAppointmentId ?? undefined,
+      appointmentStart: writeBack.appointmentStart ?? undefined,
+      appointmentStatus: (writeBack.appointmentStatus as AppointmentStatus | null) ?? undefined,
+      status: writeBack.status.toLowerCase() as EhrWriteBackRecord['status'],
+      overwrite: writeBack.overwrite,
+      attempts: writeBack.attempts,
+      nextAttemptAt: writeBack.nextAttemptAt ?? undefined,
+      lastError: writeBack.lastError ?? undefined,
+      deliveredAt: writeBack.deliveredAt ?? undefined,
+      createdAt: writeBack.createdAt,
+      updatedAt: writeBack.updatedAt,
+    };
+  }
+
+  private mapPrismaEhrConnection(connection: PrismaEhrConnection): EhrConnectionRecord {
+    const scopes = (value: string | null) => value?.split(' ').filter(Boolean) ?? [];
+
+    return {
+      id: connection.id,
+      tenantId: connection.tenantId,
+      fhirBaseUrl: connection.fhirBaseUrl ?? undefined,
+      clientId: connection.clientId ?? undefined,
+      clientSecret: connection.clientSecret ?? undefined,
+      scopes: scopes(connection.scopes),
+      authorization: connection.accessToken && connection.tokenEndpoint && connection.authorizedAt
+        ? {
+            accessToken: connection.accessToken,
+            refreshToken: connection.refreshToken ?? undefined,
+            tokenEndpoint: connection.tokenEndpoint,
+            expiresAt: connection.tokenExpiresAt ?? undefined,
+            grantedScopes: scopes(connection.grantedScopes),
+            authorizedBy: connection.authorizedBy ?? undefined,
+            authorizedAt: connection.authorizedAt,
+            refreshError: connection.refreshError ?? undefined,
+          }
+        : undefined,
+      bridge: connection.bridgeUrl && connection.bridgeToken && connection.bridgeVendor
+        ? {
+            url: connection.bridgeUrl,
+            token: connection.bridgeToken,
+            vendor: connection.bridgeVendor === 'BEST_PRACTICE' ? 'bestpractice' : 'medicaldirector',
+          }
+        : undefined,
+      createdAt: connection.createdAt,
+      updatedAt: connection.updatedAt,
+    };
+  }
+
+  private mapPrismaClaimLine(line: PrismaClaimLine): ClaimLineRecord {
+    return {
+      id: line.id,
+      tenantId: line.tenantId,
+      batchId: line.batchId,
+      suggestionId: line.suggestionId,
+      consultationId: line.consultationId,
+      patientId: line.patientId,
+      itemNumber: line.itemNumber,
+      itemDescription: line.itemDescription,
+      scheduleFee: line.scheduleFee?.toNumber(),
+      serviceDate: line.serviceDate,
+      clinicianId: line.clinicianId ?? undefined,
+      providerNumber: line.providerNumber ?? undefined,
+      patientFirstName: line.patientFirstName,
+      patientLastName: line.patientLastName,
+      patientDateOfBirth: line.patientDateOfBirth ?? undefined,
+      medicareNumber: line.medicareNumber ?? undefined,
+      medicareIrn: line.medicareIrn ?? undefined,
+      status: line.status.toLowerCase() as ClaimStatus,
+      statusReason: line.statusReason ?? undefined,
+      statusUpdatedAt: line.statusUpdatedAt ?? undefined,
+      createdAt: line.createdAt,
+      updatedAt: line.updatedAt,
+    };
+  }
+
+  private mapPrismaClaimBatch(
+    batch: PrismaClaimBatch,
+    lines: Pick<PrismaClaimLine, 'status' | 'scheduleFee'>[]
+  ): ClaimBatchRecord {
+    const statusCounts: ClaimBatchRecord['statusCounts'] = {};
+    for (const line of lines) {
+      const status = line.status.toLowerCase() as ClaimStatus;
+      statusCounts[status] = (statusCounts[status] ?? 0) + 1;
+    }
+
+    return {
+      id: batch.id,
+      tenantId: batch.tenantId,
+      serviceDate: batch.serviceDate.toISOString().slice(0, 10),
+      status: batch.status.toLowerCase() as ClaimBatchRecord['status'],
+      exportedAt: batch.exportedAt ?? undefined,
+      exportedBy: batch.exportedBy ?? undefined,
+      lineCount: lines.length,
+      totalFee: Math.round(lines.reduce((sum, line) => sum + (line.scheduleFee?.toNumber() ?? 0) * 100, 0)) / 100,
+      statusCounts,
+      createdAt: batch.createdAt,
+      updatedAt: batch.updatedAt,
+    };
+  }
+
+  /**
+   * Map suggestions with the description and fee of the item version in effect
+   * when the consultation took place, so later releases don't rewrite history.
+   * Items first seen after the consultation fall back to their earliest version.
+   */
+  private async mapMbsSuggestionsAtServiceDate(
+    consultationId: string,
+    suggestions: PrismaMbsSuggestion[]
+  ): Promise<MbsSuggestionRecord[]> {
+    if (suggestions.length === 0) {
+      return [];
+    }
+
+    const consultation = await this.prisma.consultation.findUnique({
+      where: { id: consultationId },
+      select: { recordingStartTime: true, createdAt: true },
+    });
+    const serviceDate = consultation?.recordingStartTime ?? consultation?.createdAt;
+    if (!serviceDate) {
+      return suggestions.map(suggestion => this.mapPrismaMbsSuggestion(suggestion));
+    }
+
+    const versionAtServiceDate = await this.getMbsItemVersionsAt(
+      suggestions.map(suggestion => suggestion.itemNumber),
+      format(serviceDate, 'yyyy-MM-dd')
+    );
+
+    return suggestions.map(suggestion =>
+      this.mapPrismaMbsSuggestion(suggestion, versionAtServiceDate.get(suggestion.itemNumber))
+    );
+  }
+
+  /**
+   * The version of each item in effect on a service day. Items first seen after
+   * that day fall back to their earliest version.
+   */
+  private async getMbsItemVersionsAt(itemNumbers: number[], serviceDay: string): Promise<Map<number, MbsItemVersionFees>> {
+    const versionAt = await this.getMbsItemVersionLookup(itemNumbers);
+
+    const versionAtServiceDate = new Map<number, MbsItemVersionFees>();
+    for (const itemNumber of itemNumbers) {
+      const version = versionAt(itemNumber, serviceDay);
+      if (version) {
+        versionAtServiceDate.set(itemNumber, version);
+      }
+    }
+    return versionAtServiceDate;
+  }
+
+  /**
+   * Loads every version of the items once, for looking up the one in effect on
+   * any service day.
+   */
+  private async getMbsItemVersionLookup(
+    itemNumbers: number[]
+  ): Promise<(itemNumber: number, serviceDay: string) => MbsItemVersionFees | undefined> {
+    const versions = await this.prisma.mbsItemVersion.findMany({
+      where: { itemNumber: { in: [...new Set(itemNumbers)] } },
+      select: { ...mbsItemFeeSelect, validFrom: true },
+      orderBy: [{ validFrom: 'asc' }, { id: 'asc' }],
+    });
+
+    const versionsByItem = new Map<number, typeof versions>();
+    for (const version of versions) {
+      versionsByItem.set(version.itemNumber, [...(versionsByItem.get(version.itemNumber) ?? []), version]);
+    }
+
+    // Version dates are calendar days, so compare them with the day of the consultation
+    return (itemNumber, serviceDay) => {
+      let versionAtServiceDate: MbsItemVersionFees | undefined;
+      for (const version of versionsByItem.get(itemNumber) ?? []) {
+        if (!versionAtServiceDate || version.validFrom.toISOString().slice(0, 10) <= serviceDay) {
+          versionAtServiceDate = version;
+        }
+      }
+      return versionAtServiceDate;
+    };
+  }
+
+  private mapPrismaMbsSuggestion(
+    suggestion: PrismaMbsSuggestion,
+    itemVersion?: { description: string; scheduleFee: Prisma.Decimal | null }
+  ): MbsSuggestionRecord {
+    const item = itemVersion ?? suggestion.mbsItem;
+
+    return {
+      id: suggestion.id,
+      tenantId: suggestion.tenantId,
+      consultationId: suggestion.consultationId ?? undefined,
+      itemNumber: suggestion.itemNumber,
+      itemDescription: item.description,
+      scheduleFee: item.scheduleFee?.toNumber(),
+      originalItemNumber: suggestion.originalItemNumber ?? undefined,
+      confidence: suggestion.confidence?.toNumber(),
+      reasoning: suggestion.reasoning ?? undefined,
+      matchedConcepts: suggestion.matchedConcepts,
+      soapExcerpt: suggestion.soapExcerpt ?? undefined,
+      consultationType: suggestion.consultationType ?? undefined,
+      status: suggestion.status as MbsSuggestionRecord['status'],
+      userId: suggestion.userId ?? undefined,
+      userActionAt: suggestion.userActionAt ?? undefined,
+      modelUsed: suggestion.modelUsed ?? undefined,
+      processingTimeMs: suggestion.processingTimeMs ?? undefined,
+      createdAt: suggestion.createdAt,
+      updatedAt: suggestion.updatedAt,
+    };
+  }
+
+  private mapPrismaNoteTemplate(template: PrismaNoteTemplate): NoteTemplate {
+    return {
+      id: template.id,
+      key: template.key,
+      name: template.name,
+      description: template.description ?? undefined,
+      noteType: template.noteType.toLowerCase() as ClinicalNote['noteType'],
+      sections: template.sections as unknown as NoteTemplateSection[],
+      version: template.version,
+      source: template.source,
+      isBuiltIn: template.isBuiltIn,
+      isActive: template.isActive,
+      createdAt: template.createdAt,
+      updatedAt: template.updatedAt,
+    };
+  }
+
+  private mapPrismaNoteTemplateVersion(version: PrismaNoteTemplateVersion): NoteTemplateVersion {
+    return {
+      id: version.id,
+      templateId: version.templateId,
+      version: version.version,
+      name: version.name,
+      noteType: version.noteType.toLowerCase() as ClinicalNote['noteType'],
+      source: version.source,
+      sections: version.sections as unknown as NoteTemplateSection[],
+      changeSummary: version.changeSummary ?? undefined,
+      createdBy: version.createdBy ?? undefined,
+      createdAt: version.createdAt,
+    };
+  }
+
+  private mapPrismaNoteCitation(citation: PrismaNoteCitation): NoteCitation {
+    return {
+      id: citation.id,
+      noteId: citation.noteId,
+      sectionKey: citation.sectionKey,
+      statementIndex: citation.statementIndex,
+      statement: citation.statement,
+      support: citation.support.toLowerCase().replace('_', '-') as NoteCitation['support'],
+      score: citation.score,
+      evidence: citation.evidence as unknown as NoteCitationEvidence[],
+    };
+  }
+
+  private mapPrismaTranscriptSegment(segment: PrismaTranscriptSegment): TranscriptSegment {
+    return {
+      id: segment.id,
+      consultationId: segment.consultationId,
+      sequence: segment.sequence,
+      speaker: segment.speaker,
+      startMs: segment.startMs,
+      endMs: segment.endMs,
+      text: segment.text,
+      confidence: segment.confidence ?? undefined,
+      audioSegment: segment.audioSegment,
+      audioOffsetMs: segment.audioOffsetMs,
+    };
+  }
+
+  private validateSpeakerLabel(speaker: string): void {
+    const label = speaker.trim();
+    if (!label || label.length > MAX_SPEAKER_LABEL_LENGTH) {
+      throw new TranscriptValidationError(
+        `Speaker label must be between 1 and ${MAX_SPEAKER_LABEL_LENGTH} characters`,
+        this.tenantConfig.id
+      );
+    }
+  }
+
+  private async getRecentNotes(patientId: string): Promise<ClinicalNote[]> {
+    await this.setTenantContext();
+    
+    const notes = await this.prisma.clinicalNote.findMany({
+      where: {
+        tenantId: this.tenantConfig.id,
+        patientId,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 5,
+    });
+
+    return notes.map(note => this.mapPrismaNoteToClientNote(note));
+  }
+
+  private calculateAge(dateOfBirth: Date): number {
+    const today = new Date();
+    const birthDate = new Date(dateOfBirth);
+    let age = today.getFullYear() - birthDate.getFullYear();
+    const monthDiff = today.getMonth() - birthDate.getMonth();
+    
+    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+      age--;
+    }
+    
+    return age;
+  }
+
+  private calculateAverageConsultationTime(consultations: Consultation[]): number {
+    const completedWithTimes = consultations.filter((c): c is Consultation & { recordingStartTime: Date; recordingEndTime: Date } => 
+      c.recordingStartTime != null && c.recordingEndTime != null
+    );
+    
+    if (completedWithTimes.length === 0) return 0;
+    
+    const totalMinutes = completedWithTimes.reduce((sum, c) => {
+      const duration = (c.recordingEndTime.getTime() - c.recordingStartTime.getTime()) / (1000 * 60);
+      return sum + duration;
     }, 0);
     
     return Math.round(totalMinutes / completedWithTimes.length);
   }
-}
\ No newline at end of file
+
+  /**
+   * Percentage of AI-drafted statements backed by the transcript. Statements
+   * taken from the patient record aren't counted either way.
+   */
+  private calculateTranscriptSupportRate(supported: number, unsupported: number): number | undefined {
+    const total = supported + unsupported;
+    if (total === 0) return undefined;
+
+    return Math.round((supported / total) * 1000) / 10;
+  }
+}
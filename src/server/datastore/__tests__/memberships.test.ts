@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  tenantMembership: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn(),
+    delete: vi.fn(),
+  },
+  session: {
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
+}));
+
+vi.mock('@/server/db', () => ({ db }));
+
+import { removeTenantMember, resolveActiveMembership, setSessionActiveTenant } from '../memberships';
+import { MembershipNotFoundError, MembershipValidationError } from '../types';
+
+const membership = (tenantId: string, role: string) => ({
+  id: `membership-${tenantId}`,
+  tenantId,
+  userId: 'user-001',
+  role,
+  createdAt: new Date('2025-08-01T09:00:00'),
+  updatedAt: new Date('2025-08-01T09:00:00'),
+  tenant: { name: `Clinic ${tenantId}` },
+  user: { name: 'Dr Alex Chen', email: 'alex@example.com' },
+});
+
+describe('tenant memberships', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('uses the session active tenant while the user still belongs to it', async () => {
+    db.tenantMembership.findUnique.mockResolvedValue(membership('tenant-002', 'PRACTICE_MANAGER'));
+
+    const active = await resolveActiveMembership('user-001', 'tenant-002');
+
+    expect(active).toMatchObject({ tenantId: 'tenant-002', tenantName: 'Clinic tenant-002', role: 'practice-manager' });
+    expect(db.tenantMembership.findMany).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the first clinic when the active tenant membership was removed', async () => {
+    db.tenantMembership.findUnique.mockResolvedValue(null);
+    db.tenantMembership.findMany.mockResolvedValue([membership('tenant-001', 'CLINICIAN'), membership('tenant-003', 'NURSE')]);
+
+    const active = await resolveActiveMembership('user-001', 'tenant-002');
+
+    expect(active).toMatchObject({ tenantId: 'tenant-001', role: 'clinician' });
+  });
+
+  it('refuses to switch a session to a clinic the user does not belong to', async () => {
+    db.tenantMembership.findUnique.mockResolvedValue(null);
+
+    await expect(setSessionActiveTenant('session-001', 'user-001', 'tenant-009'))
+      .rejects.toBeInstanceOf(MembershipNotFoundError);
+    expect(db.session.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps at least one owner in a clinic', async () => {
+    db.tenantMembership.findUnique.mockResolvedValue(membership('tenant-001', 'OWNER'));
+    db.tenantMembership.count.mockResolvedValue(0);
+
+    await expect(removeTenantMember('tenant-001', 'user-001')).rejects.toBeInstanceOf(MembershipValidationError);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -368,6 +368,26 @@ function parseFeatures(features: unknown): TenantConfig['features'] {
   };
 }
 
+/**
+ * Safely parse the clinic letterhead from database JSON, dropping malformed fields
+ */
+function parseLetterhead(letterhead: unknown): TenantConfig['letterhead'] {
+  if (!letterhead || typeof letterhead !== 'object') {
+    return undefined;
+  }
+
+  const obj = letterhead as Record<string, unknown>;
+  const optionalString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  return {
+    addressLines: Array.isArray(obj.addressLines)
+      ? obj.addressLines.filter((line): line is string => typeof line === 'string' && line.trim() !== '')
+      : [],
+    phone: optionalString(obj.phone),
+    email: optionalString(obj.email),
+    website: optionalString(obj.website),
+  };
+}
+
 // ============================================================================
 // SERVICE LOCATOR
 // ============================================================================
@@ -406,6 +426,7 @@ export async function getTenantConfig(tenantId: string): Promise<TenantConfig |
       isDedicatedDb: tenant.isDedicatedDb,
       dbConnectionUri: tenant.dbConnectionUri ?? undefined,
       features: parseFeatures(tenant.features),
+      letterhead: parseLetterhead(tenant.letterhead),
     };
   } catch (error) {
     console.error(`Failed to get tenant config for ${tenantId}:`, error);
@@ -413,6 +434,17 @@ export async function getTenantConfig(tenantId: string): Promise<TenantConfig |
   }
 }
 
+/**
+ * IDs of the tenants in EHR-integrated mode
+ */
+export async function getEhrIntegratedTenantIds(): Promise<string[]> {
+  const tenants = await db.tenant.findMany({
+    where: { operatingMode: operatingModeToDbFormat('ehr-integrated') },
+    select: { id: true },
+  });
+  return tenants.map(tenant => tenant.id);
+}
+
 /**
  * Create a tenant record in the database
  */
@@ -427,6 +459,7 @@ export async function createTenant(
       patientManagement?: boolean;
       ehrSync?: boolean;
     };
+    ownerUserId?: string; // Made the clinic's first owner
   } = {}
 ): Promise<TenantConfig> {
   const tenant = await db.tenant.create({
@@ -440,6 +473,9 @@ export async function createTenant(
         patientManagement: options.features?.patientManagement ?? true,
         ehrSync: options.features?.ehrSync ?? false,
       },
+      memberships: options.ownerUserId
+        ? { create: { userId: options.ownerUserId, role: 'OWNER' } }
+        : undefined,
     },
   });
 
@@ -450,6 +486,7 @@ export async function createTenant(
     isDedicatedDb: tenant.isDedicatedDb,
     dbConnectionUri: tenant.dbConnectionUri ?? undefined,
     features: parseFeatures(tenant.features),
+    letterhead: parseLetterhead(tenant.letterhead),
   };
 }
 
@@ -487,4 +524,5 @@ export async function clearTenantContext(): Promise<void> {
 
 export type { DataStore, TenantConfig } from './types';
 export { SharedPostgresStore } from './SharedPostgresStore';
-export * from './types';
\ No newline at end of file
+export * from './types';
+export * from './memberships';
\ No newline at end of file
@@ -0,0 +1,271 @@
+/**
+ * Tenant Memberships
+ *
+ * Links users to the clinics they work in and the role they hold in each, and
+ * tracks which clinic a session is currently working in. Lookups by user run
+ * before a tenant is active, so they use the application connection directly,
+ * like getTenantConfig().
+ */
+
+import { db } from '@/server/db';
+import type { Prisma, TenantRole as DbTenantRole } from '@/generated/prisma';
+import {
+  MembershipNotFoundError,
+  MembershipValidationError,
+  type TenantMembershipRecord,
+  type TenantRole,
+} from './types';
+
+const membershipInclude = {
+  tenant: { select: { name: true } },
+  user: { select: { name: true, email: true } },
+} satisfies Prisma.TenantMembershipInclude;
+
+type PrismaMembership = Prisma.TenantMembershipGetPayload<{ include: typeof membershipInclude }>;
+
+// Roles that can manage a clinic's members
+export const TENANT_ADMIN_ROLES: TenantRole[] = ['owner', 'practice-manager'];
+
+// Roles that can edit, sign and amend clinical notes
+export const TENANT_CLINICIAN_ROLES: TenantRole[] = ['owner', 'clinician', 'nurse'];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Convert a tenant role from kebab-case to SCREAMING_SNAKE_CASE for database storage
+ */
+export function tenantRoleToDbFormat(role: TenantRole): DbTenantRole {
+  return role.toUpperCase().replace('-', '_') as DbTenantRole;
+}
+
+/**
+ * Convert a tenant role from SCREAMING_SNAKE_CASE to kebab-case for API responses
+ */
+function tenantRoleFromDbFormat(role: DbTenantRole): TenantRole {
+  return role.toLowerCase().replace('_', '-') as TenantRole;
+}
+
+function mapPrismaMembership(membership: PrismaMembership): TenantMembershipRecord {
+  return {
+    id: membership.id,
+    tenantId: membership.tenantId,
+    tenantName: membership.tenant.name,
+    userId: membership.userId,
+    userName: membership.user.name,
+    userEmail: membership.user.email,
+    role: tenantRoleFromDbFormat(membership.role),
+    providerNumber: membership.providerNumber ?? undefined,
+    createdAt: membership.createdAt,
+    updatedAt: membership.updatedAt,
+  };
+}
+
+/**
+ * Ensure a change leaves the clinic with at least one owner
+ */
+async function assertOtherOwnerExists(tenantId: string, userId: string): Promise<void> {
+  const otherOwners = await db.tenantMembership.count({
+    where: { tenantId, role: 'OWNER', userId: { not: userId } },
+  });
+  if (otherOwners === 0) {
+    throw new MembershipValidationError('A clinic must keep at least one owner', tenantId);
+  }
+}
+
+// ============================================================================
+// USER MEMBERSHIPS
+// ============================================================================
+
+/**
+ * Get every clinic a user belongs to, oldest membership first
+ */
+export async function getUserMemberships(userId: string): Promise<TenantMembershipRecord[]> {
+  const memberships = await db.tenantMembership.findMany({
+    where: { userId },
+    include: membershipInclude,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return memberships.map(mapPrismaMembership);
+}
+
+/**
+ * Get a user's membership of a clinic, or null if they don't belong to it
+ */
+export async function getTenantMembership(
+  userId: string,
+  tenantId: string
+): Promise<TenantMembershipRecord | null> {
+  const membership = await db.tenantMembership.findUnique({
+    where: { tenantId_userId: { tenantId, userId } },
+    include: membershipInclude,
+  });
+
+  return membership ? mapPrismaMembership(membership) : null;
+}
+
+/**
+ * Resolve the clinic a session is working in
+ *
+ * Uses the session's active tenant while the user still belongs to it, and
+ * otherwise falls back to the user's first clinic.
+ */
+export async function resolveActiveMembership(
+  userId: string,
+  activeTenantId?: string | null
+): Promise<TenantMembershipRecord | null> {
+  if (activeTenantId) {
+    const membership = await getTenantMembership(userId, activeTenantId);
+    if (membership) {
+      return membership;
+    }
+  }
+
+  const [first] = await getUserMemberships(userId);
+  return first ?? null;
+}
+
+/**
+ * Switch the clinic a session is working in
+ * @throws {MembershipNotFoundError} if the user doesn't belong to the clinic
+ */
+export async function setSessionActiveTenant(
+  sessionId: string,
+  userId: string,
+  tenantId: string
+): Promise<TenantMembershipRecord> {
+  const membership = await getTenantMembership(userId, tenantId);
+  if (!membership) {
+    throw new MembershipNotFoundError(userId, tenantId);
+  }
+
+  await db.session.update({
+    where: { id: sessionId },
+    data: { activeTenantId: tenantId },
+  });
+
+  return membership;
+}
+
+// ============================================================================
+// CLINIC MEMBERS
+// ============================================================================
+
+/**
+ * Get a clinic's members, ordered by name
+ */
+export async function getTenantMembers(tenantId: string): Promise<TenantMembershipRecord[]> {
+  const memberships = await db.tenantMembership.findMany({
+    where: { tenantId },
+    include: membershipInclude,
+    orderBy: { user: { name: 'asc' } },
+  });
+
+  return memberships.map(mapPrismaMembership);
+}
+
+/**
+ * Add an existing user to a clinic by email
+ * @throws {MembershipValidationError} if there is no such user or they already belong to the clinic
+ */
+export async function addTenantMember(
+  tenantId: string,
+  email: string,
+  role: TenantRole
+): Promise<TenantMembershipRecord> {
+  const user = await db.user.findUnique({
+    where: { email: email.trim().toLowerCase() },
+    select: { id: true },
+  });
+  if (!user) {
+    throw new MembershipValidationError(`No account found for ${email}`, tenantId);
+  }
+
+  if (await getTenantMembership(user.id, tenantId)) {
+    throw new MembershipValidationError(`${email} is already a member of this clinic`, tenantId);
+  }
+
+  const membership = await db.tenantMembership.create({
+    data: { tenantId, userId: user.id, role: tenantRoleToDbFormat(role) },
+    include: membershipInclude,
+  });
+
+  return mapPrismaMembership(membership);
+}
+
+/**
+ * Change a member's role
+ * @throws {MembershipNotFoundError} if the user doesn't belong to the clinic
+ * @throws {MembershipValidationError} if it would leave the clinic without an owner
+ */
+export async function updateTenantMemberRole(
+  tenantId: string,
+  userId: string,
+  role: TenantRole
+): Promise<TenantMembershipRecord> {
+  const existing = await getTenantMembership(userId, tenantId);
+  if (!existing) {
+    throw new MembershipNotFoundError(userId, tenantId);
+  }
+
+  if (existing.role === 'owner' && role !== 'owner') {
+    await assertOtherOwnerExists(tenantId, userId);
+  }
+
+  const membership = await db.tenantMembership.update({
+    where: { id: existing.id },
+    data: { role: tenantRoleToDbFormat(role) },
+    include: membershipInclude,
+  });
+
+  return mapPrismaMembership(membership);
+}
+
+/**
+ * Set or clear the Medicare provider number a member bills under at this clinic
+ * @throws {MembershipNotFoundError} if the user doesn't belong to the clinic
+ */
+export async function updateTenantMemberProviderNumber(
+  tenantId: string,
+  userId: string,
+  providerNumber: string | null
+): Promise<TenantMembershipRecord> {
+  const existing = await getTenantMembership(userId, tenantId);
+  if (!existing) {
+    throw new MembershipNotFoundError(userId, tenantId);
+  }
+
+  const membership = await db.tenantMembership.update({
+    where: { id: existing.id },
+    data: { providerNumber },
+    include: membershipInclude,
+  });
+
+  return mapPrismaMembership(membership);
+}
+
+/**
+ * Remove a member from a clinic, clearing it from any of their sessions using it
+ * @throws {MembershipNotFoundError} if the user doesn't belong to the clinic
+ * @throws {MembershipValidationError} if they are the clinic's last owner
+ */
+export async function removeTenantMember(tenantId: string, userId: string): Promise<void> {
+  const existing = await getTenantMembership(userId, tenantId);
+  if (!existing) {
+    throw new MembershipNotFoundError(userId, tenantId);
+  }
+
+  if (existing.role === 'owner') {
+    await assertOtherOwnerExists(tenantId, userId);
+  }
+
+  await db.$transaction([
+    db.tenantMembership.delete({ where: { id: existing.id } }),
+    db.session.updateMany({
+      where: { userId, activeTenantId: tenantId },
+      data: { activeTenantId: null },
+    }),
+  ]);
+}
@@ -10,10 +10,22 @@ import type {
   AppointmentStatus,
   PatientSummary,
   PatientContext,
+  Medication,
+  Allergy,
+  ClinicalAlert,
   ClinicalNote,
   DashboardStats,
-  PendingAction
+  PendingAction,
+  TranscriptSegment,
+  NoteTemplate,
+  NoteTemplateVersion,
+  NoteCitation,
+  ClinicalNoteVersion
 } from '@/types/clinical';
+import type { ClaimStatus } from '@/lib/claim-status';
+import type { BridgeVendor } from '@/services/bridge/protocol';
+
+export type { ClaimStatus };
 
 // ============================================================================
 // DATASTORE INTERFACE
@@ -35,7 +47,13 @@ export interface DataStore {
   
   // Clinical notes
   createClinicalNote(patientId: string, note: ClinicalNoteInput): Promise<ClinicalNote>;
-  updateClinicalNote(noteId: string, updates: Partial<ClinicalNote>): Promise<ClinicalNote>;
+  getClinicalNote(noteId: string): Promise<ClinicalNote>;
+  // Edits and status changes follow the workflow in lib/note-status; signed notes must be amended
+  updateClinicalNote(noteId: string, updates: Partial<ClinicalNote>, authorId?: string): Promise<ClinicalNote>;
+  amendClinicalNote(noteId: string, amendment: AmendClinicalNoteInput): Promise<ClinicalNote>;
+  getClinicalNoteVersions(noteId: string): Promise<ClinicalNoteVersion[]>;
+  getConsultationNotes(consultationId: string): Promise<ClinicalNote[]>;
+  getNoteCitations(noteId: string): Promise<NoteCitation[]>;
   
   // Dashboard data
   getDashboardStats(clinicianId: string, date?: Date): Promise<DashboardStats>;
@@ -51,6 +69,62 @@ export interface DataStore {
   createConsultation(consultation: CreateConsultationInput): Promise<ConsultationRecord>;
   updateConsultation(consultationId: string, updates: UpdateConsultationInput): Promise<ConsultationRecord>;
   getConsultation(consultationId: string): Promise<ConsultationRecord>;
+  
+  // Transcripts - transcriptionText on the consultation is derived from these segments
+  getTranscriptSegments(consultationId: string): Promise<TranscriptSegment[]>;
+  replaceTranscriptSegments(consultationId: string, segments: TranscriptSegmentInput[]): Promise<TranscriptSegment[]>;
+  relabelTranscriptSpeaker(consultationId: string, input: RelabelSpeakerInput): Promise<TranscriptSegment[]>;
+  
+  // Note templates - built-ins are seeded into the tenant's library on first read
+  listNoteTemplates(options?: { includeInactive?: boolean }): Promise<NoteTemplate[]>;
+  getNoteTemplate(templateId: string): Promise<NoteTemplate>;
+  getNoteTemplateByKey(key: string): Promise<NoteTemplate | null>;
+  createNoteTemplate(input: CreateNoteTemplateInput): Promise<NoteTemplate>;
+  updateNoteTemplate(templateId: string, input: NoteTemplateInput): Promise<NoteTemplate>;
+  setNoteTemplateActive(templateId: string, isActive: boolean): Promise<NoteTemplate>;
+  getNoteTemplateVersions(templateId: string): Promise<NoteTemplateVersion[]>;
+  
+  // Exports - files are rendered by the export queue; these track the request and its result
+  createExport(input: CreateExportInput): Promise<ExportRecord>;
+  getExport(exportId: string): Promise<ExportRecord>;
+  updateExport(exportId: string, updates: UpdateExportInput): Promise<ExportRecord>;
+  getConsultationExports(consultationId: string): Promise<ExportRecord[]>;
+
+  // MBS suggestions - drafted by the suggestion queue from a note under review, then actioned by the clinician
+  getConsultationMbsSuggestions(consultationId: string): Promise<MbsSuggestionRecord[]>;
+  replaceMbsSuggestions(consultationId: string, suggestions: MbsSuggestionInput[]): Promise<MbsSuggestionRecord[]>;
+  updateMbsSuggestion(suggestionId: string, action: MbsSuggestionActionInput): Promise<MbsSuggestionRecord>;
+  getPatientMbsClaims(patientId: string, options: MbsClaimQuery): Promise<MbsClaimRecord[]>;
+
+  // Billing - accepted suggestions become claim lines, batched by service day until the day's claim file is exported
+  getClaimableMbsSuggestions(query: ClaimableSuggestionQuery): Promise<ClaimLineInput[]>;
+  getPendingClaimLines(query?: { consultationId?: string }): Promise<ClaimLineRecord[]>;
+  saveClaimLines(serviceDay: string, lines: ClaimLineInput[]): Promise<ClaimLineRecord[]>;
+  deletePendingClaimLines(lineIds: string[]): Promise<number>;
+  listClaimBatches(query?: ClaimBatchQuery): Promise<ClaimBatchRecord[]>;
+  getClaimBatch(batchId: string): Promise<ClaimBatchDetail>;
+  markClaimBatchExported(batchId: string, exportedBy: string): Promise<ClaimBatchDetail>;
+  updateClaimLineStatus(lineId: string, update: ClaimLineStatusInput): Promise<ClaimLineRecord>;
+  getBillingActivity(query: BillingActivityQuery): Promise<BillingActivity>;
+
+  // EHR connection - SMART on FHIR settings and tokens, and the bridge agent; secrets are encrypted before they reach the store
+  getEhrConnection(): Promise<EhrConnectionRecord | null>;
+  saveEhrConnection(input: EhrConnectionInput): Promise<EhrConnectionRecord>;
+  saveEhrBridge(bridge: EhrBridgeInput | null): Promise<EhrConnectionRecord>;
+  saveEhrAuthorization(authorization: EhrAuthorizationInput | null): Promise<EhrConnectionRecord>;
+  recordEhrRefreshError(error: string): Promise<void>;
+
+  // EHR write-back - signed notes and appointment status changes waiting to be written to the clinic's EHR
+  queueEhrWriteBack(input: EhrWriteBackInput): Promise<EhrWriteBackRecord>;
+  getEhrWriteBack(writeBackId: string): Promise<EhrWriteBackRecord>;
+  claimEhrWriteBack(writeBackId: string, staleBefore: Date): Promise<EhrWriteBackRecord | null>;
+  recordEhrWriteBackAttempt(writeBackId: string, attempt: EhrWriteBackAttempt): Promise<EhrWriteBackRecord>;
+  retryEhrWriteBack(writeBackId: string): Promise<EhrWriteBackRecord>;
+  recordEhrNote(noteId: string, ehrNote: { ehrNoteId: string; ehrUpdatedAt: Date }): Promise<void>;
+
+  // Patient context cache - the last patient context read from the clinic's EHR, by EHR patient ID
+  getCachedPatientContext(ehrPatientId: string): Promise<CachedPatientContext>;
+  cachePatientContext(ehrPatientId: string, context: CachedPatientContext): Promise<void>;
 }
 
 // ============================================================================
@@ -62,10 +136,22 @@ export interface ClinicalNoteInput {
   content: string;
   noteType?: 'progress' | 'soap' | 'assessment' | 'plan' | 'referral' | 'other';
   template?: string;
+  status?: 'draft' | 'pending-review';
   consultationId?: string;
   generatedFromAudio?: boolean;
   transcriptionId?: string;
   aiConfidence?: number;
+  // Saved with the note, so a note is never left without its citations
+  citations?: NoteCitationInput[];
+}
+
+export type NoteCitationInput = Omit<NoteCitation, 'id' | 'noteId'>;
+
+export interface AmendClinicalNoteInput {
+  title?: string;
+  content: string;
+  reason: string;
+  authorId: string;
 }
 
 export interface CreatePatientInput {
@@ -82,6 +168,8 @@ export interface CreatePatientInput {
     postalCode?: string;
     country?: string;
   };
+  medicareNumber?: string;
+  medicareIrn?: number;
   source?: 'aria-scribe' | 'ehr' | 'imported';
 }
 
@@ -99,12 +187,16 @@ export interface UpdatePatientInput {
     postalCode?: string;
     country?: string;
   };
+  medicareNumber?: string;
+  medicareIrn?: number;
 }
 
 export interface CreateConsultationInput {
   patientId: string;
+  clinicianId?: string;
   mode: 'standalone' | 'ehr-integrated';
   selectedTemplate?: string;
+  ehrAppointment?: { id: string; scheduledTime: Date }; // The EHR appointment the consultation is for
 }
 
 export interface UpdateConsultationInput {
@@ -112,10 +204,157 @@ export interface UpdateConsultationInput {
   recordingStartTime?: Date;
   recordingEndTime?: Date;
   audioFileUrl?: string;
-  transcriptionText?: string;
+  transcriptionProgress?: number | null;
+  transcriptionError?: string | null;
+  noteGenerationProgress?: number | null;
+  noteGenerationError?: string | null;
   selectedTemplate?: string;
 }
 
+export interface TranscriptSegmentInput {
+  speaker: string;
+  startMs: number;
+  endMs: number;
+  text: string;
+  confidence?: number;
+  audioSegment?: number;
+  audioOffsetMs?: number;
+}
+
+/**
+ * Rename a speaker across the transcript, or reassign specific segments
+ */
+export interface RelabelSpeakerInput {
+  speaker: string;
+  fromSpeaker?: string;
+  segmentIds?: string[];
+}
+
+/**
+ * A template revision written in the template DSL; every saved change creates a new version
+ */
+export interface NoteTemplateInput {
+  source: string;
+  changeSummary?: string;
+  createdBy?: string;
+}
+
+export interface CreateNoteTemplateInput extends NoteTemplateInput {
+  key?: string; // Derived from the template name when omitted
+}
+
+export interface CreateExportInput {
+  consultationId: string;
+  format: ExportFormat;
+  fileName: string;
+  requestedBy?: string;
+}
+
+export interface UpdateExportInput {
+  status?: ExportStatus;
+  filePath?: string | null;
+  fileSize?: number | null;
+  error?: string | null;
+}
+
+export interface MbsSuggestionInput {
+  itemNumber: number;
+  confidence: number; // 0-1
+  reasoning: string;
+  matchedConcepts: string[];
+  soapExcerpt?: string;
+  consultationType?: string;
+  modelUsed?: string;
+  processingTimeMs?: number;
+}
+
+export type MbsSuggestionActionInput =
+  | { status: 'accepted' | 'rejected'; userId: string }
+  | { status: 'modified'; userId: string; itemNumber: number };
+
+export interface MbsClaimQuery {
+  since: Date; // Earliest service date to include
+  excludeConsultationId?: string; // Usually the consultation being billed
+}
+
+export interface ClaimableSuggestionQuery {
+  since?: Date; // Suggestions actioned since then; those already on pending claim lines are always included
+  consultationId?: string;
+}
+
+/**
+ * What a claim line bills and who for, copied from the suggestion, its consultation,
+ * the patient and the clinician's membership when the line is assembled
+ */
+export interface ClaimLineInput {
+  suggestionId: string;
+  consultationId: string;
+  patientId: string;
+  itemNumber: number;
+  itemDescription: string;
+  scheduleFee?: number; // At the service date
+  serviceDate: Date;
+  clinicianId?: string; // Clinician who accepted the suggestion
+  providerNumber?: string;
+  patientFirstName: string;
+  patientLastName: string;
+  patientDateOfBirth?: Date;
+  medicareNumber?: string;
+  medicareIrn?: number;
+}
+
+export interface ClaimBatchQuery {
+  status?: ClaimBatchStatus;
+  limit?: number;
+}
+
+export interface ClaimLineStatusInput {
+  status: ClaimStatus;
+  reason?: string; // Usually why Medicare rejected the claim
+}
+
+export interface BillingActivityQuery {
+  from: Date; // Service dates from the start of this day
+  to: Date; // Through the end of this day
+  clinicianId?: string;
+}
+
+export interface EhrConnectionInput {
+  fhirBaseUrl: string;
+  clientId: string;
+  scopes: string[];
+  clientSecret?: string | null; // Encrypted; left out to keep the current secret, null to remove it
+}
+
+export type EhrAuthorizationInput = Omit<EhrAuthorization, 'refreshError'>;
+
+export interface EhrBridgeInput {
+  url: string;
+  vendor: BridgeVendor;
+  token?: string; // Encrypted; left out to keep the current token
+}
+
+/**
+ * A change to write back. Queueing a note or appointment that already has an
+ * undelivered write-back updates that one instead of adding another.
+ */
+export type EhrWriteBackInput =
+  | { kind: 'clinical-note'; noteId: string; requestedBy?: string }
+  | {
+      kind: 'appointment-status';
+      consultationId: string;
+      ehrAppointmentId: string;
+      appointmentStart: Date; // As booked when the status changed
+      appointmentStatus: AppointmentStatus;
+      requestedBy?: string;
+    };
+
+export interface EhrWriteBackAttempt {
+  status: EhrWriteBackStatus;
+  error?: string;
+  nextAttemptAt?: Date; // When a pending write-back will be tried again
+}
+
 // ============================================================================
 // INTERNAL TYPES
 // ============================================================================
@@ -127,17 +366,155 @@ export interface ConsultationRecord {
   id: string;
   tenantId: string;
   patientId: string;
+  clinicianId?: string;
   mode: 'standalone' | 'ehr-integrated';
   status: 'ready' | 'recording' | 'processing' | 'review' | 'complete' | 'error';
   recordingStartTime?: Date;
   recordingEndTime?: Date;
   audioFileUrl?: string;
   transcriptionText?: string;
+  transcriptionProgress?: number; // 0-100 while a transcription job is running
+  transcriptionError?: string;
+  noteGenerationProgress?: number; // 0-100 while a note generation job is running
+  noteGenerationError?: string;
   selectedTemplate?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type ExportFormat = 'pdf' | 'docx' | 'txt';
+
+export type ExportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * A requested export of a consultation's notes and the file it produced
+ */
+export interface ExportRecord {
+  id: string;
+  tenantId: string;
+  consultationId: string;
+  format: ExportFormat;
+  requestedBy?: string;
+  fileName: string;
+  filePath?: string; // Set once the file has been written
+  fileSize?: number; // bytes
+  status: ExportStatus;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type MbsSuggestionStatus = 'suggested' | 'accepted' | 'rejected' | 'modified';
+
+/**
+ * An MBS item suggested for a consultation and what the clinician did with it
+ */
+export interface MbsSuggestionRecord {
+  id: string;
+  tenantId: string;
+  consultationId?: string;
+  itemNumber: number;
+  itemDescription: string;
+  scheduleFee?: number;
+  originalItemNumber?: number; // Set when the clinician swapped the suggested item for another
+  confidence?: number; // 0-1
+  reasoning?: string;
+  matchedConcepts: string[];
+  soapExcerpt?: string;
+  consultationType?: string;
+  status: MbsSuggestionStatus;
+  userId?: string; // Clinician who actioned it
+  userActionAt?: Date;
+  modelUsed?: string;
+  processingTimeMs?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * An item billed for one of the patient's consultations - an accepted or changed suggestion
+ */
+export interface MbsClaimRecord {
+  consultationId: string;
+  itemNumber: number;
+  groupName?: string;
+  serviceDate: Date; // When the consultation was recorded, or created if it never was
+}
+
+export type ClaimBatchStatus = 'open' | 'exported';
+
+/**
+ * A day's claims, exported together as one claim file
+ */
+export interface ClaimBatchRecord {
+  id: string;
+  tenantId: string;
+  serviceDate: string; // yyyy-MM-dd
+  status: ClaimBatchStatus;
+  exportedAt?: Date;
+  exportedBy?: string;
+  lineCount: number;
+  totalFee: number; // Sum of the lines' schedule fees
+  statusCounts: Partial<Record<ClaimStatus, number>>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ClaimBatchDetail extends ClaimBatchRecord {
+  lines: ClaimLineRecord[];
+}
+
+/**
+ * An accepted MBS suggestion as a line on a Medicare claim
+ */
+export interface ClaimLineRecord extends ClaimLineInput {
+  id: string;
+  tenantId: string;
+  batchId: string;
+  status: ClaimStatus;
+  statusReason?: string;
+  statusUpdatedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Consultations in a date range and every MBS suggestion made for them, the raw
+ * material for billing analytics
+ */
+export interface BillingActivity {
+  consultations: BillingConsultation[];
+  suggestions: MbsSuggestionOutcome[];
+}
+
+export interface BillingConsultation {
+  id: string;
+  clinicianId?: string; // Who started it, or for older consultations who first actioned a suggestion
+  serviceDate: Date;
+}
+
+/**
+ * What became of one suggestion, with the fees of the items involved on the service date
+ */
+export interface MbsSuggestionOutcome {
+  suggestionId: string;
+  consultationId: string;
+  clinicianId?: string;
+  serviceDate: Date;
+  status: MbsSuggestionStatus;
+  suggestedItem: MbsItemFees; // The item as suggested, before any change
+  billedItem?: MbsItemFees; // Set for accepted and changed suggestions
+}
+
+export interface MbsItemFees {
+  itemNumber: number;
+  description: string;
+  scheduleFee?: number;
+  benefit75?: number;
+  benefit85?: number;
+  benefit100?: number;
+}
+
 /**
  * Tenant configuration for DataStore selection
  */
@@ -152,6 +529,116 @@ export interface TenantConfig {
     patientManagement: boolean;
     ehrSync: boolean;
   };
+  letterhead?: ClinicLetterhead;
+}
+
+/**
+ * A clinic's connection to its EHR: SMART on FHIR settings, a bridge agent, or
+ * both. Changing its FHIR server or client clears the authorization, since
+ * tokens only work with the server and client they were issued to.
+ */
+export interface EhrConnectionRecord {
+  id: string;
+  tenantId: string;
+  fhirBaseUrl?: string; // Unset for clinics that only connect through a bridge agent
+  clientId?: string;
+  clientSecret?: string; // Encrypted
+  scopes: string[];
+  authorization?: EhrAuthorization; // From the last completed launch
+  bridge?: EhrBridge;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * The bridge agent on the clinic's own network, for products without a FHIR API
+ */
+export interface EhrBridge {
+  url: string;
+  token: string; // Encrypted
+  vendor: BridgeVendor;
+}
+
+export type EhrWriteBackKind = 'clinical-note' | 'appointment-status';
+export type EhrWriteBackStatus = 'pending' | 'delivering' | 'delivered' | 'failed' | 'conflict';
+
+/**
+ * A change queued for the clinic's EHR. Failed and conflicted write-backs are
+ * shown as pending actions until they are retried.
+ */
+export interface EhrWriteBackRecord {
+  id: string;
+  kind: EhrWriteBackKind;
+  requestedBy?: string;
+  noteId?: string;
+  consultationId?: string;
+  ehrAppointmentId?: string;
+  appointmentStart?: Date;
+  appointmentStatus?: AppointmentStatus;
+  status: EhrWriteBackStatus;
+  overwrite: boolean; // Retried after a conflict, so changes made in the EHR are written over
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * The parts of a patient's context, each cached and refreshed on its own
+ */
+export interface PatientContextSections {
+  summary: PatientSummary;
+  medications: Medication[];
+  allergies: Allergy[];
+  alerts: ClinicalAlert[];
+  recentNotes: ClinicalNote[];
+}
+
+export type PatientContextSection = keyof PatientContextSections;
+
+/**
+ * The parts of a patient's context cached from the EHR, with when each was read
+ */
+export type CachedPatientContext = {
+  [Section in PatientContextSection]?: { data: PatientContextSections[Section]; fetchedAt: Date };
+};
+
+export interface EhrAuthorization {
+  accessToken: string; // Encrypted
+  refreshToken?: string; // Encrypted
+  tokenEndpoint: string;
+  expiresAt?: Date;
+  grantedScopes: string[];
+  authorizedBy?: string;
+  authorizedAt: Date;
+  refreshError?: string; // Why the last refresh failed
+}
+
+export interface ClinicLetterhead {
+  addressLines: string[];
+  phone?: string;
+  email?: string;
+  website?: string;
+}
+
+export type TenantRole = 'owner' | 'clinician' | 'nurse' | 'receptionist' | 'practice-manager';
+
+/**
+ * A user's membership of a clinic and the role they hold there
+ */
+export interface TenantMembershipRecord {
+  id: string;
+  tenantId: string;
+  tenantName: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  role: TenantRole;
+  providerNumber?: string;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // ============================================================================
@@ -188,6 +675,134 @@ export class ConsultationNotFoundError extends DataStoreError {
   }
 }
 
+export class TranscriptValidationError extends DataStoreError {
+  constructor(message: string, tenantId?: string) {
+    super(message, 'TRANSCRIPT_VALIDATION_ERROR', tenantId);
+  }
+}
+
+export class NoteTemplateNotFoundError extends DataStoreError {
+  constructor(templateId: string, tenantId?: string) {
+    super(`Note template not found: ${templateId}`, 'NOTE_TEMPLATE_NOT_FOUND', tenantId);
+  }
+}
+
+export class NoteTemplateValidationError extends DataStoreError {
+  constructor(message: string, tenantId?: string) {
+    super(message, 'NOTE_TEMPLATE_VALIDATION_ERROR', tenantId);
+  }
+}
+
+export class NoteNotFoundError extends DataStoreError {
+  constructor(noteId: string, tenantId?: string) {
+    super(`Clinical note not found: ${noteId}`, 'NOTE_NOT_FOUND', tenantId);
+  }
+}
+
+export class NoteValidationError extends DataStoreError {
+  constructor(message: string, tenantId?: string) {
+    super(message, 'NOTE_VALIDATION_ERROR', tenantId);
+  }
+}
+
+export class InvalidNoteTransitionError extends DataStoreError {
+  constructor(
+    public from: ClinicalNote['status'],
+    public to: ClinicalNote['status'],
+    tenantId?: string
+  ) {
+    super(`Clinical note cannot move from ${from} to ${to}`, 'NOTE_INVALID_TRANSITION', tenantId);
+  }
+}
+
+export class NoteLockedError extends DataStoreError {
+  constructor(noteId: string, tenantId?: string) {
+    super(`Clinical note ${noteId} is signed and can only be changed by an amendment`, 'NOTE_LOCKED', tenantId);
+  }
+}
+
+export class ExportNotFoundError extends DataStoreError {
+  constructor(exportId: string, tenantId?: string) {
+    super(`Export not found: ${exportId}`, 'EXPORT_NOT_FOUND', tenantId);
+  }
+}
+
+export class MbsSuggestionNotFoundError extends DataStoreError {
+  constructor(suggestionId: string, tenantId?: string) {
+    super(`MBS suggestion not found: ${suggestionId}`, 'MBS_SUGGESTION_NOT_FOUND', tenantId);
+  }
+}
+
+export class MbsSuggestionValidationError extends DataStoreError {
+  constructor(message: string, tenantId?: string) {
+    super(message, 'MBS_SUGGESTION_VALIDATION_ERROR', tenantId);
+  }
+}
+
+export class ClaimBatchNotFoundError extends DataStoreError {
+  constructor(batchId: string, tenantId?: string) {
+    super(`Claim batch not found: ${batchId}`, 'CLAIM_BATCH_NOT_FOUND', tenantId);
+  }
+}
+
+export class ClaimLineNotFoundError extends DataStoreError {
+  constructor(lineId: string, tenantId?: string) {
+    super(`Claim line not found: ${lineId}`, 'CLAIM_LINE_NOT_FOUND', tenantId);
+  }
+}
+
+export class ClaimValidationError extends DataStoreError {
+  constructor(message: string, tenantId?: string) {
+    super(message, 'CLAIM_VALIDATION_ERROR', tenantId);
+  }
+}
+
+export class InvalidClaimTransitionError extends DataStoreError {
+  constructor(
+    public from: ClaimStatus,
+    public to: ClaimStatus,
+    tenantId?: string
+  ) {
+    super(`Claim cannot move from ${from} to ${to}`, 'CLAIM_INVALID_TRANSITION', tenantId);
+  }
+}
+
+export class EhrConnectionNotFoundError extends DataStoreError {
+  constructor(tenantId?: string) {
+    super('This clinic has no EHR connection set up', 'EHR_CONNECTION_NOT_FOUND', tenantId);
+  }
+}
+
+export class EhrConnectionValidationError extends DataStoreError {
+  constructor(message: string, tenantId?: string) {
+    super(message, 'EHR_CONNECTION_VALIDATION_ERROR', tenantId);
+  }
+}
+
+export class EhrWriteBackNotFoundError extends DataStoreError {
+  constructor(writeBackId: string, tenantId?: string) {
+    super(`EHR write-back not found: ${writeBackId}`, 'EHR_WRITE_BACK_NOT_FOUND', tenantId);
+  }
+}
+
+export class EhrWriteBackValidationError extends DataStoreError {
+  constructor(message: string, tenantId?: string) {
+    super(message, 'EHR_WRITE_BACK_VALIDATION_ERROR', tenantId);
+  }
+}
+
+export class MembershipNotFoundError extends DataStoreError {
+  constructor(userId: string, tenantId?: string) {
+    super(`User ${userId} is not a member of this clinic`, 'MEMBERSHIP_NOT_FOUND', tenantId);
+  }
+}
+
+export class MembershipValidationError extends DataStoreError {
+  constructor(message: string, tenantId?: string) {
+    super(message, 'MEMBERSHIP_VALIDATION_ERROR', tenantId);
+  }
+}
+
 export class RLSViolationError extends DataStoreError {
   constructor(operation: string, tenantId?: string) {
     super(`RLS policy violation during ${operation}`, 'RLS_VIOLATION', tenantId);
@@ -9,6 +9,15 @@ export const QUEUE_TYPES = {
   MBS_INGEST_XML: "mbs-ingest-xml",
   MBS_GENERATE_EMBEDDINGS: "mbs-generate-embeddings",
   MBS_UPDATE_SEARCH_VECTORS: "mbs-update-search-vectors",
+  MBS_SUGGEST_ITEMS: "mbs-suggest-items",
+  MBS_MIGRATE_EMBEDDINGS: "mbs-migrate-embeddings",
+  // Consultation Queue Types
+  CONSULTATION_TRANSCRIBE: "consultation-transcribe",
+  CONSULTATION_GENERATE_NOTE: "consultation-generate-note",
+  // Export Queue Types
+  EXPORT_GENERATE: "export-generate",
+  // EHR Queue Types
+  EHR_WRITE_BACK: "ehr-write-back",
 } as const;
 
 export type QueueType = typeof QUEUE_TYPES[keyof typeof QUEUE_TYPES];
@@ -22,6 +31,7 @@ export interface MbsIngestXmlJobData {
   filePath: string;
   fileName: string;
   forceReprocess?: boolean;
+  effectiveDate?: string; // ISO date the release applies from, defaults to the day it's ingested
 }
 
 export interface MbsGenerateEmbeddingsJobData {
@@ -32,4 +42,38 @@ export interface MbsGenerateEmbeddingsJobData {
 
 export interface MbsUpdateSearchVectorsJobData {
   itemIds?: number[]; // If not provided, update all items
-}
\ No newline at end of file
+}
+
+export interface MbsMigrateEmbeddingsJobData {
+  migrationId: number;
+  batchSize?: number;
+}
+
+export interface MbsSuggestItemsJobData {
+  tenantId: string;
+  noteId: string;
+}
+
+// Consultation Job Data Types
+export interface ConsultationTranscribeJobData {
+  tenantId: string;
+  consultationId: string;
+}
+
+export interface ConsultationGenerateNoteJobData {
+  tenantId: string;
+  consultationId: string;
+  templateKey?: string; // Defaults to the consultation's selected template
+}
+
+// Export Job Data Types
+export interface ExportGenerateJobData {
+  tenantId: string;
+  exportId: string;
+}
+
+// EHR Job Data Types
+export interface EhrWriteBackJobData {
+  tenantId: string;
+  writeBackId: string;
+}
@@ -1,8 +1,17 @@
 import { type Job, type JobProgress, Worker } from "bullmq";
 import { PrismaClient } from "@/generated/prisma";
-import { QUEUE_TYPES, WORKER_NAME, type WorkerContext, type MbsIngestXmlJobData, type MbsGenerateEmbeddingsJobData, type MbsUpdateSearchVectorsJobData } from "./types";
+import { QUEUE_TYPES, WORKER_NAME, type WorkerContext, type MbsIngestXmlJobData, type MbsGenerateEmbeddingsJobData, type MbsUpdateSearchVectorsJobData, type MbsSuggestItemsJobData, type MbsMigrateEmbeddingsJobData, type ConsultationTranscribeJobData, type ConsultationGenerateNoteJobData, type ExportGenerateJobData, type EhrWriteBackJobData } from "./types";
 import { bullConnection } from "./connection";
 import { MbsWorkerService } from "@/server/services/mbs/MbsWorkerService";
+import { MbsSuggestionService, createMbsConceptExtractionProvider, createMbsEmbeddingMigrationService, createMbsSearchService, queueMbsSuggestionsForNote } from "@/server/services/mbs";
+import { createEmbeddingProvider } from "@/server/services/embedding";
+import { TranscriptionService, createTranscriptionProvider } from "@/server/services/transcription";
+import { NoteGenerationQueueService, NoteGenerationService, createNoteGenerationProvider } from "@/server/services/note-generation";
+import { createRecordingStorageService } from "@/server/services/recording";
+import { ExportService, createExportStorageService } from "@/server/services/export";
+import { EhrWriteBackService } from "@/server/services/ehr";
+import { getEHRIntegratedService } from "@/services";
+import { getDataStore, getTenantConfig } from "@/server/datastore";
 import { serverEnv } from "@/env";
 
 const db = new PrismaClient();
@@ -24,17 +33,44 @@ export const startWorker = () => {
 
           // MBS Worker Cases
           case QUEUE_TYPES.MBS_INGEST_XML:
-            await processMbsIngestXml(job.data as MbsIngestXmlJobData, context);
+            await processMbsIngestXml(job.data as MbsIngestXmlJobData, context, job);
             break;
 
           case QUEUE_TYPES.MBS_GENERATE_EMBEDDINGS:
-            await processMbsGenerateEmbeddings(job.data as MbsGenerateEmbeddingsJobData, context);
+            await processMbsGenerateEmbeddings(job.data as MbsGenerateEmbeddingsJobData, context, job);
             break;
 
           case QUEUE_TYPES.MBS_UPDATE_SEARCH_VECTORS:
             await processMbsUpdateSearchVectors(job.data as MbsUpdateSearchVectorsJobData, context);
             break;
 
+          case QUEUE_TYPES.MBS_MIGRATE_EMBEDDINGS:
+            await processMbsMigrateEmbeddings(job.data as MbsMigrateEmbeddingsJobData, context, job);
+            break;
+
+          case QUEUE_TYPES.MBS_SUGGEST_ITEMS:
+            await processMbsSuggestItems(job.data as MbsSuggestItemsJobData, context);
+            break;
+
+          // Consultation Worker Cases
+          case QUEUE_TYPES.CONSULTATION_TRANSCRIBE:
+            await processConsultationTranscribe(job.data as ConsultationTranscribeJobData, context, job);
+            break;
+
+          case QUEUE_TYPES.CONSULTATION_GENERATE_NOTE:
+            await processConsultationGenerateNote(job.data as ConsultationGenerateNoteJobData, context, job);
+            break;
+
+          // Export Worker Cases
+          case QUEUE_TYPES.EXPORT_GENERATE:
+            await processExportGenerate(job.data as ExportGenerateJobData, context, job);
+            break;
+
+          // EHR Worker Cases
+          case QUEUE_TYPES.EHR_WRITE_BACK:
+            await processEhrWriteBack(job.data as EhrWriteBackJobData, context, job);
+            break;
+
           // Add more cases for other job types specific to your application
           default:
             console.warn(`⚙️ No processor found for job name: ${job.name}`);
@@ -102,16 +138,17 @@ export const startWorker = () => {
 
 // MBS Job Processors
 
-async function processMbsIngestXml(data: MbsIngestXmlJobData, context: WorkerContext) {
+async function processMbsIngestXml(data: MbsIngestXmlJobData, context: WorkerContext, job: Job) {
   console.log(`📋 Processing MBS XML ingestion: ${data.fileName}`);
-  
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) {
-    throw new Error("OPENAI_API_KEY environment variable is required for MBS processing");
-  }
 
-  const mbsService = new MbsWorkerService(context.db, openaiApiKey);
-  const result = await mbsService.ingestXmlFile(data.filePath, data.fileName, data.forceReprocess);
+  const mbsService = new MbsWorkerService(context.db, createEmbeddingProvider());
+  const result = await mbsService.ingestXmlFile(
+    data.filePath,
+    data.fileName,
+    data.forceReprocess,
+    data.effectiveDate ? new Date(data.effectiveDate) : undefined,
+    (percent) => job.updateProgress(percent)
+  );
   
   if (!result.success) {
     throw new Error(`MBS XML ingestion failed: ${result.errorMessage}`);
@@ -121,16 +158,11 @@ async function processMbsIngestXml(data: MbsIngestXmlJobData, context: WorkerCon
   return result;
 }
 
-async function processMbsGenerateEmbeddings(data: MbsGenerateEmbeddingsJobData, context: WorkerContext) {
+async function processMbsGenerateEmbeddings(data: MbsGenerateEmbeddingsJobData, context: WorkerContext, job: Job) {
   console.log(`🧠 Processing MBS embedding generation for ${data.itemIds?.length || 'all'} items`);
-  
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) {
-    throw new Error("OPENAI_API_KEY environment variable is required for MBS processing");
-  }
 
-  const mbsService = new MbsWorkerService(context.db, openaiApiKey);
-  const result = await mbsService.generateEmbeddings(data.itemIds, data.batchSize);
+  const mbsService = new MbsWorkerService(context.db, createEmbeddingProvider());
+  const result = await mbsService.generateEmbeddings(data.itemIds, data.batchSize, (percent) => job.updateProgress(percent));
   
   if (!result.success) {
     throw new Error(`MBS embedding generation failed: ${result.errorMessage}`);
@@ -142,13 +174,8 @@ async function processMbsGenerateEmbeddings(data: MbsGenerateEmbeddingsJobData,
 
 async function processMbsUpdateSearchVectors(data: MbsUpdateSearchVectorsJobData, context: WorkerContext) {
   console.log(`🔍 Processing MBS search vector update for ${data.itemIds?.length || 'all'} items`);
-  
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) {
-    throw new Error("OPENAI_API_KEY environment variable is required for MBS processing");
-  }
 
-  const mbsService = new MbsWorkerService(context.db, openaiApiKey);
+  const mbsService = new MbsWorkerService(context.db);
   const result = await mbsService.updateSearchVectors(data.itemIds);
   
   if (!result.success) {
@@ -158,3 +185,188 @@ async function processMbsUpdateSearchVectors(data: MbsUpdateSearchVectorsJobData
   console.log(`✅ MBS search vector update completed: ${result.itemsUpdated} items updated`);
   return result;
 };
+
+async function processMbsMigrateEmbeddings(data: MbsMigrateEmbeddingsJobData, _context: WorkerContext, job: Job) {
+  console.log(`🧠 Processing MBS embedding migration ${data.migrationId}`);
+
+  const migration = await createMbsEmbeddingMigrationService().runMigration(
+    data.migrationId,
+    data.batchSize,
+    (percent) => job.updateProgress(percent),
+  );
+
+  console.log(`✅ MBS embedding migration ${data.migrationId} completed: ${migration.itemsEmbedded} items re-embedded`);
+  return migration;
+}
+
+async function processMbsSuggestItems(data: MbsSuggestItemsJobData, _context: WorkerContext) {
+  console.log(`💰 Processing MBS suggestions for note ${data.noteId}`);
+
+  const tenantConfig = await getTenantConfig(data.tenantId);
+  if (!tenantConfig) {
+    throw new Error(`Tenant ${data.tenantId} not found for MBS suggestion job`);
+  }
+
+  const suggestionService = new MbsSuggestionService(
+    await getDataStore(tenantConfig),
+    createMbsSearchService(),
+    createMbsConceptExtractionProvider(),
+  );
+
+  const result = await suggestionService.generateSuggestionsForNote(data.noteId);
+
+  if (!result.success) {
+    throw new Error(`MBS suggestion failed: ${result.errorMessage}`);
+  }
+
+  console.log(`✅ MBS suggestions completed for note ${data.noteId}: ${result.suggestions?.length ?? 0} suggestions`);
+  return result;
+}
+
+// Consultation Job Processors
+
+async function processConsultationTranscribe(data: ConsultationTranscribeJobData, _context: WorkerContext, job: Job) {
+  console.log(`🎙️ Processing transcription for consultation ${data.consultationId}`);
+
+  const tenantConfig = await getTenantConfig(data.tenantId);
+  if (!tenantConfig) {
+    throw new Error(`Tenant ${data.tenantId} not found for transcription job`);
+  }
+
+  const dataStore = await getDataStore(tenantConfig);
+  const transcriptionService = new TranscriptionService(
+    dataStore,
+    createRecordingStorageService(),
+    createTranscriptionProvider(),
+  );
+
+  // Only flag the consultation as failed once BullMQ has no retries left
+  const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+  const result = await transcriptionService.transcribeConsultation(data.tenantId, data.consultationId, {
+    onProgress: (progress) => job.updateProgress(progress),
+    markFailed: isFinalAttempt,
+  });
+
+  if (!result.success) {
+    throw new Error(`Transcription failed: ${result.errorMessage}`);
+  }
+
+  console.log(`✅ Transcription completed for consultation ${data.consultationId}: ${result.segmentCount} segments`);
+
+  // Draft the note as soon as there is a transcript; the clinician can still regenerate it later
+  if (!result.skipped) {
+    try {
+      await dataStore.updateConsultation(data.consultationId, { noteGenerationProgress: 0, noteGenerationError: null });
+      await new NoteGenerationQueueService().queueNoteGeneration({
+        tenantId: data.tenantId,
+        consultationId: data.consultationId,
+      });
+    } catch (error) {
+      console.error(`❌ Failed to queue note generation for consultation ${data.consultationId}:`, error);
+      await dataStore.updateConsultation(data.consultationId, {
+        noteGenerationError: "Note generation could not be queued",
+      });
+    }
+  }
+
+  return result;
+}
+
+async function processConsultationGenerateNote(data: ConsultationGenerateNoteJobData, _context: WorkerContext, job: Job) {
+  console.log(`📝 Processing note generation for consultation ${data.consultationId}`);
+
+  const tenantConfig = await getTenantConfig(data.tenantId);
+  if (!tenantConfig) {
+    throw new Error(`Tenant ${data.tenantId} not found for note generation job`);
+  }
+
+  const noteGenerationService = new NoteGenerationService(
+    await getDataStore(tenantConfig),
+    createNoteGenerationProvider(),
+  );
+
+  // Only clear progress once BullMQ has no retries left
+  const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+  const result = await noteGenerationService.generateNoteForConsultation(data.consultationId, {
+    templateKey: data.templateKey,
+    onProgress: (progress) => job.updateProgress(progress),
+    markFailed: isFinalAttempt,
+  });
+
+  if (!result.success) {
+    throw new Error(`Note generation failed: ${result.errorMessage}`);
+  }
+
+  console.log(`✅ Note generation completed for consultation ${data.consultationId}: note ${result.note?.id}`);
+
+  // The drafted note is ready for review, so suggest items to bill alongside it
+  if (result.note && !result.skipped) {
+    await queueMbsSuggestionsForNote(data.tenantId, result.note);
+  }
+
+  return result;
+}
+
+// Export Job Processors
+
+async function processExportGenerate(data: ExportGenerateJobData, _context: WorkerContext, job: Job) {
+  console.log(`📄 Processing export ${data.exportId}`);
+
+  const tenantConfig = await getTenantConfig(data.tenantId);
+  if (!tenantConfig) {
+    throw new Error(`Tenant ${data.tenantId} not found for export job`);
+  }
+
+  const exportService = new ExportService(
+    await getDataStore(tenantConfig),
+    tenantConfig,
+    createExportStorageService(),
+  );
+
+  // Only mark the export failed once BullMQ has no retries left
+  const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+  const result = await exportService.generateExport(data.exportId, { markFailed: isFinalAttempt });
+
+  if (!result.success) {
+    throw new Error(`Export failed: ${result.errorMessage}`);
+  }
+
+  console.log(`✅ Export ${data.exportId} completed: ${result.export?.fileSize ?? 0} bytes`);
+  return result;
+}
+
+// EHR Job Processors
+
+async function processEhrWriteBack(data: EhrWriteBackJobData, _context: WorkerContext, job: Job) {
+  console.log(`🔁 Processing EHR write-back ${data.writeBackId}`);
+
+  const tenantConfig = await getTenantConfig(data.tenantId);
+  if (!tenantConfig) {
+    throw new Error(`Tenant ${data.tenantId} not found for EHR write-back job`);
+  }
+
+  const writeBackService = new EhrWriteBackService(
+    await getDataStore(tenantConfig),
+    (clinicianId) => getEHRIntegratedService(data.tenantId, clinicianId),
+  );
+
+  // Only mark the write-back failed once BullMQ has no retries left
+  const isFinalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+  const result = await writeBackService.deliver(data.writeBackId, { markFailed: isFinalAttempt });
+
+  if (result.retry) {
+    throw new Error(`EHR write-back failed: ${result.errorMessage}`);
+  }
+  if (!result.success) {
+    // Conflicts and permanent failures wait for a clinician to retry them
+    console.warn(`⚠️ EHR write-back ${data.writeBackId} is ${result.writeBack?.status}: ${result.errorMessage}`);
+    return result;
+  }
+
+  console.log(`✅ EHR write-back ${data.writeBackId} delivered`);
+  return result;
+}
@@ -1,4 +1,7 @@
 import cron from "node-cron";
+import { serverEnv } from "@/env";
+import { createMbsReleaseFetcher } from "@/server/services/mbs";
+import { prewarmPatientContexts } from "@/services";
 
 export const startMainCron = () => {
   // Schedule a task to run every minute
@@ -6,5 +9,24 @@ export const startMainCron = () => {
     console.log("⏰ Cron job running every minute");
   });
 
+  // Pick up new MBS releases from the feed, when one is configured
+  const mbsReleaseFetcher = createMbsReleaseFetcher();
+  if (mbsReleaseFetcher) {
+    cron.schedule(serverEnv.MBS_RELEASE_FETCH_SCHEDULE, () => {
+      mbsReleaseFetcher.checkForRelease().catch((error) => {
+        console.error("❌ MBS release check failed:", error);
+      });
+    });
+    console.log(`💰 MBS release feed check scheduled: ${serverEnv.MBS_RELEASE_FETCH_SCHEDULE}`);
+  }
+
+  // Read the day's patients' context from EHR-integrated clinics' EHRs before they open
+  cron.schedule(serverEnv.PATIENT_CONTEXT_PREWARM_SCHEDULE, () => {
+    prewarmPatientContexts().catch((error) => {
+      console.error("❌ Patient context pre-warm failed:", error);
+    });
+  });
+  console.log(`🩺 Patient context pre-warm scheduled: ${serverEnv.PATIENT_CONTEXT_PREWARM_SCHEDULE}`);
+
   console.log("🕰️ Main cron job scheduler started.");
 };
@@ -0,0 +1,230 @@
+import { eachDayOfInterval, format } from "date-fns";
+import type { BillingActivity, MbsItemFees, MbsSuggestionOutcome } from "@/server/datastore/types";
+
+// Most valuable missed suggestions listed individually
+export const MISSED_OPPORTUNITY_LIMIT = 50;
+
+/**
+ * Estimated revenue for a set of items: the schedule fee and what Medicare pays
+ * back at each benefit level. Items without a fee count as nothing.
+ */
+export interface RevenueEstimate {
+  scheduleFee: number;
+  benefit75: number;
+  benefit85: number;
+  benefit100: number;
+}
+
+/**
+ * What became of a set of suggestions. A suggestion nobody accepted, changed or
+ * rejected counts as ignored.
+ */
+export interface SuggestionCounts {
+  suggested: number;
+  accepted: number;
+  modified: number; // Billed as a different item
+  rejected: number;
+  ignored: number;
+  acceptanceRate: number | null; // Share accepted unchanged, null with nothing suggested
+}
+
+export interface BillingAnalyticsTotals extends SuggestionCounts {
+  consultations: number;
+  billed: number; // Items billed from suggestions, as suggested or changed
+  billedRevenue: RevenueEstimate;
+  missedRevenue: RevenueEstimate; // Rejected and ignored suggestions
+}
+
+export interface BillingDayAnalytics {
+  date: string; // yyyy-MM-dd
+  suggested: number;
+  billed: number;
+  billedFee: number;
+}
+
+export interface BillingItemAnalytics extends SuggestionCounts {
+  itemNumber: number;
+  description: string;
+  billed: number; // Including suggestions changed to this item
+  billedFee: number;
+  missedFee: number;
+}
+
+export interface BillingClinicianAnalytics extends SuggestionCounts {
+  clinicianId?: string; // Unset for consultations nobody can be attributed
+  name: string;
+  consultations: number;
+  billed: number;
+  billedFee: number;
+  missedFee: number;
+}
+
+export interface MissedBillingOpportunity {
+  suggestionId: string;
+  consultationId: string;
+  serviceDate: Date;
+  clinicianName: string;
+  itemNumber: number;
+  description: string;
+  status: "rejected" | "ignored";
+  scheduleFee?: number;
+}
+
+export interface BillingAnalytics {
+  totals: BillingAnalyticsTotals;
+  days: BillingDayAnalytics[];
+  items: BillingItemAnalytics[];
+  clinicians: BillingClinicianAnalytics[];
+  missedOpportunities: MissedBillingOpportunity[];
+}
+
+export interface BillingAnalyticsOptions {
+  from: Date;
+  to: Date;
+  clinicianNames: Map<string, string>;
+}
+
+const emptyRevenue = (): RevenueEstimate => ({ scheduleFee: 0, benefit75: 0, benefit85: 0, benefit100: 0 });
+
+const emptyCounts = (): SuggestionCounts => ({
+  suggested: 0,
+  accepted: 0,
+  modified: 0,
+  rejected: 0,
+  ignored: 0,
+  acceptanceRate: null,
+});
+
+function addRevenue(revenue: RevenueEstimate, item: MbsItemFees): void {
+  revenue.scheduleFee += item.scheduleFee ?? 0;
+  revenue.benefit75 += item.benefit75 ?? 0;
+  revenue.benefit85 += item.benefit85 ?? 0;
+  revenue.benefit100 += item.benefit100 ?? 0;
+}
+
+function countOutcome(counts: SuggestionCounts, outcome: MbsSuggestionOutcome): void {
+  counts.suggested++;
+  if (outcome.status === "suggested") {
+    counts.ignored++;
+  } else {
+    counts[outcome.status]++;
+  }
+  counts.acceptanceRate = counts.accepted / counts.suggested;
+}
+
+const isMissed = (outcome: MbsSuggestionOutcome): boolean =>
+  outcome.status === "rejected" || outcome.status === "suggested";
+
+/**
+ * Billed versus suggested items, estimated revenue and missed billing for a date
+ * range, overall and by day, item and clinician.
+ *
+ * Items are counted as suggested under the item the suggestion first named, and
+ * as billed under the item actually billed, so an item clinicians keep swapping
+ * in shows as billed more often than it was suggested.
+ */
+export function buildBillingAnalytics(activity: BillingActivity, options: BillingAnalyticsOptions): BillingAnalytics {
+  const totals: BillingAnalyticsTotals = {
+    ...emptyCounts(),
+    consultations: activity.consultations.length,
+    billed: 0,
+    billedRevenue: emptyRevenue(),
+    missedRevenue: emptyRevenue(),
+  };
+  const clinicianName = (clinicianId?: string) =>
+    clinicianId ? (options.clinicianNames.get(clinicianId) ?? "Former member") : "Unassigned";
+
+  const days = new Map<string, BillingDayAnalytics>();
+  if (options.from <= options.to) {
+    for (const day of eachDayOfInterval({ start: options.from, end: options.to })) {
+      const date = format(day, "yyyy-MM-dd");
+      days.set(date, { date, suggested: 0, billed: 0, billedFee: 0 });
+    }
+  }
+
+  const items = new Map<number, BillingItemAnalytics>();
+  const itemFor = ({ itemNumber, description }: MbsItemFees) => {
+    let item = items.get(itemNumber);
+    if (!item) {
+      item = { ...emptyCounts(), itemNumber, description, billed: 0, billedFee: 0, missedFee: 0 };
+      items.set(itemNumber, item);
+    }
+    return item;
+  };
+
+  const clinicians = new Map<string | undefined, BillingClinicianAnalytics>();
+  const clinicianFor = (clinicianId?: string) => {
+    let clinician = clinicians.get(clinicianId);
+    if (!clinician) {
+      clinician = {
+        ...emptyCounts(),
+        clinicianId,
+        name: clinicianName(clinicianId),
+        consultations: 0,
+        billed: 0,
+        billedFee: 0,
+        missedFee: 0,
+      };
+      clinicians.set(clinicianId, clinician);
+    }
+    return clinician;
+  };
+
+  for (const consultation of activity.consultations) {
+    clinicianFor(consultation.clinicianId).consultations++;
+  }
+
+  const missedOpportunities: MissedBillingOpportunity[] = [];
+  for (const outcome of activity.suggestions) {
+    const day = days.get(format(outcome.serviceDate, "yyyy-MM-dd"));
+    const suggestedItem = itemFor(outcome.suggestedItem);
+    const clinician = clinicianFor(outcome.clinicianId);
+
+    for (const counts of [totals, suggestedItem, clinician]) {
+      countOutcome(counts, outcome);
+    }
+    if (day) day.suggested++;
+
+    if (outcome.billedItem) {
+      const fee = outcome.billedItem.scheduleFee ?? 0;
+      const billedItem = itemFor(outcome.billedItem);
+
+      totals.billed++;
+      addRevenue(totals.billedRevenue, outcome.billedItem);
+      billedItem.billed++;
+      billedItem.billedFee += fee;
+      clinician.billed++;
+      clinician.billedFee += fee;
+      if (day) {
+        day.billed++;
+        day.billedFee += fee;
+      }
+    } else if (isMissed(outcome)) {
+      const fee = outcome.suggestedItem.scheduleFee ?? 0;
+
+      addRevenue(totals.missedRevenue, outcome.suggestedItem);
+      suggestedItem.missedFee += fee;
+      clinician.missedFee += fee;
+      missedOpportunities.push({
+        suggestionId: outcome.suggestionId,
+        consultationId: outcome.consultationId,
+        serviceDate: outcome.serviceDate,
+        clinicianName: clinician.name,
+        itemNumber: outcome.suggestedItem.itemNumber,
+        description: outcome.suggestedItem.description,
+        status: outcome.status === "rejected" ? "rejected" : "ignored",
+        scheduleFee: outcome.suggestedItem.scheduleFee,
+      });
+    }
+  }
+
+  return {
+    totals,
+    days: [...days.values()],
+    items: [...items.values()].sort((a, b) => b.suggested - a.suggested || b.billed - a.billed || a.itemNumber - b.itemNumber),
+    clinicians: [...clinicians.values()].sort((a, b) => b.billedFee - a.billedFee || a.name.localeCompare(b.name)),
+    missedOpportunities: missedOpportunities
+      .sort((a, b) => (b.scheduleFee ?? 0) - (a.scheduleFee ?? 0) || b.serviceDate.getTime() - a.serviceDate.getTime())
+      .slice(0, MISSED_OPPORTUNITY_LIMIT),
+  };
+}
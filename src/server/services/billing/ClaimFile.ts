@@ -0,0 +1,101 @@
+import { format } from "date-fns";
+import type { ClaimBatchDetail, ClaimLineRecord } from "@/server/datastore";
+import { isValidMedicareIrn, isValidMedicareNumber, isValidProviderNumber } from "@/lib/medicare";
+
+export type ClaimFileFormat = "csv" | "json";
+
+/**
+ * One service on a claim file, with everything the practice's billing software
+ * needs to lodge it with Medicare
+ */
+export interface ClaimFileLine {
+  claimId: string;
+  consultationId: string;
+  serviceDate: string; // yyyy-MM-dd
+  serviceTime: string; // HH:mm
+  providerNumber: string;
+  medicareNumber: string;
+  medicareIrn: number | null;
+  patientFirstName: string;
+  patientLastName: string;
+  patientDateOfBirth: string | null; // yyyy-MM-dd
+  itemNumber: number;
+  itemDescription: string;
+  scheduleFee: number | null;
+}
+
+/**
+ * Format-independent contents of a batch's claim file - each renderer turns this into a file
+ */
+export interface ClaimFile {
+  clinicName: string;
+  batchId: string;
+  serviceDate: string;
+  generatedAt: Date;
+  totalFee: number;
+  claims: ClaimFileLine[];
+}
+
+export interface ClaimFileRenderer {
+  format: ClaimFileFormat;
+  extension: string;
+  mimeType: string;
+  render(file: ClaimFile): Buffer;
+}
+
+/**
+ * What stops a claim line being lodged, empty when it is ready
+ */
+export function getClaimLineIssues(line: ClaimLineRecord): string[] {
+  const issues: string[] = [];
+
+  if (!line.providerNumber) {
+    issues.push("No provider number for the clinician who accepted the item");
+  } else if (!isValidProviderNumber(line.providerNumber)) {
+    issues.push(`Provider number ${line.providerNumber} is not valid`);
+  }
+
+  if (!line.medicareNumber) {
+    issues.push("Patient has no Medicare number");
+  } else if (!isValidMedicareNumber(line.medicareNumber)) {
+    issues.push("Patient's Medicare number is not valid");
+  }
+
+  if (line.medicareIrn === undefined || !isValidMedicareIrn(line.medicareIrn)) {
+    issues.push("Patient has no Medicare IRN");
+  }
+
+  return issues;
+}
+
+export function getClaimFileName(batch: Pick<ClaimBatchDetail, "serviceDate">, extension: string): string {
+  return `medicare-claims-${batch.serviceDate}.${extension}`;
+}
+
+/**
+ * Lay out a batch's claims in service order
+ */
+export function buildClaimFile(clinicName: string, batch: ClaimBatchDetail, generatedAt = new Date()): ClaimFile {
+  return {
+    clinicName,
+    batchId: batch.id,
+    serviceDate: batch.serviceDate,
+    generatedAt,
+    totalFee: batch.totalFee,
+    claims: batch.lines.map((line) => ({
+      claimId: line.id,
+      consultationId: line.consultationId,
+      serviceDate: format(line.serviceDate, "yyyy-MM-dd"),
+      serviceTime: format(line.serviceDate, "HH:mm"),
+      providerNumber: line.providerNumber ?? "",
+      medicareNumber: line.medicareNumber ?? "",
+      medicareIrn: line.medicareIrn ?? null,
+      patientFirstName: line.patientFirstName,
+      patientLastName: line.patientLastName,
+      patientDateOfBirth: line.patientDateOfBirth ? format(line.patientDateOfBirth, "yyyy-MM-dd") : null,
+      itemNumber: line.itemNumber,
+      itemDescription: line.itemDescription,
+      scheduleFee: line.scheduleFee ?? null,
+    })),
+  };
+}
@@ -0,0 +1,125 @@
+import { format, subDays } from "date-fns";
+import type { ClaimBatchDetail, ClaimLineInput, DataStore, TenantConfig } from "@/server/datastore";
+import { ClaimValidationError } from "@/server/datastore/types";
+import { buildClaimFile, getClaimFileName, getClaimLineIssues, type ClaimFileFormat, type ClaimFileRenderer } from "./ClaimFile";
+import { CsvClaimFileRenderer } from "./CsvClaimFileRenderer";
+import { JsonClaimFileRenderer } from "./JsonClaimFileRenderer";
+
+export const CLAIM_FILE_RENDERERS: Record<ClaimFileFormat, ClaimFileRenderer> = {
+  csv: new CsvClaimFileRenderer(),
+  json: new JsonClaimFileRenderer(),
+};
+
+// Suggestions actioned longer ago than this aren't picked up by a full assembly
+export const CLAIM_ASSEMBLY_WINDOW_DAYS = 90;
+
+export interface ClaimAssemblyOptions {
+  consultationId?: string; // Only that consultation's claims; otherwise everything in the window
+  since?: Date;
+}
+
+export interface ClaimAssemblyResult {
+  linesSaved: number;
+  linesRemoved: number;
+  serviceDays: string[]; // yyyy-MM-dd of each batch that was added to or refreshed
+}
+
+export interface ClaimFileExport {
+  batch: ClaimBatchDetail;
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+/**
+ * Turns accepted MBS suggestions into Medicare claims.
+ *
+ * Each accepted or changed suggestion becomes a claim line in the open batch for
+ * its consultation's day. Lines stay pending, and follow their suggestion and the
+ * patient's details, until the batch's claim file is first exported; after that
+ * they are only moved along the claim workflow.
+ */
+export class ClaimService {
+  private dataStore: DataStore;
+  private tenantConfig: TenantConfig;
+  private renderers: Record<ClaimFileFormat, ClaimFileRenderer>;
+
+  constructor(
+    dataStore: DataStore,
+    tenantConfig: TenantConfig,
+    renderers: Record<ClaimFileFormat, ClaimFileRenderer> = CLAIM_FILE_RENDERERS,
+  ) {
+    this.dataStore = dataStore;
+    this.tenantConfig = tenantConfig;
+    this.renderers = renderers;
+  }
+
+  /**
+   * Bring pending claim lines in line with the suggestions clinicians have accepted
+   */
+  async assembleClaims(options: ClaimAssemblyOptions = {}): Promise<ClaimAssemblyResult> {
+    const since = options.consultationId ? options.since : (options.since ?? subDays(new Date(), CLAIM_ASSEMBLY_WINDOW_DAYS));
+
+    const [claimable, pending] = await Promise.all([
+      this.dataStore.getClaimableMbsSuggestions({ consultationId: options.consultationId, since }),
+      this.dataStore.getPendingClaimLines({ consultationId: options.consultationId }),
+    ]);
+
+    const byServiceDay = new Map<string, ClaimLineInput[]>();
+    for (const line of claimable) {
+      const serviceDay = format(line.serviceDate, "yyyy-MM-dd");
+      byServiceDay.set(serviceDay, [...(byServiceDay.get(serviceDay) ?? []), line]);
+    }
+
+    let linesSaved = 0;
+    for (const [serviceDay, lines] of byServiceDay) {
+      linesSaved += (await this.dataStore.saveClaimLines(serviceDay, lines)).length;
+    }
+
+    // Suggestions that were rejected or changed back after their line was assembled
+    const claimableIds = new Set(claimable.map((line) => line.suggestionId));
+    const stale = pending.filter((line) => !claimableIds.has(line.suggestionId));
+    const linesRemoved = stale.length > 0 ? await this.dataStore.deletePendingClaimLines(stale.map((line) => line.id)) : 0;
+
+    if (linesSaved > 0 || linesRemoved > 0) {
+      console.log(`💰 Assembled claims for ${this.tenantConfig.name}: ${linesSaved} lines saved, ${linesRemoved} removed`);
+    }
+
+    return { linesSaved, linesRemoved, serviceDays: [...byServiceDay.keys()].sort() };
+  }
+
+  /**
+   * Render a batch's claim file. The first export closes the batch and marks its
+   * claims exported, so every line must have what Medicare needs by then.
+   * @throws {ClaimValidationError} if the batch is empty or has claims missing details
+   */
+  async exportBatch(batchId: string, fileFormat: ClaimFileFormat, exportedBy: string): Promise<ClaimFileExport> {
+    let batch = await this.dataStore.getClaimBatch(batchId);
+    if (batch.lines.length === 0) {
+      throw new ClaimValidationError("Claim batch has no claims to export", this.tenantConfig.id);
+    }
+
+    if (batch.status === "open") {
+      const incomplete = batch.lines.filter((line) => getClaimLineIssues(line).length > 0);
+      if (incomplete.length > 0) {
+        const [first] = incomplete;
+        throw new ClaimValidationError(
+          `${incomplete.length} claims are missing details, such as item ${first!.itemNumber} for ` +
+            `${first!.patientFirstName} ${first!.patientLastName}: ${getClaimLineIssues(first!).join("; ")}`,
+          this.tenantConfig.id,
+        );
+      }
+
+      batch = await this.dataStore.markClaimBatchExported(batchId, exportedBy);
+      console.log(`💰 Exported ${batch.lineCount} claims for ${batch.serviceDate} as ${fileFormat.toUpperCase()}`);
+    }
+
+    const renderer = this.renderers[fileFormat];
+    return {
+      batch,
+      fileName: getClaimFileName(batch, renderer.extension),
+      mimeType: renderer.mimeType,
+      content: renderer.render(buildClaimFile(this.tenantConfig.name, batch)),
+    };
+  }
+}
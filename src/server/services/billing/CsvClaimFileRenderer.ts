@@ -0,0 +1,47 @@
+import type { ClaimFile, ClaimFileLine, ClaimFileRenderer } from "./ClaimFile";
+
+const COLUMNS: [header: string, value: (claim: ClaimFileLine) => string | number | null][] = [
+  ["claim_id", (claim) => claim.claimId],
+  ["service_date", (claim) => claim.serviceDate],
+  ["service_time", (claim) => claim.serviceTime],
+  ["provider_number", (claim) => claim.providerNumber],
+  ["medicare_number", (claim) => claim.medicareNumber],
+  ["medicare_irn", (claim) => claim.medicareIrn],
+  ["patient_last_name", (claim) => claim.patientLastName],
+  ["patient_first_name", (claim) => claim.patientFirstName],
+  ["patient_date_of_birth", (claim) => claim.patientDateOfBirth],
+  ["item_number", (claim) => claim.itemNumber],
+  ["item_description", (claim) => claim.itemDescription],
+  ["schedule_fee", (claim) => (claim.scheduleFee === null ? null : claim.scheduleFee.toFixed(2))],
+];
+
+// Spreadsheets read a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number | null): string => {
+  let text = value === null ? "" : String(value);
+  // Names and descriptions are shown as text, never run, when the file is opened
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per claim, for billing software that imports spreadsheets
+ */
+export class CsvClaimFileRenderer implements ClaimFileRenderer {
+  readonly format = "csv" as const;
+  readonly extension = "csv";
+  readonly mimeType = "text/csv; charset=utf-8";
+
+  render(file: ClaimFile): Buffer {
+    const rows = [
+      COLUMNS.map(([header]) => header),
+      ...file.claims.map((claim) => COLUMNS.map(([, value]) => escapeCsv(value(claim)))),
+    ];
+
+    // CRLF, as RFC 4180 and most Windows practice software expect
+    return Buffer.from(rows.map((row) => row.join(",")).join("\r\n") + "\r\n", "utf-8");
+  }
+}
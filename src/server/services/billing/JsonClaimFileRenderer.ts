@@ -0,0 +1,28 @@
+import type { ClaimFile, ClaimFileRenderer } from "./ClaimFile";
+
+// Bumped when a field is renamed or removed, so importers can tell files apart
+export const CLAIM_FILE_JSON_VERSION = 1;
+
+/**
+ * The batch and its claims as one document, for billing software with an API
+ */
+export class JsonClaimFileRenderer implements ClaimFileRenderer {
+  readonly format = "json" as const;
+  readonly extension = "json";
+  readonly mimeType = "application/json; charset=utf-8";
+
+  render(file: ClaimFile): Buffer {
+    const document = {
+      version: CLAIM_FILE_JSON_VERSION,
+      clinicName: file.clinicName,
+      batchId: file.batchId,
+      serviceDate: file.serviceDate,
+      generatedAt: file.generatedAt.toISOString(),
+      claimCount: file.claims.length,
+      totalFee: file.totalFee,
+      claims: file.claims,
+    };
+
+    return Buffer.from(JSON.stringify(document, null, 2) + "\n", "utf-8");
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import type { BillingActivity, MbsItemFees, MbsSuggestionOutcome } from '@/server/datastore/types';
+import { buildBillingAnalytics } from '../BillingAnalytics';
+
+const item23: MbsItemFees = {
+  itemNumber: 23,
+  description: 'Professional attendance lasting less than 20 minutes',
+  scheduleFee: 42.85,
+  benefit75: 32.15,
+  benefit85: 36.45,
+  benefit100: 42.85,
+};
+
+const item36: MbsItemFees = {
+  itemNumber: 36,
+  description: 'Professional attendance lasting at least 20 minutes',
+  scheduleFee: 82.9,
+  benefit75: 62.2,
+  benefit85: 70.5,
+  benefit100: 82.9,
+};
+
+const outcome = (overrides: Partial<MbsSuggestionOutcome> = {}): MbsSuggestionOutcome => ({
+  suggestionId: 'suggestion-001',
+  consultationId: 'consultation-001',
+  clinicianId: 'clinician-001',
+  serviceDate: new Date('2025-08-04T09:30:00'),
+  status: 'accepted',
+  suggestedItem: item23,
+  billedItem: item23,
+  ...overrides,
+});
+
+const activity: BillingActivity = {
+  consultations: [
+    { id: 'consultation-001', clinicianId: 'clinician-001', serviceDate: new Date('2025-08-04T09:30:00') },
+    { id: 'consultation-002', clinicianId: 'clinician-002', serviceDate: new Date('2025-08-05T14:00:00') },
+    { id: 'consultation-003', serviceDate: new Date('2025-08-05T16:00:00') },
+  ],
+  suggestions: [
+    outcome(),
+    // Clinician billed a longer attendance than was suggested
+    outcome({ suggestionId: 'suggestion-002', status: 'modified', billedItem: item36 }),
+    outcome({
+      suggestionId: 'suggestion-003',
+      consultationId: 'consultation-002',
+      clinicianId: 'clinician-002',
+      serviceDate: new Date('2025-08-05T14:00:00'),
+      status: 'rejected',
+      suggestedItem: item36,
+      billedItem: undefined,
+    }),
+    outcome({
+      suggestionId: 'suggestion-004',
+      consultationId: 'consultation-003',
+      clinicianId: undefined,
+      serviceDate: new Date('2025-08-05T16:00:00'),
+      status: 'suggested',
+      billedItem: undefined,
+    }),
+  ],
+};
+
+const options = {
+  from: new Date('2025-08-03T00:00:00'),
+  to: new Date('2025-08-05T00:00:00'),
+  clinicianNames: new Map([['clinician-001', 'Dr Amy Chen']]),
+};
+
+describe('buildBillingAnalytics', () => {
+  it('totals billed and missed revenue at the schedule fee and each benefit level', () => {
+    const { totals } = buildBillingAnalytics(activity, options);
+
+    expect(totals).toMatchObject({
+      consultations: 3,
+      suggested: 4,
+      billed: 2,
+      accepted: 1,
+      modified: 1,
+      rejected: 1,
+      ignored: 1,
+      acceptanceRate: 0.25,
+    });
+    expect(totals.billedRevenue.scheduleFee).toBeCloseTo(125.75);
+    expect(totals.billedRevenue.benefit85).toBeCloseTo(106.95);
+    expect(totals.missedRevenue.scheduleFee).toBeCloseTo(125.75);
+    expect(totals.missedRevenue.benefit75).toBeCloseTo(94.35);
+  });
+
+  it('counts suggestions under the item suggested and billing under the item billed', () => {
+    const { items } = buildBillingAnalytics(activity, options);
+
+    expect(items.find(item => item.itemNumber === 23)).toMatchObject({
+      suggested: 3,
+      accepted: 1,
+      modified: 1,
+      ignored: 1,
+      billed: 1,
+      acceptanceRate: 1 / 3,
+      billedFee: 42.85,
+      missedFee: 42.85,
+    });
+    expect(items.find(item => item.itemNumber === 36)).toMatchObject({
+      suggested: 1,
+      rejected: 1,
+      billed: 1,
+      acceptanceRate: 0,
+      billedFee: 82.9,
+      missedFee: 82.9,
+    });
+  });
+
+  it('breaks billing down by clinician, including consultations nobody is attributed to', () => {
+    const { clinicians, missedOpportunities } = buildBillingAnalytics(activity, options);
+
+    expect(clinicians.map(clinician => [clinician.name, clinician.consultations, clinician.billed])).toEqual([
+      ['Dr Amy Chen', 1, 2],
+      ['Former member', 1, 0],
+      ['Unassigned', 1, 0],
+    ]);
+    expect(missedOpportunities.map(missed => [missed.suggestionId, missed.status, missed.clinicianName])).toEqual([
+      ['suggestion-003', 'rejected', 'Former member'],
+      ['suggestion-004', 'ignored', 'Unassigned'],
+    ]);
+  });
+
+  it('covers every day of the range, including days without consultations', () => {
+    const { days } = buildBillingAnalytics(activity, options);
+
+    expect(days).toEqual([
+      { date: '2025-08-03', suggested: 0, billed: 0, billedFee: 0 },
+      { date: '2025-08-04', suggested: 2, billed: 2, billedFee: 125.75 },
+      { date: '2025-08-05', suggested: 2, billed: 0, billedFee: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type {
+  ClaimBatchDetail,
+  ClaimLineInput,
+  ClaimLineRecord,
+  DataStore,
+  TenantConfig,
+} from '@/server/datastore/types';
+import { ClaimValidationError } from '@/server/datastore/types';
+import type { ClaimFileLine } from '../ClaimFile';
+import { ClaimService } from '../ClaimService';
+
+const tenantConfig: TenantConfig = {
+  id: 'tenant-001',
+  name: 'Harbour Street Medical',
+  operatingMode: 'standalone',
+  isDedicatedDb: false,
+  features: { manualExport: true, patientManagement: true, ehrSync: false },
+};
+
+const claim = (overrides: Partial<ClaimLineInput> = {}): ClaimLineInput => ({
+  suggestionId: 'suggestion-001',
+  consultationId: 'consultation-001',
+  patientId: 'patient-001',
+  itemNumber: 23,
+  itemDescription: 'Professional attendance by a general practitioner, lasting less than 20 minutes',
+  scheduleFee: 42.85,
+  serviceDate: new Date('2025-08-05T09:30:00'),
+  clinicianId: 'clinician-001',
+  providerNumber: '2426621B',
+  patientFirstName: 'Jane',
+  patientLastName: 'Citizen',
+  patientDateOfBirth: new Date('1985-03-02T00:00:00'),
+  medicareNumber: '2123456701',
+  medicareIrn: 1,
+  ...overrides,
+});
+
+const line = (overrides: Partial<ClaimLineRecord> = {}): ClaimLineRecord => ({
+  ...claim(),
+  id: 'line-001',
+  tenantId: tenantConfig.id,
+  batchId: 'batch-001',
+  status: 'pending',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const batch = (lines: ClaimLineRecord[], overrides: Partial<ClaimBatchDetail> = {}): ClaimBatchDetail => ({
+  id: 'batch-001',
+  tenantId: tenantConfig.id,
+  serviceDate: '2025-08-05',
+  status: 'open',
+  lineCount: lines.length,
+  totalFee: lines.reduce((sum, item) => sum + (item.scheduleFee ?? 0), 0),
+  statusCounts: { pending: lines.length },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lines,
+  ...overrides,
+});
+
+function createDataStore() {
+  return {
+    getClaimableMbsSuggestions: vi.fn<DataStore['getClaimableMbsSuggestions']>(async () => []),
+    getPendingClaimLines: vi.fn<DataStore['getPendingClaimLines']>(async () => []),
+    saveClaimLines: vi.fn<DataStore['saveClaimLines']>(async (_serviceDay, lines) =>
+      lines.map((input, index) => line({ ...input, id: `line-${index}` }))
+    ),
+    deletePendingClaimLines: vi.fn<DataStore['deletePendingClaimLines']>(async lineIds => lineIds.length),
+    getClaimBatch: vi.fn<DataStore['getClaimBatch']>(),
+    markClaimBatchExported: vi.fn<DataStore['markClaimBatchExported']>(),
+  };
+}
+
+describe('ClaimService', () => {
+  let dataStore: ReturnType<typeof createDataStore>;
+  let service: ClaimService;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    dataStore = createDataStore();
+    service = new ClaimService(dataStore as unknown as DataStore, tenantConfig);
+  });
+
+  it('batches accepted suggestions by the day of their consultation', async () => {
+    dataStore.getClaimableMbsSuggestions.mockResolvedValueOnce([
+      claim(),
+      claim({ suggestionId: 'suggestion-002', itemNumber: 10990, scheduleFee: 7.65 }),
+      claim({ suggestionId: 'suggestion-003', consultationId: 'consultation-002', serviceDate: new Date('2025-08-06T14:00:00') }),
+    ]);
+
+    const result = await service.assembleClaims();
+
+    expect(result).toEqual({ linesSaved: 3, linesRemoved: 0, serviceDays: ['2025-08-05', '2025-08-06'] });
+    expect(dataStore.saveClaimLines).toHaveBeenCalledTimes(2);
+    expect(dataStore.saveClaimLines.mock.calls[0]![0]).toBe('2025-08-05');
+    expect(dataStore.saveClaimLines.mock.calls[0]![1].map(input => input.suggestionId)).toEqual(['suggestion-001', 'suggestion-002']);
+
+    // A full assembly only looks back over a window of recently actioned suggestions
+    expect(dataStore.getClaimableMbsSuggestions.mock.calls[0]![0].since).toBeInstanceOf(Date);
+  });
+
+  it('drops pending claims whose suggestion is no longer accepted', async () => {
+    dataStore.getClaimableMbsSuggestions.mockResolvedValueOnce([claim()]);
+    dataStore.getPendingClaimLines.mockResolvedValueOnce([
+      line(),
+      line({ id: 'line-002', suggestionId: 'suggestion-002' }),
+    ]);
+
+    const result = await service.assembleClaims({ consultationId: 'consultation-001' });
+
+    expect(result.linesRemoved).toBe(1);
+    expect(dataStore.deletePendingClaimLines).toHaveBeenCalledWith(['line-002']);
+    expect(dataStore.getClaimableMbsSuggestions).toHaveBeenCalledWith({ consultationId: 'consultation-001', since: undefined });
+  });
+
+  it('exports a CSV claim file and closes the batch', async () => {
+    const lines = [line(), line({ id: 'line-002', itemNumber: 10990, itemDescription: 'Bulk billing incentive, "MMM 1"', scheduleFee: 7.65 })];
+    dataStore.getClaimBatch.mockResolvedValueOnce(batch(lines));
+    dataStore.markClaimBatchExported.mockResolvedValueOnce(
+      batch(lines.map(item => ({ ...item, status: 'exported' as const })), { status: 'exported', exportedAt: new Date() })
+    );
+
+    const claimFile = await service.exportBatch('batch-001', 'csv', 'clinician-001');
+
+    expect(dataStore.markClaimBatchExported).toHaveBeenCalledWith('batch-001', 'clinician-001');
+    expect(claimFile.fileName).toBe('medicare-claims-2025-08-05.csv');
+    expect(claimFile.mimeType).toBe('text/csv; charset=utf-8');
+
+    const rows = claimFile.content.toString('utf-8').split('\r\n');
+    expect(rows[0]).toBe(
+      'claim_id,service_date,service_time,provider_number,medicare_number,medicare_irn,patient_last_name,' +
+        'patient_first_name,patient_date_of_birth,item_number,item_description,schedule_fee'
+    );
+    expect(rows[1]).toBe(
+      'line-001,2025-08-05,09:30,2426621B,2123456701,1,Citizen,Jane,1985-03-02,23,' +
+        '"Professional attendance by a general practitioner, lasting less than 20 minutes",42.85'
+    );
+    expect(rows[2]).toContain(',10990,"Bulk billing incentive, ""MMM 1""",7.65');
+  });
+
+  it('keeps patient names and descriptions from being read as spreadsheet formulas', async () => {
+    const lines = [
+      line({ patientLastName: '=HYPERLINK("https://example.com","Citizen")', patientFirstName: '@Jane' }),
+      line({ id: 'line-002', itemDescription: '+61 review', patientFirstName: '-Jo' }),
+    ];
+    dataStore.getClaimBatch.mockResolvedValueOnce(batch(lines, { status: 'exported' }));
+
+    const claimFile = await service.exportBatch('batch-001', 'csv', 'clinician-001');
+
+    const rows = claimFile.content.toString('utf-8').split('\r\n');
+    expect(rows[1]).toContain(`,"'=HYPERLINK(""https://example.com"",""Citizen"")",'@Jane,`);
+    expect(rows[2]).toContain(",'-Jo,");
+    expect(rows[2]).toContain(",'+61 review,");
+    // Fees and item numbers are written as they are
+    expect(rows[2]).toMatch(/,23,'\+61 review,42\.85$/);
+  });
+
+  it('exports the same claims as JSON', async () => {
+    dataStore.getClaimBatch.mockResolvedValueOnce(batch([line({ status: 'exported' })], { status: 'exported' }));
+
+    const claimFile = await service.exportBatch('batch-001', 'json', 'clinician-001');
+
+    // Exporting a closed batch again downloads it without changing anything
+    expect(dataStore.markClaimBatchExported).not.toHaveBeenCalled();
+    const document = JSON.parse(claimFile.content.toString('utf-8')) as { version: number; claims: ClaimFileLine[] };
+    expect(document).toMatchObject({ version: 1, clinicName: 'Harbour Street Medical', serviceDate: '2025-08-05', claimCount: 1 });
+    expect(document.claims[0]).toMatchObject({ claimId: 'line-001', itemNumber: 23, medicareIrn: 1, providerNumber: '2426621B' });
+  });
+
+  it('refuses to export a batch with claims Medicare would reject', async () => {
+    dataStore.getClaimBatch.mockResolvedValueOnce(
+      batch([line(), line({ id: 'line-002', providerNumber: undefined, medicareNumber: '2123456711' })])
+    );
+
+    const exported = service.exportBatch('batch-001', 'csv', 'clinician-001');
+    await expect(exported).rejects.toBeInstanceOf(ClaimValidationError);
+    await expect(exported).rejects.toThrow(
+      "No provider number for the clinician who accepted the item; Patient's Medicare number is not valid"
+    );
+    expect(dataStore.markClaimBatchExported).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,5 @@
+export * from "./ClaimFile";
+export * from "./CsvClaimFileRenderer";
+export * from "./JsonClaimFileRenderer";
+export * from "./ClaimService";
+export * from "./BillingAnalytics";
@@ -0,0 +1,440 @@
+import { randomBytes } from "crypto";
+import { format } from "date-fns";
+import type { DataStore, EhrAuthorizationInput, EhrBridge, EhrConnectionRecord } from "@/server/datastore";
+import { EhrConnectionNotFoundError, EhrConnectionValidationError } from "@/server/datastore/types";
+import { FhirEHRProvider } from "@/services/fhir/FhirEHRProvider";
+import { DEFAULT_SMART_SCOPES } from "@/services/fhir/scopes";
+import { BRIDGE_CONNECTORS, createBridgeEHRProvider } from "@/services/bridge/connectors";
+import type { BridgeVendor } from "@/services/bridge/protocol";
+import type { EHRProvider } from "@/types/clinical";
+import type { SecretCipher } from "./SecretCipher";
+import {
+  SmartAuthClient,
+  createPkcePair,
+  type SmartClientCredentials,
+  type SmartTokenResponse,
+} from "./SmartAuthClient";
+
+// Tokens this close to expiring are refreshed before use
+const REFRESH_MARGIN_MS = 60 * 1000;
+// How long the user has to finish authorizing at the EHR
+export const EHR_LAUNCH_TTL_MS = 10 * 60 * 1000;
+// Cookie holding the pending launch between the launch and callback endpoints
+export const EHR_LAUNCH_COOKIE = "ehr_launch";
+
+export interface EhrConnectionSettingsInput {
+  fhirBaseUrl: string;
+  clientId: string;
+  scopes: string[]; // Empty for the default scopes
+  clientSecret?: string | null; // Plain text; left out to keep the current secret, null to remove it
+}
+
+export interface EhrBridgeSettingsInput {
+  url: string;
+  vendor: BridgeVendor;
+  token?: string; // Plain text; left out to keep the current token
+}
+
+/**
+ * A connection with SMART on FHIR set up, rather than only a bridge agent
+ */
+export type SmartEhrConnectionRecord = EhrConnectionRecord & { fhirBaseUrl: string; clientId: string };
+
+export const hasSmartSettings = (connection: EhrConnectionRecord): connection is SmartEhrConnectionRecord =>
+  connection.fhirBaseUrl !== undefined && connection.clientId !== undefined;
+
+/**
+ * A clinic's EHR connection as shown to its admins, without its secrets
+ */
+export interface EhrConnectionSummary {
+  fhirBaseUrl?: string;
+  clientId?: string;
+  scopes: string[];
+  hasClientSecret: boolean;
+  authorization: {
+    authorizedAt: Date;
+    authorizedBy?: string;
+    expiresAt?: Date;
+    grantedScopes: string[];
+    canRefresh: boolean;
+    refreshError?: string;
+  } | null;
+  bridge: {
+    url: string;
+    vendor: BridgeVendor;
+  } | null;
+}
+
+export interface EhrLaunchRequest {
+  tenantId: string;
+  userId: string;
+  redirectUri: string;
+  iss?: string; // EHR launch: the FHIR server that launched the app
+  launch?: string; // EHR launch: the launch context to hand back
+}
+
+/**
+ * A launch waiting for the authorization server to redirect back. It travels
+ * encrypted in a cookie, so nothing is stored until the launch completes.
+ */
+export interface PendingEhrLaunch {
+  tenantId: string;
+  userId: string;
+  fhirBaseUrl: string;
+  tokenEndpoint: string;
+  redirectUri: string;
+  scopes: string[];
+  state: string;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+export interface EhrLaunchCallback {
+  code?: string | null;
+  state?: string | null;
+  error?: string | null;
+  errorDescription?: string | null;
+}
+
+/**
+ * The clinic's EHR connection can't be used until someone connects it again
+ */
+export class EhrAuthorizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EhrAuthorizationError";
+  }
+}
+
+const normaliseBaseUrl = (url: string) => url.trim().replace(/\/+$/, "");
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+const formatExpiry = (expiresAt: Date) => format(expiresAt, "d MMM yyyy, h:mm a");
+
+/**
+ * Connects clinics to their EHR over SMART on FHIR, or through a bridge agent
+ * on the clinic's own network.
+ *
+ * Clinic admins save the FHIR server and the client the EHR registered for the
+ * clinic, then authorize it either from Settings (standalone launch) or from
+ * inside the EHR (EHR launch). Both run the authorization code flow with PKCE;
+ * the tokens it issues are stored encrypted and refreshed shortly before they
+ * expire. When they can't be, the FHIR provider's requests and connection tests
+ * fail with an EhrAuthorizationError saying why.
+ *
+ * Clinics on Best Practice or MedicalDirector save their bridge agent's URL and
+ * token instead, and the token is stored encrypted the same way.
+ */
+export class EhrConnectionService {
+  // Refreshes under way per clinic, so concurrent requests don't each spend the refresh token
+  private refreshes = new Map<string, Promise<string>>();
+
+  constructor(
+    private cipher: SecretCipher | null,
+    private smart: SmartAuthClient = new SmartAuthClient(),
+  ) {}
+
+  async saveSettings(dataStore: DataStore, input: EhrConnectionSettingsInput): Promise<EhrConnectionRecord> {
+    const fhirBaseUrl = normaliseBaseUrl(input.fhirBaseUrl);
+    if (!isHttpUrl(fhirBaseUrl)) {
+      throw new EhrConnectionValidationError("The FHIR base URL must be an http or https URL");
+    }
+    const clientId = input.clientId.trim();
+    if (!clientId) {
+      throw new EhrConnectionValidationError("A client ID is needed to connect to the EHR");
+    }
+    const scopes = [...new Set(input.scopes.map(scope => scope.trim()).filter(Boolean))];
+
+    return dataStore.saveEhrConnection({
+      fhirBaseUrl,
+      clientId,
+      scopes: scopes.length > 0 ? scopes : DEFAULT_SMART_SCOPES,
+      clientSecret: input.clientSecret ? this.requireCipher().encrypt(input.clientSecret) : input.clientSecret,
+    });
+  }
+
+  async disconnect(dataStore: DataStore): Promise<EhrConnectionRecord> {
+    return dataStore.saveEhrAuthorization(null);
+  }
+
+  /**
+   * @throws {EhrConnectionValidationError} if the URL or product is invalid, or a new bridge has no token
+   */
+  async saveBridgeSettings(dataStore: DataStore, input: EhrBridgeSettingsInput): Promise<EhrConnectionRecord> {
+    const url = normaliseBaseUrl(input.url);
+    if (!isHttpUrl(url)) {
+      throw new EhrConnectionValidationError("The bridge agent URL must be an http or https URL");
+    }
+    if (!Object.hasOwn(BRIDGE_CONNECTORS, input.vendor)) {
+      throw new EhrConnectionValidationError(`There is no bridge connector for ${input.vendor}`);
+    }
+    if (!input.token && !(await dataStore.getEhrConnection())?.bridge) {
+      throw new EhrConnectionValidationError("A token is needed to connect to the bridge agent");
+    }
+
+    return dataStore.saveEhrBridge({
+      url,
+      vendor: input.vendor,
+      token: input.token ? this.requireCipher().encrypt(input.token) : undefined,
+    });
+  }
+
+  async removeBridge(dataStore: DataStore): Promise<EhrConnectionRecord> {
+    return dataStore.saveEhrBridge(null);
+  }
+
+  summarise(connection: EhrConnectionRecord): EhrConnectionSummary {
+    const { authorization } = connection;
+    return {
+      fhirBaseUrl: connection.fhirBaseUrl,
+      clientId: connection.clientId,
+      scopes: connection.scopes,
+      hasClientSecret: connection.clientSecret !== undefined,
+      authorization: authorization
+        ? {
+            authorizedAt: authorization.authorizedAt,
+            authorizedBy: authorization.authorizedBy,
+            expiresAt: authorization.expiresAt,
+            grantedScopes: authorization.grantedScopes,
+            canRefresh: authorization.refreshToken !== undefined,
+            refreshError: authorization.refreshError,
+          }
+        : null,
+      bridge: connection.bridge ? { url: connection.bridge.url, vendor: connection.bridge.vendor } : null,
+    };
+  }
+
+  // ============================================================================
+  // SMART LAUNCH
+  // ============================================================================
+
+  /**
+   * Start a standalone launch, or an EHR launch when the EHR passed iss and launch
+   * @returns Where to send the user, and the launch state to keep until they come back
+   * @throws {EhrConnectionValidationError} if an EHR launch came from a server other than the clinic's
+   */
+  async startLaunch(dataStore: DataStore, request: EhrLaunchRequest): Promise<{ authorizeUrl: string; launchState: string }> {
+    const connection = await dataStore.getEhrConnection();
+    if (!connection || !hasSmartSettings(connection)) {
+      throw new EhrConnectionNotFoundError(request.tenantId);
+    }
+    // Only hand a launch back to the server the clinic set up, so its tokens can't be sent elsewhere
+    if (request.iss && normaliseBaseUrl(request.iss) !== connection.fhirBaseUrl) {
+      throw new EhrConnectionValidationError(
+        `Launched from ${request.iss}, but this clinic's EHR connection is set up for ${connection.fhirBaseUrl}`,
+        request.tenantId
+      );
+    }
+
+    const configuration = await this.smart.discover(connection.fhirBaseUrl);
+    const pkce = createPkcePair();
+    const scopes = request.launch && !connection.scopes.includes("launch")
+      ? ["launch", ...connection.scopes]
+      : connection.scopes;
+
+    const launch: PendingEhrLaunch = {
+      tenantId: request.tenantId,
+      userId: request.userId,
+      fhirBaseUrl: connection.fhirBaseUrl,
+      tokenEndpoint: configuration.token_endpoint,
+      redirectUri: request.redirectUri,
+      scopes,
+      state: randomBytes(16).toString("base64url"),
+      codeVerifier: pkce.verifier,
+      expiresAt: Date.now() + EHR_LAUNCH_TTL_MS,
+    };
+
+    return {
+      authorizeUrl: this.smart.authorizeUrl(configuration, this.credentials(connection), {
+        redirectUri: request.redirectUri,
+        scopes,
+        state: launch.state,
+        codeChallenge: pkce.challenge,
+        aud: connection.fhirBaseUrl,
+        launch: request.launch,
+      }),
+      launchState: this.requireCipher().encrypt(JSON.stringify(launch)),
+    };
+  }
+
+  /**
+   * @throws {EhrConnectionValidationError} if the launch state is unreadable or has expired
+   */
+  readLaunchState(launchState: string | undefined): PendingEhrLaunch {
+    let launch: PendingEhrLaunch | undefined;
+    try {
+      launch = launchState ? (JSON.parse(this.requireCipher().decrypt(launchState)) as PendingEhrLaunch) : undefined;
+    } catch {
+      launch = undefined;
+    }
+
+    if (!launch || launch.expiresAt < Date.now()) {
+      throw new EhrConnectionValidationError("The EHR connection request has expired or was started in another browser; connect again");
+    }
+    return launch;
+  }
+
+  /**
+   * Exchange the authorization code the EHR redirected back with for tokens, and store them
+   * @throws {EhrConnectionValidationError} if the EHR refused, or the callback doesn't match the launch
+   */
+  async completeLaunch(dataStore: DataStore, launch: PendingEhrLaunch, callback: EhrLaunchCallback): Promise<EhrConnectionRecord> {
+    if (callback.error) {
+      throw new EhrConnectionValidationError(
+        `The EHR did not authorize the connection: ${callback.errorDescription ?? callback.error}`,
+        launch.tenantId
+      );
+    }
+    if (!callback.code || callback.state !== launch.state) {
+      throw new EhrConnectionValidationError("The EHR's response didn't match the connection request; connect again", launch.tenantId);
+    }
+
+    const connection = await dataStore.getEhrConnection();
+    if (!connection || !hasSmartSettings(connection) || connection.fhirBaseUrl !== launch.fhirBaseUrl) {
+      throw new EhrConnectionValidationError("The EHR connection settings changed while connecting; connect again", launch.tenantId);
+    }
+
+    const token = await this.smart.exchangeCode(launch.tokenEndpoint, this.credentials(connection), {
+      code: callback.code,
+      redirectUri: launch.redirectUri,
+      codeVerifier: launch.codeVerifier,
+    });
+
+    return dataStore.saveEhrAuthorization({
+      ...this.toAuthorization(token, launch.scopes),
+      tokenEndpoint: launch.tokenEndpoint,
+      authorizedBy: launch.userId,
+      authorizedAt: new Date(),
+    });
+  }
+
+  // ============================================================================
+  // ACCESS TOKENS
+  // ============================================================================
+
+  /**
+   * The clinic's access token, refreshed first when it's about to expire
+   * @throws {EhrAuthorizationError} if the clinic hasn't connected, or the token has expired and can't be refreshed
+   */
+  async getAccessToken(dataStore: DataStore): Promise<string> {
+    const connection = await dataStore.getEhrConnection();
+    const authorization = connection?.authorization;
+    if (!connection || !hasSmartSettings(connection) || !authorization) {
+      throw new EhrAuthorizationError("The EHR connection hasn't been authorized yet; connect it from Settings");
+    }
+
+    const { expiresAt } = authorization;
+    if (!expiresAt || expiresAt.getTime() - Date.now() > REFRESH_MARGIN_MS) {
+      return this.requireCipher().decrypt(authorization.accessToken);
+    }
+
+    if (!authorization.refreshToken) {
+      if (expiresAt.getTime() > Date.now()) {
+        return this.requireCipher().decrypt(authorization.accessToken);
+      }
+      throw new EhrAuthorizationError(
+        `The EHR access token expired at ${formatExpiry(expiresAt)} and the EHR issued no refresh token; connect again from Settings`
+      );
+    }
+
+    const pending = this.refreshes.get(connection.tenantId);
+    if (pending) {
+      return pending;
+    }
+    const refresh = this.refresh(dataStore, connection).finally(() => this.refreshes.delete(connection.tenantId));
+    this.refreshes.set(connection.tenantId, refresh);
+    return refresh;
+  }
+
+  /**
+   * A FHIR provider for the clinic's connection, authorized with its stored tokens
+   */
+  createProvider(dataStore: DataStore, connection: SmartEhrConnectionRecord, clinicianId?: string): FhirEHRProvider {
+    return new FhirEHRProvider(
+      {
+        baseUrl: connection.fhirBaseUrl,
+        getAccessToken: () => this.getAccessToken(dataStore),
+        getGrantedScopes: async () => (await dataStore.getEhrConnection())?.authorization?.grantedScopes ?? null,
+      },
+      clinicianId
+    );
+  }
+
+  /**
+   * A provider for the product the clinic's bridge agent is attached to, connected
+   * @throws {Error} if the agent can't be reached, or is attached to a different product
+   */
+  async createBridgeProvider(bridge: EhrBridge, clinicianId?: string): Promise<EHRProvider> {
+    return createBridgeEHRProvider(
+      { url: bridge.url, token: this.requireCipher().decrypt(bridge.token), vendor: bridge.vendor },
+      clinicianId
+    );
+  }
+
+  private async refresh(dataStore: DataStore, connection: SmartEhrConnectionRecord): Promise<string> {
+    const authorization = connection.authorization!;
+    const cipher = this.requireCipher();
+
+    let token: SmartTokenResponse;
+    try {
+      token = await this.smart.refresh(authorization.tokenEndpoint, this.credentials(connection), cipher.decrypt(authorization.refreshToken!));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await dataStore.recordEhrRefreshError(reason);
+
+      // Still usable for a moment; the next request tries the refresh again
+      if (authorization.expiresAt && authorization.expiresAt.getTime() > Date.now()) {
+        return cipher.decrypt(authorization.accessToken);
+      }
+      throw new EhrAuthorizationError(
+        `The EHR access token expired at ${formatExpiry(authorization.expiresAt!)} and could not be refreshed (${reason}); connect again from Settings`
+      );
+    }
+
+    const refreshed = this.toAuthorization(token, authorization.grantedScopes);
+    await dataStore.saveEhrAuthorization({
+      ...refreshed,
+      // Servers that don't rotate refresh tokens leave the current one in use
+      refreshToken: refreshed.refreshToken ?? authorization.refreshToken,
+      tokenEndpoint: authorization.tokenEndpoint,
+      authorizedBy: authorization.authorizedBy,
+      authorizedAt: authorization.authorizedAt,
+    });
+    return token.access_token;
+  }
+
+  private toAuthorization(
+    token: SmartTokenResponse,
+    requestedScopes: string[]
+  ): Omit<EhrAuthorizationInput, "tokenEndpoint" | "authorizedBy" | "authorizedAt"> {
+    const cipher = this.requireCipher();
+    return {
+      accessToken: cipher.encrypt(token.access_token),
+      refreshToken: token.refresh_token ? cipher.encrypt(token.refresh_token) : undefined,
+      expiresAt: token.expires_in ? new Date(Date.now() + token.expires_in * 1000) : undefined,
+      // Servers only list the granted scopes when they differ from those asked for
+      grantedScopes: token.scope ? token.scope.split(" ").filter(Boolean) : requestedScopes,
+    };
+  }
+
+  private credentials(connection: SmartEhrConnectionRecord): SmartClientCredentials {
+    return {
+      clientId: connection.clientId,
+      clientSecret: connection.clientSecret ? this.requireCipher().decrypt(connection.clientSecret) : undefined,
+    };
+  }
+
+  private requireCipher(): SecretCipher {
+    if (!this.cipher) {
+      throw new EhrConnectionValidationError("EHR_SECRETS_KEY must be set before EHR secrets and tokens can be stored");
+    }
+    return this.cipher;
+  }
+}
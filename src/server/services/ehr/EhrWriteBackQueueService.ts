@@ -0,0 +1,38 @@
+import { Queue } from "bullmq";
+import { bullConnection } from "@/server/instrumentation/bull/connection";
+import { QUEUE_TYPES, type EhrWriteBackJobData } from "@/server/instrumentation/bull/types";
+import { serverEnv } from "@/env";
+import { EHR_WRITE_BACK_ATTEMPTS, EHR_WRITE_BACK_BACKOFF_MS } from "./EhrWriteBackService";
+
+export class EhrWriteBackQueueService {
+  private queue: Queue;
+
+  constructor() {
+    this.queue = new Queue(serverEnv.MBS_QUEUE_NAME, {
+      connection: bullConnection,
+    });
+  }
+
+  /**
+   * Queue delivery of a pending write-back to the clinic's EHR
+   */
+  async queueWriteBack(data: EhrWriteBackJobData, priority = 0): Promise<string> {
+    const job = await this.queue.add(
+      QUEUE_TYPES.EHR_WRITE_BACK,
+      data,
+      {
+        priority,
+        attempts: EHR_WRITE_BACK_ATTEMPTS,
+        backoff: {
+          type: 'exponential',
+          delay: EHR_WRITE_BACK_BACKOFF_MS,
+        },
+        removeOnComplete: 50,
+        removeOnFail: 100,
+      }
+    );
+
+    console.log(`🔁 Queued EHR write-back job: ${job.id} for write-back ${data.writeBackId}`);
+    return job.id!;
+  }
+}
@@ -0,0 +1,190 @@
+import { format } from "date-fns";
+import type { DataStore, EhrWriteBackRecord } from "@/server/datastore";
+import type { Appointment, ClinicalNote, EHRProvider } from "@/types/clinical";
+import { BridgeRequestError } from "@/services/bridge/BridgeClient";
+import { FhirRequestError } from "@/services/fhir/FhirClient";
+import { EhrAuthorizationError } from "./EhrConnectionService";
+
+// Delivery is tried this many times before the write-back is marked failed
+export const EHR_WRITE_BACK_ATTEMPTS = 6;
+// Wait after the first failed attempt, doubled after each one after that
+export const EHR_WRITE_BACK_BACKOFF_MS = 30 * 1000;
+// A worker still delivering after this long is taken to have stopped, so another may take over
+export const EHR_WRITE_BACK_CLAIM_MS = 5 * 60 * 1000;
+
+/**
+ * How long BullMQ's exponential backoff waits after the given number of failed attempts
+ */
+export const ehrWriteBackDelay = (failedAttempts: number) => EHR_WRITE_BACK_BACKOFF_MS * 2 ** (failedAttempts - 1);
+
+/**
+ * The clinic's EHR, with notes authored by the given user; null when the clinic has none set up
+ */
+export type EhrProviderResolver = (clinicianId?: string) => Promise<EHRProvider | null>;
+
+/**
+ * The record in the EHR has changed since the change being written back was made
+ */
+export class EhrWriteBackConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EhrWriteBackConflictError";
+  }
+}
+
+export interface EhrWriteBackResult {
+  success: boolean;
+  writeBackId: string;
+  skipped?: boolean;
+  retry?: boolean; // Failed, but worth another attempt
+  writeBack?: EhrWriteBackRecord;
+  errorMessage?: string;
+}
+
+export interface DeliverWriteBackOptions {
+  // Mark the write-back failed if this attempt fails; false while BullMQ still has retries left
+  markFailed?: boolean;
+}
+
+type WriteBackFailure = "conflict" | "permanent" | "transient";
+
+/**
+ * Whether a failed attempt is a conflict, worth trying again, or bound to fail the same way
+ */
+function classifyFailure(error: unknown): WriteBackFailure {
+  if (error instanceof EhrWriteBackConflictError) {
+    return "conflict";
+  }
+  if (error instanceof BridgeRequestError) {
+    if (error.code === "conflict") {
+      return "conflict";
+    }
+    // No code when the agent couldn't be reached at all
+    return error.code === "unavailable" || error.code === undefined ? "transient" : "permanent";
+  }
+  if (error instanceof FhirRequestError) {
+    if (error.status === 409 || error.status === 412) {
+      return "conflict";
+    }
+    return error.status === undefined || error.status === 408 || error.status === 429 || error.status >= 500
+      ? "transient"
+      : "permanent";
+  }
+  // The connection has to be authorized again by a clinic admin
+  if (error instanceof EhrAuthorizationError) {
+    return "permanent";
+  }
+  return "transient";
+}
+
+/**
+ * Why the appointment in the EHR is no longer the one whose status was changed, if it isn't
+ */
+function describeAppointmentConflict(appointment: Appointment, writeBack: EhrWriteBackRecord): string | null {
+  if (writeBack.appointmentStart && appointment.scheduledTime.getTime() !== writeBack.appointmentStart.getTime()) {
+    return `The appointment was moved to ${format(appointment.scheduledTime, "d MMM yyyy h:mm a")} in the EHR`;
+  }
+  if ((appointment.status === "cancelled" || appointment.status === "no-show") && appointment.status !== writeBack.appointmentStatus) {
+    return `The appointment was marked ${appointment.status} in the EHR`;
+  }
+  return null;
+}
+
+/**
+ * Writes queued notes and appointment status changes to the clinic's EHR. Each
+ * call is one delivery attempt; the write-back queue retries with backoff, and
+ * write-backs that fail for good or conflict with a change made in the EHR are
+ * left for a clinician to retry from their pending actions.
+ */
+export class EhrWriteBackService {
+  constructor(
+    private dataStore: DataStore,
+    private getProvider: EhrProviderResolver,
+  ) {}
+
+  async deliver(writeBackId: string, options: DeliverWriteBackOptions = {}): Promise<EhrWriteBackResult> {
+    // A retried or duplicate job may find it already delivered, being delivered by
+    // another worker, or waiting on a clinician
+    const writeBack = await this.dataStore.claimEhrWriteBack(writeBackId, new Date(Date.now() - EHR_WRITE_BACK_CLAIM_MS));
+    if (!writeBack) {
+      const current = await this.dataStore.getEhrWriteBack(writeBackId);
+      console.log(`🔁 EHR write-back ${writeBackId} is ${current.status}, skipping`);
+      return { success: true, writeBackId, skipped: true, writeBack: current };
+    }
+
+    try {
+      const provider = await this.getProvider(writeBack.requestedBy);
+      if (!provider) {
+        const recorded = await this.dataStore.recordEhrWriteBackAttempt(writeBackId, {
+          status: "failed",
+          error: "This clinic has no EHR connection set up",
+        });
+        return { success: false, writeBackId, writeBack: recorded, errorMessage: recorded.lastError };
+      }
+
+      if (writeBack.kind === "clinical-note") {
+        await this.writeNote(provider, writeBack);
+      } else {
+        await this.writeAppointmentStatus(provider, writeBack);
+      }
+
+      const delivered = await this.dataStore.recordEhrWriteBackAttempt(writeBackId, { status: "delivered" });
+      return { success: true, writeBackId, writeBack: delivered };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown EHR error";
+      const failure = classifyFailure(error);
+      const retry = failure === "transient" && !options.markFailed;
+      console.error(`❌ EHR write-back ${writeBackId} failed (${failure}):`, error);
+
+      const recorded = await this.dataStore.recordEhrWriteBackAttempt(writeBackId, {
+        status: failure === "conflict" ? "conflict" : retry ? "pending" : "failed",
+        error: errorMessage,
+        nextAttemptAt: retry ? new Date(Date.now() + ehrWriteBackDelay(writeBack.attempts + 1)) : undefined,
+      });
+      return { success: false, writeBackId, retry, writeBack: recorded, errorMessage };
+    }
+  }
+
+  /**
+   * Write the note as it is now: a new note in the EHR the first time, then
+   * updates to that note, refused if it was edited there since we last wrote it
+   */
+  private async writeNote(provider: EHRProvider, writeBack: EhrWriteBackRecord): Promise<void> {
+    const note = await this.dataStore.getClinicalNote(writeBack.noteId!);
+    const content: Partial<ClinicalNote> = {
+      clinicianId: writeBack.requestedBy,
+      consultationId: note.consultationId,
+      title: note.title,
+      content: note.content,
+      noteType: note.noteType,
+      status: note.status,
+      createdAt: note.createdAt,
+      signedAt: note.signedAt,
+    };
+
+    const written = note.ehrNoteId
+      ? await provider.updateClinicalNote(note.ehrNoteId, {
+          ...content,
+          updatedAt: writeBack.overwrite ? undefined : note.ehrUpdatedAt,
+        })
+      : await provider.createClinicalNote((await this.dataStore.getPatientSummary(note.patientId)).ehrPatientId, content);
+
+    await this.dataStore.recordEhrNote(note.id, {
+      ehrNoteId: written.ehrNoteId ?? written.id,
+      ehrUpdatedAt: written.updatedAt,
+    });
+  }
+
+  private async writeAppointmentStatus(provider: EHRProvider, writeBack: EhrWriteBackRecord): Promise<void> {
+    const appointmentId = writeBack.ehrAppointmentId!;
+
+    if (!writeBack.overwrite) {
+      const conflict = describeAppointmentConflict(await provider.getAppointment(appointmentId), writeBack);
+      if (conflict) {
+        throw new EhrWriteBackConflictError(conflict);
+      }
+    }
+
+    await provider.updateAppointmentStatus(appointmentId, writeBack.appointmentStatus!);
+  }
+}
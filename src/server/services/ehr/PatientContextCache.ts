@@ -0,0 +1,181 @@
+import type { CachedPatientContext, DataStore, PatientContextSection } from "@/server/datastore";
+import type { EHRProvider, PatientContext } from "@/types/clinical";
+
+/**
+ * How long each part of a patient's context is served before it's read from the EHR again, in milliseconds
+ */
+export type PatientContextTtls = Record<PatientContextSection, number>;
+
+// A background refresh that failed isn't tried again for this long
+const REFRESH_RETRY_MS = 60 * 1000;
+
+const SECTIONS: PatientContextSection[] = ["summary", "medications", "allergies", "alerts", "recentNotes"];
+
+/**
+ * A clinic's cached patient context, and the EHR it is read from. The provider
+ * is only resolved when the EHR has to be read; null when the clinic has none set up.
+ */
+export interface PatientContextSource {
+  tenantId: string;
+  dataStore: DataStore;
+  getProvider: () => Promise<EHRProvider | null>;
+}
+
+export interface PatientContextPrewarmResult {
+  patients: number; // Booked in on the day
+  refreshed: number;
+  failed: number;
+}
+
+/**
+ * Patient context read from EHR-integrated clinics' EHRs. The last context read
+ * is served straight away, marked stale once any part of it is past its TTL,
+ * while it's read again in the background. It is shared so a patient's context
+ * isn't read twice at once.
+ */
+export class PatientContextCache {
+  private refreshes = new Map<string, Promise<PatientContext | null>>();
+  private failedRefreshes = new Map<string, number>(); // When each patient's last background refresh failed
+
+  constructor(private ttls: PatientContextTtls) {}
+
+  /**
+   * The patient's context, read from the EHR first if none is cached
+   * @returns null if none is cached and the clinic has no EHR to read it from
+   */
+  async getPatientContext(source: PatientContextSource, ehrPatientId: string): Promise<PatientContext | null> {
+    const cached = await source.dataStore.getCachedPatientContext(ehrPatientId);
+    if (!cached.summary) {
+      return this.refresh(source, ehrPatientId);
+    }
+
+    const key = this.key(source, ehrPatientId);
+    const stale = this.staleSections(cached);
+    if (stale.length > 0 && Date.now() - (this.failedRefreshes.get(key) ?? 0) > REFRESH_RETRY_MS) {
+      this.refresh(source, ehrPatientId).then(
+        () => this.failedRefreshes.delete(key),
+        (error) => {
+          this.failedRefreshes.set(key, Date.now());
+          console.error(`❌ Failed to refresh patient context for EHR patient ${ehrPatientId}:`, error);
+        }
+      );
+    }
+    return this.toPatientContext(cached, stale, this.refreshes.has(key));
+  }
+
+  /**
+   * Read the patient's context from the EHR and cache it. Parts the EHR
+   * leaves out keep whatever was last read.
+   * @returns null if the clinic has no EHR to read from
+   */
+  refresh(source: PatientContextSource, ehrPatientId: string): Promise<PatientContext | null> {
+    const key = this.key(source, ehrPatientId);
+    const pending = this.refreshes.get(key);
+    if (pending) {
+      return pending;
+    }
+    const refresh = this.read(source, ehrPatientId).finally(() => this.refreshes.delete(key));
+    this.refreshes.set(key, refresh);
+    return refresh;
+  }
+
+  /**
+   * Read the context of patients booked in with the given clinicians on the
+   * day, so it's ready when they're seen. Patients whose context is still
+   * fresh are left alone.
+   */
+  async prewarm(source: PatientContextSource, clinicianIds: string[], date = new Date()): Promise<PatientContextPrewarmResult> {
+    const result: PatientContextPrewarmResult = { patients: 0, refreshed: 0, failed: 0 };
+    const provider = await source.getProvider();
+    if (!provider) {
+      return result;
+    }
+
+    const patientIds = new Set<string>();
+    for (const clinicianId of clinicianIds) {
+      try {
+        const appointments = await provider.getTodaysAppointments(clinicianId, date);
+        for (const appointment of appointments) {
+          if (appointment.status !== "cancelled") {
+            patientIds.add(appointment.patientId);
+          }
+        }
+      } catch (error) {
+        console.error(`❌ Failed to get appointments for clinician ${clinicianId} to pre-warm patient context:`, error);
+      }
+    }
+    result.patients = patientIds.size;
+
+    // One at a time, to go easy on the EHR
+    const prewarmSource = { ...source, getProvider: async () => provider };
+    for (const ehrPatientId of patientIds) {
+      try {
+        const cached = await source.dataStore.getCachedPatientContext(ehrPatientId);
+        if (cached.summary && this.staleSections(cached).length === 0) {
+          continue;
+        }
+        await this.refresh(prewarmSource, ehrPatientId);
+        result.refreshed++;
+      } catch (error) {
+        result.failed++;
+        console.error(`❌ Failed to pre-warm patient context for EHR patient ${ehrPatientId}:`, error);
+      }
+    }
+    return result;
+  }
+
+  private async read(source: PatientContextSource, ehrPatientId: string): Promise<PatientContext | null> {
+    const provider = await source.getProvider();
+    if (!provider) {
+      return null;
+    }
+
+    const context = await provider.getPatientContext(ehrPatientId);
+    const fetchedAt = new Date();
+    const fresh: CachedPatientContext = {};
+    for (const section of SECTIONS) {
+      if (context[section]) {
+        Object.assign(fresh, { [section]: { data: context[section], fetchedAt } });
+      }
+    }
+    await source.dataStore.cachePatientContext(ehrPatientId, fresh);
+
+    const cached = await source.dataStore.getCachedPatientContext(ehrPatientId);
+    return this.toPatientContext(cached, this.staleSections(cached), false);
+  }
+
+  /**
+   * Parts past their TTL. Parts the EHR has never returned count as read
+   * with the summary, so an EHR without them isn't asked on every view.
+   */
+  private staleSections(cached: CachedPatientContext): PatientContextSection[] {
+    const now = Date.now();
+    return SECTIONS.filter((section) => {
+      const fetchedAt = (cached[section] ?? cached.summary)?.fetchedAt;
+      return !fetchedAt || now - fetchedAt.getTime() > this.ttls[section];
+    });
+  }
+
+  private toPatientContext(cached: CachedPatientContext, stale: PatientContextSection[], refreshing: boolean): PatientContext {
+    const fetchedAt = SECTIONS.flatMap((section) => cached[section]?.fetchedAt.getTime() ?? []);
+
+    return {
+      summary: {
+        ...cached.summary!.data,
+        lastSyncedAt: new Date(Math.min(...fetchedAt)),
+        isStale: stale.length > 0,
+      },
+      medications: cached.medications?.data,
+      allergies: cached.allergies?.data,
+      alerts: cached.alerts?.data,
+      recentNotes: cached.recentNotes?.data,
+      medicationsLoading: refreshing && !cached.medications,
+      allergiesLoading: refreshing && !cached.allergies,
+      notesLoading: refreshing && !cached.recentNotes,
+    };
+  }
+
+  private key(source: PatientContextSource, ehrPatientId: string): string {
+    return `${source.tenantId}:${ehrPatientId}`;
+  }
+}
@@ -0,0 +1,52 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const FORMAT_VERSION = "v1";
+
+/**
+ * Encrypts secrets before they are stored, such as EHR client secrets and
+ * tokens, with AES-256-GCM. Encrypted values read "v1.<iv>.<tag>.<ciphertext>",
+ * each part base64url encoded, so they can be told apart from plain text and
+ * the format can change later.
+ */
+export class SecretCipher {
+  private key: Buffer;
+
+  /**
+   * @param key 32 bytes, base64 encoded
+   */
+  constructor(key: string) {
+    this.key = Buffer.from(key, "base64");
+    if (this.key.length !== 32) {
+      throw new Error("The secrets key must be 32 bytes, base64 encoded");
+    }
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+    return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+      .map(part => (typeof part === "string" ? part : part.toString("base64url")))
+      .join(".");
+  }
+
+  /**
+   * @throws {Error} if the value wasn't encrypted with this key, or has been changed since
+   */
+  decrypt(value: string): string {
+    const [version, iv, tag, ciphertext] = value.split(".");
+    if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+      throw new Error("Value is not an encrypted secret");
+    }
+
+    try {
+      const decipher = createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, "base64url"));
+      decipher.setAuthTag(Buffer.from(tag, "base64url"));
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf8");
+    } catch {
+      throw new Error("Secret could not be decrypted; it was encrypted with a different key or has been altered");
+    }
+  }
+}
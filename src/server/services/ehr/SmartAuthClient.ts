@@ -0,0 +1,185 @@
+import { createHash, randomBytes } from "crypto";
+import { FhirClient } from "@/services/fhir/FhirClient";
+import type { FhirExtension } from "@/services/fhir/types";
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+const OAUTH_URIS_EXTENSION = "http://fhir-registry.smarthealthit.org/StructureDefinition/oauth-uris";
+
+/**
+ * The server's SMART configuration, from .well-known/smart-configuration
+ */
+export interface SmartConfiguration {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  capabilities?: string[];
+  scopes_supported?: string[];
+  code_challenge_methods_supported?: string[];
+}
+
+export interface SmartTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number; // Seconds
+  scope?: string; // Scopes actually granted, when they differ from those asked for
+  refresh_token?: string;
+  id_token?: string;
+  patient?: string; // Launch context
+}
+
+export interface SmartClientCredentials {
+  clientId: string;
+  clientSecret?: string; // Confidential clients only; public clients rely on PKCE
+}
+
+export interface SmartAuthorizeRequest {
+  redirectUri: string;
+  scopes: string[];
+  state: string;
+  codeChallenge: string;
+  aud: string; // The FHIR server the token is for
+  launch?: string; // Launch context from an EHR launch
+}
+
+/**
+ * The authorization server refused a request, or returned something that isn't
+ * a SMART response. Code is the OAuth error code when there is one.
+ */
+export class SmartAuthError extends Error {
+  constructor(
+    message: string,
+    public code?: string
+  ) {
+    super(message);
+    this.name = "SmartAuthError";
+  }
+}
+
+/**
+ * A PKCE code verifier and its S256 challenge
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString("base64url");
+  return { verifier, challenge: createHash("sha256").update(verifier).digest("base64url") };
+}
+
+/**
+ * Talks OAuth 2.0 to a FHIR server's SMART authorization server: discovery,
+ * the authorize redirect, and the code and refresh token grants.
+ */
+export class SmartAuthClient {
+  constructor(private fetchFn: typeof fetch = fetch) {}
+
+  /**
+   * Find the authorization server from the FHIR server's SMART configuration,
+   * falling back to the oauth-uris extension older servers put in their
+   * CapabilityStatement
+   */
+  async discover(fhirBaseUrl: string): Promise<SmartConfiguration> {
+    const baseUrl = fhirBaseUrl.replace(/\/+$/, "");
+
+    const response = await this.fetchFn(`${baseUrl}/.well-known/smart-configuration`, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }).catch(() => null);
+    if (response?.ok) {
+      const configuration = (await response.json()) as Partial<SmartConfiguration>;
+      if (configuration.authorization_endpoint && configuration.token_endpoint) {
+        return configuration as SmartConfiguration;
+      }
+    }
+
+    const statement = await new FhirClient({ baseUrl, fetch: this.fetchFn, timeoutMs: REQUEST_TIMEOUT_MS }).capabilities();
+    const oauthUris = statement.rest
+      ?.flatMap(rest => rest.security?.extension ?? [])
+      .find(extension => extension.url === OAUTH_URIS_EXTENSION)?.extension;
+    const uri = (name: string) => oauthUris?.find((extension: FhirExtension) => extension.url === name)?.valueUri;
+
+    const authorizationEndpoint = uri("authorize");
+    const tokenEndpoint = uri("token");
+    if (!authorizationEndpoint || !tokenEndpoint) {
+      throw new SmartAuthError(`${baseUrl} does not advertise a SMART on FHIR authorization server`);
+    }
+    return { authorization_endpoint: authorizationEndpoint, token_endpoint: tokenEndpoint };
+  }
+
+  authorizeUrl(configuration: SmartConfiguration, client: SmartClientCredentials, request: SmartAuthorizeRequest): string {
+    const url = new URL(configuration.authorization_endpoint);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("client_id", client.clientId);
+    url.searchParams.set("redirect_uri", request.redirectUri);
+    url.searchParams.set("scope", request.scopes.join(" "));
+    url.searchParams.set("state", request.state);
+    url.searchParams.set("aud", request.aud);
+    url.searchParams.set("code_challenge", request.codeChallenge);
+    url.searchParams.set("code_challenge_method", "S256");
+    if (request.launch) {
+      url.searchParams.set("launch", request.launch);
+    }
+    return url.toString();
+  }
+
+  async exchangeCode(
+    tokenEndpoint: string,
+    client: SmartClientCredentials,
+    grant: { code: string; redirectUri: string; codeVerifier: string }
+  ): Promise<SmartTokenResponse> {
+    return this.requestToken(tokenEndpoint, client, {
+      grant_type: "authorization_code",
+      code: grant.code,
+      redirect_uri: grant.redirectUri,
+      code_verifier: grant.codeVerifier,
+    });
+  }
+
+  async refresh(tokenEndpoint: string, client: SmartClientCredentials, refreshToken: string): Promise<SmartTokenResponse> {
+    return this.requestToken(tokenEndpoint, client, {
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    });
+  }
+
+  private async requestToken(
+    tokenEndpoint: string,
+    client: SmartClientCredentials,
+    params: Record<string, string>
+  ): Promise<SmartTokenResponse> {
+    const body = new URLSearchParams(params);
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      "Content-Type": "application/x-www-form-urlencoded",
+    };
+
+    // Confidential clients authenticate with HTTP Basic; public clients name themselves in the body
+    if (client.clientSecret) {
+      const credentials = `${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    } else {
+      body.set("client_id", client.clientId);
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchFn(tokenEndpoint, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new SmartAuthError(`Token endpoint could not be reached: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const payload = (await response.json().catch(() => ({}))) as Partial<SmartTokenResponse> & {
+      error?: string;
+      error_description?: string;
+    };
+    if (!response.ok || payload.error) {
+      const reason = payload.error_description ?? payload.error ?? `HTTP ${response.status}`;
+      throw new SmartAuthError(`Token request was refused: ${reason}`, payload.error);
+    }
+    if (!payload.access_token) {
+      throw new SmartAuthError("Token response had no access token");
+    }
+    return payload as SmartTokenResponse;
+  }
+}
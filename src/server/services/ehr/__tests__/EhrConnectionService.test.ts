@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, type Mock } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHash, randomBytes } from 'crypto';
+import type { DataStore, EhrAuthorizationInput, EhrBridgeInput, EhrConnectionRecord } from '@/server/datastore/types';
+import { EhrConnectionNotFoundError, EhrConnectionValidationError } from '@/server/datastore/types';
+import { EhrAuthorizationError, EhrConnectionService } from '../EhrConnectionService';
+import { SecretCipher } from '../SecretCipher';
+
+const TENANT_ID = 'tenant-1';
+const CLIENT_ID = 'aria-scribe';
+const CLIENT_SECRET = 'shh';
+const REDIRECT_URI = 'https://app.example.com/api/ehr/callback';
+
+interface TokenRequest {
+  params: URLSearchParams;
+  authorization?: string;
+}
+
+const readBody = (request: IncomingMessage) =>
+  new Promise<string>(resolve => {
+    let body = '';
+    request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    request.on('end', () => resolve(body));
+  });
+
+describe('EhrConnectionService', () => {
+  let server: Server;
+  let baseUrl: string;
+  let tokenRequests: TokenRequest[];
+  let tokenResponse: { status: number; body: Record<string, unknown> };
+
+  // Stands in for a FHIR server's SMART authorization server
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.url === '/fhir/.well-known/smart-configuration') {
+        response.writeHead(200, { 'content-type': 'application/json' }).end(
+          JSON.stringify({
+            authorization_endpoint: `${baseUrl}/auth/authorize`,
+            token_endpoint: `${baseUrl}/auth/token`,
+            code_challenge_methods_supported: ['S256'],
+          })
+        );
+        return;
+      }
+      if (request.url === '/auth/token' && request.method === 'POST') {
+        void readBody(request).then(body => {
+          tokenRequests.push({ params: new URLSearchParams(body), authorization: request.headers.authorization });
+          response.writeHead(tokenResponse.status, { 'content-type': 'application/json' }).end(JSON.stringify(tokenResponse.body));
+        });
+        return;
+      }
+      response.writeHead(404).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  let cipher: SecretCipher;
+  let service: EhrConnectionService;
+  let connection: EhrConnectionRecord | null;
+  let dataStore: DataStore;
+  let recordEhrRefreshError: Mock<(error: string) => Promise<void>>;
+
+  beforeEach(() => {
+    tokenRequests = [];
+    tokenResponse = { status: 200, body: { access_token: 'access-1', token_type: 'Bearer', expires_in: 3600, refresh_token: 'refresh-1' } };
+    cipher = new SecretCipher(randomBytes(32).toString('base64'));
+    service = new EhrConnectionService(cipher);
+    connection = {
+      id: 'connection-1',
+      tenantId: TENANT_ID,
+      fhirBaseUrl: `${baseUrl}/fhir`,
+      clientId: CLIENT_ID,
+      clientSecret: cipher.encrypt(CLIENT_SECRET),
+      scopes: ['openid', 'offline_access', 'user/Patient.read'],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    // Keeps one clinic's connection in memory the way the store would
+    recordEhrRefreshError = vi.fn(async (error: string) => {
+      connection = { ...connection!, authorization: { ...connection!.authorization!, refreshError: error } };
+    });
+    dataStore = {
+      getEhrConnection: vi.fn(async () => connection),
+      saveEhrAuthorization: vi.fn(async (authorization: EhrAuthorizationInput | null) => {
+        connection = { ...connection!, authorization: authorization ?? undefined };
+        return connection;
+      }),
+      recordEhrRefreshError,
+      saveEhrBridge: vi.fn(async (bridge: EhrBridgeInput | null) => {
+        const current = connection ?? { id: 'connection-1', tenantId: TENANT_ID, scopes: [], createdAt: new Date(), updatedAt: new Date() };
+        connection = {
+          ...current,
+          bridge: bridge ? { url: bridge.url, vendor: bridge.vendor, token: bridge.token ?? current.bridge!.token } : undefined,
+        };
+        return connection;
+      }),
+    } as unknown as DataStore;
+  });
+
+  function authorize(overrides: Partial<EhrAuthorizationInput> = {}) {
+    connection = {
+      ...connection!,
+      authorization: {
+        accessToken: cipher.encrypt('access-0'),
+        refreshToken: cipher.encrypt('refresh-0'),
+        tokenEndpoint: `${baseUrl}/auth/token`,
+        expiresAt: new Date(Date.now() + 30 * 1000),
+        grantedScopes: connection!.scopes,
+        authorizedBy: 'user-1',
+        authorizedAt: new Date('2025-08-01T00:00:00Z'),
+        ...overrides,
+      },
+    };
+  }
+
+  describe('launch', () => {
+    it('builds a PKCE authorize URL for the configured server', async () => {
+      const { authorizeUrl, launchState } = await service.startLaunch(dataStore, {
+        tenantId: TENANT_ID,
+        userId: 'user-1',
+        redirectUri: REDIRECT_URI,
+      });
+
+      const url = new URL(authorizeUrl);
+      const launch = service.readLaunchState(launchState);
+      expect(url.origin + url.pathname).toBe(`${baseUrl}/auth/authorize`);
+      expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+      expect(url.searchParams.get('aud')).toBe(`${baseUrl}/fhir`);
+      expect(url.searchParams.get('scope')).toBe('openid offline_access user/Patient.read');
+      expect(url.searchParams.get('state')).toBe(launch.state);
+      expect(url.searchParams.get('code_challenge')).toBe(createHash('sha256').update(launch.codeVerifier).digest('base64url'));
+      expect(url.searchParams.has('launch')).toBe(false);
+    });
+
+    it('asks for launch context on an EHR launch and refuses launches from other servers', async () => {
+      const { authorizeUrl } = await service.startLaunch(dataStore, {
+        tenantId: TENANT_ID,
+        userId: 'user-1',
+        redirectUri: REDIRECT_URI,
+        iss: `${baseUrl}/fhir/`,
+        launch: 'xyz',
+      });
+      const url = new URL(authorizeUrl);
+      expect(url.searchParams.get('launch')).toBe('xyz');
+      expect(url.searchParams.get('scope')?.split(' ')[0]).toBe('launch');
+
+      await expect(
+        service.startLaunch(dataStore, { tenantId: TENANT_ID, userId: 'user-1', redirectUri: REDIRECT_URI, iss: 'https://evil.example.com/fhir' })
+      ).rejects.toThrow(EhrConnectionValidationError);
+    });
+
+    it('stores encrypted tokens when the EHR redirects back', async () => {
+      tokenResponse.body.scope = 'openid offline_access';
+      const { launchState } = await service.startLaunch(dataStore, { tenantId: TENANT_ID, userId: 'user-1', redirectUri: REDIRECT_URI });
+      const launch = service.readLaunchState(launchState);
+
+      await service.completeLaunch(dataStore, launch, { code: 'code-1', state: launch.state });
+
+      const [request] = tokenRequests;
+      expect(request?.params.get('grant_type')).toBe('authorization_code');
+      expect(request?.params.get('code_verifier')).toBe(launch.codeVerifier);
+      expect(request?.authorization).toBe(`Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString('base64')}`);
+
+      const authorization = connection!.authorization!;
+      expect(authorization.accessToken).not.toContain('access-1');
+      expect(cipher.decrypt(authorization.accessToken)).toBe('access-1');
+      expect(authorization.grantedScopes).toEqual(['openid', 'offline_access']);
+      expect(authorization.authorizedBy).toBe('user-1');
+      expect(service.summarise(connection!).authorization).toMatchObject({ canRefresh: true, grantedScopes: ['openid', 'offline_access'] });
+    });
+
+    it('rejects a callback whose state does not match the launch', async () => {
+      const { launchState } = await service.startLaunch(dataStore, { tenantId: TENANT_ID, userId: 'user-1', redirectUri: REDIRECT_URI });
+      const launch = service.readLaunchState(launchState);
+
+      await expect(service.completeLaunch(dataStore, launch, { code: 'code-1', state: 'forged' })).rejects.toThrow(
+        EhrConnectionValidationError
+      );
+      expect(() => service.readLaunchState('v1.not.a.state')).toThrow(EhrConnectionValidationError);
+      expect(tokenRequests).toHaveLength(0);
+    });
+  });
+
+  describe('getAccessToken', () => {
+    it('uses the stored token until it is about to expire', async () => {
+      authorize({ expiresAt: new Date(Date.now() + 60 * 60 * 1000) });
+
+      await expect(service.getAccessToken(dataStore)).resolves.toBe('access-0');
+      expect(tokenRequests).toHaveLength(0);
+    });
+
+    it('refreshes a token close to expiry once, keeping a refresh token the server did not rotate', async () => {
+      authorize();
+      tokenResponse.body = { access_token: 'access-2', token_type: 'Bearer', expires_in: 3600 };
+
+      const tokens = await Promise.all([service.getAccessToken(dataStore), service.getAccessToken(dataStore)]);
+
+      expect(tokens).toEqual(['access-2', 'access-2']);
+      expect(tokenRequests).toHaveLength(1);
+      expect(tokenRequests[0]?.params.get('refresh_token')).toBe('refresh-0');
+      expect(cipher.decrypt(connection!.authorization!.refreshToken!)).toBe('refresh-0');
+      expect(connection!.authorization!.authorizedAt).toEqual(new Date('2025-08-01T00:00:00Z'));
+    });
+
+    it('records the refresh failure and asks to reconnect once the token has expired', async () => {
+      authorize({ expiresAt: new Date(Date.now() - 1000) });
+      tokenResponse = { status: 400, body: { error: 'invalid_grant', error_description: 'Refresh token revoked' } };
+
+      await expect(service.getAccessToken(dataStore)).rejects.toThrow(EhrAuthorizationError);
+      expect(recordEhrRefreshError).toHaveBeenCalledWith('Token request was refused: Refresh token revoked');
+      expect(service.summarise(connection!).authorization?.refreshError).toBe('Token request was refused: Refresh token revoked');
+    });
+
+    it('fails an expired token with no refresh token without calling the server', async () => {
+      authorize({ expiresAt: new Date(Date.now() - 1000), refreshToken: undefined });
+
+      await expect(service.getAccessToken(dataStore)).rejects.toThrow(/no refresh token/);
+      expect(tokenRequests).toHaveLength(0);
+    });
+  });
+
+  describe('bridge', () => {
+    beforeEach(() => {
+      connection = null;
+    });
+
+    it('stores the agent token encrypted and keeps it when saved without one', async () => {
+      await service.saveBridgeSettings(dataStore, { url: 'https://bridge.clinic.example:8443/', vendor: 'bestpractice', token: 'agent-token' });
+
+      expect(connection!.bridge?.url).toBe('https://bridge.clinic.example:8443');
+      expect(connection!.bridge?.token).not.toContain('agent-token');
+      expect(cipher.decrypt(connection!.bridge!.token)).toBe('agent-token');
+
+      await service.saveBridgeSettings(dataStore, { url: 'https://bridge.clinic.example:8443', vendor: 'medicaldirector' });
+
+      expect(cipher.decrypt(connection!.bridge!.token)).toBe('agent-token');
+      expect(service.summarise(connection!)).toMatchObject({
+        authorization: null,
+        bridge: { url: 'https://bridge.clinic.example:8443', vendor: 'medicaldirector' },
+      });
+      expect(JSON.stringify(service.summarise(connection!))).not.toContain(connection!.bridge!.token);
+    });
+
+    it('needs a token for a new bridge, and no SMART launch without a FHIR server', async () => {
+      await expect(
+        service.saveBridgeSettings(dataStore, { url: 'https://bridge.clinic.example:8443', vendor: 'bestpractice' })
+      ).rejects.toThrow(EhrConnectionValidationError);
+
+      await service.saveBridgeSettings(dataStore, { url: 'https://bridge.clinic.example:8443', vendor: 'bestpractice', token: 'agent-token' });
+
+      await expect(
+        service.startLaunch(dataStore, { tenantId: TENANT_ID, userId: 'user-1', redirectUri: REDIRECT_URI })
+      ).rejects.toThrow(EhrConnectionNotFoundError);
+      await expect(service.getAccessToken(dataStore)).rejects.toThrow(EhrAuthorizationError);
+    });
+  });
+
+  it('only decrypts secrets with the key that encrypted them', () => {
+    const secret = cipher.encrypt(CLIENT_SECRET);
+
+    expect(secret).not.toContain(CLIENT_SECRET);
+    expect(cipher.decrypt(secret)).toBe(CLIENT_SECRET);
+    expect(() => new SecretCipher(randomBytes(32).toString('base64')).decrypt(secret)).toThrow();
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { DataStore, EhrWriteBackAttempt, EhrWriteBackRecord } from '@/server/datastore/types';
+import type { ClinicalNote, EHRProvider } from '@/types/clinical';
+import { BestPracticeEHRProvider } from '@/services/bridge/bestpractice/BestPracticeEHRProvider';
+import { FixtureBridgeAgent } from '@/services/bridge/fixture/FixtureBridgeAgent';
+import { EHR_WRITE_BACK_BACKOFF_MS, EhrWriteBackService } from '../EhrWriteBackService';
+
+const TOKEN = 'agent-token';
+const CLINICIAN_ID = 'clinician-1';
+
+const signedNote = (): ClinicalNote => ({
+  id: 'note-1',
+  patientId: 'patient-1',
+  clinicianId: 'current-clinician',
+  consultationId: 'consultation-1',
+  title: 'Lower back pain',
+  content: 'Mechanical back pain. Advised to stay active.',
+  noteType: 'soap',
+  status: 'signed',
+  createdAt: new Date('2025-08-04T09:20:00+10:00'),
+  updatedAt: new Date('2025-08-04T09:30:00+10:00'),
+  signedAt: new Date('2025-08-04T09:30:00+10:00'),
+});
+
+describe('EhrWriteBackService', () => {
+  let agent: FixtureBridgeAgent;
+  let provider: EHRProvider | null;
+  let note: ClinicalNote;
+  let writeBacks: Map<string, EhrWriteBackRecord>;
+  let dataStore: DataStore;
+  let service: EhrWriteBackService;
+
+  const queue = (writeBack: Partial<EhrWriteBackRecord>) => {
+    const record: EhrWriteBackRecord = {
+      id: `write-back-${writeBacks.size + 1}`,
+      kind: 'clinical-note',
+      noteId: note.id,
+      requestedBy: CLINICIAN_ID,
+      status: 'pending',
+      overwrite: false,
+      attempts: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...writeBack,
+    };
+    writeBacks.set(record.id, record);
+    return record.id;
+  };
+
+  beforeEach(async () => {
+    agent = new FixtureBridgeAgent({ vendor: 'bestpractice', token: TOKEN });
+    const url = await agent.start();
+    provider = new BestPracticeEHRProvider({ url, token: TOKEN, practitionerIds: { [CLINICIAN_ID]: '3' } }, CLINICIAN_ID);
+    note = signedNote();
+    writeBacks = new Map();
+
+    // Keeps the clinic's note and write-backs in memory the way the store would
+    dataStore = {
+      getEhrWriteBack: vi.fn(async (id: string) => writeBacks.get(id)!),
+      claimEhrWriteBack: vi.fn(async (id: string, staleBefore: Date) => {
+        const current = writeBacks.get(id)!;
+        const stale = current.status === 'delivering' && current.updatedAt < staleBefore;
+        if (current.status !== 'pending' && !stale) {
+          return null;
+        }
+        const claimed: EhrWriteBackRecord = { ...current, status: 'delivering', updatedAt: new Date() };
+        writeBacks.set(id, claimed);
+        return claimed;
+      }),
+      recordEhrWriteBackAttempt: vi.fn(async (id: string, attempt: EhrWriteBackAttempt) => {
+        const current = writeBacks.get(id)!;
+        const updated: EhrWriteBackRecord = {
+          ...current,
+          status: attempt.status,
+          attempts: current.attempts + 1,
+          lastError: attempt.error,
+          nextAttemptAt: attempt.nextAttemptAt,
+          deliveredAt: attempt.status === 'delivered' ? new Date() : undefined,
+        };
+        writeBacks.set(id, updated);
+        return updated;
+      }),
+      getClinicalNote: vi.fn(async () => note),
+      getPatientSummary: vi.fn(async () => ({ id: 'patient-1', ehrPatientId: '1187' })),
+      recordEhrNote: vi.fn(async (_noteId: string, ehrNote: { ehrNoteId: string; ehrUpdatedAt: Date }) => {
+        note = { ...note, ...ehrNote };
+      }),
+    } as unknown as DataStore;
+
+    service = new EhrWriteBackService(dataStore, async () => provider);
+  });
+
+  afterEach(async () => {
+    await agent.stop();
+  });
+
+  it('writes a signed note to the EHR, then updates that note after an amendment', async () => {
+    const result = await service.deliver(queue({}));
+
+    expect(result).toMatchObject({ success: true, writeBack: { status: 'delivered', attempts: 1 } });
+    expect(note.ehrNoteId).toBeDefined();
+    expect(agent.get('notes', note.ehrNoteId!)).toMatchObject({
+      InternalID: '1187',
+      UserID: '3',
+      Reason: 'Lower back pain',
+      Status: 'Final',
+    });
+
+    note = { ...note, status: 'signed', content: 'Mechanical back pain. Review in 2 weeks.' };
+    await expect(service.deliver(queue({}))).resolves.toMatchObject({ success: true });
+
+    expect(agent.get('notes', note.ehrNoteId!)?.Notes).toBe('Mechanical back pain. Review in 2 weeks.');
+    expect(agent.requests.filter(request => request.method === 'notes.create')).toHaveLength(1);
+  });
+
+  it('leaves a note edited in the EHR since it was written for the clinician, and writes over it when retried', async () => {
+    await service.deliver(queue({}));
+    agent.update('notes', note.ehrNoteId!, { Notes: 'Edited at the front desk', Updated: new Date(Date.now() + 60000).toISOString() });
+
+    note = { ...note, content: 'Amended: review in 2 weeks.' };
+    const writeBackId = queue({});
+    const result = await service.deliver(writeBackId);
+
+    expect(result).toMatchObject({ success: false, retry: false, writeBack: { status: 'conflict' } });
+    expect(agent.get('notes', note.ehrNoteId!)?.Notes).toBe('Edited at the front desk');
+
+    writeBacks.set(writeBackId, { ...writeBacks.get(writeBackId)!, status: 'pending', overwrite: true, attempts: 0 });
+    await expect(service.deliver(writeBackId)).resolves.toMatchObject({ success: true });
+    expect(agent.get('notes', note.ehrNoteId!)?.Notes).toBe('Amended: review in 2 weeks.');
+  });
+
+  it("sets the appointment's status unless it was rescheduled in the EHR", async () => {
+    const appointment = {
+      kind: 'appointment-status' as const,
+      noteId: undefined,
+      consultationId: 'consultation-1',
+      ehrAppointmentId: '58002',
+      appointmentStart: new Date('2025-08-04T09:15:00+10:00'),
+    };
+
+    await expect(service.deliver(queue({ ...appointment, appointmentStatus: 'waiting' }))).resolves.toMatchObject({ success: true });
+    expect(agent.get('appointments', '58002')?.Status).toBe(2);
+
+    agent.update('appointments', '58002', { AppointmentDate: '2025-08-05T11:00:00+10:00' });
+    const result = await service.deliver(queue({ ...appointment, appointmentStatus: 'completed' }));
+
+    expect(result).toMatchObject({ success: false, retry: false, writeBack: { status: 'conflict' } });
+    expect(result.errorMessage).toMatch(/^The appointment was moved to 5 Aug 2025/);
+    expect(agent.get('appointments', '58002')?.Status).toBe(2);
+  });
+
+  it('backs off while the EHR is unavailable and gives up on the final attempt', async () => {
+    await agent.stop();
+    agent = new FixtureBridgeAgent({ vendor: 'bestpractice', token: TOKEN, unavailable: true });
+    provider = new BestPracticeEHRProvider({ url: await agent.start(), token: TOKEN }, CLINICIAN_ID);
+
+    const writeBackId = queue({});
+    const first = await service.deliver(writeBackId);
+    expect(first).toMatchObject({ success: false, retry: true, writeBack: { status: 'pending', attempts: 1 } });
+    expect(first.writeBack?.nextAttemptAt?.getTime()).toBeGreaterThanOrEqual(Date.now() + EHR_WRITE_BACK_BACKOFF_MS - 1000);
+
+    const second = await service.deliver(writeBackId);
+    expect(second.writeBack?.nextAttemptAt?.getTime()).toBeGreaterThanOrEqual(Date.now() + 2 * EHR_WRITE_BACK_BACKOFF_MS - 1000);
+
+    const last = await service.deliver(writeBackId, { markFailed: true });
+    expect(last).toMatchObject({ success: false, retry: false, writeBack: { status: 'failed', attempts: 3 } });
+    expect(last.errorMessage).toContain('database is not responding');
+
+    await expect(service.deliver(writeBackId)).resolves.toMatchObject({ skipped: true });
+  });
+
+  it('writes a note once when the same write-back is delivered twice at the same time', async () => {
+    const writeBackId = queue({});
+
+    const results = await Promise.all([service.deliver(writeBackId), service.deliver(writeBackId)]);
+
+    expect(results.filter(result => result.skipped)).toHaveLength(1);
+    expect(writeBacks.get(writeBackId)).toMatchObject({ status: 'delivered', attempts: 1 });
+    expect(agent.requests.filter(request => request.method === 'notes.create')).toHaveLength(1);
+  });
+
+  it('takes over a delivery whose worker stopped before recording the outcome', async () => {
+    const writeBackId = queue({ status: 'delivering', updatedAt: new Date(Date.now() - 60 * 60 * 1000) });
+
+    await expect(service.deliver(writeBackId)).resolves.toMatchObject({ success: true, writeBack: { status: 'delivered' } });
+    await expect(service.deliver(queue({ status: 'delivering' }))).resolves.toMatchObject({ skipped: true });
+  });
+
+  it('fails without retrying when the clinic has no EHR set up', async () => {
+    provider = null;
+
+    await expect(service.deliver(queue({}))).resolves.toMatchObject({
+      success: false,
+      writeBack: { status: 'failed', lastError: 'This clinic has no EHR connection set up' },
+    });
+  });
+});
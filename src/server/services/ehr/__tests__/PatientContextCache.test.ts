@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { CachedPatientContext, DataStore } from '@/server/datastore/types';
+import type { EHRProvider } from '@/types/clinical';
+import { BestPracticeEHRProvider } from '@/services/bridge/bestpractice/BestPracticeEHRProvider';
+import { FIXTURE_DAY, FixtureBridgeAgent } from '@/services/bridge/fixture/FixtureBridgeAgent';
+import { PatientContextCache, type PatientContextSource } from '../PatientContextCache';
+
+const TOKEN = 'agent-token';
+const CLINICIAN_ID = 'clinician-1';
+const HOUR = 60 * 60 * 1000;
+
+describe('PatientContextCache', () => {
+  let agent: FixtureBridgeAgent;
+  let provider: EHRProvider | null;
+  let cached: Map<string, CachedPatientContext>;
+  let source: PatientContextSource;
+  let cache: PatientContextCache;
+
+  const contextReads = () => agent.requests.filter(request => request.method === 'patients.context').length;
+
+  async function startAgent(options: { unavailable?: boolean } = {}) {
+    agent = new FixtureBridgeAgent({ vendor: 'bestpractice', token: TOKEN, ...options });
+    const url = await agent.start();
+    provider = new BestPracticeEHRProvider({ url, token: TOKEN, practitionerIds: { [CLINICIAN_ID]: '3' } }, CLINICIAN_ID);
+  }
+
+  // Move when a cached part was read back by the given time
+  function age(ehrPatientId: string, section: keyof CachedPatientContext, ms: number) {
+    const part = cached.get(ehrPatientId)![section]!;
+    part.fetchedAt = new Date(part.fetchedAt.getTime() - ms);
+  }
+
+  beforeEach(async () => {
+    await startAgent();
+    cached = new Map();
+
+    const dataStore = {
+      getCachedPatientContext: vi.fn(async (ehrPatientId: string) => ({ ...cached.get(ehrPatientId) })),
+      cachePatientContext: vi.fn(async (ehrPatientId: string, context: CachedPatientContext) => {
+        cached.set(ehrPatientId, { ...cached.get(ehrPatientId), ...context });
+      }),
+    } as unknown as DataStore;
+    source = { tenantId: 'tenant-1', dataStore, getProvider: async () => provider };
+
+    cache = new PatientContextCache({
+      summary: 24 * HOUR,
+      medications: HOUR,
+      allergies: 4 * HOUR,
+      alerts: HOUR / 2,
+      recentNotes: HOUR / 4,
+    });
+  });
+
+  afterEach(async () => {
+    await agent.stop();
+  });
+
+  it('reads a patient from the EHR the first time, then serves them from the cache', async () => {
+    const first = await cache.getPatientContext(source, '1042');
+
+    expect(first?.summary).toMatchObject({ ehrPatientId: '1042', isStale: false });
+    expect(first?.medications?.map(medication => medication.name)).toEqual(['Noten', 'Lipitor', 'Amoxil']);
+    expect(cached.get('1042')?.allergies?.data[0]).toMatchObject({ allergen: 'Penicillin' });
+
+    const second = await cache.getPatientContext(source, '1042');
+    expect(second).toMatchObject({ summary: { isStale: false }, medicationsLoading: false });
+    expect(second?.alerts).toEqual(first?.alerts);
+    expect(contextReads()).toBe(1);
+  });
+
+  it('serves stale parts straight away while reading them again in the background', async () => {
+    await cache.getPatientContext(source, '1042');
+    cached.get('1042')!.medications!.data = [];
+    age('1042', 'medications', 2 * HOUR);
+    age('1042', 'allergies', 2 * HOUR);
+
+    const stale = await cache.getPatientContext(source, '1042');
+    expect(stale?.summary.isStale).toBe(true);
+    expect(stale?.summary.lastSyncedAt.getTime()).toBeLessThan(Date.now() - HOUR);
+    expect(stale?.medications).toEqual([]);
+
+    // Joins the refresh already under way
+    const refreshed = await cache.refresh(source, '1042');
+    expect(contextReads()).toBe(2);
+    expect(refreshed?.summary.isStale).toBe(false);
+    expect(refreshed?.medications).toHaveLength(3);
+    expect(cached.get('1042')?.medications?.fetchedAt.getTime()).toBeGreaterThan(Date.now() - 1000);
+  });
+
+  it('keeps serving the last known context while the EHR is down, without asking it on every view', async () => {
+    await cache.getPatientContext(source, '1042');
+    age('1042', 'alerts', HOUR);
+
+    await agent.stop();
+    await startAgent({ unavailable: true });
+
+    const first = await cache.getPatientContext(source, '1042');
+    await expect(cache.refresh(source, '1042')).rejects.toMatchObject({ code: 'unavailable' });
+    const second = await cache.getPatientContext(source, '1042');
+
+    expect(first?.alerts?.[0]).toMatchObject({ title: 'Type 2 diabetes' });
+    expect(second?.summary.isStale).toBe(true);
+    // Only the failed read reached the agent since it went down
+    expect(contextReads()).toBe(1);
+  });
+
+  it("pre-warms the context of the day's patients that isn't fresh", async () => {
+    const date = new Date(`${FIXTURE_DAY}T12:00:00`);
+    await cache.getPatientContext(source, '1042');
+
+    await expect(cache.prewarm(source, [CLINICIAN_ID], date)).resolves.toEqual({ patients: 3, refreshed: 2, failed: 0 });
+    expect([...cached.keys()].sort()).toEqual(['1042', '1187', '1203']);
+
+    age('1187', 'recentNotes', HOUR);
+    await expect(cache.prewarm(source, [CLINICIAN_ID], date)).resolves.toEqual({ patients: 3, refreshed: 1, failed: 0 });
+  });
+
+  it('has nothing to serve for a patient never read when the clinic has no EHR set up', async () => {
+    provider = null;
+
+    await expect(cache.getPatientContext(source, '1042')).resolves.toBeNull();
+    await expect(cache.prewarm(source, [CLINICIAN_ID])).resolves.toEqual({ patients: 0, refreshed: 0, failed: 0 });
+  });
+});
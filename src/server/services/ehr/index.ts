@@ -0,0 +1,130 @@
+import { serverEnv } from "@/env";
+import type { DataStore, EhrWriteBackInput, EhrWriteBackRecord, TenantConfig } from "@/server/datastore";
+import type { AppointmentStatus, ClinicalNote } from "@/types/clinical";
+import { EhrConnectionService } from "./EhrConnectionService";
+import { EhrWriteBackQueueService } from "./EhrWriteBackQueueService";
+import { PatientContextCache } from "./PatientContextCache";
+import { SecretCipher } from "./SecretCipher";
+
+let ehrConnectionService: EhrConnectionService | null = null;
+let patientContextCache: PatientContextCache | null = null;
+
+/**
+ * The EHR connection service, encrypting with EHR_SECRETS_KEY. It is shared so
+ * token refreshes for a clinic aren't run twice at once.
+ */
+export function getEhrConnectionService(): EhrConnectionService {
+  ehrConnectionService ??= new EhrConnectionService(
+    serverEnv.EHR_SECRETS_KEY ? new SecretCipher(serverEnv.EHR_SECRETS_KEY) : null
+  );
+  return ehrConnectionService;
+}
+
+/**
+ * The patient context cache, with the TTLs in the PATIENT_CONTEXT_*_TTL_MINUTES
+ * settings. It is shared so a patient's context isn't read twice at once.
+ */
+export function getPatientContextCache(): PatientContextCache {
+  const minutes = (value: number) => value * 60 * 1000;
+  patientContextCache ??= new PatientContextCache({
+    summary: minutes(serverEnv.PATIENT_CONTEXT_SUMMARY_TTL_MINUTES),
+    medications: minutes(serverEnv.PATIENT_CONTEXT_MEDICATIONS_TTL_MINUTES),
+    allergies: minutes(serverEnv.PATIENT_CONTEXT_ALLERGIES_TTL_MINUTES),
+    alerts: minutes(serverEnv.PATIENT_CONTEXT_ALERTS_TTL_MINUTES),
+    recentNotes: minutes(serverEnv.PATIENT_CONTEXT_NOTES_TTL_MINUTES),
+  });
+  return patientContextCache;
+}
+
+type WriteBackTenant = Pick<TenantConfig, "id" | "operatingMode">;
+
+/**
+ * Queue delivery of a pending write-back. One that can't be queued is marked
+ * failed, so it's offered to the clinician to retry.
+ * @returns false if it couldn't be queued
+ */
+export const queueEhrWriteBackDelivery = async (
+  dataStore: DataStore,
+  tenantId: string,
+  writeBack: EhrWriteBackRecord,
+): Promise<boolean> => {
+  try {
+    await new EhrWriteBackQueueService().queueWriteBack({ tenantId, writeBackId: writeBack.id });
+    return true;
+  } catch (error) {
+    console.error(`❌ Failed to queue EHR write-back ${writeBack.id}:`, error);
+    await dataStore.recordEhrWriteBackAttempt(writeBack.id, { status: "failed", error: "The write-back could not be queued" });
+    return false;
+  }
+};
+
+/**
+ * Write a change back to an EHR-integrated clinic's EHR, if getInput finds one
+ * to write. Failures are logged rather than thrown so they never undo the
+ * change that triggered them.
+ */
+const queueWriteBack = async (
+  dataStore: DataStore,
+  tenant: WriteBackTenant,
+  target: string,
+  getInput: () => Promise<EhrWriteBackInput | null>,
+): Promise<void> => {
+  if (tenant.operatingMode !== "ehr-integrated") {
+    return;
+  }
+
+  try {
+    const input = await getInput();
+    if (input) {
+      await queueEhrWriteBackDelivery(dataStore, tenant.id, await dataStore.queueEhrWriteBack(input));
+    }
+  } catch (error) {
+    console.error(`❌ Failed to queue EHR write-back of ${target}:`, error);
+  }
+};
+
+/**
+ * Queue a note that has just been signed to be written to the clinic's EHR
+ */
+export const queueNoteWriteBack = (
+  dataStore: DataStore,
+  tenant: WriteBackTenant,
+  note: Pick<ClinicalNote, "id" | "status">,
+  requestedBy?: string,
+): Promise<void> =>
+  queueWriteBack(dataStore, tenant, `note ${note.id}`, async () =>
+    note.status === "signed" ? { kind: "clinical-note", noteId: note.id, requestedBy } : null
+  );
+
+/**
+ * Queue an appointment's new status to be written to the clinic's EHR, for
+ * consultations started from an EHR appointment
+ */
+export const queueAppointmentStatusWriteBack = (
+  dataStore: DataStore,
+  tenant: WriteBackTenant,
+  appointmentId: string,
+  status: AppointmentStatus,
+  requestedBy?: string,
+): Promise<void> =>
+  queueWriteBack(dataStore, tenant, `appointment ${appointmentId}`, async () => {
+    const appointment = await dataStore.getAppointment(appointmentId);
+    if (!appointment.ehrAppointmentId) {
+      return null;
+    }
+    return {
+      kind: "appointment-status",
+      consultationId: appointment.id,
+      ehrAppointmentId: appointment.ehrAppointmentId,
+      appointmentStart: appointment.scheduledTime,
+      appointmentStatus: status,
+      requestedBy,
+    };
+  });
+
+export * from "./SecretCipher";
+export * from "./SmartAuthClient";
+export * from "./EhrConnectionService";
+export * from "./EhrWriteBackService";
+export * from "./EhrWriteBackQueueService";
+export * from "./PatientContextCache";
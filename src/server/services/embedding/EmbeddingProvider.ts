@@ -0,0 +1,16 @@
+/**
+ * Text embedding provider abstraction
+ *
+ * MBS items and search queries are embedded through this interface, so the
+ * model can be swapped (hosted API or the deterministic fake) via configuration.
+ * Every stored vector records the model and dimensions that produced it, and
+ * vectors are only ever compared with ones from the same model.
+ */
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+  // One vector per text, in the same order
+  embed(texts: string[]): Promise<number[][]>;
+}
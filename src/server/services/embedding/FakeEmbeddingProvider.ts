@@ -0,0 +1,42 @@
+import { createHash } from "crypto";
+import type { EmbeddingProvider } from "./EmbeddingProvider";
+
+export const FAKE_EMBEDDING_MODEL = "fake-embedding";
+
+interface FakeEmbeddingProviderOptions {
+  dimensions?: number;
+}
+
+/**
+ * Deterministic stand-in for an embedding model.
+ *
+ * Hashes each word of the text into a fixed bucket, so the same text always
+ * produces the same unit vector and texts sharing words point the same way.
+ * Used by tests and for offline development without API keys.
+ */
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "fake";
+  readonly model = FAKE_EMBEDDING_MODEL;
+  readonly dimensions: number;
+
+  constructor(options: FakeEmbeddingProviderOptions = {}) {
+    this.dimensions = options.dimensions ?? 3072;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+    for (const word of words) {
+      const bucket = createHash("sha256").update(word).digest().readUInt32BE(0) % this.dimensions;
+      vector[bucket] = (vector[bucket] ?? 0) + 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
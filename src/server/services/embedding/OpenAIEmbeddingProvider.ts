@@ -0,0 +1,56 @@
+import OpenAI from "openai";
+import type { EmbeddingProvider } from "./EmbeddingProvider";
+
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = "text-embedding-3-large";
+
+// Native output size of each model; text-embedding-3 models can also be asked for fewer
+const OPENAI_EMBEDDING_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-large": 3072,
+  "text-embedding-3-small": 1536,
+  "text-embedding-ada-002": 1536,
+};
+
+interface OpenAIEmbeddingProviderOptions {
+  model?: string;
+  dimensions?: number; // Shortened output, text-embedding-3 models only
+}
+
+/**
+ * Embeds text with the OpenAI embeddings API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly model: string;
+  readonly dimensions: number;
+  private shortened: boolean;
+  private openai: OpenAI;
+
+  constructor(openaiApiKey: string, options: OpenAIEmbeddingProviderOptions = {}) {
+    this.model = options.model ?? DEFAULT_OPENAI_EMBEDDING_MODEL;
+
+    const nativeDimensions = OPENAI_EMBEDDING_DIMENSIONS[this.model];
+    if (!nativeDimensions && !options.dimensions) {
+      throw new Error(`Embedding dimensions must be given for unknown OpenAI model ${this.model}`);
+    }
+    this.dimensions = options.dimensions ?? nativeDimensions!;
+    this.shortened = this.dimensions !== nativeDimensions;
+    this.openai = new OpenAI({ apiKey: openaiApiKey });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input: texts,
+      encoding_format: "float",
+      ...(this.shortened ? { dimensions: this.dimensions } : {}),
+    });
+
+    return texts.map((_, index) => {
+      const embedding = response.data[index]?.embedding;
+      if (!embedding) {
+        throw new Error(`Embedding request returned no embedding for input ${index}`);
+      }
+      return embedding;
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { serverEnv } from "@/env";
+import { FAKE_EMBEDDING_MODEL, FakeEmbeddingProvider } from "./FakeEmbeddingProvider";
+import { OpenAIEmbeddingProvider } from "./OpenAIEmbeddingProvider";
+import type { EmbeddingProvider } from "./EmbeddingProvider";
+
+/**
+ * Create the embedding provider selected by MBS_EMBEDDING_PROVIDER, or null
+ * when embeddings are turned off and MBS items are searched on text alone
+ */
+export const createEmbeddingProvider = (): EmbeddingProvider | null => {
+  if (serverEnv.MBS_EMBEDDING_PROVIDER === "openai") {
+    const openaiApiKey = process.env.OPENAI_API_KEY;
+    if (!openaiApiKey) {
+      throw new Error("OPENAI_API_KEY environment variable is required for OpenAI embeddings");
+    }
+    return new OpenAIEmbeddingProvider(openaiApiKey, {
+      model: serverEnv.MBS_EMBEDDING_MODEL,
+      dimensions: serverEnv.MBS_EMBEDDING_DIMENSIONS,
+    });
+  }
+
+  if (serverEnv.MBS_EMBEDDING_PROVIDER === "fake") {
+    return new FakeEmbeddingProvider({ dimensions: serverEnv.MBS_EMBEDDING_DIMENSIONS });
+  }
+
+  return null;
+};
+
+/**
+ * Create a provider for a model that vectors were stored with, so queries can
+ * still be compared against them while they are being re-embedded. Returns
+ * null when that model can no longer be reached.
+ */
+export const createEmbeddingProviderForModel = (model: string, dimensions: number): EmbeddingProvider | null => {
+  if (model === FAKE_EMBEDDING_MODEL) {
+    return new FakeEmbeddingProvider({ dimensions });
+  }
+
+  const openaiApiKey = process.env.OPENAI_API_KEY;
+  if (!openaiApiKey) {
+    return null;
+  }
+
+  try {
+    return new OpenAIEmbeddingProvider(openaiApiKey, { model, dimensions });
+  } catch {
+    return null;
+  }
+};
+
+export * from "./EmbeddingProvider";
+export * from "./FakeEmbeddingProvider";
+export * from "./OpenAIEmbeddingProvider";
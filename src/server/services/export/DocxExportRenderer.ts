@@ -0,0 +1,200 @@
+import type { ExportDocument, ExportRenderer } from "./ExportDocument";
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+</Types>`;
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>
+</Relationships>`;
+
+const WORD_NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+interface RunStyle {
+  bold?: boolean;
+  size?: number; // half-points
+  color?: string; // hex RGB
+}
+
+interface ParagraphLayout {
+  before?: number; // twentieths of a point
+  keepNext?: boolean;
+  indent?: boolean;
+}
+
+/**
+ * Word export for clinics that edit letters before sending them on.
+ *
+ * The package is the minimum Word needs - the document, a footer and their
+ * relationships - with formatting applied directly rather than through styles.
+ */
+export class DocxExportRenderer implements ExportRenderer {
+  readonly format = "docx" as const;
+  readonly extension = "docx";
+  readonly mimeType = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+  render(document: ExportDocument): Buffer {
+    const body: string[] = [
+      paragraph(document.clinicName, { bold: true, size: 32 }),
+      ...document.letterhead.map((line) => paragraph(line, { size: 18, color: "595959" })),
+      // Bottom border under the letterhead
+      `<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="999999"/></w:pBdr></w:pPr></w:p>`,
+      paragraph(document.title, { bold: true, size: 28 }, { before: 240 }),
+      ...document.patientDetails.map((line) => paragraph(line, { size: 20 })),
+    ];
+
+    for (const note of document.notes) {
+      body.push(paragraph(note.title, { bold: true, size: 24 }, { before: 360 }));
+      body.push(paragraph(note.details, { size: 18, color: "595959" }));
+
+      for (const block of note.blocks) {
+        if (block.kind === "heading") {
+          body.push(paragraph(block.text, { bold: true, size: 22 }, { before: 200, keepNext: true }));
+        } else if (block.kind === "bullet") {
+          body.push(paragraph(`•\t${block.text}`, { size: 20 }, { indent: true }));
+        } else {
+          body.push(paragraph(block.text, { size: 20 }));
+        }
+      }
+    }
+
+    const documentXml =
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:document ${WORD_NAMESPACES}><w:body>${body.join("")}` +
+      `<w:sectPr><w:footerReference w:type="default" r:id="rId1"/><w:pgSz w:w="11906" w:h="16838"/>` +
+      `<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/>` +
+      `</w:sectPr></w:body></w:document>`;
+    const footerXml =
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:ftr ${WORD_NAMESPACES}>` +
+      `${paragraph(document.footer, { size: 16, color: "737373" })}</w:ftr>`;
+
+    return createZip([
+      { name: "[Content_Types].xml", data: CONTENT_TYPES },
+      { name: "_rels/.rels", data: PACKAGE_RELATIONSHIPS },
+      { name: "word/_rels/document.xml.rels", data: DOCUMENT_RELATIONSHIPS },
+      { name: "word/document.xml", data: documentXml },
+      { name: "word/footer1.xml", data: footerXml },
+    ]);
+  }
+}
+
+function paragraph(
+  text: string,
+  style: RunStyle,
+  layout: ParagraphLayout = {},
+): string {
+  const paragraphProperties = [
+    layout.keepNext && "<w:keepNext/>",
+    `<w:spacing w:before="${layout.before ?? 0}" w:after="60"/>`,
+    layout.indent && '<w:ind w:left="357" w:hanging="357"/>',
+  ]
+    .filter(Boolean)
+    .join("");
+  const runProperties = [
+    style.bold && "<w:b/>",
+    style.color && `<w:color w:val="${style.color}"/>`,
+    style.size && `<w:sz w:val="${style.size}"/>`,
+  ]
+    .filter(Boolean)
+    .join("");
+
+  const runs = text
+    .split("\t")
+    .map((part) => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`)
+    .join("<w:tab/>");
+  return `<w:p><w:pPr>${paragraphProperties}</w:pPr><w:r><w:rPr>${runProperties}</w:rPr>${runs}</w:r></w:p>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ============================================================================
+// ZIP CONTAINER
+// ============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Write an uncompressed (stored) zip - the documents are small, and it keeps
+ * the writer free of a compression dependency
+ */
+function createZip(entries: Array<{ name: string; data: string }>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf-8");
+    const data = Buffer.from(entry.data, "utf-8");
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0); // Local file header signature
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    local.writeUInt16LE(0, 8); // Stored
+    local.writeUInt16LE(0, 10); // Modification time
+    local.writeUInt16LE(0x21, 12); // Modification date (1980-01-01)
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0); // Central directory header signature
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(0, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42); // Offset of the local header
+
+    localParts.push(local, name, data);
+    centralParts.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
@@ -0,0 +1,112 @@
+import { format } from "date-fns";
+import type { ClinicLetterhead, ConsultationRecord, ExportFormat } from "@/server/datastore";
+import { NOTE_STATUS_LABELS } from "@/lib/note-status";
+import type { ClinicalNote, PatientSummary } from "@/types/clinical";
+
+const BULLET_PATTERN = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+export type ExportBlock =
+  | { kind: "heading"; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "bullet"; text: string };
+
+export interface ExportNote {
+  title: string;
+  details: string; // Status, version and signing date
+  blocks: ExportBlock[];
+}
+
+/**
+ * Format-independent layout of an export - each renderer turns this into a file
+ */
+export interface ExportDocument {
+  clinicName: string;
+  letterhead: string[]; // Address and contact lines under the clinic name
+  title: string;
+  patientDetails: string[];
+  notes: ExportNote[];
+  footer: string;
+}
+
+export interface ExportRenderer {
+  format: ExportFormat;
+  extension: string;
+  mimeType: string;
+  render(document: ExportDocument): Buffer;
+}
+
+export interface ExportDocumentInput {
+  clinicName: string;
+  letterhead?: ClinicLetterhead;
+  consultation: ConsultationRecord;
+  patient: PatientSummary;
+  notes: ClinicalNote[];
+  generatedAt?: Date;
+}
+
+/**
+ * Lay out a consultation's notes under the clinic's letterhead, oldest note first
+ */
+export function buildExportDocument(input: ExportDocumentInput): ExportDocument {
+  const { consultation, patient, letterhead } = input;
+  const generatedAt = input.generatedAt ?? new Date();
+
+  const contact = [letterhead?.phone && `Phone ${letterhead.phone}`, letterhead?.email, letterhead?.website]
+    .filter((part): part is string => Boolean(part))
+    .join("  |  ");
+
+  return {
+    clinicName: input.clinicName,
+    letterhead: [...(letterhead?.addressLines ?? []), ...(contact ? [contact] : [])],
+    title: "Consultation Notes",
+    patientDetails: [
+      `Patient: ${patient.firstName} ${patient.lastName}`,
+      patient.dateOfBirth
+        ? `Date of birth: ${format(patient.dateOfBirth, "d MMM yyyy")} (${patient.age} years)`
+        : `Age: ${patient.age} years`,
+      `Consultation: ${format(consultation.recordingStartTime ?? consultation.createdAt, "d MMM yyyy, h:mm a")}`,
+    ],
+    notes: [...input.notes]
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map((note) => ({
+        title: note.title,
+        details: [
+          NOTE_STATUS_LABELS[note.status],
+          note.version !== undefined && `Version ${note.version}`,
+          note.signedAt && `Signed ${format(note.signedAt, "d MMM yyyy, h:mm a")}`,
+        ]
+          .filter(Boolean)
+          .join(" · "),
+        blocks: parseNoteBlocks(note.content),
+      })),
+    footer: `Generated by ${input.clinicName} on ${format(generatedAt, "d MMM yyyy, h:mm a")}. Confidential patient information.`,
+  };
+}
+
+/**
+ * Split note content into headings, bullets and paragraphs
+ */
+export function parseNoteBlocks(content: string): ExportBlock[] {
+  return content
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim() !== "")
+    .map((line): ExportBlock => {
+      if (line.startsWith("## ")) return { kind: "heading", text: line.slice(3).trim() };
+      if (BULLET_PATTERN.test(line)) return { kind: "bullet", text: line.replace(BULLET_PATTERN, "").trim() };
+      return { kind: "paragraph", text: line.trim() };
+    });
+}
+
+/**
+ * Download name for an export, e.g. consultation-notes-smith-2025-08-05.pdf
+ */
+export function getExportFileName(
+  patient: Pick<PatientSummary, "lastName">,
+  consultation: Pick<ConsultationRecord, "createdAt" | "recordingStartTime">,
+  exportFormat: ExportFormat,
+): string {
+  const surname = patient.lastName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  const date = format(consultation.recordingStartTime ?? consultation.createdAt, "yyyy-MM-dd");
+  return `consultation-notes-${surname || "patient"}-${date}.${exportFormat}`;
+}
@@ -0,0 +1,37 @@
+import { Queue } from "bullmq";
+import { bullConnection } from "@/server/instrumentation/bull/connection";
+import { QUEUE_TYPES, type ExportGenerateJobData } from "@/server/instrumentation/bull/types";
+import { serverEnv } from "@/env";
+
+export class ExportQueueService {
+  private queue: Queue;
+
+  constructor() {
+    this.queue = new Queue(serverEnv.MBS_QUEUE_NAME, {
+      connection: bullConnection,
+    });
+  }
+
+  /**
+   * Queue rendering of a requested export
+   */
+  async queueExport(data: ExportGenerateJobData, priority = 0): Promise<string> {
+    const job = await this.queue.add(
+      QUEUE_TYPES.EXPORT_GENERATE,
+      data,
+      {
+        priority,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        removeOnComplete: 50,
+        removeOnFail: 100,
+      }
+    );
+
+    console.log(`📄 Queued export job: ${job.id} for export ${data.exportId}`);
+    return job.id!;
+  }
+}
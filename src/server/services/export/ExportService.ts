@@ -0,0 +1,109 @@
+import type { DataStore, ExportFormat, ExportRecord, TenantConfig } from "@/server/datastore";
+import { buildExportDocument, type ExportRenderer } from "./ExportDocument";
+import { DocxExportRenderer } from "./DocxExportRenderer";
+import type { ExportStorageService } from "./ExportStorageService";
+import { PdfExportRenderer } from "./PdfExportRenderer";
+import { TxtExportRenderer } from "./TxtExportRenderer";
+
+export const EXPORT_RENDERERS: Record<ExportFormat, ExportRenderer> = {
+  pdf: new PdfExportRenderer(),
+  docx: new DocxExportRenderer(),
+  txt: new TxtExportRenderer(),
+};
+
+export interface ExportResult {
+  success: boolean;
+  exportId: string;
+  skipped?: boolean;
+  processingTimeMs: number;
+  export?: ExportRecord;
+  errorMessage?: string;
+}
+
+export interface GenerateExportOptions {
+  // Mark the export failed; false while BullMQ still has retries left
+  markFailed?: boolean;
+}
+
+export class ExportService {
+  private dataStore: DataStore;
+  private tenantConfig: TenantConfig;
+  private storage: ExportStorageService;
+  private renderers: Record<ExportFormat, ExportRenderer>;
+
+  constructor(
+    dataStore: DataStore,
+    tenantConfig: TenantConfig,
+    storage: ExportStorageService,
+    renderers: Record<ExportFormat, ExportRenderer> = EXPORT_RENDERERS,
+  ) {
+    this.dataStore = dataStore;
+    this.tenantConfig = tenantConfig;
+    this.storage = storage;
+    this.renderers = renderers;
+  }
+
+  /**
+   * Render a requested export's notes under the clinic letterhead and store the file
+   */
+  async generateExport(exportId: string, options: GenerateExportOptions = {}): Promise<ExportResult> {
+    const startTime = Date.now();
+
+    try {
+      const record = await this.dataStore.getExport(exportId);
+
+      // A retried job may find the file already written
+      if (record.status === "completed" && record.filePath) {
+        console.log(`📄 Export ${exportId} is already complete, skipping`);
+        return { success: true, exportId, skipped: true, processingTimeMs: Date.now() - startTime, export: record };
+      }
+
+      await this.dataStore.updateExport(exportId, { status: "processing", error: null });
+
+      const consultation = await this.dataStore.getConsultation(record.consultationId);
+      const [patient, notes] = await Promise.all([
+        this.dataStore.getPatientSummary(consultation.patientId),
+        this.dataStore.getConsultationNotes(record.consultationId),
+      ]);
+      if (notes.length === 0) {
+        throw new Error("Consultation has no notes to export");
+      }
+
+      console.log(`📄 Rendering ${record.format.toUpperCase()} export ${exportId} for consultation ${record.consultationId}`);
+
+      const renderer = this.renderers[record.format];
+      const document = buildExportDocument({
+        clinicName: this.tenantConfig.name,
+        letterhead: this.tenantConfig.letterhead,
+        consultation,
+        patient,
+        notes,
+      });
+      const file = await this.storage.write(this.tenantConfig.id, exportId, renderer.extension, renderer.render(document));
+
+      const completed = await this.dataStore.updateExport(exportId, {
+        status: "completed",
+        filePath: file.filePath,
+        fileSize: file.fileSize,
+        error: null,
+      });
+
+      return { success: true, exportId, processingTimeMs: Date.now() - startTime, export: completed };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown export error";
+      console.error(`❌ Export ${exportId} failed:`, error);
+
+      try {
+        // Until the final attempt the export goes back to pending so the UI shows it being retried
+        await this.dataStore.updateExport(exportId, {
+          status: options.markFailed ? "failed" : "pending",
+          error: errorMessage,
+        });
+      } catch (updateError) {
+        console.error(`❌ Failed to record error for export ${exportId}:`, updateError);
+      }
+
+      return { success: false, exportId, processingTimeMs: Date.now() - startTime, errorMessage };
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { createReadStream, type ReadStream } from "fs";
+import { mkdir, rename, stat, writeFile } from "fs/promises";
+import path from "path";
+
+const SAFE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const SAFE_EXTENSION_PATTERN = /^[a-z0-9]{1,8}$/;
+
+export interface StoredExportFile {
+  filePath: string; // Relative to the storage root, as saved on the export
+  fileSize: number;
+}
+
+/**
+ * Stores rendered export files.
+ *
+ * Layout: <root>/<tenantId>/<exportId>.<extension>. Paths saved on exports are
+ * relative so the storage root can move without rewriting rows.
+ */
+export class ExportStorageService {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async write(tenantId: string, exportId: string, extension: string, data: Buffer): Promise<StoredExportFile> {
+    if (!SAFE_ID_PATTERN.test(tenantId) || !SAFE_ID_PATTERN.test(exportId) || !SAFE_EXTENSION_PATTERN.test(extension)) {
+      throw new Error("Invalid tenant, export ID or file extension");
+    }
+
+    const filePath = path.join(tenantId, `${exportId}.${extension}`);
+    const absolutePath = path.join(this.rootDir, filePath);
+    await mkdir(path.dirname(absolutePath), { recursive: true });
+
+    // Write to a temp file first so a download never sees a half-written export
+    await writeFile(`${absolutePath}.tmp`, data);
+    await rename(`${absolutePath}.tmp`, absolutePath);
+
+    return { filePath, fileSize: data.length };
+  }
+
+  /**
+   * Open a stored export for download, or null if the file is gone
+   */
+  async open(filePath: string): Promise<{ stream: ReadStream; size: number } | null> {
+    const absolutePath = path.resolve(this.rootDir, filePath);
+    if (!absolutePath.startsWith(`${this.rootDir}${path.sep}`)) {
+      return null;
+    }
+
+    try {
+      const fileStats = await stat(absolutePath);
+      return { stream: createReadStream(absolutePath), size: fileStats.size };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,264 @@
+import type { ExportDocument, ExportRenderer } from "./ExportDocument";
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = 32;
+const BULLET_INDENT = 14;
+
+type FontName = "F1" | "F2"; // Helvetica, Helvetica-Bold
+
+// Advance widths (1/1000 em) of the printable ASCII range, from the standard Helvetica AFM metrics
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// Typographic characters generated notes use, mapped to their WinAnsi equivalents
+const REPLACEMENTS: Record<string, string> = {
+  "‘": "'", "’": "'", "“": '"', "”": '"',
+  "–": "-", "—": "-", "•": "-", "…": "...",
+};
+
+interface TextStyle {
+  font: FontName;
+  size: number;
+  gray?: number; // 0 black - 1 white
+}
+
+const STYLES = {
+  clinic: { font: "F2", size: 16 },
+  letterhead: { font: "F1", size: 9, gray: 0.35 },
+  title: { font: "F2", size: 14 },
+  details: { font: "F1", size: 10 },
+  noteTitle: { font: "F2", size: 12 },
+  noteDetails: { font: "F1", size: 9, gray: 0.35 },
+  heading: { font: "F2", size: 11 },
+  body: { font: "F1", size: 10 },
+  footer: { font: "F1", size: 8, gray: 0.45 },
+} satisfies Record<string, TextStyle>;
+
+/**
+ * PDF export written directly in PDF syntax using the standard Helvetica fonts,
+ * which every reader has built in - nothing is embedded, keeping files small.
+ */
+export class PdfExportRenderer implements ExportRenderer {
+  readonly format = "pdf" as const;
+  readonly extension = "pdf";
+  readonly mimeType = "application/pdf";
+
+  render(document: ExportDocument): Buffer {
+    const layout = new PageLayout();
+
+    layout.text(document.clinicName, STYLES.clinic);
+    for (const line of document.letterhead) layout.text(line, STYLES.letterhead);
+    layout.space(6);
+    layout.rule();
+    layout.space(14);
+
+    layout.text(document.title, STYLES.title);
+    layout.space(4);
+    for (const line of document.patientDetails) layout.text(line, STYLES.details);
+
+    for (const note of document.notes) {
+      layout.space(16);
+      layout.keepTogether(40);
+      layout.text(note.title, STYLES.noteTitle);
+      layout.text(note.details, STYLES.noteDetails);
+      layout.space(4);
+
+      for (const block of note.blocks) {
+        if (block.kind === "heading") {
+          layout.space(8);
+          layout.keepTogether(30);
+          layout.text(block.text, STYLES.heading);
+        } else if (block.kind === "bullet") {
+          layout.text(block.text, STYLES.body, { bullet: true });
+        } else {
+          layout.text(block.text, STYLES.body);
+        }
+      }
+    }
+
+    return writePdf(layout.finish(document.footer));
+  }
+}
+
+/**
+ * Flows wrapped lines down the page, starting a new page when one fills up
+ */
+class PageLayout {
+  private pages: string[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  text(text: string, style: TextStyle, options: { bullet?: boolean } = {}): void {
+    const indent = options.bullet ? BULLET_INDENT : 0;
+    const lineHeight = style.size * 1.35;
+    const lines = wrapText(text, style, CONTENT_WIDTH - indent);
+
+    lines.forEach((line, index) => {
+      if (this.y - lineHeight < MARGIN) this.newPage();
+      this.y -= lineHeight;
+      if (options.bullet && index === 0) {
+        this.current.push(textOp("-", style, MARGIN + 2, this.y));
+      }
+      this.current.push(textOp(line, style, MARGIN + indent, this.y));
+    });
+  }
+
+  space(points: number): void {
+    this.y -= points;
+  }
+
+  rule(): void {
+    this.current.push(`0.6 G 0.75 w ${MARGIN} ${this.y} m ${PAGE_WIDTH - MARGIN} ${this.y} l S 0 G`);
+  }
+
+  /**
+   * Start a new page unless there's room for a heading and the start of what follows it
+   */
+  keepTogether(points: number): void {
+    if (this.y - points < MARGIN) this.newPage();
+  }
+
+  finish(footer: string): string[] {
+    return this.pages.map((ops, index) => {
+      const pageLabel = `Page ${index + 1} of ${this.pages.length}`;
+      const labelWidth = measureText(pageLabel, STYLES.footer);
+      const footerLines = wrapText(footer, STYLES.footer, CONTENT_WIDTH - labelWidth - 12);
+      return [
+        ...ops,
+        textOp(footerLines[0] ?? "", STYLES.footer, MARGIN, FOOTER_Y),
+        textOp(pageLabel, STYLES.footer, PAGE_WIDTH - MARGIN - labelWidth, FOOTER_Y),
+      ].join("\n");
+    });
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1]!;
+  }
+
+  private newPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+}
+
+function textOp(text: string, style: TextStyle, x: number, y: number): string {
+  const color = style.gray ? `${style.gray} g ` : "";
+  return `${color}BT /${style.font} ${style.size} Tf ${round(x)} ${round(y)} Td (${encodeText(text)}) Tj ET${style.gray ? " 0 g" : ""}`;
+}
+
+/**
+ * Break text into lines that fit the width, splitting words only when a single word is too long
+ */
+function wrapText(text: string, style: TextStyle, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of normalizeText(text).split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measureText(candidate, style) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) lines.push(line);
+    line = word;
+    while (measureText(line, style) > maxWidth) {
+      let fit = line.length - 1;
+      while (fit > 1 && measureText(line.slice(0, fit), style) > maxWidth) fit--;
+      lines.push(line.slice(0, fit));
+      line = line.slice(fit);
+    }
+  }
+
+  if (line || lines.length === 0) lines.push(line);
+  return lines;
+}
+
+function measureText(text: string, style: TextStyle): number {
+  const widths = style.font === "F2" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of normalizeText(text)) {
+    total += widths[char.charCodeAt(0) - 32] ?? DEFAULT_WIDTH;
+  }
+  return (total * style.size) / 1000;
+}
+
+/**
+ * Reduce text to the Latin-1 range the standard fonts can show
+ */
+function normalizeText(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, (char) => REPLACEMENTS[char] ?? (/\s/.test(char) ? " " : "?"));
+}
+
+/**
+ * Escape a PDF string literal; characters above ASCII are written as octal codes
+ */
+function encodeText(text: string): string {
+  return normalizeText(text).replace(/[\\()\x80-\xFF]/g, (char) => {
+    const code = char.charCodeAt(0);
+    return code > 0x7f ? `\\${code.toString(8).padStart(3, "0")}` : `\\${char}`;
+  });
+}
+
+/**
+ * Assemble the PDF objects, with one content stream per page, and the cross-reference table
+ */
+function writePdf(pageStreams: string[]): Buffer {
+  const objects: string[] = [];
+  const fontObject = (baseFont: string) =>
+    `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`;
+
+  // 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page
+  const pageIds = pageStreams.map((_, index) => 5 + index * 2);
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+  objects.push(fontObject("Helvetica"));
+  objects.push(fontObject("Helvetica-Bold"));
+
+  pageStreams.forEach((stream, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index]! + 1} 0 R >>`,
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  // Everything written is ASCII, so string offsets are byte offsets
+  let output = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "ascii");
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,36 @@
+import type { ExportDocument, ExportRenderer } from "./ExportDocument";
+
+const LINE_WIDTH = 80;
+
+/**
+ * Plain text export for pasting into systems that don't accept attachments
+ */
+export class TxtExportRenderer implements ExportRenderer {
+  readonly format = "txt" as const;
+  readonly extension = "txt";
+  readonly mimeType = "text/plain; charset=utf-8";
+
+  render(document: ExportDocument): Buffer {
+    const lines: string[] = [document.clinicName.toUpperCase(), ...document.letterhead, "=".repeat(LINE_WIDTH), ""];
+
+    lines.push(document.title, ...document.patientDetails, "");
+
+    for (const note of document.notes) {
+      lines.push("-".repeat(LINE_WIDTH), note.title, note.details, "-".repeat(LINE_WIDTH));
+      for (const block of note.blocks) {
+        if (block.kind === "heading") {
+          lines.push("", block.text.toUpperCase());
+        } else if (block.kind === "bullet") {
+          lines.push(`  - ${block.text}`);
+        } else {
+          lines.push(block.text);
+        }
+      }
+      lines.push("");
+    }
+
+    lines.push("=".repeat(LINE_WIDTH), document.footer, "");
+    // CRLF so the file opens cleanly in Windows practice software
+    return Buffer.from(lines.join("\r\n"), "utf-8");
+  }
+}
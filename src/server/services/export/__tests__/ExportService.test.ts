@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type {
+  DataStore,
+  ConsultationRecord,
+  ExportRecord,
+  TenantConfig,
+  UpdateExportInput,
+} from '@/server/datastore/types';
+import type { ClinicalNote, PatientSummary } from '@/types/clinical';
+import { ExportService } from '../ExportService';
+import { ExportStorageService } from '../ExportStorageService';
+
+const EXPORT_ID = 'export-001';
+const CONSULTATION_ID = 'consultation-001';
+
+const tenantConfig: TenantConfig = {
+  id: 'tenant-001',
+  name: 'Harbour Street Medical',
+  operatingMode: 'standalone',
+  isDedicatedDb: false,
+  features: { manualExport: true, patientManagement: true, ehrSync: false },
+  letterhead: {
+    addressLines: ['12 Harbour Street', 'Sydney NSW 2000'],
+    phone: '02 9000 0000',
+    email: 'reception@harbourstreet.example',
+  },
+};
+
+const patient: PatientSummary = {
+  id: 'patient-001',
+  ehrPatientId: 'patient-001',
+  ehrSystem: 'other',
+  firstName: 'Jane',
+  lastName: 'Citizen',
+  dateOfBirth: new Date('1985-03-02'),
+  age: 40,
+  gender: 'F',
+  lastSyncedAt: new Date(),
+};
+
+const note: ClinicalNote = {
+  id: 'note-001',
+  patientId: patient.id,
+  clinicianId: 'clinician-001',
+  consultationId: CONSULTATION_ID,
+  title: 'SOAP Note',
+  content: '## Subjective\n- Sore throat and cough for five days.\n\n## Plan\nRest, fluids and paracetamol (as needed).',
+  noteType: 'soap',
+  status: 'signed',
+  version: 2,
+  createdAt: new Date('2025-08-05T09:30:00'),
+  updatedAt: new Date('2025-08-05T09:45:00'),
+  signedAt: new Date('2025-08-05T09:45:00'),
+};
+
+// In-memory DataStore covering only the methods the service uses
+function createDataStore(format: ExportRecord['format'], notes: ClinicalNote[] = [note]) {
+  let record: ExportRecord = {
+    id: EXPORT_ID,
+    tenantId: tenantConfig.id,
+    consultationId: CONSULTATION_ID,
+    format,
+    fileName: `consultation-notes-citizen-2025-08-05.${format}`,
+    status: 'pending',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const consultation: ConsultationRecord = {
+    id: CONSULTATION_ID,
+    tenantId: tenantConfig.id,
+    patientId: patient.id,
+    mode: 'standalone',
+    status: 'complete',
+    createdAt: new Date('2025-08-05T09:00:00'),
+    updatedAt: new Date('2025-08-05T09:45:00'),
+  };
+
+  const dataStore = {
+    getExport: vi.fn(async () => record),
+    updateExport: vi.fn(async (_id: string, updates: UpdateExportInput) => {
+      record = {
+        ...record,
+        ...Object.fromEntries(Object.entries(updates).map(([key, value]) => [key, value ?? undefined])),
+      };
+      return record;
+    }),
+    getConsultation: vi.fn(async () => consultation),
+    getPatientSummary: vi.fn(async () => patient),
+    getConsultationNotes: vi.fn(async () => notes),
+  } as unknown as DataStore;
+
+  return { dataStore, current: () => record };
+}
+
+describe('ExportService', () => {
+  let rootDir: string;
+  let storage: ExportStorageService;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(os.tmpdir(), 'export-test-'));
+    storage = new ExportStorageService(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should render a PDF with the letterhead and record the stored file', async () => {
+    const { dataStore, current } = createDataStore('pdf');
+
+    const result = await new ExportService(dataStore, tenantConfig, storage).generateExport(EXPORT_ID);
+
+    expect(result.success).toBe(true);
+    expect(current().status).toBe('completed');
+    expect(current().filePath).toBe(path.join('tenant-001', 'export-001.pdf'));
+
+    const pdf = await readFile(path.join(rootDir, current().filePath!), 'latin1');
+    expect(current().fileSize).toBe(pdf.length);
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('(Harbour Street Medical) Tj');
+    expect(pdf).toContain('(12 Harbour Street) Tj');
+    expect(pdf).toContain('Rest, fluids and paracetamol \\(as needed\\).');
+
+    // Every cross-reference entry must point at the object it names
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + 12)).toContain(`${index + 1} 0 obj`);
+    });
+  });
+
+  it('should write a DOCX package containing the note', async () => {
+    const { dataStore, current } = createDataStore('docx');
+
+    const result = await new ExportService(dataStore, tenantConfig, storage).generateExport(EXPORT_ID);
+
+    expect(result.success).toBe(true);
+    const docx = await readFile(path.join(rootDir, current().filePath!));
+    expect(docx.readUInt32LE(0)).toBe(0x04034b50);
+    expect(docx.toString('utf-8')).toContain('word/document.xml');
+    expect(docx.toString('utf-8')).toContain('Sore throat and cough for five days.');
+    expect(docx.toString('utf-8')).toContain('Sydney NSW 2000');
+  });
+
+  it('should keep the export pending while retries remain, then mark it failed', async () => {
+    const { dataStore, current } = createDataStore('txt', []);
+    const service = new ExportService(dataStore, tenantConfig, storage);
+
+    const retry = await service.generateExport(EXPORT_ID);
+    expect(retry.success).toBe(false);
+    expect(current().status).toBe('pending');
+    expect(current().error).toBe('Consultation has no notes to export');
+
+    await service.generateExport(EXPORT_ID, { markFailed: true });
+    expect(current().status).toBe('failed');
+    expect(current().filePath).toBeUndefined();
+  });
+});
@@ -0,0 +1,16 @@
+import { serverEnv } from "@/env";
+import { ExportStorageService } from "./ExportStorageService";
+
+/**
+ * Factory for the export store rooted at EXPORT_STORAGE_DIR
+ */
+export const createExportStorageService = () =>
+  new ExportStorageService(serverEnv.EXPORT_STORAGE_DIR);
+
+export * from "./ExportDocument";
+export * from "./PdfExportRenderer";
+export * from "./DocxExportRenderer";
+export * from "./TxtExportRenderer";
+export * from "./ExportStorageService";
+export * from "./ExportService";
+export * from "./ExportQueueService";
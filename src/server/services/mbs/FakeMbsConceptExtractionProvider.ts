@@ -0,0 +1,124 @@
+import type {
+  BillableConcept,
+  ConceptExtractionInput,
+  ConceptExtractionOutput,
+  MbsConceptExtractionProvider,
+} from "./MbsConceptExtractionProvider";
+
+const MAX_EXCERPT_LENGTH = 200;
+
+// Procedures and services a GP note commonly documents
+const SERVICE_RULES: ReadonlyArray<{ label: string; pattern: RegExp; searchQuery: string }> = [
+  {
+    label: "ECG",
+    pattern: /\b(ecg|electrocardiogra\w*)\b/i,
+    searchQuery: "twelve-lead electrocardiography tracing and report",
+  },
+  {
+    label: "Spirometry",
+    pattern: /\bspirometr\w*\b/i,
+    searchQuery: "spirometry measurement of respiratory function before and after bronchodilator",
+  },
+  {
+    label: "Wound repair",
+    pattern: /\b(sutur\w*|laceration|wound repair)\b/i,
+    searchQuery: "repair of superficial wound laceration",
+  },
+  {
+    label: "Skin lesion excision",
+    pattern: /\bexcis\w*\b.*\b(lesion|mole|cyst|bcc|scc)\b|\b(lesion|mole|cyst|bcc|scc)\b.*\bexcis\w*\b/i,
+    searchQuery: "excision of skin lesion",
+  },
+  {
+    label: "Cryotherapy",
+    pattern: /\b(cryotherapy|liquid nitrogen)\b/i,
+    searchQuery: "removal of skin lesion by cryotherapy",
+  },
+  {
+    label: "Mental health treatment plan",
+    pattern: /\bmental health (treatment |care )?plan\b/i,
+    searchQuery: "general practitioner mental health treatment plan preparation",
+  },
+  {
+    label: "Chronic disease management plan",
+    pattern: /\b(gp management plan|chronic disease management|care plan)\b/i,
+    searchQuery: "general practitioner management plan chronic medical condition",
+  },
+  {
+    label: "Health assessment",
+    pattern: /\bhealth (assessment|check)\b/i,
+    searchQuery: "health assessment by general practitioner",
+  },
+  {
+    label: "Cervical screening",
+    pattern: /\b(cervical screening|pap smear)\b/i,
+    searchQuery: "cervical screening test specimen collection",
+  },
+];
+
+// Attendance length tiers, longest first
+const ATTENDANCE_TIERS: ReadonlyArray<{ minMinutes: number; label: string; searchQuery: string }> = [
+  { minMinutes: 60, label: "GP attendance, 60 minutes or more", searchQuery: "professional attendance by a general practitioner lasting at least 60 minutes" },
+  { minMinutes: 40, label: "GP attendance, 40 to 59 minutes", searchQuery: "professional attendance by a general practitioner lasting at least 40 minutes" },
+  { minMinutes: 20, label: "GP attendance, 20 to 39 minutes", searchQuery: "professional attendance by a general practitioner lasting at least 20 minutes" },
+  { minMinutes: 6, label: "GP attendance, 6 to 19 minutes", searchQuery: "professional attendance by a general practitioner lasting less than 20 minutes" },
+  { minMinutes: 0, label: "Brief GP attendance", searchQuery: "professional attendance by a general practitioner for an obvious problem" },
+];
+
+/**
+ * Deterministic stand-in for a language model.
+ *
+ * Bills an attendance sized by the consultation's length, plus any procedure
+ * the note mentions by name, so the same note always gives the same concepts.
+ * Used by tests and for offline development without API keys.
+ */
+export class FakeMbsConceptExtractionProvider implements MbsConceptExtractionProvider {
+  readonly name = "fake";
+
+  async extractConcepts(input: ConceptExtractionInput): Promise<ConceptExtractionOutput> {
+    // Headings and unfilled sections don't document anything
+    const lines = input.noteContent
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#") && !/^Not (discussed|recorded)\.$/i.test(line));
+
+    if (lines.length === 0) {
+      return { concepts: [], model: "fake-concepts" };
+    }
+
+    const concepts: BillableConcept[] = [this.buildAttendanceConcept(input.durationMinutes, lines[0] ?? "")];
+
+    for (const rule of SERVICE_RULES) {
+      const line = lines.find((candidate) => rule.pattern.test(candidate));
+      if (line) {
+        concepts.push({
+          label: rule.label,
+          searchQuery: rule.searchQuery,
+          excerpt: this.truncate(line),
+          confidence: 0.8,
+        });
+      }
+    }
+
+    return { concepts, model: "fake-concepts" };
+  }
+
+  private buildAttendanceConcept(durationMinutes: number | undefined, firstLine: string): BillableConcept {
+    const tier =
+      durationMinutes === undefined
+        ? ATTENDANCE_TIERS.find((candidate) => candidate.minMinutes === 6)
+        : ATTENDANCE_TIERS.find((candidate) => durationMinutes >= candidate.minMinutes);
+
+    return {
+      label: tier?.label ?? "GP attendance",
+      searchQuery: tier?.searchQuery ?? "professional attendance by a general practitioner",
+      excerpt: this.truncate(firstLine),
+      // Without a recording the length of the attendance is a guess
+      confidence: durationMinutes === undefined ? 0.5 : 0.9,
+    };
+  }
+
+  private truncate(text: string): string {
+    return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : text;
+  }
+}
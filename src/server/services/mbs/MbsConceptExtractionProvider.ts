@@ -0,0 +1,32 @@
+/**
+ * Billable concept extraction provider abstraction
+ *
+ * Reads a clinical note and lists the services it documents that could be
+ * billed, each phrased as a query for MBS item search. Choosing items is left
+ * to MbsSuggestionService, so every provider is scored the same way.
+ */
+
+import type { ClinicalNote } from "@/types/clinical";
+
+export interface ConceptExtractionInput {
+  noteContent: string; // Markdown, one "## Heading" per section
+  noteType: ClinicalNote["noteType"];
+  durationMinutes?: number; // Recorded length of the consultation
+}
+
+export interface BillableConcept {
+  label: string; // Short name shown to the clinician, e.g. "ECG"
+  searchQuery: string; // Phrased like an MBS item description
+  excerpt: string; // Text from the note that documents the service
+  confidence: number; // 0-1
+}
+
+export interface ConceptExtractionOutput {
+  concepts: BillableConcept[];
+  model: string;
+}
+
+export interface MbsConceptExtractionProvider {
+  readonly name: string;
+  extractConcepts(input: ConceptExtractionInput): Promise<ConceptExtractionOutput>;
+}
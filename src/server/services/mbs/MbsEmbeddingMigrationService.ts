@@ -0,0 +1,257 @@
+import { Prisma, type MbsEmbeddingMigration, type PrismaClient } from "@/generated/prisma";
+import type { db as appDb } from "@/server/db";
+import type { EmbeddingProvider } from "@/server/services/embedding/EmbeddingProvider";
+import { buildMbsEmbeddingText, type MbsProgressCallback } from "./MbsWorkerService";
+
+export interface MbsEmbeddingModelCount {
+  model: string | null; // Null for items that have no embedding yet
+  dimensions: number | null;
+  items: number;
+}
+
+export interface MbsEmbeddingStatus {
+  // Model new vectors are produced with, null when embeddings are turned off
+  provider: { name: string; model: string; dimensions: number } | null;
+  models: MbsEmbeddingModelCount[];
+  // Items whose live vector is missing or from another model
+  itemsToMigrate: number;
+  latestMigration: MbsEmbeddingMigration | null;
+}
+
+export class MbsEmbeddingMigrationError extends Error {
+  constructor(
+    message: string,
+    public code: "NO_PROVIDER" | "MIGRATION_RUNNING" | "UP_TO_DATE" | "MIGRATION_NOT_FOUND" | "MODEL_MISMATCH",
+  ) {
+    super(message);
+    this.name = "MbsEmbeddingMigrationError";
+  }
+}
+
+interface MbsEmbeddingTextRow {
+  id: number;
+  itemNumber: number;
+  description: string;
+  category: string | null;
+  groupName: string | null;
+  serviceType: string | null;
+}
+
+/**
+ * Moves every MBS item onto the configured embedding model without taking
+ * vector search offline.
+ *
+ * New vectors are written to `next_embedding` while search keeps matching the
+ * old ones, reading both until the run completes. The swap then happens in a
+ * single statement. A failed run keeps what it wrote and carries on from there
+ * when started again.
+ */
+export class MbsEmbeddingMigrationService {
+  constructor(
+    private db: Pick<PrismaClient | typeof appDb, "$queryRaw" | "$executeRaw" | "mbsEmbeddingMigration">,
+    private embeddingProvider: EmbeddingProvider | null,
+  ) {}
+
+  async getStatus(): Promise<MbsEmbeddingStatus> {
+    const [models, latestMigration] = await Promise.all([
+      this.db.$queryRaw<MbsEmbeddingModelCount[]>`
+        SELECT embedding_model AS model, embedding_dimensions AS dimensions, COUNT(*)::int AS items
+        FROM mbs.items
+        GROUP BY embedding_model, embedding_dimensions
+        ORDER BY items DESC
+      `,
+      this.db.mbsEmbeddingMigration.findFirst({ orderBy: { startedAt: "desc" } }),
+    ]);
+
+    const provider = this.embeddingProvider;
+    return {
+      provider: provider ? { name: provider.name, model: provider.model, dimensions: provider.dimensions } : null,
+      models,
+      itemsToMigrate: provider
+        ? models
+            .filter(row => row.model !== provider.model || row.dimensions !== provider.dimensions)
+            .reduce((sum, row) => sum + row.items, 0)
+        : 0,
+      latestMigration,
+    };
+  }
+
+  /**
+   * Start moving items onto the configured model, or pick a failed run to it
+   * back up. The returned migration is then run by `runMigration`.
+   */
+  async startMigration(): Promise<MbsEmbeddingMigration> {
+    const provider = this.requireProvider();
+
+    const running = await this.db.mbsEmbeddingMigration.findFirst({ where: { status: "running" } });
+    if (running) {
+      throw new MbsEmbeddingMigrationError(`Embedding migration ${running.id} to ${running.model} is still running`, "MIGRATION_RUNNING");
+    }
+
+    const latest = await this.db.mbsEmbeddingMigration.findFirst({ orderBy: { startedAt: "desc" } });
+    const resumable = latest?.status === "failed" && latest.model === provider.model && latest.dimensions === provider.dimensions;
+
+    try {
+      if (resumable) {
+        const itemsRemaining = await this.countItemsToMigrate(provider);
+        console.log(`🧠 Resuming embedding migration ${latest.id} to ${provider.model} with ${itemsRemaining} items left`);
+        return await this.db.mbsEmbeddingMigration.update({
+          where: { id: latest.id },
+          data: { status: "running", itemsTotal: latest.itemsEmbedded + itemsRemaining, itemsFailed: 0, errorMessage: null },
+        });
+      }
+
+      // Vectors left by a failed run to some other model can't be used
+      await this.db.$executeRaw`UPDATE mbs.items SET next_embedding = NULL WHERE next_embedding IS NOT NULL`;
+
+      const itemsTotal = await this.countItemsToMigrate(provider);
+      if (itemsTotal === 0) {
+        throw new MbsEmbeddingMigrationError(`All MBS items are already embedded with ${provider.model}`, "UP_TO_DATE");
+      }
+
+      console.log(`🧠 Starting embedding migration of ${itemsTotal} items to ${provider.model}`);
+      return await this.db.mbsEmbeddingMigration.create({
+        data: {
+          provider: provider.name,
+          model: provider.model,
+          dimensions: provider.dimensions,
+          itemsTotal,
+        },
+      });
+    } catch (error) {
+      // Only one migration may run at a time, enforced by a partial unique index
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+        throw new MbsEmbeddingMigrationError("Another embedding migration has just started", "MIGRATION_RUNNING");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Re-embed the items a migration still needs, then swap the new vectors in.
+   * Throws when items could not be embedded, leaving the migration failed but resumable.
+   */
+  async runMigration(migrationId: number, batchSize = 50, onProgress?: MbsProgressCallback): Promise<MbsEmbeddingMigration> {
+    const provider = this.requireProvider();
+
+    const migration = await this.db.mbsEmbeddingMigration.findUnique({ where: { id: migrationId } });
+    if (!migration) {
+      throw new MbsEmbeddingMigrationError(`Embedding migration ${migrationId} not found`, "MIGRATION_NOT_FOUND");
+    }
+    if (migration.status === "completed") {
+      return migration;
+    }
+    if (migration.model !== provider.model || migration.dimensions !== provider.dimensions) {
+      await this.failMigration(migrationId, `Configured embedding model is now ${provider.model}`);
+      throw new MbsEmbeddingMigrationError(
+        `Embedding migration ${migrationId} is to ${migration.model} (${migration.dimensions}), but ${provider.model} (${provider.dimensions}) is configured`,
+        "MODEL_MISMATCH",
+      );
+    }
+
+    let itemsEmbedded = migration.itemsEmbedded;
+    let itemsFailed = 0;
+    let lastId = 0;
+
+    try {
+      if (migration.status !== "running") {
+        await this.db.mbsEmbeddingMigration.update({
+          where: { id: migrationId },
+          data: { status: "running", itemsFailed: 0, errorMessage: null },
+        });
+      }
+
+      for (;;) {
+        const items = await this.db.$queryRaw<MbsEmbeddingTextRow[]>`
+          SELECT id, item_number AS "itemNumber", description, category, group_name AS "groupName", service_type AS "serviceType"
+          FROM mbs.items
+          WHERE next_embedding IS NULL AND id > ${lastId} AND ${this.needsMigrationSql(provider)}
+          ORDER BY id
+          LIMIT ${batchSize}
+        `;
+        if (items.length === 0) {
+          break;
+        }
+        lastId = items[items.length - 1]!.id;
+
+        const embeddings = await provider.embed(items.map(buildMbsEmbeddingText));
+
+        for (const [index, item] of items.entries()) {
+          const embedding = embeddings[index];
+          if (embedding?.length !== provider.dimensions) {
+            console.warn(`⚠️ No ${provider.dimensions}-dimension embedding for MBS item ${item.itemNumber}`);
+            itemsFailed++;
+            continue;
+          }
+
+          await this.db.$executeRaw`
+            UPDATE mbs.items SET next_embedding = ${JSON.stringify(embedding)}::vector WHERE id = ${item.id}
+          `;
+          itemsEmbedded++;
+        }
+
+        await this.db.mbsEmbeddingMigration.update({
+          where: { id: migrationId },
+          data: { itemsEmbedded, itemsFailed },
+        });
+        await onProgress?.(Math.min(99, Math.round((itemsEmbedded / Math.max(1, migration.itemsTotal)) * 100)));
+      }
+
+      if (itemsFailed > 0) {
+        throw new Error(`${itemsFailed} items could not be embedded with ${provider.model}`);
+      }
+
+      // Swap in the new vectors and complete the migration in one statement, so
+      // search never sees a half-promoted state
+      await this.db.$executeRaw`
+        WITH promoted AS (
+          UPDATE mbs.items
+          SET embedding = next_embedding,
+              embedding_model = ${provider.model},
+              embedding_dimensions = ${provider.dimensions},
+              next_embedding = NULL
+          WHERE next_embedding IS NOT NULL
+          RETURNING id
+        )
+        UPDATE mbs.embedding_migrations
+        SET status = 'completed', completed_at = now(), items_embedded = ${itemsEmbedded}
+        WHERE id = ${migrationId}
+      `;
+      await onProgress?.(100);
+
+      console.log(`✅ Embedding migration ${migrationId} completed: ${itemsEmbedded} items now on ${provider.model}`);
+      return { ...migration, status: "completed", itemsEmbedded, itemsFailed: 0, completedAt: new Date() };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ Embedding migration ${migrationId} failed:`, error);
+      await this.failMigration(migrationId, errorMessage);
+      throw error;
+    }
+  }
+
+  private requireProvider(): EmbeddingProvider {
+    if (!this.embeddingProvider) {
+      throw new MbsEmbeddingMigrationError("No embedding provider is configured", "NO_PROVIDER");
+    }
+    return this.embeddingProvider;
+  }
+
+  private needsMigrationSql(provider: EmbeddingProvider): Prisma.Sql {
+    return Prisma.sql`(embedding_model IS DISTINCT FROM ${provider.model} OR embedding_dimensions IS DISTINCT FROM ${provider.dimensions})`;
+  }
+
+  private async countItemsToMigrate(provider: EmbeddingProvider): Promise<number> {
+    const [row] = await this.db.$queryRaw<[{ count: number }]>`
+      SELECT COUNT(*)::int AS count FROM mbs.items
+      WHERE next_embedding IS NULL AND ${this.needsMigrationSql(provider)}
+    `;
+    return row?.count ?? 0;
+  }
+
+  private async failMigration(migrationId: number, errorMessage: string): Promise<void> {
+    await this.db.mbsEmbeddingMigration.update({
+      where: { id: migrationId },
+      data: { status: "failed", errorMessage },
+    });
+  }
+}
@@ -0,0 +1,261 @@
+import { Prisma, type PrismaClient } from "@/generated/prisma";
+import type { db as appDb } from "@/server/db";
+
+// Release "0" is the item state recorded before item history was kept
+const BASELINE_RELEASE = 0;
+
+export const MBS_ITEM_CHANGE_TYPES = [
+  "new",
+  "removed",
+  "fee-changed",
+  "descriptor-changed",
+  "end-dated",
+  "details-changed", // Only fields outside the other change types changed, e.g. the group
+] as const;
+
+export type MbsItemChangeType = (typeof MBS_ITEM_CHANGE_TYPES)[number];
+
+export interface MbsReleaseChangeSummary {
+  fromLogId: number; // 0 for the item state recorded before item history was kept
+  toLogId: number;
+  itemsChanged: number; // Each item is counted once, however many ways it changed
+  new: number;
+  removed: number;
+  feeChanged: number;
+  descriptorChanged: number;
+  endDated: number;
+  detailsChanged: number;
+}
+
+export interface MbsItemChange {
+  itemNumber: number;
+  changes: MbsItemChangeType[];
+  previousDescription?: string;
+  description?: string;
+  previousFee?: number;
+  fee?: number;
+  previousEndDate?: Date;
+  endDate?: Date;
+}
+
+export interface MbsReleaseDiffOptions {
+  changeType?: MbsItemChangeType;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MbsReleaseDiff {
+  summary: MbsReleaseChangeSummary;
+  changes: MbsItemChange[];
+  total: number; // Changes matching the change type filter
+}
+
+export interface MbsItemVersionRecord {
+  id: number;
+  itemNumber: number;
+  description: string;
+  groupName?: string;
+  scheduleFee?: number;
+  itemStartDate?: Date;
+  itemEndDate?: Date;
+  validFrom: Date;
+  validTo?: Date;
+  ingestionLogId?: number;
+  ingestionFileName?: string;
+  retiredLogId?: number;
+}
+
+interface MbsItemChangeRow {
+  item_number: number;
+  previous_description: string | null;
+  description: string | null;
+  previous_fee: number | null;
+  fee: number | null;
+  previous_end_date: Date | null;
+  end_date: Date | null;
+  is_new: boolean;
+  is_removed: boolean;
+  fee_changed: boolean;
+  descriptor_changed: boolean;
+  end_dated: boolean;
+}
+
+interface MbsChangeCountRow {
+  items_changed: bigint;
+  new: bigint;
+  removed: bigint;
+  fee_changed: bigint;
+  descriptor_changed: bigint;
+  end_dated: bigint;
+  details_changed: bigint;
+}
+
+const CHANGE_TYPE_FILTERS: Record<MbsItemChangeType, Prisma.Sql> = {
+  "new": Prisma.sql`is_new`,
+  "removed": Prisma.sql`is_removed`,
+  "fee-changed": Prisma.sql`fee_changed`,
+  "descriptor-changed": Prisma.sql`descriptor_changed`,
+  "end-dated": Prisma.sql`end_dated`,
+  "details-changed": Prisma.sql`NOT (is_new OR is_removed OR fee_changed OR descriptor_changed OR end_dated)`,
+};
+
+/**
+ * Reads MBS item history: what changed between two ingested releases, and
+ * every version of an item.
+ *
+ * An item's version belongs to every release from the ingestion that
+ * introduced it up to the one that retired it, so a release is identified by
+ * its ingestion log id.
+ */
+export class MbsItemHistoryService {
+  constructor(private db: Pick<PrismaClient | typeof appDb, "$queryRaw" | "mbsIngestionLog" | "mbsItemVersion">) {}
+
+  /**
+   * The last completed ingestion before this one, or the pre-history baseline
+   */
+  async getPreviousReleaseLogId(logId: number): Promise<number> {
+    const previous = await this.db.mbsIngestionLog.findFirst({
+      where: { id: { lt: logId }, status: "completed" },
+      orderBy: { id: "desc" },
+      select: { id: true },
+    });
+    return previous?.id ?? BASELINE_RELEASE;
+  }
+
+  async summarizeChanges(fromLogId: number, toLogId: number): Promise<MbsReleaseChangeSummary> {
+    const [counts] = await this.db.$queryRaw<[MbsChangeCountRow]>`
+      ${this.buildChangesSql(fromLogId, toLogId)}
+      SELECT
+        COUNT(*) AS items_changed,
+        COUNT(*) FILTER (WHERE is_new) AS new,
+        COUNT(*) FILTER (WHERE is_removed) AS removed,
+        COUNT(*) FILTER (WHERE fee_changed) AS fee_changed,
+        COUNT(*) FILTER (WHERE descriptor_changed) AS descriptor_changed,
+        COUNT(*) FILTER (WHERE end_dated) AS end_dated,
+        COUNT(*) FILTER (WHERE ${CHANGE_TYPE_FILTERS["details-changed"]}) AS details_changed
+      FROM changes
+    `;
+
+    return {
+      fromLogId,
+      toLogId,
+      itemsChanged: Number(counts?.items_changed ?? 0),
+      new: Number(counts?.new ?? 0),
+      removed: Number(counts?.removed ?? 0),
+      feeChanged: Number(counts?.fee_changed ?? 0),
+      descriptorChanged: Number(counts?.descriptor_changed ?? 0),
+      endDated: Number(counts?.end_dated ?? 0),
+      detailsChanged: Number(counts?.details_changed ?? 0),
+    };
+  }
+
+  /**
+   * Items that differ between two releases, optionally of one change type
+   */
+  async diffReleases(fromLogId: number, toLogId: number, options: MbsReleaseDiffOptions = {}): Promise<MbsReleaseDiff> {
+    const filterSql = options.changeType ? CHANGE_TYPE_FILTERS[options.changeType] : Prisma.sql`TRUE`;
+
+    const [summary, rows, [matching]] = await Promise.all([
+      this.summarizeChanges(fromLogId, toLogId),
+      this.db.$queryRaw<MbsItemChangeRow[]>`
+        ${this.buildChangesSql(fromLogId, toLogId)}
+        SELECT * FROM changes
+        WHERE ${filterSql}
+        ORDER BY item_number
+        LIMIT ${options.limit ?? 50} OFFSET ${options.offset ?? 0}
+      `,
+      this.db.$queryRaw<[{ total: bigint }]>`
+        ${this.buildChangesSql(fromLogId, toLogId)}
+        SELECT COUNT(*) AS total FROM changes WHERE ${filterSql}
+      `,
+    ]);
+
+    return {
+      summary,
+      changes: rows.map(row => this.mapChangeRow(row)),
+      total: Number(matching?.total ?? 0),
+    };
+  }
+
+  /**
+   * Every version of an item, oldest first
+   */
+  async getItemHistory(itemNumber: number): Promise<MbsItemVersionRecord[]> {
+    const versions = await this.db.mbsItemVersion.findMany({
+      where: { itemNumber },
+      include: { ingestionLog: { select: { fileName: true } } },
+      orderBy: [{ validFrom: "asc" }, { id: "asc" }],
+    });
+
+    return versions.map(version => ({
+      id: version.id,
+      itemNumber: version.itemNumber,
+      description: version.description,
+      groupName: version.groupName ?? undefined,
+      scheduleFee: version.scheduleFee?.toNumber(),
+      itemStartDate: version.itemStartDate ?? undefined,
+      itemEndDate: version.itemEndDate ?? undefined,
+      validFrom: version.validFrom,
+      validTo: version.validTo ?? undefined,
+      ingestionLogId: version.ingestionLogId ?? undefined,
+      ingestionFileName: version.ingestionLog?.fileName ?? undefined,
+      retiredLogId: version.retiredLogId ?? undefined,
+    }));
+  }
+
+  /**
+   * Pair each item's version in one release with its version in the other,
+   * flagging how they differ. Expects to be followed by a SELECT over `changes`.
+   */
+  private buildChangesSql(fromLogId: number, toLogId: number): Prisma.Sql {
+    return Prisma.sql`
+      WITH from_release AS (
+        SELECT * FROM mbs.item_versions
+        WHERE COALESCE(ingestion_log_id, 0) <= ${fromLogId} AND (retired_log_id IS NULL OR retired_log_id > ${fromLogId})
+      ),
+      to_release AS (
+        SELECT * FROM mbs.item_versions
+        WHERE COALESCE(ingestion_log_id, 0) <= ${toLogId} AND (retired_log_id IS NULL OR retired_log_id > ${toLogId})
+      ),
+      changes AS (
+        SELECT
+          COALESCE(t.item_number, f.item_number) AS item_number,
+          f.description AS previous_description,
+          t.description,
+          f.schedule_fee::float8 AS previous_fee,
+          t.schedule_fee::float8 AS fee,
+          f.item_end_date AS previous_end_date,
+          t.item_end_date AS end_date,
+          f.id IS NULL AS is_new,
+          t.id IS NULL AS is_removed,
+          COALESCE(f.schedule_fee IS DISTINCT FROM t.schedule_fee AND f.id IS NOT NULL AND t.id IS NOT NULL, false) AS fee_changed,
+          COALESCE(f.description IS DISTINCT FROM t.description AND f.id IS NOT NULL AND t.id IS NOT NULL, false) AS descriptor_changed,
+          COALESCE(t.item_end_date IS NOT NULL AND f.item_end_date IS DISTINCT FROM t.item_end_date AND f.id IS NOT NULL, false) AS end_dated
+        FROM from_release f
+        FULL OUTER JOIN to_release t ON t.item_number = f.item_number
+        WHERE f.id IS DISTINCT FROM t.id
+      )
+    `;
+  }
+
+  private mapChangeRow(row: MbsItemChangeRow): MbsItemChange {
+    const changes: MbsItemChangeType[] = [];
+    if (row.is_new) changes.push("new");
+    if (row.is_removed) changes.push("removed");
+    if (row.fee_changed) changes.push("fee-changed");
+    if (row.descriptor_changed) changes.push("descriptor-changed");
+    if (row.end_dated) changes.push("end-dated");
+    if (changes.length === 0) changes.push("details-changed");
+
+    return {
+      itemNumber: row.item_number,
+      changes,
+      previousDescription: row.previous_description ?? undefined,
+      description: row.description ?? undefined,
+      previousFee: row.previous_fee ?? undefined,
+      fee: row.fee ?? undefined,
+      previousEndDate: row.previous_end_date ?? undefined,
+      endDate: row.end_date ?? undefined,
+    };
+  }
+}
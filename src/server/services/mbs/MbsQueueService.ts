@@ -1,8 +1,31 @@
 import { Queue, type JobsOptions, type Job, type JobProgress } from "bullmq";
 import { bullConnection } from "@/server/instrumentation/bull/connection";
-import { QUEUE_TYPES, type MbsIngestXmlJobData, type MbsGenerateEmbeddingsJobData, type MbsUpdateSearchVectorsJobData } from "@/server/instrumentation/bull/types";
+import { QUEUE_TYPES, type MbsIngestXmlJobData, type MbsGenerateEmbeddingsJobData, type MbsUpdateSearchVectorsJobData, type MbsSuggestItemsJobData, type MbsMigrateEmbeddingsJobData } from "@/server/instrumentation/bull/types";
 import { serverEnv } from "@/env";
 
+// Jobs that make up the ingestion pipeline, as opposed to per-note suggestion jobs
+const MBS_PIPELINE_JOB_NAMES: string[] = [
+  QUEUE_TYPES.MBS_INGEST_XML,
+  QUEUE_TYPES.MBS_GENERATE_EMBEDDINGS,
+  QUEUE_TYPES.MBS_UPDATE_SEARCH_VECTORS,
+  QUEUE_TYPES.MBS_MIGRATE_EMBEDDINGS,
+];
+
+export interface MbsPipelineJob {
+  id: string;
+  name: string;
+  state: string; // BullMQ state, e.g. waiting, waiting-children, active, completed, failed
+  progress: number; // 0-100
+  fileName?: string; // Ingestion jobs only
+  itemCount?: number; // Jobs limited to selected items
+  attemptsMade: number;
+  failedReason?: string;
+  parentId?: string; // The job this one waits for
+  createdAt: Date;
+  processedAt?: Date;
+  finishedAt?: Date;
+}
+
 export class MbsQueueService {
   private queue: Queue;
 
@@ -103,6 +126,52 @@ export class MbsQueueService {
     return job.id!;
   }
 
+  /**
+   * Queue MBS item suggestions for a note that has reached review
+   */
+  async queueSuggestionGeneration(data: MbsSuggestItemsJobData, priority = 0): Promise<string> {
+    const job = await this.queue.add(
+      QUEUE_TYPES.MBS_SUGGEST_ITEMS,
+      data,
+      {
+        priority,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        removeOnComplete: 50,
+        removeOnFail: 100,
+      }
+    );
+
+    console.log(`💰 Queued MBS suggestion job: ${job.id} for note ${data.noteId}`);
+    return job.id!;
+  }
+
+  /**
+   * Queue a re-embedding of every item onto a new model. Each attempt carries
+   * on from the items the previous one finished.
+   */
+  async queueEmbeddingMigration(data: MbsMigrateEmbeddingsJobData): Promise<string> {
+    const job = await this.queue.add(
+      QUEUE_TYPES.MBS_MIGRATE_EMBEDDINGS,
+      data,
+      {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 30000,
+        },
+        removeOnComplete: 5,
+        removeOnFail: 20,
+      }
+    );
+
+    console.log(`🧠 Queued MBS embedding migration job: ${job.id} for migration ${data.migrationId}`);
+    return job.id!;
+  }
+
   /**
    * Get job status
    */
@@ -210,6 +279,52 @@ export class MbsQueueService {
     };
   }
 
+  /**
+   * The most recent ingestion pipeline jobs, newest first
+   */
+  async getRecentPipelineJobs(limit = 20): Promise<MbsPipelineJob[]> {
+    const jobs = (await this.queue.getJobs(
+      ['active', 'waiting', 'waiting-children', 'prioritized', 'delayed', 'completed', 'failed'],
+      0,
+      100,
+    ) as (Job | undefined)[])
+      .filter((job): job is Job => !!job && MBS_PIPELINE_JOB_NAMES.includes(job.name))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+
+    return Promise.all(jobs.map(async (job) => {
+      const data = job.data as Partial<MbsIngestXmlJobData & MbsGenerateEmbeddingsJobData>;
+      return {
+        id: job.id!,
+        name: job.name,
+        state: await job.getState(),
+        progress: typeof job.progress === 'number' ? job.progress : 0,
+        fileName: data.fileName,
+        itemCount: data.itemIds?.length,
+        attemptsMade: job.attemptsMade,
+        failedReason: job.failedReason || undefined,
+        parentId: job.parent?.id,
+        createdAt: new Date(job.timestamp),
+        processedAt: job.processedOn ? new Date(job.processedOn) : undefined,
+        finishedAt: job.finishedOn ? new Date(job.finishedOn) : undefined,
+      };
+    }));
+  }
+
+  /**
+   * Run a failed job again, or return false if there's no failed job with this id
+   */
+  async retryFailedJob(jobId: string): Promise<boolean> {
+    const job = await this.queue.getJob(jobId);
+    if (!job || !(await job.isFailed())) {
+      return false;
+    }
+
+    await job.retry('failed');
+    console.log(`🔁 Retrying MBS job: ${jobId} (${job.name})`);
+    return true;
+  }
+
   /**
    * Clean up old jobs
    */
@@ -224,7 +339,7 @@ export class MbsQueueService {
    * 2. Generate embeddings (waits for XML completion)
    * 3. Update search vectors (waits for embeddings completion)
    */
-  async queueFullIngestionPipeline(filePath: string, fileName: string, forceReprocess = false): Promise<{
+  async queueFullIngestionPipeline(filePath: string, fileName: string, forceReprocess = false, effectiveDate?: string): Promise<{
     xmlJobId: string;
     embeddingJobId: string;
     vectorJobId: string;
@@ -234,6 +349,7 @@ export class MbsQueueService {
       filePath,
       fileName,
       forceReprocess,
+      effectiveDate,
     }, 10);
 
     console.log(`🚀 Started MBS ingestion pipeline for ${fileName}`);
@@ -0,0 +1,132 @@
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import type { PrismaClient } from "@/generated/prisma";
+import type { db as appDb } from "@/server/db";
+import type { MbsQueueService } from "./MbsQueueService";
+import type { MbsReleaseStorageService } from "./MbsReleaseStorageService";
+
+const FEED_TIMEOUT_MS = 60 * 1000;
+const DOWNLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Links to .xml files, ignoring any query string or fragment
+const XML_LINK_PATTERN = /href\s*=\s*["']([^"'#?]+\.xml)(?:[?#][^"']*)?["']/gi;
+// Release files are named for the date they apply from, e.g. MBS-XML-20250701 Version 2.XML
+const RELEASE_DATE_PATTERN = /(20\d{2})(\d{2})(\d{2})/;
+
+export interface MbsReleaseCheckResult {
+  status: "queued" | "up-to-date";
+  releaseUrl: string;
+  fileName: string;
+  releaseFile: string;
+  effectiveDate?: string;
+  jobIds?: Awaited<ReturnType<MbsQueueService["queueFullIngestionPipeline"]>>;
+}
+
+interface MbsReleaseLink {
+  url: URL;
+  fileName: string;
+  effectiveDate?: string;
+}
+
+const toReleaseLink = (url: URL): MbsReleaseLink => {
+  const fileName = decodeURIComponent(url.pathname.split("/").pop() ?? "mbs-release.xml");
+  const match = RELEASE_DATE_PATTERN.exec(fileName);
+  const effectiveDate = match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+
+  return {
+    url,
+    fileName,
+    effectiveDate: effectiveDate && !isNaN(Date.parse(effectiveDate)) ? effectiveDate : undefined,
+  };
+};
+
+/**
+ * Checks the MBS release feed and queues the ingestion pipeline for a release
+ * that hasn't been ingested yet.
+ *
+ * The feed URL can point at a release file directly, or at a downloads page
+ * that links to releases, in which case the release with the latest date in
+ * its name is taken. Whether a release is new is decided by its content hash,
+ * the same way ingestion skips files it has already processed.
+ */
+export class MbsReleaseFetcher {
+  constructor(
+    private feedUrl: string,
+    private storage: MbsReleaseStorageService,
+    private db: Pick<PrismaClient | typeof appDb, "mbsIngestionLog">,
+    private queue: Pick<MbsQueueService, "queueFullIngestionPipeline">,
+  ) {}
+
+  async checkForRelease(): Promise<MbsReleaseCheckResult> {
+    let response = await this.get(this.feedUrl, FEED_TIMEOUT_MS);
+
+    let release = toReleaseLink(new URL(response.url || this.feedUrl));
+    if (!this.isXmlResponse(response)) {
+      release = this.findLatestRelease(await response.text(), release.url);
+      response = await this.get(release.url.toString(), DOWNLOAD_TIMEOUT_MS);
+    }
+
+    if (!response.body) {
+      throw new Error(`MBS release ${release.url.toString()} has no content`);
+    }
+    const stored = await this.storage.save(Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>));
+
+    const result = {
+      releaseUrl: release.url.toString(),
+      fileName: release.fileName,
+      releaseFile: stored.releaseFile,
+      effectiveDate: release.effectiveDate,
+    };
+
+    const existing = await this.db.mbsIngestionLog.findFirst({
+      where: { fileHash: stored.fileHash, status: { in: ["completed", "processing"] } },
+      select: { id: true },
+    });
+    if (existing) {
+      console.log(`💰 MBS release ${release.fileName} already ingested`);
+      return { status: "up-to-date", ...result };
+    }
+
+    const jobIds = await this.queue.queueFullIngestionPipeline(
+      await this.storage.resolve(stored.releaseFile),
+      release.fileName,
+      false,
+      release.effectiveDate,
+    );
+    console.log(`💰 Queued new MBS release ${release.fileName} from ${result.releaseUrl}`);
+
+    return { status: "queued", ...result, jobIds };
+  }
+
+  private async get(url: string, timeoutMs: number): Promise<Response> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) {
+      throw new Error(`MBS release feed request to ${url} failed with ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+
+  private isXmlResponse(response: Response): boolean {
+    const contentType = response.headers.get("content-type") ?? "";
+    return contentType.includes("xml") || /\.xml$/i.test(new URL(response.url || this.feedUrl).pathname);
+  }
+
+  /**
+   * The linked release with the latest date in its name. Undated links rank
+   * last, and ties go to the first link on the page.
+   */
+  private findLatestRelease(html: string, pageUrl: URL): MbsReleaseLink {
+    const links = [...html.matchAll(XML_LINK_PATTERN)].map(match =>
+      toReleaseLink(new URL(match[1]!.replace(/&amp;/g, "&"), pageUrl))
+    );
+
+    const latest = links.reduce<MbsReleaseLink | undefined>(
+      (best, link) => (!best || (link.effectiveDate ?? "") > (best.effectiveDate ?? "") ? link : best),
+      undefined,
+    );
+    if (!latest) {
+      throw new Error(`No MBS XML release is linked from ${pageUrl.toString()}`);
+    }
+    return latest;
+  }
+}
@@ -0,0 +1,111 @@
+import { createHash, randomUUID } from "crypto";
+import { createWriteStream } from "fs";
+import { mkdir, rename, rm, stat } from "fs/promises";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { Transform } from "stream";
+
+// Releases are content-addressed, so a stored name is always a SHA-256 hash
+const RELEASE_FILE_PATTERN = /^[a-f0-9]{64}\.xml$/;
+
+// A full schedule is tens of MB; this only stops a runaway upload or download filling the disk
+const MAX_RELEASE_SIZE_BYTES = 512 * 1024 * 1024; // 512MB
+
+export interface StoredMbsRelease {
+  releaseFile: string; // Name within the store, passed to ingestion in place of a path
+  fileHash: string;
+  fileSize: number;
+}
+
+export class MbsReleaseStorageError extends Error {
+  constructor(
+    message: string,
+    public code: "INVALID_RELEASE_FILE" | "RELEASE_NOT_FOUND" | "RELEASE_TOO_LARGE",
+  ) {
+    super(message);
+    this.name = "MbsReleaseStorageError";
+  }
+}
+
+/**
+ * Stores MBS XML releases that were uploaded by an admin or downloaded from
+ * the release feed, so ingestion only ever reads files from this directory.
+ *
+ * Layout: <root>/<sha256>.xml. Saving the same release twice yields the same name.
+ */
+export class MbsReleaseStorageService {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Stream a release into the store
+   * @throws {MbsReleaseStorageError} RELEASE_TOO_LARGE if it exceeds the size limit
+   */
+  async save(source: AsyncIterable<Uint8Array> | NodeJS.ReadableStream): Promise<StoredMbsRelease> {
+    await mkdir(this.rootDir, { recursive: true });
+
+    // Write to a temp file first so ingestion never sees a half-written release
+    const tempPath = path.join(this.rootDir, `${randomUUID()}.tmp`);
+    const hash = createHash("sha256");
+    let fileSize = 0;
+
+    const measure = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        fileSize += chunk.length;
+        if (fileSize > MAX_RELEASE_SIZE_BYTES) {
+          callback(new MbsReleaseStorageError(
+            `Release is larger than the ${MAX_RELEASE_SIZE_BYTES / (1024 * 1024)}MB limit`,
+            "RELEASE_TOO_LARGE",
+          ));
+          return;
+        }
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(source, measure, createWriteStream(tempPath));
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+
+    const fileHash = hash.digest("hex");
+    const releaseFile = `${fileHash}.xml`;
+    await rename(tempPath, path.join(this.rootDir, releaseFile));
+
+    return { releaseFile, fileHash, fileSize };
+  }
+
+  /**
+   * Absolute path of a stored release
+   * @throws {MbsReleaseStorageError} if the name isn't a stored release
+   */
+  async resolve(releaseFile: string): Promise<string> {
+    if (!RELEASE_FILE_PATTERN.test(releaseFile)) {
+      throw new MbsReleaseStorageError(`Invalid release file: ${releaseFile}`, "INVALID_RELEASE_FILE");
+    }
+
+    const absolutePath = path.join(this.rootDir, releaseFile);
+    try {
+      await stat(absolutePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new MbsReleaseStorageError(`Release ${releaseFile} not found`, "RELEASE_NOT_FOUND");
+      }
+      throw error;
+    }
+    return absolutePath;
+  }
+
+  async remove(releaseFile: string): Promise<void> {
+    if (!RELEASE_FILE_PATTERN.test(releaseFile)) {
+      throw new MbsReleaseStorageError(`Invalid release file: ${releaseFile}`, "INVALID_RELEASE_FILE");
+    }
+    await rm(path.join(this.rootDir, releaseFile), { force: true });
+  }
+}
@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { differenceInCalendarDays, format } from "date-fns";
+
+/**
+ * MBS billing rules, declared as data.
+ *
+ * Each rule selects items by number or MBS group and constrains them one way:
+ *
+ *   exclusive  - at most one selected item per consultation
+ *   time-tier  - the consultation lasted at least minMinutes and/or under underMinutes
+ *   age        - the patient is at least minAge and/or under underAge
+ *   frequency  - at most maxClaims selected items per periodDays (1 = the same day),
+ *                counting the patient's earlier claims
+ *
+ * Rules live in mbs.rules, so a new schedule release only needs rule rows.
+ */
+
+const itemSelectorSchema = z
+  .object({
+    items: z.array(z.number().int().positive()).optional(),
+    groups: z.array(z.string().min(1)).optional(),
+  })
+  .refine((selector) => (selector.items?.length ?? 0) + (selector.groups?.length ?? 0) > 0, {
+    message: "Select at least one item or group",
+  });
+
+export const mbsRuleDefinitionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("exclusive"),
+    selector: itemSelectorSchema,
+  }),
+  z.object({
+    type: z.literal("time-tier"),
+    selector: itemSelectorSchema,
+    minMinutes: z.number().nonnegative().optional(),
+    underMinutes: z.number().positive().optional(),
+  }),
+  z.object({
+    type: z.literal("age"),
+    selector: itemSelectorSchema,
+    minAge: z.number().int().nonnegative().optional(),
+    underAge: z.number().int().positive().optional(),
+  }),
+  z.object({
+    type: z.literal("frequency"),
+    selector: itemSelectorSchema,
+    maxClaims: z.number().int().positive(),
+    periodDays: z.number().int().positive(),
+  }),
+]);
+
+export type MbsItemSelector = z.infer<typeof itemSelectorSchema>;
+export type MbsRuleDefinition = z.infer<typeof mbsRuleDefinitionSchema>;
+export type MbsRuleType = MbsRuleDefinition["type"];
+export type MbsRuleSeverity = "error" | "warning";
+
+export interface MbsRule {
+  code: string;
+  description: string;
+  severity: MbsRuleSeverity;
+  definition: MbsRuleDefinition;
+  effectiveFrom?: Date;
+  effectiveTo?: Date;
+}
+
+export interface MbsRuleItem {
+  itemNumber: number;
+  groupName?: string;
+}
+
+export interface MbsPriorClaim extends MbsRuleItem {
+  serviceDate: Date;
+}
+
+export interface MbsRuleContext {
+  items: MbsRuleItem[]; // Items proposed for the consultation
+  serviceDate: Date;
+  durationMinutes?: number; // Unknown when the consultation wasn't recorded
+  patientAge?: number;
+  priorClaims: MbsPriorClaim[]; // The patient's claims from other consultations
+}
+
+export interface MbsRuleViolation {
+  ruleCode: string;
+  ruleDescription: string;
+  severity: MbsRuleSeverity;
+  itemNumbers: number[];
+  message: string;
+  unchecked?: boolean; // The rule couldn't be checked for lack of a duration or age, so it only warns
+}
+
+interface RuleFinding {
+  message: string;
+  unchecked?: boolean;
+}
+
+export interface MbsRuleEvaluation {
+  valid: boolean; // No error-severity violations
+  violations: MbsRuleViolation[];
+}
+
+function matchesSelector(item: MbsRuleItem, selector: MbsItemSelector): boolean {
+  if (selector.items?.includes(item.itemNumber)) {
+    return true;
+  }
+  return item.groupName !== undefined && Boolean(selector.groups?.includes(item.groupName));
+}
+
+function formatItems(itemNumbers: number[]): string {
+  if (itemNumbers.length === 1) {
+    return `Item ${itemNumbers[0]}`;
+  }
+  return `Items ${itemNumbers.slice(0, -1).join(", ")} and ${itemNumbers.at(-1)}`;
+}
+
+function isInEffect(rule: MbsRule, serviceDate: Date): boolean {
+  return (
+    (!rule.effectiveFrom || differenceInCalendarDays(serviceDate, rule.effectiveFrom) >= 0) &&
+    (!rule.effectiveTo || differenceInCalendarDays(rule.effectiveTo, serviceDate) >= 0)
+  );
+}
+
+/**
+ * Explain why the matched items break a rule, or return null if they don't
+ */
+function checkRule(rule: MbsRule, matched: MbsRuleItem[], context: MbsRuleContext): RuleFinding | null {
+  const { definition } = rule;
+  const itemNumbers = matched.map((item) => item.itemNumber);
+  const items = formatItems(itemNumbers);
+
+  switch (definition.type) {
+    case "exclusive":
+      return matched.length > 1 ? { message: `${items} can't be claimed for the same consultation` } : null;
+
+    case "time-tier": {
+      const { minMinutes, underMinutes } = definition;
+      if (context.durationMinutes === undefined) {
+        return { message: `${items} depends on how long the consultation lasted, which wasn't recorded`, unchecked: true };
+      }
+      if (minMinutes !== undefined && context.durationMinutes < minMinutes) {
+        return { message: `${items} needs a consultation of at least ${minMinutes} minutes, but it lasted ${context.durationMinutes}` };
+      }
+      if (underMinutes !== undefined && context.durationMinutes >= underMinutes) {
+        return { message: `${items} is for consultations under ${underMinutes} minutes, but it lasted ${context.durationMinutes}` };
+      }
+      return null;
+    }
+
+    case "age": {
+      const { minAge, underAge } = definition;
+      if (context.patientAge === undefined) {
+        return { message: `${items} depends on the patient's age, which isn't recorded`, unchecked: true };
+      }
+      if (minAge !== undefined && context.patientAge < minAge) {
+        return { message: `${items} is for patients aged ${minAge} and over, but the patient is ${context.patientAge}` };
+      }
+      if (underAge !== undefined && context.patientAge >= underAge) {
+        return { message: `${items} is for patients under ${underAge}, but the patient is ${context.patientAge}` };
+      }
+      return null;
+    }
+
+    case "frequency": {
+      const { maxClaims, periodDays } = definition;
+      const earlier = context.priorClaims.filter((claim) => {
+        const daysAgo = differenceInCalendarDays(context.serviceDate, claim.serviceDate);
+        return daysAgo >= 0 && daysAgo < periodDays && matchesSelector(claim, definition.selector);
+      });
+      if (earlier.length + matched.length <= maxClaims) {
+        return null;
+      }
+
+      const period = periodDays === 1 ? "per day" : `in ${periodDays} days`;
+      const limit = `${maxClaims === 1 ? "once" : `${maxClaims} times`} ${period}`;
+      const latest = earlier.reduce<MbsPriorClaim | undefined>(
+        (current, claim) => (!current || claim.serviceDate > current.serviceDate ? claim : current),
+        undefined,
+      );
+      return {
+        message: latest
+          ? `${items} can be claimed ${limit}, and item ${latest.itemNumber} was already claimed on ${format(latest.serviceDate, "d MMM yyyy")}`
+          : `${items} can be claimed ${limit}`,
+      };
+    }
+  }
+}
+
+/**
+ * Check proposed items against every rule in effect on the service date
+ */
+export function evaluateMbsRules(rules: ReadonlyArray<MbsRule>, context: MbsRuleContext): MbsRuleEvaluation {
+  const violations: MbsRuleViolation[] = [];
+
+  for (const rule of rules) {
+    if (!isInEffect(rule, context.serviceDate)) {
+      continue;
+    }
+
+    const matched = context.items.filter((item) => matchesSelector(item, rule.definition.selector));
+    if (matched.length === 0) {
+      continue;
+    }
+
+    const finding = checkRule(rule, matched, context);
+    if (finding) {
+      violations.push({
+        ruleCode: rule.code,
+        ruleDescription: rule.description,
+        severity: finding.unchecked ? "warning" : rule.severity,
+        itemNumbers: matched.map((item) => item.itemNumber),
+        message: finding.message,
+        ...(finding.unchecked && { unchecked: true }),
+      });
+    }
+  }
+
+  return {
+    valid: !violations.some((violation) => violation.severity === "error"),
+    violations,
+  };
+}
@@ -0,0 +1,222 @@
+import { differenceInYears, startOfDay, subDays } from "date-fns";
+import type { MbsRule as PrismaMbsRule, PrismaClient } from "@/generated/prisma";
+import type { db as appDb } from "@/server/db";
+import type { DataStore } from "@/server/datastore";
+import {
+  evaluateMbsRules,
+  mbsRuleDefinitionSchema,
+  type MbsRule,
+  type MbsRuleDefinition,
+  type MbsRuleEvaluation,
+  type MbsRuleItem,
+  type MbsRuleSeverity,
+  type MbsRuleViolation,
+} from "./MbsRulesEngine";
+
+export interface MbsRuleRecord extends MbsRule {
+  id: string;
+  ruleType: string;
+  isActive: boolean;
+  updatedAt: Date;
+}
+
+export interface MbsRuleInput {
+  code: string;
+  description: string;
+  severity: MbsRuleSeverity;
+  definition: MbsRuleDefinition;
+  effectiveFrom?: Date | null;
+  effectiveTo?: Date | null;
+  isActive?: boolean;
+}
+
+export interface MbsItemValidation extends MbsRuleEvaluation {
+  consultationId: string;
+  serviceDate: Date;
+  durationMinutes?: number;
+  patientAge?: number;
+}
+
+/**
+ * Loads MBS billing rules from mbs.rules and checks a consultation's items
+ * against them, using its recorded duration, the patient's age and the
+ * items already billed for the patient's other consultations.
+ */
+export class MbsRulesService {
+  constructor(private db: Pick<PrismaClient | typeof appDb, "mbsRule" | "mbsItem">) {}
+
+  async listRules(): Promise<MbsRuleRecord[]> {
+    const rules = await this.db.mbsRule.findMany({ orderBy: { code: "asc" } });
+    return rules.flatMap((rule) => this.mapRule(rule) ?? []);
+  }
+
+  /**
+   * Create a rule, or replace the rule with the same code
+   */
+  async upsertRule(input: MbsRuleInput): Promise<MbsRuleRecord> {
+    const definition = mbsRuleDefinitionSchema.parse(input.definition);
+    const data = {
+      description: input.description,
+      ruleType: definition.type,
+      definition,
+      severity: input.severity,
+      effectiveFrom: input.effectiveFrom ?? null,
+      effectiveTo: input.effectiveTo ?? null,
+      isActive: input.isActive ?? true,
+    };
+
+    const rule = await this.db.mbsRule.upsert({
+      where: { code: input.code },
+      create: { code: input.code, ...data },
+      update: data,
+    });
+    return this.mapRule(rule)!;
+  }
+
+  /**
+   * Switch a rule on or off, returning null if there's no rule with the code
+   */
+  async setRuleActive(code: string, isActive: boolean): Promise<MbsRuleRecord | null> {
+    const existing = await this.db.mbsRule.findUnique({ where: { code }, select: { id: true } });
+    if (!existing) {
+      return null;
+    }
+
+    const rule = await this.db.mbsRule.update({ where: { code }, data: { isActive } });
+    return this.mapRule(rule);
+  }
+
+  /**
+   * Active rules in effect on the service date
+   */
+  async getActiveRules(serviceDate: Date): Promise<MbsRule[]> {
+    const day = startOfDay(serviceDate);
+    const rules = await this.db.mbsRule.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          { OR: [{ effectiveFrom: null }, { effectiveFrom: { lte: day } }] },
+          { OR: [{ effectiveTo: null }, { effectiveTo: { gte: day } }] },
+        ],
+      },
+      orderBy: { code: "asc" },
+    });
+    return rules.flatMap((rule) => this.mapRule(rule) ?? []);
+  }
+
+  /**
+   * Check items proposed for a consultation against the rules in effect when it took place
+   */
+  async validateConsultationItems(
+    dataStore: DataStore,
+    consultationId: string,
+    itemNumbers: number[],
+  ): Promise<MbsItemValidation> {
+    const consultation = await dataStore.getConsultation(consultationId);
+    const serviceDate = consultation.recordingStartTime ?? consultation.createdAt;
+    const durationMinutes =
+      consultation.recordingStartTime && consultation.recordingEndTime
+        ? Math.round((consultation.recordingEndTime.getTime() - consultation.recordingStartTime.getTime()) / 60_000)
+        : undefined;
+
+    const patient = await dataStore.getPatientSummary(consultation.patientId);
+    const patientAge = patient.dateOfBirth ? differenceInYears(serviceDate, patient.dateOfBirth) : undefined;
+
+    const rules = await this.getActiveRules(serviceDate);
+    const lookbackDays = Math.max(
+      0,
+      ...rules.map((rule) => (rule.definition.type === "frequency" ? rule.definition.periodDays : 0)),
+    );
+    const priorClaims =
+      lookbackDays > 0
+        ? await dataStore.getPatientMbsClaims(consultation.patientId, {
+            since: subDays(startOfDay(serviceDate), lookbackDays - 1),
+            excludeConsultationId: consultationId,
+          })
+        : [];
+
+    const uniqueItemNumbers = [...new Set(itemNumbers)];
+    const { items, violations: itemViolations } = await this.loadItems(uniqueItemNumbers, serviceDate);
+    const evaluation = evaluateMbsRules(rules, { items, serviceDate, durationMinutes, patientAge, priorClaims });
+    const violations = [...itemViolations, ...evaluation.violations];
+
+    return {
+      consultationId,
+      serviceDate,
+      durationMinutes,
+      patientAge,
+      valid: !violations.some((violation) => violation.severity === "error"),
+      violations,
+    };
+  }
+
+  /**
+   * Look up the items' groups, flagging items that aren't in the schedule on the service date
+   */
+  private async loadItems(
+    itemNumbers: number[],
+    serviceDate: Date,
+  ): Promise<{ items: MbsRuleItem[]; violations: MbsRuleViolation[] }> {
+    const found = await this.db.mbsItem.findMany({
+      where: { itemNumber: { in: itemNumbers } },
+      select: { itemNumber: true, groupName: true, itemStartDate: true, itemEndDate: true },
+    });
+    const byNumber = new Map(found.map((item) => [item.itemNumber, item]));
+    const day = startOfDay(serviceDate);
+
+    const violations: MbsRuleViolation[] = [];
+    const items: MbsRuleItem[] = [];
+
+    for (const itemNumber of itemNumbers) {
+      const item = byNumber.get(itemNumber);
+      if (!item) {
+        violations.push({
+          ruleCode: "unknown-item",
+          ruleDescription: "Items must be in the MBS schedule",
+          severity: "error",
+          itemNumbers: [itemNumber],
+          message: `Item ${itemNumber} isn't in the MBS schedule`,
+        });
+        continue;
+      }
+
+      if ((item.itemStartDate && item.itemStartDate > day) || (item.itemEndDate && item.itemEndDate < day)) {
+        violations.push({
+          ruleCode: "item-not-in-effect",
+          ruleDescription: "Items must be in effect on the day of the consultation",
+          severity: "error",
+          itemNumbers: [itemNumber],
+          message: `Item ${itemNumber} wasn't in effect on the day of the consultation`,
+        });
+      }
+      items.push({ itemNumber, groupName: item.groupName ?? undefined });
+    }
+
+    return { items, violations };
+  }
+
+  /**
+   * Map a stored rule, or return null when its definition doesn't parse so one
+   * bad row can't stop every other rule being checked
+   */
+  private mapRule(rule: PrismaMbsRule): MbsRuleRecord | null {
+    const definition = mbsRuleDefinitionSchema.safeParse(rule.definition);
+    if (!definition.success) {
+      console.warn(`⚠️ Skipping MBS rule ${rule.code} with an invalid definition:`, definition.error.message);
+      return null;
+    }
+
+    return {
+      id: rule.id,
+      code: rule.code,
+      description: rule.description,
+      ruleType: rule.ruleType,
+      definition: definition.data,
+      severity: rule.severity === "warning" ? "warning" : "error",
+      effectiveFrom: rule.effectiveFrom ?? undefined,
+      effectiveTo: rule.effectiveTo ?? undefined,
+      isActive: rule.isActive,
+      updatedAt: rule.updatedAt,
+    };
+  }
+}
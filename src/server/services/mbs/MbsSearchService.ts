@@ -0,0 +1,385 @@
+import { Prisma, type PrismaClient } from "@/generated/prisma";
+import type { EmbeddingProvider } from "@/server/services/embedding/EmbeddingProvider";
+
+// Blend of normalised full-text rank and cosine similarity used to order hybrid results
+const TEXT_WEIGHT = 0.4;
+const VECTOR_WEIGHT = 0.6;
+
+// Searching for an item number should put that item first
+const ITEM_NUMBER_MATCH_BOOST = 1;
+
+// Private-use characters mark highlights, so item text can never be mistaken for markup
+const HIGHLIGHT_START = "\uE000";
+const HIGHLIGHT_END = "\uE001";
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+export interface MbsSearchFilters {
+  categories?: string[];
+  providerTypes?: string[];
+  // Items in effect at some point in this range; without one, only currently active items match
+  activeFrom?: Date;
+  activeTo?: Date;
+  minFee?: number;
+  maxFee?: number;
+}
+
+export interface MbsSearchOptions {
+  filters?: MbsSearchFilters;
+  limit?: number;
+}
+
+export interface MbsSnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface MbsSearchResult {
+  itemNumber: number;
+  description: string;
+  shortDescription?: string;
+  category?: string;
+  groupName?: string;
+  providerType?: string;
+  scheduleFee?: number;
+  itemStartDate?: Date;
+  itemEndDate?: Date;
+  isActive: boolean;
+  snippet: MbsSnippetPart[];
+  textRank: number; // 0-1
+  similarity?: number; // cosine similarity, absent when the item was not a vector match
+  score: number;
+}
+
+export interface MbsSearchResponse {
+  // "text" when there was no query embedding or no item embeddings to compare it with
+  mode: "hybrid" | "text";
+  results: MbsSearchResult[];
+}
+
+/**
+ * Looks up a provider for a model that stored vectors came from, or null if it can't be reached
+ */
+export type MbsEmbeddingProviderResolver = (model: string, dimensions: number) => EmbeddingProvider | null;
+
+// A set of stored vectors from one model, and the query embedded with that model
+interface MbsVectorSource {
+  column: "embedding" | "next_embedding";
+  model: string;
+  dimensions: number;
+  queryEmbedding: number[];
+}
+
+interface MbsVectorModelRow {
+  model: string | null;
+  dimensions: number | null;
+  next: boolean;
+}
+
+interface MbsSearchRow {
+  item_number: number;
+  description: string;
+  short_description: string | null;
+  category: string | null;
+  group_name: string | null;
+  provider_type: string | null;
+  schedule_fee: number | null;
+  item_start_date: Date | null;
+  item_end_date: Date | null;
+  is_active: boolean;
+  headline: string;
+  text_rank: number;
+  similarity: number | null;
+  score: number;
+}
+
+/**
+ * Split a ts_headline() result into plain and highlighted parts
+ */
+export function parseHighlightedSnippet(headline: string): MbsSnippetPart[] {
+  const parts: MbsSnippetPart[] = [];
+  let rest = headline;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      parts.push({ text: rest.slice(0, start), highlighted: false });
+    }
+
+    const end = rest.indexOf(HIGHLIGHT_END, start);
+    const stop = end === -1 ? rest.length : end;
+    parts.push({ text: rest.slice(start + HIGHLIGHT_START.length, stop), highlighted: true });
+    rest = end === -1 ? "" : rest.slice(end + HIGHLIGHT_END.length);
+  }
+
+  // Adjacent highlighted words come back as separate fragments
+  return parts.reduce<MbsSnippetPart[]>((merged, part) => {
+    const previous = merged[merged.length - 1];
+    if (previous?.highlighted === part.highlighted) {
+      previous.text += part.text;
+    } else if (part.text) {
+      merged.push({ ...part });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Searches MBS items by blending full-text rank over `mbs.items.tsv` with
+ * vector similarity over `mbs.items.embedding`.
+ *
+ * Vectors are only compared with a query embedded by the same model. While an
+ * embedding migration runs, items already re-embedded are matched on their new
+ * vector and the rest on their old one, so search keeps working throughout.
+ *
+ * Without an embedding provider, when the query can't be embedded, or before
+ * any items have embeddings, it falls back to full-text search alone.
+ */
+export class MbsSearchService {
+  constructor(
+    private db: Pick<PrismaClient, "$queryRaw">,
+    private embeddingProvider: EmbeddingProvider | null = null,
+    private resolveEmbeddingProvider: MbsEmbeddingProviderResolver = () => null
+  ) {}
+
+  async search(query: string, options: MbsSearchOptions = {}): Promise<MbsSearchResponse> {
+    const trimmedQuery = query.trim();
+    const limit = options.limit ?? 20;
+    if (!trimmedQuery) {
+      return { mode: "text", results: [] };
+    }
+
+    const filterSql = this.buildFilterSql(options.filters ?? {});
+    const candidateLimit = Math.max(limit * 4, 50);
+    const vectorSources = await this.getVectorSources(trimmedQuery);
+
+    const rows = vectorSources.length > 0
+      ? await this.db.$queryRaw<MbsSearchRow[]>(this.buildHybridSql(trimmedQuery, vectorSources, filterSql, candidateLimit, limit))
+      : await this.db.$queryRaw<MbsSearchRow[]>(this.buildTextSql(trimmedQuery, filterSql, candidateLimit, limit));
+
+    return {
+      mode: vectorSources.length > 0 ? "hybrid" : "text",
+      results: rows.map(row => this.mapRow(row)),
+    };
+  }
+
+  /**
+   * Embed the query once per model that stored vectors came from. An empty
+   * result means searching on text alone.
+   */
+  private async getVectorSources(query: string): Promise<MbsVectorSource[]> {
+    if (!this.embeddingProvider) {
+      return [];
+    }
+
+    // Models behind the live vectors, plus the model a running migration is writing
+    const models = await this.db.$queryRaw<MbsVectorModelRow[]>`
+      SELECT embedding_model AS model, embedding_dimensions AS dimensions, FALSE AS next
+      FROM mbs.items
+      WHERE embedding IS NOT NULL
+      GROUP BY embedding_model, embedding_dimensions
+      UNION ALL
+      SELECT model, dimensions, TRUE AS next
+      FROM mbs.embedding_migrations
+      WHERE status = 'running' AND EXISTS (SELECT 1 FROM mbs.items WHERE next_embedding IS NOT NULL)
+    `;
+
+    const queryEmbeddings = new Map<string, Promise<number[] | null>>();
+    const sources: MbsVectorSource[] = [];
+
+    for (const { model, dimensions, next } of models) {
+      if (!model || !dimensions) {
+        continue;
+      }
+
+      const key = `${model}:${dimensions}`;
+      if (!queryEmbeddings.has(key)) {
+        queryEmbeddings.set(key, this.embedQuery(query, model, dimensions));
+      }
+
+      const queryEmbedding = await queryEmbeddings.get(key);
+      if (queryEmbedding) {
+        sources.push({ column: next ? "next_embedding" : "embedding", model, dimensions, queryEmbedding });
+      }
+    }
+
+    return sources;
+  }
+
+  private async embedQuery(query: string, model: string, dimensions: number): Promise<number[] | null> {
+    const provider = this.embeddingProvider?.model === model && this.embeddingProvider.dimensions === dimensions
+      ? this.embeddingProvider
+      : this.resolveEmbeddingProvider(model, dimensions);
+
+    if (!provider) {
+      console.warn(`⚠️ No provider for ${model} embeddings, those items are searched on text only`);
+      return null;
+    }
+
+    try {
+      const [embedding] = await provider.embed([query]);
+      if (embedding?.length !== dimensions) {
+        throw new Error(`Expected ${dimensions} dimensions, got ${embedding?.length ?? 0}`);
+      }
+      return embedding;
+    } catch (error) {
+      console.warn(`⚠️ MBS query embedding with ${model} failed, searching without it:`, error);
+      return null;
+    }
+  }
+
+  private buildFilterSql(filters: MbsSearchFilters): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [];
+
+    if (filters.activeFrom || filters.activeTo) {
+      if (filters.activeFrom) {
+        conditions.push(Prisma.sql`(i.item_end_date IS NULL OR i.item_end_date >= ${filters.activeFrom}::date)`);
+      }
+      if (filters.activeTo) {
+        conditions.push(Prisma.sql`(i.item_start_date IS NULL OR i.item_start_date <= ${filters.activeTo}::date)`);
+      }
+    } else {
+      conditions.push(Prisma.sql`i.is_active`);
+    }
+
+    if (filters.categories?.length) {
+      conditions.push(Prisma.sql`i.category = ANY(${filters.categories})`);
+    }
+    if (filters.providerTypes?.length) {
+      conditions.push(Prisma.sql`i.provider_type = ANY(${filters.providerTypes})`);
+    }
+    if (filters.minFee !== undefined) {
+      conditions.push(Prisma.sql`i.schedule_fee >= ${filters.minFee}`);
+    }
+    if (filters.maxFee !== undefined) {
+      conditions.push(Prisma.sql`i.schedule_fee <= ${filters.maxFee}`);
+    }
+
+    return Prisma.join(conditions, " AND ");
+  }
+
+  private buildTextSql(query: string, filterSql: Prisma.Sql, candidateLimit: number, limit: number): Prisma.Sql {
+    return Prisma.sql`
+      WITH q AS (SELECT websearch_to_tsquery('english', ${query}) AS tsq),
+      candidates AS (
+        SELECT i.id, ts_rank_cd(i.tsv, q.tsq, 32)::float8 AS text_rank, NULL::float8 AS similarity
+        FROM mbs.items i, q
+        WHERE (i.tsv @@ q.tsq OR i.item_number::text = ${query}) AND ${filterSql}
+        ORDER BY text_rank DESC
+        LIMIT ${candidateLimit}
+      )
+      ${this.buildResultSql(query)}
+      ORDER BY score DESC, i.item_number ASC
+      LIMIT ${limit}
+    `;
+  }
+
+  private buildHybridSql(
+    query: string,
+    vectorSources: MbsVectorSource[],
+    filterSql: Prisma.Sql,
+    candidateLimit: number,
+    limit: number
+  ): Prisma.Sql {
+    // Prefer an item's re-embedded vector over its old one while both exist
+    const migrating = vectorSources.some(source => source.column === "next_embedding");
+
+    const sourceHits = vectorSources.map(source => {
+      const vector = `[${source.queryEmbedding.join(",")}]`;
+      const column = Prisma.raw(`i.${source.column}`);
+      const sourceSql = source.column === "next_embedding"
+        ? Prisma.sql`i.next_embedding IS NOT NULL`
+        : Prisma.sql`i.embedding IS NOT NULL AND i.embedding_model = ${source.model} AND i.embedding_dimensions = ${source.dimensions}
+            ${migrating ? Prisma.sql`AND i.next_embedding IS NULL` : Prisma.empty}`;
+
+      return Prisma.sql`(
+        SELECT i.id, (1 - (${column} <=> ${vector}::vector))::float8 AS similarity
+        FROM mbs.items i
+        WHERE ${sourceSql} AND ${filterSql}
+        ORDER BY ${column} <=> ${vector}::vector
+        LIMIT ${candidateLimit}
+      )`;
+    });
+
+    return Prisma.sql`
+      WITH q AS (SELECT websearch_to_tsquery('english', ${query}) AS tsq),
+      text_hits AS (
+        SELECT i.id, ts_rank_cd(i.tsv, q.tsq, 32)::float8 AS text_rank
+        FROM mbs.items i, q
+        WHERE (i.tsv @@ q.tsq OR i.item_number::text = ${query}) AND ${filterSql}
+        ORDER BY text_rank DESC
+        LIMIT ${candidateLimit}
+      ),
+      vector_hits AS (
+        SELECT id, MAX(similarity) AS similarity
+        FROM (${Prisma.join(sourceHits, " UNION ALL ")}) source_hits
+        GROUP BY id
+      ),
+      candidates AS (
+        SELECT id, MAX(text_rank) AS text_rank, MAX(similarity) AS similarity
+        FROM (
+          SELECT id, text_rank, NULL::float8 AS similarity FROM text_hits
+          UNION ALL
+          SELECT id, NULL::float8 AS text_rank, similarity FROM vector_hits
+        ) hits
+        GROUP BY id
+      )
+      ${this.buildResultSql(query)}
+      ORDER BY score DESC, i.item_number ASC
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Select the candidate items with their snippet and blended score
+   */
+  private buildResultSql(query: string): Prisma.Sql {
+    return Prisma.sql`
+      SELECT
+        i.item_number,
+        i.description,
+        i.short_description,
+        i.category,
+        i.group_name,
+        i.provider_type,
+        i.schedule_fee::float8 AS schedule_fee,
+        i.item_start_date,
+        i.item_end_date,
+        i.is_active,
+        ts_headline('english', i.description, q.tsq, ${HEADLINE_OPTIONS}) AS headline,
+        COALESCE(c.text_rank, 0) AS text_rank,
+        c.similarity,
+        (
+          CASE WHEN c.similarity IS NULL THEN COALESCE(c.text_rank, 0)
+          ELSE ${TEXT_WEIGHT} * COALESCE(c.text_rank, 0) + ${VECTOR_WEIGHT} * c.similarity END
+          + CASE WHEN i.item_number::text = ${query} THEN ${ITEM_NUMBER_MATCH_BOOST} ELSE 0 END
+        )::float8 AS score
+      FROM candidates c
+      JOIN mbs.items i ON i.id = c.id
+      CROSS JOIN q
+    `;
+  }
+
+  private mapRow(row: MbsSearchRow): MbsSearchResult {
+    return {
+      itemNumber: row.item_number,
+      description: row.description,
+      shortDescription: row.short_description ?? undefined,
+      category: row.category ?? undefined,
+      groupName: row.group_name ?? undefined,
+      providerType: row.provider_type ?? undefined,
+      scheduleFee: row.schedule_fee ?? undefined,
+      itemStartDate: row.item_start_date ?? undefined,
+      itemEndDate: row.item_end_date ?? undefined,
+      isActive: row.is_active,
+      snippet: parseHighlightedSnippet(row.headline),
+      textRank: row.text_rank,
+      similarity: row.similarity ?? undefined,
+      score: row.score,
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import type { DataStore, MbsSuggestionInput, MbsSuggestionRecord } from "@/server/datastore";
+import type { BillableConcept, MbsConceptExtractionProvider } from "./MbsConceptExtractionProvider";
+import type { MbsSearchResult, MbsSearchService } from "./MbsSearchService";
+
+// Items considered for each concept, and suggestions kept per consultation
+const CANDIDATES_PER_CONCEPT = 3;
+const MAX_SUGGESTIONS = 5;
+
+// Weaker matches are noise the clinician would only have to reject
+const MIN_SUGGESTION_CONFIDENCE = 0.3;
+
+export interface MbsSuggestionResult {
+  success: boolean;
+  noteId: string;
+  consultationId?: string;
+  skipped?: boolean;
+  provider: string;
+  processingTimeMs: number;
+  suggestions?: MbsSuggestionRecord[];
+  errorMessage?: string;
+}
+
+interface ScoredCandidate {
+  item: MbsSearchResult;
+  confidence: number;
+  concepts: BillableConcept[];
+}
+
+/**
+ * Suggests MBS items for a consultation from its note.
+ *
+ * The provider lists the billable services the note documents; each is
+ * searched for in the MBS, and an item's confidence is its concept's
+ * confidence scaled by how closely it matched next to the best candidate.
+ */
+export class MbsSuggestionService {
+  private dataStore: DataStore;
+  private searchService: Pick<MbsSearchService, "search">;
+  private provider: MbsConceptExtractionProvider;
+
+  constructor(
+    dataStore: DataStore,
+    searchService: Pick<MbsSearchService, "search">,
+    provider: MbsConceptExtractionProvider,
+  ) {
+    this.dataStore = dataStore;
+    this.searchService = searchService;
+    this.provider = provider;
+  }
+
+  /**
+   * Replace a consultation's unactioned suggestions with ones drawn from a note under review
+   */
+  async generateSuggestionsForNote(noteId: string): Promise<MbsSuggestionResult> {
+    const startTime = Date.now();
+    const baseResult = { noteId, provider: this.provider.name };
+
+    try {
+      const note = await this.dataStore.getClinicalNote(noteId);
+      if (!note.consultationId) {
+        throw new Error("Note is not linked to a consultation");
+      }
+
+      // The note may have been signed or sent back to draft since the job was queued
+      if (note.status !== "pending-review") {
+        console.log(`💰 Note ${noteId} is ${note.status}, not suggesting MBS items`);
+        return {
+          ...baseResult,
+          consultationId: note.consultationId,
+          success: true,
+          skipped: true,
+          processingTimeMs: Date.now() - startTime,
+        };
+      }
+
+      const consultation = await this.dataStore.getConsultation(note.consultationId);
+      const durationMinutes =
+        consultation.recordingStartTime && consultation.recordingEndTime
+          ? Math.round((consultation.recordingEndTime.getTime() - consultation.recordingStartTime.getTime()) / 60_000)
+          : undefined;
+
+      console.log(`💰 Suggesting MBS items for note ${noteId} with ${this.provider.name}`);
+
+      const output = await this.provider.extractConcepts({
+        noteContent: note.content,
+        noteType: note.noteType,
+        durationMinutes,
+      });
+
+      const candidates = await this.scoreCandidates(output.concepts);
+      const processingTimeMs = Date.now() - startTime;
+
+      const suggestions = await this.dataStore.replaceMbsSuggestions(
+        note.consultationId,
+        candidates.map((candidate): MbsSuggestionInput => {
+          const [bestConcept] = candidate.concepts;
+          return {
+            itemNumber: candidate.item.itemNumber,
+            confidence: candidate.confidence,
+            reasoning: this.buildReasoning(candidate),
+            matchedConcepts: candidate.concepts.map((concept) => concept.label),
+            soapExcerpt: bestConcept?.excerpt,
+            consultationType: note.template ?? note.noteType,
+            modelUsed: output.model,
+            processingTimeMs,
+          };
+        }),
+      );
+
+      return {
+        ...baseResult,
+        consultationId: note.consultationId,
+        success: true,
+        processingTimeMs: Date.now() - startTime,
+        suggestions,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown MBS suggestion error";
+      console.error(`❌ MBS suggestion failed for note ${noteId}:`, error);
+      return { ...baseResult, success: false, processingTimeMs: Date.now() - startTime, errorMessage };
+    }
+  }
+
+  /**
+   * Search for each concept's items and keep the most confident, merging
+   * concepts that land on the same item
+   */
+  private async scoreCandidates(concepts: BillableConcept[]): Promise<ScoredCandidate[]> {
+    const byItem = new Map<number, ScoredCandidate>();
+
+    for (const concept of concepts) {
+      const { results } = await this.searchService.search(concept.searchQuery, { limit: CANDIDATES_PER_CONCEPT });
+      const topScore = results[0]?.score ?? 0;
+      if (topScore <= 0) {
+        continue;
+      }
+
+      for (const item of results) {
+        const confidence = Math.round(concept.confidence * (item.score / topScore) * 100) / 100;
+        const existing = byItem.get(item.itemNumber);
+
+        if (!existing) {
+          byItem.set(item.itemNumber, { item, confidence, concepts: [concept] });
+        } else if (confidence > existing.confidence) {
+          byItem.set(item.itemNumber, { item, confidence, concepts: [concept, ...existing.concepts] });
+        } else {
+          existing.concepts.push(concept);
+        }
+      }
+    }
+
+    return [...byItem.values()]
+      .filter((candidate) => candidate.confidence >= MIN_SUGGESTION_CONFIDENCE)
+      .sort((a, b) => b.confidence - a.confidence || a.item.itemNumber - b.item.itemNumber)
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  private buildReasoning(candidate: ScoredCandidate): string {
+    const concepts = candidate.concepts.map((concept) => concept.label).join(", ");
+    const description = candidate.item.shortDescription ?? candidate.item.description;
+    const summary = description.length > 160 ? `${description.slice(0, 159)}…` : description;
+    return `Note documents ${concepts}. Item ${candidate.item.itemNumber}: ${summary}`;
+  }
+}
@@ -1,11 +1,14 @@
-import type { PrismaClient, Prisma } from "@/generated/prisma";
+import { Prisma, type PrismaClient } from "@/generated/prisma";
 import { createHash } from "crypto";
-import { readFile, stat } from "fs/promises";
-import { parseStringPromise } from "xml2js";
-import OpenAI from "openai";
+import { open, stat } from "fs/promises";
+import type { EmbeddingProvider } from "@/server/services/embedding/EmbeddingProvider";
+import { MbsItemHistoryService, type MbsReleaseChangeSummary } from "./MbsItemHistoryService";
+import { MbsXmlFormatError, readMbsXmlRecords, validateMbsXml, type MbsXmlRecord } from "./MbsXmlReader";
 
-// Security constants
-const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024; // 100MB
+const BATCH_SIZE = 100;
+const READ_CHUNK_BYTES = 64 * 1024;
+// Keep the log row small when a release is riddled with bad records
+const MAX_RECORD_ERRORS = 500;
 
 export interface MbsXmlItem {
   ItemNum: string[];
@@ -36,28 +39,111 @@ export interface MbsProcessingResult {
   itemsFailed: number;
   processingTimeMs: number;
   embeddingTimeMs?: number;
+  changeSummary?: MbsReleaseChangeSummary; // How the ingested release differs from the one before it
   errorMessage?: string;
   errorDetails?: Record<string, unknown>;
 }
 
+// Reports how far through a job is, as a percentage
+export type MbsProgressCallback = (percent: number) => void | Promise<void>;
+
+// A record that was skipped, for errorDetails.recordErrors
+// (a type rather than an interface so it stays assignable to Prisma's JSON input)
+export type MbsXmlRecordError = {
+  record: number; // Position among the file's records, from 0
+  line: number;
+  itemNumber?: string;
+  message: string;
+};
+
+// The release an ingestion run is loading, which new item versions belong to
+interface MbsRelease {
+  logId: number;
+  effectiveDate: Date;
+}
+
+// Item fields that make up a version - a change to any of them starts a new one
+const VERSIONED_FIELDS = [
+  'description',
+  'shortDescription',
+  'category',
+  'subCategory',
+  'groupName',
+  'subGroup',
+  'providerType',
+  'serviceType',
+  'scheduleFee',
+  'benefit75',
+  'benefit85',
+  'benefit100',
+  'derivedFeeDescription',
+  'itemStartDate',
+  'itemEndDate',
+] as const;
+
+type VersionedItemData = Partial<Record<(typeof VERSIONED_FIELDS)[number], unknown>>;
+
+// Compare stored and parsed values without tripping over Decimal, Date or null vs undefined
+const normalizeVersionValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'object' && 'toNumber' in value && typeof value.toNumber === 'function') {
+    return String((value as { toNumber: () => number }).toNumber());
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export type MbsEmbeddingTextFields = {
+  itemNumber: number;
+  description: string;
+  category: string | null;
+  groupName: string | null;
+  serviceType: string | null;
+};
+
+/**
+ * Text an item is embedded from, shared by every model so vectors stay comparable
+ */
+export const buildMbsEmbeddingText = (item: MbsEmbeddingTextFields): string =>
+  `MBS Item ${item.itemNumber}: ${item.description} ${item.category ?? ''} ${item.groupName ?? ''} ${item.serviceType ?? ''}`;
+
 export class MbsWorkerService {
   private db: PrismaClient;
-  private openai: OpenAI;
+  private embeddingProvider: EmbeddingProvider | null;
 
-  constructor(db: PrismaClient, openaiApiKey: string) {
+  constructor(db: PrismaClient, embeddingProvider: EmbeddingProvider | null = null) {
     this.db = db;
-    this.openai = new OpenAI({ apiKey: openaiApiKey });
+    this.embeddingProvider = embeddingProvider;
   }
 
-  async ingestXmlFile(filePath: string, fileName: string, forceReprocess = false): Promise<MbsProcessingResult> {
+  /**
+   * Load an MBS XML release. Each item that changed gets a new version tied to
+   * this run, and items missing from the release are retired and deactivated.
+   *
+   * The file is streamed and committed in batches. If a batch fails the run
+   * stops, and the next run over the same file carries on from that batch.
+   * Records that can't be loaded are skipped and listed in errorDetails with
+   * their line numbers.
+   * @param effectiveDate Date the release applies from, defaulting to today
+   * @param onProgress Called with the share of records committed after each batch
+   */
+  async ingestXmlFile(
+    filePath: string,
+    fileName: string,
+    forceReprocess = false,
+    effectiveDate: Date = new Date(),
+    onProgress?: MbsProgressCallback,
+  ): Promise<MbsProcessingResult> {
     const startTime = Date.now();
     let logId: number | null = null;
+    let recordErrors: MbsXmlRecordError[] = [];
+    let failedBatch: { fromRecord: number; toRecord: number; line: number } | undefined;
 
     try {
       // Check file existence and get stats
       const fileStats = await stat(filePath);
-      const fileContent = await readFile(filePath, 'utf-8');
-      const fileHash = createHash('sha256').update(fileContent).digest('hex');
+      const fileHash = await this.hashFile(filePath);
 
       // Check if we've already processed this file
       if (!forceReprocess) {
@@ -81,76 +167,124 @@ export class MbsWorkerService {
         }
       }
 
-      // Create ingestion log entry
-      const ingestionLog = await this.db.mbsIngestionLog.create({
-        data: {
-          fileName,
-          fileHash,
-          fileSizeBytes: BigInt(fileStats.size),
-          status: 'processing',
-          processorVersion: '1.0.0',
-        }
+      // Pick up where a failed run over the same file stopped
+      const interrupted = forceReprocess ? null : await this.db.mbsIngestionLog.findFirst({
+        where: { fileHash, status: 'failed', resumeOffset: { gt: 0 } },
+        orderBy: { id: 'desc' },
       });
-      logId = ingestionLog.id;
 
-      console.log(`📋 Starting MBS XML ingestion: ${fileName} (${fileStats.size} bytes)`);
+      const ingestionLog = interrupted
+        ? await this.db.mbsIngestionLog.update({
+          where: { id: interrupted.id },
+          data: { status: 'processing', completedAt: null, errorMessage: null },
+        })
+        : await this.db.mbsIngestionLog.create({
+          data: {
+            fileName,
+            fileHash,
+            fileSizeBytes: BigInt(fileStats.size),
+            status: 'processing',
+            processorVersion: '1.0.0',
+            embeddingModel: this.embeddingProvider?.model,
+            effectiveDate,
+          }
+        });
+      logId = ingestionLog.id;
+      const release: MbsRelease = { logId, effectiveDate: ingestionLog.effectiveDate ?? effectiveDate };
+      const resumeOffset = ingestionLog.resumeOffset ?? 0;
+
+      if (resumeOffset > 0) {
+        console.log(`📋 Resuming MBS XML ingestion: ${fileName} from record ${resumeOffset}`);
+        recordErrors = this.getRecordErrors(ingestionLog.errorDetails);
+      } else {
+        console.log(`📋 Starting MBS XML ingestion: ${fileName} (${fileStats.size} bytes)`);
+      }
 
-      // Security check: Validate file size to prevent resource exhaustion
-      if (fileStats.size > MAX_FILE_SIZE_BYTES) {
-        throw new Error(
-          `File size ${fileStats.size} bytes exceeds maximum allowed size of ${MAX_FILE_SIZE_BYTES} bytes (${MAX_FILE_SIZE_BYTES / (1024 * 1024)}MB)`
-        );
+      // Reject a file laid out unlike a release before any item is touched
+      const validation = await validateMbsXml(this.readFileChunks(filePath));
+      await this.db.mbsIngestionLog.update({
+        where: { id: logId },
+        data: { recordsTotal: validation.recordCount },
+      });
+      console.log(`📋 Found ${validation.recordCount} records in XML`);
+      if (validation.ignoredFields.length > 0) {
+        console.log(`📋 Ignoring fields: ${validation.ignoredFields.join(', ')}`);
       }
 
-      // Parse XML with security options to prevent XXE attacks and resource exhaustion
-      const xmlData = (await parseStringPromise(fileContent, {
-        explicitArray: true,
-        trim: true,
-        normalize: true,
-        // Security options to prevent XXE attacks
-        explicitCharkey: false,
-        explicitRoot: false,
-        // Disable external entity expansion to prevent XXE
-        strict: true,
-        // Additional security: disable processing instructions and attributes to limit attack surface
-        ignoreAttrs: true,
-        // Prevent billion laughs attack by limiting nesting
-        validator: undefined,
-      })) as Record<string, unknown>;
-
-      // Extract items from XML structure
-      const items = this.extractItemsFromXml(xmlData);
-      console.log(`📋 Extracted ${items.length} items from XML`);
-
-      // Process items in batches
-      const batchSize = 100;
-      let itemsProcessed = 0;
-      let itemsInserted = 0;
-      let itemsUpdated = 0;
-      let itemsFailed = 0;
+      // Counts up to the last committed batch; records skipped since then are held back with the next batch
+      let itemsProcessed = resumeOffset > 0 ? ingestionLog.itemsProcessed : 0;
+      let itemsInserted = resumeOffset > 0 ? ingestionLog.itemsInserted : 0;
+      let itemsUpdated = resumeOffset > 0 ? ingestionLog.itemsUpdated : 0;
+      let itemsFailed = resumeOffset > 0 ? ingestionLog.itemsFailed : 0;
+      let skipped: MbsXmlRecordError[] = [];
+      let batch: MbsXmlRecord[] = [];
+      const listedItems = new Set<number>();
+
+      const commitBatch = async (nextOffset: number) => {
+        const first = batch[0];
+        if (first) {
+          try {
+            const batchResult = await this.db.$transaction(async (tx) => {
+              return await this.processBatch(batch.map(record => record.item), release, tx);
+            });
+            itemsProcessed += batchResult.processed;
+            itemsInserted += batchResult.inserted;
+            itemsUpdated += batchResult.updated;
+            itemsFailed += batchResult.failed;
+          } catch (error) {
+            failedBatch = { fromRecord: first.index, toRecord: batch[batch.length - 1]!.index, line: first.line };
+            throw error;
+          }
+        }
 
-      for (let i = 0; i < items.length; i += batchSize) {
-        const batch = items.slice(i, i + batchSize);
-        
-        try {
-          // Wrap batch processing in a transaction
-          const batchResult = await this.db.$transaction(async (tx) => {
-            return await this.processBatch(batch, tx);
-          });
-          
-          itemsProcessed += batchResult.processed;
-          itemsInserted += batchResult.inserted;
-          itemsUpdated += batchResult.updated;
-          itemsFailed += batchResult.failed;
-
-          console.log(`📋 Processed batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(items.length / batchSize)}: ${batchResult.processed} items`);
-        } catch (error) {
-          console.error(`❌ Failed to process batch ${Math.floor(i / batchSize) + 1}:`, error);
-          // Count all items in the failed batch as failed
-          itemsFailed += batch.length;
+        itemsFailed += skipped.length;
+        recordErrors = [...recordErrors, ...skipped].slice(0, MAX_RECORD_ERRORS);
+        await this.db.mbsIngestionLog.update({
+          where: { id: release.logId },
+          data: {
+            itemsProcessed,
+            itemsInserted,
+            itemsUpdated,
+            itemsFailed,
+            resumeOffset: nextOffset,
+            errorDetails: recordErrors.length > 0 ? { recordErrors } : Prisma.DbNull,
+          },
+        });
+        console.log(`📋 Committed records up to ${nextOffset}/${validation.recordCount}`);
+        await onProgress?.(Math.round((nextOffset / validation.recordCount) * 100));
+
+        batch = [];
+        skipped = [];
+      };
+
+      for await (const record of readMbsXmlRecords(this.readFileChunks(filePath))) {
+        const itemNumber = parseInt(record.item.ItemNum?.[0] ?? '', 10);
+        if (!isNaN(itemNumber)) {
+          listedItems.add(itemNumber);
+        }
+        if (record.index < resumeOffset) {
+          continue;
+        }
+
+        const problem = this.checkRecord(record.item);
+        if (problem) {
+          skipped.push({ record: record.index, line: record.line, itemNumber: record.item.ItemNum?.[0], message: problem });
+        } else {
+          batch.push(record);
+        }
+
+        if (batch.length >= BATCH_SIZE) {
+          await commitBatch(record.index + 1);
         }
       }
+      await commitBatch(validation.recordCount);
+
+      // No usable item numbers means the file wasn't understood, not that every item was withdrawn
+      if (listedItems.size > 0) {
+        await this.retireMissingItems([...listedItems], release);
+      }
 
+      const changeSummary = await this.summarizeRelease(logId);
       const processingTimeMs = Date.now() - startTime;
 
       // Update ingestion log
@@ -164,6 +298,8 @@ export class MbsWorkerService {
           itemsUpdated,
           itemsFailed,
           processingTimeMs,
+          resumeOffset: null,
+          ...(changeSummary && { changeSummary: { ...changeSummary } }),
         }
       });
 
@@ -176,16 +312,25 @@ export class MbsWorkerService {
         itemsUpdated,
         itemsFailed,
         processingTimeMs,
+        changeSummary,
+        ...(recordErrors.length > 0 && { errorDetails: { recordErrors } }),
       };
 
     } catch (error) {
       const processingTimeMs = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      const errorDetails = error instanceof Error ? { stack: error.stack } : { error: String(error) };
+      const errorMessage = failedBatch
+        ? `Batch of records ${failedBatch.fromRecord}-${failedBatch.toRecord} (from line ${failedBatch.line}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        : error instanceof Error ? error.message : 'Unknown error';
+      const errorDetails = {
+        ...(error instanceof Error ? { stack: error.stack } : { error: String(error) }),
+        ...(error instanceof MbsXmlFormatError && error.line && { line: error.line }),
+        ...(failedBatch && { failedBatch }),
+        ...(recordErrors.length > 0 && { recordErrors }),
+      };
 
       console.error(`❌ MBS XML ingestion failed:`, error);
 
-      // Update ingestion log with error
+      // Update ingestion log with error, leaving the resume offset at the last committed batch
       if (logId) {
         await this.db.mbsIngestionLog.update({
           where: { id: logId },
@@ -212,56 +357,46 @@ export class MbsWorkerService {
     }
   }
 
-  private extractItemsFromXml(xmlData: Record<string, unknown>): MbsXmlItem[] {
-    // Navigate XML structure to find items
-    // This will need to be adjusted based on actual MBS XML structure
-    const items: MbsXmlItem[] = [];
-    
+  private async *readFileChunks(filePath: string): AsyncGenerator<Buffer> {
+    const file = await open(filePath, 'r');
     try {
-      // console.log('🔍 Full XML data structure:', JSON.stringify(xmlData, null, 2));
-      
-      // Common XML structures for MBS data
-      // Helper function to safely access nested properties
-      const safeGet = (obj: unknown, path: string[]): unknown => {
-        return path.reduce((current: unknown, key: string) => {
-          if (current && typeof current === 'object' && key in current) {
-            return (current as Record<string, unknown>)[key];
-          }
-          return undefined;
-        }, obj);
-      };
-
-      const possiblePaths = [
-        safeGet(xmlData, ['Data']), // Real MBS XML - Data is the root array
-        safeGet(xmlData, ['MBS_XML', '0', 'Data']), // Alternative structure
-        safeGet(xmlData, ['MBS_XML', 'Data']), // Alternative real MBS XML structure
-        safeGet(xmlData, ['MBS', 'Items', '0', 'Item']), // Test XML structure
-        safeGet(xmlData, ['MBS', '0', 'Items', '0', 'Item']), 
-        safeGet(xmlData, ['MBS', 'Items', 'Item']),
-        safeGet(xmlData, ['Items', 'Item']),
-        safeGet(xmlData, ['Item']),
-        safeGet(xmlData, ['MBSItems', 'Item']),
-      ];
-
-      for (const path of possiblePaths) {
-        if (Array.isArray(path)) {
-          items.push(...(path as MbsXmlItem[]));
-          break;
-        }
-      }
-
-      if (items.length === 0) {
-        console.warn('⚠️ No items found in XML. XML structure:', JSON.stringify(Object.keys(xmlData), null, 2));
+      for (;;) {
+        const { bytesRead, buffer } = await file.read(Buffer.alloc(READ_CHUNK_BYTES), 0, READ_CHUNK_BYTES, null);
+        if (bytesRead === 0) break;
+        yield buffer.subarray(0, bytesRead);
       }
+    } finally {
+      await file.close();
+    }
+  }
 
-    } catch (error) {
-      console.error('❌ Error extracting items from XML:', error);
+  private async hashFile(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of this.readFileChunks(filePath)) {
+      hash.update(chunk);
     }
+    return hash.digest('hex');
+  }
 
-    return items;
+  /**
+   * Why a record can't be loaded, if it can't
+   */
+  private checkRecord(item: MbsXmlItem): string | undefined {
+    const itemNumber = item.ItemNum?.[0];
+    if (!itemNumber) return 'Missing ItemNum';
+    if (!/^\d+$/.test(itemNumber)) return `ItemNum "${itemNumber}" is not a number`;
+    if (!item.Descriptor?.[0]) return 'Missing Descriptor';
+    return undefined;
   }
 
-  private async processBatch(items: MbsXmlItem[], tx?: Prisma.TransactionClient): Promise<{
+  private getRecordErrors(errorDetails: Prisma.JsonValue): MbsXmlRecordError[] {
+    if (errorDetails && typeof errorDetails === 'object' && 'recordErrors' in errorDetails && Array.isArray(errorDetails.recordErrors)) {
+      return errorDetails.recordErrors as unknown as MbsXmlRecordError[];
+    }
+    return [];
+  }
+
+  private async processBatch(items: MbsXmlItem[], release: MbsRelease, tx?: Prisma.TransactionClient): Promise<{
     processed: number;
     inserted: number;
     updated: number;
@@ -302,6 +437,8 @@ export class MbsWorkerService {
         }
         processed++;
 
+        await this.recordItemVersion(itemData.itemNumber, itemData, release, dbClient);
+
       } catch (error) {
         console.error(`❌ Failed to process item:`, xmlItem, error);
         // In transaction mode, we want to fail the entire batch
@@ -315,6 +452,80 @@ export class MbsWorkerService {
     return { processed, inserted, updated, failed };
   }
 
+  /**
+   * Start a new version of the item if this release changed it
+   */
+  private async recordItemVersion(
+    itemNumber: number,
+    itemData: VersionedItemData,
+    release: MbsRelease,
+    dbClient: Prisma.TransactionClient | PrismaClient,
+  ): Promise<void> {
+    const current = await dbClient.mbsItemVersion.findFirst({
+      where: { itemNumber, retiredLogId: null, validTo: null },
+      orderBy: { id: 'desc' },
+    });
+
+    const changed = !current || VERSIONED_FIELDS.some(
+      field => normalizeVersionValue(current[field]) !== normalizeVersionValue(itemData[field])
+    );
+    if (!changed) {
+      return;
+    }
+
+    if (current) {
+      await dbClient.mbsItemVersion.update({
+        where: { id: current.id },
+        data: { retiredLogId: release.logId, validTo: release.effectiveDate },
+      });
+    }
+
+    await dbClient.mbsItemVersion.create({
+      data: {
+        ...(Object.fromEntries(VERSIONED_FIELDS.map(field => [field, itemData[field]])) as Omit<
+          Prisma.MbsItemVersionUncheckedCreateInput,
+          'itemNumber' | 'validFrom'
+        >),
+        itemNumber,
+        ingestionLogId: release.logId,
+        validFrom: release.effectiveDate,
+      },
+    });
+  }
+
+  /**
+   * Retire the current version of items the release no longer lists, and deactivate them
+   */
+  private async retireMissingItems(listed: number[], release: MbsRelease): Promise<void> {
+    const retired = await this.db.mbsItemVersion.updateMany({
+      where: { retiredLogId: null, validTo: null, itemNumber: { notIn: listed } },
+      data: { retiredLogId: release.logId, validTo: release.effectiveDate },
+    });
+    await this.db.mbsItem.updateMany({
+      where: { isActive: true, itemNumber: { notIn: listed } },
+      data: { isActive: false, lastUpdated: new Date() },
+    });
+
+    if (retired.count > 0) {
+      console.log(`📋 Retired ${retired.count} items missing from the release`);
+    }
+  }
+
+  /**
+   * Count what changed since the previous release. A failure here is logged
+   * rather than failing an ingestion whose items have already been saved.
+   */
+  private async summarizeRelease(logId: number): Promise<MbsReleaseChangeSummary | undefined> {
+    try {
+      const historyService = new MbsItemHistoryService(this.db);
+      const previousLogId = await historyService.getPreviousReleaseLogId(logId);
+      return await historyService.summarizeChanges(previousLogId, logId);
+    } catch (error) {
+      console.warn(`⚠️ Failed to summarise changes for ingestion ${logId}:`, error);
+      return undefined;
+    }
+  }
+
   private transformXmlItem(xmlItem: MbsXmlItem): Record<string, unknown> {
     // Helper function to safely extract first array element
     const getFirst = (arr: string[] | undefined): string | undefined => arr?.[0];
@@ -364,8 +575,25 @@ export class MbsWorkerService {
     };
   }
 
-  async generateEmbeddings(itemIds?: number[], batchSize = 50): Promise<MbsProcessingResult> {
+  /**
+   * Embed items with the configured provider, recording the model and
+   * dimensions alongside each vector. Does nothing when embeddings are turned off.
+   */
+  async generateEmbeddings(itemIds?: number[], batchSize = 50, onProgress?: MbsProgressCallback): Promise<MbsProcessingResult> {
     const startTime = Date.now();
+    const provider = this.embeddingProvider;
+
+    if (!provider) {
+      console.log(`🧠 No embedding provider configured, skipping MBS embeddings`);
+      return {
+        success: true,
+        itemsProcessed: 0,
+        itemsInserted: 0,
+        itemsUpdated: 0,
+        itemsFailed: 0,
+        processingTimeMs: 0,
+      };
+    }
 
     try {
       // Get items that need embeddings
@@ -382,13 +610,13 @@ export class MbsWorkerService {
         }
       });
 
-      console.log(`🧠 Generating embeddings for ${items.length} items`);
+      console.log(`🧠 Generating ${provider.model} embeddings for ${items.length} items`);
 
       let processed = 0;
       let failed = 0;
       const embeddingStartTime = Date.now();
 
-      // Process in batches to respect OpenAI rate limits
+      // Process in batches to respect provider rate limits
       for (let i = 0; i < items.length; i += batchSize) {
         const batch = items.slice(i, i + batchSize);
         
@@ -397,27 +625,21 @@ export class MbsWorkerService {
         
         while (retries < maxRetries) {
           try {
-            // Prepare texts for embedding
-            const texts = batch.map(item => 
-              `MBS Item ${item.itemNumber}: ${item.description} ${item.category ?? ''} ${item.groupName ?? ''} ${item.serviceType ?? ''}`
-            );
-
-            // Generate embeddings
-            const response = await this.openai.embeddings.create({
-              model: 'text-embedding-3-large',
-              input: texts,
-              encoding_format: 'float',
-            });
+            const embeddings = await provider.embed(batch.map(buildMbsEmbeddingText));
 
-            // Update items with embeddings using raw SQL
+            // Update items with embeddings using raw SQL. An item embedded with the
+            // model a migration is moving to no longer needs migrating.
             for (let j = 0; j < batch.length; j++) {
               const item = batch[j];
-              const embedding = response.data[j]?.embedding;
+              const embedding = embeddings[j];
 
-              if (embedding && item) {
+              if (embedding?.length && item) {
                 await this.db.$executeRaw`
                   UPDATE mbs.items 
-                  SET embedding = ${JSON.stringify(embedding)}::vector 
+                  SET embedding = ${JSON.stringify(embedding)}::vector,
+                      embedding_model = ${provider.model},
+                      embedding_dimensions = ${embedding.length},
+                      next_embedding = NULL
                   WHERE id = ${item.id}
                 `;
                 processed++;
@@ -428,6 +650,7 @@ export class MbsWorkerService {
             }
 
             console.log(`🧠 Processed embedding batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(items.length / batchSize)}`);
+            await onProgress?.(Math.round((Math.min(i + batchSize, items.length) / items.length) * 100));
 
             // Rate limiting: wait between batches
             if (i + batchSize < items.length) {
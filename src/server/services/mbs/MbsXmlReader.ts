@@ -0,0 +1,177 @@
+import sax from "sax";
+import type { MbsXmlItem } from "./MbsWorkerService";
+
+// MBS XML releases are a flat list of <Data> records under an <MBS_XML> root
+export const MBS_XML_ROOT_ELEMENT = "MBS_XML";
+export const MBS_XML_RECORD_ELEMENT = "Data";
+
+// Fields the ingestion reads. Releases carry others (fee change flags, EMSN caps and so on), which are ignored.
+export const MBS_XML_KNOWN_FIELDS = [
+  "ItemNum",
+  "Descriptor",
+  "Category",
+  "SubCategory",
+  "Group",
+  "SubGroup",
+  "ProviderType",
+  "ServiceType",
+  "ScheduleFee",
+  "Benefit75",
+  "Benefit85",
+  "Benefit100",
+  "HasAnaesthetic",
+  "AnaestheticBasicUnits",
+  "DerivedFee",
+  "ItemStartDate",
+  "ItemEndDate",
+  "LastUpdated",
+] as const satisfies ReadonlyArray<keyof MbsXmlItem>;
+
+// No field in a real release comes close; anything larger is a malformed or hostile file
+const MAX_FIELD_LENGTH = 64 * 1024;
+
+export interface MbsXmlRecord {
+  index: number; // Position among the file's records, from 0
+  line: number; // Line the record starts on, from 1
+  item: MbsXmlItem;
+}
+
+export interface MbsXmlValidation {
+  recordCount: number;
+  ignoredFields: string[]; // Field names present in the file that the ingestion doesn't read
+}
+
+/**
+ * The file isn't well-formed XML, or isn't laid out like an MBS release
+ */
+export class MbsXmlFormatError extends Error {
+  constructor(
+    message: string,
+    public readonly line?: number,
+  ) {
+    super(line ? `${message} (line ${line})` : message);
+    this.name = "MbsXmlFormatError";
+  }
+}
+
+async function* decodeChunks(chunks: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+  // Streaming decode keeps multi-byte characters split across chunks intact
+  const decoder = new TextDecoder("utf-8");
+  for await (const chunk of chunks) {
+    yield typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+  }
+  const rest = decoder.decode();
+  if (rest) {
+    yield rest;
+  }
+}
+
+/**
+ * Read <Data> records from an MBS XML release as the file streams in, holding
+ * only the records from the current chunk in memory. Records come back in the
+ * shape xml2js produced, with each field's text in an array.
+ *
+ * @throws {MbsXmlFormatError} on malformed XML, an unexpected element layout, or a file with no records
+ */
+export async function* readMbsXmlRecords(chunks: AsyncIterable<Buffer | string>): AsyncGenerator<MbsXmlRecord> {
+  const parser = sax.parser(true, { trim: true, normalize: true, position: true });
+  const pending: MbsXmlRecord[] = [];
+
+  let depth = 0;
+  let sawRoot = false;
+  let recordCount = 0;
+  let record: Record<string, string[]> | null = null;
+  let recordLine = 0;
+  let field: { name: string; text: string } | null = null;
+
+  // sax counts lines from 0
+  const currentLine = () => parser.line + 1;
+
+  parser.onerror = (error) => {
+    throw new MbsXmlFormatError(`Invalid XML: ${error.message.split("\n")[0]}`, currentLine());
+  };
+
+  parser.onopentag = (tag) => {
+    depth++;
+
+    if (depth === 1) {
+      if (tag.name !== MBS_XML_ROOT_ELEMENT) {
+        throw new MbsXmlFormatError(`Expected an <${MBS_XML_ROOT_ELEMENT}> root element but found <${tag.name}>`, currentLine());
+      }
+      sawRoot = true;
+    } else if (depth === 2) {
+      if (tag.name !== MBS_XML_RECORD_ELEMENT) {
+        throw new MbsXmlFormatError(`Expected <${MBS_XML_RECORD_ELEMENT}> records but found <${tag.name}>`, currentLine());
+      }
+      record = {};
+      recordLine = currentLine();
+    } else if (depth === 3) {
+      field = { name: tag.name, text: "" };
+    } else {
+      throw new MbsXmlFormatError(`Unexpected <${tag.name}> inside <${field?.name}>`, currentLine());
+    }
+  };
+
+  const appendText = (text: string) => {
+    if (!field) {
+      if (text.trim()) {
+        throw new MbsXmlFormatError(`Unexpected text outside a field`, currentLine());
+      }
+      return;
+    }
+    field.text += text;
+    if (field.text.length > MAX_FIELD_LENGTH) {
+      throw new MbsXmlFormatError(`<${field.name}> is longer than ${MAX_FIELD_LENGTH} characters`, currentLine());
+    }
+  };
+  parser.ontext = appendText;
+  parser.oncdata = appendText;
+
+  parser.onclosetag = () => {
+    if (depth === 3 && record && field) {
+      (record[field.name] ??= []).push(field.text);
+      field = null;
+    } else if (depth === 2 && record) {
+      pending.push({ index: recordCount++, line: recordLine, item: record as unknown as MbsXmlItem });
+      record = null;
+    }
+    depth--;
+  };
+
+  for await (const text of decodeChunks(chunks)) {
+    parser.write(text);
+    yield* pending.splice(0);
+  }
+  parser.close();
+  yield* pending.splice(0);
+
+  if (!sawRoot) {
+    throw new MbsXmlFormatError("File contains no XML elements");
+  }
+  if (recordCount === 0) {
+    throw new MbsXmlFormatError(`File contains no <${MBS_XML_RECORD_ELEMENT}> records`);
+  }
+}
+
+/**
+ * Check a release's layout before any items are written, so an unexpected
+ * file is rejected outright rather than ingesting nothing
+ *
+ * @throws {MbsXmlFormatError} as for readMbsXmlRecords
+ */
+export async function validateMbsXml(chunks: AsyncIterable<Buffer | string>): Promise<MbsXmlValidation> {
+  const known = new Set<string>(MBS_XML_KNOWN_FIELDS);
+  const ignoredFields = new Set<string>();
+  let recordCount = 0;
+
+  for await (const record of readMbsXmlRecords(chunks)) {
+    recordCount++;
+    for (const name of Object.keys(record.item)) {
+      if (!known.has(name)) {
+        ignoredFields.add(name);
+      }
+    }
+  }
+
+  return { recordCount, ignoredFields: [...ignoredFields].sort() };
+}
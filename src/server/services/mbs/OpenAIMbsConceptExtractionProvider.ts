@@ -0,0 +1,76 @@
+import OpenAI from "openai";
+import { z } from "zod";
+import type {
+  ConceptExtractionInput,
+  ConceptExtractionOutput,
+  MbsConceptExtractionProvider,
+} from "./MbsConceptExtractionProvider";
+
+const CONCEPT_EXTRACTION_MODEL = "gpt-4o-mini";
+
+const responseSchema = z.object({
+  concepts: z.array(z.object({
+    label: z.string().min(1),
+    searchQuery: z.string().min(1),
+    excerpt: z.string(),
+    confidence: z.number().min(0).max(1),
+  })),
+});
+
+/**
+ * Extracts billable concepts from a note with the OpenAI chat completions API
+ */
+export class OpenAIMbsConceptExtractionProvider implements MbsConceptExtractionProvider {
+  readonly name = "openai";
+  private openai: OpenAI;
+
+  constructor(openaiApiKey: string) {
+    this.openai = new OpenAI({ apiKey: openaiApiKey });
+  }
+
+  async extractConcepts(input: ConceptExtractionInput): Promise<ConceptExtractionOutput> {
+    const completion = await this.openai.chat.completions.create({
+      model: CONCEPT_EXTRACTION_MODEL,
+      temperature: 0,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: this.buildSystemPrompt() },
+        { role: "user", content: this.buildNotePrompt(input) },
+      ],
+    });
+
+    const raw = completion.choices[0]?.message.content;
+    if (!raw) {
+      throw new Error("Concept extraction returned an empty response");
+    }
+
+    const parsed = responseSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success) {
+      throw new Error(`Concept extraction returned an invalid response: ${parsed.error.message}`);
+    }
+
+    return { concepts: parsed.data.concepts, model: completion.model };
+  }
+
+  private buildSystemPrompt(): string {
+    return [
+      "You are a billing assistant for an Australian general practice.",
+      "List the services documented in the clinical note that could be billed under the Medicare Benefits Schedule (MBS):",
+      "the attendance itself, sized by its length, and any procedure, plan, assessment or test performed during it.",
+      "Only list services the note shows were performed - never services that were only discussed or planned for later.",
+      "",
+      'Respond with JSON: {"concepts": [{"label": string, "searchQuery": string, "excerpt": string, "confidence": number}]}',
+      "where label is a short name for the service, searchQuery describes it in the wording of an MBS item description,",
+      "excerpt quotes the note text that documents it, and confidence (0-1) reflects how clearly the note supports billing it.",
+    ].join("\n");
+  }
+
+  private buildNotePrompt(input: ConceptExtractionInput): string {
+    return [
+      `Note type: ${input.noteType}`,
+      `Consultation length: ${input.durationMinutes === undefined ? "not recorded" : `${input.durationMinutes} minutes`}`,
+      "",
+      input.noteContent,
+    ].join("\n");
+  }
+}
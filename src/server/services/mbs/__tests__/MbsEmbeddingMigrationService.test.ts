@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Prisma, PrismaClient } from '@/generated/prisma';
+import { MbsEmbeddingMigrationService } from '../MbsEmbeddingMigrationService';
+import { FakeEmbeddingProvider } from '@/server/services/embedding/FakeEmbeddingProvider';
+
+const item = (id: number) => ({
+  id,
+  itemNumber: 20 + id,
+  description: `Professional attendance ${id}`,
+  category: '1',
+  groupName: 'A1',
+  serviceType: null,
+});
+
+const migration = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  provider: 'fake',
+  model: 'fake-embedding',
+  dimensions: 8,
+  status: 'running',
+  itemsTotal: 3,
+  itemsEmbedded: 0,
+  itemsFailed: 0,
+  errorMessage: null,
+  startedAt: new Date('2025-08-05T10:00:00Z'),
+  completedAt: null,
+  ...overrides,
+});
+
+const sqlText = (call: unknown[]) => (call[0] as TemplateStringsArray).join('?');
+
+function createDb() {
+  return {
+    $queryRaw: vi.fn(),
+    $executeRaw: vi.fn().mockResolvedValue(1),
+    mbsEmbeddingMigration: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      findUnique: vi.fn(),
+      create: vi.fn().mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(migration(data))),
+      update: vi.fn().mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(migration(data))),
+    },
+  };
+}
+
+describe('MbsEmbeddingMigrationService', () => {
+  let db: ReturnType<typeof createDb>;
+  let provider: FakeEmbeddingProvider;
+  let service: MbsEmbeddingMigrationService;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    db = createDb();
+    provider = new FakeEmbeddingProvider({ dimensions: 8 });
+    service = new MbsEmbeddingMigrationService(
+      db as unknown as Pick<PrismaClient, '$queryRaw' | '$executeRaw' | 'mbsEmbeddingMigration'>,
+      provider
+    );
+  });
+
+  it('starts a migration for every item not yet on the configured model', async () => {
+    db.$queryRaw.mockResolvedValueOnce([{ count: 3 }]);
+
+    const started = await service.startMigration();
+
+    expect(started).toMatchObject({ model: 'fake-embedding', dimensions: 8, itemsTotal: 3 });
+    // Vectors a failed run left for some other model are thrown away first
+    expect(sqlText(db.$executeRaw.mock.calls[0]!)).toContain('SET next_embedding = NULL');
+    const countSql = db.$queryRaw.mock.calls[0]![1] as Prisma.Sql;
+    expect(countSql.values).toEqual(['fake-embedding', 8]);
+  });
+
+  it('refuses to start while another migration runs or when nothing needs migrating', async () => {
+    db.mbsEmbeddingMigration.findFirst.mockResolvedValueOnce(migration());
+    await expect(service.startMigration()).rejects.toMatchObject({ code: 'MIGRATION_RUNNING' });
+
+    db.$queryRaw.mockResolvedValueOnce([{ count: 0 }]);
+    await expect(service.startMigration()).rejects.toMatchObject({ code: 'UP_TO_DATE' });
+    expect(db.mbsEmbeddingMigration.create).not.toHaveBeenCalled();
+  });
+
+  it('writes new vectors alongside the old ones and swaps them in at the end', async () => {
+    db.mbsEmbeddingMigration.findUnique.mockResolvedValue(migration());
+    db.$queryRaw
+      .mockResolvedValueOnce([item(1), item(2)])
+      .mockResolvedValueOnce([item(3)])
+      .mockResolvedValueOnce([]);
+    const onProgress = vi.fn();
+
+    const completed = await service.runMigration(7, 2, onProgress);
+
+    expect(completed).toMatchObject({ status: 'completed', itemsEmbedded: 3 });
+
+    const writes = db.$executeRaw.mock.calls.map(sqlText);
+    expect(writes.slice(0, 3).every((sql: string) => sql.includes('SET next_embedding ='))).toBe(true);
+    // The swap and completion happen in a single statement
+    expect(writes[3]).toContain('SET embedding = next_embedding');
+    expect(writes[3]).toContain("SET status = 'completed'");
+
+    const [vector] = await provider.embed(['MBS Item 21: Professional attendance 1 1 A1 ']);
+    expect(db.$executeRaw.mock.calls[0]).toContain(JSON.stringify(vector));
+
+    // Items are paged by id so one that fails to embed is not picked up again
+    const secondPage = db.$queryRaw.mock.calls[1]!;
+    expect(secondPage).toContain(2);
+    expect(onProgress).toHaveBeenLastCalledWith(100);
+  });
+
+  it('leaves a migration failed and unpromoted when items cannot be embedded, then resumes it', async () => {
+    db.mbsEmbeddingMigration.findUnique.mockResolvedValue(migration());
+    db.$queryRaw
+      .mockResolvedValueOnce([item(1), item(2)])
+      .mockResolvedValueOnce([]);
+    vi.spyOn(provider, 'embed').mockImplementation(async (texts: string[]) => [
+      (await new FakeEmbeddingProvider({ dimensions: 8 }).embed(texts))[0]!,
+      [],
+    ]);
+
+    await expect(service.runMigration(7)).rejects.toThrow('1 items could not be embedded');
+
+    expect(db.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(db.mbsEmbeddingMigration.update).toHaveBeenLastCalledWith({
+      where: { id: 7 },
+      data: { status: 'failed', errorMessage: '1 items could not be embedded with fake-embedding' },
+    });
+
+    // Starting again picks the failed run back up instead of discarding its vectors
+    db.mbsEmbeddingMigration.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(migration({ status: 'failed', itemsEmbedded: 1 }));
+    db.$queryRaw.mockResolvedValueOnce([{ count: 1 }]);
+
+    const resumed = await service.startMigration();
+
+    expect(resumed).toMatchObject({ status: 'running', itemsTotal: 2 });
+    expect(db.mbsEmbeddingMigration.create).not.toHaveBeenCalled();
+    expect(db.$executeRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('will not run a migration to a model that is no longer configured', async () => {
+    db.mbsEmbeddingMigration.findUnique.mockResolvedValue(migration({ dimensions: 16 }));
+
+    await expect(service.runMigration(7)).rejects.toMatchObject({ code: 'MODEL_MISMATCH' });
+    expect(db.$queryRaw).not.toHaveBeenCalled();
+  });
+});
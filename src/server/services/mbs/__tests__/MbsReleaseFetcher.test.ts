@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { PrismaClient } from '@/generated/prisma';
+import { MbsReleaseFetcher } from '../MbsReleaseFetcher';
+import { MbsReleaseStorageService } from '../MbsReleaseStorageService';
+
+const JULY_RELEASE = '<?xml version="1.0"?>\n<MBS_XML><Data><ItemNum>23</ItemNum><Descriptor>Level B</Descriptor></Data></MBS_XML>';
+const MARCH_RELEASE = '<?xml version="1.0"?>\n<MBS_XML><Data><ItemNum>23</ItemNum><Descriptor>Level B (old)</Descriptor></Data></MBS_XML>';
+
+// Stands in for the MBS Online downloads page and the files it links to
+const ROUTES: Record<string, { contentType: string; body: string }> = {
+  '/downloads': {
+    contentType: 'text/html',
+    body: `<html><body>
+      <a href="/files/MBS-XML-20250301.XML">March 2025</a>
+      <a href="/files/MBS-XML-20250701%20Version%202.XML?download=1">July 2025</a>
+      <a href="/files/notes.pdf">Explanatory notes</a>
+    </body></html>`,
+  },
+  '/files/MBS-XML-20250301.XML': { contentType: 'application/xml', body: MARCH_RELEASE },
+  '/files/MBS-XML-20250701%20Version%202.XML': { contentType: 'application/octet-stream', body: JULY_RELEASE },
+  '/empty': { contentType: 'text/html', body: '<html><body>Nothing yet</body></html>' },
+};
+
+describe('MbsReleaseFetcher', () => {
+  let server: Server;
+  let baseUrl: string;
+  let storageDir: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      const route = ROUTES[request.url?.split('?')[0] ?? ''];
+      if (!route) {
+        response.writeHead(404).end();
+        return;
+      }
+      response.writeHead(200, { 'content-type': route.contentType }).end(route.body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    storageDir = await mkdtemp(path.join(os.tmpdir(), 'mbs-releases-'));
+  });
+
+  afterEach(async () => {
+    await rm(storageDir, { recursive: true, force: true });
+  });
+
+  function createFetcher(feedPath: string, existingLog: { id: number } | null = null) {
+    const db = { mbsIngestionLog: { findFirst: vi.fn().mockResolvedValue(existingLog) } };
+    const queue = {
+      queueFullIngestionPipeline: vi.fn().mockResolvedValue({ xmlJobId: '1', embeddingJobId: '2', vectorJobId: '3' }),
+    };
+    const fetcher = new MbsReleaseFetcher(
+      `${baseUrl}${feedPath}`,
+      new MbsReleaseStorageService(storageDir),
+      db as unknown as Pick<PrismaClient, 'mbsIngestionLog'>,
+      queue
+    );
+    return { fetcher, db, queue };
+  }
+
+  it('downloads the latest linked release and queues it with the date from its name', async () => {
+    const { fetcher, db, queue } = createFetcher('/downloads');
+
+    const result = await fetcher.checkForRelease();
+
+    const fileHash = createHash('sha256').update(JULY_RELEASE).digest('hex');
+    expect(result).toEqual({
+      status: 'queued',
+      releaseUrl: `${baseUrl}/files/MBS-XML-20250701%20Version%202.XML`,
+      fileName: 'MBS-XML-20250701 Version 2.XML',
+      releaseFile: `${fileHash}.xml`,
+      effectiveDate: '2025-07-01',
+      jobIds: { xmlJobId: '1', embeddingJobId: '2', vectorJobId: '3' },
+    });
+    expect(db.mbsIngestionLog.findFirst).toHaveBeenCalledWith({
+      where: { fileHash, status: { in: ['completed', 'processing'] } },
+      select: { id: true },
+    });
+    expect(queue.queueFullIngestionPipeline).toHaveBeenCalledWith(
+      path.join(storageDir, `${fileHash}.xml`),
+      'MBS-XML-20250701 Version 2.XML',
+      false,
+      '2025-07-01'
+    );
+    await expect(readFile(path.join(storageDir, `${fileHash}.xml`), 'utf-8')).resolves.toBe(JULY_RELEASE);
+  });
+
+  it('accepts a feed URL that points straight at a release', async () => {
+    const { fetcher } = createFetcher('/files/MBS-XML-20250301.XML');
+
+    const result = await fetcher.checkForRelease();
+
+    expect(result).toEqual(expect.objectContaining({ status: 'queued', effectiveDate: '2025-03-01' }));
+  });
+
+  it('skips a release that has already been ingested', async () => {
+    const { fetcher, queue } = createFetcher('/downloads', { id: 4 });
+
+    const result = await fetcher.checkForRelease();
+
+    expect(result.status).toBe('up-to-date');
+    expect(queue.queueFullIngestionPipeline).not.toHaveBeenCalled();
+  });
+
+  it('fails when the feed is unavailable or links to no release', async () => {
+    await expect(createFetcher('/missing').fetcher.checkForRelease()).rejects.toThrow('failed with 404');
+    await expect(createFetcher('/empty').fetcher.checkForRelease()).rejects.toThrow('No MBS XML release is linked');
+
+    // Nothing half-written is left behind
+    expect(await readdir(storageDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateMbsRules, mbsRuleDefinitionSchema, type MbsRule, type MbsRuleContext } from '../MbsRulesEngine';
+
+// A subset of the rules seeded by the mbs_rules migration
+const RULES: MbsRule[] = [
+  {
+    code: 'gp-attendance-one-per-consultation',
+    description: 'Only one general practice attendance item can be claimed for a consultation',
+    severity: 'error',
+    definition: { type: 'exclusive', selector: { items: [3, 23, 36, 44, 123] } },
+  },
+  {
+    code: 'gp-attendance-level-c-duration',
+    description: 'Level C attendances last at least 20 minutes',
+    severity: 'error',
+    definition: { type: 'time-tier', selector: { items: [36] }, minMinutes: 20 },
+  },
+  {
+    code: 'heart-health-assessment-age',
+    description: 'Heart health assessments are for patients aged 30 years and over',
+    severity: 'error',
+    definition: { type: 'age', selector: { items: [699] }, minAge: 30 },
+  },
+  {
+    code: 'heart-health-assessment-frequency',
+    description: 'A heart health assessment can be claimed once in 12 months',
+    severity: 'error',
+    definition: { type: 'frequency', selector: { items: [699] }, maxClaims: 1, periodDays: 365 },
+  },
+  {
+    code: 'ecg-same-day',
+    description: 'An ECG tracing can be claimed once per day',
+    severity: 'error',
+    definition: { type: 'frequency', selector: { items: [11707] }, maxClaims: 1, periodDays: 1 },
+  },
+];
+
+function createContext(overrides: Partial<MbsRuleContext> = {}): MbsRuleContext {
+  return {
+    items: [],
+    serviceDate: new Date('2025-08-05T09:00:00'),
+    durationMinutes: 24,
+    patientAge: 52,
+    priorClaims: [],
+    ...overrides,
+  };
+}
+
+describe('evaluateMbsRules', () => {
+  it('accepts items that satisfy every rule', () => {
+    const result = evaluateMbsRules(RULES, createContext({ items: [{ itemNumber: 36 }, { itemNumber: 11707 }] }));
+
+    expect(result).toEqual({ valid: true, violations: [] });
+  });
+
+  it('flags mutually exclusive attendance items', () => {
+    const result = evaluateMbsRules(RULES, createContext({ items: [{ itemNumber: 23 }, { itemNumber: 36 }] }));
+
+    expect(result.valid).toBe(false);
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        ruleCode: 'gp-attendance-one-per-consultation',
+        itemNumbers: [23, 36],
+        message: "Items 23 and 36 can't be claimed for the same consultation",
+      }),
+    ]);
+  });
+
+  it('explains time tier and age limits with the consultation details', () => {
+    const result = evaluateMbsRules(
+      RULES,
+      createContext({ items: [{ itemNumber: 36 }, { itemNumber: 699 }], durationMinutes: 14, patientAge: 27 })
+    );
+
+    expect(result.violations.map(violation => violation.message)).toEqual([
+      'Item 36 needs a consultation of at least 20 minutes, but it lasted 14',
+      'Item 699 is for patients aged 30 and over, but the patient is 27',
+    ]);
+  });
+
+  it('only warns when the duration or age needed for a rule is unknown', () => {
+    const result = evaluateMbsRules(
+      RULES,
+      createContext({ items: [{ itemNumber: 36 }], durationMinutes: undefined })
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.violations).toEqual([
+      expect.objectContaining({ severity: 'warning', unchecked: true, ruleCode: 'gp-attendance-level-c-duration' }),
+    ]);
+  });
+
+  it('counts earlier claims within the frequency period', () => {
+    const items = [{ itemNumber: 699 }, { itemNumber: 11707 }];
+    const priorClaims = [
+      { itemNumber: 699, serviceDate: new Date('2025-02-10T10:00:00') },
+      { itemNumber: 11707, serviceDate: new Date('2025-08-04T16:00:00') }, // The day before
+    ];
+
+    const result = evaluateMbsRules(RULES, createContext({ items, priorClaims }));
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        ruleCode: 'heart-health-assessment-frequency',
+        message: 'Item 699 can be claimed once in 365 days, and item 699 was already claimed on 10 Feb 2025',
+      }),
+    ]);
+
+    const sameDay = evaluateMbsRules(
+      RULES,
+      createContext({ items, priorClaims: [{ itemNumber: 11707, serviceDate: new Date('2025-08-05T08:15:00') }] })
+    );
+    expect(sameDay.violations.map(violation => violation.ruleCode)).toEqual(['ecg-same-day']);
+  });
+
+  it('matches items by group and skips rules outside their effective dates', () => {
+    const rules: MbsRule[] = [
+      {
+        code: 'group-a1-exclusive',
+        description: 'One group A1 attendance per consultation',
+        severity: 'warning',
+        definition: { type: 'exclusive', selector: { groups: ['A1'] } },
+      },
+      {
+        code: 'retired-rule',
+        description: 'Retired before the consultation',
+        severity: 'error',
+        definition: { type: 'exclusive', selector: { items: [3, 23] } },
+        effectiveTo: new Date('2025-06-30'),
+      },
+    ];
+
+    const result = evaluateMbsRules(
+      rules,
+      createContext({ items: [{ itemNumber: 3, groupName: 'A1' }, { itemNumber: 23, groupName: 'A1' }] })
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.violations.map(violation => violation.ruleCode)).toEqual(['group-a1-exclusive']);
+  });
+
+  it('rejects rule definitions without items or groups', () => {
+    const parsed = mbsRuleDefinitionSchema.safeParse({ type: 'exclusive', selector: { items: [] } });
+
+    expect(parsed.success).toBe(false);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Prisma } from '@/generated/prisma';
+import { MbsSearchService, parseHighlightedSnippet } from '../MbsSearchService';
+import { FakeEmbeddingProvider } from '@/server/services/embedding/FakeEmbeddingProvider';
+
+const mockDb = {
+  $queryRaw: vi.fn(),
+};
+
+// ts_headline() wraps matches in the private-use markers the service asks for
+const mark = (text: string) => `\uE000${text}\uE001`;
+
+const row = (itemNumber: number, overrides: Record<string, unknown> = {}) => ({
+  item_number: itemNumber,
+  description: 'Professional attendance by a general practitioner lasting at least 20 minutes',
+  short_description: null,
+  category: '1',
+  group_name: 'A1',
+  provider_type: 'G',
+  schedule_fee: 41.4,
+  item_start_date: new Date('2023-11-01'),
+  item_end_date: null,
+  is_active: true,
+  headline: `Professional attendance by a general practitioner lasting at least ${mark('20')} ${mark('minutes')}`,
+  text_rank: 0.5,
+  similarity: null,
+  score: 0.5,
+  ...overrides,
+});
+
+const sqlOf = (call: unknown[]) => call[0] as Prisma.Sql;
+
+// Models behind the stored vectors, as the service looks them up before searching
+const liveModel = (model: string, dimensions: number) => ({ model, dimensions, next: false });
+const migratingTo = (model: string, dimensions: number) => ({ model, dimensions, next: true });
+
+const vectorOf = async (provider: FakeEmbeddingProvider, query: string) =>
+  `[${(await provider.embed([query]))[0]!.join(',')}]`;
+
+describe('MbsSearchService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('splits ts_headline output into highlighted parts', () => {
+    expect(parseHighlightedSnippet(`lasting at least ${mark('20')} ${mark('minutes')} each`)).toEqual([
+      { text: 'lasting at least ', highlighted: false },
+      { text: '20', highlighted: true },
+      { text: ' ', highlighted: false },
+      { text: 'minutes', highlighted: true },
+      { text: ' each', highlighted: false },
+    ]);
+  });
+
+  it('searches text only when there is no embedding provider', async () => {
+    mockDb.$queryRaw.mockResolvedValueOnce([row(23)]);
+    const service = new MbsSearchService(mockDb);
+
+    const response = await service.search('standard consultation', { filters: { categories: ['1'] } });
+
+    expect(response.mode).toBe('text');
+    expect(response.results[0]).toMatchObject({
+      itemNumber: 23,
+      scheduleFee: 41.4,
+      similarity: undefined,
+      snippet: expect.arrayContaining([{ text: '20', highlighted: true }]) as unknown,
+    });
+    expect(mockDb.$queryRaw).toHaveBeenCalledTimes(1);
+    const sql = sqlOf(mockDb.$queryRaw.mock.calls[0]!);
+    expect(sql.sql).not.toContain('<=>');
+    expect(sql.values).toContainEqual(['1']);
+  });
+
+  it('falls back to text search before any items have embeddings', async () => {
+    const provider = new FakeEmbeddingProvider({ dimensions: 8 });
+    const embed = vi.spyOn(provider, 'embed');
+    mockDb.$queryRaw
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([row(23)]);
+
+    const response = await new MbsSearchService(mockDb, provider).search('chest pain review');
+
+    expect(response.mode).toBe('text');
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  it('falls back to text search when the query cannot be embedded', async () => {
+    const provider = new FakeEmbeddingProvider({ dimensions: 8 });
+    vi.spyOn(provider, 'embed').mockRejectedValue(new Error('rate limited'));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockDb.$queryRaw
+      .mockResolvedValueOnce([liveModel('fake-embedding', 8)])
+      .mockResolvedValueOnce([row(23)]);
+
+    const response = await new MbsSearchService(mockDb, provider).search('chest pain review');
+
+    expect(response.mode).toBe('text');
+    expect(sqlOf(mockDb.$queryRaw.mock.calls[1]!).sql).not.toContain('<=>');
+  });
+
+  it('blends vector similarity into the search when embeddings exist', async () => {
+    const provider = new FakeEmbeddingProvider({ dimensions: 8 });
+    mockDb.$queryRaw
+      .mockResolvedValueOnce([liveModel('fake-embedding', 8)])
+      .mockResolvedValueOnce([row(36, { similarity: 0.82, score: 0.69 })]);
+
+    const response = await new MbsSearchService(mockDb, provider).search('long consult', {
+      filters: { minFee: 50, activeFrom: new Date('2024-07-01') },
+    });
+
+    expect(response.mode).toBe('hybrid');
+    expect(response.results[0]).toMatchObject({ itemNumber: 36, similarity: 0.82 });
+
+    const sql = sqlOf(mockDb.$queryRaw.mock.calls[1]!);
+    expect(sql.sql).toContain('<=>');
+    expect(sql.sql).not.toContain('i.is_active AND');
+    expect(sql.sql).not.toContain('next_embedding');
+    expect(sql.values).toContain(await vectorOf(provider, 'long consult'));
+    expect(sql.values).toContain('fake-embedding');
+    expect(sql.values).toContain(50);
+  });
+
+  it('reads old and re-embedded vectors while a migration is running', async () => {
+    const provider = new FakeEmbeddingProvider({ dimensions: 8 });
+    const previousProvider = new FakeEmbeddingProvider({ dimensions: 4 });
+    const resolve = vi.fn().mockReturnValue(previousProvider);
+    mockDb.$queryRaw
+      .mockResolvedValueOnce([liveModel('fake-embedding', 4), migratingTo('fake-embedding', 8)])
+      .mockResolvedValueOnce([row(23, { similarity: 0.7, score: 0.6 })]);
+
+    const response = await new MbsSearchService(mockDb, provider, resolve).search('skin lesion excision');
+
+    expect(response.mode).toBe('hybrid');
+    expect(resolve).toHaveBeenCalledWith('fake-embedding', 4);
+
+    // Items not yet migrated match the old query vector, migrated ones the new vector
+    const sql = sqlOf(mockDb.$queryRaw.mock.calls[1]!);
+    expect(sql.sql).toContain('i.next_embedding IS NOT NULL');
+    expect(sql.sql).toContain('AND i.next_embedding IS NULL');
+    expect(sql.values).toContain(await vectorOf(previousProvider, 'skin lesion excision'));
+    expect(sql.values).toContain(await vectorOf(provider, 'skin lesion excision'));
+  });
+
+  it('skips vectors from a model it can no longer reach', async () => {
+    const provider = new FakeEmbeddingProvider({ dimensions: 8 });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockDb.$queryRaw
+      .mockResolvedValueOnce([liveModel('text-embedding-3-large', 3072), liveModel('fake-embedding', 8)])
+      .mockResolvedValueOnce([row(23)]);
+
+    const response = await new MbsSearchService(mockDb, provider).search('skin lesion excision');
+
+    expect(response.mode).toBe('hybrid');
+    const sql = sqlOf(mockDb.$queryRaw.mock.calls[1]!);
+    expect(sql.values).not.toContain('text-embedding-3-large');
+    expect(sql.values).toContain('fake-embedding');
+  });
+});
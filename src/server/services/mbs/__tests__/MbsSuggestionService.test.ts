@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { DataStore, ConsultationRecord, MbsSuggestionInput } from '@/server/datastore/types';
+import type { ClinicalNote } from '@/types/clinical';
+import { FakeMbsConceptExtractionProvider } from '../FakeMbsConceptExtractionProvider';
+import { MbsSuggestionService } from '../MbsSuggestionService';
+import type { MbsSearchResponse, MbsSearchResult } from '../MbsSearchService';
+
+const CONSULTATION_ID = 'consultation-001';
+
+const NOTE_CONTENT = [
+  '## Subjective',
+  '',
+  'Two days of intermittent central chest tightness on exertion.',
+  '',
+  '## Objective',
+  '',
+  'BP 138/84. ECG performed in clinic shows sinus rhythm with no acute changes.',
+  '',
+  '## Plan',
+  '',
+  'Not discussed.',
+].join('\n');
+
+function createNote(overrides: Partial<ClinicalNote> = {}): ClinicalNote {
+  return {
+    id: 'note-001',
+    patientId: 'patient-001',
+    clinicianId: 'clinician-001',
+    consultationId: CONSULTATION_ID,
+    title: 'Chest tightness',
+    content: NOTE_CONTENT,
+    noteType: 'soap',
+    template: 'soap',
+    status: 'pending-review',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// In-memory DataStore covering only the methods the service uses
+function createDataStore(note: ClinicalNote) {
+  const consultation: ConsultationRecord = {
+    id: CONSULTATION_ID,
+    tenantId: 'tenant-001',
+    patientId: 'patient-001',
+    mode: 'standalone',
+    status: 'review',
+    recordingStartTime: new Date('2025-08-05T09:00:00'),
+    recordingEndTime: new Date('2025-08-05T09:24:00'),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const replaceMbsSuggestions = vi.fn(async (_consultationId: string, suggestions: MbsSuggestionInput[]) =>
+    suggestions.map((suggestion, index) => ({ ...suggestion, id: `suggestion-${index}`, status: 'suggested' }))
+  );
+  const dataStore = {
+    getClinicalNote: vi.fn(async () => note),
+    getConsultation: vi.fn(async () => consultation),
+    replaceMbsSuggestions,
+  } as unknown as DataStore;
+
+  return { dataStore, replaceMbsSuggestions };
+}
+
+const item = (itemNumber: number, score: number, description: string): MbsSearchResult => ({
+  itemNumber,
+  description,
+  isActive: true,
+  snippet: [],
+  textRank: score,
+  score,
+});
+
+// Canned MBS search keyed on the start of each concept's query
+function createSearchService() {
+  const responses: Array<[string, MbsSearchResult[]]> = [
+    ['professional attendance', [
+      item(36, 0.8, 'Professional attendance by a general practitioner lasting at least 20 minutes'),
+      item(23, 0.6, 'Professional attendance by a general practitioner lasting less than 20 minutes'),
+      item(5040, 0.1, 'After-hours attendance lasting at least 20 minutes'),
+    ]],
+    ['twelve-lead', [item(11707, 0.5, 'Twelve-lead electrocardiography, tracing only')]],
+  ];
+
+  return {
+    search: vi.fn(async (query: string): Promise<MbsSearchResponse> => ({
+      mode: 'text',
+      results: responses.find(([prefix]) => query.startsWith(prefix))?.[1] ?? [],
+    })),
+  };
+}
+
+describe('MbsSuggestionService', () => {
+  it('suggests the attendance tier and documented procedures from a note under review', async () => {
+    const { dataStore, replaceMbsSuggestions } = createDataStore(createNote());
+    const searchService = createSearchService();
+    const service = new MbsSuggestionService(dataStore, searchService, new FakeMbsConceptExtractionProvider());
+
+    const result = await service.generateSuggestionsForNote('note-001');
+
+    expect(result.success).toBe(true);
+    expect(searchService.search).toHaveBeenCalledWith(
+      'professional attendance by a general practitioner lasting at least 20 minutes',
+      expect.anything()
+    );
+
+    const saved = replaceMbsSuggestions.mock.calls[0]![1];
+    expect(saved.map((suggestion: MbsSuggestionInput) => suggestion.itemNumber)).toEqual([36, 11707, 23]);
+    expect(saved[0]).toMatchObject({
+      confidence: 0.9,
+      matchedConcepts: ['GP attendance, 20 to 39 minutes'],
+      consultationType: 'soap',
+      modelUsed: 'fake-concepts',
+    });
+    expect(saved[1]).toMatchObject({
+      confidence: 0.8,
+      matchedConcepts: ['ECG'],
+      soapExcerpt: 'BP 138/84. ECG performed in clinic shows sinus rhythm with no acute changes.',
+    });
+    // 0.9 * 0.6 / 0.8, with the weak after-hours match dropped
+    expect(saved[2]!.confidence).toBe(0.68);
+  });
+
+  it('skips notes that are no longer under review', async () => {
+    const { dataStore, replaceMbsSuggestions } = createDataStore(createNote({ status: 'signed' }));
+    const searchService = createSearchService();
+    const service = new MbsSuggestionService(dataStore, searchService, new FakeMbsConceptExtractionProvider());
+
+    const result = await service.generateSuggestionsForNote('note-001');
+
+    expect(result).toMatchObject({ success: true, skipped: true });
+    expect(searchService.search).not.toHaveBeenCalled();
+    expect(replaceMbsSuggestions).not.toHaveBeenCalled();
+  });
+
+  it('reports extraction failures without saving suggestions', async () => {
+    const { dataStore, replaceMbsSuggestions } = createDataStore(createNote());
+    const provider = new FakeMbsConceptExtractionProvider();
+    vi.spyOn(provider, 'extractConcepts').mockRejectedValue(new Error('model unavailable'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const service = new MbsSuggestionService(dataStore, createSearchService(), provider);
+
+    const result = await service.generateSuggestionsForNote('note-001');
+
+    expect(result).toMatchObject({ success: false, errorMessage: 'model unavailable' });
+    expect(replaceMbsSuggestions).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { PrismaClient } from '@/generated/prisma';
+import type { Stats } from 'fs';
+import type { FileHandle } from 'fs/promises';
+import type { PrismaClient } from '@/generated/prisma';
 import { MbsWorkerService } from '../MbsWorkerService';
+import { OpenAIEmbeddingProvider } from '@/server/services/embedding/OpenAIEmbeddingProvider';
 import fs from 'fs/promises';
 import { createHash } from 'crypto';
 
@@ -10,6 +13,26 @@ vi.mock('openai');
 
 const mockFs = vi.mocked(fs);
 
+// Asymmetric matchers are typed any; these give them the type of what they stand in for
+const anyOf = <T>(type: abstract new (...args: never[]) => T) => expect.any(type) as T;
+const containing = (value: Record<string, unknown>) => expect.objectContaining(value) as Record<string, unknown>;
+
+// Serve file content through fs.open the way the worker streams it
+function mockXmlFile(content: string) {
+  mockFs.open.mockImplementation(async () => {
+    const bytes = Buffer.from(content);
+    let position = 0;
+    return {
+      read: vi.fn(async (buffer: Buffer, offset: number, length: number) => {
+        const bytesRead = bytes.copy(buffer, offset, position, Math.min(position + length, bytes.length));
+        position += bytesRead;
+        return { bytesRead, buffer };
+      }),
+      close: vi.fn(async () => undefined),
+    } as unknown as FileHandle;
+  });
+}
+
 // Mock Prisma
 const mockPrisma = {
   mbsIngestionLog: {
@@ -20,10 +43,18 @@ const mockPrisma = {
   mbsItem: {
     findMany: vi.fn(),
     upsert: vi.fn(),
+    updateMany: vi.fn(),
   },
-  $executeRaw: vi.fn(),
-  $executeRawUnsafe: vi.fn(),
-} as unknown as PrismaClient;
+  mbsItemVersion: {
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  $executeRaw: vi.fn<(sql: TemplateStringsArray, ...values: unknown[]) => Promise<number>>(),
+  $queryRaw: vi.fn(),
+  $transaction: vi.fn(),
+};
+const db = mockPrisma as unknown as PrismaClient;
 
 // Mock OpenAI
 const mockOpenAI = {
@@ -41,7 +72,7 @@ describe('MbsWorkerService', () => {
   const mockApiKey = 'test-api-key';
 
   beforeEach(() => {
-    service = new MbsWorkerService(mockPrisma, mockApiKey);
+    service = new MbsWorkerService(db, new OpenAIEmbeddingProvider(mockApiKey));
     vi.clearAllMocks();
   });
 
@@ -53,30 +84,33 @@ describe('MbsWorkerService', () => {
     const mockFilePath = '/test/path/mbs.xml';
     const mockFileName = 'mbs.xml';
     const mockXmlContent = `<?xml version="1.0"?>
-      <MBS>
-        <Items>
-          <Item>
-            <ItemNum>23</ItemNum>
-            <Descriptor>Professional attendance by a general practitioner</Descriptor>
-            <Category>1</Category>
-            <ProviderType>G</ProviderType>
-            <ScheduleFee>39.75</ScheduleFee>
-            <Benefit75>29.80</Benefit75>
-          </Item>
-          <Item>
-            <ItemNum>36</ItemNum>
-            <Descriptor>Professional attendance by a general practitioner - longer consultation</Descriptor>
-            <Category>1</Category>
-            <ProviderType>G</ProviderType>
-            <ScheduleFee>79.30</ScheduleFee>
-            <Benefit75>59.50</Benefit75>
-          </Item>
-        </Items>
-      </MBS>`;
+      <MBS_XML>
+        <Data>
+          <ItemNum>23</ItemNum>
+          <Descriptor>Professional attendance by a general practitioner</Descriptor>
+          <Category>1</Category>
+          <ProviderType>G</ProviderType>
+          <ScheduleFee>39.75</ScheduleFee>
+          <Benefit75>29.80</Benefit75>
+        </Data>
+        <Data>
+          <ItemNum>36</ItemNum>
+          <Descriptor>Professional attendance by a general practitioner - longer consultation</Descriptor>
+          <Category>1</Category>
+          <ProviderType>G</ProviderType>
+          <ScheduleFee>79.30</ScheduleFee>
+          <Benefit75>59.50</Benefit75>
+        </Data>
+      </MBS_XML>`;
 
     beforeEach(() => {
-      mockFs.stat.mockResolvedValue({ size: 1000 } as any);
-      mockFs.readFile.mockResolvedValue(mockXmlContent);
+      mockFs.stat.mockResolvedValue({ size: 1000 } as Stats);
+      mockXmlFile(mockXmlContent);
+      mockPrisma.$transaction.mockImplementation(async (callback: (tx: typeof mockPrisma) => Promise<unknown>) => callback(mockPrisma));
+      mockPrisma.mbsItem.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.mbsItemVersion.findFirst.mockResolvedValue(null);
+      mockPrisma.mbsItemVersion.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.$queryRaw.mockResolvedValue([]);
     });
 
     it('should successfully ingest XML file with valid data', async () => {
@@ -91,18 +125,19 @@ describe('MbsWorkerService', () => {
         fileHash,
         fileName: mockFileName,
         status: 'processing',
-      } as any);
+      });
 
       // Mock successful upserts
+      const createdAt = new Date();
       mockPrisma.mbsItem.upsert.mockResolvedValue({
         id: 1,
         itemNumber: 23,
-        createdAt: new Date(),
-        lastUpdated: new Date(),
-      } as any);
+        createdAt,
+        lastUpdated: createdAt,
+      });
 
       // Mock log update
-      mockPrisma.mbsIngestionLog.update.mockResolvedValue({} as any);
+      mockPrisma.mbsIngestionLog.update.mockResolvedValue({});
 
       const result = await service.ingestXmlFile(mockFilePath, mockFileName);
 
@@ -120,20 +155,27 @@ describe('MbsWorkerService', () => {
           fileSizeBytes: BigInt(1000),
           status: 'processing',
           processorVersion: '1.0.0',
+          embeddingModel: 'text-embedding-3-large',
+          effectiveDate: anyOf(Date),
         }
       });
 
       expect(mockPrisma.mbsIngestionLog.update).toHaveBeenCalledWith({
         where: { id: 1 },
-        data: {
-          completedAt: expect.any(Date),
+        data: { recordsTotal: 2 },
+      });
+      expect(mockPrisma.mbsIngestionLog.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: containing({
+          completedAt: anyOf(Date),
           status: 'completed',
           itemsProcessed: 2,
           itemsInserted: 2,
           itemsUpdated: 0,
           itemsFailed: 0,
-          processingTimeMs: expect.any(Number),
-        }
+          processingTimeMs: anyOf(Number),
+          resumeOffset: null,
+        })
       });
     });
 
@@ -150,7 +192,7 @@ describe('MbsWorkerService', () => {
         itemsUpdated: 0,
         itemsFailed: 0,
         processingTimeMs: 1000,
-      } as any);
+      });
 
       const result = await service.ingestXmlFile(mockFilePath, mockFileName);
 
@@ -170,7 +212,7 @@ describe('MbsWorkerService', () => {
         id: 1,
         fileHash,
         status: 'completed',
-      } as any);
+      });
 
       // Mock new log creation
       mockPrisma.mbsIngestionLog.create.mockResolvedValue({
@@ -178,16 +220,16 @@ describe('MbsWorkerService', () => {
         fileHash,
         fileName: mockFileName,
         status: 'processing',
-      } as any);
+      });
 
       mockPrisma.mbsItem.upsert.mockResolvedValue({
         id: 1,
         itemNumber: 23,
         createdAt: new Date(),
         lastUpdated: new Date(),
-      } as any);
+      });
 
-      mockPrisma.mbsIngestionLog.update.mockResolvedValue({} as any);
+      mockPrisma.mbsIngestionLog.update.mockResolvedValue({});
 
       const result = await service.ingestXmlFile(mockFilePath, mockFileName, true);
 
@@ -197,15 +239,15 @@ describe('MbsWorkerService', () => {
 
     it('should handle XML parsing errors gracefully', async () => {
       const invalidXml = 'invalid xml content';
-      mockFs.readFile.mockResolvedValue(invalidXml);
+      mockXmlFile(invalidXml);
 
       const fileHash = createHash('sha256').update(invalidXml).digest('hex');
       mockPrisma.mbsIngestionLog.findFirst.mockResolvedValue(null);
       mockPrisma.mbsIngestionLog.create.mockResolvedValue({
         id: 1,
         fileHash,
-      } as any);
-      mockPrisma.mbsIngestionLog.update.mockResolvedValue({} as any);
+      });
+      mockPrisma.mbsIngestionLog.update.mockResolvedValue({});
 
       const result = await service.ingestXmlFile(mockFilePath, mockFileName);
 
@@ -215,12 +257,111 @@ describe('MbsWorkerService', () => {
       // Should update log with error
       expect(mockPrisma.mbsIngestionLog.update).toHaveBeenCalledWith({
         where: { id: 1 },
-        data: expect.objectContaining({
+        data: containing({
           status: 'failed',
-          errorMessage: expect.any(String),
+          errorMessage: anyOf(String),
         })
       });
     });
+
+    it('should reject files that are not laid out like an MBS release', async () => {
+      mockXmlFile('<?xml version="1.0"?>\n<MBS>\n  <Items><Item><ItemNum>23</ItemNum></Item></Items>\n</MBS>');
+      mockPrisma.mbsIngestionLog.findFirst.mockResolvedValue(null);
+      mockPrisma.mbsIngestionLog.create.mockResolvedValue({ id: 1 });
+      mockPrisma.mbsIngestionLog.update.mockResolvedValue({});
+
+      const result = await service.ingestXmlFile(mockFilePath, mockFileName);
+
+      expect(result.success).toBe(false);
+      expect(result.errorMessage).toBe('Expected an <MBS_XML> root element but found <MBS> (line 2)');
+      expect(mockPrisma.mbsItem.upsert).not.toHaveBeenCalled();
+      expect(mockPrisma.mbsItem.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should skip invalid records and report their line numbers', async () => {
+      mockXmlFile([
+        '<MBS_XML>',
+        '<Data><ItemNum>23</ItemNum><Descriptor>Level B attendance</Descriptor></Data>',
+        '<Data><Descriptor>No item number</Descriptor></Data>',
+        '<Data><ItemNum>36A</ItemNum><Descriptor>Bad item number</Descriptor></Data>',
+        '</MBS_XML>',
+      ].join('\n'));
+      mockPrisma.mbsIngestionLog.findFirst.mockResolvedValue(null);
+      mockPrisma.mbsIngestionLog.create.mockResolvedValue({ id: 1 });
+      mockPrisma.mbsIngestionLog.update.mockResolvedValue({});
+      const createdAt = new Date();
+      mockPrisma.mbsItem.upsert.mockResolvedValue({ createdAt, lastUpdated: createdAt });
+
+      const result = await service.ingestXmlFile(mockFilePath, mockFileName);
+
+      expect(result.success).toBe(true);
+      expect(result.itemsProcessed).toBe(1);
+      expect(result.itemsFailed).toBe(2);
+      expect(result.errorDetails).toEqual({
+        recordErrors: [
+          { record: 1, line: 3, itemNumber: undefined, message: 'Missing ItemNum' },
+          { record: 2, line: 4, itemNumber: '36A', message: 'ItemNum "36A" is not a number' },
+        ],
+      });
+    });
+
+    it('should resume from the last committed batch after a batch fails', async () => {
+      // 150 records make two batches of 100 and 50
+      const records = Array.from({ length: 150 }, (_, i) =>
+        `<Data><ItemNum>${i + 1}</ItemNum><Descriptor>Item ${i + 1}</Descriptor></Data>`
+      );
+      mockXmlFile(['<MBS_XML>', ...records, '</MBS_XML>'].join('\n'));
+      mockPrisma.mbsIngestionLog.findFirst.mockResolvedValue(null);
+      mockPrisma.mbsIngestionLog.create.mockResolvedValue({ id: 1, resumeOffset: null });
+      mockPrisma.mbsIngestionLog.update.mockResolvedValue({});
+      const createdAt = new Date();
+      mockPrisma.mbsItem.upsert.mockImplementation(async ({ where }: { where: { itemNumber: number } }) => {
+        if (where.itemNumber === 120) throw new Error('Connection reset');
+        return { createdAt, lastUpdated: createdAt };
+      });
+
+      const failed = await service.ingestXmlFile(mockFilePath, mockFileName);
+
+      expect(failed.success).toBe(false);
+      expect(failed.errorMessage).toBe('Batch of records 100-149 (from line 102) failed: Connection reset');
+      expect(mockPrisma.mbsIngestionLog.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: containing({ itemsProcessed: 100, resumeOffset: 100 }),
+      });
+      expect(mockPrisma.mbsItem.updateMany).not.toHaveBeenCalled();
+
+      // The next run over the same file finds the failed log and carries on from record 100
+      vi.clearAllMocks();
+      mockPrisma.mbsIngestionLog.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 1, status: 'failed', resumeOffset: 100 });
+      mockPrisma.mbsIngestionLog.update.mockResolvedValueOnce({
+        id: 1,
+        effectiveDate: new Date('2025-11-01'),
+        resumeOffset: 100,
+        itemsProcessed: 100,
+        itemsInserted: 100,
+        itemsUpdated: 0,
+        itemsFailed: 0,
+        errorDetails: null,
+      });
+      mockPrisma.mbsItem.upsert.mockResolvedValue({ createdAt, lastUpdated: createdAt });
+
+      const resumed = await service.ingestXmlFile(mockFilePath, mockFileName);
+
+      expect(resumed.success).toBe(true);
+      expect(resumed.itemsProcessed).toBe(150);
+      expect(mockPrisma.mbsIngestionLog.create).not.toHaveBeenCalled();
+      expect(mockPrisma.mbsItem.upsert).toHaveBeenCalledTimes(50);
+      expect(mockPrisma.mbsItem.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { itemNumber: 101 } }));
+
+      // Items committed by the failed run still count as listed in the release
+      const listed = Array.from({ length: 150 }, (_, i) => i + 1);
+      expect(mockPrisma.mbsItem.updateMany).toHaveBeenCalledWith({
+        where: { isActive: true, itemNumber: { notIn: listed } },
+        data: { isActive: false, lastUpdated: anyOf(Date) },
+      });
+    });
   });
 
   describe('generateEmbeddings', () => {
@@ -242,7 +383,7 @@ describe('MbsWorkerService', () => {
           groupName: 'Consultations',
           serviceType: 'GP',
         },
-      ] as any);
+      ]);
     });
 
     it('should successfully generate embeddings for items', async () => {
@@ -254,7 +395,7 @@ describe('MbsWorkerService', () => {
         ],
       });
 
-      mockPrisma.$executeRaw.mockResolvedValue(undefined);
+      mockPrisma.$executeRaw.mockResolvedValue(1);
 
       const result = await service.generateEmbeddings();
 
@@ -272,17 +413,35 @@ describe('MbsWorkerService', () => {
         encoding_format: 'float',
       });
 
-      // Verify database updates
+      // Verify database updates, tagged with the model that produced each vector
       expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.$executeRaw.mock.calls[0]).toEqual(
+        expect.arrayContaining(['[0.1,0.2,0.3]', 'text-embedding-3-large', 3, 1])
+      );
+    });
+
+    it('skips embeddings when no provider is configured', async () => {
+      const result = await new MbsWorkerService(db).generateEmbeddings();
+
+      expect(result).toMatchObject({ success: true, itemsProcessed: 0 });
+      expect(mockPrisma.mbsItem.findMany).not.toHaveBeenCalled();
+      expect(mockOpenAI.embeddings.create).not.toHaveBeenCalled();
     });
 
     it('should handle OpenAI API failures gracefully', async () => {
+      vi.useFakeTimers();
       mockOpenAI.embeddings.create.mockRejectedValue(new Error('API Error'));
 
-      const result = await service.generateEmbeddings();
+      // Skip through the backoff between attempts
+      const pending = service.generateEmbeddings();
+      await vi.runAllTimersAsync();
+      const result = await pending;
+      vi.useRealTimers();
 
-      expect(result.success).toBe(false);
-      expect(result.errorMessage).toBe('API Error');
+      // A batch that fails every attempt is counted as failed, and the run carries on
+      expect(result).toMatchObject({ success: true, itemsUpdated: 0, itemsFailed: 2 });
+      expect(mockOpenAI.embeddings.create).toHaveBeenCalledTimes(3);
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
     });
 
     it('should process specific item IDs when provided', async () => {
@@ -295,51 +454,51 @@ describe('MbsWorkerService', () => {
           description: 'Professional attendance by a general practitioner',
           category: '1',
         },
-      ] as any);
+      ]);
 
       mockOpenAI.embeddings.create.mockResolvedValue({
         data: [{ embedding: [0.1, 0.2, 0.3] }],
       });
 
-      mockPrisma.$executeRaw.mockResolvedValue(undefined);
+      mockPrisma.$executeRaw.mockResolvedValue(1);
 
       const result = await service.generateEmbeddings(itemIds);
 
       expect(result.success).toBe(true);
       expect(mockPrisma.mbsItem.findMany).toHaveBeenCalledWith({
         where: { id: { in: itemIds } },
-        select: expect.any(Object),
+        select: anyOf(Object),
       });
     });
   });
 
   describe('updateSearchVectors', () => {
     it('should update search vectors for all items', async () => {
-      mockPrisma.$executeRawUnsafe.mockResolvedValue(5);
+      mockPrisma.$executeRaw.mockResolvedValue(5);
 
       const result = await service.updateSearchVectors();
 
-      expect(result.success).toBe(true);
-      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
-        expect.stringContaining('UPDATE mbs.items'),
-      );
+      expect(result).toMatchObject({ success: true, itemsUpdated: 5 });
+      const [sql, ...values] = mockPrisma.$executeRaw.mock.calls[0]!;
+      expect(sql.join('?')).toContain('UPDATE mbs.items');
+      expect(sql.join('?')).not.toContain('WHERE');
+      expect(values).toEqual([]);
     });
 
     it('should update search vectors for specific items', async () => {
       const itemIds = [23, 36, 2713]; // Use actual MBS item numbers
-      mockPrisma.$executeRawUnsafe.mockResolvedValue(3);
+      mockPrisma.$executeRaw.mockResolvedValue(3);
 
       const result = await service.updateSearchVectors(itemIds);
 
-      expect(result.success).toBe(true);
-      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
-        expect.stringContaining('WHERE item_number = ANY($1)'),
-        itemIds
-      );
+      expect(result).toMatchObject({ success: true, itemsUpdated: 3 });
+      const [sql, ...values] = mockPrisma.$executeRaw.mock.calls[0]!;
+      expect(sql.join('?')).toContain('WHERE item_number = ANY(?)');
+      expect(values).toEqual([itemIds]);
     });
 
     it('should handle database errors gracefully', async () => {
-      mockPrisma.$executeRawUnsafe.mockRejectedValue(new Error('Database Error'));
+      mockPrisma.$executeRaw.mockRejectedValue(new Error('Database Error'));
 
       const result = await service.updateSearchVectors();
 
@@ -351,30 +510,33 @@ describe('MbsWorkerService', () => {
   describe('XML transformation', () => {
     it('should correctly transform XML item data', async () => {
       const mockXmlContent = `<?xml version="1.0"?>
-        <MBS>
-          <Items>
-            <Item>
-              <ItemNum>23</ItemNum>
-              <Descriptor>Professional attendance by a general practitioner</Descriptor>
-              <Category>1</Category>
-              <ProviderType>G</ProviderType>
-              <ScheduleFee>39.75</ScheduleFee>
-              <Benefit75>29.80</Benefit75>
-              <HasAnaesthetic>N</HasAnaesthetic>
-              <ItemStartDate>01.01.2023</ItemStartDate>
-            </Item>
-          </Items>
-        </MBS>`;
-
-      mockFs.stat.mockResolvedValue({ size: 1000 } as any);
-      mockFs.readFile.mockResolvedValue(mockXmlContent);
+        <MBS_XML>
+          <Data>
+            <ItemNum>23</ItemNum>
+            <Descriptor>Professional attendance by a general practitioner</Descriptor>
+            <Category>1</Category>
+            <ProviderType>G</ProviderType>
+            <ScheduleFee>39.75</ScheduleFee>
+            <Benefit75>29.80</Benefit75>
+            <HasAnaesthetic>N</HasAnaesthetic>
+            <ItemStartDate>01.01.2023</ItemStartDate>
+          </Data>
+        </MBS_XML>`;
+
+      mockFs.stat.mockResolvedValue({ size: 1000 } as Stats);
+      mockXmlFile(mockXmlContent);
+      mockPrisma.$transaction.mockImplementation(async (callback: (tx: typeof mockPrisma) => Promise<unknown>) => callback(mockPrisma));
+      mockPrisma.mbsItem.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.mbsItemVersion.findFirst.mockResolvedValue(null);
+      mockPrisma.mbsItemVersion.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.$queryRaw.mockResolvedValue([]);
       mockPrisma.mbsIngestionLog.findFirst.mockResolvedValue(null);
-      mockPrisma.mbsIngestionLog.create.mockResolvedValue({ id: 1 } as any);
-      mockPrisma.mbsIngestionLog.update.mockResolvedValue({} as any);
+      mockPrisma.mbsIngestionLog.create.mockResolvedValue({ id: 1 });
+      mockPrisma.mbsIngestionLog.update.mockResolvedValue({});
 
       // Capture the upsert call to verify transformation
-      let capturedData: any;
-      mockPrisma.mbsItem.upsert.mockImplementation((args: any) => {
+      let capturedData: unknown;
+      mockPrisma.mbsItem.upsert.mockImplementation((args: { create: unknown }) => {
         capturedData = args.create;
         return Promise.resolve({
           id: 1,
@@ -394,9 +556,121 @@ describe('MbsWorkerService', () => {
         scheduleFee: 39.75,
         benefit75: 29.80,
         hasAnaesthetic: false,
-        itemStartDate: expect.any(Date),
+        itemStartDate: anyOf(Date),
         isActive: true,
       }));
     });
   });
-});
\ No newline at end of file
+});
+describe('MbsWorkerService item versions', () => {
+  const releaseXml = [
+    '<?xml version="1.0"?>',
+    '<MBS_XML>',
+    '<Data><ItemNum>23</ItemNum><Descriptor>Level B attendance</Descriptor><Category>1</Category><Group>A1</Group><ScheduleFee>42.85</ScheduleFee></Data>',
+    '<Data><ItemNum>36</ItemNum><Descriptor>Level C attendance</Descriptor><Category>1</Category><Group>A1</Group><ScheduleFee>82.90</ScheduleFee></Data>',
+    '</MBS_XML>',
+  ].join('\n');
+
+  const storedVersion = (id: number, itemNumber: number, description: string, fee: number) => ({
+    id,
+    itemNumber,
+    description,
+    shortDescription: description,
+    category: '1',
+    subCategory: null,
+    groupName: 'A1',
+    subGroup: null,
+    providerType: null,
+    serviceType: null,
+    scheduleFee: { toNumber: () => fee },
+    benefit75: null,
+    benefit85: null,
+    benefit100: null,
+    derivedFeeDescription: null,
+    itemStartDate: null,
+    itemEndDate: null,
+  });
+
+  function createDb() {
+    const db = {
+      mbsIngestionLog: {
+        findFirst: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue({ id: 2 }),
+        update: vi.fn().mockResolvedValue({}),
+      },
+      mbsItem: {
+        upsert: vi.fn().mockResolvedValue({ createdAt: new Date('2025-05-01'), lastUpdated: new Date('2025-11-01') }),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      },
+      mbsItemVersion: {
+        // Item 23's fee rises in this release; item 36 is unchanged
+        findFirst: vi.fn(async ({ where }: { where: { itemNumber: number } }) =>
+          where.itemNumber === 23
+            ? storedVersion(7, 23, 'Level B attendance', 41.2)
+            : storedVersion(8, 36, 'Level C attendance', 82.9)
+        ),
+        update: vi.fn().mockResolvedValue({}),
+        create: vi.fn().mockResolvedValue({}),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      },
+      $queryRaw: vi.fn().mockResolvedValue([
+        { items_changed: 2n, new: 0n, removed: 1n, fee_changed: 1n, descriptor_changed: 0n, end_dated: 0n, details_changed: 0n },
+      ]),
+      $transaction: vi.fn(),
+    };
+    db.$transaction.mockImplementation(async (callback: (tx: typeof db) => Promise<unknown>) => callback(db));
+    return db;
+  }
+
+  beforeEach(() => {
+    vi.mocked(fs.stat).mockResolvedValue({ size: releaseXml.length } as Stats);
+    mockXmlFile(releaseXml);
+  });
+
+  it('versions changed items, retires missing ones and summarises the release', async () => {
+    const db = createDb();
+    const service = new MbsWorkerService(db as unknown as PrismaClient);
+    const effectiveDate = new Date('2025-11-01');
+
+    const result = await service.ingestXmlFile('/test/path/mbs.xml', 'mbs-2025-11.xml', false, effectiveDate);
+
+    expect(result.success).toBe(true);
+
+    // Only the item whose fee changed gets a new version
+    expect(db.mbsItemVersion.update).toHaveBeenCalledTimes(1);
+    expect(db.mbsItemVersion.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { retiredLogId: 2, validTo: effectiveDate },
+    });
+    expect(db.mbsItemVersion.create).toHaveBeenCalledTimes(1);
+    expect(db.mbsItemVersion.create).toHaveBeenCalledWith({
+      data: containing({ itemNumber: 23, scheduleFee: 42.85, ingestionLogId: 2, validFrom: effectiveDate }),
+    });
+
+    // Items the release no longer lists are retired and deactivated
+    expect(db.mbsItemVersion.updateMany).toHaveBeenCalledWith({
+      where: { retiredLogId: null, validTo: null, itemNumber: { notIn: [23, 36] } },
+      data: { retiredLogId: 2, validTo: effectiveDate },
+    });
+    expect(db.mbsItem.updateMany).toHaveBeenCalledWith({
+      where: { isActive: true, itemNumber: { notIn: [23, 36] } },
+      data: { isActive: false, lastUpdated: anyOf(Date) },
+    });
+
+    expect(result.changeSummary).toEqual({
+      fromLogId: 0,
+      toLogId: 2,
+      itemsChanged: 2,
+      new: 0,
+      removed: 1,
+      feeChanged: 1,
+      descriptorChanged: 0,
+      endDated: 0,
+      detailsChanged: 0,
+    });
+    expect(db.mbsIngestionLog.update).toHaveBeenCalledWith({
+      where: { id: 2 },
+      data: containing({ status: 'completed', changeSummary: result.changeSummary }),
+    });
+  });
+});
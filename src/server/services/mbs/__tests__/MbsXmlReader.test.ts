@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { readMbsXmlRecords, validateMbsXml, MbsXmlFormatError } from '../MbsXmlReader';
+
+// Split the file into fixed-size byte chunks, as a file read would
+async function* chunked(xml: string, size = 16): AsyncGenerator<Buffer> {
+  const bytes = Buffer.from(xml);
+  for (let i = 0; i < bytes.length; i += size) {
+    yield bytes.subarray(i, i + size);
+  }
+}
+
+async function readAll(xml: string, size?: number) {
+  const records = [];
+  for await (const record of readMbsXmlRecords(chunked(xml, size))) {
+    records.push(record);
+  }
+  return records;
+}
+
+const RELEASE = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<MBS_XML>',
+  '  <Data>',
+  '    <ItemNum>23</ItemNum>',
+  '    <Descriptor>Professional attendance – at consulting rooms</Descriptor>',
+  '    <ScheduleFee>42.85</ScheduleFee>',
+  '    <FeeChange>N</FeeChange>',
+  '  </Data>',
+  '  <Data>',
+  '    <ItemNum>36</ItemNum>',
+  '    <Descriptor><![CDATA[Level C attendance & longer]]></Descriptor>',
+  '  </Data>',
+  '</MBS_XML>',
+].join('\n');
+
+describe('readMbsXmlRecords', () => {
+  it('reads records across chunk boundaries, including split multi-byte characters', async () => {
+    // Chunks of 7 bytes cut through the three-byte en dash
+    const records = await readAll(RELEASE, 7);
+
+    expect(records).toEqual([
+      {
+        index: 0,
+        line: 3,
+        item: {
+          ItemNum: ['23'],
+          Descriptor: ['Professional attendance – at consulting rooms'],
+          ScheduleFee: ['42.85'],
+          FeeChange: ['N'],
+        },
+      },
+      {
+        index: 1,
+        line: 9,
+        item: { ItemNum: ['36'], Descriptor: ['Level C attendance & longer'] },
+      },
+    ]);
+  });
+
+  it('rejects an unexpected root or record element with its line', async () => {
+    await expect(readAll('<MBS>\n<Items/>\n</MBS>')).rejects.toThrow(
+      'Expected an <MBS_XML> root element but found <MBS> (line 1)'
+    );
+    await expect(readAll('<MBS_XML>\n<Data/>\n<Item/>\n</MBS_XML>')).rejects.toThrow(
+      'Expected <Data> records but found <Item> (line 3)'
+    );
+    await expect(readAll('<MBS_XML><Data><Fees><ScheduleFee>1</ScheduleFee></Fees></Data></MBS_XML>')).rejects.toThrow(
+      'Unexpected <ScheduleFee> inside <Fees>'
+    );
+  });
+
+  it('rejects malformed XML and files without records', async () => {
+    await expect(readAll('<MBS_XML>\n<Data><ItemNum>23</Data>\n</MBS_XML>')).rejects.toBeInstanceOf(MbsXmlFormatError);
+    await expect(readAll('<MBS_XML></MBS_XML>')).rejects.toThrow('File contains no <Data> records');
+    await expect(readAll('')).rejects.toThrow('File contains no XML elements');
+  });
+});
+
+describe('validateMbsXml', () => {
+  it('counts records and lists fields the ingestion ignores', async () => {
+    await expect(validateMbsXml(chunked(RELEASE))).resolves.toEqual({
+      recordCount: 2,
+      ignoredFields: ['FeeChange'],
+    });
+  });
+});
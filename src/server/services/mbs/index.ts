@@ -0,0 +1,90 @@
+import { serverEnv } from "@/env";
+import { db } from "@/server/db";
+import { createEmbeddingProvider, createEmbeddingProviderForModel } from "@/server/services/embedding";
+import { FakeMbsConceptExtractionProvider } from "./FakeMbsConceptExtractionProvider";
+import { OpenAIMbsConceptExtractionProvider } from "./OpenAIMbsConceptExtractionProvider";
+import { MbsSearchService } from "./MbsSearchService";
+import { MbsRulesService } from "./MbsRulesService";
+import { MbsQueueService } from "./MbsQueueService";
+import { MbsReleaseStorageService } from "./MbsReleaseStorageService";
+import { MbsReleaseFetcher } from "./MbsReleaseFetcher";
+import { MbsEmbeddingMigrationService } from "./MbsEmbeddingMigrationService";
+import type { MbsConceptExtractionProvider } from "./MbsConceptExtractionProvider";
+import type { ClinicalNote } from "@/types/clinical";
+
+export const createMbsSearchService = (): MbsSearchService =>
+  new MbsSearchService(db, createEmbeddingProvider(), createEmbeddingProviderForModel);
+
+export const createMbsEmbeddingMigrationService = (): MbsEmbeddingMigrationService =>
+  new MbsEmbeddingMigrationService(db, createEmbeddingProvider());
+
+export const createMbsRulesService = (): MbsRulesService => new MbsRulesService(db);
+
+/**
+ * Factory for the MBS release store rooted at MBS_RELEASE_STORAGE_DIR
+ */
+export const createMbsReleaseStorageService = (): MbsReleaseStorageService =>
+  new MbsReleaseStorageService(serverEnv.MBS_RELEASE_STORAGE_DIR);
+
+/**
+ * Create the fetcher for MBS_RELEASE_FEED_URL, or null when no feed is configured
+ */
+export const createMbsReleaseFetcher = (): MbsReleaseFetcher | null => {
+  if (!serverEnv.MBS_RELEASE_FEED_URL) {
+    return null;
+  }
+  return new MbsReleaseFetcher(
+    serverEnv.MBS_RELEASE_FEED_URL,
+    createMbsReleaseStorageService(),
+    db,
+    new MbsQueueService(),
+  );
+};
+
+/**
+ * Create the billable concept extraction provider selected by MBS_SUGGESTION_PROVIDER
+ */
+export const createMbsConceptExtractionProvider = (): MbsConceptExtractionProvider => {
+  if (serverEnv.MBS_SUGGESTION_PROVIDER === "openai") {
+    const openaiApiKey = process.env.OPENAI_API_KEY;
+    if (!openaiApiKey) {
+      throw new Error("OPENAI_API_KEY environment variable is required for OpenAI MBS suggestions");
+    }
+    return new OpenAIMbsConceptExtractionProvider(openaiApiKey);
+  }
+
+  return new FakeMbsConceptExtractionProvider();
+};
+
+/**
+ * Queue MBS suggestions for a note that has just reached review. Failures are
+ * logged rather than thrown so they never undo the note change that triggered them.
+ */
+export const queueMbsSuggestionsForNote = async (
+  tenantId: string,
+  note: Pick<ClinicalNote, "id" | "status" | "consultationId">,
+): Promise<void> => {
+  if (note.status !== "pending-review" || !note.consultationId) {
+    return;
+  }
+
+  try {
+    await new MbsQueueService().queueSuggestionGeneration({ tenantId, noteId: note.id });
+  } catch (error) {
+    console.error(`❌ Failed to queue MBS suggestions for note ${note.id}:`, error);
+  }
+};
+
+export * from "./MbsSearchService";
+export * from "./MbsConceptExtractionProvider";
+export * from "./FakeMbsConceptExtractionProvider";
+export * from "./OpenAIMbsConceptExtractionProvider";
+export * from "./MbsSuggestionService";
+export * from "./MbsRulesEngine";
+export * from "./MbsRulesService";
+export * from "./MbsItemHistoryService";
+export * from "./MbsQueueService";
+export * from "./MbsXmlReader";
+export * from "./MbsReleaseStorageService";
+export * from "./MbsReleaseFetcher";
+export * from "./MbsEmbeddingMigrationService";
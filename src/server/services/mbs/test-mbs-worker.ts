@@ -6,6 +6,8 @@
 
 import { PrismaClient } from '@/generated/prisma';
 import { MbsWorkerService } from './MbsWorkerService';
+import { FakeEmbeddingProvider } from '@/server/services/embedding/FakeEmbeddingProvider';
+import { OpenAIEmbeddingProvider } from '@/server/services/embedding/OpenAIEmbeddingProvider';
 import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 
@@ -13,40 +15,38 @@ const db = new PrismaClient();
 
 // Mock XML data for testing
 const mockMbsXml = `<?xml version="1.0" encoding="UTF-8"?>
-<MBS>
-  <Items>
-    <Item>
-      <ItemNum>23</ItemNum>
-      <Descriptor>Professional attendance by a general practitioner</Descriptor>
-      <Category>1</Category>
-      <ProviderType>G</ProviderType>
-      <ScheduleFee>39.75</ScheduleFee>
-      <Benefit75>29.80</Benefit75>
-      <HasAnaesthetic>N</HasAnaesthetic>
-      <ItemStartDate>01.01.2023</ItemStartDate>
-    </Item>
-    <Item>
-      <ItemNum>36</ItemNum>
-      <Descriptor>Professional attendance by a general practitioner - longer consultation</Descriptor>
-      <Category>1</Category>
-      <ProviderType>G</ProviderType>
-      <ScheduleFee>79.30</ScheduleFee>
-      <Benefit75>59.50</Benefit75>
-      <HasAnaesthetic>N</HasAnaesthetic>
-      <ItemStartDate>01.01.2023</ItemStartDate>
-    </Item>
-    <Item>
-      <ItemNum>2713</ItemNum>
-      <Descriptor>Mental health treatment plan</Descriptor>
-      <Category>1</Category>
-      <ProviderType>G</ProviderType>
-      <ScheduleFee>78.95</ScheduleFee>
-      <Benefit75>59.20</Benefit75>
-      <HasAnaesthetic>N</HasAnaesthetic>
-      <ItemStartDate>01.01.2023</ItemStartDate>
-    </Item>
-  </Items>
-</MBS>`;
+<MBS_XML>
+  <Data>
+    <ItemNum>23</ItemNum>
+    <Descriptor>Professional attendance by a general practitioner</Descriptor>
+    <Category>1</Category>
+    <ProviderType>G</ProviderType>
+    <ScheduleFee>39.75</ScheduleFee>
+    <Benefit75>29.80</Benefit75>
+    <HasAnaesthetic>N</HasAnaesthetic>
+    <ItemStartDate>01.01.2023</ItemStartDate>
+  </Data>
+  <Data>
+    <ItemNum>36</ItemNum>
+    <Descriptor>Professional attendance by a general practitioner - longer consultation</Descriptor>
+    <Category>1</Category>
+    <ProviderType>G</ProviderType>
+    <ScheduleFee>79.30</ScheduleFee>
+    <Benefit75>59.50</Benefit75>
+    <HasAnaesthetic>N</HasAnaesthetic>
+    <ItemStartDate>01.01.2023</ItemStartDate>
+  </Data>
+  <Data>
+    <ItemNum>2713</ItemNum>
+    <Descriptor>Mental health treatment plan</Descriptor>
+    <Category>1</Category>
+    <ProviderType>G</ProviderType>
+    <ScheduleFee>78.95</ScheduleFee>
+    <Benefit75>59.20</Benefit75>
+    <HasAnaesthetic>N</HasAnaesthetic>
+    <ItemStartDate>01.01.2023</ItemStartDate>
+  </Data>
+</MBS_XML>`;
 
 async function runTests() {
   console.log('🧪 Starting MBS Worker Service Tests...\n');
@@ -67,8 +67,12 @@ async function runTests() {
 
     // Test 3: Initialize MBS Worker Service
     console.log('3️⃣ Initializing MBS Worker Service...');
-    const openaiApiKey = process.env.OPENAI_API_KEY || 'test-key';
-    const mbsService = new MbsWorkerService(db, openaiApiKey);
+    // Embed with the deterministic fake unless there's a real OpenAI key
+    const openaiApiKey = process.env.OPENAI_API_KEY;
+    const embeddingProvider = openaiApiKey && openaiApiKey !== 'test-key'
+      ? new OpenAIEmbeddingProvider(openaiApiKey)
+      : new FakeEmbeddingProvider();
+    const mbsService = new MbsWorkerService(db, embeddingProvider);
     console.log('✅ MBS Worker Service initialized\n');
 
     // Test 4: XML Ingestion
@@ -122,22 +126,18 @@ async function runTests() {
       console.error('❌ Search vector update failed:', vectorResult.errorMessage);
     }
 
-    // Test 7: Embedding generation (only if OpenAI API key is available)
-    if (process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY !== 'test-key') {
-      console.log('7️⃣ Testing embedding generation...');
-      const embeddingResult = await mbsService.generateEmbeddings([23, 36], 2);
-      
-      if (embeddingResult.success) {
-        console.log('✅ Embedding generation successful!');
-        console.log(`   🧠 Items processed: ${embeddingResult.itemsProcessed}`);
-        console.log(`   🔄 Items updated: ${embeddingResult.itemsUpdated}`);
-        console.log(`   ⏱️  Processing time: ${embeddingResult.processingTimeMs}ms`);
-        console.log(`   🤖 Embedding time: ${embeddingResult.embeddingTimeMs}ms\n`);
-      } else {
-        console.error('❌ Embedding generation failed:', embeddingResult.errorMessage);
-      }
+    // Test 7: Embedding generation
+    console.log(`7️⃣ Testing embedding generation with ${embeddingProvider.model}...`);
+    const embeddingResult = await mbsService.generateEmbeddings([23, 36], 2);
+
+    if (embeddingResult.success) {
+      console.log('✅ Embedding generation successful!');
+      console.log(`   🧠 Items processed: ${embeddingResult.itemsProcessed}`);
+      console.log(`   🔄 Items updated: ${embeddingResult.itemsUpdated}`);
+      console.log(`   ⏱️  Processing time: ${embeddingResult.processingTimeMs}ms`);
+      console.log(`   🤖 Embedding time: ${embeddingResult.embeddingTimeMs}ms\n`);
     } else {
-      console.log('7️⃣ Skipping embedding generation (no OpenAI API key)\n');
+      console.error('❌ Embedding generation failed:', embeddingResult.errorMessage);
     }
 
     // Test 8: Check ingestion logs
@@ -166,7 +166,7 @@ async function runTests() {
     console.log('   ✅ Database schema created with mbs.* tables');
     console.log('   ✅ XML ingestion pipeline working');
     console.log('   ✅ Search vector generation working');
-    console.log('   ✅ Embedding generation ready (requires OpenAI API key)');
+    console.log('   ✅ Embedding generation working');
     console.log('   ✅ Audit logging functional');
     console.log('\n🚀 Ready for Phase 2: Backend API Development');
 
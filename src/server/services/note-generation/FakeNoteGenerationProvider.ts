@@ -0,0 +1,128 @@
+import type { NoteTemplateSection } from "@/types/clinical";
+import type {
+  GeneratedNoteSection,
+  NoteGenerationInput,
+  NoteGenerationOutput,
+  NoteGenerationProgressCallback,
+  NoteGenerationProvider,
+  NoteGenerationTranscriptLine,
+} from "./NoteGenerationProvider";
+
+const NOT_DISCUSSED = "Not discussed.";
+
+// Section keys are matched loosely so custom templates still get sensible content
+const SECTION_RULES: ReadonlyArray<{ sectionKeys: RegExp; linePattern: RegExp; speaker: "patient" | "clinician" }> = [
+  {
+    sectionKeys: /subjective|history|presenting|complaint/,
+    linePattern: /./,
+    speaker: "patient",
+  },
+  {
+    sectionKeys: /objective|exam/,
+    linePattern: /\b(chest|throat|ears?|abdomen|temperature|blood pressure|pulse|heart rate|sounds?|looks? (red|swollen|clear)|tender)\b/i,
+    speaker: "clinician",
+  },
+  {
+    sectionKeys: /assessment|diagnos|impression/,
+    linePattern: /\b(looks like|consistent with|diagnos\w*|likely|infection|impression)\b/i,
+    speaker: "clinician",
+  },
+  {
+    sectionKeys: /plan|management|treatment|follow/,
+    linePattern: /\b(rest|fluids|take|prescri\w*|refer\w*|come back|follow[- ]up|review|antibiotics|paracetamol)\b/i,
+    speaker: "clinician",
+  },
+];
+
+interface FakeNoteGenerationProviderOptions {
+  // Artificial delay per section, to make progress visible in development
+  delayMs?: number;
+}
+
+/**
+ * Deterministic stand-in for a language model.
+ *
+ * Sorts transcript lines into template sections with simple keyword rules, so
+ * the same transcript always produces the same note. Used by tests and for
+ * offline development without API keys.
+ */
+export class FakeNoteGenerationProvider implements NoteGenerationProvider {
+  readonly name = "fake";
+  private delayMs: number;
+
+  constructor(options: FakeNoteGenerationProviderOptions = {}) {
+    this.delayMs = options.delayMs ?? 0;
+  }
+
+  async generateNote(input: NoteGenerationInput, onProgress?: NoteGenerationProgressCallback): Promise<NoteGenerationOutput> {
+    if (input.transcript.length === 0) {
+      throw new Error("Cannot generate a note from an empty transcript");
+    }
+
+    const patientSpeaker = this.findPatientSpeaker(input.transcript);
+    const sections: GeneratedNoteSection[] = [];
+
+    for (const [index, section] of input.template.sections.entries()) {
+      if (this.delayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+      }
+
+      sections.push({
+        key: section.key,
+        heading: section.heading,
+        content: this.buildSectionContent(section, input, patientSpeaker),
+      });
+      await onProgress?.(Math.round(((index + 1) / input.template.sections.length) * 100));
+    }
+
+    const discussedSections = sections.filter((section) => !section.content.startsWith(NOT_DISCUSSED)).length;
+
+    return {
+      title: `${input.template.name} - ${input.patient.firstName} ${input.patient.lastName}`,
+      sections,
+      confidence: Math.round((discussedSections / sections.length) * 100) / 100,
+      model: "fake-note-generator",
+    };
+  }
+
+  private buildSectionContent(
+    section: NoteTemplateSection,
+    input: NoteGenerationInput,
+    patientSpeaker: string | undefined,
+  ): string {
+    const rule = SECTION_RULES.find((candidate) => candidate.sectionKeys.test(section.key));
+    const lines = rule
+      ? input.transcript.filter(
+          (line) =>
+            (line.speaker === patientSpeaker) === (rule.speaker === "patient") && rule.linePattern.test(line.text),
+        )
+      : [];
+
+    const paragraphs = [lines.length > 0 ? lines.map((line) => line.text.trim()).join(" ") : NOT_DISCUSSED];
+
+    if (section.includeContext?.includes("medications")) {
+      const active = input.medications.filter((medication) => medication.active);
+      paragraphs.push(
+        active.length > 0
+          ? `Current medications: ${active.map((medication) => `${medication.name} ${medication.dosage} ${medication.frequency}`).join("; ")}.`
+          : "Current medications: none recorded.",
+      );
+    }
+
+    if (section.includeContext?.includes("allergies")) {
+      paragraphs.push(
+        input.allergies.length > 0
+          ? `Allergies: ${input.allergies.map((allergy) => `${allergy.allergen} (${allergy.reaction})`).join("; ")}.`
+          : "Allergies: no known allergies recorded.",
+      );
+    }
+
+    return paragraphs.join("\n\n");
+  }
+
+  // Diarized transcripts label speakers "Patient"; otherwise assume the second speaker is the patient
+  private findPatientSpeaker(transcript: NoteGenerationTranscriptLine[]): string | undefined {
+    const speakers = [...new Set(transcript.map((line) => line.speaker))];
+    return speakers.find((speaker) => /patient/i.test(speaker)) ?? speakers[1] ?? speakers[0];
+  }
+}
@@ -0,0 +1,174 @@
+import type { NoteCitationInput } from "@/server/datastore";
+import { getNoteStatements } from "@/lib/note-statements";
+import type { Allergy, Medication, NoteCitationEvidence, TranscriptSegment } from "@/types/clinical";
+import type { GeneratedNoteSection } from "./NoteGenerationProvider";
+
+// A statement is supported once this share of its terms is found in the cited segments
+const SUPPORT_THRESHOLD = 0.5;
+// Segments sharing less than this share of the statement's terms aren't cited
+const MIN_SEGMENT_SCORE = 0.2;
+const MAX_EVIDENCE_SEGMENTS = 3;
+const MAX_EXCERPT_LENGTH = 240;
+
+// Written for sections and template items the consultation didn't cover
+const PLACEHOLDER_PATTERN = /^not (discussed|recorded)\.?$/i;
+
+// Function words, and the reporting verbs notes use but speakers don't ("patient reports...")
+const STOP_WORDS = new Set([
+  "a", "about", "after", "all", "also", "am", "an", "and", "any", "are", "as", "at", "be", "been", "before",
+  "being", "but", "by", "can", "could", "did", "do", "does", "doing", "for", "from", "had", "has", "have",
+  "having", "he", "her", "hers", "him", "his", "how", "i", "if", "im", "in", "into", "is", "it", "its", "ive",
+  "just", "me", "my", "of", "on", "or", "our", "over", "she", "so", "some", "than", "that", "the", "their",
+  "them", "then", "there", "these", "they", "this", "those", "to", "up", "was", "we", "were", "what", "when",
+  "which", "while", "who", "will", "with", "would", "you", "your", "yes", "okay", "ok", "well", "um", "uh",
+  "patient", "pt", "reports", "reported", "states", "stated", "says", "said", "describes", "described",
+  "mentions", "mentioned", "notes", "noted", "discussed", "advised", "denies", "presents", "complains",
+]);
+
+// Labels the providers put in front of patient record context
+const PATIENT_RECORD_TERMS = ["current", "medications", "allergies", "none", "no", "known", "recorded"];
+
+export interface NoteCitationContext {
+  medications: Medication[];
+  allergies: Allergy[];
+}
+
+interface IndexedSegment {
+  segment: TranscriptSegment;
+  terms: Set<string>;
+}
+
+/**
+ * Links each statement of a generated note to the transcript segments that
+ * support it.
+ *
+ * Matching is lexical: a statement's content words are looked up in the
+ * transcript, allowing for simple inflections. This runs the same whichever
+ * provider drafted the note, and flags statements the model may have invented.
+ */
+export class NoteCitationMatcher {
+  cite(
+    sections: ReadonlyArray<GeneratedNoteSection>,
+    segments: ReadonlyArray<TranscriptSegment>,
+    context: NoteCitationContext,
+  ): NoteCitationInput[] {
+    const indexedSegments: IndexedSegment[] = segments.map((segment) => ({
+      segment,
+      terms: new Set(extractTerms(segment.text)),
+    }));
+    const patientRecordTerms = new Set(extractTerms(describePatientRecord(context)));
+
+    const citations: NoteCitationInput[] = [];
+    let statementIndex = 0;
+
+    for (const section of sections) {
+      for (const statement of getNoteStatements(section.content)) {
+        const index = statementIndex++;
+        const terms = [...new Set(extractTerms(statement))];
+        if (terms.length === 0 || PLACEHOLDER_PATTERN.test(statement.trim())) continue;
+
+        const { score, evidence } = this.findEvidence(terms, indexedSegments);
+        const recordScore = terms.filter((term) => patientRecordTerms.has(term)).length / terms.length;
+
+        if (recordScore >= SUPPORT_THRESHOLD && recordScore > score) {
+          citations.push({
+            sectionKey: section.key,
+            statementIndex: index,
+            statement,
+            support: "patient-record",
+            score: round(recordScore),
+            evidence: [],
+          });
+          continue;
+        }
+
+        citations.push({
+          sectionKey: section.key,
+          statementIndex: index,
+          statement,
+          support: score >= SUPPORT_THRESHOLD ? "supported" : "unsupported",
+          score: round(score),
+          evidence,
+        });
+      }
+    }
+
+    return citations;
+  }
+
+  /**
+   * Greedily pick the segments that together cover most of the statement's
+   * terms - summaries often combine several things the patient said
+   */
+  private findEvidence(terms: string[], segments: IndexedSegment[]): { score: number; evidence: NoteCitationEvidence[] } {
+    const candidates = segments
+      .map((indexed) => ({ ...indexed, overlap: terms.filter((term) => indexed.terms.has(term)).length }))
+      .filter((candidate) => candidate.overlap / terms.length >= MIN_SEGMENT_SCORE)
+      .sort((a, b) => b.overlap - a.overlap || a.segment.sequence - b.segment.sequence);
+
+    const covered = new Set<string>();
+    const cited: TranscriptSegment[] = [];
+    for (const candidate of candidates) {
+      if (cited.length >= MAX_EVIDENCE_SEGMENTS || covered.size === terms.length) break;
+
+      const newTerms = terms.filter((term) => candidate.terms.has(term) && !covered.has(term));
+      if (newTerms.length === 0) continue;
+
+      newTerms.forEach((term) => covered.add(term));
+      cited.push(candidate.segment);
+    }
+
+    return {
+      score: covered.size / terms.length,
+      evidence: cited
+        .sort((a, b) => a.sequence - b.sequence)
+        .map((segment) => ({
+          segmentId: segment.id,
+          speaker: segment.speaker,
+          startMs: segment.startMs,
+          endMs: segment.endMs,
+          excerpt: truncate(segment.text.trim(), MAX_EXCERPT_LENGTH),
+        })),
+    };
+  }
+}
+
+/**
+ * Content words of a text, reduced to a crude stem so "coughing" matches "cough"
+ */
+function extractTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !STOP_WORDS.has(word) && (word.length > 1 || /\d/.test(word)))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (/\d/.test(word)) return word;
+  for (const suffix of ["ing", "ed", "es", "s", "e"]) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3 && !word.endsWith("ss")) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+function describePatientRecord(context: NoteCitationContext): string {
+  return [
+    ...PATIENT_RECORD_TERMS,
+    ...context.medications.map((medication) =>
+      [medication.name, medication.genericName, medication.dosage, medication.frequency, medication.route].join(" "),
+    ),
+    ...context.allergies.map((allergy) => [allergy.allergen, allergy.reaction, allergy.severity].join(" ")),
+  ].join(" ");
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
@@ -0,0 +1,46 @@
+/**
+ * Clinical note generation provider abstraction
+ *
+ * The worker depends only on this interface, so the language model can be
+ * swapped (hosted API, on-prem model, or the deterministic fake) via configuration.
+ */
+
+import type { Allergy, Medication, NoteTemplateDefinition, PatientSummary } from "@/types/clinical";
+
+export interface NoteGenerationTranscriptLine {
+  speaker: string;
+  startMs: number;
+  text: string;
+}
+
+export interface NoteGenerationInput {
+  transcript: NoteGenerationTranscriptLine[];
+  template: NoteTemplateDefinition;
+  patient: Pick<PatientSummary, "firstName" | "lastName" | "age" | "gender">;
+  medications: Medication[];
+  allergies: Allergy[];
+}
+
+export interface GeneratedNoteSection {
+  key: string;
+  heading: string;
+  content: string;
+}
+
+export interface NoteGenerationOutput {
+  title: string;
+  // One entry per template section, in template order
+  sections: GeneratedNoteSection[];
+  confidence: number; // 0-1
+  model: string;
+}
+
+/**
+ * Called with overall progress (0-100) as the provider works through the note
+ */
+export type NoteGenerationProgressCallback = (progress: number) => void | Promise<void>;
+
+export interface NoteGenerationProvider {
+  readonly name: string;
+  generateNote(input: NoteGenerationInput, onProgress?: NoteGenerationProgressCallback): Promise<NoteGenerationOutput>;
+}
@@ -0,0 +1,37 @@
+import { Queue } from "bullmq";
+import { bullConnection } from "@/server/instrumentation/bull/connection";
+import { QUEUE_TYPES, type ConsultationGenerateNoteJobData } from "@/server/instrumentation/bull/types";
+import { serverEnv } from "@/env";
+
+export class NoteGenerationQueueService {
+  private queue: Queue;
+
+  constructor() {
+    this.queue = new Queue(serverEnv.MBS_QUEUE_NAME, {
+      connection: bullConnection,
+    });
+  }
+
+  /**
+   * Queue drafting of a clinical note from a consultation transcript
+   */
+  async queueNoteGeneration(data: ConsultationGenerateNoteJobData, priority = 0): Promise<string> {
+    const job = await this.queue.add(
+      QUEUE_TYPES.CONSULTATION_GENERATE_NOTE,
+      data,
+      {
+        priority,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        removeOnComplete: 50,
+        removeOnFail: 100,
+      }
+    );
+
+    console.log(`📝 Queued note generation job: ${job.id} for consultation ${data.consultationId}`);
+    return job.id!;
+  }
+}
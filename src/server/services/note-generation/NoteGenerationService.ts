@@ -0,0 +1,186 @@
+import { createHash } from "crypto";
+import type { DataStore } from "@/server/datastore";
+import { DEFAULT_NOTE_TEMPLATE_KEY, formatNoteContent, getBuiltInNoteTemplate } from "@/lib/note-templates";
+import type { ClinicalNote, NoteTemplateDefinition, TranscriptSegment } from "@/types/clinical";
+import { NoteCitationMatcher } from "./NoteCitationMatcher";
+import type { NoteGenerationProvider } from "./NoteGenerationProvider";
+
+// Only persist progress in steps so a slow model doesn't hammer the database
+const PROGRESS_WRITE_STEP = 10;
+
+export interface NoteGenerationResult {
+  success: boolean;
+  consultationId: string;
+  skipped?: boolean;
+  provider: string;
+  templateKey?: string;
+  processingTimeMs: number;
+  note?: ClinicalNote;
+  errorMessage?: string;
+}
+
+export interface GenerateNoteOptions {
+  // Falls back to the consultation's selected template, then the default
+  templateKey?: string;
+  onProgress?: (progress: number) => void | Promise<void>;
+  // Clear progress on failure; false while BullMQ still has retries left
+  markFailed?: boolean;
+}
+
+/**
+ * Identifies the transcript a note was drafted from.
+ *
+ * Segments are replaced wholesale when a consultation is re-transcribed, so
+ * their ids change with every transcript.
+ */
+export function getTranscriptRevision(segments: ReadonlyArray<Pick<TranscriptSegment, "id">>): string {
+  return createHash("sha256")
+    .update(segments.map((segment) => segment.id).join(","))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export class NoteGenerationService {
+  private dataStore: DataStore;
+  private provider: NoteGenerationProvider;
+  private citationMatcher = new NoteCitationMatcher();
+
+  constructor(dataStore: DataStore, provider: NoteGenerationProvider) {
+    this.dataStore = dataStore;
+    this.provider = provider;
+  }
+
+  /**
+   * Draft a clinical note from a consultation's transcript for clinician review
+   */
+  async generateNoteForConsultation(
+    consultationId: string,
+    options: GenerateNoteOptions = {},
+  ): Promise<NoteGenerationResult> {
+    const startTime = Date.now();
+    const baseResult = { consultationId, provider: this.provider.name };
+
+    try {
+      const consultation = await this.dataStore.getConsultation(consultationId);
+      const template = await this.resolveTemplate(options.templateKey ?? consultation.selectedTemplate);
+
+      const segments = await this.dataStore.getTranscriptSegments(consultationId);
+      if (segments.length === 0) {
+        throw new Error("Consultation has no transcript to generate a note from");
+      }
+
+      // A retried job may find the note already drafted - don't create a duplicate
+      const transcriptionId = getTranscriptRevision(segments);
+      const existingNote = (await this.dataStore.getConsultationNotes(consultationId)).find(
+        (note) => note.generatedFromAudio && note.transcriptionId === transcriptionId && note.template === template.key,
+      );
+      if (existingNote) {
+        console.log(`📝 Consultation ${consultationId} already has a ${template.key} note for this transcript, skipping`);
+        return {
+          ...baseResult,
+          success: true,
+          skipped: true,
+          templateKey: template.key,
+          processingTimeMs: Date.now() - startTime,
+          note: existingNote,
+        };
+      }
+
+      await this.dataStore.updateConsultation(consultationId, {
+        noteGenerationProgress: 0,
+        noteGenerationError: null,
+      });
+
+      const patientContext = await this.dataStore.getPatientContext(consultation.patientId);
+
+      console.log(`📝 Generating ${template.key} note for consultation ${consultationId} with ${this.provider.name}`);
+
+      const medications = patientContext.medications ?? [];
+      const allergies = patientContext.allergies ?? [];
+
+      let lastWrittenProgress = 0;
+      const output = await this.provider.generateNote(
+        {
+          transcript: segments.map((segment) => ({
+            speaker: segment.speaker,
+            startMs: segment.startMs,
+            text: segment.text,
+          })),
+          template,
+          patient: patientContext.summary,
+          medications,
+          allergies,
+        },
+        async (providerProgress) => {
+          // Hold back the last few percent until the note is saved
+          const progress = Math.min(95, Math.round(providerProgress * 0.95));
+          await options.onProgress?.(progress);
+
+          if (progress - lastWrittenProgress >= PROGRESS_WRITE_STEP) {
+            lastWrittenProgress = progress;
+            await this.dataStore.updateConsultation(consultationId, { noteGenerationProgress: progress });
+          }
+        },
+      );
+
+      const citations = this.citationMatcher.cite(output.sections, segments, { medications, allergies });
+      const unsupported = citations.filter((citation) => citation.support === "unsupported").length;
+      if (unsupported > 0) {
+        console.log(`⚠️ ${unsupported} of ${citations.length} statements have no supporting evidence in the transcript`);
+      }
+
+      const note = await this.dataStore.createClinicalNote(consultation.patientId, {
+        title: output.title,
+        content: formatNoteContent(output.sections),
+        noteType: template.noteType,
+        template: template.key,
+        status: "pending-review",
+        consultationId,
+        generatedFromAudio: true,
+        transcriptionId,
+        aiConfidence: output.confidence,
+        citations,
+      });
+      await this.dataStore.updateConsultation(consultationId, {
+        noteGenerationProgress: 100,
+        selectedTemplate: template.key,
+      });
+      await options.onProgress?.(100);
+
+      return {
+        ...baseResult,
+        success: true,
+        templateKey: template.key,
+        processingTimeMs: Date.now() - startTime,
+        note,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown note generation error";
+      console.error(`❌ Note generation failed for consultation ${consultationId}:`, error);
+
+      try {
+        await this.dataStore.updateConsultation(consultationId, {
+          noteGenerationError: errorMessage,
+          ...(options.markFailed && { noteGenerationProgress: null }),
+        });
+      } catch (updateError) {
+        console.error(`❌ Failed to record note generation error for consultation ${consultationId}:`, updateError);
+      }
+
+      return { ...baseResult, success: false, processingTimeMs: Date.now() - startTime, errorMessage };
+    }
+  }
+
+  /**
+   * Look up a template in the tenant's library, falling back to the default
+   * template if the consultation's selection has since been removed
+   */
+  private async resolveTemplate(templateKey?: string): Promise<NoteTemplateDefinition> {
+    const template = templateKey ? await this.dataStore.getNoteTemplateByKey(templateKey) : null;
+    return (
+      template ??
+      (await this.dataStore.getNoteTemplateByKey(DEFAULT_NOTE_TEMPLATE_KEY)) ??
+      getBuiltInNoteTemplate(DEFAULT_NOTE_TEMPLATE_KEY)
+    );
+  }
+}
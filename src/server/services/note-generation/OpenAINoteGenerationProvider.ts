@@ -0,0 +1,124 @@
+import OpenAI from "openai";
+import { z } from "zod";
+import { formatTranscriptTimestamp } from "@/lib/transcript";
+import type {
+  NoteGenerationInput,
+  NoteGenerationOutput,
+  NoteGenerationProgressCallback,
+  NoteGenerationProvider,
+} from "./NoteGenerationProvider";
+
+const NOTE_GENERATION_MODEL = "gpt-4o-mini";
+
+const responseSchema = z.object({
+  title: z.string().min(1),
+  sections: z.array(z.object({ key: z.string(), content: z.string() })),
+  confidence: z.number().min(0).max(1),
+});
+
+/**
+ * Drafts clinical notes with the OpenAI chat completions API.
+ *
+ * The model is asked for JSON keyed by template section so the note always
+ * follows the template, whatever the model decides to write.
+ */
+export class OpenAINoteGenerationProvider implements NoteGenerationProvider {
+  readonly name = "openai";
+  private openai: OpenAI;
+
+  constructor(openaiApiKey: string) {
+    this.openai = new OpenAI({ apiKey: openaiApiKey });
+  }
+
+  async generateNote(input: NoteGenerationInput, onProgress?: NoteGenerationProgressCallback): Promise<NoteGenerationOutput> {
+    if (input.transcript.length === 0) {
+      throw new Error("Cannot generate a note from an empty transcript");
+    }
+
+    const completion = await this.openai.chat.completions.create({
+      model: NOTE_GENERATION_MODEL,
+      temperature: 0.2,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: this.buildSystemPrompt(input) },
+        { role: "user", content: this.buildTranscriptPrompt(input) },
+      ],
+    });
+    await onProgress?.(90);
+
+    const raw = completion.choices[0]?.message.content;
+    if (!raw) {
+      throw new Error("Note generation returned an empty response");
+    }
+
+    const parsed = responseSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success) {
+      throw new Error(`Note generation returned an invalid response: ${parsed.error.message}`);
+    }
+
+    const contentByKey = new Map(
+      parsed.data.sections
+        .filter((section) => section.content.trim())
+        .map((section) => [section.key, section.content.trim()]),
+    );
+    await onProgress?.(100);
+
+    return {
+      title: parsed.data.title,
+      sections: input.template.sections.map((section) => ({
+        key: section.key,
+        heading: section.heading,
+        content: contentByKey.get(section.key) ?? "Not discussed.",
+      })),
+      confidence: parsed.data.confidence,
+      model: completion.model,
+    };
+  }
+
+  private buildSystemPrompt(input: NoteGenerationInput): string {
+    const sections = input.template.sections
+      .map((section) => {
+        const context = section.includeContext?.length ? ` Also state the patient's ${section.includeContext.join(" and ")}.` : "";
+        const fields = section.fields
+          .map((field) => `\n    * ${field.label}${field.required ? " (required)" : ""}`)
+          .join("");
+        return `- "${section.key}" (${section.heading}${section.required ? ", required" : ""}): ${section.instructions}${context}${fields}`;
+      })
+      .join("\n");
+
+    return [
+      "You are a clinical scribe for an Australian general practice.",
+      `Write a ${input.template.name} from the consultation transcript.`,
+      "Only record what was said in the consultation or given in the patient context - never invent findings.",
+      'Write "Not discussed." for a section the consultation did not cover, and "Not recorded." for a listed item it did not cover.',
+      "",
+      "Sections:",
+      sections,
+      "",
+      'Respond with JSON: {"title": string, "sections": [{"key": string, "content": string}], "confidence": number}',
+      "where confidence (0-1) reflects how completely the transcript supports the note.",
+    ].join("\n");
+  }
+
+  private buildTranscriptPrompt(input: NoteGenerationInput): string {
+    const medications = input.medications
+      .filter((medication) => medication.active)
+      .map((medication) => `- ${medication.name} ${medication.dosage} ${medication.frequency} (${medication.route})`);
+    const allergies = input.allergies.map(
+      (allergy) => `- ${allergy.allergen}: ${allergy.reaction} (${allergy.severity})`,
+    );
+
+    return [
+      `Patient: ${input.patient.firstName} ${input.patient.lastName}, ${input.patient.age} years, ${input.patient.gender}`,
+      "",
+      "Current medications:",
+      ...(medications.length > 0 ? medications : ["- None recorded"]),
+      "",
+      "Allergies:",
+      ...(allergies.length > 0 ? allergies : ["- No known allergies recorded"]),
+      "",
+      "Transcript:",
+      ...input.transcript.map((line) => `[${formatTranscriptTimestamp(line.startMs)}] ${line.speaker}: ${line.text}`),
+    ].join("\n");
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { TranscriptSegment } from '@/types/clinical';
+import { NoteCitationMatcher } from '../NoteCitationMatcher';
+
+const LINES: Array<Pick<TranscriptSegment, 'speaker' | 'text'>> = [
+  { speaker: 'Clinician', text: 'What brings you in today?' },
+  { speaker: 'Patient', text: "I've been coughing for five days and I've had a fever at night." },
+  { speaker: 'Patient', text: 'My daughter had the same thing last week.' },
+  { speaker: 'Clinician', text: 'Your chest sounds clear. Take paracetamol and come back if the fever lasts.' },
+];
+
+const SEGMENTS: TranscriptSegment[] = LINES.map((line, index) => ({
+  id: `segment-${index}`,
+  consultationId: 'consultation-001',
+  sequence: index,
+  speaker: line.speaker,
+  startMs: index * 5000,
+  endMs: (index + 1) * 5000,
+  audioSegment: 0,
+  audioOffsetMs: 0,
+  text: line.text,
+}));
+
+const CONTEXT = {
+  medications: [],
+  allergies: [
+    {
+      id: 'allergy-1',
+      allergen: 'Penicillin',
+      allergenType: 'drug' as const,
+      reaction: 'rash',
+      severity: 'moderate' as const,
+      verifiedDate: new Date('2020-05-01'),
+    },
+  ],
+};
+
+describe('NoteCitationMatcher', () => {
+  const matcher = new NoteCitationMatcher();
+
+  it('should cite the segments that support each statement', () => {
+    const citations = matcher.cite(
+      [
+        {
+          key: 'subjective',
+          heading: 'Subjective',
+          content: 'Patient reports a cough for five days with fevers at night. Daughter had the same last week.',
+        },
+      ],
+      SEGMENTS,
+      CONTEXT
+    );
+
+    expect(citations).toHaveLength(2);
+    expect(citations[0]).toMatchObject({
+      sectionKey: 'subjective',
+      statementIndex: 0,
+      support: 'supported',
+      score: 1,
+      evidence: [expect.objectContaining({ segmentId: 'segment-1', speaker: 'Patient', startMs: 5000 })],
+    });
+    expect(citations[1]).toMatchObject({
+      statementIndex: 1,
+      support: 'supported',
+      evidence: [expect.objectContaining({ segmentId: 'segment-2' })],
+    });
+  });
+
+  it('should flag statements with no evidence in the transcript', () => {
+    const citations = matcher.cite(
+      [
+        {
+          key: 'plan',
+          heading: 'Plan',
+          content: '- Paracetamol, return if fever lasts\n- Chest X-ray ordered and amoxicillin prescribed',
+        },
+      ],
+      SEGMENTS,
+      CONTEXT
+    );
+
+    expect(citations.map(citation => citation.support)).toEqual(['supported', 'unsupported']);
+    expect(citations[1]!.score).toBeLessThan(0.5);
+  });
+
+  it('should attribute patient record context and skip placeholders', () => {
+    const citations = matcher.cite(
+      [
+        { key: 'assessment', heading: 'Assessment', content: 'Not discussed.' },
+        { key: 'history', heading: 'History', content: 'Not discussed.\n\nAllergies: Penicillin (rash).' },
+      ],
+      SEGMENTS,
+      CONTEXT
+    );
+
+    expect(citations).toEqual([
+      expect.objectContaining({ statementIndex: 2, support: 'patient-record', evidence: [] }),
+    ]);
+  });
+});
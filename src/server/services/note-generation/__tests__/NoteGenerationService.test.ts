@@ -0,0 +1,227 @@
+import { describe, it, expect, vi } from 'vitest';
+import type {
+  DataStore,
+  ClinicalNoteInput,
+  ConsultationRecord,
+  NoteCitationInput,
+  UpdateConsultationInput,
+} from '@/server/datastore/types';
+import type { ClinicalNote, NoteTemplateDefinition, PatientContext, TranscriptSegment } from '@/types/clinical';
+import { BUILT_IN_NOTE_TEMPLATES } from '@/lib/note-templates';
+import { FakeNoteGenerationProvider } from '../FakeNoteGenerationProvider';
+import { NoteGenerationService } from '../NoteGenerationService';
+import type { NoteGenerationProvider } from '../NoteGenerationProvider';
+
+const CONSULTATION_ID = 'consultation-001';
+const PATIENT_ID = 'patient-001';
+
+const TRANSCRIPT: Array<Pick<TranscriptSegment, 'speaker' | 'text'>> = [
+  { speaker: 'Clinician', text: 'What brings you in today?' },
+  { speaker: 'Patient', text: "I've had a sore throat and a cough for five days." },
+  { speaker: 'Clinician', text: 'Your chest sounds clear and your throat is a little red.' },
+  { speaker: 'Clinician', text: 'This looks like a viral upper respiratory infection.' },
+  { speaker: 'Clinician', text: 'Rest, fluids and paracetamol should help.' },
+];
+
+function createSegments(lines = TRANSCRIPT): TranscriptSegment[] {
+  return lines.map((line, index) => ({
+    id: `segment-${index}`,
+    consultationId: CONSULTATION_ID,
+    sequence: index,
+    speaker: line.speaker,
+    startMs: index * 8000,
+    endMs: (index + 1) * 8000,
+    audioSegment: 0,
+    audioOffsetMs: 0,
+    text: line.text,
+  }));
+}
+
+const patientContext: PatientContext = {
+  summary: {
+    id: PATIENT_ID,
+    ehrPatientId: PATIENT_ID,
+    ehrSystem: 'other',
+    firstName: 'Jane',
+    lastName: 'Citizen',
+    dateOfBirth: new Date('1985-03-02'),
+    age: 40,
+    gender: 'F',
+    lastSyncedAt: new Date(),
+  },
+  medications: [
+    {
+      id: 'med-1',
+      name: 'Atorvastatin',
+      dosage: '20mg',
+      frequency: 'daily',
+      route: 'oral',
+      startDate: new Date('2023-01-01'),
+      prescribedBy: 'Dr Smith',
+      active: true,
+    },
+  ],
+  allergies: [
+    {
+      id: 'allergy-1',
+      allergen: 'Penicillin',
+      allergenType: 'drug',
+      reaction: 'rash',
+      severity: 'moderate',
+      verifiedDate: new Date('2020-05-01'),
+    },
+  ],
+};
+
+// In-memory DataStore covering only the methods the service uses
+function createDataStore(
+  segments: TranscriptSegment[],
+  overrides: Partial<ConsultationRecord> = {},
+  templates: ReadonlyArray<NoteTemplateDefinition> = BUILT_IN_NOTE_TEMPLATES
+) {
+  let consultation: ConsultationRecord = {
+    id: CONSULTATION_ID,
+    tenantId: 'tenant-001',
+    patientId: PATIENT_ID,
+    mode: 'standalone',
+    status: 'review',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+  const notes: ClinicalNote[] = [];
+
+  const createClinicalNote = vi.fn(async (patientId: string, input: ClinicalNoteInput) => {
+    const note: ClinicalNote = {
+      ...input,
+      id: `note-${notes.length + 1}`,
+      patientId,
+      clinicianId: 'clinician-001',
+      noteType: input.noteType ?? 'progress',
+      status: input.status ?? 'draft',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    notes.unshift(note);
+    return note;
+  });
+
+  const dataStore = {
+    getConsultation: vi.fn(async () => consultation),
+    updateConsultation: vi.fn(async (_id: string, update: UpdateConsultationInput) => {
+      consultation = {
+        ...consultation,
+        ...Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)),
+      };
+      return consultation;
+    }),
+    getTranscriptSegments: vi.fn(async () => segments),
+    getPatientContext: vi.fn(async () => patientContext),
+    getConsultationNotes: vi.fn(async () => notes),
+    getNoteTemplateByKey: vi.fn(async (key: string) => templates.find(template => template.key === key) ?? null),
+    createClinicalNote,
+  } as unknown as DataStore;
+
+  return { dataStore, createClinicalNote, notes, current: () => consultation };
+}
+
+describe('NoteGenerationService', () => {
+  it('should draft a note for review from the transcript and patient context', async () => {
+    const { dataStore, createClinicalNote, notes, current } = createDataStore(createSegments());
+    const progress: number[] = [];
+
+    const service = new NoteGenerationService(dataStore, new FakeNoteGenerationProvider());
+    const result = await service.generateNoteForConsultation(CONSULTATION_ID, {
+      templateKey: 'soap',
+      onProgress: value => {
+        progress.push(value);
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(notes).toHaveLength(1);
+    expect(notes[0]).toMatchObject({
+      status: 'pending-review',
+      noteType: 'soap',
+      template: 'soap',
+      consultationId: CONSULTATION_ID,
+      generatedFromAudio: true,
+    });
+    expect(notes[0]!.aiConfidence).toBe(1);
+    expect(notes[0]!.content).toContain('## Subjective');
+    expect(notes[0]!.content).toContain("I've had a sore throat");
+    expect(notes[0]!.content).toContain('Atorvastatin 20mg daily');
+    expect(notes[0]!.content).toContain('Penicillin (rash)');
+    expect(notes[0]!.content).toMatch(/## Assessment\n\nThis looks like a viral upper respiratory infection\./);
+    expect(current()).toMatchObject({ noteGenerationProgress: 100, selectedTemplate: 'soap' });
+    expect(progress.at(-1)).toBe(100);
+
+    const citations: NoteCitationInput[] = createClinicalNote.mock.calls[0]![1].citations ?? [];
+    expect(citations.filter(citation => citation.support === 'unsupported')).toEqual([]);
+    expect(citations.find(citation => citation.statement.startsWith('Current medications'))).toMatchObject({
+      support: 'patient-record',
+    });
+  });
+
+  it('should follow the consultation template when none is requested', async () => {
+    const { dataStore, notes } = createDataStore(createSegments(), { selectedTemplate: 'progress' });
+
+    const service = new NoteGenerationService(dataStore, new FakeNoteGenerationProvider());
+    await service.generateNoteForConsultation(CONSULTATION_ID);
+
+    expect(notes[0]).toMatchObject({ template: 'progress', noteType: 'progress' });
+    expect(notes[0]!.content).toContain('## Management');
+  });
+
+  it("should use the tenant's customised template", async () => {
+    const custom: NoteTemplateDefinition = {
+      key: 'skin-check',
+      name: 'Skin Check',
+      noteType: 'assessment',
+      sections: [{ key: 'lesions', heading: 'Lesions', instructions: 'Lesions examined.', required: true, fields: [] }],
+    };
+    const { dataStore, notes } = createDataStore(createSegments(), {}, [...BUILT_IN_NOTE_TEMPLATES, custom]);
+
+    const service = new NoteGenerationService(dataStore, new FakeNoteGenerationProvider());
+    await service.generateNoteForConsultation(CONSULTATION_ID, { templateKey: 'skin-check' });
+
+    expect(notes[0]).toMatchObject({ template: 'skin-check', noteType: 'assessment' });
+    expect(notes[0]!.content).toBe('## Lesions\n\nNot discussed.');
+  });
+
+  it('should not draft a second note for the same transcript and template', async () => {
+    const { dataStore, notes } = createDataStore(createSegments());
+    const service = new NoteGenerationService(dataStore, new FakeNoteGenerationProvider());
+
+    await service.generateNoteForConsultation(CONSULTATION_ID);
+    const retry = await service.generateNoteForConsultation(CONSULTATION_ID);
+
+    expect(retry).toMatchObject({ success: true, skipped: true });
+    expect(notes).toHaveLength(1);
+  });
+
+  it('should fail without a transcript', async () => {
+    const { dataStore, current } = createDataStore([]);
+
+    const service = new NoteGenerationService(dataStore, new FakeNoteGenerationProvider());
+    const result = await service.generateNoteForConsultation(CONSULTATION_ID, { markFailed: true });
+
+    expect(result.success).toBe(false);
+    expect(current().noteGenerationError).toMatch(/no transcript/);
+  });
+
+  it('should keep progress while retries remain', async () => {
+    const { dataStore, current, notes } = createDataStore(createSegments());
+    const failingProvider: NoteGenerationProvider = {
+      name: 'failing',
+      generateNote: vi.fn().mockRejectedValue(new Error('Model unavailable')),
+    };
+
+    const service = new NoteGenerationService(dataStore, failingProvider);
+    const result = await service.generateNoteForConsultation(CONSULTATION_ID, { markFailed: false });
+
+    expect(result).toMatchObject({ success: false, errorMessage: 'Model unavailable' });
+    expect(current()).toMatchObject({ noteGenerationProgress: 0, noteGenerationError: 'Model unavailable' });
+    expect(notes).toHaveLength(0);
+  });
+});
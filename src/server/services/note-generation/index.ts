@@ -0,0 +1,26 @@
+import { serverEnv } from "@/env";
+import { FakeNoteGenerationProvider } from "./FakeNoteGenerationProvider";
+import { OpenAINoteGenerationProvider } from "./OpenAINoteGenerationProvider";
+import type { NoteGenerationProvider } from "./NoteGenerationProvider";
+
+/**
+ * Create the note generation provider selected by NOTE_GENERATION_PROVIDER
+ */
+export const createNoteGenerationProvider = (): NoteGenerationProvider => {
+  if (serverEnv.NOTE_GENERATION_PROVIDER === "openai") {
+    const openaiApiKey = process.env.OPENAI_API_KEY;
+    if (!openaiApiKey) {
+      throw new Error("OPENAI_API_KEY environment variable is required for OpenAI note generation");
+    }
+    return new OpenAINoteGenerationProvider(openaiApiKey);
+  }
+
+  return new FakeNoteGenerationProvider();
+};
+
+export * from "./NoteGenerationProvider";
+export * from "./FakeNoteGenerationProvider";
+export * from "./OpenAINoteGenerationProvider";
+export * from "./NoteCitationMatcher";
+export * from "./NoteGenerationService";
+export * from "./NoteGenerationQueueService";
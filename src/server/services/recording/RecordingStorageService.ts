@@ -0,0 +1,390 @@
+import { createReadStream, type ReadStream } from "fs";
+import { appendFile, mkdir, readFile, readdir, rename, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+
+// Upload limits - a single MediaRecorder timeslice is a few seconds of audio
+export const MAX_CHUNK_SIZE_BYTES = 5 * 1024 * 1024; // 5MB
+const MAX_SEGMENTS = 100;
+const SAFE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Pending manifest update for each session directory. Module-level because routes
+// create a service per request, and every instance must queue behind the same lock.
+const sessionLocks = new Map<string, Promise<unknown>>();
+
+export type RecordingSessionStatus = "recording" | "paused" | "complete";
+
+export interface RecordingSegment {
+  index: number;
+  mimeType: string;
+  chunkSequences: number[];
+  bytes: number;
+  fileName?: string; // Set once the segment has been assembled
+}
+
+export interface RecordingManifest {
+  consultationId: string;
+  tenantId: string;
+  status: RecordingSessionStatus;
+  startedAt: string;
+  endedAt?: string;
+  pausedAt?: string;
+  pausedMs: number;
+  segments: RecordingSegment[];
+  totalBytes: number;
+}
+
+export interface RecordingSegmentFile {
+  index: number;
+  path: string;
+  mimeType: string;
+  bytes: number;
+}
+
+export interface FinalizedRecording {
+  manifest: RecordingManifest;
+  durationSeconds: number;
+  segmentFiles: string[];
+}
+
+export class RecordingStorageError extends Error {
+  constructor(
+    message: string,
+    public code:
+      | "INVALID_ID"
+      | "SESSION_NOT_FOUND"
+      | "SESSION_COMPLETE"
+      | "CHUNK_TOO_LARGE"
+      | "INVALID_CHUNK"
+      | "MISSING_CHUNKS",
+  ) {
+    super(message);
+    this.name = "RecordingStorageError";
+  }
+}
+
+/**
+ * Stores consultation audio uploaded as MediaRecorder chunks.
+ *
+ * Each recording is split into segments - one per MediaRecorder instance. Chunks
+ * within a segment concatenate into a playable file, but chunks from different
+ * recorder instances do not (each carries its own container header), so a tab
+ * reload mid-consult starts a new segment rather than appending to the old one.
+ *
+ * Layout: <root>/<tenantId>/<consultationId>/{manifest.json, seg-0000/, segment-0000.webm}
+ */
+export class RecordingStorageService {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  /**
+   * Start a recording session, or return the existing one if it was interrupted
+   */
+  startSession(tenantId: string, consultationId: string): Promise<RecordingManifest> {
+    return this.withSessionLock(tenantId, consultationId, async () => {
+      const existing = await this.getManifest(tenantId, consultationId);
+      if (existing && existing.status !== "complete") {
+        return existing;
+      }
+
+      const manifest: RecordingManifest = {
+        consultationId,
+        tenantId,
+        status: "recording",
+        startedAt: new Date().toISOString(),
+        pausedMs: 0,
+        segments: [],
+        totalBytes: 0,
+      };
+
+      // Starting over after a completed recording replaces the previous audio
+      if (existing) {
+        await rm(this.getSessionDir(tenantId, consultationId), { recursive: true, force: true });
+      }
+
+      await mkdir(this.getSessionDir(tenantId, consultationId), { recursive: true });
+      await this.writeManifest(manifest);
+      return manifest;
+    });
+  }
+
+  async getManifest(tenantId: string, consultationId: string): Promise<RecordingManifest | null> {
+    const manifestPath = path.join(this.getSessionDir(tenantId, consultationId), "manifest.json");
+
+    try {
+      const content = await readFile(manifestPath, "utf-8");
+      return JSON.parse(content) as RecordingManifest;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store a single chunk. Uploads are idempotent so the client can safely retry.
+   */
+  appendChunk(
+    tenantId: string,
+    consultationId: string,
+    chunk: { segment: number; sequence: number; mimeType: string; data: Buffer },
+  ): Promise<RecordingManifest> {
+    return this.withSessionLock(tenantId, consultationId, async () => {
+      const manifest = await this.requireOpenSession(tenantId, consultationId);
+
+      if (!Number.isInteger(chunk.segment) || chunk.segment < 0 || chunk.segment >= MAX_SEGMENTS) {
+        throw new RecordingStorageError(`Invalid segment index: ${chunk.segment}`, "INVALID_CHUNK");
+      }
+      if (!Number.isInteger(chunk.sequence) || chunk.sequence < 0) {
+        throw new RecordingStorageError(`Invalid chunk sequence: ${chunk.sequence}`, "INVALID_CHUNK");
+      }
+      if (chunk.data.length === 0) {
+        throw new RecordingStorageError("Chunk is empty", "INVALID_CHUNK");
+      }
+      if (chunk.data.length > MAX_CHUNK_SIZE_BYTES) {
+        throw new RecordingStorageError(
+          `Chunk size ${chunk.data.length} bytes exceeds maximum of ${MAX_CHUNK_SIZE_BYTES} bytes`,
+          "CHUNK_TOO_LARGE",
+        );
+      }
+
+      let segment = manifest.segments.find((s) => s.index === chunk.segment);
+      if (!segment) {
+        segment = { index: chunk.segment, mimeType: chunk.mimeType, chunkSequences: [], bytes: 0 };
+        manifest.segments.push(segment);
+        manifest.segments.sort((a, b) => a.index - b.index);
+      }
+
+      if (segment.chunkSequences.includes(chunk.sequence)) {
+        return manifest; // Duplicate delivery of a chunk we already have
+      }
+
+      const segmentDir = path.join(this.getSessionDir(tenantId, consultationId), this.segmentDirName(chunk.segment));
+      await mkdir(segmentDir, { recursive: true });
+
+      // Write to a temp file first so a dropped request never leaves a truncated chunk behind
+      const chunkPath = path.join(segmentDir, this.chunkFileName(chunk.sequence));
+      await writeFile(`${chunkPath}.tmp`, chunk.data);
+      await rename(`${chunkPath}.tmp`, chunkPath);
+
+      segment.chunkSequences.push(chunk.sequence);
+      segment.chunkSequences.sort((a, b) => a - b);
+      segment.bytes += chunk.data.length;
+      manifest.totalBytes += chunk.data.length;
+
+      await this.writeManifest(manifest);
+      return manifest;
+    });
+  }
+
+  pause(tenantId: string, consultationId: string): Promise<RecordingManifest> {
+    return this.withSessionLock(tenantId, consultationId, async () => {
+      const manifest = await this.requireOpenSession(tenantId, consultationId);
+      if (manifest.status === "paused") return manifest;
+
+      manifest.status = "paused";
+      manifest.pausedAt = new Date().toISOString();
+      await this.writeManifest(manifest);
+      return manifest;
+    });
+  }
+
+  resume(tenantId: string, consultationId: string): Promise<RecordingManifest> {
+    return this.withSessionLock(tenantId, consultationId, async () => {
+      const manifest = await this.requireOpenSession(tenantId, consultationId);
+      if (manifest.status === "recording") return manifest;
+
+      if (manifest.pausedAt) {
+        manifest.pausedMs += Date.now() - new Date(manifest.pausedAt).getTime();
+      }
+      manifest.status = "recording";
+      manifest.pausedAt = undefined;
+      await this.writeManifest(manifest);
+      return manifest;
+    });
+  }
+
+  /**
+   * Assemble uploaded chunks into one file per segment and close the session
+   */
+  finalize(
+    tenantId: string,
+    consultationId: string,
+    expectedChunks?: Record<number, number>,
+  ): Promise<FinalizedRecording> {
+    return this.withSessionLock(tenantId, consultationId, async () => {
+      const manifest = await this.requireOpenSession(tenantId, consultationId);
+      const sessionDir = this.getSessionDir(tenantId, consultationId);
+
+      // Verify we have every chunk before assembling anything
+      const missing: string[] = [];
+      for (const segment of manifest.segments) {
+        const expectedCount = expectedChunks?.[segment.index] ?? (segment.chunkSequences.at(-1) ?? -1) + 1;
+        for (let sequence = 0; sequence < expectedCount; sequence++) {
+          if (!segment.chunkSequences.includes(sequence)) {
+            missing.push(`${segment.index}:${sequence}`);
+          }
+        }
+      }
+      if (missing.length > 0) {
+        throw new RecordingStorageError(
+          `Recording is missing chunks (segment:sequence): ${missing.slice(0, 20).join(", ")}`,
+          "MISSING_CHUNKS",
+        );
+      }
+
+      const segmentFiles: string[] = [];
+      for (const segment of manifest.segments) {
+        if (segment.chunkSequences.length === 0) continue;
+
+        const fileName = `segment-${String(segment.index).padStart(4, "0")}.${this.extensionFor(segment.mimeType)}`;
+        const segmentDir = path.join(sessionDir, this.segmentDirName(segment.index));
+        const outputPath = path.join(sessionDir, fileName);
+
+        // Chunks are small, so appending them one at a time keeps memory bounded
+        await writeFile(outputPath, Buffer.alloc(0));
+        for (const sequence of segment.chunkSequences) {
+          await appendFile(outputPath, await readFile(path.join(segmentDir, this.chunkFileName(sequence))));
+        }
+
+        await rm(segmentDir, { recursive: true, force: true });
+        segment.fileName = fileName;
+        segmentFiles.push(fileName);
+      }
+
+      const endedAt = new Date();
+      if (manifest.status === "paused" && manifest.pausedAt) {
+        manifest.pausedMs += endedAt.getTime() - new Date(manifest.pausedAt).getTime();
+      }
+
+      manifest.status = "complete";
+      manifest.endedAt = endedAt.toISOString();
+      manifest.pausedAt = undefined;
+      await this.writeManifest(manifest);
+
+      const elapsedMs = endedAt.getTime() - new Date(manifest.startedAt).getTime();
+      return {
+        manifest,
+        durationSeconds: Math.max(0, Math.round((elapsedMs - manifest.pausedMs) / 1000)),
+        segmentFiles,
+      };
+    });
+  }
+
+  /**
+   * Remove a recording and all of its uploaded chunks
+   */
+  async discard(tenantId: string, consultationId: string): Promise<void> {
+    await rm(this.getSessionDir(tenantId, consultationId), { recursive: true, force: true });
+  }
+
+  /**
+   * Open an assembled segment for playback or transcription
+   */
+  async openSegment(
+    tenantId: string,
+    consultationId: string,
+    segmentIndex: number,
+  ): Promise<{ stream: ReadStream; size: number; mimeType: string } | null> {
+    const manifest = await this.getManifest(tenantId, consultationId);
+    const segment = manifest?.segments.find((s) => s.index === segmentIndex);
+    if (manifest?.status !== "complete" || !segment?.fileName) {
+      return null;
+    }
+
+    const filePath = path.join(this.getSessionDir(tenantId, consultationId), segment.fileName);
+    const fileStats = await stat(filePath);
+    return { stream: createReadStream(filePath), size: fileStats.size, mimeType: segment.mimeType };
+  }
+
+  /**
+   * Assembled segments with absolute paths, in playback order
+   */
+  async getSegmentFiles(tenantId: string, consultationId: string): Promise<RecordingSegmentFile[]> {
+    const manifest = await this.getManifest(tenantId, consultationId);
+    if (manifest?.status !== "complete") {
+      return [];
+    }
+
+    const sessionDir = this.getSessionDir(tenantId, consultationId);
+    const files = new Set(await readdir(sessionDir));
+    return manifest.segments
+      .filter((segment): segment is RecordingSegment & { fileName: string } =>
+        segment.fileName !== undefined && files.has(segment.fileName),
+      )
+      .map((segment) => ({
+        index: segment.index,
+        path: path.join(sessionDir, segment.fileName),
+        mimeType: segment.mimeType,
+        bytes: segment.bytes,
+      }));
+  }
+
+  // ============================================================================
+  // PRIVATE HELPERS
+  // ============================================================================
+
+  private async requireOpenSession(tenantId: string, consultationId: string): Promise<RecordingManifest> {
+    const manifest = await this.getManifest(tenantId, consultationId);
+    if (!manifest) {
+      throw new RecordingStorageError(`No recording session for consultation ${consultationId}`, "SESSION_NOT_FOUND");
+    }
+    if (manifest.status === "complete") {
+      throw new RecordingStorageError(`Recording for consultation ${consultationId} is already complete`, "SESSION_COMPLETE");
+    }
+    return manifest;
+  }
+
+  /**
+   * Run a read-modify-write of the manifest with no other update to the session in between
+   */
+  private async withSessionLock<T>(tenantId: string, consultationId: string, fn: () => Promise<T>): Promise<T> {
+    const key = this.getSessionDir(tenantId, consultationId);
+    const previous = sessionLocks.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(fn);
+    sessionLocks.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      // Drop the entry once nothing else has queued behind us
+      if (sessionLocks.get(key) === current) {
+        sessionLocks.delete(key);
+      }
+    }
+  }
+
+  private async writeManifest(manifest: RecordingManifest): Promise<void> {
+    const manifestPath = path.join(this.getSessionDir(manifest.tenantId, manifest.consultationId), "manifest.json");
+    await writeFile(`${manifestPath}.tmp`, JSON.stringify(manifest, null, 2));
+    await rename(`${manifestPath}.tmp`, manifestPath);
+  }
+
+  /**
+   * IDs come from request URLs, so they are validated before touching the filesystem
+   */
+  private getSessionDir(tenantId: string, consultationId: string): string {
+    if (!SAFE_ID_PATTERN.test(tenantId) || !SAFE_ID_PATTERN.test(consultationId)) {
+      throw new RecordingStorageError("Invalid tenant or consultation ID", "INVALID_ID");
+    }
+    return path.join(this.rootDir, tenantId, consultationId);
+  }
+
+  private segmentDirName(segment: number): string {
+    return `seg-${String(segment).padStart(4, "0")}`;
+  }
+
+  private chunkFileName(sequence: number): string {
+    return `chunk-${String(sequence).padStart(6, "0")}.part`;
+  }
+
+  private extensionFor(mimeType: string): string {
+    if (mimeType.includes("ogg")) return "ogg";
+    if (mimeType.includes("mp4") || mimeType.includes("aac")) return "m4a";
+    if (mimeType.includes("wav")) return "wav";
+    return "webm";
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { RecordingStorageService, RecordingStorageError } from '../RecordingStorageService';
+
+const TENANT_ID = 'tenant-001';
+const CONSULTATION_ID = 'consultation-001';
+
+describe('RecordingStorageService', () => {
+  let rootDir: string;
+  let service: RecordingStorageService;
+
+  const chunk = (segment: number, sequence: number, content: string) => ({
+    segment,
+    sequence,
+    mimeType: 'audio/webm;codecs=opus',
+    data: Buffer.from(content),
+  });
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(os.tmpdir(), 'recording-test-'));
+    service = new RecordingStorageService(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe('startSession', () => {
+    it('should create a new recording session', async () => {
+      const manifest = await service.startSession(TENANT_ID, CONSULTATION_ID);
+
+      expect(manifest.status).toBe('recording');
+      expect(manifest.segments).toEqual([]);
+      expect(await service.getManifest(TENANT_ID, CONSULTATION_ID)).toEqual(manifest);
+    });
+
+    it('should return the existing session when one is still open', async () => {
+      const first = await service.startSession(TENANT_ID, CONSULTATION_ID);
+      await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 0, 'abc'));
+
+      const second = await service.startSession(TENANT_ID, CONSULTATION_ID);
+
+      expect(second.startedAt).toBe(first.startedAt);
+      expect(second.segments).toHaveLength(1);
+    });
+
+    it('should reject IDs that could escape the storage directory', async () => {
+      await expect(service.startSession('../other-tenant', CONSULTATION_ID)).rejects.toMatchObject({
+        code: 'INVALID_ID',
+      });
+    });
+  });
+
+  describe('appendChunk', () => {
+    beforeEach(async () => {
+      await service.startSession(TENANT_ID, CONSULTATION_ID);
+    });
+
+    it('should ignore duplicate deliveries of the same chunk', async () => {
+      await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 0, 'abc'));
+      const manifest = await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 0, 'abc'));
+
+      expect(manifest.segments[0]?.chunkSequences).toEqual([0]);
+      expect(manifest.totalBytes).toBe(3);
+    });
+
+    it('should keep every chunk when uploads race with pause and resume', async () => {
+      // A second instance mirrors the per-request services the routes create
+      const other = new RecordingStorageService(rootDir);
+
+      await Promise.all([
+        service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 0, 'a')),
+        other.pause(TENANT_ID, CONSULTATION_ID),
+        service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 1, 'b')),
+        other.resume(TENANT_ID, CONSULTATION_ID),
+        service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 2, 'c')),
+      ]);
+
+      const manifest = await service.getManifest(TENANT_ID, CONSULTATION_ID);
+      expect(manifest?.segments[0]?.chunkSequences).toEqual([0, 1, 2]);
+      expect(manifest?.totalBytes).toBe(3);
+      expect(manifest?.status).toBe('recording');
+
+      const result = await service.finalize(TENANT_ID, CONSULTATION_ID, { 0: 3 });
+      expect(result.segmentFiles).toEqual(['segment-0000.webm']);
+    });
+
+    it('should reject empty chunks', async () => {
+      await expect(service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 0, ''))).rejects.toBeInstanceOf(
+        RecordingStorageError
+      );
+    });
+
+    it('should reject chunks when no session exists', async () => {
+      await expect(service.appendChunk(TENANT_ID, 'missing', chunk(0, 0, 'abc'))).rejects.toMatchObject({
+        code: 'SESSION_NOT_FOUND',
+      });
+    });
+  });
+
+  describe('finalize', () => {
+    beforeEach(async () => {
+      await service.startSession(TENANT_ID, CONSULTATION_ID);
+    });
+
+    it('should assemble chunks in sequence order regardless of arrival order', async () => {
+      await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 1, 'world'));
+      await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 0, 'hello '));
+      await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(1, 0, 'again'));
+
+      const result = await service.finalize(TENANT_ID, CONSULTATION_ID, { 0: 2, 1: 1 });
+
+      expect(result.manifest.status).toBe('complete');
+      expect(result.segmentFiles).toEqual(['segment-0000.webm', 'segment-0001.webm']);
+
+      const files = await service.getSegmentFiles(TENANT_ID, CONSULTATION_ID);
+      expect(files.map(file => file.mimeType)).toEqual(['audio/webm;codecs=opus', 'audio/webm;codecs=opus']);
+      expect(await readFile(files[0]!.path, 'utf-8')).toBe('hello world');
+      expect(await readFile(files[1]!.path, 'utf-8')).toBe('again');
+    });
+
+    it('should refuse to finalize when chunks are missing', async () => {
+      await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 0, 'a'));
+      await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 2, 'c'));
+
+      await expect(service.finalize(TENANT_ID, CONSULTATION_ID)).rejects.toMatchObject({
+        code: 'MISSING_CHUNKS',
+      });
+    });
+
+    it('should detect trailing chunks the client reported but never delivered', async () => {
+      await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 0, 'a'));
+
+      await expect(service.finalize(TENANT_ID, CONSULTATION_ID, { 0: 3 })).rejects.toMatchObject({
+        code: 'MISSING_CHUNKS',
+      });
+    });
+
+    it('should exclude paused time from the duration', async () => {
+      await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 0, 'a'));
+      const manifest = await service.pause(TENANT_ID, CONSULTATION_ID);
+      expect(manifest.status).toBe('paused');
+
+      const resumed = await service.resume(TENANT_ID, CONSULTATION_ID);
+      expect(resumed.status).toBe('recording');
+      expect(resumed.pausedAt).toBeUndefined();
+
+      const result = await service.finalize(TENANT_ID, CONSULTATION_ID);
+      expect(result.durationSeconds).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should not accept chunks after the recording is complete', async () => {
+      await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 0, 'a'));
+      await service.finalize(TENANT_ID, CONSULTATION_ID);
+
+      await expect(service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 1, 'b'))).rejects.toMatchObject({
+        code: 'SESSION_COMPLETE',
+      });
+    });
+  });
+
+  describe('discard', () => {
+    it('should remove the session entirely', async () => {
+      await service.startSession(TENANT_ID, CONSULTATION_ID);
+      await service.appendChunk(TENANT_ID, CONSULTATION_ID, chunk(0, 0, 'a'));
+
+      await service.discard(TENANT_ID, CONSULTATION_ID);
+
+      expect(await service.getManifest(TENANT_ID, CONSULTATION_ID)).toBeNull();
+    });
+  });
+});
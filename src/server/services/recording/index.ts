@@ -0,0 +1,10 @@
+import { serverEnv } from "@/env";
+import { RecordingStorageService } from "./RecordingStorageService";
+
+/**
+ * Factory for the recording store rooted at RECORDING_STORAGE_DIR
+ */
+export const createRecordingStorageService = () =>
+  new RecordingStorageService(serverEnv.RECORDING_STORAGE_DIR);
+
+export * from "./RecordingStorageService";
@@ -0,0 +1,98 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import type {
+  TranscribedSegment,
+  TranscriptionInput,
+  TranscriptionOutput,
+  TranscriptionProgressCallback,
+  TranscriptionProvider,
+} from "./TranscriptionProvider";
+
+// Roughly the bitrate of browser opus recordings, used to estimate duration from size
+const ESTIMATED_BYTES_PER_SECOND = 4000;
+const SEGMENT_SECONDS = 8;
+
+const DEFAULT_SCRIPT: ReadonlyArray<{ speaker: string; text: string }> = [
+  { speaker: "Clinician", text: "Good morning, what brings you in today?" },
+  { speaker: "Patient", text: "I've had a sore throat and a cough for about five days." },
+  { speaker: "Clinician", text: "Have you had any fevers or trouble swallowing?" },
+  { speaker: "Patient", text: "A mild fever the first couple of nights, but it's settled now." },
+  { speaker: "Clinician", text: "Any shortness of breath or chest pain?" },
+  { speaker: "Patient", text: "No, just the cough keeping me up at night." },
+  { speaker: "Clinician", text: "Let me have a look at your throat and listen to your chest." },
+  { speaker: "Clinician", text: "Your chest sounds clear and your throat is a little red." },
+  { speaker: "Clinician", text: "This looks like a viral upper respiratory infection." },
+  { speaker: "Patient", text: "Do I need antibiotics?" },
+  { speaker: "Clinician", text: "Not at this stage. Rest, fluids and paracetamol should help." },
+  { speaker: "Clinician", text: "Come back if you're not improving in a week or if you feel short of breath." },
+];
+
+interface FakeTranscriptionProviderOptions {
+  script?: ReadonlyArray<{ speaker: string; text: string }>;
+  // Artificial delay per file, to make progress visible in development
+  delayMs?: number;
+}
+
+/**
+ * Deterministic stand-in for a real speech-to-text engine.
+ *
+ * The same audio always produces the same transcript: the audio content picks
+ * the starting line of a canned consultation script, and the file sizes set the
+ * timeline. Used by tests and for offline development without API keys.
+ */
+export class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "fake";
+  private script: ReadonlyArray<{ speaker: string; text: string }>;
+  private delayMs: number;
+
+  constructor(options: FakeTranscriptionProviderOptions = {}) {
+    this.script = options.script ?? DEFAULT_SCRIPT;
+    this.delayMs = options.delayMs ?? 0;
+  }
+
+  async transcribe(input: TranscriptionInput, onProgress?: TranscriptionProgressCallback): Promise<TranscriptionOutput> {
+    if (input.audioFiles.length === 0) {
+      throw new Error("No audio to transcribe");
+    }
+
+    const segments: TranscribedSegment[] = [];
+    let offsetSeconds = 0;
+
+    for (const [fileIndex, file] of input.audioFiles.entries()) {
+      const content = await readFile(file.path);
+      const seed = createHash("sha256").update(content).digest().readUInt32BE(0);
+
+      const fileSeconds = Math.max(1, Math.round(content.length / ESTIMATED_BYTES_PER_SECOND));
+      const lineCount = Math.max(1, Math.ceil(fileSeconds / SEGMENT_SECONDS));
+
+      for (let i = 0; i < lineCount; i++) {
+        const line = this.script[(seed + segments.length) % this.script.length]!;
+        const startSeconds = offsetSeconds + i * SEGMENT_SECONDS;
+        segments.push({
+          speaker: line.speaker,
+          startSeconds,
+          endSeconds: Math.min(offsetSeconds + fileSeconds, startSeconds + SEGMENT_SECONDS),
+          text: line.text,
+          confidence: 0.9 + ((seed >> (i % 24)) % 10) / 100,
+          audioSegment: file.index,
+          audioOffsetSeconds: offsetSeconds,
+        });
+      }
+
+      offsetSeconds += fileSeconds;
+
+      if (this.delayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+      }
+      await onProgress?.(Math.round(((fileIndex + 1) / input.audioFiles.length) * 100));
+    }
+
+    return {
+      text: segments.map((segment) => segment.text).join(" "),
+      segments,
+      durationSeconds: offsetSeconds,
+      language: input.language ?? "en",
+      model: "fake-transcriber-v1",
+    };
+  }
+}
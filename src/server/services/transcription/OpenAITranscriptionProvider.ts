@@ -0,0 +1,79 @@
+import { createReadStream } from "fs";
+import path from "path";
+import OpenAI, { toFile } from "openai";
+import type {
+  TranscribedSegment,
+  TranscriptionInput,
+  TranscriptionOutput,
+  TranscriptionProgressCallback,
+  TranscriptionProvider,
+} from "./TranscriptionProvider";
+
+// OpenAI rejects uploads above 25MB; a 5 minute timeslice segment is well under this
+const MAX_FILE_SIZE_BYTES = 25 * 1024 * 1024;
+const TRANSCRIPTION_MODEL = "whisper-1";
+
+/**
+ * Transcribes recordings with the OpenAI audio API.
+ *
+ * Whisper does not diarize, so segments are returned without a speaker and
+ * can be relabelled by the clinician during review.
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = "openai";
+  private openai: OpenAI;
+
+  constructor(openaiApiKey: string) {
+    this.openai = new OpenAI({ apiKey: openaiApiKey });
+  }
+
+  async transcribe(input: TranscriptionInput, onProgress?: TranscriptionProgressCallback): Promise<TranscriptionOutput> {
+    if (input.audioFiles.length === 0) {
+      throw new Error("No audio to transcribe");
+    }
+
+    const segments: TranscribedSegment[] = [];
+    let offsetSeconds = 0;
+    let language = input.language;
+
+    for (const [fileIndex, file] of input.audioFiles.entries()) {
+      if (file.bytes > MAX_FILE_SIZE_BYTES) {
+        throw new Error(
+          `Recording segment ${path.basename(file.path)} is ${file.bytes} bytes, above the ${MAX_FILE_SIZE_BYTES} byte transcription limit`
+        );
+      }
+
+      const response = await this.openai.audio.transcriptions.create({
+        file: await toFile(createReadStream(file.path), path.basename(file.path), { type: file.mimeType }),
+        model: TRANSCRIPTION_MODEL,
+        response_format: "verbose_json",
+        timestamp_granularities: ["segment"],
+        ...(input.language && { language: input.language }),
+      });
+
+      for (const segment of response.segments ?? []) {
+        segments.push({
+          startSeconds: offsetSeconds + segment.start,
+          endSeconds: offsetSeconds + segment.end,
+          text: segment.text.trim(),
+          // avg_logprob is a log probability; exp() maps it back onto 0-1
+          confidence: Math.min(1, Math.max(0, Math.exp(segment.avg_logprob))),
+          audioSegment: file.index,
+          audioOffsetSeconds: offsetSeconds,
+        });
+      }
+
+      offsetSeconds += response.duration;
+      language ??= response.language;
+      await onProgress?.(Math.round(((fileIndex + 1) / input.audioFiles.length) * 100));
+    }
+
+    return {
+      text: segments.map((segment) => segment.text).join(" "),
+      segments,
+      durationSeconds: offsetSeconds,
+      language,
+      model: TRANSCRIPTION_MODEL,
+    };
+  }
+}
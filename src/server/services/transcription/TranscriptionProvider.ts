@@ -0,0 +1,47 @@
+/**
+ * Speech-to-text provider abstraction
+ *
+ * The worker depends only on this interface, so the engine can be swapped
+ * (hosted API, on-prem model, or the deterministic fake) via configuration.
+ */
+
+export interface TranscriptionAudioFile {
+  index: number;
+  path: string;
+  mimeType: string;
+  bytes: number;
+}
+
+export interface TranscriptionInput {
+  // Recording segments in playback order; timestamps run continuously across them
+  audioFiles: TranscriptionAudioFile[];
+  language?: string;
+}
+
+export interface TranscribedSegment {
+  speaker?: string; // Omitted by providers that can't tell speakers apart
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+  confidence?: number; // 0-1
+  audioSegment: number; // Index of the recording file this came from
+  audioOffsetSeconds: number; // Where that recording file starts on the timeline
+}
+
+export interface TranscriptionOutput {
+  text: string;
+  segments: TranscribedSegment[];
+  durationSeconds: number;
+  language?: string;
+  model: string;
+}
+
+/**
+ * Called with overall progress (0-100) as the provider works through the audio
+ */
+export type TranscriptionProgressCallback = (progress: number) => void | Promise<void>;
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(input: TranscriptionInput, onProgress?: TranscriptionProgressCallback): Promise<TranscriptionOutput>;
+}
@@ -0,0 +1,37 @@
+import { Queue } from "bullmq";
+import { bullConnection } from "@/server/instrumentation/bull/connection";
+import { QUEUE_TYPES, type ConsultationTranscribeJobData } from "@/server/instrumentation/bull/types";
+import { serverEnv } from "@/env";
+
+export class TranscriptionQueueService {
+  private queue: Queue;
+
+  constructor() {
+    this.queue = new Queue(serverEnv.MBS_QUEUE_NAME, {
+      connection: bullConnection,
+    });
+  }
+
+  /**
+   * Queue transcription of a finalized consultation recording
+   */
+  async queueTranscription(data: ConsultationTranscribeJobData, priority = 0): Promise<string> {
+    const job = await this.queue.add(
+      QUEUE_TYPES.CONSULTATION_TRANSCRIBE,
+      data,
+      {
+        priority,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        removeOnComplete: 50,
+        removeOnFail: 100,
+      }
+    );
+
+    console.log(`🎙️ Queued transcription job: ${job.id} for consultation ${data.consultationId}`);
+    return job.id!;
+  }
+}
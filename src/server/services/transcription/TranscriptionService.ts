@@ -0,0 +1,126 @@
+import type { DataStore } from "@/server/datastore";
+import type { RecordingStorageService } from "@/server/services/recording";
+import type { TranscriptionOutput, TranscriptionProvider } from "./TranscriptionProvider";
+
+// Only persist progress in steps so a long recording doesn't hammer the database
+const PROGRESS_WRITE_STEP = 10;
+const UNKNOWN_SPEAKER_LABEL = "Speaker";
+
+export interface TranscriptionResult {
+  success: boolean;
+  consultationId: string;
+  skipped?: boolean;
+  provider: string;
+  segmentCount: number;
+  durationSeconds: number;
+  processingTimeMs: number;
+  output?: TranscriptionOutput;
+  errorMessage?: string;
+}
+
+export interface TranscribeConsultationOptions {
+  onProgress?: (progress: number) => void | Promise<void>;
+  // Move the consultation to ERROR on failure; false while BullMQ still has retries left
+  markFailed?: boolean;
+}
+
+export class TranscriptionService {
+  private dataStore: DataStore;
+  private storage: RecordingStorageService;
+  private provider: TranscriptionProvider;
+
+  constructor(dataStore: DataStore, storage: RecordingStorageService, provider: TranscriptionProvider) {
+    this.dataStore = dataStore;
+    this.storage = storage;
+    this.provider = provider;
+  }
+
+  /**
+   * Transcribe a consultation's finalized recording and move it to review
+   */
+  async transcribeConsultation(
+    tenantId: string,
+    consultationId: string,
+    options: TranscribeConsultationOptions = {},
+  ): Promise<TranscriptionResult> {
+    const startTime = Date.now();
+    const baseResult = { consultationId, provider: this.provider.name, segmentCount: 0, durationSeconds: 0 };
+
+    try {
+      const consultation = await this.dataStore.getConsultation(consultationId);
+
+      // A retried job may find the work already done - never overwrite a transcript under review
+      if (consultation.status !== "processing" && consultation.status !== "error") {
+        console.log(`🎙️ Consultation ${consultationId} is ${consultation.status}, skipping transcription`);
+        return { ...baseResult, success: true, skipped: true, processingTimeMs: Date.now() - startTime };
+      }
+
+      const audioFiles = await this.storage.getSegmentFiles(tenantId, consultationId);
+      if (audioFiles.length === 0) {
+        throw new Error("No finalized recording found for this consultation");
+      }
+
+      await this.dataStore.updateConsultation(consultationId, {
+        status: "processing",
+        transcriptionProgress: 0,
+        transcriptionError: null,
+      });
+
+      console.log(`🎙️ Transcribing consultation ${consultationId} (${audioFiles.length} segments) with ${this.provider.name}`);
+
+      let lastWrittenProgress = 0;
+      const output = await this.provider.transcribe({ audioFiles }, async (providerProgress) => {
+        // Hold back the last few percent until the transcript is saved
+        const progress = Math.min(95, Math.round(providerProgress * 0.95));
+        await options.onProgress?.(progress);
+
+        if (progress - lastWrittenProgress >= PROGRESS_WRITE_STEP) {
+          lastWrittenProgress = progress;
+          await this.dataStore.updateConsultation(consultationId, { transcriptionProgress: progress });
+        }
+      });
+
+      // Saving the segments also regenerates the consultation's transcriptionText
+      await this.dataStore.replaceTranscriptSegments(
+        consultationId,
+        output.segments.map((segment) => ({
+          speaker: segment.speaker ?? UNKNOWN_SPEAKER_LABEL,
+          startMs: segment.startSeconds * 1000,
+          endMs: segment.endSeconds * 1000,
+          text: segment.text,
+          confidence: segment.confidence,
+          audioSegment: segment.audioSegment,
+          audioOffsetMs: segment.audioOffsetSeconds * 1000,
+        })),
+      );
+      await this.dataStore.updateConsultation(consultationId, {
+        status: "review",
+        transcriptionProgress: 100,
+      });
+      await options.onProgress?.(100);
+
+      return {
+        ...baseResult,
+        success: true,
+        segmentCount: output.segments.length,
+        durationSeconds: output.durationSeconds,
+        processingTimeMs: Date.now() - startTime,
+        output,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown transcription error";
+      console.error(`❌ Transcription failed for consultation ${consultationId}:`, error);
+
+      try {
+        await this.dataStore.updateConsultation(consultationId, {
+          transcriptionError: errorMessage,
+          ...(options.markFailed && { status: "error" as const, transcriptionProgress: null }),
+        });
+      } catch (updateError) {
+        console.error(`❌ Failed to record transcription error for consultation ${consultationId}:`, updateError);
+      }
+
+      return { ...baseResult, success: false, processingTimeMs: Date.now() - startTime, errorMessage };
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type {
+  DataStore,
+  ConsultationRecord,
+  TranscriptSegmentInput,
+  UpdateConsultationInput,
+} from '@/server/datastore/types';
+import { formatTranscriptText } from '@/lib/transcript';
+import { RecordingStorageService } from '@/server/services/recording/RecordingStorageService';
+import { FakeTranscriptionProvider } from '../FakeTranscriptionProvider';
+import { TranscriptionService } from '../TranscriptionService';
+import type { TranscriptionProvider } from '../TranscriptionProvider';
+
+const TENANT_ID = 'tenant-001';
+const CONSULTATION_ID = 'consultation-001';
+
+function createConsultation(overrides: Partial<ConsultationRecord> = {}): ConsultationRecord {
+  return {
+    id: CONSULTATION_ID,
+    tenantId: TENANT_ID,
+    patientId: 'patient-001',
+    mode: 'standalone',
+    status: 'processing',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// In-memory DataStore covering only the consultation methods the service uses
+function createDataStore(initial: ConsultationRecord) {
+  let consultation = initial;
+  let segments: TranscriptSegmentInput[] = [];
+  const updates: UpdateConsultationInput[] = [];
+
+  const dataStore = {
+    getConsultation: vi.fn(async () => consultation),
+    updateConsultation: vi.fn(async (_id: string, update: UpdateConsultationInput) => {
+      updates.push(update);
+      consultation = {
+        ...consultation,
+        ...Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)),
+      };
+      return consultation;
+    }),
+    replaceTranscriptSegments: vi.fn(async (_id: string, input: TranscriptSegmentInput[]) => {
+      segments = input;
+      consultation = { ...consultation, transcriptionText: formatTranscriptText(input) };
+      return [];
+    }),
+  } as unknown as DataStore;
+
+  return { dataStore, updates, current: () => consultation, segments: () => segments };
+}
+
+describe('TranscriptionService', () => {
+  let rootDir: string;
+  let storage: RecordingStorageService;
+
+  const recordAudio = async (segments: string[]) => {
+    await storage.startSession(TENANT_ID, CONSULTATION_ID);
+    for (const [index, content] of segments.entries()) {
+      await storage.appendChunk(TENANT_ID, CONSULTATION_ID, {
+        segment: index,
+        sequence: 0,
+        mimeType: 'audio/webm',
+        data: Buffer.alloc(40000, content),
+      });
+    }
+    await storage.finalize(TENANT_ID, CONSULTATION_ID);
+  };
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(os.tmpdir(), 'transcription-test-'));
+    storage = new RecordingStorageService(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should write the transcript and move the consultation to review', async () => {
+    await recordAudio(['a', 'b']);
+    const { dataStore, current, segments } = createDataStore(createConsultation());
+    const progress: number[] = [];
+
+    const service = new TranscriptionService(dataStore, storage, new FakeTranscriptionProvider());
+    const result = await service.transcribeConsultation(TENANT_ID, CONSULTATION_ID, {
+      onProgress: value => {
+        progress.push(value);
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.segmentCount).toBeGreaterThan(0);
+    expect(current().status).toBe('review');
+    expect(segments()).toHaveLength(result.segmentCount);
+    expect(segments()[0]).toMatchObject({ startMs: 0, audioSegment: 0, audioOffsetMs: 0 });
+    expect(segments().at(-1)).toMatchObject({ audioSegment: 1, audioOffsetMs: 10000 });
+    expect(current().transcriptionText).toBe(formatTranscriptText(segments()));
+    expect(current().transcriptionProgress).toBe(100);
+    expect(progress.at(-1)).toBe(100);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+  });
+
+  it('should produce the same transcript for the same audio', async () => {
+    await recordAudio(['x']);
+    const provider = new FakeTranscriptionProvider();
+    const audioFiles = await storage.getSegmentFiles(TENANT_ID, CONSULTATION_ID);
+
+    const first = await provider.transcribe({ audioFiles });
+    const second = await provider.transcribe({ audioFiles });
+
+    expect(second).toEqual(first);
+    expect(first.durationSeconds).toBe(10);
+    expect(first.segments.at(-1)?.endSeconds).toBe(10);
+  });
+
+  it('should skip consultations that already have a transcript under review', async () => {
+    await recordAudio(['a']);
+    const { dataStore, updates } = createDataStore(createConsultation({ status: 'review', transcriptionText: 'kept' }));
+
+    const service = new TranscriptionService(dataStore, storage, new FakeTranscriptionProvider());
+    const result = await service.transcribeConsultation(TENANT_ID, CONSULTATION_ID);
+
+    expect(result).toMatchObject({ success: true, skipped: true });
+    expect(updates).toEqual([]);
+  });
+
+  it('should record the error without failing the consultation while retries remain', async () => {
+    await recordAudio(['a']);
+    const { dataStore, current } = createDataStore(createConsultation());
+    const failingProvider: TranscriptionProvider = {
+      name: 'failing',
+      transcribe: vi.fn().mockRejectedValue(new Error('Engine unavailable')),
+    };
+
+    const service = new TranscriptionService(dataStore, storage, failingProvider);
+    const result = await service.transcribeConsultation(TENANT_ID, CONSULTATION_ID, { markFailed: false });
+
+    expect(result).toMatchObject({ success: false, errorMessage: 'Engine unavailable' });
+    expect(current().status).toBe('processing');
+    expect(current().transcriptionError).toBe('Engine unavailable');
+  });
+
+  it('should move the consultation to error on the final attempt', async () => {
+    const { dataStore, current } = createDataStore(createConsultation());
+
+    // No recording was ever finalized
+    const service = new TranscriptionService(dataStore, storage, new FakeTranscriptionProvider());
+    const result = await service.transcribeConsultation(TENANT_ID, CONSULTATION_ID, { markFailed: true });
+
+    expect(result.success).toBe(false);
+    expect(current().status).toBe('error');
+  });
+});
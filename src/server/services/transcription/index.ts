@@ -0,0 +1,25 @@
+import { serverEnv } from "@/env";
+import { FakeTranscriptionProvider } from "./FakeTranscriptionProvider";
+import { OpenAITranscriptionProvider } from "./OpenAITranscriptionProvider";
+import type { TranscriptionProvider } from "./TranscriptionProvider";
+
+/**
+ * Create the transcription provider selected by TRANSCRIPTION_PROVIDER
+ */
+export const createTranscriptionProvider = (): TranscriptionProvider => {
+  if (serverEnv.TRANSCRIPTION_PROVIDER === "openai") {
+    const openaiApiKey = process.env.OPENAI_API_KEY;
+    if (!openaiApiKey) {
+      throw new Error("OPENAI_API_KEY environment variable is required for OpenAI transcription");
+    }
+    return new OpenAITranscriptionProvider(openaiApiKey);
+  }
+
+  return new FakeTranscriptionProvider();
+};
+
+export * from "./TranscriptionProvider";
+export * from "./FakeTranscriptionProvider";
+export * from "./OpenAITranscriptionProvider";
+export * from "./TranscriptionService";
+export * from "./TranscriptionQueueService";
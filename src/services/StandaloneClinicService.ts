@@ -301,7 +301,6 @@ export class StandaloneClinicService implements EHRProvider {
     recordingStartTime?: Date;
     recordingEndTime?: Date;
     audioFileUrl?: string;
-    transcriptionText?: string;
     selectedTemplate?: string;
   }): Promise<{
     id: string;
@@ -0,0 +1,100 @@
+/**
+ * Bridge Client
+ *
+ * Sends bridge protocol messages to a clinic's on-premises bridge agent and
+ * hands back their results. Errors the agent reports, and failures to reach
+ * it, become BridgeRequestErrors.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  BridgeErrorCode,
+  BridgeMethod,
+  BridgeMethods,
+  BridgeRecordTypes,
+  BridgeRequest,
+  BridgeResponse,
+} from './protocol';
+
+export interface BridgeClientConfig {
+  url: string; // e.g. https://bridge.clinic.example:8443
+  token: string; // Shared with the agent when the clinic set it up
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+/**
+ * Carries messages to the agent and its responses back
+ */
+export interface BridgeTransport {
+  send(request: BridgeRequest): Promise<BridgeResponse>;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+/**
+ * A request the bridge agent refused, or that couldn't be delivered. Code is
+ * unset when no response came back.
+ */
+export class BridgeRequestError extends Error {
+  constructor(
+    message: string,
+    public code?: BridgeErrorCode
+  ) {
+    super(message);
+    this.name = 'BridgeRequestError';
+  }
+}
+
+/**
+ * Messages over HTTP, one POST to /v1/messages each
+ */
+export class HttpBridgeTransport implements BridgeTransport {
+  private url: string;
+  private fetchFn: typeof fetch;
+
+  constructor(private config: BridgeClientConfig) {
+    this.url = `${config.url.replace(/\/+$/, '')}/v1/messages`;
+    this.fetchFn = config.fetch ?? fetch;
+  }
+
+  async send(request: BridgeRequest): Promise<BridgeResponse> {
+    let response: Response;
+    try {
+      response = await this.fetchFn(this.url, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.config.token}`,
+        },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new BridgeRequestError(`Bridge agent could not be reached: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const payload = (await response.json().catch(() => undefined)) as BridgeResponse | undefined;
+    if (payload?.id === request.id) {
+      return payload;
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new BridgeRequestError('Bridge agent refused the token', 'unauthorized');
+    }
+    throw new BridgeRequestError(`Bridge agent answered ${request.method} with HTTP ${response.status} and no response message`);
+  }
+}
+
+export class BridgeClient<R extends BridgeRecordTypes = BridgeRecordTypes> {
+  constructor(private transport: BridgeTransport) {}
+
+  async call<M extends BridgeMethod>(method: M, params: BridgeMethods<R>[M]['params']): Promise<BridgeMethods<R>[M]['result']> {
+    const response = await this.transport.send({ id: randomUUID(), method, params });
+
+    if ('error' in response) {
+      throw new BridgeRequestError(`Bridge ${method} failed: ${response.error.message}`, response.error.code);
+    }
+    return response.result;
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * BridgeEHRProvider - Base EHR Provider for On-Premises Practice Software
+ *
+ * Implements the EHRProvider interface over a clinic's bridge agent (see
+ * protocol.ts). The agent does the talking to the practice software's
+ * database; this class does the protocol, and each vendor's connector maps
+ * that product's records to and from our clinical types.
+ *
+ * What the provider reports and calls follows the methods the agent says it
+ * answers in its hello, loaded when the provider connects and again on every
+ * connection test.
+ */
+
+import { format } from 'date-fns';
+import type {
+  EHRProvider,
+  EHRProviderInfo,
+  ConnectionStatus,
+  Appointment,
+  AppointmentStatus,
+  PatientSummary,
+  PatientContext,
+  ClinicalNote,
+  Medication,
+  Allergy,
+  ClinicalAlert,
+} from '@/types/clinical';
+
+import { BridgeClient, HttpBridgeTransport, type BridgeClientConfig, type BridgeTransport } from './BridgeClient';
+import { BRIDGE_PROTOCOL_VERSION, type BridgeHello, type BridgeMethod, type BridgeRecordTypes, type BridgeVendor } from './protocol';
+
+export interface BridgeEHRProviderConfig extends BridgeClientConfig {
+  // Aria Scribe user id to the product's practitioner id; users without one are assumed to share the id
+  practitionerIds?: Record<string, string>;
+  // Carries messages instead of HTTP to config.url, e.g. for agents that connect out to us
+  transport?: BridgeTransport;
+}
+
+/**
+ * A note as the connector writes it to the product
+ */
+export interface BridgeNoteContent {
+  title: string;
+  content: string;
+  noteType: ClinicalNote['noteType'];
+  status: ClinicalNote['status'];
+  date: Date;
+}
+
+// Earlier notes shown with the patient's context
+const RECENT_NOTE_COUNT = 5;
+
+const NO_METHODS: BridgeMethod[] = [];
+
+/**
+ * EHR provider for practice software reached through a bridge agent. Vendor
+ * connectors extend it with their product's record mappings.
+ */
+export abstract class BridgeEHRProvider<R extends BridgeRecordTypes> implements EHRProvider {
+  protected client: BridgeClient<R>;
+  private hello: BridgeHello | null = null;
+  private clinicianIds: Map<string, string>;
+
+  // The product this connector is for, checked against the agent's hello
+  protected abstract readonly vendor: BridgeVendor;
+  protected abstract readonly productName: string;
+
+  constructor(
+    protected config: BridgeEHRProviderConfig,
+    protected clinicianId?: string
+  ) {
+    this.client = new BridgeClient<R>(config.transport ?? new HttpBridgeTransport(config));
+    this.clinicianIds = new Map(
+      Object.entries(config.practitionerIds ?? {}).map(([clinicianId, practitionerId]) => [practitionerId, clinicianId])
+    );
+  }
+
+  // ============================================================================
+  // VENDOR MAPPINGS
+  // ============================================================================
+
+  protected abstract toPatientSummary(patient: R['patient']): PatientSummary;
+  protected abstract toAppointment(
+    appointment: R['appointment'],
+    related: { clinicianId: string; patient?: PatientSummary }
+  ): Appointment;
+  // Who an appointment is for and with, in the product's ids
+  protected abstract appointmentParticipants(appointment: R['appointment']): { patientId: string; practitionerId: string };
+  protected abstract toAppointmentStatusCode(status: AppointmentStatus): R['appointmentStatus'];
+  protected abstract toMedication(medication: R['medication']): Medication;
+  protected abstract toAllergy(allergy: R['allergy']): Allergy;
+  protected abstract toClinicalAlert(alert: R['alert']): ClinicalAlert;
+  protected abstract toClinicalNote(note: R['note'], toClinicianId: (practitionerId: string) => string): ClinicalNote;
+  protected abstract toNoteInput(note: BridgeNoteContent, existing?: R['note']): R['noteInput'];
+
+  // ============================================================================
+  // SYSTEM INFORMATION
+  // ============================================================================
+
+  /**
+   * Say hello to the agent and check it's attached to this connector's product
+   * @throws {Error} if the agent can't be reached, is attached to other software, or speaks another protocol version
+   */
+  async connect(): Promise<BridgeHello> {
+    const hello = await this.client.call('agent.hello', {});
+    if (hello.vendor !== this.vendor) {
+      throw new Error(`The bridge agent is attached to ${hello.product.name}, not ${this.productName}`);
+    }
+    if (hello.protocolVersion !== BRIDGE_PROTOCOL_VERSION) {
+      throw new Error(
+        `The bridge agent speaks protocol version ${hello.protocolVersion}; version ${BRIDGE_PROTOCOL_VERSION} is needed`
+      );
+    }
+
+    this.hello = hello;
+    return hello;
+  }
+
+  getProviderInfo(): EHRProviderInfo {
+    const methods = this.hello?.methods ?? NO_METHODS;
+    const answers = (...names: BridgeMethod[]) => names.every(name => methods.includes(name));
+
+    return {
+      name: this.hello?.product.name ?? this.productName,
+      version: this.hello?.product.version ?? 'unknown',
+      capabilities: methods.filter(method => method !== 'agent.hello'),
+      supportedFeatures: {
+        appointments: answers('appointments.list', 'appointments.get'),
+        patientData: answers('patients.get', 'patients.context'),
+        clinicalNotes: answers('notes.create'),
+        medications: answers('patients.context'),
+        allergies: answers('patients.context'),
+        billing: false,
+      },
+    };
+  }
+
+  async testConnection(): Promise<ConnectionStatus> {
+    const startedAt = Date.now();
+
+    try {
+      const { product, agent } = await this.connect();
+      return {
+        connected: true,
+        lastChecked: new Date(),
+        responseTime: Date.now() - startedAt,
+        version: `${product.name} ${product.version} (${agent.name} ${agent.version})`,
+      };
+    } catch (error) {
+      return {
+        connected: false,
+        lastChecked: new Date(),
+        error: `Connection failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  // ============================================================================
+  // APPOINTMENT MANAGEMENT
+  // ============================================================================
+
+  async getTodaysAppointments(clinicianId: string, date: Date = new Date()): Promise<Appointment[]> {
+    await this.requireMethod('appointments.list', 'appointments');
+    const { appointments, patients } = await this.client.call('appointments.list', {
+      practitionerId: this.practitionerId(clinicianId),
+      date: format(date, 'yyyy-MM-dd'),
+    });
+
+    const summaries = new Map(patients.map(patient => this.toPatientSummary(patient)).map(summary => [summary.ehrPatientId, summary]));
+    return appointments
+      .map(appointment => this.toAppointment(appointment, {
+        clinicianId,
+        patient: summaries.get(this.appointmentParticipants(appointment).patientId),
+      }))
+      .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+  }
+
+  async getAppointment(appointmentId: string): Promise<Appointment> {
+    await this.requireMethod('appointments.get', 'appointments');
+    const { appointment, patient } = await this.client.call('appointments.get', { appointmentId });
+
+    return this.toAppointment(appointment, {
+      clinicianId: this.toClinicianId(this.appointmentParticipants(appointment).practitionerId),
+      patient: patient ? this.toPatientSummary(patient) : undefined,
+    });
+  }
+
+  async updateAppointmentStatus(appointmentId: string, status: AppointmentStatus): Promise<void> {
+    await this.requireMethod('appointments.setStatus', 'updating appointments');
+    await this.client.call('appointments.setStatus', { appointmentId, status: this.toAppointmentStatusCode(status) });
+  }
+
+  // ============================================================================
+  // PATIENT DATA
+  // ============================================================================
+
+  async getPatientSummary(patientId: string): Promise<PatientSummary> {
+    await this.requireMethod('patients.get', 'patient records');
+    const { patient } = await this.client.call('patients.get', { patientId });
+    return this.toPatientSummary(patient);
+  }
+
+  /**
+   * The patient with whatever medications, allergies, alerts and notes the
+   * agent could read. Parts it left out are left out here too.
+   */
+  async getPatientContext(patientId: string): Promise<PatientContext> {
+    await this.requireMethod('patients.context', 'patient records');
+    const context = await this.client.call('patients.context', { patientId, noteLimit: RECENT_NOTE_COUNT });
+
+    return {
+      summary: this.toPatientSummary(context.patient),
+      medications: context.medications?.map(medication => this.toMedication(medication)),
+      allergies: context.allergies?.map(allergy => this.toAllergy(allergy)),
+      alerts: context.alerts?.map(alert => this.toClinicalAlert(alert)),
+      recentNotes: context.notes?.slice(0, RECENT_NOTE_COUNT).map(note => this.toClinicalNote(note, this.toClinicianId)),
+    };
+  }
+
+  async getRecentPatients(limit = 20): Promise<PatientSummary[]> {
+    await this.requireMethod('patients.recent', 'patient records');
+    const { patients } = await this.client.call('patients.recent', { limit });
+    return patients.slice(0, limit).map(patient => this.toPatientSummary(patient));
+  }
+
+  // ============================================================================
+  // CLINICAL NOTES
+  // ============================================================================
+
+  async createClinicalNote(patientId: string, note: Partial<ClinicalNote>): Promise<ClinicalNote> {
+    await this.requireMethod('notes.create', 'clinical notes');
+    const author = note.clinicianId ?? this.clinicianId;
+    if (!author) {
+      throw new Error(`A clinician is needed to author a clinical note in ${this.getProviderInfo().name}`);
+    }
+
+    const { note: created } = await this.client.call('notes.create', {
+      patientId,
+      practitionerId: this.practitionerId(author),
+      note: this.toNoteInput({
+        title: note.title ?? 'Clinical Note',
+        content: this.validateNoteContent(note.content),
+        noteType: note.noteType ?? 'progress',
+        status: note.status ?? 'final',
+        date: note.createdAt ?? new Date(),
+      }),
+    });
+
+    return this.withLocalNoteDetails(this.toClinicalNote(created, this.toClinicianId), note);
+  }
+
+  /**
+   * Update a note written by createClinicalNote. It's refused if the note has
+   * been changed in the practice software since updates.updatedAt, the version
+   * the caller last saw, when given.
+   */
+  async updateClinicalNote(noteId: string, updates: Partial<ClinicalNote>): Promise<ClinicalNote> {
+    await this.requireMethod('notes.update', 'updating clinical notes');
+    const { note: existing } = await this.client.call('notes.get', { noteId });
+    const current = this.toClinicalNote(existing, this.toClinicianId);
+
+    const { note: updated } = await this.client.call('notes.update', {
+      noteId,
+      unmodifiedSince: (updates.updatedAt ?? current.updatedAt).toISOString(),
+      note: this.toNoteInput(
+        {
+          title: updates.title ?? current.title,
+          content: updates.content !== undefined ? this.validateNoteContent(updates.content) : current.content,
+          noteType: updates.noteType ?? current.noteType,
+          status: updates.status ?? current.status,
+          date: current.createdAt,
+        },
+        existing
+      ),
+    });
+
+    return this.withLocalNoteDetails(this.toClinicalNote(updated, this.toClinicianId), updates);
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private async requireMethod(method: BridgeMethod, description: string): Promise<void> {
+    if (!this.hello) {
+      await this.connect();
+    }
+    if (!this.hello!.methods.includes(method)) {
+      throw new Error(`${this.getProviderInfo().name}'s bridge agent does not support ${description}`);
+    }
+  }
+
+  private practitionerId(clinicianId: string): string {
+    return this.config.practitionerIds?.[clinicianId] ?? clinicianId;
+  }
+
+  private toClinicianId = (practitionerId: string): string => this.clinicianIds.get(practitionerId) ?? practitionerId;
+
+  private validateNoteContent(content?: string): string {
+    if (!content || content.trim().length === 0) {
+      throw new Error('Clinical note content cannot be empty. Please provide meaningful note content.');
+    }
+    return content.trim();
+  }
+
+  /**
+   * Keep what we know about the note that the practice software has nowhere to hold
+   */
+  private withLocalNoteDetails(note: ClinicalNote, local: Partial<ClinicalNote>): ClinicalNote {
+    return {
+      ...note,
+      consultationId: local.consultationId,
+      template: local.template,
+      generatedFromAudio: local.generatedFromAudio,
+      transcriptionId: local.transcriptionId,
+      aiConfidence: local.aiConfidence,
+      signedAt: local.signedAt,
+    };
+  }
+}
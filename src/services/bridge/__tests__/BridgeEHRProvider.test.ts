@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BridgeRequestError } from '../BridgeClient';
+import { BestPracticeEHRProvider } from '../bestpractice/BestPracticeEHRProvider';
+import { MedicalDirectorEHRProvider } from '../medicaldirector/MedicalDirectorEHRProvider';
+import { createBridgeEHRProvider } from '../connectors';
+import { FIXTURE_DAY, FixtureBridgeAgent, type FixtureBridgeAgentOptions } from '../fixture/FixtureBridgeAgent';
+
+const TOKEN = 'agent-token';
+// Local noon, so the practice's day is the fixture day wherever the tests run
+const FIXTURE_DATE = new Date(`${FIXTURE_DAY}T12:00:00`);
+
+describe('Bridge EHR providers', () => {
+  let agent: FixtureBridgeAgent;
+  let url: string;
+
+  async function startAgent(options: FixtureBridgeAgentOptions) {
+    agent = new FixtureBridgeAgent({ token: TOKEN, ...options });
+    url = await agent.start();
+  }
+
+  afterEach(async () => {
+    await agent.stop();
+  });
+
+  describe('Best Practice', () => {
+    let provider: BestPracticeEHRProvider;
+
+    beforeEach(async () => {
+      await startAgent({ vendor: 'bestpractice' });
+      provider = new BestPracticeEHRProvider({ url, token: TOKEN, practitionerIds: { 'clinician-1': '3' } }, 'clinician-1');
+    });
+
+    it('reports the product and what its agent supports', async () => {
+      const status = await provider.testConnection();
+
+      expect(status).toMatchObject({ connected: true, version: 'Best Practice Premier Jade SP2 (Aria Bridge (fixtures) 0.0.0)' });
+      expect(provider.getProviderInfo()).toMatchObject({
+        name: 'Best Practice Premier',
+        supportedFeatures: { appointments: true, patientData: true, clinicalNotes: true, billing: false },
+      });
+    });
+
+    it("maps the clinician's appointment book for the day", async () => {
+      const appointments = await provider.getTodaysAppointments('clinician-1', FIXTURE_DATE);
+
+      expect(appointments.map(appointment => appointment.id)).toEqual(['58003', '58001', '58002']);
+      expect(appointments[1]).toMatchObject({
+        patientId: '1042',
+        clinicianId: 'clinician-1',
+        scheduledTime: new Date('2025-08-04T09:00:00+10:00'),
+        duration: 15,
+        status: 'waiting',
+        notes: 'Blood pressure review',
+        location: 'Consult 2',
+        patientName: 'Margaret Thompson',
+        patientGender: 'F',
+      });
+      expect(appointments[2]).toMatchObject({ duration: 30, status: 'scheduled', patientGender: 'M' });
+      expect(agent.requests.at(-1)?.params).toEqual({ practitionerId: '3', date: FIXTURE_DAY });
+    });
+
+    it("maps the patient's context", async () => {
+      const context = await provider.getPatientContext('1042');
+
+      expect(context.summary).toMatchObject({
+        ehrSystem: 'bestpractice',
+        dateOfBirth: new Date('1956-03-14T00:00:00'),
+        medicareNumber: '2953176841',
+        medicareIrn: 2,
+      });
+      expect(context.medications?.map(medication => [medication.name, medication.dosage, medication.active])).toEqual([
+        ['Noten', '50 mg, 1 tablet', true],
+        ['Lipitor', '20 mg, 1 tablet', true],
+        ['Amoxil', '500 mg, 1 capsule', false],
+      ]);
+      expect(context.allergies?.[0]).toMatchObject({ allergen: 'Penicillin', allergenType: 'drug', severity: 'moderate' });
+      expect(context.alerts?.[0]).toMatchObject({ type: 'chronic-condition', severity: 'warning', title: 'Type 2 diabetes' });
+      expect(context.recentNotes?.map(note => note.id)).toEqual(['66010', '65877']);
+      expect(context.recentNotes?.[0]).toMatchObject({ clinicianId: 'clinician-1', title: 'Repeat scripts', status: 'final' });
+    });
+
+    it('writes appointment statuses as Best Practice codes', async () => {
+      await provider.updateAppointmentStatus('58002', 'recording');
+
+      expect(agent.get('appointments', '58002')?.Status).toBe(3);
+      await expect(provider.getAppointment('58002')).resolves.toMatchObject({ status: 'in-progress', clinicianId: 'clinician-1' });
+    });
+
+    it('writes visit notes and refuses updates to notes changed in Best Practice since', async () => {
+      const note = await provider.createClinicalNote('1187', {
+        title: 'Lower back pain',
+        content: '  Mechanical back pain. Advised to stay active.  ',
+        noteType: 'soap',
+        status: 'draft',
+        consultationId: 'consultation-1',
+      });
+
+      expect(note).toMatchObject({ patientId: '1187', clinicianId: 'clinician-1', status: 'draft', consultationId: 'consultation-1' });
+      expect(agent.get('notes', note.id)).toMatchObject({
+        UserID: '3',
+        VisitType: 'Surgery',
+        Reason: 'Lower back pain',
+        Notes: 'Mechanical back pain. Advised to stay active.',
+        Status: 'Draft',
+      });
+
+      const signed = await provider.updateClinicalNote(note.id, { status: 'final' });
+      expect(signed).toMatchObject({ status: 'final', content: 'Mechanical back pain. Advised to stay active.' });
+
+      agent.update('notes', note.id, { Notes: 'Edited at the front desk', Updated: new Date(Date.now() + 60000).toISOString() });
+      await expect(provider.updateClinicalNote(note.id, { content: 'Ours', updatedAt: signed.updatedAt })).rejects.toMatchObject({
+        code: 'conflict',
+      });
+    });
+  });
+
+  describe('MedicalDirector', () => {
+    it('maps appointments, patients and their context', async () => {
+      await startAgent({ vendor: 'medicaldirector' });
+      const provider = new MedicalDirectorEHRProvider({ url, token: TOKEN });
+
+      const appointments = await provider.getTodaysAppointments('DR07', FIXTURE_DATE);
+      expect(appointments.map(appointment => [appointment.id, appointment.status, appointment.duration])).toEqual([
+        ['A-20250804-0001', 'waiting', 20],
+        ['A-20250804-0002', 'scheduled', 10],
+        ['A-20250804-0003', 'cancelled', 15],
+      ]);
+      expect(appointments[0]?.patientName).toBe("Robert James O'Connor");
+
+      const context = await provider.getPatientContext('P000311');
+      expect(context.summary).toMatchObject({ ehrSystem: 'medicaldirector', medicareNumber: '2176904831', medicareIrn: 3 });
+      expect(context.medications?.map(medication => medication.active)).toEqual([true, false]);
+      expect(context.allergies?.[0]).toMatchObject({ allergen: 'Perindopril', severity: 'mild' });
+      expect(context.alerts?.[0]).toMatchObject({ type: 'safety', severity: 'warning' });
+      expect(context.recentNotes?.[0]).toMatchObject({ noteType: 'progress', title: 'Diabetes review' });
+
+      await expect(provider.getPatientSummary('P000519')).resolves.toMatchObject({ gender: 'Other', medicareNumber: undefined });
+
+      await provider.updateAppointmentStatus('A-20250804-0002', 'completed');
+      expect(agent.get('appointments', 'A-20250804-0002')?.STATUS).toBe('F');
+    });
+  });
+
+  describe('connecting', () => {
+    it("picks the connector for the agent's product", async () => {
+      await startAgent({ vendor: 'medicaldirector' });
+
+      const provider = await createBridgeEHRProvider({ url, token: TOKEN });
+
+      expect(provider).toBeInstanceOf(MedicalDirectorEHRProvider);
+      await expect(new BestPracticeEHRProvider({ url, token: TOKEN }).connect()).rejects.toThrow(
+        'The bridge agent is attached to MedicalDirector Clinical, not Best Practice'
+      );
+    });
+
+    it('reports a refused token as a failed connection', async () => {
+      await startAgent({ vendor: 'bestpractice' });
+
+      const status = await new BestPracticeEHRProvider({ url, token: 'wrong' }).testConnection();
+
+      expect(status.connected).toBe(false);
+      expect(status.error).toBe('Connection failed: Bridge agent.hello failed: Missing or invalid agent token');
+    });
+
+    it('only calls what the agent supports, and passes on its errors', async () => {
+      await startAgent({
+        vendor: 'bestpractice',
+        methods: ['agent.hello', 'appointments.list', 'appointments.get', 'patients.get', 'patients.context', 'notes.create'],
+      });
+      const provider = new BestPracticeEHRProvider({ url, token: TOKEN });
+
+      await expect(provider.updateAppointmentStatus('58001', 'waiting')).rejects.toThrow(
+        "Best Practice Premier's bridge agent does not support updating appointments"
+      );
+      await expect(provider.getPatientSummary('9999')).rejects.toMatchObject({ code: 'not-found' });
+      expect(agent.requests.map(request => request.method)).not.toContain('appointments.setStatus');
+
+      await agent.stop();
+      await startAgent({ vendor: 'bestpractice', unavailable: true });
+      const error: unknown = await new BestPracticeEHRProvider({ url, token: TOKEN }).getRecentPatients().catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(BridgeRequestError);
+      expect(error).toMatchObject({ code: 'unavailable' });
+    });
+  });
+});
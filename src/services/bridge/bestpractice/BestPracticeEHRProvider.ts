@@ -0,0 +1,97 @@
+/**
+ * BestPracticeEHRProvider - EHR Provider Implementation for Best Practice
+ *
+ * Connects clinics running Best Practice Premier through the bridge agent on
+ * their practice server. Appointments come from the appointment book, patient
+ * context from the clinical record, and notes are written as visit notes.
+ */
+
+import type {
+  Allergy,
+  Appointment,
+  AppointmentStatus,
+  ClinicalAlert,
+  ClinicalNote,
+  Medication,
+  PatientSummary,
+} from '@/types/clinical';
+
+import { BridgeEHRProvider, type BridgeEHRProviderConfig, type BridgeNoteContent } from '../BridgeEHRProvider';
+import {
+  toAllergy,
+  toAppointment,
+  toBpAppointmentStatus,
+  toClinicalAlert,
+  toClinicalNote,
+  toMedication,
+  toPatientSummary,
+  toVisitNoteInput,
+} from './mappers';
+import type {
+  BestPracticeRecords,
+  BpAlert,
+  BpAllergy,
+  BpAppointment,
+  BpMedication,
+  BpPatient,
+  BpVisitNote,
+  BpVisitNoteInput,
+} from './types';
+
+export class BestPracticeEHRProvider extends BridgeEHRProvider<BestPracticeRecords> {
+  protected readonly vendor = 'bestpractice';
+  protected readonly productName = 'Best Practice';
+
+  protected toPatientSummary(patient: BpPatient): PatientSummary {
+    return toPatientSummary(patient);
+  }
+
+  protected toAppointment(appointment: BpAppointment, related: { clinicianId: string; patient?: PatientSummary }): Appointment {
+    return toAppointment(appointment, related);
+  }
+
+  protected appointmentParticipants(appointment: BpAppointment) {
+    return { patientId: appointment.InternalID, practitionerId: appointment.UserID };
+  }
+
+  protected toAppointmentStatusCode(status: AppointmentStatus) {
+    return toBpAppointmentStatus(status);
+  }
+
+  protected toMedication(medication: BpMedication): Medication {
+    return toMedication(medication);
+  }
+
+  protected toAllergy(allergy: BpAllergy): Allergy {
+    return toAllergy(allergy);
+  }
+
+  protected toClinicalAlert(alert: BpAlert): ClinicalAlert {
+    return toClinicalAlert(alert);
+  }
+
+  protected toClinicalNote(note: BpVisitNote, toClinicianId: (practitionerId: string) => string): ClinicalNote {
+    return toClinicalNote(note, toClinicianId);
+  }
+
+  protected toNoteInput(note: BridgeNoteContent, existing?: BpVisitNote): BpVisitNoteInput {
+    return toVisitNoteInput(note, existing);
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/**
+ * Create a BestPracticeEHRProvider connected to the clinic's bridge agent
+ * @throws {Error} if the agent can't be reached or isn't attached to Best Practice
+ */
+export async function createBestPracticeEHRProvider(
+  config: BridgeEHRProviderConfig,
+  clinicianId?: string
+): Promise<BestPracticeEHRProvider> {
+  const provider = new BestPracticeEHRProvider(config, clinicianId);
+  await provider.connect();
+  return provider;
+}
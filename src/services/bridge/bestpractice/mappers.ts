@@ -0,0 +1,217 @@
+/**
+ * Best Practice Mappers
+ *
+ * Converts between Best Practice records and Aria Scribe's clinical types.
+ * Best Practice ids are used as our ids, so anything read can be written back
+ * to the same record.
+ */
+
+import { formatISO } from 'date-fns';
+import type {
+  Allergy,
+  Appointment,
+  AppointmentStatus,
+  ClinicalAlert,
+  ClinicalNote,
+  Medication,
+  PatientSummary,
+} from '@/types/clinical';
+import type { BridgeNoteContent } from '../BridgeEHRProvider';
+import { ageFrom, firstLine, toBirthDate, toDate } from '../mappers';
+import type {
+  BpAlert,
+  BpAllergy,
+  BpAppointment,
+  BpAppointmentStatus,
+  BpMedication,
+  BpPatient,
+  BpVisitNote,
+  BpVisitNoteInput,
+} from './types';
+
+// ============================================================================
+// PATIENTS
+// ============================================================================
+
+const GENDERS: Record<BpPatient['Sex'], PatientSummary['gender']> = {
+  Male: 'M',
+  Female: 'F',
+  Other: 'Other',
+  'Not stated': 'Unknown',
+};
+
+export function toPatientSummary(patient: BpPatient): PatientSummary {
+  const dateOfBirth = toBirthDate(patient.DOB);
+
+  return {
+    id: patient.InternalID,
+    ehrPatientId: patient.InternalID,
+    ehrSystem: 'bestpractice',
+    firstName: patient.FirstName,
+    lastName: patient.Surname,
+    dateOfBirth,
+    age: ageFrom(dateOfBirth),
+    gender: GENDERS[patient.Sex] ?? 'Unknown',
+    phone: patient.MobilePhone ?? patient.HomePhone,
+    email: patient.Email,
+    medicareNumber: patient.MedicareNo?.replace(/\s/g, ''),
+    medicareIrn: patient.MedicareLineNo,
+    lastVisit: toDate(patient.LastVisit),
+    totalVisits: patient.TotalVisits,
+    lastSyncedAt: new Date(),
+  };
+}
+
+// ============================================================================
+// APPOINTMENTS
+// ============================================================================
+
+const APPOINTMENT_STATUSES: Record<BpAppointmentStatus, AppointmentStatus> = {
+  1: 'scheduled',
+  2: 'waiting',
+  3: 'in-progress',
+  4: 'completed', // The consultation is over; the patient is at the front desk
+  5: 'completed',
+  6: 'no-show',
+  7: 'cancelled',
+};
+
+// Best Practice has no status for recording or processing; the patient is still with the doctor
+const BP_APPOINTMENT_STATUSES: Record<AppointmentStatus, BpAppointmentStatus> = {
+  scheduled: 1,
+  waiting: 2,
+  'in-progress': 3,
+  recording: 3,
+  processing: 3,
+  completed: 5,
+  cancelled: 7,
+  'no-show': 6,
+};
+
+export const toBpAppointmentStatus = (status: AppointmentStatus) => BP_APPOINTMENT_STATUSES[status];
+
+export function toAppointment(
+  appointment: BpAppointment,
+  related: { clinicianId: string; patient?: PatientSummary }
+): Appointment {
+  const { patient } = related;
+
+  return {
+    id: appointment.RecordID,
+    ehrAppointmentId: appointment.RecordID,
+    patientId: appointment.InternalID,
+    clinicianId: related.clinicianId,
+    scheduledTime: new Date(appointment.AppointmentDate),
+    duration: Math.round(appointment.AppointmentLength / 60),
+    appointmentType: appointment.AppointmentType,
+    status: APPOINTMENT_STATUSES[appointment.Status] ?? 'scheduled',
+    notes: appointment.Reason,
+    location: appointment.Room,
+    patientName: patient ? `${patient.firstName} ${patient.lastName}`.trim() : 'Unknown patient',
+    patientAge: patient?.age ?? 0,
+    patientGender: patient?.gender ?? 'Unknown',
+    patientEmail: patient?.email ?? '',
+    createdAt: new Date(appointment.Created),
+    updatedAt: new Date(appointment.Updated),
+  };
+}
+
+// ============================================================================
+// PATIENT CONTEXT
+// ============================================================================
+
+export function toMedication(medication: BpMedication): Medication {
+  return {
+    id: medication.RecordID,
+    name: medication.DrugName,
+    genericName: medication.GenericName,
+    dosage: [medication.Strength, medication.Dose].filter(Boolean).join(', '),
+    frequency: medication.Frequency ?? '',
+    route: medication.Route ?? '',
+    startDate: toDate(medication.StartDate) ?? new Date(0),
+    endDate: toDate(medication.StopDate),
+    prescribedBy: medication.PrescribedBy ?? '',
+    active: medication.Active,
+    notes: medication.Comment,
+  };
+}
+
+const ALLERGEN_TYPES: Record<BpAllergy['Category'], Allergy['allergenType']> = {
+  Drug: 'drug',
+  Food: 'food',
+  Environmental: 'environmental',
+  Other: 'other',
+};
+
+const ALLERGY_SEVERITIES: Record<BpAllergy['Severity'], Allergy['severity']> = {
+  Mild: 'mild',
+  Moderate: 'moderate',
+  Severe: 'severe',
+  Anaphylaxis: 'life-threatening',
+};
+
+export function toAllergy(allergy: BpAllergy): Allergy {
+  return {
+    id: allergy.RecordID,
+    allergen: allergy.ItemName,
+    allergenType: ALLERGEN_TYPES[allergy.Category] ?? 'other',
+    reaction: allergy.Reaction ?? '',
+    severity: ALLERGY_SEVERITIES[allergy.Severity] ?? 'moderate',
+    onsetDate: toDate(allergy.OnsetDate),
+    verifiedDate: new Date(allergy.Recorded),
+    notes: allergy.Comment,
+  };
+}
+
+const ALERT_TYPES: Record<BpAlert['Category'], ClinicalAlert['type']> = {
+  Clinical: 'chronic-condition',
+  Safety: 'safety',
+  Administrative: 'other',
+};
+
+const ALERT_SEVERITIES: Record<BpAlert['Priority'], ClinicalAlert['severity']> = {
+  High: 'critical',
+  Normal: 'warning',
+  Low: 'info',
+};
+
+export function toClinicalAlert(alert: BpAlert): ClinicalAlert {
+  return {
+    id: alert.RecordID,
+    type: ALERT_TYPES[alert.Category] ?? 'other',
+    severity: ALERT_SEVERITIES[alert.Priority] ?? 'warning',
+    title: firstLine(alert.AlertText),
+    description: alert.AlertText,
+    dismissible: false,
+  };
+}
+
+// ============================================================================
+// CLINICAL NOTES
+// ============================================================================
+
+// Best Practice types visit notes by how the patient was seen, so only referrals keep their note type
+export function toClinicalNote(note: BpVisitNote, toClinicianId: (practitionerId: string) => string): ClinicalNote {
+  return {
+    id: note.RecordID,
+    ehrNoteId: note.RecordID,
+    patientId: note.InternalID,
+    clinicianId: toClinicianId(note.UserID),
+    title: note.Reason ?? `${note.VisitType} visit`,
+    content: note.Notes,
+    noteType: note.VisitType === 'Referral' ? 'referral' : 'progress',
+    status: note.Status === 'Draft' ? 'draft' : 'final',
+    createdAt: new Date(note.Created),
+    updatedAt: new Date(note.Updated),
+  };
+}
+
+export function toVisitNoteInput(note: BridgeNoteContent, existing?: BpVisitNote): BpVisitNoteInput {
+  return {
+    VisitDate: existing?.VisitDate ?? formatISO(note.date),
+    VisitType: note.noteType === 'referral' ? 'Referral' : (existing?.VisitType ?? 'Surgery'),
+    Reason: note.title,
+    Notes: note.content,
+    Status: note.status === 'draft' || note.status === 'pending-review' ? 'Draft' : 'Final',
+  };
+}
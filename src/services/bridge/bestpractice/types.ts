@@ -0,0 +1,111 @@
+/**
+ * Best Practice Records
+ *
+ * Best Practice Premier records as its bridge agent returns them: the product's
+ * own field names and codes, dates rendered as ISO 8601. Ids are the product's
+ * numeric ids as strings.
+ */
+
+// Appointment status codes in Best Practice's appointment book
+export type BpAppointmentStatus =
+  | 1 // Booked
+  | 2 // Arrived, in the waiting room
+  | 3 // With doctor
+  | 4 // At billing
+  | 5 // Completed
+  | 6 // Did not arrive
+  | 7; // Cancelled
+
+export interface BpAppointment {
+  RecordID: string;
+  InternalID: string; // The patient
+  UserID: string; // The practitioner
+  AppointmentDate: string; // Date-time the appointment starts
+  AppointmentLength: number; // Seconds
+  AppointmentType: string;
+  Status: BpAppointmentStatus;
+  Reason?: string;
+  Room?: string;
+  Created: string;
+  Updated: string;
+}
+
+export interface BpPatient {
+  InternalID: string;
+  Title?: string;
+  FirstName: string;
+  PreferredName?: string;
+  Surname: string;
+  DOB?: string; // yyyy-MM-dd
+  Sex: 'Male' | 'Female' | 'Other' | 'Not stated';
+  MedicareNo?: string; // Ten digits
+  MedicareLineNo?: number; // The patient's reference number on the card
+  HomePhone?: string;
+  MobilePhone?: string;
+  Email?: string;
+  LastVisit?: string;
+  TotalVisits?: number;
+}
+
+export interface BpMedication {
+  RecordID: string;
+  InternalID: string;
+  DrugName: string;
+  GenericName?: string;
+  Strength?: string;
+  Dose?: string;
+  Frequency?: string;
+  Route?: string;
+  StartDate?: string;
+  StopDate?: string;
+  PrescribedBy?: string;
+  Active: boolean;
+  Comment?: string;
+}
+
+export interface BpAllergy {
+  RecordID: string;
+  InternalID: string;
+  ItemName: string;
+  Category: 'Drug' | 'Food' | 'Environmental' | 'Other';
+  Reaction?: string;
+  Severity: 'Mild' | 'Moderate' | 'Severe' | 'Anaphylaxis';
+  OnsetDate?: string;
+  Recorded: string;
+  Comment?: string;
+}
+
+export interface BpAlert {
+  RecordID: string;
+  InternalID: string;
+  AlertText: string;
+  Category: 'Clinical' | 'Safety' | 'Administrative';
+  Priority: 'Low' | 'Normal' | 'High';
+}
+
+// Best Practice notes are visit records, typed by the kind of visit
+export interface BpVisitNote {
+  RecordID: string;
+  InternalID: string;
+  UserID: string;
+  VisitDate: string;
+  VisitType: 'Surgery' | 'Telehealth' | 'Home visit' | 'Referral' | 'Other';
+  Reason?: string;
+  Notes: string;
+  Status: 'Draft' | 'Final';
+  Created: string;
+  Updated: string;
+}
+
+export type BpVisitNoteInput = Pick<BpVisitNote, 'VisitDate' | 'VisitType' | 'Reason' | 'Notes' | 'Status'>;
+
+export interface BestPracticeRecords {
+  appointment: BpAppointment;
+  appointmentStatus: BpAppointmentStatus;
+  patient: BpPatient;
+  medication: BpMedication;
+  allergy: BpAllergy;
+  alert: BpAlert;
+  note: BpVisitNote;
+  noteInput: BpVisitNoteInput;
+}
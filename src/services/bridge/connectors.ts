@@ -0,0 +1,41 @@
+/**
+ * Bridge Connectors
+ *
+ * The vendor connectors available for bridge agents, and a factory that picks
+ * the right one for whichever product the clinic's agent is attached to.
+ */
+
+import type { EHRProvider } from '@/types/clinical';
+import { BridgeClient, HttpBridgeTransport } from './BridgeClient';
+import type { BridgeEHRProviderConfig } from './BridgeEHRProvider';
+import { BestPracticeEHRProvider } from './bestpractice/BestPracticeEHRProvider';
+import { MedicalDirectorEHRProvider } from './medicaldirector/MedicalDirectorEHRProvider';
+import type { BridgeVendor } from './protocol';
+
+export const BRIDGE_CONNECTORS: Record<BridgeVendor, typeof BestPracticeEHRProvider | typeof MedicalDirectorEHRProvider> = {
+  bestpractice: BestPracticeEHRProvider,
+  medicaldirector: MedicalDirectorEHRProvider,
+};
+
+/**
+ * Create the provider for the product the clinic's bridge agent is attached to, connected
+ * @param config.vendor The product the clinic set its bridge up for; an agent attached to another is refused
+ * @throws {Error} if the agent can't be reached, or is attached to a product without a connector
+ */
+export async function createBridgeEHRProvider(
+  config: BridgeEHRProviderConfig & { vendor?: BridgeVendor },
+  clinicianId?: string
+): Promise<EHRProvider> {
+  const hello = await new BridgeClient(config.transport ?? new HttpBridgeTransport(config)).call('agent.hello', {});
+  const Connector = BRIDGE_CONNECTORS[hello.vendor] as (typeof BRIDGE_CONNECTORS)[BridgeVendor] | undefined;
+  if (!Connector) {
+    throw new Error(`There is no connector for ${hello.product.name}, which the bridge agent is attached to`);
+  }
+  if (config.vendor && config.vendor !== hello.vendor) {
+    throw new Error(`The bridge agent is attached to ${hello.product.name}, not the product this clinic's bridge is set up for`);
+  }
+
+  const provider = new Connector(config, clinicianId);
+  await provider.connect();
+  return provider;
+}
@@ -0,0 +1,332 @@
+/**
+ * Fixture Bridge Agent
+ *
+ * A stand-in for the bridge agent clinics run beside Best Practice or
+ * MedicalDirector, backed by the JSON fixtures beside it instead of the
+ * product's database. It speaks the bridge protocol over real HTTP, so vendor
+ * connectors can be built and tested without the products themselves; see
+ * serve.ts to run one locally.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  BRIDGE_PROTOCOL_VERSION,
+  type BridgeErrorCode,
+  type BridgeHello,
+  type BridgeMethod,
+  type BridgeMethods,
+  type BridgeRequest,
+  type BridgeVendor,
+} from '../protocol';
+import bestPracticeFixture from './bestpractice.json';
+import medicalDirectorFixture from './medicaldirector.json';
+
+type FixtureRecord = Record<string, unknown>;
+type FixtureTable = 'patients' | 'appointments' | 'medications' | 'allergies' | 'alerts' | 'notes';
+export type FixtureBridgeData = Record<FixtureTable, FixtureRecord[]>;
+
+export interface FixtureBridgeAgentOptions {
+  vendor: BridgeVendor;
+  data?: FixtureBridgeData; // Instead of the vendor's fixtures
+  token?: string; // Requests without this bearer token are refused
+  methods?: BridgeMethod[]; // Methods answered, for agents on older product versions; all by default
+  day?: string; // yyyy-MM-dd to move the fixture day's appointments to, e.g. today
+  unavailable?: boolean; // Answer hello, but fail everything else as if the product's database were down
+}
+
+// The day the fixtures' appointment book was written for
+export const FIXTURE_DAY = '2025-08-04';
+
+const ALL_METHODS: BridgeMethod[] = [
+  'agent.hello',
+  'appointments.list',
+  'appointments.get',
+  'appointments.setStatus',
+  'patients.get',
+  'patients.context',
+  'patients.recent',
+  'notes.create',
+  'notes.get',
+  'notes.update',
+];
+
+/**
+ * Where each product keeps what the agent needs to answer with, like the
+ * queries a real agent runs against the product's database
+ */
+interface FixtureSchema {
+  hello: Pick<BridgeHello, 'product'>;
+  data: FixtureBridgeData;
+  ids: Record<FixtureTable, string>;
+  patientField: string;
+  practitionerField: string;
+  appointmentStartField: string;
+  appointmentStatusField: string;
+  noteDateField: string;
+  createdField: string;
+  modifiedField: string;
+  lastVisitField: string;
+}
+
+const SCHEMAS: Record<BridgeVendor, FixtureSchema> = {
+  bestpractice: {
+    hello: { product: { name: 'Best Practice Premier', version: 'Jade SP2' } },
+    data: bestPracticeFixture satisfies FixtureBridgeData,
+    ids: {
+      patients: 'InternalID',
+      appointments: 'RecordID',
+      medications: 'RecordID',
+      allergies: 'RecordID',
+      alerts: 'RecordID',
+      notes: 'RecordID',
+    },
+    patientField: 'InternalID',
+    practitionerField: 'UserID',
+    appointmentStartField: 'AppointmentDate',
+    appointmentStatusField: 'Status',
+    noteDateField: 'VisitDate',
+    createdField: 'Created',
+    modifiedField: 'Updated',
+    lastVisitField: 'LastVisit',
+  },
+  medicaldirector: {
+    hello: { product: { name: 'MedicalDirector Clinical', version: '4.1.2' } },
+    data: medicalDirectorFixture satisfies FixtureBridgeData,
+    ids: {
+      patients: 'PATIENT_ID',
+      appointments: 'APPOINTMENT_ID',
+      medications: 'MEDICATION_ID',
+      allergies: 'ALLERGY_ID',
+      alerts: 'WARNING_ID',
+      notes: 'NOTE_ID',
+    },
+    patientField: 'PATIENT_ID',
+    practitionerField: 'DOCTOR_ID',
+    appointmentStartField: 'START_TIME',
+    appointmentStatusField: 'STATUS',
+    noteDateField: 'NOTE_DATE',
+    createdField: 'CREATED',
+    modifiedField: 'MODIFIED',
+    lastVisitField: 'LAST_SEEN',
+  },
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+class FixtureBridgeError extends Error {
+  constructor(
+    public code: BridgeErrorCode,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export class FixtureBridgeAgent {
+  readonly requests: BridgeRequest[] = [];
+  private schema: FixtureSchema;
+  private data: FixtureBridgeData;
+  private server: Server | null = null;
+  private nextId = 1;
+
+  constructor(private options: FixtureBridgeAgentOptions) {
+    this.schema = SCHEMAS[options.vendor];
+    this.data = clone(options.data ?? this.schema.data);
+
+    const { day } = options;
+    if (day) {
+      for (const appointment of this.data.appointments) {
+        const start = String(appointment[this.schema.appointmentStartField]);
+        if (start.startsWith(FIXTURE_DAY)) {
+          appointment[this.schema.appointmentStartField] = day + start.slice(FIXTURE_DAY.length);
+        }
+      }
+    }
+  }
+
+  /**
+   * Start listening on a local port, a free one by default, and return the agent's URL
+   */
+  async start(port = 0): Promise<string> {
+    this.server = createServer((request, response) => {
+      void this.handle(request, response);
+    });
+    await new Promise<void>(resolve => this.server!.listen(port, '127.0.0.1', resolve));
+
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) => this.server?.close(error => (error ? reject(error) : resolve())) ?? resolve());
+    this.server = null;
+  }
+
+  get(table: FixtureTable, id: string): FixtureRecord | undefined {
+    return this.data[table].find(record => record[this.schema.ids[table]] === id);
+  }
+
+  /**
+   * Change a record as if someone had edited it in the product, now unless
+   * the changes say when
+   */
+  update(table: FixtureTable, id: string, changes: FixtureRecord): void {
+    const record = this.get(table, id);
+    if (!record) {
+      throw new Error(`No ${table} record ${id} in the fixtures`);
+    }
+    Object.assign(record, { [this.schema.modifiedField]: new Date().toISOString() }, changes);
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    if (request.method !== 'POST' || request.url !== '/v1/messages') {
+      response.writeHead(404).end();
+      return;
+    }
+
+    let message: BridgeRequest;
+    try {
+      message = JSON.parse(await this.readBody(request)) as BridgeRequest;
+    } catch {
+      response.writeHead(400).end();
+      return;
+    }
+    this.requests.push(message);
+
+    if (this.options.token && request.headers.authorization !== `Bearer ${this.options.token}`) {
+      return this.send(response, 401, { id: message.id, error: { code: 'unauthorized', message: 'Missing or invalid agent token' } });
+    }
+
+    try {
+      const result = this.answer(message);
+      return this.send(response, 200, { id: message.id, result });
+    } catch (error) {
+      const { code, message: reason } = error instanceof FixtureBridgeError
+        ? error
+        : { code: 'invalid', message: error instanceof Error ? error.message : String(error) };
+      return this.send(response, 200, { id: message.id, error: { code, message: reason } });
+    }
+  }
+
+  private answer(message: BridgeRequest): unknown {
+    const methods = this.options.methods ?? ALL_METHODS;
+    if (!methods.includes(message.method)) {
+      throw new FixtureBridgeError('not-supported', `${message.method} is not supported by this version of ${this.schema.hello.product.name}`);
+    }
+    if (message.method === 'agent.hello') {
+      return this.hello(methods);
+    }
+    if (this.options.unavailable) {
+      throw new FixtureBridgeError('unavailable', `${this.schema.hello.product.name} database is not responding`);
+    }
+
+    const { patientField, practitionerField } = this.schema;
+    const { params } = message;
+
+    switch (message.method) {
+      case 'appointments.list': {
+        const { practitionerId, date } = params as BridgeMethods['appointments.list']['params'];
+        const appointments = this.data.appointments.filter(appointment =>
+          appointment[practitionerField] === practitionerId
+          && String(appointment[this.schema.appointmentStartField]).startsWith(date)
+        );
+        const patientIds = new Set(appointments.map(appointment => appointment[patientField]));
+        return { appointments, patients: this.data.patients.filter(patient => patientIds.has(patient[patientField])) };
+      }
+      case 'appointments.get': {
+        const appointment = this.require('appointments', (params as BridgeMethods['appointments.get']['params']).appointmentId);
+        return { appointment, patient: this.get('patients', String(appointment[patientField])) };
+      }
+      case 'appointments.setStatus': {
+        const { appointmentId, status } = params as BridgeMethods['appointments.setStatus']['params'];
+        this.require('appointments', appointmentId);
+        this.update('appointments', appointmentId, { [this.schema.appointmentStatusField]: status });
+        return { appointment: this.get('appointments', appointmentId) };
+      }
+      case 'patients.get':
+        return { patient: this.require('patients', (params as BridgeMethods['patients.get']['params']).patientId) };
+      case 'patients.context': {
+        const { patientId, noteLimit } = params as BridgeMethods['patients.context']['params'];
+        const patient = this.require('patients', patientId);
+        const forPatient = (table: FixtureTable) => this.data[table].filter(record => record[patientField] === patientId);
+        return {
+          patient,
+          medications: forPatient('medications'),
+          allergies: forPatient('allergies'),
+          alerts: forPatient('alerts'),
+          notes: this.newestFirst(forPatient('notes'), this.schema.noteDateField).slice(0, noteLimit),
+        };
+      }
+      case 'patients.recent': {
+        const { limit } = params as BridgeMethods['patients.recent']['params'];
+        return { patients: this.newestFirst(this.data.patients, this.schema.lastVisitField).slice(0, limit) };
+      }
+      case 'notes.create': {
+        const { patientId, practitionerId, note } = params as BridgeMethods['notes.create']['params'];
+        this.require('patients', patientId);
+        const now = new Date().toISOString();
+        const created: FixtureRecord = {
+          ...(note as FixtureRecord),
+          [this.schema.ids.notes]: `fixture-note-${this.nextId++}`,
+          [patientField]: patientId,
+          [practitionerField]: practitionerId,
+          [this.schema.createdField]: now,
+          [this.schema.modifiedField]: now,
+        };
+        this.data.notes.push(created);
+        return { note: created };
+      }
+      case 'notes.get':
+        return { note: this.require('notes', (params as BridgeMethods['notes.get']['params']).noteId) };
+      case 'notes.update': {
+        const { noteId, note, unmodifiedSince } = params as BridgeMethods['notes.update']['params'];
+        const existing = this.require('notes', noteId);
+        const modified = new Date(String(existing[this.schema.modifiedField]));
+        if (unmodifiedSince && modified.getTime() > new Date(unmodifiedSince).getTime()) {
+          throw new FixtureBridgeError('conflict', `Note ${noteId} was changed at ${modified.toISOString()}`);
+        }
+        this.update('notes', noteId, note as FixtureRecord);
+        return { note: this.get('notes', noteId) };
+      }
+      default:
+        throw new FixtureBridgeError('not-supported', 'Not a bridge method');
+    }
+  }
+
+  private hello(methods: BridgeMethod[]): BridgeHello {
+    return {
+      protocolVersion: BRIDGE_PROTOCOL_VERSION,
+      agent: { name: 'Aria Bridge (fixtures)', version: '0.0.0' },
+      vendor: this.options.vendor,
+      product: this.schema.hello.product,
+      practiceName: 'Fixture Family Practice',
+      methods,
+    };
+  }
+
+  private require(table: FixtureTable, id: string): FixtureRecord {
+    const record = this.get(table, id);
+    if (!record) {
+      throw new FixtureBridgeError('not-found', `No ${table} record ${id}`);
+    }
+    return record;
+  }
+
+  private newestFirst(records: FixtureRecord[], field: string): FixtureRecord[] {
+    const time = (record: FixtureRecord) => (typeof record[field] === 'string' ? new Date(record[field]).getTime() : 0);
+    return [...records].sort((a, b) => time(b) - time(a));
+  }
+
+  private async readBody(request: IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private send(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+}
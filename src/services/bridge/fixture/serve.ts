@@ -0,0 +1,24 @@
+/**
+ * Runs a fixture bridge agent for local development, with today's appointment
+ * book. Set it up as a clinic's bridge agent in Settings, with the URL and
+ * token it prints.
+ *
+ *   bun run bridge:fixture [bestpractice|medicaldirector]
+ */
+
+import { format } from 'date-fns';
+import type { BridgeVendor } from '../protocol';
+import { FixtureBridgeAgent } from './FixtureBridgeAgent';
+
+const vendor = (process.argv[2] ?? 'bestpractice') as BridgeVendor;
+if (vendor !== 'bestpractice' && vendor !== 'medicaldirector') {
+  console.error(`Unknown vendor ${String(vendor)}; use bestpractice or medicaldirector`);
+  process.exit(1);
+}
+
+const token = process.env.BRIDGE_TOKEN ?? 'fixture-token';
+const agent = new FixtureBridgeAgent({ vendor, token, day: format(new Date(), 'yyyy-MM-dd') });
+const url = await agent.start(Number(process.env.PORT ?? 8765));
+
+console.log(`🔌 Fixture ${vendor} bridge agent listening at ${url}`);
+console.log(`   Bridge agent URL ${url}, token ${token}`);
@@ -0,0 +1,20 @@
+/**
+ * Bridge Mappers
+ *
+ * Conversions every vendor connector needs when mapping its product's records.
+ */
+
+import { differenceInYears } from 'date-fns';
+
+export const toDate = (value?: string) => (value ? new Date(value) : undefined);
+
+// Birth dates are calendar days, kept as local midnight like the rest of the app
+export const toBirthDate = (value?: string) =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : (toDate(value) ?? null);
+
+export const ageFrom = (dateOfBirth: Date | null) => (dateOfBirth ? differenceInYears(new Date(), dateOfBirth) : 0);
+
+/**
+ * The first line of a free-text entry, for use as its title
+ */
+export const firstLine = (text: string) => text.split(/\r?\n/)[0]!.trim();
@@ -0,0 +1,97 @@
+/**
+ * MedicalDirectorEHRProvider - EHR Provider Implementation for MedicalDirector
+ *
+ * Connects clinics running MedicalDirector Clinical through the bridge agent on
+ * their practice server. Appointments come from the appointment book, patient
+ * context from the clinical record, and notes are written as progress notes.
+ */
+
+import type {
+  Allergy,
+  Appointment,
+  AppointmentStatus,
+  ClinicalAlert,
+  ClinicalNote,
+  Medication,
+  PatientSummary,
+} from '@/types/clinical';
+
+import { BridgeEHRProvider, type BridgeEHRProviderConfig, type BridgeNoteContent } from '../BridgeEHRProvider';
+import {
+  toAllergy,
+  toAppointment,
+  toClinicalAlert,
+  toClinicalNote,
+  toMdAppointmentStatus,
+  toMedication,
+  toPatientSummary,
+  toProgressNoteInput,
+} from './mappers';
+import type {
+  MdAllergy,
+  MdAppointment,
+  MdMedication,
+  MdPatient,
+  MdProgressNote,
+  MdProgressNoteInput,
+  MdWarning,
+  MedicalDirectorRecords,
+} from './types';
+
+export class MedicalDirectorEHRProvider extends BridgeEHRProvider<MedicalDirectorRecords> {
+  protected readonly vendor = 'medicaldirector';
+  protected readonly productName = 'MedicalDirector';
+
+  protected toPatientSummary(patient: MdPatient): PatientSummary {
+    return toPatientSummary(patient);
+  }
+
+  protected toAppointment(appointment: MdAppointment, related: { clinicianId: string; patient?: PatientSummary }): Appointment {
+    return toAppointment(appointment, related);
+  }
+
+  protected appointmentParticipants(appointment: MdAppointment) {
+    return { patientId: appointment.PATIENT_ID, practitionerId: appointment.DOCTOR_ID };
+  }
+
+  protected toAppointmentStatusCode(status: AppointmentStatus) {
+    return toMdAppointmentStatus(status);
+  }
+
+  protected toMedication(medication: MdMedication): Medication {
+    return toMedication(medication);
+  }
+
+  protected toAllergy(allergy: MdAllergy): Allergy {
+    return toAllergy(allergy);
+  }
+
+  protected toClinicalAlert(warning: MdWarning): ClinicalAlert {
+    return toClinicalAlert(warning);
+  }
+
+  protected toClinicalNote(note: MdProgressNote, toClinicianId: (practitionerId: string) => string): ClinicalNote {
+    return toClinicalNote(note, toClinicianId);
+  }
+
+  protected toNoteInput(note: BridgeNoteContent, existing?: MdProgressNote): MdProgressNoteInput {
+    return toProgressNoteInput(note, existing);
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/**
+ * Create a MedicalDirectorEHRProvider connected to the clinic's bridge agent
+ * @throws {Error} if the agent can't be reached or isn't attached to MedicalDirector
+ */
+export async function createMedicalDirectorEHRProvider(
+  config: BridgeEHRProviderConfig,
+  clinicianId?: string
+): Promise<MedicalDirectorEHRProvider> {
+  const provider = new MedicalDirectorEHRProvider(config, clinicianId);
+  await provider.connect();
+  return provider;
+}
@@ -0,0 +1,229 @@
+/**
+ * MedicalDirector Mappers
+ *
+ * Converts between MedicalDirector records and Aria Scribe's clinical types.
+ * MedicalDirector ids are used as our ids, so anything read can be written
+ * back to the same record.
+ */
+
+import { formatISO, isFuture } from 'date-fns';
+import type {
+  Allergy,
+  Appointment,
+  AppointmentStatus,
+  ClinicalAlert,
+  ClinicalNote,
+  Medication,
+  PatientSummary,
+} from '@/types/clinical';
+import type { BridgeNoteContent } from '../BridgeEHRProvider';
+import { ageFrom, firstLine, toBirthDate, toDate } from '../mappers';
+import type {
+  MdAllergy,
+  MdAppointment,
+  MdAppointmentStatus,
+  MdMedication,
+  MdPatient,
+  MdProgressNote,
+  MdProgressNoteInput,
+  MdWarning,
+} from './types';
+
+// ============================================================================
+// PATIENTS
+// ============================================================================
+
+const GENDERS: Record<MdPatient['SEX'], PatientSummary['gender']> = {
+  M: 'M',
+  F: 'F',
+  I: 'Other',
+  U: 'Unknown',
+};
+
+export function toPatientSummary(patient: MdPatient): PatientSummary {
+  const dateOfBirth = toBirthDate(patient.DATE_OF_BIRTH);
+  // The eleventh digit, when there is one, is the patient's reference number on the card
+  const medicare = patient.MEDICARE_NO?.replace(/\s/g, '');
+
+  return {
+    id: patient.PATIENT_ID,
+    ehrPatientId: patient.PATIENT_ID,
+    ehrSystem: 'medicaldirector',
+    firstName: patient.GIVEN_NAMES,
+    lastName: patient.SURNAME,
+    dateOfBirth,
+    age: ageFrom(dateOfBirth),
+    gender: GENDERS[patient.SEX] ?? 'Unknown',
+    phone: patient.PHONE_MOBILE ?? patient.PHONE_HOME,
+    email: patient.EMAIL,
+    medicareNumber: medicare?.slice(0, 10),
+    medicareIrn: medicare && medicare.length > 10 ? Number(medicare.slice(10, 11)) : undefined,
+    lastVisit: toDate(patient.LAST_SEEN),
+    lastSyncedAt: new Date(),
+  };
+}
+
+// ============================================================================
+// APPOINTMENTS
+// ============================================================================
+
+const APPOINTMENT_STATUSES: Record<MdAppointmentStatus, AppointmentStatus> = {
+  B: 'scheduled',
+  A: 'waiting',
+  I: 'in-progress',
+  F: 'completed',
+  C: 'cancelled',
+  N: 'no-show',
+};
+
+// MedicalDirector has no status for recording or processing; the patient is still in consultation
+const MD_APPOINTMENT_STATUSES: Record<AppointmentStatus, MdAppointmentStatus> = {
+  scheduled: 'B',
+  waiting: 'A',
+  'in-progress': 'I',
+  recording: 'I',
+  processing: 'I',
+  completed: 'F',
+  cancelled: 'C',
+  'no-show': 'N',
+};
+
+export const toMdAppointmentStatus = (status: AppointmentStatus) => MD_APPOINTMENT_STATUSES[status];
+
+export function toAppointment(
+  appointment: MdAppointment,
+  related: { clinicianId: string; patient?: PatientSummary }
+): Appointment {
+  const { patient } = related;
+
+  return {
+    id: appointment.APPOINTMENT_ID,
+    ehrAppointmentId: appointment.APPOINTMENT_ID,
+    patientId: appointment.PATIENT_ID,
+    clinicianId: related.clinicianId,
+    scheduledTime: new Date(appointment.START_TIME),
+    duration: appointment.DURATION,
+    appointmentType: appointment.APPOINTMENT_TYPE,
+    status: APPOINTMENT_STATUSES[appointment.STATUS] ?? 'scheduled',
+    notes: appointment.NOTES,
+    location: appointment.ROOM,
+    patientName: patient ? `${patient.firstName} ${patient.lastName}`.trim() : 'Unknown patient',
+    patientAge: patient?.age ?? 0,
+    patientGender: patient?.gender ?? 'Unknown',
+    patientEmail: patient?.email ?? '',
+    createdAt: new Date(appointment.CREATED),
+    updatedAt: new Date(appointment.MODIFIED),
+  };
+}
+
+// ============================================================================
+// PATIENT CONTEXT
+// ============================================================================
+
+export function toMedication(medication: MdMedication): Medication {
+  const endDate = toDate(medication.DATE_CEASED);
+
+  return {
+    id: medication.MEDICATION_ID,
+    name: medication.PRODUCT_NAME,
+    genericName: medication.GENERIC_NAME,
+    dosage: medication.DOSE ?? '',
+    frequency: medication.FREQUENCY ?? '',
+    route: medication.ROUTE ?? '',
+    startDate: toDate(medication.DATE_STARTED) ?? new Date(0),
+    endDate,
+    prescribedBy: medication.PRESCRIBER ?? '',
+    // Courses with a planned end stay current until then
+    active: !endDate || isFuture(endDate),
+    notes: medication.INSTRUCTIONS,
+  };
+}
+
+const ALLERGEN_TYPES: Record<MdAllergy['SUBSTANCE_CLASS'], Allergy['allergenType']> = {
+  DRUG: 'drug',
+  FOOD: 'food',
+  ENV: 'environmental',
+  OTHER: 'other',
+};
+
+const ALLERGY_SEVERITIES: Record<MdAllergy['SEVERITY'], Allergy['severity']> = {
+  1: 'mild',
+  2: 'moderate',
+  3: 'severe',
+  4: 'life-threatening',
+};
+
+export function toAllergy(allergy: MdAllergy): Allergy {
+  return {
+    id: allergy.ALLERGY_ID,
+    allergen: allergy.SUBSTANCE,
+    allergenType: ALLERGEN_TYPES[allergy.SUBSTANCE_CLASS] ?? 'other',
+    reaction: allergy.REACTION ?? '',
+    severity: ALLERGY_SEVERITIES[allergy.SEVERITY] ?? 'moderate',
+    onsetDate: toDate(allergy.DATE_ONSET),
+    verifiedDate: new Date(allergy.DATE_RECORDED),
+    notes: allergy.COMMENT,
+  };
+}
+
+const ALERT_TYPES: Record<MdWarning['WARNING_TYPE'], ClinicalAlert['type']> = {
+  MEDICAL: 'chronic-condition',
+  SOCIAL: 'safety',
+  ADMIN: 'other',
+};
+
+export function toClinicalAlert(warning: MdWarning): ClinicalAlert {
+  return {
+    id: warning.WARNING_ID,
+    type: ALERT_TYPES[warning.WARNING_TYPE] ?? 'other',
+    severity: warning.IS_CRITICAL ? 'critical' : 'warning',
+    title: firstLine(warning.WARNING_TEXT),
+    description: warning.WARNING_TEXT,
+    dismissible: false,
+  };
+}
+
+// ============================================================================
+// CLINICAL NOTES
+// ============================================================================
+
+const NOTE_TYPES: Record<MdProgressNote['NOTE_TYPE'], ClinicalNote['noteType']> = {
+  PROGRESS: 'progress',
+  SOAP: 'soap',
+  REFERRAL: 'referral',
+  OTHER: 'other',
+};
+
+const MD_NOTE_TYPES: Record<ClinicalNote['noteType'], MdProgressNote['NOTE_TYPE']> = {
+  progress: 'PROGRESS',
+  soap: 'SOAP',
+  referral: 'REFERRAL',
+  assessment: 'PROGRESS',
+  plan: 'PROGRESS',
+  other: 'OTHER',
+};
+
+export function toClinicalNote(note: MdProgressNote, toClinicianId: (practitionerId: string) => string): ClinicalNote {
+  return {
+    id: note.NOTE_ID,
+    ehrNoteId: note.NOTE_ID,
+    patientId: note.PATIENT_ID,
+    clinicianId: toClinicianId(note.DOCTOR_ID),
+    title: note.SUBJECT ?? 'Progress note',
+    content: note.BODY,
+    noteType: NOTE_TYPES[note.NOTE_TYPE] ?? 'other',
+    status: note.IS_FINAL ? 'final' : 'draft',
+    createdAt: new Date(note.CREATED),
+    updatedAt: new Date(note.MODIFIED),
+  };
+}
+
+export function toProgressNoteInput(note: BridgeNoteContent, existing?: MdProgressNote): MdProgressNoteInput {
+  return {
+    NOTE_DATE: existing?.NOTE_DATE ?? formatISO(note.date),
+    NOTE_TYPE: MD_NOTE_TYPES[note.noteType],
+    SUBJECT: note.title,
+    BODY: note.content,
+    IS_FINAL: note.status !== 'draft' && note.status !== 'pending-review',
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * MedicalDirector Records
+ *
+ * MedicalDirector Clinical records as its bridge agent returns them: the
+ * product's own column names and codes, dates rendered as ISO 8601.
+ */
+
+// Appointment status codes in MedicalDirector's appointment book
+export type MdAppointmentStatus =
+  | 'B' // Booked
+  | 'A' // Arrived
+  | 'I' // In consultation
+  | 'F' // Finished
+  | 'C' // Cancelled
+  | 'N'; // No show
+
+export interface MdAppointment {
+  APPOINTMENT_ID: string;
+  PATIENT_ID: string;
+  DOCTOR_ID: string;
+  START_TIME: string;
+  DURATION: number; // Minutes
+  APPOINTMENT_TYPE: string;
+  STATUS: MdAppointmentStatus;
+  NOTES?: string;
+  ROOM?: string;
+  CREATED: string;
+  MODIFIED: string;
+}
+
+export interface MdPatient {
+  PATIENT_ID: string;
+  GIVEN_NAMES: string;
+  SURNAME: string;
+  DATE_OF_BIRTH?: string; // yyyy-MM-dd
+  SEX: 'M' | 'F' | 'I' | 'U'; // Intersex or indeterminate, unknown
+  MEDICARE_NO?: string; // Ten digits, or eleven with the reference number
+  PHONE_MOBILE?: string;
+  PHONE_HOME?: string;
+  EMAIL?: string;
+  LAST_SEEN?: string;
+}
+
+export interface MdMedication {
+  MEDICATION_ID: string;
+  PATIENT_ID: string;
+  PRODUCT_NAME: string;
+  GENERIC_NAME?: string;
+  DOSE?: string;
+  FREQUENCY?: string;
+  ROUTE?: string;
+  DATE_STARTED?: string;
+  DATE_CEASED?: string; // Set when the medication is stopped
+  PRESCRIBER?: string;
+  INSTRUCTIONS?: string;
+}
+
+export interface MdAllergy {
+  ALLERGY_ID: string;
+  PATIENT_ID: string;
+  SUBSTANCE: string;
+  SUBSTANCE_CLASS: 'DRUG' | 'FOOD' | 'ENV' | 'OTHER';
+  REACTION?: string;
+  SEVERITY: 1 | 2 | 3 | 4; // Mild to life-threatening
+  DATE_ONSET?: string;
+  DATE_RECORDED: string;
+  COMMENT?: string;
+}
+
+export interface MdWarning {
+  WARNING_ID: string;
+  PATIENT_ID: string;
+  WARNING_TEXT: string;
+  WARNING_TYPE: 'MEDICAL' | 'SOCIAL' | 'ADMIN';
+  IS_CRITICAL: boolean;
+}
+
+export interface MdProgressNote {
+  NOTE_ID: string;
+  PATIENT_ID: string;
+  DOCTOR_ID: string;
+  NOTE_DATE: string;
+  NOTE_TYPE: 'PROGRESS' | 'SOAP' | 'REFERRAL' | 'OTHER';
+  SUBJECT?: string;
+  BODY: string;
+  IS_FINAL: boolean;
+  CREATED: string;
+  MODIFIED: string;
+}
+
+export type MdProgressNoteInput = Pick<MdProgressNote, 'NOTE_DATE' | 'NOTE_TYPE' | 'SUBJECT' | 'BODY' | 'IS_FINAL'>;
+
+export interface MedicalDirectorRecords {
+  appointment: MdAppointment;
+  appointmentStatus: MdAppointmentStatus;
+  patient: MdPatient;
+  medication: MdMedication;
+  allergy: MdAllergy;
+  alert: MdWarning;
+  note: MdProgressNote;
+  noteInput: MdProgressNoteInput;
+}
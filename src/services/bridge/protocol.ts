@@ -0,0 +1,122 @@
+/**
+ * Bridge Agent Protocol
+ *
+ * Best Practice and MedicalDirector keep their records in a database on the
+ * clinic's own server, with no API reachable from the internet. Clinics using
+ * them run a bridge agent on-premises that reads and writes that database and
+ * answers Aria Scribe's requests.
+ *
+ * The protocol is a series of messages: each request names a method and its
+ * params, and gets back either a result or an error, matched by id. Over HTTP
+ * a message is POSTed to `<bridge URL>/v1/messages` with the agent's bearer
+ * token; other carriers only need to deliver the same messages.
+ *
+ * Records come back in the product's own shape: its field names and codes,
+ * with dates rendered as ISO 8601 (date-times carry the practice's UTC offset,
+ * since the products store wall-clock time). Each vendor connector maps them.
+ */
+
+// Version of the protocol spoken here; agents say which they speak in their hello
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
+export type BridgeVendor = 'bestpractice' | 'medicaldirector';
+
+/**
+ * What the agent tells us about itself and the product it's attached to
+ */
+export interface BridgeHello {
+  protocolVersion: number;
+  agent: { name: string; version: string };
+  vendor: BridgeVendor;
+  product: { name: string; version: string };
+  practiceName?: string;
+  methods: BridgeMethod[]; // Methods this agent answers; depends on the product and its version
+}
+
+/**
+ * The records a vendor's agent returns and accepts. Each connector fills these
+ * in with its product's types.
+ */
+export interface BridgeRecordTypes {
+  appointment: unknown;
+  appointmentStatus: unknown; // The product's appointment status code
+  patient: unknown;
+  medication: unknown;
+  allergy: unknown;
+  alert: unknown;
+  note: unknown;
+  noteInput: unknown; // A note as written to the product
+}
+
+/**
+ * Each method's params and result
+ */
+export interface BridgeMethods<R extends BridgeRecordTypes = BridgeRecordTypes> {
+  'agent.hello': {
+    params: Record<string, never>;
+    result: BridgeHello;
+  };
+  'appointments.list': {
+    params: { practitionerId: string; date: string }; // The practice's calendar day, yyyy-MM-dd
+    result: { appointments: R['appointment'][]; patients: R['patient'][] };
+  };
+  'appointments.get': {
+    params: { appointmentId: string };
+    result: { appointment: R['appointment']; patient?: R['patient'] };
+  };
+  'appointments.setStatus': {
+    params: { appointmentId: string; status: R['appointmentStatus'] };
+    result: { appointment: R['appointment'] };
+  };
+  'patients.get': {
+    params: { patientId: string };
+    result: { patient: R['patient'] };
+  };
+  'patients.context': {
+    params: { patientId: string; noteLimit: number };
+    result: {
+      patient: R['patient'];
+      medications?: R['medication'][]; // Left out when the agent can't read them
+      allergies?: R['allergy'][];
+      alerts?: R['alert'][];
+      notes?: R['note'][]; // Most recent first
+    };
+  };
+  'patients.recent': {
+    params: { limit: number };
+    result: { patients: R['patient'][] };
+  };
+  'notes.create': {
+    params: { patientId: string; practitionerId: string; note: R['noteInput'] };
+    result: { note: R['note'] };
+  };
+  'notes.get': {
+    params: { noteId: string };
+    result: { note: R['note'] };
+  };
+  'notes.update': {
+    // Refused with a conflict if the note has changed since unmodifiedSince (ISO 8601)
+    params: { noteId: string; note: R['noteInput']; unmodifiedSince?: string };
+    result: { note: R['note'] };
+  };
+}
+
+export type BridgeMethod = keyof BridgeMethods;
+
+export interface BridgeRequest<M extends BridgeMethod = BridgeMethod> {
+  id: string;
+  method: M;
+  params: BridgeMethods[M]['params'];
+}
+
+export type BridgeErrorCode =
+  | 'unauthorized' // Wrong or missing agent token
+  | 'not-found'
+  | 'not-supported' // The method isn't available for this product or version
+  | 'invalid' // Params the agent or product refused
+  | 'conflict' // The record changed in the product since it was read, or is locked
+  | 'unavailable'; // The agent is up but can't reach the product's database
+
+export type BridgeResponse<M extends BridgeMethod = BridgeMethod> =
+  | { id: string; result: BridgeMethods[M]['result'] }
+  | { id: string; error: { code: BridgeErrorCode; message: string } };
@@ -0,0 +1,199 @@
+/**
+ * FHIR Client
+ *
+ * A small REST client for FHIR R4 servers: reads, searches that follow the
+ * server's paging links, and creates and version-checked updates. Responses
+ * are JSON (`application/fhir+json`); failures become FhirRequestErrors
+ * carrying the server's OperationOutcome diagnostics.
+ */
+
+import type { FhirBundle, FhirCapabilityStatement, FhirOperationOutcome, FhirResource } from './types';
+
+export interface FhirClientConfig {
+  baseUrl: string; // e.g. https://fhir.example.com/r4
+  getAccessToken?: () => Promise<string | null>; // Bearer token for each request, when the server needs one
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+  maxPages?: number; // Search pages followed before giving up on the rest
+}
+
+export type FhirSearchParams = Record<string, string | number | (string | number)[] | undefined>;
+
+export interface FhirSearchResult<T extends FhirResource> {
+  resources: T[]; // Resources matching the search
+  included: Map<string, FhirResource>; // Resources pulled in by _include, keyed by 'Type/id'
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_PAGES = 10;
+
+/**
+ * A request the FHIR server refused or could not be reached for. Status is
+ * unset when no response came back.
+ */
+export class FhirRequestError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public outcome?: FhirOperationOutcome
+  ) {
+    super(message);
+    this.name = 'FhirRequestError';
+  }
+}
+
+export const referenceTo = (resource: FhirResource) => `${resource.resourceType}/${resource.id}`;
+
+/**
+ * The id in a reference of the given type, e.g. '123' from 'Patient/123' or an absolute URL to it
+ */
+export function referencedId(reference: string | undefined, resourceType: string): string | undefined {
+  const match = reference?.match(new RegExp(`(?:^|/)${resourceType}/([^/]+)(?:/_history/[^/]+)?$`));
+  return match?.[1];
+}
+
+export class FhirClient {
+  private baseUrl: string;
+  private fetchFn: typeof fetch;
+
+  constructor(private config: FhirClientConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.fetchFn = config.fetch ?? fetch;
+  }
+
+  async capabilities(): Promise<FhirCapabilityStatement> {
+    return this.request<FhirCapabilityStatement>('GET', `${this.baseUrl}/metadata`);
+  }
+
+  async read<T extends FhirResource>(resourceType: T['resourceType'], id: string): Promise<T> {
+    return this.request<T>('GET', `${this.baseUrl}/${resourceType}/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Search for resources of a type, following next links until every page is in
+   */
+  async search<T extends FhirResource>(resourceType: T['resourceType'], params: FhirSearchParams = {}): Promise<FhirSearchResult<T>> {
+    const result: FhirSearchResult<T> = { resources: [], included: new Map() };
+    const maxPages = this.config.maxPages ?? DEFAULT_MAX_PAGES;
+
+    let url: string | undefined = `${this.baseUrl}/${resourceType}?${this.toQueryString(params)}`;
+    for (let page = 0; url && page < maxPages; page++) {
+      const bundle: FhirBundle = await this.request<FhirBundle>('GET', url);
+
+      for (const entry of bundle.entry ?? []) {
+        const resource = entry.resource;
+        if (!resource) continue;
+
+        const mode = entry.search?.mode ?? (resource.resourceType === resourceType ? 'match' : 'include');
+        if (mode === 'match') {
+          result.resources.push(resource as T);
+        } else if (mode === 'include') {
+          result.included.set(referenceTo(resource), resource);
+        }
+      }
+
+      url = this.nextPageUrl(bundle);
+    }
+
+    if (url) {
+      console.warn(`⚠️ FHIR search for ${resourceType} stopped after ${maxPages} pages`);
+    }
+    return result;
+  }
+
+  async create<T extends FhirResource>(resource: T): Promise<T> {
+    return this.request<T>('POST', `${this.baseUrl}/${resource.resourceType}`, resource);
+  }
+
+  /**
+   * Replace a resource, refused by the server if it has changed since the version we read
+   */
+  async update<T extends FhirResource>(resource: T): Promise<T> {
+    if (!resource.id) {
+      throw new FhirRequestError(`Cannot update a ${resource.resourceType} without an id`);
+    }
+
+    const versionId = resource.meta?.versionId;
+    return this.request<T>(
+      'PUT',
+      `${this.baseUrl}/${resource.resourceType}/${encodeURIComponent(resource.id)}`,
+      resource,
+      versionId ? { 'If-Match': `W/"${versionId}"` } : {}
+    );
+  }
+
+  private async request<T>(method: string, url: string, body?: FhirResource, headers: Record<string, string> = {}): Promise<T> {
+    const accessToken = await this.config.getAccessToken?.();
+    const target = `${method} ${url.slice(this.baseUrl.length) || '/'}`;
+
+    let response: Response;
+    try {
+      response = await this.fetchFn(url, {
+        method,
+        headers: {
+          Accept: 'application/fhir+json',
+          ...(body && { 'Content-Type': 'application/fhir+json' }),
+          ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+          ...headers,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new FhirRequestError(`FHIR ${target} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const text = await response.text();
+    let json: unknown;
+    try {
+      json = text ? JSON.parse(text) : undefined;
+    } catch {
+      json = undefined;
+    }
+
+    if (!response.ok) {
+      const outcome = (json as FhirResource | undefined)?.resourceType === 'OperationOutcome' ? (json as FhirOperationOutcome) : undefined;
+      const diagnostics = outcome?.issue
+        .map(issue => issue.diagnostics ?? issue.details?.text ?? issue.code)
+        .join('; ');
+      throw new FhirRequestError(
+        `FHIR ${target} failed with ${response.status}${diagnostics ? `: ${diagnostics}` : ''}`,
+        response.status,
+        outcome
+      );
+    }
+
+    if (json === undefined) {
+      throw new FhirRequestError(`FHIR ${target} returned no JSON resource`, response.status);
+    }
+    return json as T;
+  }
+
+  private toQueryString(params: FhirSearchParams): string {
+    const query = new URLSearchParams();
+    for (const [name, value] of Object.entries(params)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined) {
+          query.append(name, String(item));
+        }
+      }
+    }
+    return query.toString();
+  }
+
+  /**
+   * The next page of a search, only followed on our own server so the access
+   * token is never sent anywhere else
+   */
+  private nextPageUrl(bundle: FhirBundle): string | undefined {
+    const next = bundle.link?.find(link => link.relation === 'next')?.url;
+    if (!next) return undefined;
+
+    const nextUrl = new URL(next, `${this.baseUrl}/`);
+    if (nextUrl.origin !== new URL(this.baseUrl).origin) {
+      console.warn(`⚠️ Ignoring FHIR next page on another server: ${nextUrl.origin}`);
+      return undefined;
+    }
+    return nextUrl.toString();
+  }
+}
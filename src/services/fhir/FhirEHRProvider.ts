@@ -0,0 +1,392 @@
+/**
+ * FhirEHRProvider - EHR Provider Implementation for FHIR R4 Servers
+ *
+ * Implements the EHRProvider interface against any FHIR R4 server:
+ * Appointment and Slot for the clinician's day, Patient, MedicationStatement,
+ * AllergyIntolerance and Flag for patient context, and DocumentReference, or
+ * Composition where that is all the server takes, for clinical notes.
+ *
+ * What the provider reports and calls follows the server's CapabilityStatement,
+ * loaded when the provider is created and again on every connection test, which
+ * also checks the access token was granted the SMART scopes all of it needs.
+ */
+
+import { addDays, formatISO, startOfDay } from 'date-fns';
+import type {
+  EHRProvider,
+  EHRProviderInfo,
+  ConnectionStatus,
+  Appointment,
+  AppointmentStatus,
+  PatientSummary,
+  PatientContext,
+  ClinicalNote
+} from '@/types/clinical';
+
+import { FhirClient, FhirRequestError, referencedId, type FhirClientConfig } from './FhirClient';
+import { NO_FHIR_FEATURES, getFhirCapabilityNames, getFhirFeatures, isFhirR4, type FhirFeatures } from './capabilities';
+import { getMissingSmartScopes } from './scopes';
+import {
+  appointmentParticipantId,
+  isCurrentAllergy,
+  toAllergy,
+  toAppointment,
+  toClinicalAlert,
+  toClinicalNote,
+  toComposition,
+  toDocumentReference,
+  toFhirAppointmentStatus,
+  toMedication,
+  toPatientSummary,
+  type FhirNoteContent,
+  type FhirNoteResource,
+} from './mappers';
+import type {
+  FhirAllergyIntolerance,
+  FhirAppointment,
+  FhirCapabilityStatement,
+  FhirFlag,
+  FhirMedicationStatement,
+  FhirPatient,
+  FhirSlot,
+} from './types';
+
+export interface FhirEHRProviderConfig extends FhirClientConfig {
+  // Aria Scribe user id to FHIR Practitioner id; users without one are assumed to share the id
+  practitionerIds?: Record<string, string>;
+  // SMART scopes the access token was granted, checked by testConnection; null when not known
+  getGrantedScopes?: () => Promise<string[] | null>;
+}
+
+// Earlier notes shown with the patient's context
+const RECENT_NOTE_COUNT = 5;
+
+/**
+ * EHR provider for clinics whose records live on a FHIR R4 server
+ */
+export class FhirEHRProvider implements EHRProvider {
+  private client: FhirClient;
+  private capabilityStatement: FhirCapabilityStatement | null = null;
+  private features: FhirFeatures = NO_FHIR_FEATURES;
+  private clinicianIds: Map<string, string>;
+
+  constructor(
+    private config: FhirEHRProviderConfig,
+    private clinicianId?: string
+  ) {
+    this.client = new FhirClient(config);
+    this.clinicianIds = new Map(
+      Object.entries(config.practitionerIds ?? {}).map(([clinicianId, practitionerId]) => [practitionerId, clinicianId])
+    );
+  }
+
+  /**
+   * Read the server's CapabilityStatement and work out what we can do with it
+   * @throws {Error} if the server can't be reached or isn't FHIR R4
+   */
+  async loadCapabilities(): Promise<FhirCapabilityStatement> {
+    const statement = await this.client.capabilities();
+    if (statement.resourceType !== 'CapabilityStatement') {
+      throw new Error('FHIR server did not return a CapabilityStatement from /metadata');
+    }
+    if (!isFhirR4(statement)) {
+      throw new Error(`FHIR ${statement.fhirVersion} is not supported; an R4 (4.0.x) server is needed`);
+    }
+
+    this.capabilityStatement = statement;
+    this.features = getFhirFeatures(statement);
+    return statement;
+  }
+
+  // ============================================================================
+  // SYSTEM INFORMATION
+  // ============================================================================
+
+  getProviderInfo(): EHRProviderInfo {
+    const statement = this.capabilityStatement;
+    const { appointments, patientData, clinicalNotes, medications, allergies, billing } = this.features;
+
+    return {
+      name: statement?.software?.name ?? statement?.name ?? 'FHIR R4 server',
+      version: statement?.software?.version ?? statement?.fhirVersion ?? 'unknown',
+      capabilities: getFhirCapabilityNames(this.features),
+      supportedFeatures: { appointments, patientData, clinicalNotes, medications, allergies, billing },
+    };
+  }
+
+  async testConnection(): Promise<ConnectionStatus> {
+    const startedAt = Date.now();
+
+    try {
+      const statement = await this.loadCapabilities();
+
+      const grantedScopes = await this.config.getGrantedScopes?.();
+      const missingScopes = grantedScopes ? getMissingSmartScopes(grantedScopes, this.features) : [];
+      if (missingScopes.length > 0) {
+        return {
+          connected: false,
+          lastChecked: new Date(),
+          responseTime: Date.now() - startedAt,
+          error: `Authorization is missing scopes for what the server supports: ${missingScopes.join(', ')}`,
+        };
+      }
+
+      return {
+        connected: true,
+        lastChecked: new Date(),
+        responseTime: Date.now() - startedAt,
+        version: [statement.software?.name, statement.software?.version, `(FHIR ${statement.fhirVersion})`].filter(Boolean).join(' '),
+      };
+    } catch (error) {
+      return {
+        connected: false,
+        lastChecked: new Date(),
+        error: `Connection failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  // ============================================================================
+  // APPOINTMENT MANAGEMENT
+  // ============================================================================
+
+  async getTodaysAppointments(clinicianId: string, date: Date = new Date()): Promise<Appointment[]> {
+    const features = await this.requireFeature('appointments', 'appointments');
+    const dayStart = startOfDay(date);
+
+    const { resources, included } = await this.client.search<FhirAppointment>('Appointment', {
+      practitioner: `Practitioner/${this.practitionerId(clinicianId)}`,
+      date: [`ge${formatISO(dayStart)}`, `lt${formatISO(addDays(dayStart, 1))}`],
+      _include: features.slots ? ['Appointment:patient', 'Appointment:slot'] : 'Appointment:patient',
+      _count: 100,
+    });
+
+    return resources
+      .filter(appointment => appointment.status !== 'entered-in-error')
+      .map(appointment => toAppointment(appointment, {
+        clinicianId,
+        patient: included.get(`Patient/${appointmentParticipantId(appointment, 'Patient')}`) as FhirPatient | undefined,
+        slot: included.get(appointment.slot?.[0]?.reference ?? '') as FhirSlot | undefined,
+      }))
+      .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+  }
+
+  async getAppointment(appointmentId: string): Promise<Appointment> {
+    const features = await this.requireFeature('appointments', 'appointments');
+    const appointment = await this.client.read<FhirAppointment>('Appointment', appointmentId);
+
+    const patientId = appointmentParticipantId(appointment, 'Patient');
+    const slotId = referencedId(appointment.slot?.[0]?.reference, 'Slot');
+    const [patient, slot] = await Promise.all([
+      patientId && features.patientData ? this.client.read<FhirPatient>('Patient', patientId) : undefined,
+      slotId && !(appointment.start && (appointment.end ?? appointment.minutesDuration)) && features.slots ? this.client.read<FhirSlot>('Slot', slotId) : undefined,
+    ]);
+
+    return toAppointment(appointment, {
+      clinicianId: this.toClinicianId(appointmentParticipantId(appointment, 'Practitioner')),
+      patient,
+      slot,
+    });
+  }
+
+  async updateAppointmentStatus(appointmentId: string, status: AppointmentStatus): Promise<void> {
+    await this.requireFeature('appointments', 'appointments');
+    const appointment = await this.client.read<FhirAppointment>('Appointment', appointmentId);
+
+    const fhirStatus = toFhirAppointmentStatus(status);
+    if (appointment.status !== fhirStatus) {
+      await this.client.update<FhirAppointment>({ ...appointment, status: fhirStatus });
+    }
+  }
+
+  // ============================================================================
+  // PATIENT DATA
+  // ============================================================================
+
+  async getPatientSummary(patientId: string): Promise<PatientSummary> {
+    await this.requireFeature('patientData', 'patient records');
+    return toPatientSummary(await this.client.read<FhirPatient>('Patient', patientId));
+  }
+
+  /**
+   * The patient with whatever medications, allergies, alerts and notes the server
+   * holds. Parts the server doesn't support, or fails to return, are left out.
+   */
+  async getPatientContext(patientId: string): Promise<PatientContext> {
+    const features = await this.requireFeature('patientData', 'patient records');
+    const patient = `Patient/${patientId}`;
+
+    const [summary, medications, allergies, alerts, recentNotes] = await Promise.all([
+      this.getPatientSummary(patientId),
+      this.optional(features.medications, 'medications', async () => {
+        const { resources } = await this.client.search<FhirMedicationStatement>('MedicationStatement', { patient, _count: 100 });
+        return resources.filter(statement => statement.status !== 'entered-in-error').map(toMedication);
+      }),
+      this.optional(features.allergies, 'allergies', async () => {
+        const { resources } = await this.client.search<FhirAllergyIntolerance>('AllergyIntolerance', { patient, _count: 100 });
+        return resources.filter(isCurrentAllergy).map(toAllergy);
+      }),
+      this.optional(features.flags, 'alerts', async () => {
+        const { resources } = await this.client.search<FhirFlag>('Flag', { patient, _count: 100 });
+        return resources.filter(flag => flag.status === 'active').map(toClinicalAlert);
+      }),
+      this.optional(features.noteSearch, 'recent notes', async () => {
+        const { resources } = await this.client.search<FhirNoteResource>(features.noteResource!, {
+          patient,
+          _sort: '-date',
+          _count: RECENT_NOTE_COUNT,
+        });
+        return resources.slice(0, RECENT_NOTE_COUNT).map(resource => this.toClinicalNote(resource));
+      }),
+    ]);
+
+    return { summary, medications, allergies, alerts, recentNotes };
+  }
+
+  async getRecentPatients(limit = 20): Promise<PatientSummary[]> {
+    await this.requireFeature('patientData', 'patient records');
+    const { resources } = await this.client.search<FhirPatient>('Patient', { _sort: '-_lastUpdated', _count: limit });
+    return resources.slice(0, limit).map(toPatientSummary);
+  }
+
+  // ============================================================================
+  // CLINICAL NOTES
+  // ============================================================================
+
+  async createClinicalNote(patientId: string, note: Partial<ClinicalNote>): Promise<ClinicalNote> {
+    const features = await this.requireFeature('clinicalNotes', 'clinical notes');
+
+    const content: FhirNoteContent = {
+      patientId,
+      authorReference: this.authorReference(note.clinicianId),
+      title: note.title ?? 'Clinical Note',
+      content: this.validateNoteContent(note.content),
+      noteType: note.noteType ?? 'progress',
+      status: note.status ?? 'final',
+    };
+
+    const created = features.noteResource === 'DocumentReference'
+      ? await this.client.create(toDocumentReference(content))
+      : await this.client.create(toComposition(content));
+
+    return this.withLocalNoteDetails(this.toClinicalNote(created), note);
+  }
+
+  /**
+   * Update a note written by createClinicalNote. Its id may be given as either
+   * the resource id or the ehrNoteId ('DocumentReference/123'). It's refused
+   * with a 412 if the note has been changed in the EHR since updates.updatedAt,
+   * the version the caller last saw, when given.
+   */
+  async updateClinicalNote(noteId: string, updates: Partial<ClinicalNote>): Promise<ClinicalNote> {
+    const features = await this.requireFeature('clinicalNotes', 'clinical notes');
+    const [resourceType, id] = noteId.includes('/')
+      ? (noteId.split('/') as [FhirNoteResource['resourceType'], string])
+      : [features.noteResource!, noteId];
+
+    const existing = await this.client.read<FhirNoteResource>(resourceType, id);
+    const current = this.toClinicalNote(existing);
+    if (updates.updatedAt && current.updatedAt.getTime() > updates.updatedAt.getTime()) {
+      throw new FhirRequestError(`${resourceType}/${id} was changed in the EHR at ${current.updatedAt.toISOString()}`, 412);
+    }
+
+    const content: FhirNoteContent = {
+      patientId: current.patientId,
+      authorReference: existing.author?.[0]?.reference ?? this.authorReference(updates.clinicianId),
+      title: updates.title ?? current.title,
+      content: updates.content !== undefined ? this.validateNoteContent(updates.content) : current.content,
+      noteType: updates.noteType ?? current.noteType,
+      status: updates.status ?? current.status,
+    };
+
+    const updated = existing.resourceType === 'DocumentReference'
+      ? await this.client.update(toDocumentReference(content, existing))
+      : await this.client.update(toComposition(content, existing));
+
+    return this.withLocalNoteDetails(this.toClinicalNote(updated), updates);
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  private async requireFeature(feature: keyof EHRProviderInfo['supportedFeatures'], description: string): Promise<FhirFeatures> {
+    if (!this.capabilityStatement) {
+      await this.loadCapabilities();
+    }
+    if (!this.features[feature]) {
+      throw new Error(`${this.getProviderInfo().name} does not support ${description} over FHIR`);
+    }
+    return this.features;
+  }
+
+  private async optional<T>(supported: boolean, description: string, load: () => Promise<T>): Promise<T | undefined> {
+    if (!supported) return undefined;
+
+    try {
+      return await load();
+    } catch (error) {
+      console.warn(`⚠️ Could not load ${description} from the FHIR server:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  private practitionerId(clinicianId: string): string {
+    return this.config.practitionerIds?.[clinicianId] ?? clinicianId;
+  }
+
+  private toClinicianId(practitionerId?: string): string {
+    return practitionerId ? (this.clinicianIds.get(practitionerId) ?? practitionerId) : (this.clinicianId ?? '');
+  }
+
+  private authorReference(clinicianId?: string): string {
+    const author = clinicianId ?? this.clinicianId;
+    if (!author) {
+      throw new Error('A clinician is needed to author a clinical note in the EHR');
+    }
+    return `Practitioner/${this.practitionerId(author)}`;
+  }
+
+  private toClinicalNote(resource: FhirNoteResource): ClinicalNote {
+    return toClinicalNote(resource, reference => this.toClinicianId(referencedId(reference, 'Practitioner')));
+  }
+
+  private validateNoteContent(content?: string): string {
+    if (!content || content.trim().length === 0) {
+      throw new Error('Clinical note content cannot be empty. Please provide meaningful note content.');
+    }
+    return content.trim();
+  }
+
+  /**
+   * Keep what we know about the note that FHIR has nowhere to hold
+   */
+  private withLocalNoteDetails(note: ClinicalNote, local: Partial<ClinicalNote>): ClinicalNote {
+    return {
+      ...note,
+      consultationId: local.consultationId,
+      template: local.template,
+      generatedFromAudio: local.generatedFromAudio,
+      transcriptionId: local.transcriptionId,
+      aiConfidence: local.aiConfidence,
+      signedAt: local.signedAt,
+    };
+  }
+}
+
+// ============================================================================
+// FACTORY FUNCTIONS
+// ============================================================================
+
+/**
+ * Create a FhirEHRProvider with the server's capabilities already loaded
+ * @throws {Error} if the server can't be reached or isn't FHIR R4
+ */
+export async function createFhirEHRProvider(
+  config: FhirEHRProviderConfig,
+  clinicianId?: string
+): Promise<FhirEHRProvider> {
+  const provider = new FhirEHRProvider(config, clinicianId);
+  await provider.loadCapabilities();
+  return provider;
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { FhirCapabilityStatement, FhirComposition, FhirDocumentReference } from '../types';
+import { FhirEHRProvider, createFhirEHRProvider } from '../FhirEHRProvider';
+import { FhirFixtureServer, type FhirFixtureServerOptions } from './fixtures/FhirFixtureServer';
+import capabilityStatement from './fixtures/capability-statement.json';
+
+const ACCESS_TOKEN = 'fixture-token';
+
+// A server that takes notes only as Compositions and has no alerts
+const compositionServer = (): FhirCapabilityStatement => {
+  const statement = structuredClone(capabilityStatement) as FhirCapabilityStatement;
+  const resources = statement.rest![0]!.resource!.filter(resource => !['DocumentReference', 'Flag'].includes(resource.type));
+  resources.push({ type: 'Composition', interaction: [{ code: 'read' }, { code: 'create' }, { code: 'update' }] });
+  statement.rest![0]!.resource = resources;
+  return statement;
+};
+
+describe('FhirEHRProvider', () => {
+  let server: FhirFixtureServer;
+  let provider: FhirEHRProvider;
+
+  const startServer = async (options: FhirFixtureServerOptions = {}) => {
+    server = new FhirFixtureServer({ accessToken: ACCESS_TOKEN, ...options });
+    const baseUrl = await server.start();
+    provider = await createFhirEHRProvider(
+      { baseUrl, getAccessToken: async () => ACCESS_TOKEN, practitionerIds: { 'user-amy': 'prac-amy' } },
+      'user-amy'
+    );
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('reports the features the CapabilityStatement declares', async () => {
+    await startServer();
+
+    expect(provider.getProviderInfo()).toEqual({
+      name: 'Harbour Street FHIR',
+      version: '3.2.1',
+      capabilities: ['appointments', 'slots', 'patient-data', 'medications', 'allergies', 'alerts', 'clinical-notes'],
+      supportedFeatures: {
+        appointments: true,
+        patientData: true,
+        clinicalNotes: true,
+        medications: true,
+        allergies: true,
+        billing: false,
+      },
+    });
+    await expect(provider.testConnection()).resolves.toMatchObject({
+      connected: true,
+      version: 'Harbour Street FHIR 3.2.1 (FHIR 4.0.1)',
+    });
+  });
+
+  it('fails the connection test for servers that are not FHIR R4 or refuse the token', async () => {
+    server = new FhirFixtureServer({
+      accessToken: ACCESS_TOKEN,
+      capabilityStatement: { ...(capabilityStatement as FhirCapabilityStatement), fhirVersion: '5.0.0' },
+    });
+    const baseUrl = await server.start();
+
+    const r5 = new FhirEHRProvider({ baseUrl, getAccessToken: async () => ACCESS_TOKEN });
+    await expect(r5.testConnection()).resolves.toMatchObject({
+      connected: false,
+      error: 'Connection failed: FHIR 5.0.0 is not supported; an R4 (4.0.x) server is needed',
+    });
+    await expect(createFhirEHRProvider({ baseUrl, getAccessToken: async () => ACCESS_TOKEN })).rejects.toThrow('FHIR 5.0.0');
+
+    const unauthorised = new FhirEHRProvider({ baseUrl });
+    const refused = await unauthorised.testConnection();
+    expect(refused.connected).toBe(false);
+    expect(refused.error).toContain('failed with 401: Missing or invalid access token');
+  });
+
+  it("gets a clinician's appointments for the day with their patients and slots", async () => {
+    await startServer();
+
+    const appointments = await provider.getTodaysAppointments('user-amy', new Date('2025-08-05T12:00:00Z'));
+
+    expect(appointments.map(appointment => appointment.id)).toEqual(['appt-1', 'appt-2']);
+    expect(appointments[0]).toMatchObject({
+      patientId: 'pat-jane',
+      clinicianId: 'user-amy',
+      duration: 15,
+      appointmentType: 'Standard consultation',
+      status: 'scheduled',
+      notes: 'Review blood results',
+      location: 'Consult room 2',
+      patientName: 'Jane Mary Citizen',
+      patientGender: 'F',
+      patientEmail: 'jane.citizen@example.com',
+    });
+    // Only the slot says how long the second appointment runs
+    expect(appointments[1]).toMatchObject({ patientName: 'Tom Nguyen', status: 'waiting', duration: 30 });
+
+    const search = server.requests.find(request => request.path === '/Appointment')!;
+    expect(search.query.get('practitioner')).toBe('Practitioner/prac-amy');
+    expect(search.query.getAll('_include')).toEqual(['Appointment:patient', 'Appointment:slot']);
+    expect(search.headers.authorization).toBe(`Bearer ${ACCESS_TOKEN}`);
+  });
+
+  it('writes appointment status changes back with the version it read', async () => {
+    await startServer();
+
+    await provider.updateAppointmentStatus('appt-1', 'in-progress');
+
+    const update = server.requests.find(request => request.method === 'PUT')!;
+    expect(update.headers['if-match']).toBe('W/"2"');
+    expect(server.get('Appointment/appt-1')).toMatchObject({ status: 'arrived', meta: { versionId: '3' } });
+    await expect(provider.getAppointment('appt-1')).resolves.toMatchObject({ status: 'waiting', clinicianId: 'user-amy' });
+  });
+
+  it("builds the patient's context from current medications, allergies, alerts and notes", async () => {
+    await startServer();
+
+    const context = await provider.getPatientContext('pat-jane');
+
+    expect(context.summary).toMatchObject({
+      ehrSystem: 'fhir',
+      firstName: 'Jane Mary',
+      lastName: 'Citizen',
+      medicareNumber: '2123456701',
+      medicareIrn: 2,
+    });
+    expect(context.medications).toEqual([
+      expect.objectContaining({ name: 'Metformin', dosage: '500mg', frequency: '2 times a day', route: 'Oral', active: true }),
+      expect.objectContaining({ name: 'Amoxicillin 500 mg capsule', active: false }),
+    ]);
+    expect(context.allergies).toEqual([
+      expect.objectContaining({ allergen: 'Penicillin', allergenType: 'drug', reaction: 'Anaphylaxis', severity: 'life-threatening' }),
+    ]);
+    expect(context.alerts).toEqual([
+      expect.objectContaining({ type: 'safety', severity: 'critical', title: 'Falls risk', description: 'At risk of falls when standing quickly' }),
+    ]);
+    expect(context.recentNotes).toEqual([
+      expect.objectContaining({ title: 'Diabetes review', content: 'HbA1c 7.1%. Continue metformin.', status: 'final', clinicianId: 'user-amy' }),
+    ]);
+  });
+
+  it('follows search paging and leaves out context the server does not support', async () => {
+    await startServer({ capabilityStatement: compositionServer(), pageSize: 1 });
+
+    const patients = await provider.getRecentPatients();
+    expect(patients.map(patient => patient.id)).toEqual(['pat-jane', 'pat-tom']);
+
+    const context = await provider.getPatientContext('pat-jane');
+    expect(context.alerts).toBeUndefined();
+    expect(context.recentNotes).toBeUndefined();
+    expect(server.requests.some(request => request.path === '/Flag')).toBe(false);
+  });
+
+  it('creates notes as DocumentReferences and updates them in place', async () => {
+    await startServer();
+
+    const note = await provider.createClinicalNote('pat-jane', {
+      title: 'SOAP note',
+      content: '  S: Cough for 3 days\nP: Rest and fluids  ',
+      noteType: 'soap',
+      consultationId: 'consultation-001',
+    });
+
+    expect(note).toMatchObject({
+      ehrNoteId: `DocumentReference/${note.id}`,
+      patientId: 'pat-jane',
+      clinicianId: 'user-amy',
+      content: 'S: Cough for 3 days\nP: Rest and fluids',
+      status: 'final',
+      consultationId: 'consultation-001',
+    });
+    expect(server.get<FhirDocumentReference>(note.ehrNoteId!)).toMatchObject({
+      author: [{ reference: 'Practitioner/prac-amy' }],
+      type: { coding: [{ system: 'http://loinc.org', code: '11506-3' }] },
+    });
+
+    const amended = await provider.updateClinicalNote(note.ehrNoteId!, { content: 'S: Cough for 4 days', status: 'amended' });
+    expect(amended).toMatchObject({ id: note.id, content: 'S: Cough for 4 days', status: 'amended', version: 2 });
+
+    await expect(provider.createClinicalNote('pat-jane', { content: '   ' })).rejects.toThrow('cannot be empty');
+  });
+
+  it('falls back to Compositions on servers that only take those', async () => {
+    await startServer({ capabilityStatement: compositionServer() });
+
+    const note = await provider.createClinicalNote('pat-tom', { title: 'Plan', content: 'BP <140/90 & review in 2 weeks' });
+
+    expect(note.ehrNoteId).toBe(`Composition/${note.id}`);
+    expect(server.get<FhirComposition>(note.ehrNoteId!)?.section?.[0]?.text?.div).toContain('BP &lt;140/90 &amp; review');
+    await expect(provider.updateClinicalNote(note.id, { title: 'Management plan' })).resolves.toMatchObject({
+      title: 'Management plan',
+      content: 'BP <140/90 & review in 2 weeks',
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * FHIR Fixture Server
+ *
+ * A local stand-in for a FHIR R4 server, backed by the JSON fixtures beside it.
+ * It answers over real HTTP on a random port, supporting just enough of the
+ * REST API for the FHIR EHR provider: the CapabilityStatement, reads, searches
+ * with paging and _include, creates, and updates that honour If-Match.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { FhirBundle, FhirCapabilityStatement, FhirResource } from '../../types';
+import capabilityStatementFixture from './capability-statement.json';
+import resourcesFixture from './resources.json';
+
+export interface FhirFixtureServerOptions {
+  capabilityStatement?: FhirCapabilityStatement;
+  resources?: FhirResource[];
+  accessToken?: string; // Requests without this bearer token are refused
+  pageSize?: number; // Largest page returned, whatever _count asks for
+}
+
+export interface RecordedFhirRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: IncomingMessage['headers'];
+  body?: FhirResource;
+}
+
+type ResourceRecord = FhirResource & Record<string, unknown>;
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+const references = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.flatMap(references);
+  if (value && typeof value === 'object') {
+    const { reference, ...rest } = value as { reference?: unknown };
+    return [...(typeof reference === 'string' ? [reference] : []), ...Object.values(rest).flatMap(references)];
+  }
+  return [];
+};
+
+// What each supported _include pulls in
+const INCLUDES: Record<string, (resource: ResourceRecord) => string[]> = {
+  'Appointment:patient': resource => references(resource.participant).filter(reference => reference.startsWith('Patient/')),
+  'Appointment:slot': resource => references(resource.slot),
+};
+
+function matchesDate(value: string | undefined, filter: string): boolean {
+  if (!value) return false;
+  const [, prefix = 'eq', date = ''] = /^(eq|ne|gt|lt|ge|le)?(.*)$/.exec(filter) ?? [];
+  const difference = new Date(value).getTime() - new Date(date).getTime();
+  switch (prefix) {
+    case 'gt': return difference > 0;
+    case 'lt': return difference < 0;
+    case 'ge': return difference >= 0;
+    case 'le': return difference <= 0;
+    case 'ne': return difference !== 0;
+    default: return difference === 0;
+  }
+}
+
+export class FhirFixtureServer {
+  readonly requests: RecordedFhirRequest[] = [];
+  private resources: Map<string, ResourceRecord>;
+  private capabilityStatement: FhirCapabilityStatement;
+  private server: Server | null = null;
+  private baseUrl = '';
+
+  constructor(private options: FhirFixtureServerOptions = {}) {
+    this.capabilityStatement = clone(options.capabilityStatement ?? (capabilityStatementFixture as FhirCapabilityStatement));
+    this.resources = new Map(
+      clone(options.resources ?? (resourcesFixture as FhirResource[])).map(resource => [
+        `${resource.resourceType}/${resource.id}`,
+        resource as ResourceRecord,
+      ])
+    );
+  }
+
+  /**
+   * Start listening on a free local port and return the server's base URL
+   */
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => {
+      void this.handle(request, response);
+    });
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}/fhir`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) => this.server?.close(error => (error ? reject(error) : resolve())) ?? resolve());
+    this.server = null;
+  }
+
+  get<T extends FhirResource>(reference: string): T | undefined {
+    return this.resources.get(reference) as T | undefined;
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+    const path = url.pathname.replace(/^\/fhir/, '');
+    const body = await this.readBody(request);
+    this.requests.push({ method: request.method ?? 'GET', path, query: url.searchParams, headers: request.headers, body });
+
+    if (this.options.accessToken && request.headers.authorization !== `Bearer ${this.options.accessToken}`) {
+      return this.outcome(response, 401, 'login', 'Missing or invalid access token');
+    }
+
+    const [, resourceType, id] = path.split('/');
+    if (path === '/metadata') {
+      return this.send(response, 200, this.capabilityStatement);
+    }
+    if (!resourceType) {
+      return this.outcome(response, 404, 'not-supported', 'Unknown endpoint');
+    }
+
+    switch (`${request.method} ${id ? 'instance' : 'type'}`) {
+      case 'GET type':
+        return this.send(response, 200, this.search(resourceType, url.searchParams));
+      case 'GET instance': {
+        const resource = this.resources.get(`${resourceType}/${id}`);
+        return resource
+          ? this.send(response, 200, resource)
+          : this.outcome(response, 404, 'not-found', `Resource ${resourceType}/${id} is not known`);
+      }
+      case 'POST type': {
+        if (body?.resourceType !== resourceType) {
+          return this.outcome(response, 400, 'invalid', `Expected a ${resourceType}`);
+        }
+        const created = this.save({ ...body, id: `${resourceType.toLowerCase()}-${this.resources.size + 1}` }, 1);
+        response.setHeader('Location', `${this.baseUrl}/${resourceType}/${created.id}/_history/1`);
+        return this.send(response, 201, created);
+      }
+      case 'PUT instance': {
+        const existing = this.resources.get(`${resourceType}/${id}`);
+        if (!existing) {
+          return this.outcome(response, 404, 'not-found', `Resource ${resourceType}/${id} is not known`);
+        }
+        const version = Number(existing.meta?.versionId ?? 1);
+        if (request.headers['if-match'] && request.headers['if-match'] !== `W/"${version}"`) {
+          return this.outcome(response, 412, 'conflict', `Version ${version} of ${resourceType}/${id} has been updated since`);
+        }
+        return this.send(response, 200, this.save({ ...body!, id }, version + 1));
+      }
+      default:
+        return this.outcome(response, 405, 'not-supported', `${request.method} is not supported here`);
+    }
+  }
+
+  private search(resourceType: string, params: URLSearchParams): FhirBundle {
+    let matches = [...this.resources.values()].filter(resource => resource.resourceType === resourceType);
+
+    for (const [name, value] of params) {
+      if (name === 'patient' || name === 'subject' || name === 'practitioner') {
+        matches = matches.filter(resource => references(resource).includes(value));
+      } else if (name === 'date') {
+        matches = matches.filter(resource => matchesDate((resource.start ?? resource.date) as string | undefined, value));
+      } else if (name === 'status') {
+        matches = matches.filter(resource => value.split(',').includes(resource.status as string));
+      }
+    }
+
+    const sort = params.get('_sort');
+    if (sort === '-date') {
+      matches.sort((a, b) => String(b.date).localeCompare(String(a.date)));
+    } else if (sort === '-_lastUpdated') {
+      matches.sort((a, b) => String(b.meta?.lastUpdated).localeCompare(String(a.meta?.lastUpdated)));
+    }
+
+    const offset = Number(params.get('_offset') ?? 0);
+    const count = Math.min(Number(params.get('_count') ?? 50), this.options.pageSize ?? 50);
+    const page = matches.slice(offset, offset + count);
+
+    const included = new Map<string, ResourceRecord>();
+    for (const include of params.getAll('_include')) {
+      for (const reference of page.flatMap(resource => INCLUDES[include]?.(resource) ?? [])) {
+        const target = this.resources.get(reference);
+        if (target) included.set(reference, target);
+      }
+    }
+
+    const next = new URLSearchParams(params);
+    next.set('_offset', String(offset + count));
+    return {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      total: matches.length,
+      link: [
+        { relation: 'self', url: `${this.baseUrl}/${resourceType}?${params.toString()}` },
+        ...(offset + count < matches.length ? [{ relation: 'next', url: `${this.baseUrl}/${resourceType}?${next.toString()}` }] : []),
+      ],
+      entry: [
+        ...page.map(resource => ({ resource, search: { mode: 'match' as const } })),
+        ...[...included.values()].map(resource => ({ resource, search: { mode: 'include' as const } })),
+      ],
+    };
+  }
+
+  private save(resource: FhirResource, version: number): ResourceRecord {
+    const saved = { ...resource, meta: { versionId: String(version), lastUpdated: new Date().toISOString() } } as ResourceRecord;
+    this.resources.set(`${saved.resourceType}/${saved.id}`, saved);
+    return saved;
+  }
+
+  private async readBody(request: IncomingMessage): Promise<FhirResource | undefined> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    return text ? (JSON.parse(text) as FhirResource) : undefined;
+  }
+
+  private send(response: ServerResponse, status: number, resource: FhirResource): void {
+    response.writeHead(status, { 'Content-Type': 'application/fhir+json' });
+    response.end(JSON.stringify(resource));
+  }
+
+  private outcome(response: ServerResponse, status: number, code: string, diagnostics: string): void {
+    this.send(response, status, {
+      resourceType: 'OperationOutcome',
+      issue: [{ severity: 'error', code, diagnostics }],
+    } as FhirResource);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * FHIR Capabilities
+ *
+ * Works out what a FHIR server lets us do from its CapabilityStatement, so the
+ * provider only reports, and only calls, what the server actually supports.
+ */
+
+import type { EHRProviderInfo } from '@/types/clinical';
+import type { FhirCapabilityStatement, FhirInteraction } from './types';
+
+export type FhirFeatures = EHRProviderInfo['supportedFeatures'] & {
+  slots: boolean;
+  flags: boolean;
+  noteResource: 'DocumentReference' | 'Composition' | null; // Where notes are written
+  noteSearch: boolean; // Whether earlier notes can be read back from there
+};
+
+export const NO_FHIR_FEATURES: FhirFeatures = {
+  appointments: false,
+  patientData: false,
+  clinicalNotes: false,
+  medications: false,
+  allergies: false,
+  billing: false,
+  slots: false,
+  flags: false,
+  noteResource: null,
+  noteSearch: false,
+};
+
+// Capability names reported through getProviderInfo, as the other providers name them
+const CAPABILITY_NAMES: [keyof FhirFeatures, string][] = [
+  ['appointments', 'appointments'],
+  ['slots', 'slots'],
+  ['patientData', 'patient-data'],
+  ['medications', 'medications'],
+  ['allergies', 'allergies'],
+  ['flags', 'alerts'],
+  ['clinicalNotes', 'clinical-notes'],
+];
+
+/**
+ * Whether the server's FHIR version is R4 (4.0.x)
+ */
+export const isFhirR4 = (statement: FhirCapabilityStatement) => /^4\.0(\.|$)/.test(statement.fhirVersion);
+
+export function getFhirFeatures(statement: FhirCapabilityStatement): FhirFeatures {
+  const resources = statement.rest?.find(rest => rest.mode === 'server')?.resource ?? [];
+  const supports = (type: string, ...interactions: FhirInteraction[]) => {
+    const resource = resources.find(candidate => candidate.type === type);
+    return interactions.every(code => resource?.interaction?.some(interaction => interaction.code === code) ?? false);
+  };
+
+  const noteResource = supports('DocumentReference', 'create')
+    ? 'DocumentReference'
+    : supports('Composition', 'create')
+      ? 'Composition'
+      : null;
+
+  return {
+    appointments: supports('Appointment', 'search-type', 'read'),
+    patientData: supports('Patient', 'search-type', 'read'),
+    clinicalNotes: noteResource !== null,
+    medications: supports('MedicationStatement', 'search-type'),
+    allergies: supports('AllergyIntolerance', 'search-type'),
+    billing: false, // Claims are exported from the billing page, not sent through the EHR
+    slots: supports('Slot', 'read'),
+    flags: supports('Flag', 'search-type'),
+    noteResource,
+    noteSearch: noteResource !== null && supports(noteResource, 'search-type'),
+  };
+}
+
+export function getFhirCapabilityNames(features: FhirFeatures): string[] {
+  return CAPABILITY_NAMES.filter(([feature]) => features[feature]).map(([, name]) => name);
+}
@@ -0,0 +1,396 @@
+/**
+ * FHIR Mappers
+ *
+ * Converts between FHIR R4 resources and Aria Scribe's clinical types. FHIR
+ * ids are used as our ids, so anything read can be written back to the same
+ * resource.
+ */
+
+import { differenceInMinutes, differenceInYears } from 'date-fns';
+import type {
+  Allergy,
+  Appointment,
+  AppointmentStatus,
+  ClinicalAlert,
+  ClinicalNote,
+  Medication,
+  PatientSummary,
+} from '@/types/clinical';
+import { referencedId } from './FhirClient';
+import type {
+  FhirAllergyIntolerance,
+  FhirAnnotation,
+  FhirAppointment,
+  FhirAppointmentStatus,
+  FhirCodeableConcept,
+  FhirComposition,
+  FhirDocumentReference,
+  FhirFlag,
+  FhirMedicationStatement,
+  FhirPatient,
+  FhirSlot,
+} from './types';
+
+export const MEDICARE_NUMBER_SYSTEM = 'http://ns.electronichealth.net.au/id/medicare-number';
+const LOINC_SYSTEM = 'http://loinc.org';
+const FLAG_PRIORITY_EXTENSION = 'http://hl7.org/fhir/StructureDefinition/flag-priority';
+const DEFAULT_APPOINTMENT_MINUTES = 15;
+
+export const conceptText = (concept?: FhirCodeableConcept) =>
+  concept?.text ?? concept?.coding?.find(coding => coding.display)?.display ?? concept?.coding?.[0]?.code;
+
+const toDate = (value?: string) => (value ? new Date(value) : undefined);
+
+const annotationText = (notes?: FhirAnnotation[]) => (notes?.length ? notes.map(note => note.text).join('\n') : undefined);
+
+// Birth dates are calendar days, kept as local midnight like the rest of the app
+const toBirthDate = (value?: string) =>
+  value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : (toDate(value) ?? null);
+
+// ============================================================================
+// PATIENTS
+// ============================================================================
+
+const GENDERS: Record<NonNullable<FhirPatient['gender']>, PatientSummary['gender']> = {
+  male: 'M',
+  female: 'F',
+  other: 'Other',
+  unknown: 'Unknown',
+};
+
+export function patientName(patient: FhirPatient): { firstName: string; lastName: string } {
+  const name = patient.name?.find(candidate => candidate.use === 'official')
+    ?? patient.name?.find(candidate => candidate.use === 'usual')
+    ?? patient.name?.[0];
+
+  if (!name?.family && !name?.given?.length && name?.text) {
+    const [firstName = '', ...rest] = name.text.split(' ');
+    return { firstName, lastName: rest.join(' ') };
+  }
+  return { firstName: name?.given?.join(' ') ?? '', lastName: name?.family ?? '' };
+}
+
+export function toPatientSummary(patient: FhirPatient): PatientSummary {
+  const dateOfBirth = toBirthDate(patient.birthDate);
+  // The last digit of an 11-digit Medicare number is the patient's reference number on the card
+  const medicare = patient.identifier?.find(identifier => identifier.system === MEDICARE_NUMBER_SYSTEM)?.value?.replace(/\s/g, '');
+
+  return {
+    id: patient.id!,
+    ehrPatientId: patient.id!,
+    ehrSystem: 'fhir',
+    ...patientName(patient),
+    dateOfBirth,
+    age: dateOfBirth ? differenceInYears(new Date(), dateOfBirth) : 0,
+    gender: patient.gender ? GENDERS[patient.gender] : 'Unknown',
+    phone: patient.telecom?.find(contact => contact.system === 'phone')?.value,
+    email: patient.telecom?.find(contact => contact.system === 'email')?.value,
+    medicareNumber: medicare?.slice(0, 10),
+    medicareIrn: medicare && medicare.length > 10 ? Number(medicare.slice(10, 11)) : undefined,
+    lastSyncedAt: new Date(),
+  };
+}
+
+// ============================================================================
+// APPOINTMENTS
+// ============================================================================
+
+const APPOINTMENT_STATUSES: Record<FhirAppointmentStatus, AppointmentStatus> = {
+  proposed: 'scheduled',
+  pending: 'scheduled',
+  booked: 'scheduled',
+  waitlist: 'scheduled',
+  arrived: 'waiting',
+  'checked-in': 'waiting',
+  fulfilled: 'completed',
+  cancelled: 'cancelled',
+  'entered-in-error': 'cancelled',
+  noshow: 'no-show',
+};
+
+// FHIR has no status for a patient being seen; that is tracked on the Encounter,
+// so consultations in progress leave the appointment arrived
+const FHIR_APPOINTMENT_STATUSES: Record<AppointmentStatus, FhirAppointmentStatus> = {
+  scheduled: 'booked',
+  waiting: 'arrived',
+  'in-progress': 'arrived',
+  recording: 'arrived',
+  processing: 'arrived',
+  completed: 'fulfilled',
+  cancelled: 'cancelled',
+  'no-show': 'noshow',
+};
+
+export const toFhirAppointmentStatus = (status: AppointmentStatus) => FHIR_APPOINTMENT_STATUSES[status];
+
+export const appointmentParticipantId = (appointment: FhirAppointment, resourceType: string) =>
+  appointment.participant
+    .map(participant => referencedId(participant.actor?.reference, resourceType))
+    .find(id => id !== undefined);
+
+export function toAppointment(
+  appointment: FhirAppointment,
+  related: { clinicianId: string; patient?: FhirPatient; slot?: FhirSlot }
+): Appointment {
+  const { patient, slot } = related;
+  const start = toDate(appointment.start ?? slot?.start);
+  const end = toDate(appointment.end ?? slot?.end);
+  const summary = patient ? toPatientSummary(patient) : undefined;
+  const patientParticipant = appointment.participant.find(participant =>
+    referencedId(participant.actor?.reference, 'Patient')
+  );
+  const created = toDate(appointment.created) ?? toDate(appointment.meta?.lastUpdated) ?? new Date();
+
+  return {
+    id: appointment.id!,
+    ehrAppointmentId: appointment.id,
+    patientId: appointmentParticipantId(appointment, 'Patient') ?? '',
+    clinicianId: related.clinicianId,
+    scheduledTime: start ?? created,
+    duration: appointment.minutesDuration ?? (start && end ? differenceInMinutes(end, start) : DEFAULT_APPOINTMENT_MINUTES),
+    appointmentType: conceptText(appointment.appointmentType) ?? conceptText(appointment.serviceType?.[0]) ?? appointment.description ?? 'Consultation',
+    status: APPOINTMENT_STATUSES[appointment.status],
+    notes: appointment.comment,
+    location: appointment.participant.find(participant => referencedId(participant.actor?.reference, 'Location'))?.actor?.display,
+    patientName: summary ? `${summary.firstName} ${summary.lastName}`.trim() : (patientParticipant?.actor?.display ?? 'Unknown patient'),
+    patientAge: summary?.age ?? 0,
+    patientGender: summary?.gender ?? 'Unknown',
+    patientEmail: summary?.email ?? '',
+    createdAt: created,
+    updatedAt: toDate(appointment.meta?.lastUpdated) ?? created,
+  };
+}
+
+// ============================================================================
+// PATIENT CONTEXT
+// ============================================================================
+
+const PERIOD_UNITS: Record<string, string> = { h: 'hour', d: 'day', wk: 'week', mo: 'month' };
+
+function dosageFrequency(statement: FhirMedicationStatement): string {
+  const dosage = statement.dosage?.[0];
+  const timing = dosage?.timing;
+  const timingText = conceptText(timing?.code);
+  if (timingText) {
+    return timingText;
+  }
+
+  const { frequency, period, periodUnit = 'd' } = timing?.repeat ?? {};
+  if (frequency && period) {
+    const unit = PERIOD_UNITS[periodUnit] ?? periodUnit;
+    return period === 1 ? `${frequency} times a ${unit}` : `${frequency} times every ${period} ${unit}s`;
+  }
+  return dosage?.asNeededBoolean ? 'as needed' : '';
+}
+
+export function toMedication(statement: FhirMedicationStatement): Medication {
+  const dosage = statement.dosage?.[0];
+  const dose = dosage?.doseAndRate?.[0]?.doseQuantity;
+
+  return {
+    id: statement.id!,
+    name: conceptText(statement.medicationCodeableConcept) ?? statement.medicationReference?.display ?? 'Unknown medication',
+    dosage: dose?.value !== undefined ? `${dose.value}${dose.unit ?? ''}` : (dosage?.text ?? ''),
+    frequency: dosageFrequency(statement),
+    route: conceptText(dosage?.route) ?? '',
+    startDate: toDate(statement.effectivePeriod?.start ?? statement.effectiveDateTime ?? statement.dateAsserted) ?? new Date(0),
+    endDate: toDate(statement.effectivePeriod?.end),
+    prescribedBy: statement.informationSource?.display ?? '',
+    active: statement.status === 'active',
+    notes: annotationText(statement.note),
+  };
+}
+
+const ALLERGEN_TYPES: Record<NonNullable<FhirAllergyIntolerance['category']>[number], Allergy['allergenType']> = {
+  medication: 'drug',
+  food: 'food',
+  environment: 'environmental',
+  biologic: 'other',
+};
+
+/**
+ * Allergies that are still current; resolved, refuted and mistaken entries are left out
+ */
+export const isCurrentAllergy = (allergy: FhirAllergyIntolerance) =>
+  !['inactive', 'resolved'].includes(allergy.clinicalStatus?.coding?.[0]?.code ?? 'active')
+  && !['refuted', 'entered-in-error'].includes(allergy.verificationStatus?.coding?.[0]?.code ?? 'confirmed');
+
+export function toAllergy(allergy: FhirAllergyIntolerance): Allergy {
+  const reaction = allergy.reaction?.[0];
+  const severity = reaction?.severity ?? (allergy.criticality === 'high' ? 'severe' : 'moderate');
+  const manifestations = reaction?.manifestation.map(conceptText).filter(Boolean) ?? [];
+
+  return {
+    id: allergy.id!,
+    allergen: conceptText(allergy.code) ?? 'Unknown allergen',
+    allergenType: allergy.category?.[0] ? ALLERGEN_TYPES[allergy.category[0]] : 'other',
+    reaction: manifestations.length ? manifestations.join(', ') : (reaction?.description ?? ''),
+    // High criticality with a severe reaction is what we show as life-threatening
+    severity: severity === 'severe' && allergy.criticality === 'high' ? 'life-threatening' : severity,
+    onsetDate: toDate(allergy.onsetDateTime),
+    verifiedDate: toDate(allergy.recordedDate ?? allergy.meta?.lastUpdated) ?? new Date(0),
+    notes: annotationText(allergy.note),
+  };
+}
+
+const ALERT_TYPES: Record<string, ClinicalAlert['type']> = {
+  drug: 'drug-interaction',
+  clinical: 'chronic-condition',
+  safety: 'safety',
+  behavioral: 'safety',
+};
+
+const ALERT_SEVERITIES: Record<string, ClinicalAlert['severity']> = {
+  PH: 'critical',
+  PM: 'warning',
+  PL: 'info',
+  PN: 'info',
+};
+
+export function toClinicalAlert(flag: FhirFlag): ClinicalAlert {
+  const category = flag.category?.[0]?.coding?.[0]?.code;
+  const priority = flag.extension?.find(extension => extension.url === FLAG_PRIORITY_EXTENSION)?.valueCodeableConcept?.coding?.[0]?.code;
+  const title = conceptText(flag.code) ?? 'Clinical alert';
+
+  return {
+    id: flag.id!,
+    type: ALERT_TYPES[category ?? ''] ?? 'other',
+    severity: ALERT_SEVERITIES[priority ?? ''] ?? 'warning',
+    title,
+    description: flag.code.coding?.find(coding => coding.display && coding.display !== title)?.display ?? title,
+    dismissible: false,
+  };
+}
+
+// ============================================================================
+// CLINICAL NOTES
+// ============================================================================
+
+const NOTE_TYPE_CODES: Record<ClinicalNote['noteType'], { code: string; display: string }> = {
+  progress: { code: '11506-3', display: 'Progress note' },
+  soap: { code: '11506-3', display: 'Progress note' },
+  other: { code: '11506-3', display: 'Progress note' },
+  assessment: { code: '51847-2', display: 'Evaluation + Plan note' },
+  plan: { code: '51847-2', display: 'Evaluation + Plan note' },
+  referral: { code: '57133-1', display: 'Referral note' },
+};
+
+const NOTE_TYPES_BY_CODE: Record<string, ClinicalNote['noteType']> = {
+  '11506-3': 'progress',
+  '51847-2': 'assessment',
+  '57133-1': 'referral',
+};
+
+type FhirNoteStatus = 'preliminary' | 'final' | 'amended';
+
+const FHIR_NOTE_STATUSES: Record<ClinicalNote['status'], FhirNoteStatus> = {
+  draft: 'preliminary',
+  'pending-review': 'preliminary',
+  final: 'final',
+  signed: 'final',
+  amended: 'amended',
+};
+
+const NOTE_STATUSES: Record<string, ClinicalNote['status']> = {
+  preliminary: 'draft',
+  final: 'final',
+  amended: 'amended',
+};
+
+export type FhirNoteResource = FhirDocumentReference | FhirComposition;
+
+export interface FhirNoteContent {
+  patientId: string;
+  authorReference: string; // e.g. 'Practitioner/123'
+  title: string;
+  content: string;
+  noteType: ClinicalNote['noteType'];
+  status: ClinicalNote['status'];
+}
+
+const escapeXhtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const unescapeXhtml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+
+function noteTypeConcept(noteType: ClinicalNote['noteType']): FhirCodeableConcept {
+  return { coding: [{ system: LOINC_SYSTEM, ...NOTE_TYPE_CODES[noteType] }] };
+}
+
+/**
+ * The note as a DocumentReference with its text as a plain text attachment
+ */
+export function toDocumentReference(note: FhirNoteContent, existing?: FhirDocumentReference): FhirDocumentReference {
+  return {
+    ...existing,
+    resourceType: 'DocumentReference',
+    status: 'current',
+    docStatus: FHIR_NOTE_STATUSES[note.status],
+    type: noteTypeConcept(note.noteType),
+    subject: { reference: `Patient/${note.patientId}` },
+    date: existing?.date ?? new Date().toISOString(),
+    author: [{ reference: note.authorReference }],
+    description: note.title,
+    content: [{
+      attachment: {
+        contentType: 'text/plain; charset=utf-8',
+        data: Buffer.from(note.content, 'utf8').toString('base64'),
+        title: note.title,
+      },
+    }],
+  };
+}
+
+/**
+ * The note as a Composition with its text, line by line, as the narrative of one section
+ */
+export function toComposition(note: FhirNoteContent, existing?: FhirComposition): FhirComposition {
+  const lines = note.content.split('\n').map(escapeXhtml).join('<br/>');
+
+  return {
+    ...existing,
+    resourceType: 'Composition',
+    status: FHIR_NOTE_STATUSES[note.status],
+    type: noteTypeConcept(note.noteType),
+    subject: { reference: `Patient/${note.patientId}` },
+    date: existing?.date ?? new Date().toISOString(),
+    author: [{ reference: note.authorReference }],
+    title: note.title,
+    section: [{
+      title: note.title,
+      text: { status: 'generated', div: `<div xmlns="http://www.w3.org/1999/xhtml">${lines}</div>` },
+    }],
+  };
+}
+
+function noteContent(resource: FhirNoteResource): string {
+  if (resource.resourceType === 'DocumentReference') {
+    const attachment = resource.content.find(content => content.attachment.data)?.attachment;
+    return attachment?.data ? Buffer.from(attachment.data, 'base64').toString('utf8') : '';
+  }
+
+  return (resource.section ?? [])
+    .map(section => unescapeXhtml((section.text?.div ?? '').replace(/<br\s*\/?>/g, '\n').replace(/<[^>]+>/g, '')))
+    .join('\n\n');
+}
+
+export function toClinicalNote(resource: FhirNoteResource, clinicianId: (authorReference?: string) => string): ClinicalNote {
+  const status = resource.resourceType === 'DocumentReference' ? resource.docStatus : resource.status;
+  const typeCode = resource.type?.coding?.find(coding => coding.system === LOINC_SYSTEM)?.code;
+  const date = toDate(resource.date) ?? toDate(resource.meta?.lastUpdated) ?? new Date();
+
+  return {
+    id: resource.id!,
+    ehrNoteId: `${resource.resourceType}/${resource.id}`,
+    patientId: referencedId(resource.subject?.reference, 'Patient') ?? '',
+    clinicianId: clinicianId(resource.author?.[0]?.reference),
+    title: (resource.resourceType === 'DocumentReference' ? resource.description : resource.title) ?? 'Clinical Note',
+    content: noteContent(resource),
+    noteType: NOTE_TYPES_BY_CODE[typeCode ?? ''] ?? 'other',
+    status: NOTE_STATUSES[status ?? ''] ?? 'draft',
+    createdAt: date,
+    updatedAt: toDate(resource.meta?.lastUpdated) ?? date,
+    version: resource.meta?.versionId ? Number(resource.meta.versionId) || undefined : undefined,
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * SMART Scopes
+ *
+ * The SMART on FHIR scopes the provider needs for what a server supports, and
+ * which of them an authorization is missing. Both SMART v1 scopes
+ * (user/Appointment.read) and v2 scopes (user/Appointment.rs) are understood.
+ */
+
+import type { FhirFeatures } from './capabilities';
+
+// SMART v2 permissions: create, read, update, delete, search
+type Permission = 'c' | 'r' | 'u' | 'd' | 's';
+
+const READ: Permission[] = ['r', 's'];
+const WRITE: Permission[] = ['c', 'u', 'd'];
+
+// Scopes asked for when a clinic hasn't chosen its own: the clinician's identity,
+// a refresh token, and everything the provider can use
+export const DEFAULT_SMART_SCOPES = [
+  'openid',
+  'fhirUser',
+  'offline_access',
+  'user/Appointment.read',
+  'user/Appointment.write',
+  'user/Slot.read',
+  'user/Patient.read',
+  'user/MedicationStatement.read',
+  'user/AllergyIntolerance.read',
+  'user/Flag.read',
+  'user/DocumentReference.read',
+  'user/DocumentReference.write',
+];
+
+/**
+ * What the provider does with each resource the server supports
+ */
+function requiredPermissions(features: FhirFeatures): Map<string, Permission[]> {
+  const required = new Map<string, Permission[]>();
+  if (features.appointments) required.set('Appointment', ['r', 's', 'u']);
+  if (features.slots) required.set('Slot', ['r']);
+  if (features.patientData) required.set('Patient', READ);
+  if (features.medications) required.set('MedicationStatement', READ);
+  if (features.allergies) required.set('AllergyIntolerance', READ);
+  if (features.flags) required.set('Flag', READ);
+  if (features.noteResource) {
+    required.set(features.noteResource, features.noteSearch ? ['c', 'r', 'u', 's'] : ['c', 'r', 'u']);
+  }
+  return required;
+}
+
+/**
+ * Permissions a granted scope gives on a resource type. Patient-level scopes
+ * only reach the patient in context, so they don't count for a clinician's day.
+ */
+function grantedPermissions(scope: string, resourceType: string): Permission[] {
+  const match = /^(user|system)\/(\*|[A-Za-z]+)\.(\*|read|write|c?r?u?d?s?)$/.exec(scope);
+  if (!match || (match[2] !== '*' && match[2] !== resourceType)) {
+    return [];
+  }
+
+  switch (match[3]) {
+    case '*': return [...READ, ...WRITE];
+    case 'read': return READ;
+    case 'write': return WRITE;
+    default: return [...match[3]!] as Permission[];
+  }
+}
+
+/**
+ * SMART v1 scopes, as servers usually list them, for what the granted scopes
+ * don't cover; empty when the authorization covers everything the server supports
+ */
+export function getMissingSmartScopes(grantedScopes: string[], features: FhirFeatures): string[] {
+  const missing: string[] = [];
+
+  for (const [resourceType, permissions] of requiredPermissions(features)) {
+    const granted = new Set(grantedScopes.flatMap(scope => grantedPermissions(scope, resourceType)));
+    const lacking = permissions.filter(permission => !granted.has(permission));
+
+    if (lacking.some(permission => READ.includes(permission))) missing.push(`user/${resourceType}.read`);
+    if (lacking.some(permission => WRITE.includes(permission))) missing.push(`user/${resourceType}.write`);
+  }
+  return missing;
+}
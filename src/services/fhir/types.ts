@@ -0,0 +1,269 @@
+/**
+ * FHIR R4 Resource Types
+ *
+ * The parts of the FHIR R4 resources the FHIR EHR provider reads and writes.
+ * Only the elements we use are declared; servers may send far more.
+ * See https://hl7.org/fhir/R4/resourcelist.html
+ */
+
+// ============================================================================
+// DATA TYPES
+// ============================================================================
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference?: string; // e.g. 'Patient/123'
+  display?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirIdentifier {
+  system?: string;
+  value?: string;
+  type?: FhirCodeableConcept;
+}
+
+export interface FhirHumanName {
+  use?: 'usual' | 'official' | 'temp' | 'nickname' | 'anonymous' | 'old' | 'maiden';
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+export interface FhirContactPoint {
+  system?: 'phone' | 'fax' | 'email' | 'pager' | 'url' | 'sms' | 'other';
+  value?: string;
+  use?: string;
+}
+
+export interface FhirAnnotation {
+  text: string;
+  time?: string;
+}
+
+export interface FhirAttachment {
+  contentType?: string;
+  data?: string; // base64
+  url?: string;
+  title?: string;
+  creation?: string;
+}
+
+export interface FhirExtension {
+  url: string;
+  valueCodeableConcept?: FhirCodeableConcept;
+  valueString?: string;
+  valueCode?: string;
+  valueUri?: string;
+  extension?: FhirExtension[];
+}
+
+export interface FhirMeta {
+  versionId?: string;
+  lastUpdated?: string;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  meta?: FhirMeta;
+  extension?: FhirExtension[];
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+export type FhirAppointmentStatus =
+  | 'proposed'
+  | 'pending'
+  | 'booked'
+  | 'arrived'
+  | 'fulfilled'
+  | 'cancelled'
+  | 'noshow'
+  | 'entered-in-error'
+  | 'checked-in'
+  | 'waitlist';
+
+export interface FhirAppointment extends FhirResource {
+  resourceType: 'Appointment';
+  status: FhirAppointmentStatus;
+  appointmentType?: FhirCodeableConcept;
+  serviceType?: FhirCodeableConcept[];
+  description?: string;
+  start?: string;
+  end?: string;
+  minutesDuration?: number;
+  slot?: FhirReference[];
+  created?: string;
+  comment?: string;
+  participant: {
+    actor?: FhirReference;
+    status: 'accepted' | 'declined' | 'tentative' | 'needs-action';
+  }[];
+}
+
+export interface FhirSlot extends FhirResource {
+  resourceType: 'Slot';
+  status: 'busy' | 'free' | 'busy-unavailable' | 'busy-tentative' | 'entered-in-error';
+  start: string;
+  end: string;
+}
+
+// ============================================================================
+// PATIENT DATA
+// ============================================================================
+
+export interface FhirPatient extends FhirResource {
+  resourceType: 'Patient';
+  identifier?: FhirIdentifier[];
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+}
+
+export interface FhirDosage {
+  text?: string;
+  timing?: {
+    code?: FhirCodeableConcept;
+    repeat?: { frequency?: number; period?: number; periodUnit?: string };
+  };
+  asNeededBoolean?: boolean;
+  route?: FhirCodeableConcept;
+  doseAndRate?: { doseQuantity?: { value?: number; unit?: string } }[];
+}
+
+export interface FhirMedicationStatement extends FhirResource {
+  resourceType: 'MedicationStatement';
+  status: 'active' | 'completed' | 'entered-in-error' | 'intended' | 'stopped' | 'on-hold' | 'unknown' | 'not-taken';
+  medicationCodeableConcept?: FhirCodeableConcept;
+  medicationReference?: FhirReference;
+  subject: FhirReference;
+  effectiveDateTime?: string;
+  effectivePeriod?: FhirPeriod;
+  dateAsserted?: string;
+  informationSource?: FhirReference;
+  note?: FhirAnnotation[];
+  dosage?: FhirDosage[];
+}
+
+export interface FhirAllergyIntolerance extends FhirResource {
+  resourceType: 'AllergyIntolerance';
+  clinicalStatus?: FhirCodeableConcept;
+  verificationStatus?: FhirCodeableConcept;
+  category?: ('food' | 'medication' | 'environment' | 'biologic')[];
+  criticality?: 'low' | 'high' | 'unable-to-assess';
+  code?: FhirCodeableConcept;
+  patient: FhirReference;
+  onsetDateTime?: string;
+  recordedDate?: string;
+  note?: FhirAnnotation[];
+  reaction?: {
+    manifestation: FhirCodeableConcept[];
+    description?: string;
+    severity?: 'mild' | 'moderate' | 'severe';
+  }[];
+}
+
+export interface FhirFlag extends FhirResource {
+  resourceType: 'Flag';
+  status: 'active' | 'inactive' | 'entered-in-error';
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  period?: FhirPeriod;
+}
+
+// ============================================================================
+// CLINICAL DOCUMENTS
+// ============================================================================
+
+export interface FhirDocumentReference extends FhirResource {
+  resourceType: 'DocumentReference';
+  status: 'current' | 'superseded' | 'entered-in-error';
+  docStatus?: 'preliminary' | 'final' | 'amended' | 'entered-in-error';
+  type?: FhirCodeableConcept;
+  subject?: FhirReference;
+  date?: string;
+  author?: FhirReference[];
+  description?: string;
+  content: { attachment: FhirAttachment }[];
+  context?: { related?: FhirReference[] };
+}
+
+export interface FhirComposition extends FhirResource {
+  resourceType: 'Composition';
+  status: 'preliminary' | 'final' | 'amended' | 'entered-in-error';
+  type: FhirCodeableConcept;
+  subject?: FhirReference;
+  date: string;
+  author: FhirReference[];
+  title: string;
+  section?: {
+    title?: string;
+    text?: { status: 'generated' | 'extensions' | 'additional' | 'empty'; div: string };
+  }[];
+}
+
+// ============================================================================
+// SERVER INTERACTIONS
+// ============================================================================
+
+export interface FhirBundle<T extends FhirResource = FhirResource> extends FhirResource {
+  resourceType: 'Bundle';
+  type: string;
+  total?: number;
+  link?: { relation: string; url: string }[];
+  entry?: {
+    fullUrl?: string;
+    resource?: T;
+    search?: { mode?: 'match' | 'include' | 'outcome' };
+  }[];
+}
+
+export interface FhirOperationOutcome extends FhirResource {
+  resourceType: 'OperationOutcome';
+  issue: {
+    severity: 'fatal' | 'error' | 'warning' | 'information';
+    code: string;
+    diagnostics?: string;
+    details?: FhirCodeableConcept;
+  }[];
+}
+
+export type FhirInteraction = 'read' | 'vread' | 'update' | 'patch' | 'delete' | 'history-instance' | 'history-type' | 'create' | 'search-type';
+
+export interface FhirCapabilityStatement extends FhirResource {
+  resourceType: 'CapabilityStatement';
+  status: string;
+  name?: string;
+  fhirVersion: string;
+  software?: { name: string; version?: string };
+  implementation?: { description: string; url?: string };
+  rest?: {
+    mode: 'server' | 'client';
+    security?: { service?: FhirCodeableConcept[]; extension?: FhirExtension[] }; // SMART's oauth-uris extension
+    resource?: {
+      type: string;
+      interaction?: { code: FhirInteraction }[];
+      searchParam?: { name: string; type: string }[];
+      searchInclude?: string[];
+    }[];
+  }[];
+}
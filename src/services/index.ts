@@ -6,10 +6,21 @@
  * It replaces the getMockEHRService() calls throughout the application.
  */
 
-import type { EHRProvider } from '@/types/clinical';
+import type { EHRProvider, PatientContext } from '@/types/clinical';
 import { StandaloneClinicService, createStandaloneClinicService, isStandaloneMode } from './StandaloneClinicService';
 import { getMockEHRService } from './mock/MockEHRService';
-import { getTenantConfig } from '@/server/datastore';
+import { createFhirEHRProvider } from './fhir/FhirEHRProvider';
+import {
+  getDataStore,
+  getEhrIntegratedTenantIds,
+  getTenantConfig,
+  getTenantMembers,
+  resolveActiveMembership,
+  EhrConnectionNotFoundError,
+  type DataStore,
+} from '@/server/datastore';
+import { getEhrConnectionService, getPatientContextCache, hasSmartSettings } from '@/server/services/ehr';
+import { serverEnv } from '@/env';
 
 // ============================================================================
 // MAIN EHR SERVICE FACTORY
@@ -18,13 +29,22 @@ import { getTenantConfig } from '@/server/datastore';
 /**
  * Get the appropriate EHR service based on tenant configuration
  * This is the main entry point that replaces getMockEHRService()
+ *
+ * The mock service stands in for a missing tenant or EHR connection in
+ * development only; elsewhere those are errors, so fake patients are never
+ * shown as a clinic's own.
+ * @throws {EhrConnectionNotFoundError} if an EHR-integrated tenant has no EHR set up
  */
 export async function getEHRService(
   tenantId?: string,
   clinicianId?: string
 ): Promise<EHRProvider> {
-  // If no tenant ID provided, fall back to mock service for development
+  const useMock = process.env.NODE_ENV === 'development';
+
   if (!tenantId) {
+    if (!useMock) {
+      throw new Error('No clinic selected for the EHR service');
+    }
     console.warn('No tenant ID provided, falling back to mock EHR service');
     return getMockEHRService();
   }
@@ -33,18 +53,61 @@ export async function getEHRService(
     // Check if tenant is in standalone mode
     if (await isStandaloneMode(tenantId)) {
       return createStandaloneClinicService(tenantId, clinicianId);
-    } else {
-      // For EHR-integrated mode (Phase 2B), fall back to mock for now
-      console.log(`Tenant ${tenantId} is in EHR-integrated mode, using mock service for now`);
-      return getMockEHRService();
     }
+
+    const provider = await getEHRIntegratedService(tenantId, clinicianId);
+    if (provider) {
+      return provider;
+    }
+    if (!useMock) {
+      throw new EhrConnectionNotFoundError(tenantId);
+    }
+
+    console.log(`Tenant ${tenantId} is in EHR-integrated mode without an EHR connection, using mock service in development`);
+    return getMockEHRService();
   } catch (error) {
     console.error(`Failed to get EHR service for tenant ${tenantId}:`, error);
-    // Fall back to mock service on error
+    if (!useMock) {
+      throw error;
+    }
     return getMockEHRService();
   }
 }
 
+/**
+ * The provider for an EHR-integrated tenant: FHIR over its own SMART connection
+ * when it has one, otherwise its own bridge agent for Best Practice and
+ * MedicalDirector, otherwise (in development only) the FHIR server in
+ * FHIR_BASE_URL. Null when none of them is set up.
+ */
+export async function getEHRIntegratedService(tenantId: string, clinicianId?: string): Promise<EHRProvider | null> {
+  const tenantConfig = await getTenantConfig(tenantId);
+  const dataStore = tenantConfig ? await getDataStore(tenantConfig) : null;
+  const connection = await dataStore?.getEhrConnection();
+
+  if (dataStore && connection && hasSmartSettings(connection)) {
+    const provider = getEhrConnectionService().createProvider(dataStore, connection, clinicianId);
+    await provider.loadCapabilities();
+    return provider;
+  }
+
+  if (connection?.bridge) {
+    return getEhrConnectionService().createBridgeProvider(connection.bridge, clinicianId);
+  }
+
+  // A shared FHIR server is for local development only - in production each
+  // tenant's patients must come from its own connection, never another clinic's
+  if (serverEnv.FHIR_BASE_URL && process.env.NODE_ENV === 'development') {
+    const accessToken = serverEnv.FHIR_ACCESS_TOKEN ?? null;
+    return createFhirEHRProvider(
+      { baseUrl: serverEnv.FHIR_BASE_URL, getAccessToken: async () => accessToken },
+      clinicianId
+    );
+  }
+
+  return null;
+}
+
 /**
  * Get EHR service synchronously (for cases where tenant mode is already known)
  * Use this when you've already determined the tenant is in standalone mode
@@ -63,28 +126,84 @@ export function getMockEHRServiceInstance(): EHRProvider {
   return getMockEHRService();
 }
 
+// ============================================================================
+// PATIENT CONTEXT CACHE
+// ============================================================================
+
+/**
+ * A patient's context for an EHR-integrated tenant, from the patient context
+ * cache: the last context read from the EHR, refreshed in the background once
+ * stale. Falls back to the tenant's own records when it has no EHR set up.
+ */
+export async function getEHRPatientContext(
+  tenantId: string,
+  dataStore: DataStore,
+  patientId: string,
+  clinicianId?: string
+): Promise<PatientContext> {
+  const patient = await dataStore.getPatientSummary(patientId);
+  const context = await getPatientContextCache().getPatientContext(
+    { tenantId, dataStore, getProvider: () => getEHRIntegratedService(tenantId, clinicianId) },
+    patient.ehrPatientId
+  );
+  if (!context) {
+    return dataStore.getPatientContext(patientId);
+  }
+
+  // The EHR knows the patient by its own ID
+  return { ...context, summary: { ...context.summary, id: patient.id } };
+}
+
+/**
+ * Read the context of every EHR-integrated tenant's patients booked in for the
+ * day before clinics open, so clinicians aren't kept waiting on the EHR
+ */
+export async function prewarmPatientContexts(date = new Date()): Promise<void> {
+  for (const tenantId of await getEhrIntegratedTenantIds()) {
+    try {
+      const tenantConfig = await getTenantConfig(tenantId);
+      if (!tenantConfig) {
+        continue;
+      }
+
+      const clinicianIds = (await getTenantMembers(tenantId))
+        .filter(member => member.role === 'clinician' || member.role === 'owner')
+        .map(member => member.userId);
+      const result = await getPatientContextCache().prewarm(
+        { tenantId, dataStore: await getDataStore(tenantConfig), getProvider: () => getEHRIntegratedService(tenantId) },
+        clinicianIds,
+        date
+      );
+      console.log(`🩺 Pre-warmed patient context for tenant ${tenantId}: ${result.refreshed} of ${result.patients} patients read, ${result.failed} failed`);
+    } catch (error) {
+      console.error(`❌ Failed to pre-warm patient context for tenant ${tenantId}:`, error);
+    }
+  }
+}
+
 // ============================================================================
 // TENANT CONTEXT HELPERS
 // ============================================================================
 
 /**
- * Get the current tenant ID from various sources (session, JWT, etc.)
- * This is a placeholder - implement based on your authentication system
+ * Get the clinic the signed-in user is working in
+ * Uses the session's active tenant, falling back to the user's first clinic
  */
 export async function getCurrentTenantId(): Promise<string | null> {
-  // TODO: Implement based on your authentication/session system
-  // This could read from:
-  // - JWT claims
-  // - Session storage
-  // - Request headers
-  // - Database lookup based on user ID
-  
-  // For now, return a default tenant for development
-  if (process.env.NODE_ENV === 'development') {
-    return 'dev-tenant-001';
+  try {
+    // Import getServerSession dynamically to avoid circular dependencies
+    const { getServerSession } = await import('@/server/auth');
+    const session = await getServerSession();
+    if (!session?.user?.id) {
+      return null;
+    }
+
+    const membership = await resolveActiveMembership(session.user.id, session.session.activeTenantId);
+    return membership?.tenantId ?? null;
+  } catch (error) {
+    console.error('Failed to get current tenant ID:', error);
+    return null;
   }
-  
-  return null;
 }
 
 /**
@@ -138,9 +257,9 @@ export async function getCurrentUserEHRService(): Promise<EHRProvider> {
 // ============================================================================
 
 /**
- * Create a development tenant for testing
+ * Create a development tenant for testing, owned by the given user
  */
-export async function createDevelopmentTenant(): Promise<string> {
+export async function createDevelopmentTenant(ownerUserId: string): Promise<string> {
   if (process.env.NODE_ENV !== 'development') {
     throw new Error('Development tenant creation only allowed in development mode');
   }
@@ -154,6 +273,7 @@ export async function createDevelopmentTenant(): Promise<string> {
         patientManagement: true,
         ehrSync: false,
       },
+      ownerUserId,
     });
 
     console.log(`Created development tenant: ${tenant.id}`);
@@ -170,6 +290,10 @@ export async function createDevelopmentTenant(): Promise<string> {
 
 export type { EHRProvider } from '@/types/clinical';
 export { StandaloneClinicService } from './StandaloneClinicService';
+export { FhirEHRProvider, createFhirEHRProvider } from './fhir/FhirEHRProvider';
+export { BestPracticeEHRProvider } from './bridge/bestpractice/BestPracticeEHRProvider';
+export { MedicalDirectorEHRProvider } from './bridge/medicaldirector/MedicalDirectorEHRProvider';
+export { createBridgeEHRProvider } from './bridge/connectors';
 
 // Re-export mock service for backward compatibility during transition
 export { getMockEHRService } from './mock/MockEHRService';
\ No newline at end of file
@@ -68,6 +68,10 @@ export interface PatientSummary {
   phone?: string;
   email?: string;
   
+  // Medicare card, for billing
+  medicareNumber?: string;
+  medicareIrn?: number;
+  
   // Visit history
   lastVisit?: Date;
   totalVisits?: number;
@@ -132,6 +136,7 @@ export interface ClinicalAlert {
 export interface ClinicalNote {
   id: string;
   ehrNoteId?: string;
+  ehrUpdatedAt?: Date; // When the EHR last saved the note as we wrote it
   patientId: string;
   clinicianId: string;
   consultationId?: string;
@@ -155,6 +160,28 @@ export interface ClinicalNote {
   transcriptionId?: string;
   aiConfidence?: number;
   manuallyEdited?: boolean;
+  
+  // Incremented on every change; see ClinicalNoteVersion
+  version?: number;
+}
+
+export type NoteChange = 'created' | 'edited' | 'status-changed' | 'amended';
+
+export interface ClinicalNoteVersion {
+  id: string;
+  noteId: string;
+  version: number;
+  
+  // Snapshot of the note after the change
+  title: string;
+  content: string;
+  status: ClinicalNote['status'];
+  
+  change: NoteChange;
+  authorId?: string;
+  reason?: string; // Why a signed note was amended
+  amendsVersion?: number; // Signed version the amendment supersedes
+  createdAt: Date;
 }
 
 // ============================================================================
@@ -190,7 +217,8 @@ export interface ConsultationState {
   audioFileUrl?: string;
   
   // Processing data
-  transcriptionText?: string;
+  transcriptionText?: string; // Derived from transcriptSegments
+  transcriptSegments?: TranscriptSegment[];
   generatedNote?: string;
   selectedTemplate?: string;
   
@@ -204,6 +232,103 @@ export interface ConsultationState {
   lastError?: Date;
 }
 
+export interface TranscriptSegment {
+  id: string;
+  consultationId: string;
+  sequence: number;
+  speaker: string; // e.g. 'Clinician', 'Patient', 'Speaker 1'
+  startMs: number; // Offset from the start of the consultation
+  endMs: number;
+  text: string;
+  confidence?: number; // 0-1
+  
+  // Recording file the segment came from, used to seek during playback
+  audioSegment: number;
+  audioOffsetMs: number;
+}
+
+// ============================================================================
+// NOTE TEMPLATES
+// ============================================================================
+
+export type NoteTemplateContext = 'medications' | 'allergies';
+
+export interface NoteTemplateField {
+  label: string;
+  required: boolean;
+}
+
+export interface NoteTemplateSection {
+  key: string;
+  heading: string;
+  instructions: string;
+  // Required sections and fields must be addressed by the generated note
+  required: boolean;
+  // Specific items the section should record
+  fields: NoteTemplateField[];
+  // Patient context the section should state alongside what was discussed
+  includeContext?: NoteTemplateContext[];
+}
+
+export interface NoteTemplateDefinition {
+  key: string; // Stable per tenant; stored on consultations and notes
+  name: string;
+  description?: string;
+  noteType: ClinicalNote['noteType'];
+  sections: NoteTemplateSection[];
+}
+
+export interface NoteTemplate extends NoteTemplateDefinition {
+  id: string;
+  version: number;
+  source: string; // Template DSL the sections were parsed from
+  isBuiltIn: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NoteTemplateVersion {
+  id: string;
+  templateId: string;
+  version: number;
+  name: string;
+  noteType: ClinicalNote['noteType'];
+  source: string;
+  sections: NoteTemplateSection[];
+  changeSummary?: string;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+// ============================================================================
+// NOTE CITATIONS
+// ============================================================================
+
+export type NoteCitationSupport =
+  | 'supported'       // Backed by what was said in the consultation
+  | 'unsupported'     // No evidence found - the clinician should check it
+  | 'patient-record'; // Taken from the patient's medications or allergies
+
+export interface NoteCitationEvidence {
+  segmentId: string;
+  speaker: string;
+  startMs: number;
+  endMs: number;
+  excerpt: string;
+}
+
+export interface NoteCitation {
+  id: string;
+  noteId: string;
+  sectionKey: string;
+  statementIndex: number;
+  statement: string;
+  support: NoteCitationSupport;
+  score: number; // 0-1
+  evidence: NoteCitationEvidence[];
+}
+
 // ============================================================================
 // DASHBOARD METRICS
 // ============================================================================
@@ -223,7 +348,7 @@ export interface DashboardStats {
   // Efficiency metrics
   timesSaved?: number; // minutes saved today
   notesGenerated?: number;
-  transcriptionAccuracy?: number; // percentage
+  transcriptionAccuracy?: number; // percentage of today's drafted statements backed by the transcript
 }
 
 export interface PendingAction {